@@ -18,8 +18,24 @@ import {
   ChevronRight,
   Zap,
   Filter,
-  ArrowRight
+  ArrowRight,
+  ArrowDown,
+  ChevronUp,
+  GitBranch,
+  Reply,
+  CornerDownRight,
+  StopCircle,
+  AlertTriangle
 } from 'lucide-react'
+import {
+  FlowStepType,
+  BranchCondition,
+  BRANCH_FIELDS,
+  BRANCH_OPERATORS,
+  createStepId,
+  getStepTargets,
+  validateFlow
+} from '../../../../lib/automationFlow'
 
 export interface TriggerConfig {
   type: 'time' | 'event'
@@ -43,7 +59,8 @@ export interface ConditionConfig {
 }
 
 export interface ActionConfig {
-  type: 'send_message' | 'update_lead_status' | 'assign_lead' | 'create_task' | 'update_tags' | 'wait'
+  id?: string
+  type: FlowStepType
   config: Record<string, any>
   delay?: number // in minutes
 }
@@ -58,6 +75,30 @@ export interface AutomationWorkflow {
   isActive: boolean
 }
 
+const STEP_LABELS: Record<FlowStepType, string> = {
+  send_message: 'Send Message',
+  update_lead_status: 'Update Lead Status',
+  assign_lead: 'Assign Lead',
+  create_task: 'Create Task',
+  update_tags: 'Update Tags',
+  wait: 'Wait/Delay',
+  branch: 'If / Else',
+  wait_for_reply: 'Wait for Reply',
+  goto: 'Go To Step',
+  exit: 'Exit Workflow'
+}
+
+function getStepLabel(steps: ActionConfig[], stepId: string): string {
+  const index = steps.findIndex(step => step.id === stepId)
+  if (index === -1) return 'Missing step'
+  return `Step ${index + 1}: ${STEP_LABELS[steps[index].type]}`
+}
+
+// Older workflows were saved without step ids, which jumps need
+function withStepIds(actions: ActionConfig[]): ActionConfig[] {
+  return actions.map(action => action.id ? action : { ...action, id: createStepId() })
+}
+
 interface AutomationRuleBuilderProps {
   workflow?: AutomationWorkflow
   onSave: (workflow: AutomationWorkflow) => void
@@ -72,7 +113,7 @@ export default function AutomationRuleBuilder({
   onPreview 
 }: AutomationRuleBuilderProps) {
   const [currentWorkflow, setCurrentWorkflow] = useState<AutomationWorkflow>(
-    workflow || {
+    workflow ? { ...workflow, actions: withStepIds(workflow.actions) } : {
       id: '',
       name: '',
       description: '',
@@ -115,6 +156,7 @@ export default function AutomationRuleBuilder({
 
   const addAction = (type: ActionConfig['type']) => {
     const newAction: ActionConfig = {
+      id: createStepId(),
       type,
       config: getDefaultActionConfig(type)
     }
@@ -130,7 +172,27 @@ export default function AutomationRuleBuilder({
   }
 
   const removeAction = (index: number) => {
-    const updatedActions = currentWorkflow.actions.filter((_, i) => i !== index)
+    const removedId = currentWorkflow.actions[index].id
+    // Jumps to the removed step fall back to "next step"
+    const updatedActions = currentWorkflow.actions
+      .filter((_, i) => i !== index)
+      .map(action => {
+        const config = { ...action.config }
+        for (const target of getStepTargets(action)) {
+          if (config[target.key] === removedId) config[target.key] = ''
+        }
+        return { ...action, config }
+      })
+    updateWorkflow({ actions: updatedActions })
+  }
+
+  const moveAction = (index: number, direction: -1 | 1) => {
+    const newIndex = index + direction
+    if (newIndex < 0 || newIndex >= currentWorkflow.actions.length) return
+
+    const updatedActions = [...currentWorkflow.actions]
+    const [moved] = updatedActions.splice(index, 1)
+    updatedActions.splice(newIndex, 0, moved)
     updateWorkflow({ actions: updatedActions })
   }
 
@@ -147,7 +209,18 @@ export default function AutomationRuleBuilder({
       case 'update_tags':
         return { tags: [] }
       case 'wait':
-        return { duration: 60 } // minutes
+        return { duration: 60, unit: 'minutes' }
+      case 'branch':
+        return {
+          conditions: [{ field: 'reply.text', operator: 'contains', value: '' }],
+          match: 'all',
+          trueStep: '',
+          falseStep: ''
+        }
+      case 'wait_for_reply':
+        return { timeout: 2, unit: 'days', replyStep: '', timeoutStep: '' }
+      case 'goto':
+        return { step: '' }
       default:
         return {}
     }
@@ -158,6 +231,12 @@ export default function AutomationRuleBuilder({
       alert('Please enter a workflow name')
       return
     }
+    const flowErrors = validateFlow(currentWorkflow.actions)
+    if (flowErrors.length > 0) {
+      setActiveStep('actions')
+      alert(flowErrors[0])
+      return
+    }
     onSave(currentWorkflow)
   }
 
@@ -282,6 +361,7 @@ export default function AutomationRuleBuilder({
               onAdd={addAction}
               onUpdate={updateAction}
               onRemove={removeAction}
+              onMove={moveAction}
             />
           )}
         </AnimatePresence>
@@ -724,12 +804,14 @@ function ActionsBuilder({
   actions,
   onAdd,
   onUpdate,
-  onRemove
+  onRemove,
+  onMove
 }: {
   actions: ActionConfig[]
   onAdd: (type: ActionConfig['type']) => void
   onUpdate: (index: number, updates: Partial<ActionConfig>) => void
   onRemove: (index: number) => void
+  onMove: (index: number, direction: -1 | 1) => void
 }) {
   const actionTypes = [
     { type: 'send_message', label: 'Send Message', icon: MessageSquare, color: 'blue' },
@@ -740,6 +822,15 @@ function ActionsBuilder({
     { type: 'wait', label: 'Wait/Delay', icon: Clock, color: 'yellow' }
   ]
 
+  const flowTypes = [
+    { type: 'branch', label: 'If / Else', icon: GitBranch, color: 'indigo' },
+    { type: 'wait_for_reply', label: 'Wait for Reply', icon: Reply, color: 'teal' },
+    { type: 'goto', label: 'Go To Step', icon: CornerDownRight, color: 'pink' },
+    { type: 'exit', label: 'Exit Workflow', icon: StopCircle, color: 'red' }
+  ]
+
+  const flowErrors = validateFlow(actions)
+
   return (
     <motion.div
       initial={{ opacity: 0, x: 20 }}
@@ -752,10 +843,11 @@ function ActionsBuilder({
           What should happen?
         </h3>
         <p className="text-gray-600 mb-6">
-          Add actions that will be executed when the trigger fires and conditions are met
+          Add actions that will be executed when the trigger fires and conditions are met.
+          Steps run top to bottom unless a flow control step sends the lead elsewhere.
         </p>
 
-        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 mb-4">
           {actionTypes.map(({ type, label, icon: Icon, color }) => (
             <button
               key={type}
@@ -769,8 +861,38 @@ function ActionsBuilder({
             </button>
           ))}
         </div>
+
+        <p className="text-sm font-medium text-gray-700 mb-2">Flow control</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+          {flowTypes.map(({ type, label, icon: Icon, color }) => (
+            <button
+              key={type}
+              onClick={() => onAdd(type as any)}
+              className={`p-3 border-2 border-dashed border-gray-300 rounded-lg hover:border-${color}-300 hover:bg-${color}-50 transition-colors group`}
+            >
+              <Icon className={`w-6 h-6 text-${color}-600 mx-auto mb-2`} />
+              <p className="text-sm font-medium text-gray-700 group-hover:text-gray-900">
+                {label}
+              </p>
+            </button>
+          ))}
+        </div>
       </div>
 
+      {flowErrors.length > 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div className="flex items-center text-yellow-800 font-medium mb-2">
+            <AlertTriangle className="w-5 h-5 mr-2" />
+            Fix these steps before saving
+          </div>
+          <ul className="list-disc list-inside text-sm text-yellow-800 space-y-1">
+            {flowErrors.map(error => (
+              <li key={error}>{error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {actions.length === 0 ? (
         <div className="text-center py-12 bg-gray-50 rounded-lg">
           <Settings className="w-12 h-12 text-gray-400 mx-auto mb-4" />
@@ -779,33 +901,61 @@ function ActionsBuilder({
           </p>
         </div>
       ) : (
-        <div className="space-y-4">
+        <div>
+          <div className="flex justify-center mb-2">
+            <span className="px-3 py-1 text-xs font-medium rounded-full bg-primary-100 text-primary-700">
+              Start
+            </span>
+          </div>
           {actions.map((action, index) => (
-            <ActionRow
-              key={index}
-              action={action}
-              index={index}
-              onUpdate={onUpdate}
-              onRemove={onRemove}
-            />
+            <div key={action.id || index}>
+              <FlowConnector />
+              <ActionRow
+                action={action}
+                index={index}
+                steps={actions}
+                onUpdate={onUpdate}
+                onRemove={onRemove}
+                onMove={onMove}
+              />
+            </div>
           ))}
+          <FlowConnector />
+          <div className="flex justify-center mt-2">
+            <span className="px-3 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+              End
+            </span>
+          </div>
         </div>
       )}
     </motion.div>
   )
 }
 
+function FlowConnector() {
+  return (
+    <div className="flex flex-col items-center text-gray-300">
+      <div className="w-px h-4 bg-gray-300" />
+      <ArrowDown className="w-4 h-4 -mt-1" />
+    </div>
+  )
+}
+
 // Action Row Component
 function ActionRow({
   action,
   index,
+  steps,
   onUpdate,
-  onRemove
+  onRemove,
+  onMove
 }: {
   action: ActionConfig
   index: number
+  steps: ActionConfig[]
   onUpdate: (index: number, updates: Partial<ActionConfig>) => void
   onRemove: (index: number) => void
+  onMove: (index: number, direction: -1 | 1) => void
 }) {
   const getActionIcon = (type: string) => {
     switch (type) {
@@ -815,6 +965,10 @@ function ActionRow({
       case 'create_task': return Calendar
       case 'update_tags': return Settings
       case 'wait': return Clock
+      case 'branch': return GitBranch
+      case 'wait_for_reply': return Reply
+      case 'goto': return CornerDownRight
+      case 'exit': return StopCircle
       default: return Settings
     }
   }
@@ -827,6 +981,10 @@ function ActionRow({
       case 'create_task': return 'orange'
       case 'update_tags': return 'gray'
       case 'wait': return 'yellow'
+      case 'branch': return 'indigo'
+      case 'wait_for_reply': return 'teal'
+      case 'goto': return 'pink'
+      case 'exit': return 'red'
       default: return 'gray'
     }
   }
@@ -834,8 +992,15 @@ function ActionRow({
   const ActionIcon = getActionIcon(action.type)
   const color = getActionColor(action.type)
 
+  // Steps that jump here, so the graph can be read from either end
+  const incoming = steps.flatMap((step, stepIndex) =>
+    getStepTargets(step)
+      .filter(target => action.id && step.config[target.key] === action.id)
+      .map(target => `Step ${stepIndex + 1} (${target.label})`)
+  )
+
   return (
-    <div className="bg-white border border-gray-200 rounded-lg p-4">
+    <div className={`bg-white border rounded-lg p-4 ${action.type === 'branch' || action.type === 'wait_for_reply' ? `border-${color}-200` : 'border-gray-200'}`}>
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center">
           <div className={`w-10 h-10 bg-${color}-100 rounded-lg flex items-center justify-center mr-3`}>
@@ -843,23 +1008,106 @@ function ActionRow({
           </div>
           <div>
             <h4 className="font-medium text-gray-900">
-              {action.type.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+              {STEP_LABELS[action.type]}
             </h4>
-            <p className="text-sm text-gray-600">Step {index + 1}</p>
+            <p className="text-sm text-gray-600">
+              Step {index + 1}
+              {incoming.length > 0 && ` • reached from ${incoming.join(', ')}`}
+            </p>
           </div>
         </div>
-        <button
-          onClick={() => onRemove(index)}
-          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-        >
-          <X className="w-5 h-5" />
-        </button>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => onMove(index, -1)}
+            disabled={index === 0}
+            className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors disabled:opacity-30"
+            title="Move up"
+          >
+            <ChevronUp className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => onMove(index, 1)}
+            disabled={index === steps.length - 1}
+            className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors disabled:opacity-30"
+            title="Move down"
+          >
+            <ChevronDown className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => onRemove(index)}
+            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
       </div>
 
       <ActionConfigForm
         action={action}
+        index={index}
+        steps={steps}
         onChange={(updates) => onUpdate(index, updates)}
       />
+
+      {getStepTargets(action).length > 0 && (
+        <div className="mt-4 pt-3 border-t border-gray-100 flex flex-wrap gap-2">
+          {getStepTargets(action).map(target => (
+            <span
+              key={target.key}
+              className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-${color}-50 text-${color}-700`}
+            >
+              <CornerDownRight className="w-3 h-3 mr-1" />
+              {target.label} → {action.config[target.key]
+                ? getStepLabel(steps, action.config[target.key])
+                : index + 1 < steps.length ? `Step ${index + 2}` : 'End'}
+            </span>
+          ))}
+        </div>
+      )}
+      {action.type === 'exit' && (
+        <p className="mt-3 text-xs text-gray-500">The workflow ends here for this lead</p>
+      )}
+    </div>
+  )
+}
+
+// Jump target picker used by the flow control steps
+function StepTargetSelect({
+  label,
+  value,
+  index,
+  steps,
+  allowNext = true,
+  onChange
+}: {
+  label: string
+  value: string
+  index: number
+  steps: ActionConfig[]
+  allowNext?: boolean
+  onChange: (stepId: string) => void
+}) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {label}
+      </label>
+      <select
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+      >
+        {allowNext ? (
+          <option value="">{index + 1 < steps.length ? `Next step (Step ${index + 2})` : 'End of workflow'}</option>
+        ) : (
+          <option value="">Select step</option>
+        )}
+        {steps.map((step, stepIndex) => stepIndex !== index && step.id && (
+          <option key={step.id} value={step.id}>
+            Step {stepIndex + 1}: {STEP_LABELS[step.type]}
+          </option>
+        ))}
+      </select>
     </div>
   )
 }
@@ -867,9 +1115,13 @@ function ActionRow({
 // Action Config Form Component
 function ActionConfigForm({
   action,
+  index,
+  steps,
   onChange
 }: {
   action: ActionConfig
+  index: number
+  steps: ActionConfig[]
   onChange: (updates: Partial<ActionConfig>) => void
 }) {
   const updateConfig = (configUpdates: Record<string, any>) => {
@@ -1000,16 +1252,182 @@ function ActionConfigForm({
       return (
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Wait Duration (minutes)
+            Wait Duration
           </label>
-          <input
-            type="number"
-            value={action.config.duration || 60}
-            onChange={(e) => updateConfig({ duration: parseInt(e.target.value) || 60 })}
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
-            min="1"
-            placeholder="60"
-          />
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              value={action.config.duration || 60}
+              onChange={(e) => updateConfig({ duration: parseInt(e.target.value) || 60 })}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              min="1"
+              placeholder="60"
+            />
+            <select
+              value={action.config.unit || 'minutes'}
+              onChange={(e) => updateConfig({ unit: e.target.value })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="minutes">Minutes</option>
+              <option value="hours">Hours</option>
+              <option value="days">Days</option>
+            </select>
+          </div>
+        </div>
+      )
+
+    case 'branch': {
+      const conditions: BranchCondition[] = action.config.conditions || []
+      const updateBranchCondition = (conditionIndex: number, updates: Partial<BranchCondition>) => {
+        updateConfig({
+          conditions: conditions.map((condition, i) => i === conditionIndex ? { ...condition, ...updates } : condition)
+        })
+      }
+
+      return (
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2 text-sm text-gray-700">
+            <span>Take the Yes path when</span>
+            <select
+              value={action.config.match || 'all'}
+              onChange={(e) => updateConfig({ match: e.target.value })}
+              className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="all">all</option>
+              <option value="any">any</option>
+            </select>
+            <span>of these match</span>
+          </div>
+
+          {conditions.map((condition, conditionIndex) => (
+            <div key={conditionIndex} className="grid grid-cols-1 md:grid-cols-4 gap-2">
+              <select
+                value={condition.field}
+                onChange={(e) => updateBranchCondition(conditionIndex, { field: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              >
+                {BRANCH_FIELDS.map(field => (
+                  <option key={field.value} value={field.value}>{field.label}</option>
+                ))}
+              </select>
+              <select
+                value={condition.operator}
+                onChange={(e) => updateBranchCondition(conditionIndex, { operator: e.target.value as BranchCondition['operator'] })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              >
+                {BRANCH_OPERATORS.map(operator => (
+                  <option key={operator.value} value={operator.value}>{operator.label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={condition.value ?? ''}
+                onChange={(e) => updateBranchCondition(conditionIndex, { value: e.target.value })}
+                disabled={condition.operator === 'is_set' || condition.operator === 'is_not_set'}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 disabled:bg-gray-100"
+                placeholder={condition.field === 'reply.received' ? 'true' : 'YES'}
+              />
+              <button
+                onClick={() => updateConfig({ conditions: conditions.filter((_, i) => i !== conditionIndex) })}
+                className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 mx-auto" />
+              </button>
+            </div>
+          ))}
+
+          <button
+            onClick={() => updateConfig({ conditions: [...conditions, { field: 'lead.status', operator: 'equals', value: '' }] })}
+            className="text-sm text-primary-600 hover:text-primary-700 font-medium flex items-center"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add condition
+          </button>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <StepTargetSelect
+              label="If yes, continue at"
+              value={action.config.trueStep}
+              index={index}
+              steps={steps}
+              onChange={(trueStep) => updateConfig({ trueStep })}
+            />
+            <StepTargetSelect
+              label="Otherwise, continue at"
+              value={action.config.falseStep}
+              index={index}
+              steps={steps}
+              onChange={(falseStep) => updateConfig({ falseStep })}
+            />
+          </div>
+        </div>
+      )
+    }
+
+    case 'wait_for_reply':
+      return (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Give up after
+            </label>
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                value={action.config.timeout || 2}
+                onChange={(e) => updateConfig({ timeout: parseInt(e.target.value) || 1 })}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+                min="1"
+              />
+              <select
+                value={action.config.unit || 'days'}
+                onChange={(e) => updateConfig({ unit: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500"
+              >
+                <option value="minutes">Minutes</option>
+                <option value="hours">Hours</option>
+                <option value="days">Days</option>
+              </select>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <StepTargetSelect
+              label="When they reply, continue at"
+              value={action.config.replyStep}
+              index={index}
+              steps={steps}
+              onChange={(replyStep) => updateConfig({ replyStep })}
+            />
+            <StepTargetSelect
+              label="If no reply, continue at"
+              value={action.config.timeoutStep}
+              index={index}
+              steps={steps}
+              onChange={(timeoutStep) => updateConfig({ timeoutStep })}
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Add an If / Else step on the reply path to check what they said, e.g. reply text contains YES
+          </p>
+        </div>
+      )
+
+    case 'goto':
+      return (
+        <StepTargetSelect
+          label="Continue at"
+          value={action.config.step}
+          index={index}
+          steps={steps}
+          allowNext={false}
+          onChange={(step) => updateConfig({ step })}
+        />
+      )
+
+    case 'exit':
+      return (
+        <div className="text-gray-500 text-sm">
+          Leads that reach this step stop here. No further steps run for them.
         </div>
       )
 
@@ -1106,13 +1524,20 @@ function WorkflowPreview({
                 <h4 className="font-medium text-gray-900 mb-2">Actions</h4>
                 <div className="space-y-2">
                   {workflow.actions.map((action, index) => (
-                    <div key={index} className="bg-green-50 border border-green-200 rounded-lg p-3">
+                    <div key={action.id || index} className="bg-green-50 border border-green-200 rounded-lg p-3">
                       <div className="flex items-center">
                         <Settings className="w-5 h-5 text-green-600 mr-2" />
                         <span className="text-green-800">
-                          Step {index + 1}: {action.type.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                          Step {index + 1}: {STEP_LABELS[action.type]}
                         </span>
                       </div>
+                      {getStepTargets(action).map(target => (
+                        <p key={target.key} className="ml-7 mt-1 text-sm text-green-700">
+                          {target.label} → {action.config[target.key]
+                            ? getStepLabel(workflow.actions, action.config[target.key])
+                            : index + 1 < workflow.actions.length ? `Step ${index + 2}` : 'End'}
+                        </p>
+                      ))}
                     </div>
                   ))}
                 </div>
@@ -21,7 +21,9 @@ import {
   RefreshCw,
   Activity,
   Eye,
-  Zap
+  Zap,
+  Hourglass,
+  XCircle
 } from 'lucide-react'
 import AdminLayout from '../components/AdminLayout'
 import toast from 'react-hot-toast'
@@ -40,14 +42,47 @@ function AutomationPageContent() {
   const [editingWorkflow, setEditingWorkflow] = useState<AutomationWorkflow | null>(null)
   const [executions, setExecutions] = useState<any[]>([])
   const [showExecutions, setShowExecutions] = useState(false)
+  const [waitingInstances, setWaitingInstances] = useState<any[]>([])
   const [showMonitoring, setShowMonitoring] = useState(false)
   const [monitoringAutomationId, setMonitoringAutomationId] = useState<string | null>(null)
 
   useEffect(() => {
     loadAutomations()
     loadExecutions()
+    loadWaitingInstances()
   }, [])
 
+  const loadWaitingInstances = async () => {
+    try {
+      const response = await fetch('/api/automations/waiting')
+      const data = await response.json()
+      if (data.success) {
+        setWaitingInstances(data.instances)
+      }
+    } catch (error) {
+      console.error('Failed to load waiting instances:', error)
+    }
+  }
+
+  const cancelWaitingInstance = async (id: string) => {
+    if (!confirm('Cancel this waiting instance? Its remaining actions will not run.')) return
+
+    try {
+      const response = await fetch(`/api/automations/waiting/${id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        setWaitingInstances(prev => prev.filter(instance => instance.id !== id))
+        toast.success('Waiting instance cancelled')
+        loadExecutions()
+      } else {
+        throw new Error(data.error || 'Failed to cancel waiting instance')
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to cancel waiting instance')
+    }
+  }
+
   const loadExecutions = async () => {
     try {
       const response = await fetch('/api/automations/executions')
@@ -148,6 +183,7 @@ function AutomationPageContent() {
       if (data.success) {
         toast.success(`Automation execution started (ID: ${data.executionId})`)
         loadExecutions() // Refresh executions list
+        loadWaitingInstances()
         loadAutomations() // Refresh automations to update stats
       } else {
         throw new Error(data.error || 'Failed to execute automation')
@@ -185,7 +221,7 @@ function AutomationPageContent() {
         setEditingWorkflow(null)
         loadAutomations()
       } else {
-        throw new Error(data.error || 'Failed to save automation')
+        throw new Error(data.errors?.[0] || data.error || 'Failed to save automation')
       }
     } catch (error) {
       toast.error(error instanceof Error ? error.message : 'Failed to save automation')
@@ -531,6 +567,7 @@ function AutomationPageContent() {
                             execution.status === 'COMPLETED' ? 'bg-green-500' :
                             execution.status === 'RUNNING' ? 'bg-blue-500' :
                             execution.status === 'FAILED' ? 'bg-red-500' :
+                            execution.status === 'WAITING' ? 'bg-purple-500' :
                             'bg-yellow-500'
                           }`} />
                           <div>
@@ -569,6 +606,77 @@ function AutomationPageContent() {
           )}
         </AnimatePresence>
 
+        {/* Waiting Instances */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.45 }}
+          className="bg-white rounded-xl shadow-sm border border-gray-100"
+        >
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Waiting Instances</h2>
+                <p className="text-sm text-gray-600 mt-1">
+                  Workflows paused at a wait step, resumed automatically when due
+                </p>
+              </div>
+              <button
+                onClick={loadWaitingInstances}
+                className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors"
+              >
+                <RefreshCw className="w-5 h-5" />
+              </button>
+            </div>
+          </div>
+
+          <div className="divide-y divide-gray-200">
+            {waitingInstances.length === 0 ? (
+              <div className="p-6 text-center text-gray-500">
+                No workflows are waiting
+              </div>
+            ) : (
+              waitingInstances.map(instance => (
+                <div key={instance.id} className="p-6 flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <div className="w-10 h-10 bg-purple-100 rounded-lg flex items-center justify-center">
+                      <Hourglass className="w-5 h-5 text-purple-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium text-gray-900">{instance.automationName}</p>
+                      <p className="text-sm text-gray-600">
+                        {instance.targetName || instance.targetId}
+                        {instance.targetPhone && ` • ${instance.targetPhone}`}
+                        {instance.replyActionIndex != null
+                          ? ' • waiting for a reply'
+                          : ` • resumes at step ${instance.nextActionIndex + 1}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-4">
+                    <div className="text-right">
+                      <p className="text-sm text-gray-600">
+                        {instance.status === 'RUNNING' ? 'Resuming now' : new Date(instance.runAt).toLocaleString()}
+                      </p>
+                      {instance.status === 'WAITING' && new Date(instance.runAt).getTime() > Date.now() && (
+                        <p className="text-xs text-gray-500">{formatNextRun(instance.runAt)}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => cancelWaitingInstance(instance.id)}
+                      disabled={instance.status !== 'WAITING'}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Cancel"
+                    >
+                      <XCircle className="w-5 h-5" />
+                    </button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </motion.div>
+
         {/* Quick Templates */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
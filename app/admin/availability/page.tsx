@@ -0,0 +1,363 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Clock,
+  CalendarOff,
+  Plus,
+  Trash2,
+  Save,
+  CheckCircle,
+  XCircle
+} from 'lucide-react'
+import toast from 'react-hot-toast'
+import RouteProtection from '../../components/RouteProtection'
+import AdminLayout from '../components/AdminLayout'
+
+interface WorkingSchedule {
+  maxCapacity: number
+  workingHours: { start: string; end: string }
+  workingDays: string[]
+  timeZone: string
+}
+
+interface OutOfOfficeRange {
+  id: string
+  startDate: string
+  endDate: string
+  reason: string | null
+}
+
+interface AvailabilityStatus {
+  isAvailable: boolean
+  reason?: string
+  outOfOfficeUntil?: string
+}
+
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+const TIME_ZONES = [
+  'Asia/Kolkata',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Europe/London',
+  'America/New_York',
+  'UTC'
+]
+
+function AvailabilityPageContent() {
+  const [schedule, setSchedule] = useState<WorkingSchedule | null>(null)
+  const [outOfOffice, setOutOfOffice] = useState<OutOfOfficeRange[]>([])
+  const [status, setStatus] = useState<AvailabilityStatus | null>(null)
+  const [activeLeads, setActiveLeads] = useState(0)
+  const [canEditCapacity, setCanEditCapacity] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [newRange, setNewRange] = useState({ startDate: '', endDate: '', reason: '' })
+
+  useEffect(() => {
+    loadAvailability()
+  }, [])
+
+  const loadAvailability = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/employee/availability')
+      const data = await response.json()
+
+      if (data.success) {
+        setSchedule(data.schedule)
+        setOutOfOffice(data.outOfOffice)
+        setStatus(data.status)
+        setActiveLeads(data.activeLeads)
+        setCanEditCapacity(data.canEditCapacity)
+      } else {
+        toast.error(data.message || 'Failed to load availability')
+      }
+    } catch (error) {
+      toast.error('Failed to load availability')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSchedule = async () => {
+    if (!schedule) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/employee/availability', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          workingHours: schedule.workingHours,
+          workingDays: schedule.workingDays,
+          timeZone: schedule.timeZone,
+          ...(canEditCapacity ? { maxCapacity: schedule.maxCapacity } : {})
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Working schedule saved')
+        await loadAvailability()
+      } else {
+        toast.error(data.errors?.[0] || data.message || 'Failed to save schedule')
+      }
+    } catch (error) {
+      toast.error('Failed to save schedule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addOutOfOffice = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch('/api/employee/availability/out-of-office', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          startDate: new Date(newRange.startDate).toISOString(),
+          endDate: new Date(newRange.endDate).toISOString(),
+          reason: newRange.reason || undefined
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Out-of-office added')
+        setNewRange({ startDate: '', endDate: '', reason: '' })
+        await loadAvailability()
+      } else {
+        toast.error(data.errors?.[0] || data.message || 'Failed to add out-of-office')
+      }
+    } catch (error) {
+      toast.error('Failed to add out-of-office')
+    }
+  }
+
+  const removeOutOfOffice = async (range: OutOfOfficeRange) => {
+    try {
+      const response = await fetch(`/api/employee/availability/out-of-office/${range.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        setOutOfOffice(prev => prev.filter(r => r.id !== range.id))
+        toast.success('Out-of-office removed')
+        await loadAvailability()
+      } else {
+        toast.error(data.message || 'Failed to remove out-of-office')
+      }
+    } catch (error) {
+      toast.error('Failed to remove out-of-office')
+    }
+  }
+
+  const toggleDay = (day: string) => {
+    if (!schedule) return
+    const workingDays = schedule.workingDays.includes(day)
+      ? schedule.workingDays.filter(d => d !== day)
+      : [...schedule.workingDays, day]
+    setSchedule({ ...schedule, workingDays })
+  }
+
+  if (loading || !schedule) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  const timeZones = TIME_ZONES.includes(schedule.timeZone) ? TIME_ZONES : [schedule.timeZone, ...TIME_ZONES]
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">My Availability</h1>
+          <p className="text-gray-600 mt-1">
+            New leads are only assigned to you during your working hours, when you are not out of office and below your capacity
+          </p>
+        </div>
+
+        {/* Current status */}
+        {status && (
+          <div className={`rounded-xl border p-4 flex items-center ${status.isAvailable ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'}`}>
+            {status.isAvailable ? <CheckCircle className="w-5 h-5 mr-2" /> : <XCircle className="w-5 h-5 mr-2" />}
+            <span className="text-sm font-medium">
+              {status.isAvailable ? 'Available for new leads' : `Not receiving new leads: ${status.reason}`}
+              {status.outOfOfficeUntil && ` until ${new Date(status.outOfOfficeUntil).toLocaleString()}`}
+            </span>
+            <span className="ml-auto text-sm">
+              {activeLeads}/{schedule.maxCapacity} open leads
+            </span>
+          </div>
+        )}
+
+        {/* Working schedule */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center">
+            <Clock className="w-5 h-5 mr-2 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Working Schedule</h2>
+          </div>
+
+          <div className="p-6 space-y-5">
+            <div className="grid md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Start</label>
+                <input
+                  type="time"
+                  value={schedule.workingHours.start}
+                  onChange={(e) => setSchedule({ ...schedule, workingHours: { ...schedule.workingHours, start: e.target.value } })}
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">End</label>
+                <input
+                  type="time"
+                  value={schedule.workingHours.end}
+                  onChange={(e) => setSchedule({ ...schedule, workingHours: { ...schedule.workingHours, end: e.target.value } })}
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Time zone</label>
+                <select
+                  value={schedule.timeZone}
+                  onChange={(e) => setSchedule({ ...schedule, timeZone: e.target.value })}
+                  className="input-field"
+                >
+                  {timeZones.map(zone => (
+                    <option key={zone} value={zone}>{zone}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Working days</label>
+              <div className="flex flex-wrap gap-2">
+                {DAYS.map(day => (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleDay(day)}
+                    className={`px-3 py-1 text-xs font-medium rounded-full border ${schedule.workingDays.includes(day) ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                  >
+                    {day.slice(0, 3)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="md:w-1/3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Lead capacity</label>
+              <input
+                type="number"
+                min={1}
+                max={500}
+                value={schedule.maxCapacity}
+                onChange={(e) => setSchedule({ ...schedule, maxCapacity: Number(e.target.value) })}
+                disabled={!canEditCapacity}
+                className="input-field disabled:bg-gray-100"
+              />
+              {!canEditCapacity && (
+                <p className="text-xs text-gray-500 mt-1">Ask an admin to change your capacity</p>
+              )}
+            </div>
+
+            <div className="flex justify-end">
+              <button onClick={saveSchedule} disabled={saving} className="btn-primary flex items-center disabled:opacity-50">
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Schedule'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Out of office */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center">
+            <CalendarOff className="w-5 h-5 mr-2 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Out of Office</h2>
+          </div>
+
+          <form onSubmit={addOutOfOffice} className="p-6 grid md:grid-cols-4 gap-4 items-end border-b border-gray-200">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="datetime-local"
+                value={newRange.startDate}
+                onChange={(e) => setNewRange({ ...newRange, startDate: e.target.value })}
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+              <input
+                type="datetime-local"
+                value={newRange.endDate}
+                onChange={(e) => setNewRange({ ...newRange, endDate: e.target.value })}
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <input
+                value={newRange.reason}
+                onChange={(e) => setNewRange({ ...newRange, reason: e.target.value })}
+                placeholder="Leave, training..."
+                className="input-field"
+              />
+            </div>
+            <button type="submit" className="btn-secondary flex items-center justify-center">
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </button>
+          </form>
+
+          {outOfOffice.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No upcoming out-of-office</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {outOfOffice.map(range => (
+                <div key={range.id} className="p-6 flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {new Date(range.startDate).toLocaleString()} – {new Date(range.endDate).toLocaleString()}
+                    </div>
+                    {range.reason && <div className="text-xs text-gray-500 mt-1">{range.reason}</div>}
+                  </div>
+                  <button
+                    onClick={() => removeOutOfOffice(range)}
+                    className="p-2 text-gray-600 hover:text-red-600"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default function AvailabilityPage() {
+  return (
+    <RouteProtection>
+      <AvailabilityPageContent />
+    </RouteProtection>
+  )
+}
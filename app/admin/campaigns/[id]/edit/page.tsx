@@ -17,8 +17,11 @@ import {
 } from 'lucide-react'
 import AdminLayout from '../../../components/AdminLayout'
 import toast from 'react-hot-toast'
-import { MESSAGE_TEMPLATES, getTemplatesByType, formatMessage, validateMessageLength } from '../../../../../lib/messageTemplates'
+import { DEFAULT_LANGUAGE, formatMessage, getCampaignParameters, validateMessageLength } from '../../../../../lib/messageTemplates'
+import { useMessageTemplates } from '../../../messages/hooks/useMessageTemplates'
 import DataService, { Campaign, Contact } from '../../../../../lib/dataService'
+import { parseZonedDateTime, formatZonedDateTime } from '../../../../../lib/zonedTime'
+import { TIME_ZONES } from '../../components/SendWindowForm'
 
 interface EditCampaignFormData {
   name: string
@@ -30,8 +33,10 @@ interface EditCampaignFormData {
   mediaUrl?: string
   mediaType?: 'image' | 'video' | 'document'
   targetContacts: string[]
+  // Wall-clock time (YYYY-MM-DDTHH:mm) in scheduledTimeZone
   scheduledAt?: string
-  status: 'DRAFT' | 'SCHEDULED' | 'RUNNING' | 'COMPLETED' | 'PAUSED' | 'CANCELLED'
+  scheduledTimeZone: string
+  status: 'DRAFT' | 'SCHEDULED' | 'LAUNCHING' | 'RUNNING' | 'COMPLETED' | 'PAUSED' | 'CANCELLED'
 }
 
 export default function EditCampaignPage() {
@@ -44,6 +49,7 @@ export default function EditCampaignPage() {
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
   const [previewMessage, setPreviewMessage] = useState('')
+  const { templates } = useMessageTemplates('APPROVED', DEFAULT_LANGUAGE)
   
   const [formData, setFormData] = useState<EditCampaignFormData>({
     name: '',
@@ -53,6 +59,7 @@ export default function EditCampaignPage() {
     useTemplate: true,
     parameters: {},
     targetContacts: [],
+    scheduledTimeZone: 'Asia/Kolkata',
     status: 'DRAFT'
   })
 
@@ -63,7 +70,7 @@ export default function EditCampaignPage() {
 
   useEffect(() => {
     updatePreviewMessage()
-  }, [formData.templateId, formData.customMessage, formData.parameters, formData.useTemplate])
+  }, [formData.templateId, formData.customMessage, formData.parameters, formData.useTemplate, templates])
 
   const loadCampaign = async () => {
     try {
@@ -79,7 +86,7 @@ export default function EditCampaignPage() {
       // Parse template parameters if they exist
       let parameters = {}
       try {
-        if (data.message && MESSAGE_TEMPLATES.find(t => t.name === data.createdBy)) {
+        if (data.message && templates.find(t => t.name === data.createdBy)) {
           // This is a simplified approach - in real implementation, 
           // you'd store template parameters separately
           parameters = {}
@@ -96,7 +103,8 @@ export default function EditCampaignPage() {
         useTemplate: false, // Default to custom message for existing campaigns
         parameters,
         targetContacts: [], // Would need to fetch from campaign_contacts table
-        scheduledAt: data.scheduledAt,
+        scheduledAt: data.scheduledAt ? formatZonedDateTime(new Date(data.scheduledAt), data.scheduledTimeZone || 'Asia/Kolkata') : undefined,
+        scheduledTimeZone: data.scheduledTimeZone || 'Asia/Kolkata',
         status: data.status
       })
     } catch (error) {
@@ -117,8 +125,11 @@ export default function EditCampaignPage() {
   }
 
   const updatePreviewMessage = () => {
-    if (formData.useTemplate && formData.templateId) {
-      const result = formatMessage(formData.templateId, formData.parameters)
+    const template = templates.find(t => t.id === formData.templateId)
+    if (formData.useTemplate && template) {
+      // Contact and lead fields are filled in per recipient, so the preview shows them as placeholders
+      const recipientFields = template.parameters.filter(param => !getCampaignParameters(template).includes(param))
+      const result = formatMessage(template, formData.parameters, null, { placeholders: recipientFields })
       if (result.success) {
         setPreviewMessage(result.message || '')
       } else {
@@ -173,18 +184,31 @@ export default function EditCampaignPage() {
       return
     }
 
+    // The picked wall-clock time is in the chosen zone, not the browser's
+    const scheduledAt = formData.scheduledAt ? parseZonedDateTime(formData.scheduledAt, formData.scheduledTimeZone) : null
+    if (newStatus === 'SCHEDULED' && (!scheduledAt || scheduledAt.getTime() <= Date.now())) {
+      toast.error('Pick a time in the future to schedule the campaign')
+      return
+    }
+
     try {
       setSaving(true)
       
       const updateData = {
         name: formData.name,
         message: previewMessage,
-        scheduledAt: formData.scheduledAt,
-        status: (newStatus || formData.status) as 'DRAFT' | 'SCHEDULED' | 'RUNNING' | 'COMPLETED' | 'PAUSED' | 'CANCELLED',
+        scheduledAt: scheduledAt?.toISOString(),
+        scheduledTimeZone: scheduledAt ? formData.scheduledTimeZone : undefined,
+        status: (newStatus || formData.status) as Campaign['status'],
         updatedAt: new Date().toISOString()
       }
 
-      await DataService.updateCampaign(campaignId, updateData)
+      // Fails once the scheduled launcher has claimed the campaign
+      if (!await DataService.updateCampaign(campaignId, updateData)) {
+        toast.error('Failed to update campaign. It may have started already.')
+        loadCampaign()
+        return
+      }
       
       toast.success('Campaign updated successfully')
       router.push('/admin/campaigns')
@@ -217,9 +241,9 @@ export default function EditCampaignPage() {
   }
 
   const selectedTemplate = formData.templateId ? 
-    MESSAGE_TEMPLATES.find(t => t.id === formData.templateId) : null
+    templates.find(t => t.id === formData.templateId) : null
 
-  const availableTemplates = getTemplatesByType(formData.type)
+  const availableTemplates = templates.filter(t => t.type === formData.type)
   const messageValidation = validateMessageLength(previewMessage, formData.type)
 
   return (
@@ -378,13 +402,13 @@ export default function EditCampaignPage() {
                         </select>
                       </div>
 
-                      {selectedTemplate && selectedTemplate.parameters.length > 0 && (
+                      {selectedTemplate && getCampaignParameters(selectedTemplate).length > 0 && (
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-2">
                             Template Parameters
                           </label>
                           <div className="space-y-3">
-                            {selectedTemplate.parameters.map(param => (
+                            {getCampaignParameters(selectedTemplate).map(param => (
                               <div key={param}>
                                 <label className="block text-xs font-medium text-gray-600 mb-1">
                                   {param}
@@ -437,17 +461,36 @@ export default function EditCampaignPage() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Scheduled Date & Time
                   </label>
-                  <input
-                    type="datetime-local"
-                    value={formData.scheduledAt || ''}
-                    onChange={(e) => handleInputChange('scheduledAt', e.target.value)}
-                    disabled={!canEdit()}
-                    min={new Date().toISOString().slice(0, 16)}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="datetime-local"
+                      value={formData.scheduledAt || ''}
+                      onChange={(e) => handleInputChange('scheduledAt', e.target.value)}
+                      disabled={!canEdit()}
+                      min={formatZonedDateTime(new Date(), formData.scheduledTimeZone)}
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
+                    />
+                    <select
+                      value={formData.scheduledTimeZone}
+                      onChange={(e) => handleInputChange('scheduledTimeZone', e.target.value)}
+                      disabled={!canEdit()}
+                      className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:bg-gray-50 disabled:text-gray-500"
+                    >
+                      {(TIME_ZONES.includes(formData.scheduledTimeZone) ? TIME_ZONES : [formData.scheduledTimeZone, ...TIME_ZONES]).map(zone => (
+                        <option key={zone} value={zone}>{zone}</option>
+                      ))}
+                    </select>
+                  </div>
                   <p className="text-xs text-gray-500 mt-1">
-                    Leave empty for immediate sending
+                    {formData.scheduledAt
+                      ? `Starts ${parseZonedDateTime(formData.scheduledAt, formData.scheduledTimeZone)?.toLocaleString()} your time`
+                      : 'Leave empty for immediate sending'}
                   </p>
+                  {campaign.status === 'SCHEDULED' && campaign.launchError && (
+                    <p className="text-xs text-red-600 mt-1">
+                      Last launch attempt failed: {campaign.launchError}. It is retried automatically.
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -555,7 +598,7 @@ export default function EditCampaignPage() {
                     <div className="flex justify-between">
                       <span>Scheduled:</span>
                       <span className="font-medium">
-                        {new Date(formData.scheduledAt).toLocaleDateString()}
+                        {formData.scheduledAt.replace('T', ' ')} {formData.scheduledTimeZone}
                       </span>
                     </div>
                   )}
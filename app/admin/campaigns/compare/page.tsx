@@ -0,0 +1,220 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Download } from 'lucide-react'
+import toast from 'react-hot-toast'
+import RouteProtection from '../../../components/RouteProtection'
+import AdminLayout from '../../components/AdminLayout'
+
+interface CampaignOption {
+  id: string
+  name: string
+  status: string
+}
+
+interface StoredReport {
+  id: string
+  campaignId: string
+  campaignName: string
+  trigger: string
+  createdAt: string
+}
+
+interface ComparisonRow {
+  metric: string
+  label: string
+  a: number | null
+  b: number | null
+  difference: number | null
+}
+
+interface ReportPick {
+  campaignId: string
+  reports: StoredReport[]
+  reportId: string
+}
+
+const EMPTY_PICK: ReportPick = { campaignId: '', reports: [], reportId: '' }
+
+// Metrics where a lower number is the better result
+const LOWER_IS_BETTER = ['failedCount', 'estimatedCost', 'costPerResponse', 'averageResponseHours', 'durationMinutes']
+
+function ComparePageContent() {
+  const [campaigns, setCampaigns] = useState<CampaignOption[]>([])
+  const [picks, setPicks] = useState<[ReportPick, ReportPick]>([EMPTY_PICK, EMPTY_PICK])
+  const [rows, setRows] = useState<ComparisonRow[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadCampaigns()
+  }, [])
+
+  useEffect(() => {
+    if (picks[0].reportId && picks[1].reportId) {
+      loadComparison(picks[0].reportId, picks[1].reportId)
+    } else {
+      setRows([])
+    }
+  }, [picks[0].reportId, picks[1].reportId])
+
+  const loadCampaigns = async () => {
+    try {
+      const response = await fetch('/api/campaigns')
+      const data = await response.json()
+
+      if (data.success) {
+        setCampaigns(data.campaigns.filter((campaign: CampaignOption) => !['DRAFT', 'SCHEDULED', 'LAUNCHING'].includes(campaign.status)))
+      } else {
+        toast.error(data.message || 'Failed to load campaigns')
+      }
+    } catch (error) {
+      toast.error('Failed to load campaigns')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updatePick = (index: 0 | 1, pick: ReportPick) => {
+    setPicks(current => index === 0 ? [pick, current[1]] : [current[0], pick])
+  }
+
+  const selectCampaign = async (index: 0 | 1, campaignId: string) => {
+    updatePick(index, { ...EMPTY_PICK, campaignId })
+    if (!campaignId) return
+
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/report`)
+      const data = await response.json()
+
+      if (data.success) {
+        if (data.reports.length === 0) {
+          toast.error('This campaign has no saved reports yet')
+        }
+        // Reports come newest first, so the latest is compared by default
+        updatePick(index, { campaignId, reports: data.reports, reportId: data.reports[0]?.id || '' })
+      } else {
+        toast.error(data.message || 'Failed to load reports')
+      }
+    } catch (error) {
+      toast.error('Failed to load reports')
+    }
+  }
+
+  const loadComparison = async (a: string, b: string) => {
+    try {
+      const response = await fetch(`/api/campaigns/reports/compare?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setRows(data.comparison.rows)
+      } else {
+        toast.error(data.message || 'Failed to compare reports')
+      }
+    } catch (error) {
+      toast.error('Failed to compare reports')
+    }
+  }
+
+  const differenceColor = (row: ComparisonRow) => {
+    if (!row.difference) return 'text-gray-500'
+    const better = LOWER_IS_BETTER.includes(row.metric) ? row.difference < 0 : row.difference > 0
+    return better ? 'text-green-600' : 'text-red-600'
+  }
+
+  const campaignName = (pick: ReportPick) => campaigns.find(campaign => campaign.id === pick.campaignId)?.name || ''
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/admin/campaigns" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Campaigns
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Compare Campaigns</h1>
+          <p className="text-gray-600 mt-1">
+            Two campaigns side by side, from the reports saved when they finished or when someone took a snapshot.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 grid md:grid-cols-2 gap-6">
+          {([0, 1] as const).map(index => (
+            <div key={index} className="space-y-3">
+              <label className="block text-sm font-medium text-gray-700">Campaign {index === 0 ? 'A' : 'B'}</label>
+              <select
+                value={picks[index].campaignId}
+                onChange={(e) => selectCampaign(index, e.target.value)}
+                className="input-field"
+                disabled={loading}
+              >
+                <option value="">Select a campaign</option>
+                {campaigns.map(campaign => (
+                  <option key={campaign.id} value={campaign.id}>{campaign.name}</option>
+                ))}
+              </select>
+              {picks[index].reports.length > 0 && (
+                <div className="flex items-center space-x-3">
+                  <select
+                    value={picks[index].reportId}
+                    onChange={(e) => updatePick(index, { ...picks[index], reportId: e.target.value })}
+                    className="input-field"
+                  >
+                    {picks[index].reports.map(report => (
+                      <option key={report.id} value={report.id}>
+                        {new Date(report.createdAt).toLocaleString()} ({report.trigger === 'COMPLETED' ? 'on completion' : 'manual'})
+                      </option>
+                    ))}
+                  </select>
+                  <a
+                    href={`/api/campaigns/${picks[index].campaignId}/report/${picks[index].reportId}?format=pdf`}
+                    className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    PDF
+                  </a>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {rows.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Metric</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{campaignName(picks[0]) || 'A'}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{campaignName(picks[1]) || 'B'}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Difference</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {rows.map(row => (
+                  <tr key={row.metric}>
+                    <td className="px-6 py-3 text-sm text-gray-900">{row.label}</td>
+                    <td className="px-6 py-3 text-sm text-right text-gray-900">{row.a ?? 'N/A'}</td>
+                    <td className="px-6 py-3 text-sm text-right text-gray-900">{row.b ?? 'N/A'}</td>
+                    <td className={`px-6 py-3 text-sm text-right font-medium ${differenceColor(row)}`}>
+                      {row.difference === null ? '-' : `${row.difference > 0 ? '+' : ''}${row.difference}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default function ComparePage() {
+  return (
+    <RouteProtection>
+      <ComparePageContent />
+    </RouteProtection>
+  )
+}
@@ -17,6 +17,7 @@ import {
   ArrowDownRight
 } from 'lucide-react'
 import toast from 'react-hot-toast'
+import { SUPPORTED_LANGUAGES } from '../../../../lib/messageTemplates'
 
 interface CampaignAnalyticsProps {
   campaignId?: string
@@ -60,6 +61,33 @@ interface AnalyticsData {
     conversionRate: number
     roi: number
   }[]
+  languageBreakdown?: {
+    language: string
+    sent: number
+    delivered: number
+    replied: number
+    deliveryRate: number
+    responseRate: number
+  }[]
+  abTests?: {
+    campaignId: string
+    name: string
+    mode: 'SPLIT' | 'WINNER'
+    testEndsAt?: string
+    variants: {
+      variantId: string
+      name: string
+      isWinner: boolean
+      sent: number
+      delivered: number
+      read: number
+      replied: number
+      replyRate: number
+      isLeader: boolean
+      pValue?: number
+      significant: boolean
+    }[]
+  }[]
   recommendations: string[]
 }
 
@@ -514,6 +542,123 @@ export default function CampaignAnalytics({ campaignId, timeRange = '30d' }: Cam
         </motion.div>
       )}
 
+      {/* Performance by Language */}
+      {analytics.languageBreakdown && analytics.languageBreakdown.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.85 }}
+          className="bg-white rounded-xl shadow-sm border border-gray-100 p-6"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 mb-6">Performance by Language</h3>
+
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200">
+                  <th className="text-left py-3 px-4 font-medium text-gray-600">Language</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">Sent</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">Delivered</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">Replies</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">Delivery Rate</th>
+                  <th className="text-right py-3 px-4 font-medium text-gray-600">Response Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {analytics.languageBreakdown.map((row) => (
+                  <tr key={row.language} className="border-b border-gray-100 hover:bg-gray-50">
+                    <td className="py-3 px-4 font-medium text-gray-900">
+                      {SUPPORTED_LANGUAGES.find(l => l.code === row.language)?.label || 'Not recorded'}
+                    </td>
+                    <td className="py-3 px-4 text-right">{row.sent.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right">{row.delivered.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right">{row.replied.toLocaleString()}</td>
+                    <td className="py-3 px-4 text-right">{formatPercentage(row.deliveryRate)}</td>
+                    <td className="py-3 px-4 text-right">{formatPercentage(row.responseRate)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </motion.div>
+      )}
+
+      {/* A/B Tests */}
+      {analytics.abTests && analytics.abTests.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.875 }}
+          className="bg-white rounded-xl shadow-sm border border-gray-100 p-6"
+        >
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">A/B Tests</h3>
+          <p className="text-sm text-gray-600 mb-6">
+            Each variant's reply rate is compared with the leader's; differences marked significant are unlikely to be chance (p &lt; 0.05).
+          </p>
+
+          <div className="space-y-6">
+            {analytics.abTests.map((test) => (
+              <div key={test.campaignId}>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-medium text-gray-900">{test.name}</h4>
+                  <span className="text-xs text-gray-500">
+                    {test.mode === 'WINNER'
+                      ? test.testEndsAt ? `Winner test, window ends ${new Date(test.testEndsAt).toLocaleString()}` : 'Winner test, not started'
+                      : 'Traffic split'}
+                  </span>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-gray-200">
+                        <th className="text-left py-3 px-4 font-medium text-gray-600">Variant</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">Sent</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">Delivered</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">Read</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">Replies</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">Reply Rate</th>
+                        <th className="text-right py-3 px-4 font-medium text-gray-600">Significance</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {test.variants.map((variant) => (
+                        <tr key={variant.variantId} className="border-b border-gray-100 hover:bg-gray-50">
+                          <td className="py-3 px-4 font-medium text-gray-900">
+                            {variant.name}
+                            {variant.isWinner && (
+                              <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-green-100 text-green-800">Winner</span>
+                            )}
+                          </td>
+                          <td className="py-3 px-4 text-right">{variant.sent.toLocaleString()}</td>
+                          <td className="py-3 px-4 text-right">{variant.delivered.toLocaleString()}</td>
+                          <td className="py-3 px-4 text-right">{variant.read.toLocaleString()}</td>
+                          <td className="py-3 px-4 text-right">{variant.replied.toLocaleString()}</td>
+                          <td className="py-3 px-4 text-right">{formatPercentage(variant.replyRate)}</td>
+                          <td className="py-3 px-4 text-right">
+                            {variant.isLeader ? (
+                              <span className="px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">Leader</span>
+                            ) : variant.pValue === undefined ? (
+                              <span className="text-xs text-gray-500">Not enough data</span>
+                            ) : (
+                              <span
+                                className={`px-2 py-0.5 text-xs rounded-full ${variant.significant ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'}`}
+                                title={`p = ${variant.pValue.toFixed(3)}`}
+                              >
+                                {variant.significant ? 'Significantly worse' : 'Not significant'}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      )}
+
       {/* Recommendations */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
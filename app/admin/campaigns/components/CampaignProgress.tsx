@@ -14,9 +14,20 @@ import {
   MessageSquare,
   Users,
   TrendingUp,
-  AlertCircle
+  AlertCircle,
+  Moon,
+  Settings,
+  Split,
+  ListOrdered,
+  Repeat,
+  FileText,
+  Download
 } from 'lucide-react'
 import toast from 'react-hot-toast'
+import SendWindowForm, { SendWindowValues, describeSendWindow } from './SendWindowForm'
+import VariantsForm, { AbTestValues, describeAbTest } from './VariantsForm'
+import SequenceForm, { StepValues, describeSequence } from './SequenceForm'
+import RecurrenceForm, { RecurrenceValues } from './RecurrenceForm'
 
 interface CampaignProgressProps {
   campaignId: string
@@ -30,12 +41,60 @@ interface ProgressData {
   deliveredCount: number
   failedCount: number
   pendingCount: number
+  queuedCount?: number
+  deferredCount: number
+  nextReleaseAt?: string
+  heldCount?: number
+  abTestEndsAt?: string
+  scheduledAt?: string
+  scheduledTimeZone?: string
+  launchedAt?: string
+  launchLagMs?: number
+  launchError?: string
+  sendWindow?: SendWindowValues & { campaignId?: string }
   progress: number
   estimatedTimeRemaining?: number
   messagesPerMinute?: number
   errors?: string[]
 }
 
+interface SequenceData {
+  steps: StepValues[]
+  progress: {
+    steps: Array<{ position: number; waiting: number }>
+    active: number
+    completed: number
+    exited: Record<string, number>
+  }
+}
+
+interface RecurrenceData {
+  rule: string | null
+  description: string | null
+  timeZone: string | null
+  nextRunAt: string | null
+  runCount: number
+  upcoming: string[]
+  recentRuns: Array<{ id: string; name: string; status: string; createdAt: string }>
+}
+
+interface StoredReport {
+  id: string
+  trigger: string
+  createdAt: string
+  snapshot: {
+    metrics: { deliveryRate: number; responseRate: number }
+  }
+}
+
+const EXIT_REASON_LABELS: Record<string, string> = {
+  REPLIED: 'replied',
+  CONVERTED: 'converted',
+  OPTED_OUT: 'opted out',
+  NOT_SENDABLE: 'could not be sent to',
+  CANCELLED: 'cancelled'
+}
+
 export default function CampaignProgress({ campaignId, onStatusChange }: CampaignProgressProps) {
   const [progress, setProgress] = useState<ProgressData>({
     status: 'DRAFT',
@@ -44,14 +103,36 @@ export default function CampaignProgress({ campaignId, onStatusChange }: Campaig
     deliveredCount: 0,
     failedCount: 0,
     pendingCount: 0,
+    deferredCount: 0,
     progress: 0
   })
   const [loading, setLoading] = useState(false)
   const [executing, setExecuting] = useState(false)
+  const [showSendWindow, setShowSendWindow] = useState(false)
+  const [abTest, setAbTest] = useState<AbTestValues | null>(null)
+  const [campaignMessage, setCampaignMessage] = useState('')
+  const [showAbTest, setShowAbTest] = useState(false)
+  const [sequence, setSequence] = useState<SequenceData | null>(null)
+  const [showSequence, setShowSequence] = useState(false)
+  const [recurrence, setRecurrence] = useState<RecurrenceData | null>(null)
+  const [showRecurrence, setShowRecurrence] = useState(false)
+  const [reports, setReports] = useState<StoredReport[]>([])
+  const [savingReport, setSavingReport] = useState(false)
+
+  useEffect(() => {
+    if (campaignId) {
+      loadAbTest()
+      loadSequence()
+      loadRecurrence()
+      loadReports()
+    }
+  }, [campaignId])
 
   useEffect(() => {
     if (campaignId) {
       loadProgress()
+      // The completion report is stored when the campaign finishes
+      if (progress.status === 'COMPLETED') loadReports()
       
       // Set up polling for real-time updates when campaign is running
       let interval: NodeJS.Timeout
@@ -93,6 +174,190 @@ export default function CampaignProgress({ campaignId, onStatusChange }: Campaig
     }
   }
 
+  const loadAbTest = async () => {
+    try {
+      const [variantsResponse, campaignResponse] = await Promise.all([
+        fetch(`/api/campaigns/${campaignId}/variants`, { credentials: 'include' }),
+        fetch(`/api/campaigns/${campaignId}`, { credentials: 'include' })
+      ])
+
+      if (variantsResponse.ok) {
+        const data = await variantsResponse.json()
+        setAbTest({
+          mode: data.mode || 'SPLIT',
+          testPercent: data.testPercent,
+          windowHours: data.windowHours,
+          variants: data.variants.map((variant: any) => ({
+            name: variant.name,
+            message: variant.message,
+            templateName: variant.templateName,
+            weight: variant.weight
+          }))
+        })
+      }
+
+      if (campaignResponse.ok) {
+        const data = await campaignResponse.json()
+        setCampaignMessage(data.message || '')
+      }
+    } catch (error) {
+      console.error('Failed to load campaign A/B test:', error)
+    }
+  }
+
+  const saveAbTest = async (values: AbTestValues) => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/variants`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(values)
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        toast.success(values.variants.length > 0 ? 'A/B test saved' : 'A/B test turned off')
+        setShowAbTest(false)
+        loadAbTest()
+      } else {
+        toast.error(result.errors?.[0] || result.message || 'Failed to save A/B test')
+      }
+    } catch (error) {
+      toast.error('Failed to save A/B test')
+    }
+  }
+
+  const loadSequence = async () => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/sequence`, { credentials: 'include' })
+      if (response.ok) {
+        const data = await response.json()
+        setSequence({
+          steps: data.steps.map((step: any) => ({
+            delayMinutes: step.delayMinutes,
+            message: step.message,
+            templateName: step.templateName,
+            exitOn: step.exitOn
+          })),
+          progress: data.progress
+        })
+      }
+    } catch (error) {
+      console.error('Failed to load campaign sequence:', error)
+    }
+  }
+
+  const saveSequence = async (steps: StepValues[]) => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/sequence`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ steps })
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        toast.success(steps.length > 0 ? 'Sequence saved' : 'Sequence turned off')
+        setShowSequence(false)
+        loadSequence()
+      } else {
+        toast.error(result.errors?.[0] || result.message || 'Failed to save sequence')
+      }
+    } catch (error) {
+      toast.error('Failed to save sequence')
+    }
+  }
+
+  const loadRecurrence = async () => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/recurrence`, { credentials: 'include' })
+      if (response.ok) {
+        setRecurrence(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to load campaign schedule:', error)
+    }
+  }
+
+  const saveRecurrence = async (values: RecurrenceValues) => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/recurrence`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(values)
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        toast.success('Schedule saved')
+        setShowRecurrence(false)
+        loadRecurrence()
+        loadProgress()
+      } else {
+        toast.error(result.errors?.[0] || result.message || 'Failed to save schedule')
+      }
+    } catch (error) {
+      toast.error('Failed to save schedule')
+    }
+  }
+
+  const removeRecurrence = async () => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/recurrence`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        toast.success('Campaign no longer repeats')
+        setShowRecurrence(false)
+        loadRecurrence()
+        loadProgress()
+      } else {
+        toast.error(result.message || 'Failed to stop repeating')
+      }
+    } catch (error) {
+      toast.error('Failed to stop repeating')
+    }
+  }
+
+  const loadReports = async () => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/report`, { credentials: 'include' })
+      if (response.ok) {
+        const data = await response.json()
+        setReports(data.reports)
+      }
+    } catch (error) {
+      console.error('Failed to load campaign reports:', error)
+    }
+  }
+
+  const saveReport = async () => {
+    setSavingReport(true)
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/report`, {
+        method: 'POST',
+        credentials: 'include'
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        toast.success('Report saved')
+        loadReports()
+      } else {
+        toast.error(result.message || 'Failed to save report')
+      }
+    } catch (error) {
+      toast.error('Failed to save report')
+    } finally {
+      setSavingReport(false)
+    }
+  }
+
   const calculateMessagesPerMinute = (data: any): number => {
     // This would be calculated based on actual execution time
     // For now, return a reasonable estimate
@@ -100,8 +365,51 @@ export default function CampaignProgress({ campaignId, onStatusChange }: Campaig
   }
 
   const calculateTimeRemaining = (data: any): number => {
-    if (data.pendingCount === 0 || data.messagesPerMinute === 0) return 0
-    return Math.round(data.pendingCount / (data.messagesPerMinute || 10))
+    const remaining = data.pendingCount + (data.queuedCount || 0)
+    if (remaining === 0 || data.messagesPerMinute === 0) return 0
+    return Math.round(remaining / (data.messagesPerMinute || 10))
+  }
+
+  const saveSendWindow = async (values: SendWindowValues) => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/send-window`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(values)
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        toast.success('Send window saved')
+        setShowSendWindow(false)
+        loadProgress()
+      } else {
+        toast.error(result.errors?.[0] || result.message || 'Failed to save send window')
+      }
+    } catch (error) {
+      toast.error('Failed to save send window')
+    }
+  }
+
+  const resetSendWindow = async () => {
+    try {
+      const response = await fetch(`/api/campaigns/${campaignId}/send-window`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+      const result = await response.json()
+
+      if (result.success) {
+        toast.success('Campaign now uses the global send window')
+        setShowSendWindow(false)
+        loadProgress()
+      } else {
+        toast.error(result.message || 'Failed to reset send window')
+      }
+    } catch (error) {
+      toast.error('Failed to reset send window')
+    }
   }
 
   const executeCampaign = async () => {
@@ -117,10 +425,10 @@ export default function CampaignProgress({ campaignId, onStatusChange }: Campaig
       const result = await response.json()
       
       if (response.ok) {
-        toast.success('Campaign execution started')
+        toast.success(result.message || 'Campaign execution started')
         loadProgress() // Refresh progress immediately
       } else {
-        toast.error(result.error || 'Failed to execute campaign')
+        toast.error(result.message || 'Failed to execute campaign')
       }
     } catch (error) {
       toast.error('Failed to execute campaign')
@@ -210,6 +518,7 @@ export default function CampaignProgress({ campaignId, onStatusChange }: Campaig
     switch (status) {
       case 'DRAFT': return 'text-gray-600 bg-gray-100'
       case 'SCHEDULED': return 'text-blue-600 bg-blue-100'
+      case 'LAUNCHING': return 'text-teal-600 bg-teal-100'
       case 'RUNNING': return 'text-green-600 bg-green-100'
       case 'COMPLETED': return 'text-emerald-600 bg-emerald-100'
       case 'PAUSED': return 'text-yellow-600 bg-yellow-100'
@@ -225,6 +534,7 @@ export default function CampaignProgress({ campaignId, onStatusChange }: Campaig
       case 'PAUSED': return Pause
       case 'CANCELLED': return XCircle
       case 'SCHEDULED': return Clock
+      case 'LAUNCHING': return Clock
       default: return AlertCircle
     }
   }
@@ -285,6 +595,264 @@ export default function CampaignProgress({ campaignId, onStatusChange }: Campaig
         </div>
       </div>
 
+      {/* Outbox */}
+      {(progress.queuedCount || 0) > 0 && (
+        <div className="flex items-center mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <Clock className="w-5 h-5 text-yellow-600 mr-2" />
+          <span className="font-medium">{progress.queuedCount} messages queued for sending</span>
+        </div>
+      )}
+
+      {/* Send Window */}
+      {progress.deferredCount > 0 && (
+        <div className="flex items-start mb-4 p-3 bg-indigo-50 border border-indigo-200 rounded-lg">
+          <Moon className="w-5 h-5 text-indigo-600 mr-2 mt-0.5" />
+          <div className="text-sm text-indigo-800">
+            <span className="font-medium">{progress.deferredCount} messages deferred</span>
+            {progress.nextReleaseAt && ` until ${new Date(progress.nextReleaseAt).toLocaleString()}`}
+            <div className="text-xs text-indigo-700 mt-1">
+              They are sent automatically when the send window opens.
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Scheduled launch */}
+      {progress.status === 'SCHEDULED' && progress.launchError && (
+        <div className="flex items-start mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-5 h-5 text-red-600 mr-2 mt-0.5" />
+          <div className="text-sm text-red-800">
+            <span className="font-medium">The scheduled launch did not start the campaign</span>
+            <div className="text-xs text-red-700 mt-1">
+              {progress.launchError}. It is tried again in a few minutes.
+            </div>
+          </div>
+        </div>
+      )}
+
+      {(progress.status === 'SCHEDULED' || progress.status === 'LAUNCHING') && progress.scheduledAt && (
+        <div className="mb-4 text-sm text-gray-600">
+          <Clock className="w-4 h-4 inline mr-1" />
+          {progress.status === 'LAUNCHING' ? 'Launching now, scheduled for ' : 'Starts '}
+          <span className="font-medium text-gray-900">{new Date(progress.scheduledAt).toLocaleString()}</span>
+          {progress.scheduledTimeZone && <span className="text-xs text-gray-500"> (scheduled in {progress.scheduledTimeZone})</span>}
+        </div>
+      )}
+
+      {progress.launchedAt && progress.launchLagMs !== undefined && progress.status !== 'SCHEDULED' && (
+        <div className="mb-4 text-sm text-gray-600">
+          <Clock className="w-4 h-4 inline mr-1" />
+          Launched <span className="font-medium text-gray-900">{new Date(progress.launchedAt).toLocaleString()}</span>
+          <span className="text-xs text-gray-500"> ({Math.round(progress.launchLagMs / 1000)}s after its scheduled time)</span>
+        </div>
+      )}
+
+      {progress.sendWindow && (
+        <div className="mb-6 p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              <Clock className="w-4 h-4 inline mr-1" />
+              Send window: <span className="font-medium text-gray-900">{describeSendWindow(progress.sendWindow)}</span>
+              {!progress.sendWindow.campaignId && <span className="text-xs text-gray-500"> (global)</span>}
+            </div>
+            <button
+              onClick={() => setShowSendWindow(!showSendWindow)}
+              className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+            >
+              <Settings className="w-4 h-4 mr-1" />
+              {showSendWindow ? 'Close' : 'Change'}
+            </button>
+          </div>
+          {showSendWindow && (
+            <div className="mt-4">
+              <SendWindowForm
+                sendWindow={progress.sendWindow}
+                saveLabel="Save for this campaign"
+                onSave={saveSendWindow}
+                onReset={progress.sendWindow.campaignId ? resetSendWindow : undefined}
+                resetLabel="Use global window"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* A/B Test */}
+      {(progress.heldCount || 0) > 0 && (
+        <div className="flex items-start mb-4 p-3 bg-purple-50 border border-purple-200 rounded-lg">
+          <Split className="w-5 h-5 text-purple-600 mr-2 mt-0.5" />
+          <div className="text-sm text-purple-800">
+            <span className="font-medium">{progress.heldCount} contacts waiting for the A/B test winner</span>
+            {progress.abTestEndsAt && ` until ${new Date(progress.abTestEndsAt).toLocaleString()}`}
+            <div className="text-xs text-purple-700 mt-1">
+              They are sent the variant with the best reply rate when the test window ends.
+            </div>
+          </div>
+        </div>
+      )}
+
+      {abTest && (
+        <div className="mb-6 p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              <Split className="w-4 h-4 inline mr-1" />
+              A/B test: <span className="font-medium text-gray-900">{describeAbTest(abTest)}</span>
+            </div>
+            {['DRAFT', 'SCHEDULED'].includes(progress.status) && (
+              <button
+                onClick={() => setShowAbTest(!showAbTest)}
+                className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+              >
+                <Settings className="w-4 h-4 mr-1" />
+                {showAbTest ? 'Close' : 'Change'}
+              </button>
+            )}
+          </div>
+          {showAbTest && (
+            <div className="mt-4">
+              <VariantsForm abTest={abTest} campaignMessage={campaignMessage} onSave={saveAbTest} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Sequence */}
+      {sequence && (
+        <div className="mb-6 p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              <ListOrdered className="w-4 h-4 inline mr-1" />
+              Sequence: <span className="font-medium text-gray-900">{describeSequence(sequence.steps)}</span>
+            </div>
+            {['DRAFT', 'SCHEDULED'].includes(progress.status) && (
+              <button
+                onClick={() => setShowSequence(!showSequence)}
+                className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+              >
+                <Settings className="w-4 h-4 mr-1" />
+                {showSequence ? 'Close' : 'Change'}
+              </button>
+            )}
+          </div>
+          {(sequence.progress.active > 0 || sequence.progress.completed > 0) && (
+            <div className="mt-3 space-y-1 text-sm text-gray-600">
+              {sequence.progress.steps.map(step => (
+                <div key={step.position} className="flex justify-between">
+                  <span>Waiting for step {step.position + 1}</span>
+                  <span className="font-medium text-gray-900">{step.waiting}</span>
+                </div>
+              ))}
+              <div className="flex justify-between">
+                <span>Finished the sequence</span>
+                <span className="font-medium text-gray-900">{sequence.progress.completed}</span>
+              </div>
+              {Object.keys(sequence.progress.exited).map(reason => (
+                <div key={reason} className="flex justify-between">
+                  <span>Left early: {EXIT_REASON_LABELS[reason] || reason}</span>
+                  <span className="font-medium text-gray-900">{sequence.progress.exited[reason]}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {showSequence && (
+            <div className="mt-4">
+              <SequenceForm steps={sequence.steps} campaignMessage={campaignMessage} onSave={saveSequence} />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Recurring schedule */}
+      {recurrence && (
+        <div className="mb-6 p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              <Repeat className="w-4 h-4 inline mr-1" />
+              Repeats: <span className="font-medium text-gray-900">{recurrence.description || 'Never'}</span>
+              {recurrence.timeZone && <span className="text-xs text-gray-500"> ({recurrence.timeZone})</span>}
+            </div>
+            {['DRAFT', 'SCHEDULED'].includes(progress.status) && (
+              <button
+                onClick={() => setShowRecurrence(!showRecurrence)}
+                className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+              >
+                <Settings className="w-4 h-4 mr-1" />
+                {showRecurrence ? 'Close' : 'Change'}
+              </button>
+            )}
+          </div>
+          {recurrence.upcoming.length > 0 && (
+            <div className="mt-2 text-xs text-gray-500">
+              Next runs: {recurrence.upcoming.map(date => new Date(date).toLocaleString()).join(', ')}
+            </div>
+          )}
+          {recurrence.recentRuns.length > 0 && (
+            <div className="mt-2 text-xs text-gray-500">
+              {recurrence.runCount} runs so far, latest: {recurrence.recentRuns[0].name} ({recurrence.recentRuns[0].status.toLowerCase()})
+            </div>
+          )}
+          {showRecurrence && (
+            <div className="mt-4">
+              <RecurrenceForm
+                recurrence={{ rule: recurrence.rule || '', timeZone: recurrence.timeZone || 'Asia/Kolkata' }}
+                onSave={saveRecurrence}
+                onRemove={recurrence.rule ? removeRecurrence : undefined}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Stored reports */}
+      {!['DRAFT', 'SCHEDULED', 'LAUNCHING'].includes(progress.status) && (
+        <div className="mb-6 p-3 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-gray-600">
+              <FileText className="w-4 h-4 inline mr-1" />
+              Reports: <span className="font-medium text-gray-900">{reports.length > 0 ? `${reports.length} saved` : 'None yet'}</span>
+            </div>
+            <button
+              onClick={saveReport}
+              disabled={savingReport}
+              className="flex items-center text-sm text-primary-600 hover:text-primary-700 disabled:opacity-50"
+            >
+              <FileText className="w-4 h-4 mr-1" />
+              {savingReport ? 'Saving...' : 'Save snapshot'}
+            </button>
+          </div>
+          {reports.length > 0 && (
+            <div className="mt-3 space-y-1 text-sm text-gray-600">
+              {reports.map(report => (
+                <div key={report.id} className="flex items-center justify-between">
+                  <span>
+                    {new Date(report.createdAt).toLocaleString()}
+                    <span className="text-xs text-gray-500">
+                      {' '}({report.trigger === 'COMPLETED' ? 'on completion' : 'manual'}) - delivery {report.snapshot.metrics.deliveryRate}%, response {report.snapshot.metrics.responseRate}%
+                    </span>
+                  </span>
+                  <span className="flex items-center space-x-3">
+                    <a
+                      href={`/api/campaigns/${campaignId}/report/${report.id}?format=xlsx`}
+                      className="flex items-center text-primary-600 hover:text-primary-700"
+                    >
+                      <Download className="w-3 h-3 mr-1" />
+                      XLSX
+                    </a>
+                    <a
+                      href={`/api/campaigns/${campaignId}/report/${report.id}?format=pdf`}
+                      className="flex items-center text-primary-600 hover:text-primary-700"
+                    >
+                      <Download className="w-3 h-3 mr-1" />
+                      PDF
+                    </a>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Performance Metrics */}
       {progress.status === 'RUNNING' && (
         <div className="grid grid-cols-2 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
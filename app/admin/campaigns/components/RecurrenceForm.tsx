@@ -0,0 +1,125 @@
+'use client'
+
+import { useState } from 'react'
+import { parseRecurrenceRule, describeRecurrenceRule } from '@/lib/recurrenceRule'
+import { parseZonedDateTime } from '@/lib/zonedTime'
+import { TIME_ZONES } from './SendWindowForm'
+
+export interface RecurrenceValues {
+  rule: string
+  timeZone: string
+  startAt?: string
+}
+
+interface RecurrenceFormProps {
+  recurrence: RecurrenceValues
+  onSave: (values: RecurrenceValues) => Promise<void>
+  onRemove?: () => Promise<void>
+}
+
+const PRESETS = [
+  { label: 'Every day at 10:00', rule: 'FREQ=DAILY;BYHOUR=10;BYMINUTE=0' },
+  { label: 'Every Monday at 10:00', rule: 'FREQ=WEEKLY;BYDAY=MO;BYHOUR=10;BYMINUTE=0' },
+  { label: 'Every first Monday of the month at 10:00', rule: 'FREQ=MONTHLY;BYDAY=1MO;BYHOUR=10;BYMINUTE=0' },
+  { label: 'On the 1st of every month at 10:00', rule: 'FREQ=MONTHLY;BYMONTHDAY=1;BYHOUR=10;BYMINUTE=0' },
+  { label: 'On the last day of every month at 18:00', rule: 'FREQ=MONTHLY;BYMONTHDAY=-1;BYHOUR=18;BYMINUTE=0' }
+]
+
+export default function RecurrenceForm({ recurrence, onSave, onRemove }: RecurrenceFormProps) {
+  const [values, setValues] = useState<RecurrenceValues>(recurrence)
+  const [saving, setSaving] = useState(false)
+
+  const parsed = values.rule ? parseRecurrenceRule(values.rule) : { rule: undefined, errors: [] }
+  const timeZones = TIME_ZONES.includes(values.timeZone) ? TIME_ZONES : [values.timeZone, ...TIME_ZONES]
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setSaving(true)
+      await action()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await run(() => onSave({
+      ...values,
+      startAt: values.startAt ? parseZonedDateTime(values.startAt, values.timeZone)?.toISOString() : undefined
+    }))
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Preset</label>
+        <select
+          value={PRESETS.find(preset => preset.rule === values.rule)?.rule || ''}
+          onChange={(e) => e.target.value && setValues({ ...values, rule: e.target.value })}
+          className="input-field"
+        >
+          <option value="">Custom</option>
+          {PRESETS.map(preset => (
+            <option key={preset.rule} value={preset.rule}>{preset.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Rule (RRULE)</label>
+        <input
+          value={values.rule}
+          onChange={(e) => setValues({ ...values, rule: e.target.value })}
+          className="input-field font-mono"
+          placeholder="FREQ=MONTHLY;BYDAY=1MO;BYHOUR=10"
+          required
+        />
+        {parsed.rule && (
+          <p className="text-xs text-gray-500 mt-1">Repeats {describeRecurrenceRule(parsed.rule)}</p>
+        )}
+        {parsed.errors.map(error => (
+          <p key={error} className="text-xs text-red-600 mt-1">{error}</p>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+          <select
+            value={values.timeZone}
+            onChange={(e) => setValues({ ...values, timeZone: e.target.value })}
+            className="input-field"
+          >
+            {timeZones.map(zone => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Starting</label>
+          <input
+            type="datetime-local"
+            value={values.startAt || ''}
+            onChange={(e) => setValues({ ...values, startAt: e.target.value })}
+            className="input-field"
+          />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Each run is a copy of this campaign with its own contacts and analytics. Segment audiences are resolved again for every run.
+      </p>
+
+      <div className="flex justify-end space-x-2">
+        {onRemove && (
+          <button type="button" onClick={() => run(onRemove)} disabled={saving} className="btn-secondary">
+            Stop repeating
+          </button>
+        )}
+        <button type="submit" disabled={saving || !parsed.rule} className="btn-primary">
+          {saving ? 'Saving...' : 'Save Schedule'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,215 @@
+'use client'
+
+import { Plus, X } from 'lucide-react'
+import {
+  SEGMENT_FIELDS,
+  SEGMENT_MAX_DEPTH,
+  SEGMENT_OPERATOR_LABELS,
+  SegmentCondition,
+  SegmentField,
+  SegmentOperator,
+  SegmentRule,
+  SegmentRuleGroup,
+  getOperatorValueType,
+  isRuleGroup
+} from '../../../../lib/segmentRules'
+
+interface SegmentRuleEditorProps {
+  group: SegmentRuleGroup
+  onChange: (group: SegmentRuleGroup) => void
+  onRemove?: () => void
+  depth?: number
+}
+
+const FIELD_NAMES = Object.keys(SEGMENT_FIELDS) as SegmentField[]
+
+export const newCondition = (field: SegmentField = 'lastContact'): SegmentCondition => {
+  const operator = SEGMENT_FIELDS[field].operators[0]
+  return { field, operator, value: defaultValue(operator) }
+}
+
+function defaultValue(operator: SegmentOperator): SegmentCondition['value'] {
+  switch (getOperatorValueType(operator)) {
+    case 'list': return []
+    case 'number': return 0
+    case 'days': return 30
+    case 'boolean': return true
+    default: return undefined
+  }
+}
+
+function ConditionEditor({ condition, onChange }: { condition: SegmentCondition; onChange: (condition: SegmentCondition) => void }) {
+  const definition = SEGMENT_FIELDS[condition.field]
+  const valueType = getOperatorValueType(condition.operator)
+
+  const changeOperator = (operator: SegmentOperator) => {
+    // Keep the value when the new operator takes the same kind of value
+    const keepValue = getOperatorValueType(operator) === valueType
+    onChange({ ...condition, operator, value: keepValue ? condition.value : defaultValue(operator) })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={condition.field}
+        onChange={(e) => onChange(newCondition(e.target.value as SegmentField))}
+        className="input-field w-auto"
+      >
+        {FIELD_NAMES.map(field => (
+          <option key={field} value={field}>{SEGMENT_FIELDS[field].label}</option>
+        ))}
+      </select>
+
+      <select
+        value={condition.operator}
+        onChange={(e) => changeOperator(e.target.value as SegmentOperator)}
+        className="input-field w-auto"
+      >
+        {definition.operators.map(operator => (
+          <option key={operator} value={operator}>{SEGMENT_OPERATOR_LABELS[operator]}</option>
+        ))}
+      </select>
+
+      {valueType === 'list' && (definition.options ? (
+        <div className="flex flex-wrap gap-2">
+          {definition.options.map(option => {
+            const values = (condition.value as string[]) || []
+            const checked = values.includes(option)
+            return (
+              <label key={option} className="flex items-center text-xs text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={checked}
+                  onChange={() => onChange({
+                    ...condition,
+                    value: checked ? values.filter(value => value !== option) : [...values, option]
+                  })}
+                  className="mr-1"
+                />
+                {option}
+              </label>
+            )
+          })}
+        </div>
+      ) : (
+        <input
+          value={((condition.value as string[]) || []).join(', ')}
+          onChange={(e) => onChange({
+            ...condition,
+            value: e.target.value.split(',').map(value => value.trim()).filter(Boolean)
+          })}
+          placeholder="Comma separated"
+          className="input-field w-auto flex-1"
+        />
+      ))}
+
+      {(valueType === 'number' || valueType === 'days') && (
+        <div className="flex items-center gap-1">
+          <input
+            type="number"
+            min={valueType === 'days' ? 1 : 0}
+            value={condition.value as number}
+            onChange={(e) => onChange({ ...condition, value: Number(e.target.value) })}
+            className="input-field w-28"
+          />
+          {valueType === 'days' && (
+            <span className="text-sm text-gray-500">{condition.operator === 'older_than_days' ? 'days ago' : 'days'}</span>
+          )}
+        </div>
+      )}
+
+      {valueType === 'boolean' && (
+        <select
+          value={condition.value ? 'yes' : 'no'}
+          onChange={(e) => onChange({ ...condition, value: e.target.value === 'yes' })}
+          className="input-field w-auto"
+        >
+          <option value="yes">Yes</option>
+          <option value="no">No</option>
+        </select>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Edits a rule group and the groups nested in it
+ */
+export default function SegmentRuleEditor({ group, onChange, onRemove, depth = 0 }: SegmentRuleEditorProps) {
+  const updateRule = (index: number, rule: SegmentRule) => {
+    onChange({ ...group, rules: group.rules.map((current, i) => i === index ? rule : current) })
+  }
+
+  const removeRule = (index: number) => {
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) })
+  }
+
+  return (
+    <div className={`space-y-3 ${depth > 0 ? 'p-4 border border-gray-200 rounded-lg bg-gray-50' : ''}`}>
+      <div className="flex items-center gap-2 text-sm text-gray-700">
+        <span>Match</span>
+        <select
+          value={group.combinator}
+          onChange={(e) => onChange({ ...group, combinator: e.target.value as 'AND' | 'OR' })}
+          className="input-field w-auto"
+        >
+          <option value="AND">all</option>
+          <option value="OR">any</option>
+        </select>
+        <span>of these rules</span>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="ml-auto p-1 text-gray-500 hover:text-red-600" title="Remove group">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-sm text-gray-500">No rules yet, so every active contact matches</p>
+      )}
+
+      {group.rules.map((rule, index) => (
+        <div key={index}>
+          {isRuleGroup(rule) ? (
+            <SegmentRuleEditor
+              group={rule}
+              onChange={(updated) => updateRule(index, updated)}
+              onRemove={() => removeRule(index)}
+              depth={depth + 1}
+            />
+          ) : (
+            <div className="flex items-start gap-2">
+              <div className="flex-1">
+                <ConditionEditor condition={rule} onChange={(updated) => updateRule(index, updated)} />
+              </div>
+              <button type="button" onClick={() => removeRule(index)} className="p-2 text-gray-500 hover:text-red-600" title="Remove rule">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() => onChange({ ...group, rules: [...group.rules, newCondition()] })}
+          className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add rule
+        </button>
+        {depth + 1 < SEGMENT_MAX_DEPTH && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...group, rules: [...group.rules, { combinator: group.combinator === 'AND' ? 'OR' : 'AND', rules: [newCondition()] }] })}
+            className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add group
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
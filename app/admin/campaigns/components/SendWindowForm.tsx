@@ -0,0 +1,171 @@
+'use client'
+
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+
+export interface SendWindowValues {
+  startTime: string
+  endTime: string
+  days: string[]
+  timeZone: string
+  isEnabled: boolean
+}
+
+interface SendWindowFormProps {
+  sendWindow: SendWindowValues
+  saveLabel?: string
+  onSave: (values: SendWindowValues) => Promise<void>
+  onReset?: () => Promise<void>
+  resetLabel?: string
+}
+
+const WEEK_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+export const TIME_ZONES = ['Asia/Kolkata', 'Asia/Dubai', 'Asia/Singapore', 'Europe/London', 'America/New_York', 'UTC']
+
+export const describeSendWindow = (sendWindow: SendWindowValues) => {
+  if (!sendWindow.isEnabled) return 'Any time'
+  const days = WEEK_DAYS
+    .filter(day => sendWindow.days.includes(day))
+    .map(day => day.slice(0, 3))
+    .join(', ')
+  return `${sendWindow.startTime}–${sendWindow.endTime} ${sendWindow.timeZone}, ${days}`
+}
+
+export default function SendWindowForm({
+  sendWindow,
+  saveLabel = 'Save Window',
+  onSave,
+  onReset,
+  resetLabel = 'Reset'
+}: SendWindowFormProps) {
+  const [values, setValues] = useState<SendWindowValues>(sendWindow)
+  const [saving, setSaving] = useState(false)
+
+  const toggleDay = (day: string) => {
+    setValues({
+      ...values,
+      days: values.days.includes(day)
+        ? values.days.filter(d => d !== day)
+        : [...values.days, day]
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (values.days.length === 0) {
+      toast.error('Select at least one day')
+      return
+    }
+
+    try {
+      setSaving(true)
+      await onSave(values)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = async () => {
+    if (!onReset) return
+
+    try {
+      setSaving(true)
+      await onReset()
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const timeZones = TIME_ZONES.includes(values.timeZone) ? TIME_ZONES : [values.timeZone, ...TIME_ZONES]
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <label className="flex items-center text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={values.isEnabled}
+          onChange={(e) => setValues({ ...values, isEnabled: e.target.checked })}
+          className="mr-2"
+        />
+        Only send messages inside this window
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+          <input
+            type="time"
+            value={values.startTime}
+            onChange={(e) => setValues({ ...values, startTime: e.target.value })}
+            className="input-field"
+            disabled={!values.isEnabled}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+          <input
+            type="time"
+            value={values.endTime}
+            onChange={(e) => setValues({ ...values, endTime: e.target.value })}
+            className="input-field"
+            disabled={!values.isEnabled}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+          <select
+            value={values.timeZone}
+            onChange={(e) => setValues({ ...values, timeZone: e.target.value })}
+            className="input-field"
+            disabled={!values.isEnabled}
+          >
+            {timeZones.map(zone => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Days</label>
+        <div className="flex flex-wrap gap-2">
+          {WEEK_DAYS.map(day => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleDay(day)}
+              disabled={!values.isEnabled}
+              className={`px-3 py-1 text-sm rounded-full border disabled:opacity-50 ${
+                values.days.includes(day)
+                  ? 'bg-primary-600 text-white border-primary-600'
+                  : 'bg-white text-gray-700 border-gray-300'
+              }`}
+            >
+              {day.slice(0, 3)}
+            </button>
+          ))}
+        </div>
+        {values.isEnabled && values.endTime < values.startTime && (
+          <p className="text-xs text-gray-500 mt-2">
+            The window runs overnight and closes at {values.endTime} the following day.
+          </p>
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-2">
+        {onReset && (
+          <button type="button" onClick={handleReset} disabled={saving} className="btn-secondary">
+            {resetLabel}
+          </button>
+        )}
+        <button type="submit" disabled={saving} className="btn-primary">
+          {saving ? 'Saving...' : saveLabel}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+export type ExitCondition = 'REPLIED' | 'CONVERTED' | 'OPTED_OUT'
+
+export interface StepValues {
+  delayMinutes: number
+  message: string
+  templateName?: string
+  exitOn: ExitCondition[]
+}
+
+interface SequenceFormProps {
+  steps: StepValues[]
+  campaignMessage: string
+  onSave: (steps: StepValues[]) => Promise<void>
+}
+
+const MAX_STEPS = 10
+
+const DELAY_UNITS = [
+  { label: 'minutes', minutes: 1 },
+  { label: 'hours', minutes: 60 },
+  { label: 'days', minutes: 24 * 60 }
+]
+
+const EXIT_CONDITIONS: Array<{ value: ExitCondition; label: string }> = [
+  { value: 'REPLIED', label: 'Replied' },
+  { value: 'CONVERTED', label: 'Converted' },
+  { value: 'OPTED_OUT', label: 'Opted out' }
+]
+
+const formatDelay = (minutes: number) => {
+  const unit = DELAY_UNITS.slice().reverse().find(candidate => minutes % candidate.minutes === 0) || DELAY_UNITS[0]
+  return `${minutes / unit.minutes} ${unit.label}`
+}
+
+export const describeSequence = (steps: StepValues[]) => {
+  if (steps.length === 0) return 'Off'
+  const later = steps.slice(1).map(step => formatDelay(step.delayMinutes))
+  return later.length > 0
+    ? `${steps.length} steps, then after ${later.join(', ')}`
+    : '1 step'
+}
+
+export default function SequenceForm({ steps, campaignMessage, onSave }: SequenceFormProps) {
+  const [values, setValues] = useState<StepValues[]>(steps)
+  const [saving, setSaving] = useState(false)
+
+  const updateStep = (index: number, step: StepValues) => {
+    setValues(values.map((current, i) => i === index ? step : current))
+  }
+
+  const toggleExit = (index: number, condition: ExitCondition) => {
+    const step = values[index]
+    updateStep(index, {
+      ...step,
+      exitOn: step.exitOn.includes(condition)
+        ? step.exitOn.filter(current => current !== condition)
+        : [...step.exitOn, condition]
+    })
+  }
+
+  const save = async (stepValues: StepValues[]) => {
+    try {
+      setSaving(true)
+      await onSave(stepValues)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (values.length === 0) {
+      toast.error('Add at least one step')
+      return
+    }
+
+    await save(values.map(step => ({ ...step, templateName: step.templateName || undefined })))
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-xs text-gray-500">
+        Each contact gets the steps in order, each one the given time after the previous step (the first after the campaign starts). A contact leaves the sequence as soon as one of the step&apos;s exit conditions is met.
+      </p>
+
+      <div className="space-y-3">
+        {values.map((step, index) => {
+          const unit = DELAY_UNITS.slice().reverse().find(candidate => step.delayMinutes % candidate.minutes === 0) || DELAY_UNITS[0]
+          return (
+            <div key={index} className="p-3 border border-gray-200 rounded-lg bg-white space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-gray-700 w-14">Step {index + 1}</span>
+                <span className="text-sm text-gray-500">after</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={step.delayMinutes / unit.minutes}
+                  onChange={(e) => updateStep(index, { ...step, delayMinutes: Number(e.target.value) * unit.minutes })}
+                  className="input-field w-20"
+                  required
+                />
+                <select
+                  value={unit.minutes}
+                  onChange={(e) => updateStep(index, { ...step, delayMinutes: (step.delayMinutes / unit.minutes) * Number(e.target.value) })}
+                  className="input-field w-28"
+                >
+                  {DELAY_UNITS.map(candidate => (
+                    <option key={candidate.label} value={candidate.minutes}>{candidate.label}</option>
+                  ))}
+                </select>
+                <input
+                  value={step.templateName || ''}
+                  onChange={(e) => updateStep(index, { ...step, templateName: e.target.value })}
+                  className="input-field flex-1"
+                  placeholder="Template (optional)"
+                />
+                <button type="button" onClick={() => setValues(values.filter((_, i) => i !== index))} className="p-2 text-gray-500 hover:text-red-600" title="Remove step">
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <textarea
+                value={step.message}
+                onChange={(e) => updateStep(index, { ...step, message: e.target.value })}
+                className="input-field"
+                rows={2}
+                required
+              />
+              <div className="flex items-center gap-4 text-sm text-gray-600">
+                <span>Exit before this step if:</span>
+                {EXIT_CONDITIONS.map(condition => (
+                  <label key={condition.value} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={step.exitOn.includes(condition.value)}
+                      onChange={() => toggleExit(index, condition.value)}
+                    />
+                    {condition.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        {values.length < MAX_STEPS ? (
+          <button
+            type="button"
+            onClick={() => setValues([...values, {
+              delayMinutes: values.length === 0 ? 0 : 24 * 60,
+              message: values.length === 0 ? campaignMessage : '',
+              exitOn: values.length === 0 ? [] : ['REPLIED', 'OPTED_OUT']
+            }])}
+            className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add step
+          </button>
+        ) : <span />}
+        <div className="flex space-x-2">
+          {steps.length > 0 && (
+            <button type="button" onClick={() => save([])} disabled={saving} className="btn-secondary">
+              Turn off
+            </button>
+          )}
+          <button type="submit" disabled={saving} className="btn-primary">
+            {saving ? 'Saving...' : 'Save Sequence'}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
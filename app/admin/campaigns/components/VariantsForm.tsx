@@ -0,0 +1,207 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, X } from 'lucide-react'
+import toast from 'react-hot-toast'
+
+export interface VariantValues {
+  name: string
+  message: string
+  templateName?: string
+  weight: number
+}
+
+export interface AbTestValues {
+  mode: 'SPLIT' | 'WINNER'
+  testPercent?: number
+  windowHours?: number
+  variants: VariantValues[]
+}
+
+interface VariantsFormProps {
+  abTest: AbTestValues
+  campaignMessage: string
+  onSave: (values: AbTestValues) => Promise<void>
+}
+
+const MAX_VARIANTS = 5
+
+export const describeAbTest = (abTest: AbTestValues) => {
+  if (abTest.variants.length === 0) return 'Off'
+  const variants = `${abTest.variants.length} variants`
+  return abTest.mode === 'WINNER'
+    ? `${variants}, tested on ${abTest.testPercent}% for ${abTest.windowHours}h, then the winner goes to the rest`
+    : `${variants}, split by weight`
+}
+
+export default function VariantsForm({ abTest, campaignMessage, onSave }: VariantsFormProps) {
+  const [values, setValues] = useState<AbTestValues>({
+    ...abTest,
+    testPercent: abTest.testPercent || 20,
+    windowHours: abTest.windowHours || 24
+  })
+  const [saving, setSaving] = useState(false)
+
+  const newVariant = (index: number): VariantValues => ({
+    name: `Variant ${String.fromCharCode(65 + index)}`,
+    message: campaignMessage,
+    weight: 1
+  })
+
+  const updateVariant = (index: number, variant: VariantValues) => {
+    setValues({ ...values, variants: values.variants.map((current, i) => i === index ? variant : current) })
+  }
+
+  const removeVariant = (index: number) => {
+    setValues({ ...values, variants: values.variants.filter((_, i) => i !== index) })
+  }
+
+  const totalWeight = values.variants.reduce((sum, variant) => sum + variant.weight, 0)
+
+  const save = async (abTestValues: AbTestValues) => {
+    try {
+      setSaving(true)
+      await onSave(abTestValues)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (values.variants.length < 2) {
+      toast.error('Add at least two variants')
+      return
+    }
+
+    await save({
+      ...values,
+      testPercent: values.mode === 'WINNER' ? values.testPercent : undefined,
+      windowHours: values.mode === 'WINNER' ? values.windowHours : undefined,
+      variants: values.variants.map(variant => ({ ...variant, templateName: variant.templateName || undefined }))
+    })
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Mode</label>
+          <select
+            value={values.mode}
+            onChange={(e) => setValues({ ...values, mode: e.target.value as AbTestValues['mode'] })}
+            className="input-field"
+          >
+            <option value="SPLIT">Split the whole audience</option>
+            <option value="WINNER">Test first, then send the winner</option>
+          </select>
+        </div>
+        {values.mode === 'WINNER' && (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Test Share (%)</label>
+              <input
+                type="number"
+                min={1}
+                max={90}
+                value={values.testPercent}
+                onChange={(e) => setValues({ ...values, testPercent: Number(e.target.value) })}
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Test Window (hours)</label>
+              <input
+                type="number"
+                min={1}
+                max={168}
+                value={values.windowHours}
+                onChange={(e) => setValues({ ...values, windowHours: Number(e.target.value) })}
+                className="input-field"
+                required
+              />
+            </div>
+          </>
+        )}
+      </div>
+
+      {values.mode === 'WINNER' && (
+        <p className="text-xs text-gray-500">
+          The variants go to {values.testPercent}% of the audience. After {values.windowHours} hours the variant with the best reply rate is sent to everyone else.
+        </p>
+      )}
+
+      <div className="space-y-3">
+        {values.variants.map((variant, index) => (
+          <div key={index} className="p-3 border border-gray-200 rounded-lg bg-white space-y-2">
+            <div className="flex items-center gap-2">
+              <input
+                value={variant.name}
+                onChange={(e) => updateVariant(index, { ...variant, name: e.target.value })}
+                className="input-field flex-1"
+                placeholder="Variant name"
+                required
+              />
+              <input
+                value={variant.templateName || ''}
+                onChange={(e) => updateVariant(index, { ...variant, templateName: e.target.value })}
+                className="input-field flex-1"
+                placeholder="Template (optional)"
+              />
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={variant.weight}
+                  onChange={(e) => updateVariant(index, { ...variant, weight: Number(e.target.value) })}
+                  className="input-field w-20"
+                  title="Weight"
+                  required
+                />
+                <span className="text-xs text-gray-500 w-12">
+                  {totalWeight > 0 ? `${Math.round((variant.weight / totalWeight) * 100)}%` : ''}
+                </span>
+              </div>
+              <button type="button" onClick={() => removeVariant(index)} className="p-2 text-gray-500 hover:text-red-600" title="Remove variant">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <textarea
+              value={variant.message}
+              onChange={(e) => updateVariant(index, { ...variant, message: e.target.value })}
+              className="input-field"
+              rows={2}
+              required
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between">
+        {values.variants.length < MAX_VARIANTS ? (
+          <button
+            type="button"
+            onClick={() => setValues({ ...values, variants: [...values.variants, newVariant(values.variants.length)] })}
+            className="flex items-center text-sm text-primary-600 hover:text-primary-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add variant
+          </button>
+        ) : <span />}
+        <div className="flex space-x-2">
+          {abTest.variants.length > 0 && (
+            <button type="button" onClick={() => save({ ...values, variants: [] })} disabled={saving} className="btn-secondary">
+              Turn off
+            </button>
+          )}
+          <button type="submit" disabled={saving} className="btn-primary">
+            {saving ? 'Saving...' : 'Save A/B Test'}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
@@ -17,10 +17,7 @@ import {
   ArrowLeft,
   FileText,
   Settings,
-  Search,
   Filter,
-  CheckSquare,
-  Square,
   Eye,
   Upload,
   X,
@@ -29,18 +26,38 @@ import {
 } from 'lucide-react'
 import AdminLayout from '../../components/AdminLayout'
 import toast from 'react-hot-toast'
-import DataService, { Contact } from '../../../../lib/dataService'
+import DataService from '../../../../lib/dataService'
+import { SegmentRuleGroup, describeSegmentRules } from '../../../../lib/segmentRules'
+import { parseZonedDateTime, formatZonedDateTime } from '../../../../lib/zonedTime'
+import { TIME_ZONES } from '../components/SendWindowForm'
+
+// Blank falls back to the server's MESSAGING_PROVIDER
+const MESSAGING_PROVIDER_OPTIONS = [
+  { value: '', label: 'Default provider' },
+  { value: 'smsfresh', label: 'SMSFresh' },
+  { value: 'whatsapp_cloud', label: 'WhatsApp Cloud API' }
+]
+
+interface Segment {
+  id: string
+  name: string
+  description?: string
+  rules: SegmentRuleGroup
+}
+
+interface AudiencePreview {
+  count: number
+  sample: Array<{ id: string; name?: string; phone: string; tags: string[] }>
+}
 
 function CreateCampaignContent() {
   const router = useRouter()
   const [loading, setLoading] = useState(false)
-  const [contacts, setContacts] = useState<Contact[]>([])
-  const [filteredContacts, setFilteredContacts] = useState<Contact[]>([])
-  const [contactsLoading, setContactsLoading] = useState(false)
-  const [searchTerm, setSearchTerm] = useState('')
-  const [showContactSelector, setShowContactSelector] = useState(false)
+  const [segments, setSegments] = useState<Segment[]>([])
+  const [audiencePreview, setAudiencePreview] = useState<AudiencePreview | null>(null)
+  const [audienceLoading, setAudienceLoading] = useState(false)
   const [previewMessage, setPreviewMessage] = useState('')
-  const [estimatedReach, setEstimatedReach] = useState(0)
+  const estimatedReach = audiencePreview?.count || 0
   
   const [formData, setFormData] = useState({
     name: '',
@@ -50,88 +67,67 @@ function CreateCampaignContent() {
     useTemplate: false,
     templateParams: {} as Record<string, string>,
     scheduledAt: '',
-    targetAudience: 'ALL' as 'ALL' | 'LEADS' | 'CUSTOMERS' | 'CUSTOM',
-    selectedContacts: [] as string[],
-    customFilters: {
-      loanType: '',
-      minAmount: '',
-      maxAmount: '',
-      status: '',
-      tags: [],
-      source: '',
-      lastContactDays: ''
-    },
+    scheduledTimeZone: 'Asia/Kolkata',
+    segmentId: '',
     mediaUrl: '',
-    mediaType: '' as 'image' | 'video' | 'document' | ''
+    mediaType: '' as 'image' | 'video' | 'document' | '',
+    provider: ''
   })
 
   useEffect(() => {
-    loadContacts()
+    loadSegments()
   }, [])
 
   useEffect(() => {
-    updateFilteredContacts()
-  }, [contacts, formData.targetAudience, formData.customFilters, searchTerm])
+    previewAudience()
+  }, [formData.segmentId])
 
   useEffect(() => {
     updatePreviewMessage()
   }, [formData.message, formData.templateId, formData.templateParams, formData.useTemplate])
 
-  useEffect(() => {
-    calculateEstimatedReach()
-  }, [filteredContacts, formData.selectedContacts, formData.targetAudience])
-
-  const loadContacts = async () => {
+  const loadSegments = async () => {
     try {
-      setContactsLoading(true)
-      const data = await DataService.getContacts()
-      setContacts(data.filter(contact => contact.status === 'ACTIVE'))
+      const response = await fetch('/api/segments', { credentials: 'include' })
+      const data = await response.json()
+
+      if (data.success) {
+        setSegments(data.data)
+      } else {
+        toast.error(data.message || 'Failed to load segments')
+      }
     } catch (error) {
-      toast.error('Failed to load contacts')
-    } finally {
-      setContactsLoading(false)
+      toast.error('Failed to load segments')
     }
   }
 
-  const updateFilteredContacts = () => {
-    let filtered = contacts
-
-    // Apply search filter
-    if (searchTerm) {
-      filtered = filtered.filter(contact => 
-        contact.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        contact.phone.includes(searchTerm) ||
-        contact.email?.toLowerCase().includes(searchTerm.toLowerCase())
-      )
+  // Counted on the server; the campaign gets whoever matches when it starts
+  const previewAudience = async () => {
+    if (!formData.segmentId) {
+      setAudiencePreview(null)
+      return
     }
 
-    // Apply audience filter
-    if (formData.targetAudience === 'LEADS') {
-      // Filter contacts that have associated leads
-      filtered = filtered.filter(contact => contact.tags.includes('lead'))
-    } else if (formData.targetAudience === 'CUSTOMERS') {
-      // Filter contacts that are existing customers
-      filtered = filtered.filter(contact => contact.tags.includes('customer'))
-    } else if (formData.targetAudience === 'CUSTOM') {
-      // Apply custom filters
-      if (formData.customFilters.source) {
-        filtered = filtered.filter(contact => contact.source === formData.customFilters.source)
-      }
-      if (formData.customFilters.tags.length > 0) {
-        filtered = filtered.filter(contact => 
-          formData.customFilters.tags.some(tag => contact.tags.includes(tag))
-        )
-      }
-      if (formData.customFilters.lastContactDays) {
-        const daysAgo = new Date()
-        daysAgo.setDate(daysAgo.getDate() - parseInt(formData.customFilters.lastContactDays))
-        filtered = filtered.filter(contact => 
-          !contact.lastContact || new Date(contact.lastContact) < daysAgo
-        )
+    try {
+      setAudienceLoading(true)
+      const response = await fetch('/api/segments/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ segmentId: formData.segmentId, sampleSize: 5 })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setAudiencePreview({ count: data.count, sample: data.sample })
+      } else {
+        toast.error(data.message || 'Failed to preview segment')
       }
+    } catch (error) {
+      toast.error('Failed to preview segment')
+    } finally {
+      setAudienceLoading(false)
     }
-
-    setFilteredContacts(filtered)
   }
 
   const updatePreviewMessage = () => {
@@ -150,14 +146,6 @@ function CreateCampaignContent() {
     }
   }
 
-  const calculateEstimatedReach = () => {
-    if (formData.targetAudience === 'CUSTOM' && formData.selectedContacts.length > 0) {
-      setEstimatedReach(formData.selectedContacts.length)
-    } else {
-      setEstimatedReach(filteredContacts.length)
-    }
-  }
-
   const handleInputChange = (field: string, value: any) => {
     setFormData(prev => ({
       ...prev,
@@ -165,16 +153,6 @@ function CreateCampaignContent() {
     }))
   }
 
-  const handleCustomFilterChange = (field: string, value: any) => {
-    setFormData(prev => ({
-      ...prev,
-      customFilters: {
-        ...prev.customFilters,
-        [field]: value
-      }
-    }))
-  }
-
   const handleTemplateParamChange = (param: string, value: string) => {
     setFormData(prev => ({
       ...prev,
@@ -185,29 +163,6 @@ function CreateCampaignContent() {
     }))
   }
 
-  const handleContactSelection = (contactId: string, selected: boolean) => {
-    setFormData(prev => ({
-      ...prev,
-      selectedContacts: selected 
-        ? [...prev.selectedContacts, contactId]
-        : prev.selectedContacts.filter(id => id !== contactId)
-    }))
-  }
-
-  const selectAllContacts = () => {
-    setFormData(prev => ({
-      ...prev,
-      selectedContacts: filteredContacts.map(c => c.id)
-    }))
-  }
-
-  const clearAllContacts = () => {
-    setFormData(prev => ({
-      ...prev,
-      selectedContacts: []
-    }))
-  }
-
   const duplicateCampaign = async (campaignId: string) => {
     try {
       const campaign = await DataService.getCampaign(campaignId)
@@ -217,10 +172,9 @@ function CreateCampaignContent() {
           name: `${campaign.name} (Copy)`,
           type: campaign.type as 'SMS' | 'WHATSAPP' | 'EMAIL',
           message: campaign.message,
-          // Reset scheduling and targeting
-          scheduledAt: '',
-          targetAudience: 'ALL',
-          selectedContacts: []
+          segmentId: campaign.segmentId || '',
+          // Reset scheduling
+          scheduledAt: ''
         }))
         toast.success('Campaign duplicated successfully')
       }
@@ -247,8 +201,13 @@ function CreateCampaignContent() {
       return false
     }
 
-    if (formData.targetAudience === 'CUSTOM' && formData.selectedContacts.length === 0 && estimatedReach === 0) {
-      toast.error('Please select at least one contact or adjust your filters')
+    if (!formData.segmentId) {
+      toast.error('Please choose an audience segment')
+      return false
+    }
+
+    if (audiencePreview?.count === 0) {
+      toast.error('The selected segment has no contacts')
       return false
     }
 
@@ -273,6 +232,13 @@ function CreateCampaignContent() {
   const saveCampaign = async (status: 'DRAFT' | 'SCHEDULED') => {
     if (!validateForm()) return
 
+    // The picked wall-clock time is in the chosen zone, not the browser's
+    const scheduledAt = formData.scheduledAt ? parseZonedDateTime(formData.scheduledAt, formData.scheduledTimeZone) : null
+    if (status === 'SCHEDULED' && (!scheduledAt || scheduledAt.getTime() <= Date.now())) {
+      toast.error('Pick a time in the future to schedule the campaign')
+      return
+    }
+
     try {
       setLoading(true)
       
@@ -286,17 +252,17 @@ function CreateCampaignContent() {
         parameters: formData.useTemplate ? formData.templateParams : undefined,
         mediaUrl: formData.mediaUrl || undefined,
         mediaType: formData.mediaType || undefined,
+        provider: formData.type === 'WHATSAPP' ? formData.provider || undefined : undefined,
         status,
-        scheduledAt: formData.scheduledAt || undefined,
+        scheduledAt: scheduledAt?.toISOString(),
+        scheduledTimeZone: scheduledAt ? formData.scheduledTimeZone : undefined,
         totalContacts: estimatedReach,
         totalSent: 0,
         totalDelivered: 0,
         totalReplies: 0,
         totalFailed: 0,
         createdBy: 'Current User', // Will be set by API
-        targetAudience: formData.targetAudience,
-        customFilters: formData.customFilters,
-        selectedContacts: formData.targetAudience === 'CUSTOM' ? formData.selectedContacts : undefined
+        segmentId: formData.segmentId
       }
 
       const campaign = await DataService.createCampaign(campaignData)
@@ -327,6 +293,7 @@ function CreateCampaignContent() {
         parameters: formData.useTemplate ? formData.templateParams : undefined,
         mediaUrl: formData.mediaUrl || undefined,
         mediaType: formData.mediaType || undefined,
+        provider: formData.type === 'WHATSAPP' ? formData.provider || undefined : undefined,
         status: 'RUNNING' as const,
         scheduledAt: new Date().toISOString(),
         totalContacts: estimatedReach,
@@ -335,9 +302,7 @@ function CreateCampaignContent() {
         totalReplies: 0,
         totalFailed: 0,
         createdBy: 'Current User',
-        targetAudience: formData.targetAudience,
-        customFilters: formData.customFilters,
-        selectedContacts: formData.targetAudience === 'CUSTOM' ? formData.selectedContacts : undefined
+        segmentId: formData.segmentId
       }
 
       const campaign = await DataService.createCampaign(campaignData)
@@ -522,15 +487,28 @@ function CreateCampaignContent() {
                   <label className="block text-sm font-medium text-gray-700 mb-2">
                     Schedule (Optional)
                   </label>
-                  <input
-                    type="datetime-local"
-                    value={formData.scheduledAt}
-                    onChange={(e) => handleInputChange('scheduledAt', e.target.value)}
-                    min={new Date().toISOString().slice(0, 16)}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-                  />
+                  <div className="flex gap-2">
+                    <input
+                      type="datetime-local"
+                      value={formData.scheduledAt}
+                      onChange={(e) => handleInputChange('scheduledAt', e.target.value)}
+                      min={formatZonedDateTime(new Date(), formData.scheduledTimeZone)}
+                      className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    />
+                    <select
+                      value={formData.scheduledTimeZone}
+                      onChange={(e) => handleInputChange('scheduledTimeZone', e.target.value)}
+                      className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      {TIME_ZONES.map(zone => (
+                        <option key={zone} value={zone}>{zone}</option>
+                      ))}
+                    </select>
+                  </div>
                   <p className="text-xs text-gray-500 mt-1">
-                    Leave empty to save as draft
+                    {formData.scheduledAt
+                      ? `Starts ${parseZonedDateTime(formData.scheduledAt, formData.scheduledTimeZone)?.toLocaleString()} your time`
+                      : 'Leave empty to save as draft'}
                   </p>
                 </div>
               </div>
@@ -637,6 +615,27 @@ function CreateCampaignContent() {
                   </div>
                 )}
 
+                {/* WhatsApp provider */}
+                {formData.type === 'WHATSAPP' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Send Via
+                    </label>
+                    <select
+                      value={formData.provider}
+                      onChange={(e) => handleInputChange('provider', e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    >
+                      {MESSAGING_PROVIDER_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      WhatsApp Cloud API sends approved templates from your own Meta business number
+                    </p>
+                  </div>
+                )}
+
                 {/* Media Upload for WhatsApp */}
                 {formData.type === 'WHATSAPP' && (
                   <div>
@@ -689,146 +688,60 @@ function CreateCampaignContent() {
               
               <div className="space-y-4">
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Audience Type
-                  </label>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Segment
+                    </label>
+                    <a href="/admin/campaigns/segments" className="text-sm text-primary-600 hover:text-primary-700">
+                      Manage segments →
+                    </a>
+                  </div>
                   <select
-                    value={formData.targetAudience}
-                    onChange={(e) => handleInputChange('targetAudience', e.target.value)}
+                    value={formData.segmentId}
+                    onChange={(e) => handleInputChange('segmentId', e.target.value)}
                     className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   >
-                    <option value="ALL">All Contacts ({contacts.length})</option>
-                    <option value="LEADS">Active Leads Only</option>
-                    <option value="CUSTOMERS">Existing Customers</option>
-                    <option value="CUSTOM">Custom Selection</option>
+                    <option value="">Choose a segment</option>
+                    {segments.map(segment => (
+                      <option key={segment.id} value={segment.id}>{segment.name}</option>
+                    ))}
                   </select>
                 </div>
 
-                {formData.targetAudience === 'CUSTOM' && (
-                  <div className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Source
-                        </label>
-                        <select
-                          value={formData.customFilters.source}
-                          onChange={(e) => handleCustomFilterChange('source', e.target.value)}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
-                        >
-                          <option value="">All Sources</option>
-                          <option value="website">Website</option>
-                          <option value="referral">Referral</option>
-                          <option value="campaign">Campaign</option>
-                          <option value="social_media">Social Media</option>
-                        </select>
-                      </div>
-                      
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Last Contact (Days Ago)
-                        </label>
-                        <select
-                          value={formData.customFilters.lastContactDays}
-                          onChange={(e) => handleCustomFilterChange('lastContactDays', e.target.value)}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
-                        >
-                          <option value="">Any Time</option>
-                          <option value="7">More than 7 days</option>
-                          <option value="30">More than 30 days</option>
-                          <option value="90">More than 90 days</option>
-                        </select>
-                      </div>
-                    </div>
-
-                    <div className="flex items-center justify-between">
-                      <button
-                        type="button"
-                        onClick={() => setShowContactSelector(!showContactSelector)}
-                        className="flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700"
-                      >
-                        <Users className="w-4 h-4 mr-2" />
-                        Select Contacts ({formData.selectedContacts.length})
-                      </button>
-                      
-                      {formData.selectedContacts.length > 0 && (
-                        <button
-                          type="button"
-                          onClick={clearAllContacts}
-                          className="text-sm text-red-600 hover:text-red-700"
-                        >
-                          Clear Selection
-                        </button>
-                      )}
-                    </div>
-
-                    {showContactSelector && (
-                      <div className="border border-gray-200 rounded-lg p-4 max-h-96 overflow-y-auto">
-                        <div className="flex items-center justify-between mb-4">
-                          <div className="relative flex-1 mr-4">
-                            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-                            <input
-                              type="text"
-                              placeholder="Search contacts..."
-                              value={searchTerm}
-                              onChange={(e) => setSearchTerm(e.target.value)}
-                              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg text-sm"
-                            />
-                          </div>
-                          <div className="flex space-x-2">
-                            <button
-                              type="button"
-                              onClick={selectAllContacts}
-                              className="text-sm text-primary-600 hover:text-primary-700"
-                            >
-                              Select All
-                            </button>
-                            <button
-                              type="button"
-                              onClick={clearAllContacts}
-                              className="text-sm text-gray-600 hover:text-gray-700"
-                            >
-                              Clear All
-                            </button>
-                          </div>
+                {(() => {
+                  const segment = segments.find(item => item.id === formData.segmentId)
+                  if (!segment) return null
+
+                  return (
+                    <div className="p-4 bg-gray-50 rounded-lg space-y-3">
+                      <div className="flex items-start">
+                        <Users className="w-4 h-4 mr-2 mt-0.5 text-gray-500" />
+                        <div className="text-sm text-gray-700">
+                          {segment.description && <p className="mb-1">{segment.description}</p>}
+                          <p className="text-xs text-gray-500">{describeSegmentRules(segment.rules)}</p>
                         </div>
+                      </div>
 
-                        <div className="space-y-2">
-                          {filteredContacts.slice(0, 100).map(contact => (
-                            <div
-                              key={contact.id}
-                              className="flex items-center space-x-3 p-2 hover:bg-gray-50 rounded-lg"
-                            >
-                              <button
-                                type="button"
-                                onClick={() => handleContactSelection(contact.id, !formData.selectedContacts.includes(contact.id))}
-                                className="text-primary-600"
-                              >
-                                {formData.selectedContacts.includes(contact.id) ? (
-                                  <CheckSquare className="w-4 h-4" />
-                                ) : (
-                                  <Square className="w-4 h-4" />
-                                )}
-                              </button>
-                              <div className="flex-1">
-                                <div className="text-sm font-medium text-gray-900">{contact.name}</div>
-                                <div className="text-xs text-gray-500">{contact.phone}</div>
-                              </div>
-                              <div className="text-xs text-gray-400">
-                                {contact.source}
+                      {audienceLoading ? (
+                        <p className="text-sm text-gray-500">Counting contacts...</p>
+                      ) : audiencePreview && (
+                        <div>
+                          <p className="text-sm text-gray-700 mb-2">
+                            {audiencePreview.count.toLocaleString()} contacts match today. The campaign is sent to whoever matches when it starts.
+                          </p>
+                          <div className="space-y-1">
+                            {audiencePreview.sample.map(contact => (
+                              <div key={contact.id} className="flex items-center justify-between text-xs text-gray-600">
+                                <span>{contact.name || 'Unnamed'} · {contact.phone}</span>
+                                <span className="text-gray-400">{contact.tags.join(', ')}</span>
                               </div>
-                            </div>
-                          ))}
-                          {filteredContacts.length > 100 && (
-                            <div className="text-sm text-gray-500 text-center py-2">
-                              Showing first 100 contacts. Use filters to narrow down.
-                            </div>
-                          )}
+                            ))}
+                          </div>
                         </div>
-                      </div>
-                    )}
-                  </div>
-                )}
+                      )}
+                    </div>
+                  )
+                })()}
               </div>
             </motion.div>
           </div>
@@ -904,7 +817,7 @@ function CreateCampaignContent() {
                 {formData.scheduledAt && (
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Scheduled:</span>
-                    <span className="font-semibold">{new Date(formData.scheduledAt).toLocaleDateString()}</span>
+                    <span className="font-semibold">{formData.scheduledAt.replace('T', ' ')} {formData.scheduledTimeZone}</span>
                   </div>
                 )}
                 {formData.mediaUrl && (
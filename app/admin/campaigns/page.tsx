@@ -98,6 +98,8 @@ function CampaignsPageContent() {
         return "bg-gray-100 text-gray-800";
       case "SCHEDULED":
         return "bg-blue-100 text-blue-800";
+      case "LAUNCHING":
+        return "bg-teal-100 text-teal-800";
       case "RUNNING":
         return "bg-green-100 text-green-800";
       case "COMPLETED":
@@ -116,6 +118,7 @@ function CampaignsPageContent() {
       case "DRAFT":
         return Edit;
       case "SCHEDULED":
+      case "LAUNCHING":
         return Clock;
       case "RUNNING":
         return Play;
@@ -231,13 +234,36 @@ function CampaignsPageContent() {
               campaigns
             </p>
           </div>
-          <button
-            onClick={() => router.push("/admin/campaigns/create")}
-            className="btn-primary flex items-center"
-          >
-            <Plus className="w-5 h-5 mr-2" />
-            Create Campaign
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={() => router.push("/admin/campaigns/segments")}
+              className="btn-secondary flex items-center"
+            >
+              <Users className="w-5 h-5 mr-2" />
+              Segments
+            </button>
+            <button
+              onClick={() => router.push("/admin/campaigns/compare")}
+              className="btn-secondary flex items-center"
+            >
+              <BarChart3 className="w-5 h-5 mr-2" />
+              Compare
+            </button>
+            <button
+              onClick={() => router.push("/admin/campaigns/send-window")}
+              className="btn-secondary flex items-center"
+            >
+              <Clock className="w-5 h-5 mr-2" />
+              Send Window
+            </button>
+            <button
+              onClick={() => router.push("/admin/campaigns/create")}
+              className="btn-primary flex items-center"
+            >
+              <Plus className="w-5 h-5 mr-2" />
+              Create Campaign
+            </button>
+          </div>
         </div>
 
         {/* Tab Navigation */}
@@ -637,9 +663,24 @@ function CampaignsPageContent() {
                             {campaign.status === "SCHEDULED"
                               ? "Scheduled for"
                               : "Sent on"}{" "}
-                            {new Date(
-                              campaign.scheduledAt
-                            ).toLocaleDateString()}
+                            {campaign.status === "SCHEDULED"
+                              ? new Date(campaign.scheduledAt).toLocaleString(
+                                  undefined,
+                                  {
+                                    timeZone: campaign.scheduledTimeZone,
+                                    day: "numeric",
+                                    month: "short",
+                                    year: "numeric",
+                                    hour: "2-digit",
+                                    minute: "2-digit",
+                                  }
+                                )
+                              : new Date(
+                                  campaign.launchedAt || campaign.scheduledAt
+                                ).toLocaleDateString()}
+                            {campaign.status === "SCHEDULED" &&
+                              campaign.scheduledTimeZone &&
+                              ` (${campaign.scheduledTimeZone})`}
                           </span>
                         )}
                       </div>
@@ -0,0 +1,305 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Eye, Plus, Save, Trash2, Users } from 'lucide-react'
+import toast from 'react-hot-toast'
+import RouteProtection from '../../../components/RouteProtection'
+import AdminLayout from '../../components/AdminLayout'
+import SegmentRuleEditor from '../components/SegmentRuleEditor'
+import { SegmentRuleGroup, describeSegmentRules } from '../../../../lib/segmentRules'
+
+interface Segment {
+  id: string
+  name: string
+  description?: string
+  rules: SegmentRuleGroup
+  systemKey?: string
+  campaignCount: number
+  updatedAt: string
+}
+
+interface SegmentDraft {
+  id?: string
+  name: string
+  description: string
+  rules: SegmentRuleGroup
+  systemKey?: string
+}
+
+interface SegmentPreview {
+  count: number
+  sample: Array<{ id: string; name?: string; phone: string; tags: string[]; lastContact?: string }>
+}
+
+const EMPTY_SEGMENT: SegmentDraft = {
+  name: '',
+  description: '',
+  rules: { combinator: 'AND', rules: [] }
+}
+
+function SegmentsPageContent() {
+  const [segments, setSegments] = useState<Segment[]>([])
+  const [editing, setEditing] = useState<SegmentDraft | null>(null)
+  const [preview, setPreview] = useState<SegmentPreview | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [previewing, setPreviewing] = useState(false)
+
+  useEffect(() => {
+    loadSegments()
+  }, [])
+
+  const loadSegments = async () => {
+    try {
+      const response = await fetch('/api/segments')
+      const data = await response.json()
+
+      if (data.success) {
+        setSegments(data.data)
+      } else {
+        toast.error(data.message || 'Failed to load segments')
+      }
+    } catch (error) {
+      toast.error('Failed to load segments')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const editSegment = (segment: SegmentDraft) => {
+    setEditing(segment)
+    setPreview(null)
+  }
+
+  const previewSegment = async () => {
+    if (!editing) return
+
+    setPreviewing(true)
+    try {
+      const response = await fetch('/api/segments/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules: editing.rules, sampleSize: 10 })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setPreview({ count: data.count, sample: data.sample })
+      } else {
+        toast.error(data.errors?.[0] || data.message || 'Failed to preview segment')
+      }
+    } catch (error) {
+      toast.error('Failed to preview segment')
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const saveSegment = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+
+    setSaving(true)
+    try {
+      const response = await fetch(editing.id ? `/api/segments/${editing.id}` : '/api/segments', {
+        method: editing.id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: editing.name,
+          description: editing.description || undefined,
+          rules: editing.rules
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Segment saved')
+        setEditing(null)
+        setPreview(null)
+        await loadSegments()
+      } else {
+        toast.error(data.errors?.[0] || data.message || 'Failed to save segment')
+      }
+    } catch (error) {
+      toast.error('Failed to save segment')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteSegment = async (segment: Segment) => {
+    if (!confirm(`Delete the segment "${segment.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/segments/${segment.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Segment deleted')
+        if (editing?.id === segment.id) setEditing(null)
+        await loadSegments()
+      } else {
+        toast.error(data.message || 'Failed to delete segment')
+      }
+    } catch (error) {
+      toast.error('Failed to delete segment')
+    }
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-end justify-between">
+          <div>
+            <Link href="/admin/campaigns" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Campaigns
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Segments</h1>
+            <p className="text-gray-600 mt-1">
+              Saved audiences built from contact, lead and reply history. A campaign sends to whoever matches its segment when it starts.
+            </p>
+          </div>
+          <button onClick={() => editSegment(EMPTY_SEGMENT)} className="btn-primary flex items-center">
+            <Plus className="w-4 h-4 mr-2" />
+            New Segment
+          </button>
+        </div>
+
+        {editing && (
+          <form onSubmit={saveSegment} className="bg-white rounded-xl shadow-sm border border-gray-200">
+            <div className="p-6 border-b border-gray-200 grid md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  className="input-field"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  value={editing.description}
+                  onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                  className="input-field"
+                />
+              </div>
+            </div>
+
+            <div className="p-6 border-b border-gray-200">
+              <SegmentRuleEditor
+                group={editing.rules}
+                onChange={(rules) => {
+                  setEditing({ ...editing, rules })
+                  setPreview(null)
+                }}
+              />
+            </div>
+
+            {preview && (
+              <div className="p-6 border-b border-gray-200 bg-gray-50">
+                <p className="text-sm font-medium text-gray-900 mb-2">
+                  {preview.count.toLocaleString()} contacts match right now
+                </p>
+                <div className="space-y-1">
+                  {preview.sample.map(contact => (
+                    <div key={contact.id} className="flex items-center justify-between text-xs text-gray-600">
+                      <span>{contact.name || 'Unnamed'} · {contact.phone}</span>
+                      <span className="text-gray-400">
+                        {contact.lastContact ? `Last contacted ${new Date(contact.lastContact).toLocaleDateString()}` : 'Never contacted'}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="p-6 flex items-center gap-2">
+              {editing.systemKey && (
+                <span className="text-xs text-gray-500 mr-auto">Built-in segment used by campaign automation</span>
+              )}
+              <button type="button" onClick={previewSegment} disabled={previewing} className="btn-secondary flex items-center disabled:opacity-50 ml-auto">
+                <Eye className="w-4 h-4 mr-1" />
+                {previewing ? 'Counting...' : 'Preview'}
+              </button>
+              <button type="submit" disabled={saving} className="btn-primary flex items-center disabled:opacity-50">
+                <Save className="w-4 h-4 mr-1" />
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+              <button type="button" onClick={() => { setEditing(null); setPreview(null) }} className="btn-secondary">
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center">
+            <Users className="w-5 h-5 mr-2 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Saved Segments</h2>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : segments.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No segments yet</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {segments.map(segment => (
+                <div key={segment.id} className="p-6 flex items-center justify-between">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">
+                      {segment.name}
+                      {segment.systemKey && <span className="ml-2 text-xs text-gray-500">built-in</span>}
+                    </div>
+                    {segment.description && <div className="text-sm text-gray-600 mt-1">{segment.description}</div>}
+                    <div className="text-xs text-gray-500 mt-1">
+                      {describeSegmentRules(segment.rules)} · {segment.campaignCount} campaigns
+                    </div>
+                  </div>
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => editSegment({
+                        id: segment.id,
+                        name: segment.name,
+                        description: segment.description || '',
+                        rules: segment.rules,
+                        systemKey: segment.systemKey
+                      })}
+                      className="btn-secondary text-sm"
+                    >
+                      Edit
+                    </button>
+                    {!segment.systemKey && (
+                      <button
+                        onClick={() => deleteSegment(segment)}
+                        className="p-2 ml-2 text-gray-600 hover:text-red-600"
+                        title="Delete segment"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default function SegmentsPage() {
+  return (
+    <RouteProtection>
+      <SegmentsPageContent />
+    </RouteProtection>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, Clock } from 'lucide-react'
+import toast from 'react-hot-toast'
+import RouteProtection from '../../../components/RouteProtection'
+import AdminLayout from '../../components/AdminLayout'
+import SendWindowForm, { SendWindowValues, describeSendWindow } from '../components/SendWindowForm'
+
+interface GlobalSendWindow extends SendWindowValues {
+  isDefault?: boolean
+}
+
+function SendWindowPageContent() {
+  const [sendWindow, setSendWindow] = useState<GlobalSendWindow | null>(null)
+  const [isOpen, setIsOpen] = useState(true)
+  const [nextOpening, setNextOpening] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    loadSendWindow()
+  }, [])
+
+  const loadSendWindow = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/campaigns/send-window')
+      const data = await response.json()
+
+      if (data.success) {
+        setSendWindow(data.sendWindow)
+        setIsOpen(data.isOpen)
+        setNextOpening(data.nextOpening)
+      } else {
+        toast.error(data.message || 'Failed to load send window')
+      }
+    } catch (error) {
+      toast.error('Failed to load send window')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSendWindow = async (values: SendWindowValues) => {
+    try {
+      const response = await fetch('/api/campaigns/send-window', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(values)
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Send window saved')
+        await loadSendWindow()
+      } else {
+        toast.error(data.errors?.[0] || data.message || 'Failed to save send window')
+      }
+    } catch (error) {
+      toast.error('Failed to save send window')
+    }
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/admin/campaigns" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Campaigns
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Send Window</h1>
+          <p className="text-gray-600 mt-1">
+            Campaigns, automations and follow-ups only send inside this window. Messages due outside it are held and sent when it next opens. Individual campaigns can set their own window from their progress panel.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <div className="flex items-center">
+              <Clock className="w-5 h-5 mr-2 text-gray-500" />
+              <h2 className="text-lg font-semibold text-gray-900">Global Window</h2>
+            </div>
+            {sendWindow && (
+              <span className={`px-2 py-1 text-xs font-medium rounded-full ${isOpen ? 'bg-green-100 text-green-800' : 'bg-indigo-100 text-indigo-800'}`}>
+                {isOpen
+                  ? 'Open now'
+                  : `Closed · opens ${nextOpening ? new Date(nextOpening).toLocaleString() : 'later'}`}
+              </span>
+            )}
+          </div>
+
+          {loading || !sendWindow ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : (
+            <div className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Current: <span className="font-medium text-gray-900">{describeSendWindow(sendWindow)}</span>
+                {sendWindow.isDefault && <span className="text-xs text-gray-500"> (default)</span>}
+              </p>
+              <SendWindowForm
+                key={describeSendWindow(sendWindow)}
+                sendWindow={sendWindow}
+                onSave={saveSendWindow}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default function SendWindowPage() {
+  return (
+    <RouteProtection>
+      <SendWindowPageContent />
+    </RouteProtection>
+  )
+}
@@ -103,6 +103,7 @@ export default function AdminLayout({ children }: AdminLayoutProps) {
     { name: 'Contacts', href: '/admin/contacts', icon: 'Users', permission: 'contacts:view' },
     { name: 'Data Import', href: '/admin/import', icon: 'Upload', permission: 'contacts:create' },
     { name: 'Analytics', href: '/admin/analytics', icon: 'BarChart3', permission: 'analytics:view' },
+    { name: 'My Availability', href: '/admin/availability', icon: 'Calendar', permission: 'dashboard:view' },
     { name: 'Settings', href: '/admin/settings', icon: 'Settings', permission: 'settings:manage' }
   ].filter(item => hasPermission(user, item.permission)) : [];
 
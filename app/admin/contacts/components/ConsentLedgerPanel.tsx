@@ -0,0 +1,284 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  CheckCircle,
+  XCircle,
+  Download,
+  Plus,
+  ShieldCheck
+} from 'lucide-react'
+import toast from 'react-hot-toast'
+
+interface ConsentLedgerPanelProps {
+  contactId: string
+}
+
+interface ConsentEntry {
+  id: string
+  channel: string
+  purpose: string
+  status: 'GRANTED' | 'REVOKED'
+  source: string
+  evidence: Record<string, any> | null
+  expiresAt: string | null
+  recordedBy: string | null
+  createdAt: string
+}
+
+interface ConsentState {
+  channel: string
+  purpose: string
+  valid: boolean
+  entry: ConsentEntry | null
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  APPLY_FORM: 'Apply form',
+  IMPORT: 'Import',
+  WHATSAPP_OPT_IN: 'WhatsApp opt-in',
+  INBOUND_KEYWORD: 'Keyword reply',
+  ADMIN: 'Recorded by staff'
+}
+
+const emptyEntry = {
+  channel: 'ALL',
+  purpose: 'MARKETING',
+  status: 'GRANTED',
+  source: 'ADMIN',
+  evidence: '',
+  expiresAt: ''
+}
+
+const describeEvidence = (evidence: Record<string, any> | null) => {
+  if (!evidence) return null
+  return Object.entries(evidence)
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([key, value]) => `${key}: ${value}`)
+    .join(' · ')
+}
+
+export default function ConsentLedgerPanel({ contactId }: ConsentLedgerPanelProps) {
+  const [current, setCurrent] = useState<ConsentState[]>([])
+  const [ledger, setLedger] = useState<ConsentEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [showForm, setShowForm] = useState(false)
+  const [newEntry, setNewEntry] = useState(emptyEntry)
+
+  useEffect(() => {
+    loadConsent()
+  }, [contactId])
+
+  const loadConsent = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch(`/api/contacts/${contactId}/consent`)
+      const data = await response.json()
+
+      if (data.success) {
+        setCurrent(data.current)
+        setLedger(data.ledger)
+      } else {
+        toast.error(data.message || 'Failed to load consent')
+      }
+    } catch (error) {
+      toast.error('Failed to load consent')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const recordConsent = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch(`/api/contacts/${contactId}/consent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...newEntry,
+          expiresAt: newEntry.expiresAt ? new Date(newEntry.expiresAt).toISOString() : undefined
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Consent recorded')
+        setNewEntry(emptyEntry)
+        setShowForm(false)
+        await loadConsent()
+      } else {
+        toast.error(data.errors?.[0] || data.message || 'Failed to record consent')
+      }
+    } catch (error) {
+      toast.error('Failed to record consent')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900">Consent</h3>
+        <div className="flex items-center space-x-2">
+          <a
+            href={`/api/contacts/${contactId}/consent/report?format=csv`}
+            className="btn-secondary flex items-center text-sm"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export Report
+          </a>
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="btn-primary flex items-center text-sm"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Record Consent
+          </button>
+        </div>
+      </div>
+
+      {/* Current state */}
+      <div className="grid grid-cols-2 gap-3">
+        {current.map(state => (
+          <div key={`${state.purpose}-${state.channel}`} className="bg-gray-50 rounded-lg p-3 flex items-start">
+            {state.valid
+              ? <CheckCircle className="w-5 h-5 mr-2 mt-0.5 text-green-600" />
+              : <XCircle className="w-5 h-5 mr-2 mt-0.5 text-red-500" />}
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {state.purpose === 'MARKETING' ? 'Marketing' : 'Transactional'} · {state.channel === 'WHATSAPP' ? 'WhatsApp' : 'SMS'}
+              </p>
+              <p className="text-xs text-gray-500">
+                {state.entry
+                  ? `${state.entry.status === 'GRANTED' ? 'Granted' : 'Revoked'} via ${SOURCE_LABELS[state.entry.source] || state.entry.source} on ${new Date(state.entry.createdAt).toLocaleDateString()}`
+                  : 'No consent recorded'}
+                {state.entry?.expiresAt && ` · expires ${new Date(state.entry.expiresAt).toLocaleDateString()}`}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Record form */}
+      {showForm && (
+        <form onSubmit={recordConsent} className="border border-gray-200 rounded-lg p-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Purpose</label>
+              <select
+                value={newEntry.purpose}
+                onChange={(e) => setNewEntry({ ...newEntry, purpose: e.target.value })}
+                className="input-field"
+              >
+                <option value="MARKETING">Marketing</option>
+                <option value="TRANSACTIONAL">Transactional</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Channel</label>
+              <select
+                value={newEntry.channel}
+                onChange={(e) => setNewEntry({ ...newEntry, channel: e.target.value })}
+                className="input-field"
+              >
+                <option value="ALL">All channels</option>
+                <option value="SMS">SMS</option>
+                <option value="WHATSAPP">WhatsApp</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Status</label>
+              <select
+                value={newEntry.status}
+                onChange={(e) => setNewEntry({ ...newEntry, status: e.target.value })}
+                className="input-field"
+              >
+                <option value="GRANTED">Granted</option>
+                <option value="REVOKED">Revoked</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Source</label>
+              <select
+                value={newEntry.source}
+                onChange={(e) => setNewEntry({ ...newEntry, source: e.target.value })}
+                className="input-field"
+              >
+                <option value="ADMIN">Recorded by staff</option>
+                <option value="IMPORT">Import</option>
+              </select>
+            </div>
+          </div>
+          <div className="grid md:grid-cols-3 gap-3">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Evidence</label>
+              <input
+                value={newEntry.evidence}
+                onChange={(e) => setNewEntry({ ...newEntry, evidence: e.target.value })}
+                placeholder="Call recording ID, signed form reference, import file name..."
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+              <input
+                type="date"
+                value={newEntry.expiresAt}
+                onChange={(e) => setNewEntry({ ...newEntry, expiresAt: e.target.value })}
+                className="input-field"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button type="button" onClick={() => setShowForm(false)} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary">
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Ledger */}
+      <div>
+        <h4 className="text-sm font-medium text-gray-900 mb-3">Ledger</h4>
+        {ledger.length === 0 ? (
+          <div className="text-center py-8">
+            <ShieldCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No consent recorded for this contact</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {ledger.map(entry => (
+              <div key={entry.id} className="p-3 bg-gray-50 rounded-lg">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-gray-900">
+                    <span className={`px-2 py-0.5 mr-2 text-xs font-medium rounded-full ${entry.status === 'GRANTED' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                      {entry.status === 'GRANTED' ? 'Granted' : 'Revoked'}
+                    </span>
+                    {entry.purpose === 'MARKETING' ? 'Marketing' : 'Transactional'} · {entry.channel} · {SOURCE_LABELS[entry.source] || entry.source}
+                  </p>
+                  <p className="text-xs text-gray-500">{new Date(entry.createdAt).toLocaleString()}</p>
+                </div>
+                {entry.evidence && (
+                  <p className="text-xs text-gray-500 mt-1 break-words">{describeEvidence(entry.evidence)}</p>
+                )}
+                {entry.recordedBy && <p className="text-xs text-gray-400 mt-1">Recorded by {entry.recordedBy}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
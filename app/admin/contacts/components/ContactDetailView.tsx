@@ -15,10 +15,12 @@ import {
   Activity,
   Edit,
   Trash2,
-  Send
+  Send,
+  ShieldCheck
 } from 'lucide-react'
 import toast from 'react-hot-toast'
 import DataService, { Contact, Message } from '../../../../lib/dataService'
+import ConsentLedgerPanel from './ConsentLedgerPanel'
 
 interface ContactDetailViewProps {
   contactId: string | null
@@ -48,7 +50,7 @@ export default function ContactDetailView({
   const [messages, setMessages] = useState<Message[]>([])
   const [stats, setStats] = useState<ContactStats | null>(null)
   const [loading, setLoading] = useState(false)
-  const [activeTab, setActiveTab] = useState<'overview' | 'messages' | 'activity'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'messages' | 'activity' | 'consent'>('overview')
 
   useEffect(() => {
     if (contactId && isOpen) {
@@ -168,7 +170,8 @@ export default function ContactDetailView({
           {[
             { id: 'overview', label: 'Overview', icon: User },
             { id: 'messages', label: 'Messages', icon: MessageSquare },
-            { id: 'activity', label: 'Activity', icon: Activity }
+            { id: 'activity', label: 'Activity', icon: Activity },
+            { id: 'consent', label: 'Consent', icon: ShieldCheck }
           ].map(tab => {
             const Icon = tab.icon
             return (
@@ -407,6 +410,10 @@ export default function ContactDetailView({
                   </div>
                 </div>
               )}
+
+              {activeTab === 'consent' && (
+                <ConsentLedgerPanel contactId={contact.id} />
+              )}
             </>
           )}
         </div>
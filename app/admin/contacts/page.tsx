@@ -22,8 +22,10 @@ import {
   XCircle,
   Clock,
   MoreVertical,
-  Eye
+  Eye,
+  Ban
 } from 'lucide-react'
+import Link from 'next/link'
 import AdminLayout from '../components/AdminLayout'
 import ContactForm from './components/ContactForm'
 import ContactDetailView from './components/ContactDetailView'
@@ -267,6 +269,13 @@ function ContactsPageContent() {
             </p>
           </div>
           <div className="flex flex-col sm:flex-row items-stretch sm:items-center space-y-2 sm:space-y-0 sm:space-x-3">
+            <Link
+              href="/admin/contacts/suppressions"
+              className="btn-secondary flex items-center justify-center"
+            >
+              <Ban className="w-4 h-4 mr-2" />
+              Suppression List
+            </Link>
             <button
               onClick={() => setShowImportExport(true)}
               className="btn-secondary flex items-center justify-center"
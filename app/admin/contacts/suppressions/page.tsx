@@ -0,0 +1,334 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  Ban,
+  History,
+  Plus,
+  Search,
+  Trash2
+} from 'lucide-react'
+import toast from 'react-hot-toast'
+import RouteProtection from '../../../components/RouteProtection'
+import AdminLayout from '../../components/AdminLayout'
+
+interface SuppressionEntry {
+  id: string
+  phone: string
+  channel: string
+  reason: string
+  source: string
+  keyword: string | null
+  note: string | null
+  createdBy: string | null
+  createdAt: string
+}
+
+interface SuppressionLogEntry {
+  id: string
+  action: 'ADDED' | 'REMOVED'
+  phone: string
+  channel: string
+  reason: string | null
+  source: string
+  note: string | null
+  performedBy: string
+  createdAt: string
+}
+
+const CHANNELS = ['ALL', 'SMS', 'WHATSAPP']
+
+const REASONS = [
+  { value: 'DO_NOT_CONTACT', label: 'Do not contact' },
+  { value: 'OPT_OUT', label: 'Opted out' },
+  { value: 'COMPLAINT', label: 'Complaint' },
+  { value: 'INVALID_NUMBER', label: 'Invalid number' },
+  { value: 'OTHER', label: 'Other' }
+]
+
+const getReasonLabel = (reason: string | null) =>
+  REASONS.find(r => r.value === reason)?.label || reason || '-'
+
+function SuppressionsPageContent() {
+  const [suppressions, setSuppressions] = useState<SuppressionEntry[]>([])
+  const [history, setHistory] = useState<SuppressionLogEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [channelFilter, setChannelFilter] = useState('')
+  const [newEntry, setNewEntry] = useState({ phone: '', channel: 'ALL', reason: 'DO_NOT_CONTACT', note: '' })
+
+  useEffect(() => {
+    loadSuppressions()
+  }, [channelFilter])
+
+  const loadSuppressions = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams()
+      if (search) params.set('search', search)
+      if (channelFilter) params.set('channel', channelFilter)
+
+      const response = await fetch(`/api/suppressions?${params.toString()}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setSuppressions(data.suppressions)
+        setHistory(data.history)
+      } else {
+        toast.error(data.message || 'Failed to load suppression list')
+      }
+    } catch (error) {
+      toast.error('Failed to load suppression list')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addSuppression = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      const response = await fetch('/api/suppressions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          phone: newEntry.phone,
+          channel: newEntry.channel,
+          reason: newEntry.reason,
+          note: newEntry.note || undefined
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Number added to suppression list')
+        setNewEntry({ phone: '', channel: 'ALL', reason: 'DO_NOT_CONTACT', note: '' })
+        await loadSuppressions()
+      } else {
+        toast.error(data.errors?.[0] || data.message || 'Failed to add number')
+      }
+    } catch (error) {
+      toast.error('Failed to add number')
+    }
+  }
+
+  const removeSuppression = async (entry: SuppressionEntry) => {
+    const note = window.prompt(`Remove ${entry.phone} from the suppression list? Add a note for the audit trail (optional):`)
+    if (note === null) return
+
+    try {
+      const params = note ? `?note=${encodeURIComponent(note)}` : ''
+      const response = await fetch(`/api/suppressions/${entry.id}${params}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Number removed from suppression list')
+        await loadSuppressions()
+      } else {
+        toast.error(data.message || 'Failed to remove number')
+      }
+    } catch (error) {
+      toast.error('Failed to remove number')
+    }
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/admin/contacts" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Contacts
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Suppression List</h1>
+          <p className="text-gray-600 mt-1">
+            Numbers on this list are never messaged by campaigns, automations or follow-ups. Contacts who reply STOP are added automatically.
+          </p>
+        </div>
+
+        {/* Add entry */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center">
+            <Ban className="w-5 h-5 mr-2 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Add Number</h2>
+          </div>
+
+          <form onSubmit={addSuppression} className="p-6 grid md:grid-cols-5 gap-4 items-end">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+              <input
+                value={newEntry.phone}
+                onChange={(e) => setNewEntry({ ...newEntry, phone: e.target.value })}
+                placeholder="9876543210"
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Channel</label>
+              <select
+                value={newEntry.channel}
+                onChange={(e) => setNewEntry({ ...newEntry, channel: e.target.value })}
+                className="input-field"
+              >
+                {CHANNELS.map(channel => (
+                  <option key={channel} value={channel}>{channel}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <select
+                value={newEntry.reason}
+                onChange={(e) => setNewEntry({ ...newEntry, reason: e.target.value })}
+                className="input-field"
+              >
+                {REASONS.map(reason => (
+                  <option key={reason.value} value={reason.value}>{reason.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+              <input
+                value={newEntry.note}
+                onChange={(e) => setNewEntry({ ...newEntry, note: e.target.value })}
+                placeholder="Requested on call..."
+                className="input-field"
+              />
+            </div>
+            <button type="submit" className="btn-primary flex items-center justify-center">
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </button>
+          </form>
+        </div>
+
+        {/* Entries */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex flex-col sm:flex-row sm:items-center gap-3">
+            <h2 className="text-lg font-semibold text-gray-900 flex-1">Suppressed Numbers ({suppressions.length})</h2>
+            <form
+              onSubmit={(e) => { e.preventDefault(); loadSuppressions() }}
+              className="flex items-center gap-2"
+            >
+              <div className="relative">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                <input
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search phone"
+                  className="input-field pl-9"
+                />
+              </div>
+              <select
+                value={channelFilter}
+                onChange={(e) => setChannelFilter(e.target.value)}
+                className="input-field"
+              >
+                <option value="">All channels</option>
+                {CHANNELS.map(channel => (
+                  <option key={channel} value={channel}>{channel}</option>
+                ))}
+              </select>
+            </form>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : suppressions.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No suppressed numbers</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Phone</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Channel</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Source</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Added</th>
+                    <th className="px-6 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {suppressions.map(entry => (
+                    <tr key={entry.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{entry.phone}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{entry.channel}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {getReasonLabel(entry.reason)}
+                        {entry.note && <div className="text-xs text-gray-500 mt-1">{entry.note}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {entry.source === 'INBOUND_KEYWORD' ? `Replied "${entry.keyword}"` : 'Added by admin'}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500">
+                        {new Date(entry.createdAt).toLocaleString()}
+                        {entry.createdBy && <div className="text-xs">{entry.createdBy}</div>}
+                      </td>
+                      <td className="px-6 py-4 text-right">
+                        <button
+                          onClick={() => removeSuppression(entry)}
+                          className="p-2 text-gray-600 hover:text-red-600"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Audit trail */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center">
+            <History className="w-5 h-5 mr-2 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">History</h2>
+          </div>
+
+          {history.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No changes yet</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {history.map(log => (
+                <div key={log.id} className="p-4 px-6 flex items-center justify-between">
+                  <div>
+                    <div className="text-sm text-gray-900">
+                      <span className={`px-2 py-0.5 mr-2 text-xs font-medium rounded-full ${log.action === 'ADDED' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
+                        {log.action === 'ADDED' ? 'Added' : 'Removed'}
+                      </span>
+                      {log.phone} ({log.channel}) · {getReasonLabel(log.reason)}
+                    </div>
+                    {log.note && <div className="text-xs text-gray-500 mt-1">{log.note}</div>}
+                  </div>
+                  <div className="text-right text-xs text-gray-500">
+                    <div>{log.performedBy}</div>
+                    <div>{new Date(log.createdAt).toLocaleString()}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default function SuppressionsPage() {
+  return (
+    <RouteProtection>
+      <SuppressionsPageContent />
+    </RouteProtection>
+  )
+}
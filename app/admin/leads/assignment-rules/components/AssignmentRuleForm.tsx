@@ -0,0 +1,265 @@
+'use client'
+
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { X } from 'lucide-react'
+
+export type AssignmentStrategy = 'ROUND_ROBIN' | 'WORKLOAD_BASED' | 'SKILL_BASED' | 'MANUAL'
+
+export interface AssignmentRuleConditions {
+  loanType?: string[]
+  loanAmountMin?: number
+  loanAmountMax?: number
+  leadSource?: string[]
+  leadPriority?: string[]
+  timeOfDay?: { start: string; end: string }
+  dayOfWeek?: string[]
+}
+
+export interface AssignmentRule {
+  id: string
+  name: string
+  priority: number
+  conditions: AssignmentRuleConditions
+  assignmentStrategy: AssignmentStrategy
+  targetUsers?: string[]
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AssignmentRuleFormValues {
+  name: string
+  priority: number
+  conditions: AssignmentRuleConditions
+  assignmentStrategy: AssignmentStrategy
+  targetUsers: string[]
+  isActive: boolean
+}
+
+interface AssignmentRuleFormProps {
+  rule?: AssignmentRule | null
+  employees: Array<{ id: string; name: string }>
+  onSave: (values: AssignmentRuleFormValues) => Promise<void>
+  onCancel: () => void
+}
+
+export const STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  ROUND_ROBIN: 'Round Robin',
+  WORKLOAD_BASED: 'Workload Based',
+  SKILL_BASED: 'Skill Based',
+  MANUAL: 'Manual (leave unassigned)'
+}
+
+const LOAN_TYPES = ['PERSONAL', 'BUSINESS', 'HOME', 'VEHICLE', 'EDUCATION', 'GOLD']
+const PRIORITIES = ['LOW', 'MEDIUM', 'HIGH', 'URGENT']
+const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday']
+
+export default function AssignmentRuleForm({ rule, employees, onSave, onCancel }: AssignmentRuleFormProps) {
+  const [name, setName] = useState(rule?.name || '')
+  const [priority, setPriority] = useState(rule?.priority ?? 100)
+  const [strategy, setStrategy] = useState<AssignmentStrategy>(rule?.assignmentStrategy || 'ROUND_ROBIN')
+  const [isActive, setIsActive] = useState(rule?.isActive ?? true)
+  const [loanTypes, setLoanTypes] = useState<string[]>(rule?.conditions.loanType || [])
+  const [leadPriorities, setLeadPriorities] = useState<string[]>(rule?.conditions.leadPriority || [])
+  const [days, setDays] = useState<string[]>(rule?.conditions.dayOfWeek || [])
+  const [leadSources, setLeadSources] = useState((rule?.conditions.leadSource || []).join(', '))
+  const [amountMin, setAmountMin] = useState(rule?.conditions.loanAmountMin?.toString() || '')
+  const [amountMax, setAmountMax] = useState(rule?.conditions.loanAmountMax?.toString() || '')
+  const [timeStart, setTimeStart] = useState(rule?.conditions.timeOfDay?.start || '')
+  const [timeEnd, setTimeEnd] = useState(rule?.conditions.timeOfDay?.end || '')
+  const [targetUsers, setTargetUsers] = useState<string[]>(rule?.targetUsers || [])
+  const [saving, setSaving] = useState(false)
+
+  const toggle = (values: string[], value: string, setter: (next: string[]) => void) => {
+    setter(values.includes(value) ? values.filter(v => v !== value) : [...values, value])
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    // Only send the conditions the admin actually set
+    const conditions: AssignmentRuleConditions = {}
+    if (loanTypes.length) conditions.loanType = loanTypes
+    if (leadPriorities.length) conditions.leadPriority = leadPriorities
+    if (days.length) conditions.dayOfWeek = days
+    const sources = leadSources.split(',').map(s => s.trim()).filter(Boolean)
+    if (sources.length) conditions.leadSource = sources
+    if (amountMin) conditions.loanAmountMin = Number(amountMin)
+    if (amountMax) conditions.loanAmountMax = Number(amountMax)
+    if (timeStart && timeEnd) conditions.timeOfDay = { start: timeStart, end: timeEnd }
+
+    setSaving(true)
+    try {
+      await onSave({
+        name: name.trim(),
+        priority: Number(priority),
+        conditions,
+        assignmentStrategy: strategy,
+        targetUsers,
+        isActive
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const chip = (selected: boolean) =>
+    `px-3 py-1 text-xs font-medium rounded-full border ${selected ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col"
+      >
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {rule ? 'Edit Assignment Rule' : 'New Assignment Rule'}
+          </h2>
+          <button onClick={onCancel} className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-5">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+              <input
+                type="number"
+                min={1}
+                max={1000}
+                value={priority}
+                onChange={(e) => setPriority(Number(e.target.value))}
+                className="input-field"
+                required
+              />
+              <p className="text-xs text-gray-500 mt-1">Lower numbers are checked first</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Strategy</label>
+            <select
+              value={strategy}
+              onChange={(e) => setStrategy(e.target.value as AssignmentStrategy)}
+              className="input-field"
+            >
+              {Object.entries(STRATEGY_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Loan types</label>
+            <div className="flex flex-wrap gap-2">
+              {LOAN_TYPES.map(type => (
+                <button key={type} type="button" className={chip(loanTypes.includes(type))} onClick={() => toggle(loanTypes, type, setLoanTypes)}>
+                  {type}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Lead priorities</label>
+            <div className="flex flex-wrap gap-2">
+              {PRIORITIES.map(value => (
+                <button key={value} type="button" className={chip(leadPriorities.includes(value))} onClick={() => toggle(leadPriorities, value, setLeadPriorities)}>
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Min loan amount (₹)</label>
+              <input type="number" min={0} value={amountMin} onChange={(e) => setAmountMin(e.target.value)} className="input-field" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Max loan amount (₹)</label>
+              <input type="number" min={0} value={amountMax} onChange={(e) => setAmountMax(e.target.value)} className="input-field" />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Lead sources</label>
+            <input
+              value={leadSources}
+              onChange={(e) => setLeadSources(e.target.value)}
+              placeholder="WEBSITE_FORM, REFERRAL"
+              className="input-field"
+            />
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Active from</label>
+              <input type="time" value={timeStart} onChange={(e) => setTimeStart(e.target.value)} className="input-field" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Active until</label>
+              <input type="time" value={timeEnd} onChange={(e) => setTimeEnd(e.target.value)} className="input-field" />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Days</label>
+            <div className="flex flex-wrap gap-2">
+              {DAYS.map(day => (
+                <button key={day} type="button" className={chip(days.includes(day))} onClick={() => toggle(days, day, setDays)}>
+                  {day.slice(0, 3)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Assign to</label>
+            <p className="text-xs text-gray-500 mb-2">Leave empty to consider every employee</p>
+            <div className="flex flex-wrap gap-2">
+              {employees.map(employee => (
+                <button key={employee.id} type="button" className={chip(targetUsers.includes(employee.id))} onClick={() => toggle(targetUsers, employee.id, setTargetUsers)}>
+                  {employee.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={isActive}
+              onChange={(e) => setIsActive(e.target.checked)}
+              className="mr-2"
+            />
+            Rule is active
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button type="button" onClick={onCancel} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving} className="btn-primary disabled:opacity-50">
+              {saving ? 'Saving...' : 'Save Rule'}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </div>
+  )
+}
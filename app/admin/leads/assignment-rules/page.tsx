@@ -0,0 +1,349 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { AnimatePresence } from 'framer-motion'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  Plus,
+  Edit,
+  Trash2,
+  GitBranch,
+  Award,
+  Save
+} from 'lucide-react'
+import toast from 'react-hot-toast'
+import RouteProtection from '../../../components/RouteProtection'
+import AdminLayout from '../../components/AdminLayout'
+import AssignmentRuleForm, {
+  AssignmentRule,
+  AssignmentRuleFormValues,
+  STRATEGY_LABELS
+} from './components/AssignmentRuleForm'
+
+interface EmployeeSkills {
+  id: string
+  name: string
+  email: string
+  skills: string[]
+}
+
+const SKILL_OPTIONS = ['PERSONAL', 'BUSINESS', 'HOME', 'VEHICLE', 'EDUCATION', 'GOLD', 'ALL_LOANS', 'HIGH_VALUE', 'RETAIL']
+
+function describeConditions(rule: AssignmentRule): string {
+  const { conditions } = rule
+  const parts: string[] = []
+
+  if (conditions.loanType?.length) parts.push(`Loan type: ${conditions.loanType.join(', ')}`)
+  if (conditions.loanAmountMin !== undefined) parts.push(`Amount ≥ ₹${conditions.loanAmountMin.toLocaleString()}`)
+  if (conditions.loanAmountMax !== undefined) parts.push(`Amount ≤ ₹${conditions.loanAmountMax.toLocaleString()}`)
+  if (conditions.leadPriority?.length) parts.push(`Priority: ${conditions.leadPriority.join(', ')}`)
+  if (conditions.leadSource?.length) parts.push(`Source: ${conditions.leadSource.join(', ')}`)
+  if (conditions.timeOfDay) parts.push(`${conditions.timeOfDay.start}–${conditions.timeOfDay.end}`)
+  if (conditions.dayOfWeek?.length) parts.push(conditions.dayOfWeek.map(day => day.slice(0, 3)).join(', '))
+
+  return parts.length > 0 ? parts.join(' · ') : 'All leads'
+}
+
+function AssignmentRulesPageContent() {
+  const [rules, setRules] = useState<AssignmentRule[]>([])
+  const [employees, setEmployees] = useState<EmployeeSkills[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editingRule, setEditingRule] = useState<AssignmentRule | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [savingSkillsFor, setSavingSkillsFor] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadData()
+  }, [])
+
+  const loadData = async () => {
+    try {
+      setLoading(true)
+      const [rulesResponse, skillsResponse] = await Promise.all([
+        fetch('/api/leads/assignment-rules'),
+        fetch('/api/leads/assignment-rules/skills')
+      ])
+      const rulesData = await rulesResponse.json()
+      const skillsData = await skillsResponse.json()
+
+      if (rulesData.success) {
+        setRules(rulesData.rules)
+      } else {
+        toast.error(rulesData.message || 'Failed to load assignment rules')
+      }
+
+      if (skillsData.success) {
+        setEmployees(skillsData.employees)
+      }
+    } catch (error) {
+      toast.error('Failed to load assignment rules')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveRule = async (values: AssignmentRuleFormValues) => {
+    try {
+      const response = await fetch(
+        editingRule ? `/api/leads/assignment-rules/${editingRule.id}` : '/api/leads/assignment-rules',
+        {
+          method: editingRule ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(values)
+        }
+      )
+      const data = await response.json()
+
+      if (!data.success) {
+        toast.error(data.errors?.[0] || data.message || 'Failed to save rule')
+        return
+      }
+
+      toast.success(editingRule ? 'Rule updated' : 'Rule created')
+      setShowForm(false)
+      setEditingRule(null)
+      await loadData()
+    } catch (error) {
+      toast.error('Failed to save rule')
+    }
+  }
+
+  const toggleRule = async (rule: AssignmentRule) => {
+    try {
+      const response = await fetch(`/api/leads/assignment-rules/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !rule.isActive })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setRules(prev => prev.map(r => r.id === rule.id ? data.rule : r))
+      } else {
+        toast.error(data.message || 'Failed to update rule')
+      }
+    } catch (error) {
+      toast.error('Failed to update rule')
+    }
+  }
+
+  const deleteRule = async (rule: AssignmentRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return
+
+    try {
+      const response = await fetch(`/api/leads/assignment-rules/${rule.id}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        setRules(prev => prev.filter(r => r.id !== rule.id))
+        toast.success('Rule deleted')
+      } else {
+        toast.error(data.message || 'Failed to delete rule')
+      }
+    } catch (error) {
+      toast.error('Failed to delete rule')
+    }
+  }
+
+  const toggleSkill = (employeeId: string, skill: string) => {
+    setEmployees(prev => prev.map(employee => {
+      if (employee.id !== employeeId) return employee
+      const skills = employee.skills.includes(skill)
+        ? employee.skills.filter(s => s !== skill)
+        : [...employee.skills, skill]
+      return { ...employee, skills }
+    }))
+  }
+
+  const saveSkills = async (employee: EmployeeSkills) => {
+    setSavingSkillsFor(employee.id)
+    try {
+      const response = await fetch('/api/leads/assignment-rules/skills', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId: employee.id, skills: employee.skills })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success(`Skills saved for ${employee.name}`)
+      } else {
+        toast.error(data.message || 'Failed to save skills')
+      }
+    } catch (error) {
+      toast.error('Failed to save skills')
+    } finally {
+      setSavingSkillsFor(null)
+    }
+  }
+
+  const employeeName = (id: string) => employees.find(e => e.id === id)?.name || 'Unknown user'
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-center">
+          <div>
+            <Link href="/admin/leads" className="text-sm text-gray-500 hover:text-gray-700 flex items-center mb-2">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Back to leads
+            </Link>
+            <h1 className="text-3xl font-bold text-gray-900">Lead Assignment Rules</h1>
+            <p className="text-gray-600 mt-1">
+              New leads are routed by the first active rule they match, in priority order
+            </p>
+          </div>
+
+          <button
+            onClick={() => {
+              setEditingRule(null)
+              setShowForm(true)
+            }}
+            className="btn-primary flex items-center"
+          >
+            <Plus className="w-5 h-5 mr-2" />
+            New Rule
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+        ) : (
+          <>
+            {/* Rules */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+              <div className="p-6 border-b border-gray-200 flex items-center">
+                <GitBranch className="w-5 h-5 mr-2 text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-900">Rules</h2>
+              </div>
+
+              {rules.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500">
+                  No rules configured. Leads go to the employee with the lowest workload.
+                </p>
+              ) : (
+                <div className="divide-y divide-gray-200">
+                  {rules.map(rule => (
+                    <div key={rule.id} className={`p-6 flex items-start justify-between ${rule.isActive ? '' : 'opacity-60'}`}>
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span className="text-xs font-mono bg-gray-100 text-gray-600 px-2 py-0.5 rounded">#{rule.priority}</span>
+                          <span className="font-medium text-gray-900">{rule.name}</span>
+                          <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+                            {STRATEGY_LABELS[rule.assignmentStrategy]}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-600 mt-1">{describeConditions(rule)}</p>
+                        {rule.targetUsers && rule.targetUsers.length > 0 && (
+                          <p className="text-xs text-gray-500 mt-1">
+                            Assigns to: {rule.targetUsers.map(employeeName).join(', ')}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <button
+                          onClick={() => toggleRule(rule)}
+                          className={`px-3 py-1 text-xs font-medium rounded-lg ${rule.isActive ? 'bg-green-50 text-green-700 hover:bg-green-100' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                        >
+                          {rule.isActive ? 'Active' : 'Inactive'}
+                        </button>
+                        <button
+                          onClick={() => {
+                            setEditingRule(rule)
+                            setShowForm(true)
+                          }}
+                          className="p-2 text-gray-600 hover:text-primary-600"
+                          title="Edit Rule"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteRule(rule)}
+                          className="p-2 text-gray-600 hover:text-red-600"
+                          title="Delete Rule"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Employee skills */}
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+              <div className="p-6 border-b border-gray-200">
+                <div className="flex items-center">
+                  <Award className="w-5 h-5 mr-2 text-gray-500" />
+                  <h2 className="text-lg font-semibold text-gray-900">Employee Skills</h2>
+                </div>
+                <p className="text-sm text-gray-500 mt-1">Used by skill-based rules to match loan types and ticket sizes</p>
+              </div>
+
+              {employees.length === 0 ? (
+                <p className="p-6 text-sm text-gray-500">No active employees</p>
+              ) : (
+                <div className="divide-y divide-gray-200">
+                  {employees.map(employee => (
+                    <div key={employee.id} className="p-6 flex items-center justify-between">
+                      <div>
+                        <div className="font-medium text-gray-900">{employee.name}</div>
+                        <div className="text-xs text-gray-500 mb-2">{employee.email}</div>
+                        <div className="flex flex-wrap gap-2">
+                          {SKILL_OPTIONS.map(skill => (
+                            <button
+                              key={skill}
+                              onClick={() => toggleSkill(employee.id, skill)}
+                              className={`px-3 py-1 text-xs font-medium rounded-full border ${employee.skills.includes(skill) ? 'bg-primary-600 text-white border-primary-600' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+                            >
+                              {skill}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <button
+                        onClick={() => saveSkills(employee)}
+                        disabled={savingSkillsFor === employee.id}
+                        className="btn-secondary flex items-center disabled:opacity-50"
+                      >
+                        <Save className="w-4 h-4 mr-2" />
+                        Save
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        <AnimatePresence>
+          {showForm && (
+            <AssignmentRuleForm
+              rule={editingRule}
+              employees={employees}
+              onSave={saveRule}
+              onCancel={() => {
+                setShowForm(false)
+                setEditingRule(null)
+              }}
+            />
+          )}
+        </AnimatePresence>
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default function AssignmentRulesPage() {
+  return (
+    <RouteProtection requiredRole="ADMIN">
+      <AssignmentRulesPageContent />
+    </RouteProtection>
+  )
+}
@@ -0,0 +1,243 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { motion } from 'framer-motion'
+import {
+  X,
+  User,
+  Phone,
+  Mail,
+  FileText,
+  CheckCircle,
+  XCircle,
+  Clock,
+  ExternalLink
+} from 'lucide-react'
+import toast from 'react-hot-toast'
+import { Lead } from '../../../../lib/dataService'
+
+interface LeadDocument {
+  id: string
+  documentType: 'PAN' | 'AADHAAR' | 'SALARY_SLIP' | 'BANK_STATEMENT'
+  fileName: string
+  originalName: string
+  size: number
+  status: 'PENDING' | 'VERIFIED' | 'REJECTED'
+  rejectionReason?: string | null
+  verifiedAt?: string | null
+  verifiedBy?: { id: string; name: string } | null
+  createdAt: string
+}
+
+interface LeadDetailModalProps {
+  lead: Lead | null
+  isOpen: boolean
+  onClose: () => void
+}
+
+const DOCUMENT_LABELS: Record<LeadDocument['documentType'], string> = {
+  PAN: 'PAN Card',
+  AADHAAR: 'Aadhaar Card',
+  SALARY_SLIP: 'Salary Slip',
+  BANK_STATEMENT: 'Bank Statement'
+}
+
+export default function LeadDetailModal({ lead, isOpen, onClose }: LeadDetailModalProps) {
+  const [documents, setDocuments] = useState<LeadDocument[]>([])
+  const [loadingDocuments, setLoadingDocuments] = useState(false)
+  const [updatingDocumentId, setUpdatingDocumentId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (lead && isOpen) {
+      loadDocuments()
+    }
+  }, [lead, isOpen])
+
+  const loadDocuments = async () => {
+    if (!lead) return
+
+    setLoadingDocuments(true)
+    try {
+      const response = await fetch(`/api/leads/${lead.id}/documents`)
+      const data = await response.json()
+
+      if (data.success) {
+        setDocuments(data.documents)
+      } else {
+        toast.error(data.message || 'Failed to load documents')
+      }
+    } catch (error) {
+      toast.error('Failed to load documents')
+    } finally {
+      setLoadingDocuments(false)
+    }
+  }
+
+  const updateDocumentStatus = async (document: LeadDocument, status: LeadDocument['status']) => {
+    if (!lead) return
+
+    let rejectionReason: string | undefined
+    if (status === 'REJECTED') {
+      rejectionReason = window.prompt(`Why is this ${DOCUMENT_LABELS[document.documentType]} being rejected?`) || undefined
+      if (!rejectionReason) return
+    }
+
+    setUpdatingDocumentId(document.id)
+    try {
+      const response = await fetch(`/api/leads/${lead.id}/documents/${document.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, rejectionReason })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        setDocuments(prev => prev.map(doc => doc.id === document.id ? data.document : doc))
+        toast.success(`Document marked ${status.toLowerCase()}`)
+      } else {
+        toast.error(data.message || 'Failed to update document')
+      }
+    } catch (error) {
+      toast.error('Failed to update document')
+    } finally {
+      setUpdatingDocumentId(null)
+    }
+  }
+
+  const getDocumentStatusBadge = (status: LeadDocument['status']) => {
+    switch (status) {
+      case 'VERIFIED':
+        return <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800"><CheckCircle className="w-3 h-3 mr-1" />Verified</span>
+      case 'REJECTED':
+        return <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800"><XCircle className="w-3 h-3 mr-1" />Rejected</span>
+      default:
+        return <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800"><Clock className="w-3 h-3 mr-1" />Pending</span>
+    }
+  }
+
+  if (!isOpen || !lead) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col"
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center">
+            <div className="w-12 h-12 bg-primary-100 rounded-full flex items-center justify-center mr-4">
+              <User className="w-6 h-6 text-primary-600" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">{lead.name}</h2>
+              <p className="text-gray-600">
+                {lead.loanType.replace('_', ' ')} · ₹{lead.loanAmount.toLocaleString()}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <div className="grid md:grid-cols-2 gap-4 text-sm">
+            <div className="flex items-center text-gray-700">
+              <Phone className="w-4 h-4 mr-2 text-gray-400" />
+              {lead.phone}
+            </div>
+            {lead.email && (
+              <div className="flex items-center text-gray-700">
+                <Mail className="w-4 h-4 mr-2 text-gray-400" />
+                {lead.email}
+              </div>
+            )}
+            <div className="text-gray-700">
+              <span className="font-medium">Status:</span> {lead.status.replace('_', ' ')}
+            </div>
+            <div className="text-gray-700">
+              <span className="font-medium">Assigned to:</span> {lead.assignedTo?.name || 'Unassigned'}
+            </div>
+          </div>
+
+          {lead.notes && (
+            <div className="bg-gray-50 rounded-lg p-4 text-sm text-gray-700">{lead.notes}</div>
+          )}
+
+          {/* Documents */}
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 mb-3 flex items-center">
+              <FileText className="w-5 h-5 mr-2 text-gray-500" />
+              KYC Documents
+            </h3>
+
+            {loadingDocuments ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary-600"></div>
+              </div>
+            ) : documents.length === 0 ? (
+              <p className="text-sm text-gray-500">No documents uploaded yet</p>
+            ) : (
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {documents.map(document => (
+                  <div key={document.id} className="p-4 flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm font-medium text-gray-900">{DOCUMENT_LABELS[document.documentType]}</span>
+                        {getDocumentStatusBadge(document.status)}
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">
+                        {document.originalName} · {(document.size / 1024).toFixed(0)} KB · {new Date(document.createdAt).toLocaleDateString()}
+                      </div>
+                      {document.status === 'REJECTED' && document.rejectionReason && (
+                        <div className="text-xs text-red-600 mt-1">{document.rejectionReason}</div>
+                      )}
+                      {document.verifiedBy && (
+                        <div className="text-xs text-gray-400 mt-1">
+                          Reviewed by {document.verifiedBy.name}
+                          {document.verifiedAt && ` on ${new Date(document.verifiedAt).toLocaleDateString()}`}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <a
+                        href={`/api/leads/${lead.id}/documents/${document.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="p-2 text-gray-600 hover:text-primary-600"
+                        title="View Document"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                      <button
+                        onClick={() => updateDocumentStatus(document, 'VERIFIED')}
+                        disabled={updatingDocumentId === document.id || document.status === 'VERIFIED'}
+                        className="px-3 py-1 text-xs font-medium rounded-lg bg-green-50 text-green-700 hover:bg-green-100 disabled:opacity-50"
+                      >
+                        Verify
+                      </button>
+                      <button
+                        onClick={() => updateDocumentStatus(document, 'REJECTED')}
+                        disabled={updatingDocumentId === document.id || document.status === 'REJECTED'}
+                        className="px-3 py-1 text-xs font-medium rounded-lg bg-red-50 text-red-700 hover:bg-red-100 disabled:opacity-50"
+                      >
+                        Reject
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  )
+}
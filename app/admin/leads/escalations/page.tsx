@@ -0,0 +1,286 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import {
+  ArrowLeft,
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Eye,
+  Users
+} from 'lucide-react'
+import toast from 'react-hot-toast'
+import RouteProtection from '../../../components/RouteProtection'
+import AdminLayout from '../../components/AdminLayout'
+
+type EscalationStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED'
+
+interface Escalation {
+  id: string
+  ruleName: string
+  status: EscalationStatus
+  actionsTaken: Array<{ type: string; success: boolean; detail?: string }>
+  resolution?: string | null
+  createdAt: string
+  acknowledgedAt?: string | null
+  resolvedAt?: string | null
+  lead: { id: string; name: string; phone: string; status: string; priority: string }
+  assignedTo?: { id: string; name: string; email: string } | null
+  acknowledgedBy?: { id: string; name: string } | null
+  resolvedBy?: { id: string; name: string } | null
+}
+
+interface EmployeeSlaSummary {
+  userId: string
+  name: string
+  total: number
+  open: number
+  acknowledged: number
+  resolved: number
+  averageResolutionHours: number | null
+}
+
+function EscalationsPageContent() {
+  const [escalations, setEscalations] = useState<Escalation[]>([])
+  const [summary, setSummary] = useState<EmployeeSlaSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<'ALL' | EscalationStatus>('OPEN')
+  const [employeeFilter, setEmployeeFilter] = useState('ALL')
+  const [days, setDays] = useState(30)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadEscalations()
+  }, [statusFilter, employeeFilter, days])
+
+  const loadEscalations = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({ days: days.toString() })
+      if (statusFilter !== 'ALL') params.set('status', statusFilter)
+      if (employeeFilter !== 'ALL') params.set('assignedToId', employeeFilter)
+
+      const response = await fetch(`/api/leads/escalations?${params}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setEscalations(data.escalations)
+        setSummary(data.summary)
+      } else {
+        toast.error(data.message || 'Failed to load escalations')
+      }
+    } catch (error) {
+      toast.error('Failed to load escalations')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateEscalation = async (escalation: Escalation, status: Exclude<EscalationStatus, 'OPEN'>) => {
+    let resolution: string | undefined
+    if (status === 'RESOLVED') {
+      resolution = window.prompt(`How was the escalation for ${escalation.lead.name} resolved?`) || undefined
+      if (!resolution) return
+    }
+
+    setUpdatingId(escalation.id)
+    try {
+      const response = await fetch(`/api/leads/escalations/${escalation.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, resolution })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success(status === 'RESOLVED' ? 'Escalation closed' : 'Escalation acknowledged')
+        await loadEscalations()
+      } else {
+        toast.error(data.message || 'Failed to update escalation')
+      }
+    } catch (error) {
+      toast.error('Failed to update escalation')
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  const getStatusBadge = (status: EscalationStatus) => {
+    switch (status) {
+      case 'RESOLVED':
+        return <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800"><CheckCircle className="w-3 h-3 mr-1" />Resolved</span>
+      case 'ACKNOWLEDGED':
+        return <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800"><Eye className="w-3 h-3 mr-1" />Acknowledged</span>
+      default:
+        return <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800"><AlertTriangle className="w-3 h-3 mr-1" />Open</span>
+    }
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <Link href="/admin/leads" className="text-sm text-gray-500 hover:text-gray-700 flex items-center mb-2">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Back to leads
+          </Link>
+          <h1 className="text-3xl font-bold text-gray-900">Lead Escalations</h1>
+          <p className="text-gray-600 mt-1">
+            SLA breaches raised by escalation rules, by the employee who owned the lead
+          </p>
+        </div>
+
+        {/* SLA summary */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <div className="flex items-center">
+              <Users className="w-5 h-5 mr-2 text-gray-500" />
+              <h2 className="text-lg font-semibold text-gray-900">SLA Breaches by Employee</h2>
+            </div>
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value={7}>Last 7 days</option>
+              <option value={30}>Last 30 days</option>
+              <option value={90}>Last 90 days</option>
+            </select>
+          </div>
+
+          {summary.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No escalations in this period</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Employee</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Open</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Acknowledged</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Resolved</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Avg. time to close</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {summary.map(row => (
+                  <tr key={row.userId} className="hover:bg-gray-50 cursor-pointer" onClick={() => setEmployeeFilter(row.userId)}>
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{row.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">{row.total}</td>
+                    <td className="px-6 py-4 text-sm text-red-600">{row.open}</td>
+                    <td className="px-6 py-4 text-sm text-blue-600">{row.acknowledged}</td>
+                    <td className="px-6 py-4 text-sm text-green-600">{row.resolved}</td>
+                    <td className="px-6 py-4 text-sm text-gray-700">
+                      {row.averageResolutionHours !== null ? `${row.averageResolutionHours}h` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Escalation log */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex flex-wrap gap-3 items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Escalations</h2>
+            <div className="flex gap-3">
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as 'ALL' | EscalationStatus)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="ALL">All Status</option>
+                <option value="OPEN">Open</option>
+                <option value="ACKNOWLEDGED">Acknowledged</option>
+                <option value="RESOLVED">Resolved</option>
+              </select>
+              <select
+                value={employeeFilter}
+                onChange={(e) => setEmployeeFilter(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="ALL">All Employees</option>
+                {summary.map(row => (
+                  <option key={row.userId} value={row.userId}>{row.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-16">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+            </div>
+          ) : escalations.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No escalations match these filters</p>
+          ) : (
+            <div className="divide-y divide-gray-200">
+              {escalations.map(escalation => (
+                <div key={escalation.id} className="p-6 flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-900">{escalation.lead.name}</span>
+                      {getStatusBadge(escalation.status)}
+                      <span className="text-xs text-gray-500">{escalation.ruleName}</span>
+                    </div>
+                    <div className="text-sm text-gray-600 mt-1">
+                      {escalation.lead.phone} · {escalation.lead.status.replace('_', ' ')} · {escalation.lead.priority}
+                      {' · '}Owner: {escalation.assignedTo?.name || 'Unassigned'}
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1 flex items-center">
+                      <Clock className="w-3 h-3 mr-1" />
+                      Raised {new Date(escalation.createdAt).toLocaleString()}
+                      {escalation.acknowledgedBy && ` · Acknowledged by ${escalation.acknowledgedBy.name}`}
+                      {escalation.resolvedBy && ` · Closed by ${escalation.resolvedBy.name}`}
+                    </div>
+                    <ul className="text-xs text-gray-500 mt-2 space-y-0.5">
+                      {escalation.actionsTaken.map((action, index) => (
+                        <li key={index} className={action.success ? '' : 'text-red-600'}>
+                          {action.type.replace(/_/g, ' ').toLowerCase()}{action.detail ? `: ${action.detail}` : ''}
+                        </li>
+                      ))}
+                    </ul>
+                    {escalation.resolution && (
+                      <div className="text-sm text-gray-700 mt-2 bg-gray-50 rounded-lg p-2">{escalation.resolution}</div>
+                    )}
+                  </div>
+                  {escalation.status !== 'RESOLVED' && (
+                    <div className="flex items-center space-x-2">
+                      {escalation.status === 'OPEN' && (
+                        <button
+                          onClick={() => updateEscalation(escalation, 'ACKNOWLEDGED')}
+                          disabled={updatingId === escalation.id}
+                          className="px-3 py-1 text-xs font-medium rounded-lg bg-blue-50 text-blue-700 hover:bg-blue-100 disabled:opacity-50"
+                        >
+                          Acknowledge
+                        </button>
+                      )}
+                      <button
+                        onClick={() => updateEscalation(escalation, 'RESOLVED')}
+                        disabled={updatingId === escalation.id}
+                        className="px-3 py-1 text-xs font-medium rounded-lg bg-green-50 text-green-700 hover:bg-green-100 disabled:opacity-50"
+                      >
+                        Close
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default function EscalationsPage() {
+  return (
+    <RouteProtection requiredRole="ADMIN">
+      <EscalationsPageContent />
+    </RouteProtection>
+  )
+}
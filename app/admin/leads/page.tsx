@@ -37,10 +37,13 @@ import {
   SortDesc,
   Filter as FilterIcon,
   UserCheck,
-  Activity
+  Activity,
+  GitBranch
 } from 'lucide-react'
+import Link from 'next/link'
 import AdminLayout from '../components/AdminLayout'
 import LeadDashboard from './components/LeadDashboard'
+import LeadDetailModal from './components/LeadDetailModal'
 import toast from 'react-hot-toast'
 import DataService, { Lead } from '../../../lib/dataService'
 
@@ -52,6 +55,7 @@ export default function LeadsPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState('ALL')
   const [priorityFilter, setPriorityFilter] = useState('ALL')
+  const [qualityFilter, setQualityFilter] = useState('ALL')
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null)
   const [showLeadModal, setShowLeadModal] = useState(false)
   const [sortBy, setSortBy] = useState<'score' | 'createdAt' | 'loanAmount' | 'lastContact'>('score')
@@ -85,6 +89,10 @@ export default function LeadsPage() {
       filtered = filtered.filter(lead => lead.priority === priorityFilter)
     }
 
+    if (qualityFilter !== 'ALL') {
+      filtered = filtered.filter(lead => lead.qualityBand === qualityFilter)
+    }
+
     // Apply sorting
     filtered.sort((a, b) => {
       let aValue: any, bValue: any
@@ -119,7 +127,7 @@ export default function LeadsPage() {
     })
 
     setFilteredLeads(filtered)
-  }, [leads, searchTerm, statusFilter, priorityFilter, sortBy, sortOrder])
+  }, [leads, searchTerm, statusFilter, priorityFilter, qualityFilter, sortBy, sortOrder])
 
   const loadLeads = async () => {
     try {
@@ -263,17 +271,20 @@ ${filteredLeads.map(lead =>
 
   const refreshLeadScores = async () => {
     try {
-      // Simulate lead score refresh
       setLoading(true)
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      // Update scores (in real implementation, this would call the scoring API)
-      setLeads(prev => prev.map(lead => ({
-        ...lead,
-        score: Math.min(100, lead.score + Math.floor(Math.random() * 10 - 5)) // Random adjustment for demo
-      })))
-      
-      toast.success('Lead scores refreshed successfully')
+      const response = await fetch('/api/leads/scoring', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'bulk_update' })
+      })
+      const data = await response.json()
+
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to refresh lead scores')
+      }
+
+      await loadLeads()
+      toast.success(`Lead scores refreshed (${data.results.updated} updated)`)
     } catch (error) {
       toast.error('Failed to refresh lead scores')
     } finally {
@@ -343,6 +354,22 @@ ${filteredLeads.map(lead =>
               <Activity className="w-4 h-4 mr-2" />
               Analytics
             </button>
+
+            <Link
+              href="/admin/leads/assignment-rules"
+              className="btn-secondary flex items-center"
+            >
+              <GitBranch className="w-4 h-4 mr-2" />
+              Routing Rules
+            </Link>
+
+            <Link
+              href="/admin/leads/escalations"
+              className="btn-secondary flex items-center"
+            >
+              <AlertCircle className="w-4 h-4 mr-2" />
+              Escalations
+            </Link>
             
             <button
               onClick={() => setShowLeadModal(true)}
@@ -692,6 +719,18 @@ ${filteredLeads.map(lead =>
                 <option value="LOW">Low</option>
               </select>
 
+              <select
+                value={qualityFilter}
+                onChange={(e) => setQualityFilter(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="ALL">All Quality</option>
+                <option value="EXCELLENT">Excellent</option>
+                <option value="GOOD">Good</option>
+                <option value="AVERAGE">Average</option>
+                <option value="POOR">Poor</option>
+              </select>
+
               <div className="flex items-center border border-gray-300 rounded-lg">
                 <select
                   value={sortBy}
@@ -992,6 +1031,15 @@ ${filteredLeads.map(lead =>
           )}
         </motion.div>
       </div>
+
+      <LeadDetailModal
+        lead={selectedLead}
+        isOpen={showLeadModal}
+        onClose={() => {
+          setShowLeadModal(false)
+          setSelectedLead(null)
+        }}
+      />
     </AdminLayout>
   )
 }
\ No newline at end of file
@@ -20,7 +20,8 @@ import {
 } from 'lucide-react'
 import AdminLayout from '../../components/AdminLayout'
 import toast from 'react-hot-toast'
-import { MESSAGE_TEMPLATES, getTemplatesByType, formatMessage, validateMessageLength } from '../../../../lib/messageTemplates'
+import { DEFAULT_LANGUAGE, formatMessage, getCampaignParameters, validateMessageLength } from '../../../../lib/messageTemplates'
+import { useMessageTemplates } from '../hooks/useMessageTemplates'
 import DataService, { Contact } from '../../../../lib/dataService'
 
 interface BulkMessageForm {
@@ -42,6 +43,7 @@ export default function BulkMessagingPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [tagFilter, setTagFilter] = useState('ALL')
   const [previewMessage, setPreviewMessage] = useState('')
+  const { templates } = useMessageTemplates('APPROVED', DEFAULT_LANGUAGE)
   
   const [formData, setFormData] = useState<BulkMessageForm>({
     type: 'WHATSAPP',
@@ -62,7 +64,7 @@ export default function BulkMessagingPage() {
 
   useEffect(() => {
     updatePreviewMessage()
-  }, [formData.templateId, formData.customMessage, formData.parameters, formData.useTemplate])
+  }, [formData.templateId, formData.customMessage, formData.parameters, formData.useTemplate, templates])
 
   const loadContacts = async () => {
     try {
@@ -97,8 +99,11 @@ export default function BulkMessagingPage() {
   }
 
   const updatePreviewMessage = () => {
-    if (formData.useTemplate && formData.templateId) {
-      const result = formatMessage(formData.templateId, formData.parameters)
+    const template = templates.find(t => t.id === formData.templateId)
+    if (formData.useTemplate && template) {
+      // Contact and lead fields are filled in per recipient, so the preview shows them as placeholders
+      const recipientFields = template.parameters.filter(param => !getCampaignParameters(template).includes(param))
+      const result = formatMessage(template, formData.parameters, null, { placeholders: recipientFields })
       if (result.success) {
         setPreviewMessage(result.message || '')
       } else {
@@ -191,7 +196,7 @@ export default function BulkMessagingPage() {
       const result = await response.json()
 
       if (result.success) {
-        toast.success(`Successfully sent ${result.successCount} messages`)
+        toast.success(result.message || `Queued ${result.queuedCount} messages for sending`)
         // Reset form
         setFormData(prev => ({
           ...prev,
@@ -200,7 +205,7 @@ export default function BulkMessagingPage() {
           parameters: {}
         }))
       } else {
-        toast.error(`Sent ${result.successCount} messages, ${result.failureCount} failed`)
+        toast.error(result.errors?.[0] || result.message || 'Failed to send bulk messages')
       }
     } catch (error) {
       toast.error('Failed to send bulk messages')
@@ -210,9 +215,9 @@ export default function BulkMessagingPage() {
   }
 
   const selectedTemplate = formData.templateId ? 
-    MESSAGE_TEMPLATES.find(t => t.id === formData.templateId) : null
+    templates.find(t => t.id === formData.templateId) : null
 
-  const availableTemplates = getTemplatesByType(formData.type)
+  const availableTemplates = templates.filter(t => t.type === formData.type)
   const messageValidation = validateMessageLength(previewMessage, formData.type)
 
   // Get unique tags for filter
@@ -326,13 +331,13 @@ export default function BulkMessagingPage() {
                       </select>
                     </div>
 
-                    {selectedTemplate && selectedTemplate.parameters.length > 0 && (
+                    {selectedTemplate && getCampaignParameters(selectedTemplate).length > 0 && (
                       <div>
                         <label className="block text-sm font-medium text-gray-700 mb-2">
                           Template Parameters
                         </label>
                         <div className="space-y-3">
-                          {selectedTemplate.parameters.map(param => (
+                          {getCampaignParameters(selectedTemplate).map(param => (
                             <div key={param}>
                               <label className="block text-xs font-medium text-gray-600 mb-1">
                                 {param}
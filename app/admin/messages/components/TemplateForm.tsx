@@ -0,0 +1,290 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { MessageTemplate, SUPPORTED_LANGUAGES, TemplateParameter, describeTemplateParameters } from '../../../../lib/messageTemplates'
+import { TEMPLATE_FILTERS, validateTemplateSyntax } from '../../../../lib/templateEngine'
+
+export interface TemplateFormValues {
+  key: string
+  name: string
+  type: 'SMS' | 'WHATSAPP'
+  category: MessageTemplate['category']
+  language: string
+  body: string
+  parameters: TemplateParameter[]
+  description?: string
+  mediaSupported: boolean
+  mediaType?: 'image' | 'video' | 'document'
+  providerTemplateName?: string
+}
+
+interface TemplateFormProps {
+  template?: MessageTemplate
+  // Start a new language variant of this template instead of editing it
+  translationOf?: MessageTemplate
+  onSave: (values: TemplateFormValues) => Promise<void>
+  onClose: () => void
+}
+
+function initialValues(template?: MessageTemplate, translationOf?: MessageTemplate): TemplateFormValues {
+  if (translationOf) {
+    return {
+      ...initialValues(translationOf),
+      language: SUPPORTED_LANGUAGES.find(l => l.code !== translationOf.language)?.code || 'en',
+      body: '',
+      providerTemplateName: ''
+    }
+  }
+
+  return {
+    key: template?.id || '',
+    name: template?.name || '',
+    type: template?.type || 'WHATSAPP',
+    category: template?.category || 'MARKETING',
+    language: template?.language || 'en',
+    body: template?.template || '',
+    parameters: template?.parameterSchema || template?.parameters.map(name => ({ name, required: true })) || [],
+    description: template?.description || '',
+    mediaSupported: template?.mediaSupported || false,
+    mediaType: template?.mediaType,
+    providerTemplateName: template?.providerTemplateName || ''
+  }
+}
+
+export default function TemplateForm({ template, translationOf, onSave, onClose }: TemplateFormProps) {
+  const [values, setValues] = useState<TemplateFormValues>(() => initialValues(template, translationOf))
+  const [saving, setSaving] = useState(false)
+
+  const isEdit = !!template
+  const willCreateVersion = isEdit && (template.status === 'APPROVED' || template.status === 'PENDING')
+
+  const syntax = validateTemplateSyntax(values.body)
+
+  // One parameter row per variable in the body, keeping what was already entered
+  const parameters = describeTemplateParameters(values.body).map(described =>
+    values.parameters.find(parameter => parameter.name === described.name) || described
+  )
+
+  const update = <K extends keyof TemplateFormValues>(field: K, value: TemplateFormValues[K]) => {
+    setValues(prev => ({ ...prev, [field]: value }))
+  }
+
+  const updateParameter = (name: string, changes: Partial<TemplateParameter>) => {
+    setValues(prev => ({
+      ...prev,
+      parameters: [
+        ...prev.parameters.filter(parameter => parameter.name !== name),
+        { ...(parameters.find(parameter => parameter.name === name) || { name }), ...changes }
+      ]
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      await onSave({
+        ...values,
+        parameters,
+        description: values.description || undefined,
+        mediaType: values.mediaSupported ? values.mediaType : undefined,
+        providerTemplateName: values.providerTemplateName || undefined
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xl font-semibold text-gray-900">
+              {isEdit ? `Edit: ${template.name}` : translationOf ? `Translate: ${translationOf.name}` : 'Create Template'}
+            </h3>
+            <button type="button" onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {willCreateVersion && (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-3">
+              This template is {template.status?.toLowerCase()}. Saving creates version {(template.version || 1) + 1} as a draft; version {template.version} keeps sending until the new one is approved.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Key</label>
+              <input
+                type="text"
+                value={values.key}
+                onChange={(e) => update('key', e.target.value)}
+                disabled={isEdit || !!translationOf}
+                placeholder="personal_loan_offer"
+                className="input-field disabled:bg-gray-100"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={values.name}
+                onChange={(e) => update('name', e.target.value)}
+                className="input-field"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={values.type}
+                onChange={(e) => update('type', e.target.value as TemplateFormValues['type'])}
+                className="input-field"
+              >
+                <option value="WHATSAPP">WhatsApp</option>
+                <option value="SMS">SMS</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+              <select
+                value={values.category}
+                onChange={(e) => update('category', e.target.value as TemplateFormValues['category'])}
+                className="input-field"
+              >
+                <option value="MARKETING">Marketing</option>
+                <option value="TRANSACTIONAL">Transactional</option>
+                <option value="OTP">OTP</option>
+                <option value="NOTIFICATION">Notification</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Language</label>
+              <select
+                value={values.language}
+                onChange={(e) => update('language', e.target.value)}
+                disabled={isEdit}
+                className="input-field disabled:bg-gray-100"
+              >
+                {SUPPORTED_LANGUAGES.map(language => (
+                  <option key={language.code} value={language.code}>{language.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Provider template name</label>
+              <input
+                type="text"
+                value={values.providerTemplateName}
+                onChange={(e) => update('providerTemplateName', e.target.value)}
+                placeholder="Same as key"
+                className="input-field"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Body</label>
+            <textarea
+              value={values.body}
+              onChange={(e) => update('body', e.target.value)}
+              rows={5}
+              placeholder="Hi {{name}}, ..."
+              className="input-field"
+              required
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Use {'{{parameter}}'} or {'{{lead.loanAmount}}'}, a default such as {'{{name|there}}'}, filters
+              ({TEMPLATE_FILTERS.join(', ')}) such as {'{{lead.loanAmount|inr}}'}, and {'{{#if parameter}}…{{/if}}'} blocks.
+              Each variable gets a row below.
+            </p>
+            {!syntax.valid && <p className="text-xs text-red-600 mt-1">{syntax.error}</p>}
+          </div>
+
+          {parameters.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 mb-2">Parameters</h4>
+              <div className="space-y-2">
+                {parameters.map(parameter => (
+                  <div key={parameter.name} className="grid grid-cols-12 gap-2 items-center">
+                    <span className="col-span-3 text-sm font-mono text-gray-800">{parameter.name}</span>
+                    <input
+                      type="text"
+                      value={parameter.description || ''}
+                      onChange={(e) => updateParameter(parameter.name, { description: e.target.value })}
+                      placeholder="Description"
+                      className="col-span-4 input-field"
+                    />
+                    <input
+                      type="text"
+                      value={parameter.example || ''}
+                      onChange={(e) => updateParameter(parameter.name, { example: e.target.value })}
+                      placeholder="Example"
+                      className="col-span-3 input-field"
+                    />
+                    <label className="col-span-2 flex items-center text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={parameter.required !== false}
+                        onChange={(e) => updateParameter(parameter.name, { required: e.target.checked })}
+                        className="mr-1"
+                      />
+                      Required
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+            <input
+              type="text"
+              value={values.description}
+              onChange={(e) => update('description', e.target.value)}
+              className="input-field"
+            />
+          </div>
+
+          <div className="flex items-center gap-4">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={values.mediaSupported}
+                onChange={(e) => update('mediaSupported', e.target.checked)}
+                className="mr-2"
+              />
+              Media header
+            </label>
+            {values.mediaSupported && (
+              <select
+                value={values.mediaType || ''}
+                onChange={(e) => update('mediaType', (e.target.value || undefined) as TemplateFormValues['mediaType'])}
+                className="input-field w-40"
+              >
+                <option value="">Any media</option>
+                <option value="image">Image</option>
+                <option value="video">Video</option>
+                <option value="document">Document</option>
+              </select>
+            )}
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button type="submit" disabled={saving || !syntax.valid} className="btn-primary disabled:opacity-50">
+              {saving ? 'Saving...' : isEdit ? 'Save' : 'Create Draft'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
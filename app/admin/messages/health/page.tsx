@@ -0,0 +1,405 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Activity,
+  Gauge,
+  Inbox,
+  RefreshCw,
+  RotateCcw,
+  Save,
+  CheckCircle,
+  XCircle
+} from 'lucide-react'
+import toast from 'react-hot-toast'
+import RouteProtection from '../../../components/RouteProtection'
+import AdminLayout from '../../components/AdminLayout'
+
+interface ServiceStatus {
+  available: boolean
+  lastCheck: string
+  errorCount: number
+  status: string
+}
+
+interface SendRateLimit {
+  provider: string
+  senderId: string
+  messagesPerSecond: number
+  burst: number
+  dailyCap: number | null
+  isEnabled: boolean
+  isDefault?: boolean
+}
+
+interface ThrottleMetrics {
+  provider: string
+  senderId: string
+  limit: SendRateLimit
+  effectiveRate: number
+  backoffFactor: number
+  availableTokens: number
+  waiting: number
+  throughput: number
+  sentLastMinute: number
+  errorsLastMinute: number
+  sentToday: number
+  lastError?: string
+  lastErrorAt?: string
+}
+
+const REFRESH_INTERVAL_MS = 5000
+
+const EMPTY_LIMIT: SendRateLimit = {
+  provider: '',
+  senderId: '*',
+  messagesPerSecond: 10,
+  burst: 10,
+  dailyCap: null,
+  isEnabled: true
+}
+
+function MessagingHealthPageContent() {
+  const [services, setServices] = useState<Record<string, ServiceStatus>>({})
+  const [providers, setProviders] = useState<string[]>([])
+  const [limits, setLimits] = useState<SendRateLimit[]>([])
+  const [metrics, setMetrics] = useState<ThrottleMetrics[]>([])
+  const [editing, setEditing] = useState<SendRateLimit | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadHealth()
+    loadRateLimits()
+
+    // Throughput changes by the second while campaigns run
+    const interval = setInterval(loadRateLimits, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const loadHealth = async () => {
+    try {
+      const response = await fetch('/api/admin/system/messaging-health')
+      const data = await response.json()
+
+      if (response.ok) {
+        setServices(data.services)
+      } else {
+        toast.error(data.error || 'Failed to load service health')
+      }
+    } catch (error) {
+      toast.error('Failed to load service health')
+    }
+  }
+
+  const loadRateLimits = async () => {
+    try {
+      const response = await fetch('/api/admin/system/rate-limits')
+      const data = await response.json()
+
+      if (data.success) {
+        setProviders(data.providers)
+        setLimits(data.limits)
+        setMetrics(data.metrics)
+      } else {
+        toast.error(data.message || 'Failed to load send rate limits')
+      }
+    } catch (error) {
+      toast.error('Failed to load send rate limits')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveLimit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editing) return
+
+    setSaving(true)
+    try {
+      const response = await fetch('/api/admin/system/rate-limits', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          provider: editing.provider,
+          senderId: editing.senderId.trim() || '*',
+          messagesPerSecond: editing.messagesPerSecond,
+          burst: editing.burst,
+          dailyCap: editing.dailyCap,
+          isEnabled: editing.isEnabled
+        })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Rate limit saved')
+        setEditing(null)
+        await loadRateLimits()
+      } else {
+        toast.error(data.errors?.[0] || data.message || 'Failed to save rate limit')
+      }
+    } catch (error) {
+      toast.error('Failed to save rate limit')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const resetLimit = async (limit: SendRateLimit) => {
+    try {
+      const params = new URLSearchParams({ provider: limit.provider, senderId: limit.senderId })
+      const response = await fetch(`/api/admin/system/rate-limits?${params}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Rate limit reset to default')
+        await loadRateLimits()
+      } else {
+        toast.error(data.message || 'Failed to reset rate limit')
+      }
+    } catch (error) {
+      toast.error('Failed to reset rate limit')
+    }
+  }
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Messaging Health</h1>
+            <p className="text-gray-600 mt-1">
+              Every campaign, automation and manual send shares these limits per provider and sender ID
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <a href="/admin/messages/outbox" className="btn-secondary flex items-center">
+              <Inbox className="w-4 h-4 mr-2" />
+              Outbox
+            </a>
+            <button onClick={() => { loadHealth(); loadRateLimits() }} className="btn-secondary flex items-center">
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Refresh
+            </button>
+          </div>
+        </div>
+
+        {/* Service status */}
+        <div className="grid md:grid-cols-2 gap-4">
+          {Object.entries(services).map(([name, service]) => (
+            <div
+              key={name}
+              className={`rounded-xl border p-4 flex items-center ${service.available ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'}`}
+            >
+              {service.available ? <CheckCircle className="w-5 h-5 mr-2" /> : <XCircle className="w-5 h-5 mr-2" />}
+              <span className="text-sm font-medium capitalize">{name}: {service.status}</span>
+              <span className="ml-auto text-sm">{service.errorCount} errors</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Live throughput */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center">
+            <Activity className="w-5 h-5 mr-2 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Live Throughput</h2>
+            <span className="ml-auto text-xs text-gray-500">Updates every {REFRESH_INTERVAL_MS / 1000}s</span>
+          </div>
+
+          {metrics.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">Nothing has been sent since the server started</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Provider', 'Sender', 'Msg/s', 'Allowed', 'Queued', 'Last minute', 'Today', 'Last error'].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {metrics.map(metric => (
+                    <tr key={`${metric.provider}:${metric.senderId}`}>
+                      <td className="px-6 py-4 text-sm font-medium text-gray-900">{metric.provider}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{metric.senderId}</td>
+                      <td className="px-6 py-4 text-sm text-gray-900">{metric.throughput.toFixed(1)}</td>
+                      <td className="px-6 py-4 text-sm">
+                        <span className={metric.backoffFactor < 1 ? 'text-yellow-700 font-medium' : 'text-gray-700'}>
+                          {metric.effectiveRate.toFixed(1)}/s
+                        </span>
+                        {metric.backoffFactor < 1 && (
+                          <span className="ml-2 text-xs text-yellow-700">backing off</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">{metric.waiting}</td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {metric.sentLastMinute} sent
+                        {metric.errorsLastMinute > 0 && (
+                          <span className="text-red-600"> · {metric.errorsLastMinute} errors</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {metric.sentToday}{metric.limit.dailyCap !== null && ` / ${metric.limit.dailyCap}`}
+                      </td>
+                      <td className="px-6 py-4 text-xs text-gray-500">
+                        {metric.lastError ? (
+                          <span title={metric.lastErrorAt && new Date(metric.lastErrorAt).toLocaleString()}>{metric.lastError}</span>
+                        ) : '—'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Rate limits */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center">
+            <Gauge className="w-5 h-5 mr-2 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">Rate Limits</h2>
+            <button
+              onClick={() => setEditing({ ...EMPTY_LIMIT, provider: providers[0] || '' })}
+              className="ml-auto btn-secondary text-sm"
+            >
+              Add sender limit
+            </button>
+          </div>
+
+          {editing && (
+            <form onSubmit={saveLimit} className="p-6 grid md:grid-cols-6 gap-4 items-end border-b border-gray-200 bg-gray-50">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Provider</label>
+                <select
+                  value={editing.provider}
+                  onChange={(e) => setEditing({ ...editing, provider: e.target.value })}
+                  className="input-field"
+                >
+                  {providers.map(provider => (
+                    <option key={provider} value={provider}>{provider}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Sender ID</label>
+                <input
+                  value={editing.senderId}
+                  onChange={(e) => setEditing({ ...editing, senderId: e.target.value })}
+                  placeholder="* for all senders"
+                  className="input-field"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Msg/s</label>
+                <input
+                  type="number"
+                  min={0.1}
+                  step={0.1}
+                  value={editing.messagesPerSecond}
+                  onChange={(e) => setEditing({ ...editing, messagesPerSecond: Number(e.target.value) })}
+                  className="input-field"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Burst</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={editing.burst}
+                  onChange={(e) => setEditing({ ...editing, burst: Number(e.target.value) })}
+                  className="input-field"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Daily cap</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={editing.dailyCap ?? ''}
+                  onChange={(e) => setEditing({ ...editing, dailyCap: e.target.value ? Number(e.target.value) : null })}
+                  placeholder="No cap"
+                  className="input-field"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={editing.isEnabled}
+                    onChange={(e) => setEditing({ ...editing, isEnabled: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Throttle
+                </label>
+                <button type="submit" disabled={saving} className="btn-primary flex items-center disabled:opacity-50">
+                  <Save className="w-4 h-4 mr-1" />
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+                <button type="button" onClick={() => setEditing(null)} className="btn-secondary">
+                  Cancel
+                </button>
+              </div>
+            </form>
+          )}
+
+          <div className="divide-y divide-gray-200">
+            {limits.map(limit => (
+              <div key={`${limit.provider}:${limit.senderId}`} className="p-6 flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">
+                    {limit.provider} · {limit.senderId === '*' ? 'all senders' : limit.senderId}
+                    {limit.isDefault && <span className="ml-2 text-xs text-gray-500">default</span>}
+                    {!limit.isEnabled && <span className="ml-2 text-xs text-yellow-700">not throttled</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {limit.messagesPerSecond} msg/s, bursts of {limit.burst}
+                    {limit.dailyCap !== null ? `, ${limit.dailyCap} per day` : ', no daily cap'}
+                  </div>
+                </div>
+                <div className="flex items-center">
+                  <button onClick={() => setEditing(limit)} className="btn-secondary text-sm">
+                    Edit
+                  </button>
+                  {!limit.isDefault && (
+                    <button
+                      onClick={() => resetLimit(limit)}
+                      className="p-2 ml-2 text-gray-600 hover:text-red-600"
+                      title="Reset to default"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default function MessagingHealthPage() {
+  return (
+    <RouteProtection>
+      <MessagingHealthPageContent />
+    </RouteProtection>
+  )
+}
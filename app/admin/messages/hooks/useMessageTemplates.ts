@@ -0,0 +1,46 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { MessageTemplate, TemplateStatus } from '../../../../lib/messageTemplates'
+
+interface UseMessageTemplatesReturn {
+  templates: MessageTemplate[]
+  loading: boolean
+  reload: () => Promise<void>
+}
+
+/**
+ * Templates from the registry, optionally limited to one approval status and language
+ */
+export function useMessageTemplates(status?: TemplateStatus, language?: string): UseMessageTemplatesReturn {
+  const [templates, setTemplates] = useState<MessageTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true)
+      const query = new URLSearchParams()
+      if (status) query.set('status', status)
+      if (language) query.set('language', language)
+
+      const response = await fetch(`/api/messages/templates?${query}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setTemplates(data.data)
+      } else {
+        console.error('Failed to load message templates:', data.message)
+      }
+    } catch (error) {
+      console.error('Failed to load message templates:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [status, language])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  return { templates, loading, reload }
+}
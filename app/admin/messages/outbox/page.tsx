@@ -0,0 +1,318 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import {
+  Inbox,
+  RefreshCw,
+  RotateCcw,
+  Trash2
+} from 'lucide-react'
+import toast from 'react-hot-toast'
+import RouteProtection from '../../../components/RouteProtection'
+import AdminLayout from '../../components/AdminLayout'
+
+type OutboxStatus = 'QUEUED' | 'PROCESSING' | 'SENT' | 'DEAD' | 'CANCELLED'
+
+interface OutboxMessage {
+  id: string
+  source: string
+  status: OutboxStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string
+  campaignId?: string
+  phone: string
+  type: string
+  kind: string
+  templateName?: string
+  content: string
+  lastError?: string
+  lastErrorCode?: string
+  deadAt?: string
+  createdAt: string
+}
+
+interface OutboxStats {
+  counts: Record<OutboxStatus, number>
+  oldestQueuedAt?: string
+}
+
+const STATUSES: OutboxStatus[] = ['DEAD', 'QUEUED', 'PROCESSING', 'SENT', 'CANCELLED']
+const SOURCES = ['CAMPAIGN', 'MANUAL', 'FOLLOW_UP']
+
+const STATUS_LABELS: Record<OutboxStatus, string> = {
+  DEAD: 'Dead letters',
+  QUEUED: 'Queued',
+  PROCESSING: 'Sending',
+  SENT: 'Sent',
+  CANCELLED: 'Cancelled'
+}
+
+function MessageOutboxPageContent() {
+  const [messages, setMessages] = useState<OutboxMessage[]>([])
+  const [stats, setStats] = useState<OutboxStats | null>(null)
+  const [status, setStatus] = useState<OutboxStatus>('DEAD')
+  const [source, setSource] = useState('')
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(1)
+  const [selected, setSelected] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState(false)
+
+  useEffect(() => {
+    loadOutbox()
+  }, [status, source, page])
+
+  const loadOutbox = async () => {
+    try {
+      const params = new URLSearchParams({ status, page: String(page) })
+      if (source) params.set('source', source)
+
+      const response = await fetch(`/api/messages/outbox?${params}`)
+      const data = await response.json()
+
+      if (data.success) {
+        setMessages(data.data)
+        setStats(data.stats)
+        setPages(Math.max(1, data.pagination.pages))
+        setSelected([])
+      } else {
+        toast.error(data.message || 'Failed to load message outbox')
+      }
+    } catch (error) {
+      toast.error('Failed to load message outbox')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateDeadLetters = async (action: 'requeue' | 'discard') => {
+    if (selected.length === 0) return
+    if (action === 'discard' && !confirm(`Discard ${selected.length} messages? They will not be sent.`)) return
+
+    setUpdating(true)
+    try {
+      const response = await fetch('/api/messages/outbox', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, ids: selected })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success(data.message)
+        await loadOutbox()
+      } else {
+        toast.error(data.errors?.[0] || data.message || 'Failed to update messages')
+      }
+    } catch (error) {
+      toast.error('Failed to update messages')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const toggleSelected = (id: string) => {
+    setSelected(current => current.includes(id) ? current.filter(item => item !== id) : [...current, id])
+  }
+
+  const changeStatus = (next: OutboxStatus) => {
+    setStatus(next)
+    setPage(1)
+  }
+
+  if (loading) {
+    return (
+      <AdminLayout>
+        <div className="flex items-center justify-center py-16">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+        </div>
+      </AdminLayout>
+    )
+  }
+
+  const isDead = status === 'DEAD'
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Message Outbox</h1>
+            <p className="text-gray-600 mt-1">
+              Campaign, manual and follow-up messages waiting to be sent, and the ones that ran out of retries
+            </p>
+          </div>
+          <button onClick={loadOutbox} className="btn-secondary flex items-center">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </button>
+        </div>
+
+        {/* Counts per status */}
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {STATUSES.map(item => (
+              <button
+                key={item}
+                onClick={() => changeStatus(item)}
+                className={`rounded-xl border p-4 text-left ${status === item ? 'border-primary-500 bg-primary-50' : 'border-gray-200 bg-white'}`}
+              >
+                <div className={`text-2xl font-bold ${item === 'DEAD' && stats.counts.DEAD > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                  {stats.counts[item]}
+                </div>
+                <div className="text-sm text-gray-600">{STATUS_LABELS[item]}</div>
+                {item === 'QUEUED' && stats.oldestQueuedAt && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    Oldest {new Date(stats.oldestQueuedAt).toLocaleString()}
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center gap-4">
+            <Inbox className="w-5 h-5 text-gray-500" />
+            <h2 className="text-lg font-semibold text-gray-900">{STATUS_LABELS[status]}</h2>
+            <select
+              value={source}
+              onChange={(e) => { setSource(e.target.value); setPage(1) }}
+              className="input-field w-auto"
+            >
+              <option value="">All sources</option>
+              {SOURCES.map(item => (
+                <option key={item} value={item}>{item.replace('_', ' ').toLowerCase()}</option>
+              ))}
+            </select>
+
+            {isDead && (
+              <div className="ml-auto flex items-center gap-2">
+                <span className="text-sm text-gray-500">{selected.length} selected</span>
+                <button
+                  onClick={() => updateDeadLetters('requeue')}
+                  disabled={updating || selected.length === 0}
+                  className="btn-primary flex items-center text-sm disabled:opacity-50"
+                >
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                  Requeue
+                </button>
+                <button
+                  onClick={() => updateDeadLetters('discard')}
+                  disabled={updating || selected.length === 0}
+                  className="btn-secondary flex items-center text-sm disabled:opacity-50"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Discard
+                </button>
+              </div>
+            )}
+          </div>
+
+          {messages.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500">No messages</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {isDead && (
+                      <th className="px-6 py-3">
+                        <input
+                          type="checkbox"
+                          checked={selected.length === messages.length}
+                          onChange={(e) => setSelected(e.target.checked ? messages.map(message => message.id) : [])}
+                        />
+                      </th>
+                    )}
+                    {['Recipient', 'Source', 'Message', 'Attempts', isDead ? 'Died' : 'Next attempt', 'Last error'].map(heading => (
+                      <th key={heading} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {messages.map(message => (
+                    <tr key={message.id}>
+                      {isDead && (
+                        <td className="px-6 py-4">
+                          <input
+                            type="checkbox"
+                            checked={selected.includes(message.id)}
+                            onChange={() => toggleSelected(message.id)}
+                          />
+                        </td>
+                      )}
+                      <td className="px-6 py-4 text-sm">
+                        <div className="font-medium text-gray-900">{message.phone}</div>
+                        <div className="text-xs text-gray-500">{message.type}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {message.source.replace('_', ' ').toLowerCase()}
+                        {message.campaignId && (
+                          <a href={`/admin/campaigns/${message.campaignId}`} className="block text-xs text-primary-600 hover:underline">
+                            View campaign
+                          </a>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700 max-w-xs">
+                        {message.templateName && (
+                          <div className="text-xs text-gray-500">{message.templateName}</div>
+                        )}
+                        <div className="truncate" title={message.content}>{message.content}</div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {message.attempts} / {message.maxAttempts}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-700">
+                        {isDead
+                          ? message.deadAt && new Date(message.deadAt).toLocaleString()
+                          : new Date(message.nextAttemptAt).toLocaleString()}
+                      </td>
+                      <td className="px-6 py-4 text-xs text-red-600 max-w-xs">
+                        {message.lastError ? (
+                          <span title={message.lastErrorCode}>{message.lastError}</span>
+                        ) : <span className="text-gray-500">—</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pages > 1 && (
+            <div className="p-4 border-t border-gray-200 flex items-center justify-between">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="btn-secondary text-sm disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-600">Page {page} of {pages}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pages}
+                className="btn-secondary text-sm disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  )
+}
+
+export default function MessageOutboxPage() {
+  return (
+    <RouteProtection>
+      <MessageOutboxPageContent />
+    </RouteProtection>
+  )
+}
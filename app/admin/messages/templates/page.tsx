@@ -19,25 +19,39 @@ import {
   Video,
   CheckCircle,
   X,
-  AlertCircle
+  AlertCircle,
+  Send,
+  ThumbsUp,
+  ThumbsDown,
+  RefreshCw,
+  Clock,
+  Languages
 } from 'lucide-react'
 import AdminLayout from '../../components/AdminLayout'
 import toast from 'react-hot-toast'
-import { MESSAGE_TEMPLATES, MessageTemplate, getTemplatesByCategory, getTemplatesByType, formatMessage } from '../../../../lib/messageTemplates'
+import { MessageTemplate, SUPPORTED_LANGUAGES, formatMessage } from '../../../../lib/messageTemplates'
+import { useMessageTemplates } from '../hooks/useMessageTemplates'
+import TemplateForm, { TemplateFormValues } from '../components/TemplateForm'
 
 export default function MessageTemplatesPage() {
-  const [templates, setTemplates] = useState<MessageTemplate[]>(MESSAGE_TEMPLATES)
-  const [filteredTemplates, setFilteredTemplates] = useState<MessageTemplate[]>(MESSAGE_TEMPLATES)
+  const { templates, loading, reload } = useMessageTemplates()
+  const [filteredTemplates, setFilteredTemplates] = useState<MessageTemplate[]>([])
   const [searchTerm, setSearchTerm] = useState('')
   const [categoryFilter, setCategoryFilter] = useState('ALL')
   const [typeFilter, setTypeFilter] = useState('ALL')
+  const [statusFilter, setStatusFilter] = useState('ALL')
+  const [languageFilter, setLanguageFilter] = useState('ALL')
   const [showPreviewModal, setShowPreviewModal] = useState(false)
   const [selectedTemplate, setSelectedTemplate] = useState<MessageTemplate | null>(null)
   const [previewParameters, setPreviewParameters] = useState<Record<string, string>>({})
+  const [showForm, setShowForm] = useState(false)
+  const [editingTemplate, setEditingTemplate] = useState<MessageTemplate | undefined>(undefined)
+  const [translationOf, setTranslationOf] = useState<MessageTemplate | undefined>(undefined)
+  const [syncing, setSyncing] = useState(false)
 
   useEffect(() => {
     filterTemplates()
-  }, [searchTerm, categoryFilter, typeFilter, templates])
+  }, [searchTerm, categoryFilter, typeFilter, statusFilter, languageFilter, templates])
 
   const filterTemplates = () => {
     let filtered = templates
@@ -58,6 +72,14 @@ export default function MessageTemplatesPage() {
       filtered = filtered.filter(template => template.type === typeFilter)
     }
 
+    if (statusFilter !== 'ALL') {
+      filtered = filtered.filter(template => template.status === statusFilter)
+    }
+
+    if (languageFilter !== 'ALL') {
+      filtered = filtered.filter(template => template.language === languageFilter)
+    }
+
     setFilteredTemplates(filtered)
   }
 
@@ -89,6 +111,15 @@ export default function MessageTemplatesPage() {
     }
   }
 
+  const getStatusColor = (status?: string) => {
+    switch (status) {
+      case 'APPROVED': return 'bg-green-100 text-green-800'
+      case 'PENDING': return 'bg-yellow-100 text-yellow-800'
+      case 'REJECTED': return 'bg-red-100 text-red-800'
+      default: return 'bg-gray-100 text-gray-800'
+    }
+  }
+
   const copyTemplate = (template: MessageTemplate) => {
     navigator.clipboard.writeText(template.template)
     toast.success('Template copied to clipboard')
@@ -99,8 +130,19 @@ export default function MessageTemplatesPage() {
     // Initialize preview parameters with sample values
     const sampleParams: Record<string, string> = {}
     template.parameters.forEach(param => {
+      const example = template.parameterSchema?.find(p => p.name === param)?.example
+      if (example) {
+        sampleParams[param] = example
+        return
+      }
       switch (param) {
-        case 'name': sampleParams[param] = 'John Doe'
+        case 'name':
+        case 'contact.name':
+        case 'lead.name': sampleParams[param] = 'John Doe'
+          break
+        case 'lead.loanAmount': sampleParams[param] = '150000'
+          break
+        case 'lead.loanType': sampleParams[param] = 'PERSONAL'
           break
         case 'amount': sampleParams[param] = '50000'
           break
@@ -143,16 +185,125 @@ export default function MessageTemplatesPage() {
 
   const getPreviewMessage = () => {
     if (!selectedTemplate) return ''
-    const result = formatMessage(selectedTemplate.id, previewParameters)
+    const result = formatMessage(selectedTemplate, previewParameters)
     return result.success ? result.message || '' : 'Preview not available'
   }
 
+  const openForm = (template?: MessageTemplate) => {
+    setEditingTemplate(template)
+    setTranslationOf(undefined)
+    setShowForm(true)
+  }
+
+  const openTranslation = (template: MessageTemplate) => {
+    setEditingTemplate(undefined)
+    setTranslationOf(template)
+    setShowForm(true)
+  }
+
+  const getLanguageLabel = (code?: string) =>
+    SUPPORTED_LANGUAGES.find(language => language.code === code)?.label || code
+
+  const saveTemplate = async (values: TemplateFormValues) => {
+    try {
+      const response = await fetch(
+        editingTemplate ? `/api/messages/templates/${editingTemplate.recordId}` : '/api/messages/templates',
+        {
+          method: editingTemplate ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(values)
+        }
+      )
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success(editingTemplate
+          ? `Saved ${values.name} v${data.data.version}`
+          : `${getLanguageLabel(values.language)} draft created`)
+        setShowForm(false)
+        await reload()
+      } else {
+        toast.error(data.message || 'Failed to save template')
+      }
+    } catch (error) {
+      console.error('Failed to save template:', error)
+      toast.error('Failed to save template')
+    }
+  }
+
+  const deleteTemplate = async (template: MessageTemplate) => {
+    if (!confirm(`Delete every version of "${template.name}" (${template.language})?`)) return
+
+    try {
+      const response = await fetch(`/api/messages/templates/${template.recordId}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Template deleted')
+        await reload()
+      } else {
+        toast.error(data.message || 'Failed to delete template')
+      }
+    } catch (error) {
+      console.error('Failed to delete template:', error)
+      toast.error('Failed to delete template')
+    }
+  }
+
+  const changeStatus = async (template: MessageTemplate, action: 'submit' | 'approve' | 'reject') => {
+    let reason: string | undefined
+    if (action === 'reject') {
+      reason = prompt('Reason for rejection') || undefined
+      if (!reason) return
+    }
+
+    try {
+      const response = await fetch(`/api/messages/templates/${template.recordId}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, reason })
+      })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success(`${template.name} is now ${data.data.status.toLowerCase()}`)
+        await reload()
+      } else {
+        toast.error(data.message || 'Failed to update template status')
+      }
+    } catch (error) {
+      console.error('Failed to update template status:', error)
+      toast.error('Failed to update template status')
+    }
+  }
+
+  const syncTemplates = async () => {
+    try {
+      setSyncing(true)
+      const response = await fetch('/api/messages/templates/sync', { method: 'POST' })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success(`Checked ${data.checked} templates: ${data.updated} updated, ${data.imported} imported`)
+        await reload()
+      } else {
+        toast.error(data.message || 'Failed to sync templates')
+      }
+    } catch (error) {
+      console.error('Failed to sync templates:', error)
+      toast.error('Failed to sync templates')
+    } finally {
+      setSyncing(false)
+    }
+  }
+
   const stats = {
     total: templates.length,
     whatsapp: templates.filter(t => t.type === 'WHATSAPP').length,
     sms: templates.filter(t => t.type === 'SMS').length,
     marketing: templates.filter(t => t.category === 'MARKETING').length,
-    transactional: templates.filter(t => t.category === 'TRANSACTIONAL').length
+    transactional: templates.filter(t => t.category === 'TRANSACTIONAL').length,
+    pending: templates.filter(t => t.status === 'PENDING').length
   }
 
   return (
@@ -166,14 +317,24 @@ export default function MessageTemplatesPage() {
               Manage and preview your message templates for campaigns
             </p>
           </div>
-          <button className="btn-primary flex items-center">
-            <Plus className="w-5 h-5 mr-2" />
-            Create Template
-          </button>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={syncTemplates}
+              disabled={syncing}
+              className="btn-secondary flex items-center disabled:opacity-50"
+            >
+              <RefreshCw className={`w-5 h-5 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+              Sync with Provider
+            </button>
+            <button onClick={() => openForm()} className="btn-primary flex items-center">
+              <Plus className="w-5 h-5 mr-2" />
+              Create Template
+            </button>
+          </div>
         </div>
 
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-5 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-6">
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -247,6 +408,21 @@ export default function MessageTemplatesPage() {
               </div>
             </div>
           </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.5 }}
+            className="bg-white rounded-xl shadow-sm border border-gray-100 p-6"
+          >
+            <div className="flex items-center">
+              <Clock className="w-8 h-8 text-yellow-500 mr-3" />
+              <div>
+                <p className="text-sm font-medium text-gray-600">Awaiting Approval</p>
+                <p className="text-2xl font-bold text-gray-900">{stats.pending}</p>
+              </div>
+            </div>
+          </motion.div>
         </div>
 
         {/* Filters */}
@@ -292,6 +468,29 @@ export default function MessageTemplatesPage() {
                 <option value="WHATSAPP">WhatsApp</option>
                 <option value="SMS">SMS</option>
               </select>
+
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="ALL">All Statuses</option>
+                <option value="DRAFT">Draft</option>
+                <option value="PENDING">Pending</option>
+                <option value="APPROVED">Approved</option>
+                <option value="REJECTED">Rejected</option>
+              </select>
+
+              <select
+                value={languageFilter}
+                onChange={(e) => setLanguageFilter(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="ALL">All Languages</option>
+                {SUPPORTED_LANGUAGES.map(language => (
+                  <option key={language.code} value={language.code}>{language.label}</option>
+                ))}
+              </select>
             </div>
           </div>
         </motion.div>
@@ -303,7 +502,7 @@ export default function MessageTemplatesPage() {
             
             return (
               <motion.div
-                key={template.id}
+                key={template.recordId || template.id}
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: index * 0.1 }}
@@ -326,6 +525,9 @@ export default function MessageTemplatesPage() {
                         <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getCategoryColor(template.category)}`}>
                           {template.category}
                         </span>
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${getStatusColor(template.status)}`}>
+                          {template.status}
+                        </span>
                         {template.mediaSupported && (
                           <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
                             Media
@@ -350,10 +552,25 @@ export default function MessageTemplatesPage() {
                     >
                       <Copy className="w-4 h-4" />
                     </button>
-                    <button className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg">
+                    <button
+                      onClick={() => openTranslation(template)}
+                      className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg"
+                      title="Add Translation"
+                    >
+                      <Languages className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => openForm(template)}
+                      className="p-2 text-gray-600 hover:bg-gray-50 rounded-lg"
+                      title="Edit Template"
+                    >
                       <Edit className="w-4 h-4" />
                     </button>
-                    <button className="p-2 text-red-600 hover:bg-red-50 rounded-lg">
+                    <button
+                      onClick={() => deleteTemplate(template)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                      title="Delete Template"
+                    >
                       <Trash2 className="w-4 h-4" />
                     </button>
                   </div>
@@ -364,6 +581,13 @@ export default function MessageTemplatesPage() {
                   {template.description}
                 </p>
 
+                {template.status === 'REJECTED' && template.rejectionReason && (
+                  <div className="flex items-start text-sm text-red-700 bg-red-50 rounded-lg p-3 mb-4">
+                    <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    <span>{template.rejectionReason}</span>
+                  </div>
+                )}
+
                 {/* Template Preview */}
                 <div className="bg-gray-50 rounded-lg p-3 mb-4">
                   <p className="text-sm text-gray-800 line-clamp-3">
@@ -394,6 +618,7 @@ export default function MessageTemplatesPage() {
                 <div className="flex justify-between items-center text-xs text-gray-500 pt-4 border-t border-gray-100">
                   <div className="flex items-center space-x-4">
                     <span>ID: {template.id}</span>
+                    <span>v{template.version} · {getLanguageLabel(template.language)}</span>
                     {template.mediaSupported && (
                       <div className="flex items-center space-x-1">
                         <Image className="w-3 h-3" />
@@ -402,25 +627,69 @@ export default function MessageTemplatesPage() {
                       </div>
                     )}
                   </div>
-                  <button
-                    onClick={() => previewTemplate(template)}
-                    className="text-primary-600 hover:text-primary-700 font-medium"
-                  >
-                    Preview
-                  </button>
+                  <div className="flex items-center space-x-3">
+                    {(template.status === 'DRAFT' || template.status === 'REJECTED') && (
+                      <button
+                        onClick={() => changeStatus(template, 'submit')}
+                        className="flex items-center text-primary-600 hover:text-primary-700 font-medium"
+                      >
+                        <Send className="w-3 h-3 mr-1" />
+                        Submit
+                      </button>
+                    )}
+                    {template.status === 'PENDING' && (
+                      <>
+                        <button
+                          onClick={() => changeStatus(template, 'approve')}
+                          className="flex items-center text-green-600 hover:text-green-700 font-medium"
+                        >
+                          <ThumbsUp className="w-3 h-3 mr-1" />
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => changeStatus(template, 'reject')}
+                          className="flex items-center text-red-600 hover:text-red-700 font-medium"
+                        >
+                          <ThumbsDown className="w-3 h-3 mr-1" />
+                          Reject
+                        </button>
+                      </>
+                    )}
+                    <button
+                      onClick={() => previewTemplate(template)}
+                      className="text-primary-600 hover:text-primary-700 font-medium"
+                    >
+                      Preview
+                    </button>
+                  </div>
                 </div>
               </motion.div>
             )
           })}
         </div>
 
-        {filteredTemplates.length === 0 && (
+        {loading && templates.length === 0 && (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 mx-auto"></div>
+          </div>
+        )}
+
+        {!loading && filteredTemplates.length === 0 && (
           <div className="text-center py-12">
             <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
             <p className="text-gray-500">No templates found matching your criteria</p>
           </div>
         )}
 
+        {showForm && (
+          <TemplateForm
+            template={editingTemplate}
+            translationOf={translationOf}
+            onSave={saveTemplate}
+            onClose={() => setShowForm(false)}
+          />
+        )}
+
         {/* Preview Modal */}
         {showPreviewModal && selectedTemplate && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -456,6 +725,14 @@ export default function MessageTemplatesPage() {
                           {selectedTemplate.mediaSupported ? 'Yes' : 'No'}
                         </span>
                       </div>
+                      <div>
+                        <span className="text-gray-600">Status:</span>
+                        <span className="ml-2 font-medium">{selectedTemplate.status} (v{selectedTemplate.version})</span>
+                      </div>
+                      <div>
+                        <span className="text-gray-600">Language:</span>
+                        <span className="ml-2 font-medium">{getLanguageLabel(selectedTemplate.language)}</span>
+                      </div>
                       <div>
                         <span className="text-gray-600">Parameters:</span>
                         <span className="ml-2 font-medium">{selectedTemplate.parameters.length}</span>
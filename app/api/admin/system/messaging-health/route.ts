@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getMessageService } from '@/lib/messageService';
 import { logger } from '@/lib/logger';
 import { auditLogger, AuditEventType } from '@/lib/security/auditLogger';
+import { SendThrottle } from '@/lib/sendThrottle';
 
 /**
  * Messaging Service Health Monitoring API
@@ -42,6 +43,8 @@ export async function GET(request: NextRequest) {
         fallbackAvailable: updatedHealth.sms.available,
         primaryServiceAvailable: updatedHealth.whatsapp.available,
       },
+      // Live send rate per provider and sender ID
+      throughput: await SendThrottle.getMetrics(),
     };
     
     // Log health check request
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { getMessagingProviderNames } from '@/lib/messagingProvider'
+import { SendThrottle } from '@/lib/sendThrottle'
+import { sendRateLimitSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Send rate limits for each messaging provider and sender ID, with live throughput
+ * GET /api/admin/system/rate-limits
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      providers: getMessagingProviderNames(),
+      limits: await SendThrottle.listLimits(getMessagingProviderNames()),
+      metrics: await SendThrottle.getMetrics()
+    })
+  } catch (error) {
+    console.error('Failed to load send rate limits:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load send rate limits' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Set the rate limit for a provider, or one of its sender IDs
+ * PUT /api/admin/system/rate-limits
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = sendRateLimitSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid rate limit',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    if (!getMessagingProviderNames().includes(validation.data.provider)) {
+      return NextResponse.json(
+        { success: false, message: `Unknown messaging provider '${validation.data.provider}'` },
+        { status: 400 }
+      )
+    }
+
+    const limit = await SendThrottle.saveLimit(validation.data, user.email)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update send rate limit', {
+      user,
+      resource: 'send_rate_limit',
+      details: limit
+    })
+
+    return NextResponse.json({
+      success: true,
+      limit
+    })
+  } catch (error) {
+    console.error('Failed to update send rate limit:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update send rate limit' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Remove a saved limit so the sender goes back to the provider limit or the default
+ * DELETE /api/admin/system/rate-limits?provider=smsfresh&senderId=*
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const provider = searchParams.get('provider')
+    const senderId = searchParams.get('senderId') || '*'
+
+    if (!provider) {
+      return NextResponse.json(
+        { success: false, message: 'provider is required' },
+        { status: 400 }
+      )
+    }
+
+    const deleted = await SendThrottle.deleteLimit(provider, senderId)
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: 'Rate limit not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Reset send rate limit', {
+      user,
+      resource: 'send_rate_limit',
+      details: { provider, senderId }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Rate limit reset to default'
+    })
+  } catch (error) {
+    console.error('Failed to reset send rate limit:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to reset send rate limit' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@prisma/client'
+import { uploadRateLimiter } from '@/lib/security/rateLimiter'
+import { DocumentService } from '@/lib/documentService'
+
+const prisma = new PrismaClient()
+
+// Applicants can attach documents for a week after submitting
+const UPLOAD_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Upload a KYC document for a submitted application
+ * POST /api/applications/[id]/documents  (id is the public application number)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return uploadRateLimiter(request, async (req) => {
+    try {
+      const application = await prisma.loanApplication.findUnique({
+        where: { applicationNumber: params.id }
+      })
+
+      if (!application || !application.leadId) {
+        return NextResponse.json(
+          { success: false, message: 'Application not found' },
+          { status: 404 }
+        )
+      }
+
+      if (
+        application.status !== 'SUBMITTED' ||
+        Date.now() - application.createdAt.getTime() > UPLOAD_WINDOW_MS
+      ) {
+        return NextResponse.json(
+          { success: false, message: 'Documents can no longer be uploaded for this application' },
+          { status: 403 }
+        )
+      }
+
+      const formData = await req.formData()
+      const file = formData.get('file')
+      const documentType = formData.get('documentType')
+
+      if (!(file instanceof File) || typeof documentType !== 'string') {
+        return NextResponse.json(
+          { success: false, message: 'File and document type are required' },
+          { status: 400 }
+        )
+      }
+
+      const result = await DocumentService.uploadDocument(application.leadId, file, documentType)
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, message: 'File validation failed', errors: result.errors },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          document: {
+            id: result.document.id,
+            documentType: result.document.documentType,
+            status: result.document.status
+          }
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Failed to upload application document:', error)
+      return NextResponse.json(
+        { success: false, message: 'Failed to upload document' },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loanApplicationSchema } from '@/lib/security/validation'
+import { strictRateLimiter } from '@/lib/security/rateLimiter'
+import { LoanApplicationService } from '@/lib/loanApplicationService'
+
+/**
+ * Submit a loan application from the public /apply wizard
+ * POST /api/applications
+ */
+export async function POST(request: NextRequest) {
+  return strictRateLimiter(request, async (req) => {
+    try {
+      const body = await req.json()
+
+      const validation = loanApplicationSchema.safeParse(body)
+      if (!validation.success) {
+        return NextResponse.json(
+          {
+            success: false,
+            message: 'Please correct the highlighted fields',
+            errors: validation.error.issues.map(issue => issue.message)
+          },
+          { status: 400 }
+        )
+      }
+
+      const result = await LoanApplicationService.submitApplication(validation.data, {
+        ipAddress: req.ip || req.headers.get('x-forwarded-for')?.split(',')[0] || undefined,
+        userAgent: req.headers.get('user-agent') || undefined
+      })
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, message: 'Failed to submit application' },
+          { status: 500 }
+        )
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          applicationId: result.applicationId,
+          message: 'Application submitted successfully'
+        },
+        { status: 201 }
+      )
+    } catch (error) {
+      console.error('Failed to submit loan application:', error)
+      return NextResponse.json(
+        { success: false, message: 'Failed to submit application' },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAutomationEngine } from '../../../../../lib/automationEngine'
+import { getAutomationEngine, AutomationExecution } from '../../../../../lib/automationEngine'
 
 export async function GET(
   request: NextRequest,
@@ -10,39 +10,30 @@ export async function GET(
     const status = searchParams.get('status')
     const dateRange = searchParams.get('dateRange') || 'week'
     
-    const automationEngine = getAutomationEngine()
-    let executions = automationEngine.getRunningExecutions()
-    
-    // Filter by automation ID
-    executions = executions.filter(exec => exec.automationId === params.id)
-    
-    // Filter by status if provided
-    if (status && status !== 'ALL') {
-      executions = executions.filter(exec => exec.status === status)
-    }
-    
     // Filter by date range
     const now = new Date()
-    let startDate: Date
+    let since: Date | undefined
     
     switch (dateRange) {
       case 'today':
-        startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+        since = new Date(now.getFullYear(), now.getMonth(), now.getDate())
         break
       case 'week':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+        since = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
         break
       case 'month':
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1)
+        since = new Date(now.getFullYear(), now.getMonth(), 1)
         break
       default:
-        startDate = new Date(0) // All time
+        since = undefined // All time
     }
-    
-    executions = executions.filter(exec => exec.startedAt >= startDate)
-    
-    // Sort by start time (newest first)
-    executions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+
+    const automationEngine = getAutomationEngine()
+    const executions = await automationEngine.listExecutions({
+      automationId: params.id,
+      status: status && status !== 'ALL' ? status as AutomationExecution['status'] : undefined,
+      since
+    })
 
     return NextResponse.json({
       success: true,
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAutomationService } from '../../../../lib/automationService'
+import { validateFlow } from '../../../../lib/automationFlow'
 
 export async function GET(
   request: NextRequest,
@@ -33,6 +34,16 @@ export async function PATCH(
 ) {
   try {
     const updates = await request.json()
+
+    if (updates.actions) {
+      const flowErrors = validateFlow(updates.actions)
+      if (flowErrors.length > 0) {
+        return NextResponse.json(
+          { error: 'Invalid workflow', errors: flowErrors },
+          { status: 400 }
+        )
+      }
+    }
     
     const automationService = getAutomationService()
     const success = await automationService.updateAutomation(params.id, updates)
@@ -26,10 +26,7 @@ export async function GET(
 
     // Get running executions for this automation
     const automationEngine = getAutomationEngine()
-    const allRunningExecutions = automationEngine.getRunningExecutions()
-    const runningExecutions = allRunningExecutions.filter(
-      exec => exec.automationId === params.id
-    )
+    const runningExecutions = await automationEngine.getRunningExecutions(params.id)
 
     // Calculate stats for this specific automation
     const stats = {
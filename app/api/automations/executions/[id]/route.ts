@@ -7,7 +7,7 @@ export async function GET(
 ) {
   try {
     const automationEngine = getAutomationEngine()
-    const execution = automationEngine.getExecutionStatus(params.id)
+    const execution = await automationEngine.getExecutionStatus(params.id)
 
     if (!execution) {
       return NextResponse.json(
@@ -1,10 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getAutomationEngine } from '../../../../lib/automationEngine'
+import { getAutomationEngine, AutomationExecution } from '../../../../lib/automationEngine'
 
 export async function GET(request: NextRequest) {
   try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const dateRange = searchParams.get('dateRange') || 'week'
+    const search = searchParams.get('search') || undefined
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500)
+
+    // Filter by date range
+    const now = new Date()
+    let since: Date | undefined
+
+    switch (dateRange) {
+      case 'today':
+        since = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+        break
+      case 'week':
+        since = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000)
+        break
+      case 'month':
+        since = new Date(now.getFullYear(), now.getMonth(), 1)
+        break
+      default:
+        since = undefined // All time
+    }
+
     const automationEngine = getAutomationEngine()
-    const executions = automationEngine.getRunningExecutions()
+    const executions = await automationEngine.listExecutions({
+      status: status && status !== 'ALL' ? status as AutomationExecution['status'] : undefined,
+      since,
+      search,
+      limit
+    })
 
     return NextResponse.json({
       success: true,
@@ -17,4 +46,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
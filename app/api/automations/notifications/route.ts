@@ -9,8 +9,8 @@ export async function GET(request: NextRequest) {
     const retryManager = getAutomationRetryManager()
     
     const notifications = includeAcknowledged 
-      ? retryManager.getAllNotifications()
-      : retryManager.getActiveNotifications()
+      ? await retryManager.getAllNotifications()
+      : await retryManager.getActiveNotifications()
 
     return NextResponse.json({
       success: true,
@@ -5,12 +5,16 @@ export async function GET(request: NextRequest) {
   try {
     const retryManager = getAutomationRetryManager()
     
-    const pendingRetries = retryManager.getPendingRetries()
-    const stats = retryManager.getRetryStats()
+    const [pendingRetries, recentRetries, stats] = await Promise.all([
+      retryManager.getPendingRetries(),
+      retryManager.getRecentRetries(),
+      retryManager.getRetryStats()
+    ])
 
     return NextResponse.json({
       success: true,
       pendingRetries,
+      recentRetries,
       stats
     })
   } catch (error) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getAutomationEngine } from '../../../lib/automationEngine'
 import { getAutomationService } from '../../../lib/automationService'
+import { validateFlow } from '../../../lib/automationFlow'
 
 export async function GET(request: NextRequest) {
   try {
@@ -26,6 +27,14 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
+
+    const flowErrors = validateFlow(data.actions || [])
+    if (flowErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid workflow', errors: flowErrors },
+        { status: 400 }
+      )
+    }
     
     // Use the new automation engine for enhanced functionality
     const automationEngine = getAutomationEngine()
@@ -39,9 +39,9 @@ export async function GET(request: NextRequest) {
     const successfulExecutions = automations.reduce((sum, auto) => sum + auto.successfulRuns, 0)
     const failedExecutions = totalExecutions - successfulExecutions
     
-    // Get running executions from engine
+    // Get running executions from the execution store
     const automationEngine = getAutomationEngine()
-    const runningExecutions = automationEngine.getRunningExecutions()
+    const runningExecutions = await automationEngine.getRunningExecutions()
     
     // Calculate average execution time (simplified - in production, store actual execution times)
     const averageExecutionTime = 45000 // 45 seconds average (placeholder)
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth } from '../../../../../lib/auth'
+import { getAutomationEngine } from '../../../../../lib/automationEngine'
+
+/**
+ * Cancel a waiting instance so its remaining actions never run
+ * DELETE /api/automations/waiting/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const automationEngine = getAutomationEngine()
+    const cancelled = await automationEngine.cancelWaitingInstance(params.id, user.email)
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'Waiting instance not found or already resumed' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Waiting instance cancelled'
+    })
+  } catch (error) {
+    console.error('❌ Error cancelling waiting instance:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel waiting instance' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAutomationEngine } from '../../../../lib/automationEngine'
+
+/**
+ * Workflow instances paused at a wait step
+ * GET /api/automations/waiting?automationId=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const automationId = searchParams.get('automationId') || undefined
+
+    const automationEngine = getAutomationEngine()
+    const instances = await automationEngine.listWaitingInstances(automationId)
+
+    return NextResponse.json({
+      success: true,
+      instances
+    })
+  } catch (error) {
+    console.error('❌ Error fetching waiting instances:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch waiting instances' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import {
+  RecurringCampaignService,
+  RecurringCampaignError,
+  RECURRING_CAMPAIGN_ERROR_STATUS
+} from '@/lib/recurringCampaignService'
+import { campaignRecurrenceSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * A campaign's repeat schedule, its next runs and the runs so far
+ * GET /api/campaigns/[id]/recurrence
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const schedule = await RecurringCampaignService.getSchedule(params.id)
+
+    return NextResponse.json({
+      success: true,
+      ...schedule
+    })
+  } catch (error) {
+    if (error instanceof RecurringCampaignError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: RECURRING_CAMPAIGN_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to load campaign schedule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load campaign schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Make a campaign repeat on an RRULE schedule
+ * PUT /api/campaigns/[id]/recurrence
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = campaignRecurrenceSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid schedule',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await RecurringCampaignService.saveSchedule(params.id, validation.data)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update campaign schedule', {
+      user,
+      resource: 'campaign',
+      resourceId: params.id,
+      details: {
+        rule: schedule.rule,
+        timeZone: schedule.timeZone,
+        nextRunAt: schedule.nextRunAt
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...schedule
+    })
+  } catch (error) {
+    if (error instanceof RecurringCampaignError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: RECURRING_CAMPAIGN_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to update campaign schedule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update campaign schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Stop a campaign repeating. Runs already started carry on.
+ * DELETE /api/campaigns/[id]/recurrence
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const schedule = await RecurringCampaignService.removeSchedule(params.id)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Remove campaign schedule', {
+      user,
+      resource: 'campaign',
+      resourceId: params.id
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...schedule
+    })
+  } catch (error) {
+    if (error instanceof RecurringCampaignError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: RECURRING_CAMPAIGN_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to remove campaign schedule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to remove campaign schedule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import {
+  CampaignReportService,
+  CampaignReportError,
+  CAMPAIGN_REPORT_ERROR_STATUS
+} from '@/lib/campaignReportService'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * One stored campaign report, as JSON or downloaded as a spreadsheet or PDF
+ * GET /api/campaigns/[id]/report/[reportId]?format=json|xlsx|pdf
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; reportId: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const report = await CampaignReportService.getReport(params.reportId)
+    if (report.campaignId !== params.id) {
+      return NextResponse.json(
+        { success: false, message: 'Report not found' },
+        { status: 404 }
+      )
+    }
+
+    const format = request.nextUrl.searchParams.get('format') || 'json'
+    if (format === 'json') {
+      return NextResponse.json({
+        success: true,
+        report
+      })
+    }
+
+    if (format !== 'xlsx' && format !== 'pdf') {
+      return NextResponse.json(
+        { success: false, message: 'Format must be json, xlsx or pdf' },
+        { status: 400 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CAMPAIGN_VIEW, 'Export campaign report', {
+      user,
+      resource: 'campaign_report',
+      resourceId: report.id,
+      details: { campaignId: params.id, format }
+    })
+
+    const fileName = `campaign_report_${report.campaignName.replace(/[^a-zA-Z0-9-_]+/g, '_')}_${report.createdAt.toISOString().split('T')[0]}`
+
+    if (format === 'xlsx') {
+      return new NextResponse(new Uint8Array(CampaignReportService.reportToXlsx(report)), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${fileName}.xlsx"`
+        }
+      })
+    }
+
+    return new NextResponse(new Uint8Array(CampaignReportService.reportToPdf(report)), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}.pdf"`
+      }
+    })
+  } catch (error) {
+    if (error instanceof CampaignReportError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: CAMPAIGN_REPORT_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to export campaign report:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to export campaign report' },
+      { status: 500 }
+    )
+  }
+}
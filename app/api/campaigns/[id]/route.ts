@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { PrismaClient } from '@prisma/client'
 import { withAuthAndPermissions } from '@/lib/middleware/auth'
 import { PERMISSIONS } from '@/lib/auth'
+import { getMessagingProviderNames } from '@/lib/messagingProvider'
+import { isValidTimeZone } from '@/lib/security/validation'
 
 const prisma = new PrismaClient()
 
@@ -46,8 +48,14 @@ export async function GET(
         parameters: campaign.parameters,
         mediaUrl: campaign.mediaUrl,
         mediaType: campaign.mediaType as 'image' | 'video' | 'document' | undefined,
-        status: campaign.status as 'DRAFT' | 'SCHEDULED' | 'RUNNING' | 'COMPLETED' | 'PAUSED' | 'CANCELLED',
+        provider: campaign.provider,
+        segmentId: campaign.segmentId,
+        status: campaign.status as 'DRAFT' | 'SCHEDULED' | 'LAUNCHING' | 'RUNNING' | 'COMPLETED' | 'PAUSED' | 'CANCELLED',
         scheduledAt: campaign.scheduledAt?.toISOString(),
+        scheduledTimeZone: campaign.scheduledTimeZone,
+        launchedAt: campaign.launchedAt?.toISOString(),
+        launchLagMs: campaign.launchLagMs,
+        launchError: campaign.launchError,
         sentAt: campaign.sentAt?.toISOString(),
         totalContacts: campaign._count.contacts,
         totalSent: campaign.totalSent,
@@ -101,6 +109,14 @@ export async function PATCH(
         )
       }
 
+      // The scheduled launcher has claimed it; it is RUNNING (or back to SCHEDULED) shortly
+      if (existingCampaign.status === 'LAUNCHING') {
+        return NextResponse.json(
+          { error: 'Campaign is being launched' },
+          { status: 409 }
+        )
+      }
+
       // Check if campaign can be edited based on status and operation
       const editableStatuses = ['DRAFT', 'SCHEDULED']
       const statusChangeOperations = ['RUNNING', 'PAUSED', 'CANCELLED', 'COMPLETED']
@@ -133,6 +149,34 @@ export async function PATCH(
         }
       }
 
+      if (data.status === 'SCHEDULED' && !(data.scheduledAt !== undefined ? data.scheduledAt : existingCampaign.scheduledAt)) {
+        return NextResponse.json(
+          { error: 'Scheduled campaigns need a scheduled time' },
+          { status: 400 }
+        )
+      }
+
+      if (data.scheduledTimeZone && !isValidTimeZone(data.scheduledTimeZone)) {
+        return NextResponse.json(
+          { error: `Unknown time zone: ${data.scheduledTimeZone}` },
+          { status: 400 }
+        )
+      }
+
+      if (data.provider && !getMessagingProviderNames().includes(data.provider)) {
+        return NextResponse.json(
+          { error: `Unknown messaging provider: ${data.provider}` },
+          { status: 400 }
+        )
+      }
+
+      if (data.segmentId && !await prisma.segment.findUnique({ where: { id: data.segmentId }, select: { id: true } })) {
+        return NextResponse.json(
+          { error: `Unknown segment: ${data.segmentId}` },
+          { status: 400 }
+        )
+      }
+
       const updateData: any = {
         updatedAt: new Date()
       }
@@ -144,9 +188,18 @@ export async function PATCH(
       if (data.parameters !== undefined) updateData.parameters = data.parameters
       if (data.mediaUrl !== undefined) updateData.mediaUrl = data.mediaUrl
       if (data.mediaType !== undefined) updateData.mediaType = data.mediaType
+      if (data.provider !== undefined) updateData.provider = data.provider || null
+      if (data.segmentId !== undefined) updateData.segmentId = data.segmentId || null
       if (data.scheduledAt !== undefined) {
         updateData.scheduledAt = data.scheduledAt ? new Date(data.scheduledAt) : null
       }
+      if (data.scheduledTimeZone !== undefined) updateData.scheduledTimeZone = data.scheduledTimeZone || null
+      if (data.scheduledAt !== undefined || data.status !== undefined) {
+        // A new schedule is launched on its own time, without waiting out a failed launch's retry delay
+        updateData.launchLeaseOwner = null
+        updateData.launchLeaseExpiresAt = null
+        updateData.launchError = null
+      }
       if (data.status !== undefined) {
         updateData.status = data.status
         
@@ -161,9 +214,21 @@ export async function PATCH(
         }
       }
 
-      const campaign = await prisma.campaign.update({
+      // Only while the status is unchanged, so an edit never lands on a campaign the launcher just claimed
+      const { count } = await prisma.campaign.updateMany({
+        where: { id: params.id, status: existingCampaign.status },
+        data: updateData
+      })
+
+      if (count === 0) {
+        return NextResponse.json(
+          { error: 'Campaign was launched before the change was saved' },
+          { status: 409 }
+        )
+      }
+
+      const campaign = await prisma.campaign.findUniqueOrThrow({
         where: { id: params.id },
-        data: updateData,
         include: {
           createdBy: true,
           _count: {
@@ -180,8 +245,10 @@ export async function PATCH(
         name: campaign.name,
         type: campaign.type as 'SMS' | 'WHATSAPP',
         message: campaign.message,
-        status: campaign.status as 'DRAFT' | 'SCHEDULED' | 'RUNNING' | 'COMPLETED' | 'PAUSED' | 'CANCELLED',
+        status: campaign.status as 'DRAFT' | 'SCHEDULED' | 'LAUNCHING' | 'RUNNING' | 'COMPLETED' | 'PAUSED' | 'CANCELLED',
         scheduledAt: campaign.scheduledAt?.toISOString(),
+        scheduledTimeZone: campaign.scheduledTimeZone,
+        launchError: campaign.launchError,
         sentAt: campaign.sentAt?.toISOString(),
         completedAt: campaign.completedAt?.toISOString(),
         totalContacts: campaign._count.contacts,
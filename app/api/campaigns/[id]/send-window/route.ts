@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { SendWindowService } from '@/lib/sendWindowService'
+import { sendWindowSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * The window that applies to a campaign: its own if set, otherwise the global one
+ * GET /api/campaigns/[id]/send-window
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const sendWindow = await SendWindowService.getWindow(params.id)
+
+    return NextResponse.json({
+      success: true,
+      sendWindow,
+      isCampaignWindow: sendWindow.campaignId === params.id,
+      isOpen: SendWindowService.isOpen(sendWindow),
+      nextOpening: SendWindowService.getNextOpening(sendWindow)
+    })
+  } catch (error) {
+    console.error('Failed to load campaign send window:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load campaign send window' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Set a send window for one campaign, overriding the global window
+ * PUT /api/campaigns/[id]/send-window
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = sendWindowSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid send window',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const sendWindow = await SendWindowService.saveCampaignWindow(params.id, validation.data, user.email)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update campaign send window', {
+      user,
+      resource: 'campaign',
+      resourceId: params.id,
+      details: sendWindow
+    })
+
+    return NextResponse.json({
+      success: true,
+      sendWindow
+    })
+  } catch (error) {
+    console.error('Failed to update campaign send window:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update campaign send window' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Remove a campaign's own window so the global window applies again
+ * DELETE /api/campaigns/[id]/send-window
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    await SendWindowService.removeCampaignWindow(params.id)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Remove campaign send window', {
+      user,
+      resource: 'campaign',
+      resourceId: params.id
+    })
+
+    return NextResponse.json({
+      success: true,
+      sendWindow: await SendWindowService.getGlobalWindow()
+    })
+  } catch (error) {
+    console.error('Failed to remove campaign send window:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to remove campaign send window' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import {
+  CampaignSequenceService,
+  CampaignSequenceError,
+  CAMPAIGN_SEQUENCE_ERROR_STATUS
+} from '@/lib/campaignSequenceService'
+import { campaignStepsSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * A campaign's sequence steps, with how many contacts wait at each and how many left
+ * GET /api/campaigns/[id]/sequence
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const [steps, progress] = await Promise.all([
+      CampaignSequenceService.getSteps(params.id),
+      CampaignSequenceService.getProgress(params.id)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      steps,
+      progress
+    })
+  } catch (error) {
+    console.error('Failed to load campaign sequence:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load campaign sequence' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Replace a campaign's steps before it starts. No steps makes it a one-off campaign.
+ * PUT /api/campaigns/[id]/sequence
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = campaignStepsSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid sequence',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const steps = await CampaignSequenceService.saveSteps(params.id, validation.data)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update campaign sequence', {
+      user,
+      resource: 'campaign',
+      resourceId: params.id,
+      details: {
+        steps: steps.map(step => ({
+          delayMinutes: step.delayMinutes,
+          templateName: step.templateName,
+          exitOn: step.exitOn
+        }))
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      steps
+    })
+  } catch (error) {
+    if (error instanceof CampaignSequenceError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: CAMPAIGN_SEQUENCE_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to update campaign sequence:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update campaign sequence' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import {
+  CampaignVariantService,
+  CampaignVariantError,
+  CAMPAIGN_VARIANT_ERROR_STATUS
+} from '@/lib/campaignVariantService'
+import { campaignVariantsSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * A campaign's A/B test settings and variants, with how each variant is doing
+ * GET /api/campaigns/[id]/variants
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const config = await CampaignVariantService.getConfig(params.id)
+
+    return NextResponse.json({
+      success: true,
+      ...config,
+      results: config.variants.length > 0 ? await CampaignVariantService.getResults(params.id) : []
+    })
+  } catch (error) {
+    if (error instanceof CampaignVariantError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: CAMPAIGN_VARIANT_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to load campaign variants:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load campaign variants' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Replace a campaign's variants before it starts. No variants turns the A/B test off.
+ * PUT /api/campaigns/[id]/variants
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = campaignVariantsSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid A/B test',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const config = await CampaignVariantService.saveConfig(params.id, validation.data)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update campaign variants', {
+      user,
+      resource: 'campaign',
+      resourceId: params.id,
+      details: {
+        mode: config.mode,
+        testPercent: config.testPercent,
+        windowHours: config.windowHours,
+        variants: config.variants.map(variant => ({ name: variant.name, weight: variant.weight }))
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      ...config
+    })
+  } catch (error) {
+    if (error instanceof CampaignVariantError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: CAMPAIGN_VARIANT_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to update campaign variants:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update campaign variants' },
+      { status: 500 }
+    )
+  }
+}
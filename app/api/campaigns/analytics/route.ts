@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { withAuthAndPermissions } from '@/lib/middleware/auth'
 import { PERMISSIONS } from '@/lib/auth'
 import { PrismaClient } from '@prisma/client'
+import { ContactLanguageService } from '@/lib/contactLanguageService'
+import { CampaignVariantService } from '@/lib/campaignVariantService'
 
 const prisma = new PrismaClient()
 
@@ -39,6 +41,7 @@ export async function GET(request: NextRequest) {
         include: {
           contacts: true,
           messages: true,
+          variants: true,
           createdBy: {
             select: { name: true }
           }
@@ -103,6 +106,20 @@ export async function GET(request: NextRequest) {
           roi: c.roi
         }))
 
+      // Delivery and replies per template language sent
+      const languageBreakdown = ContactLanguageService.breakdown(campaigns.flatMap(c => c.messages))
+
+      // Per-variant results of A/B tested campaigns
+      const abTests = campaigns
+        .filter(c => c.variants.length > 0)
+        .map(c => ({
+          campaignId: c.id,
+          name: c.name,
+          mode: c.abTestMode,
+          testEndsAt: c.abTestEndsAt,
+          variants: CampaignVariantService.summarize(c.variants, c.contacts)
+        }))
+
       // Generate recommendations
       const recommendations = generateRecommendations(campaigns, performance)
 
@@ -118,6 +135,8 @@ export async function GET(request: NextRequest) {
         performance,
         campaignComparison,
         topPerformers,
+        languageBreakdown,
+        abTests,
         recommendations
       }
 
@@ -157,6 +157,7 @@ export async function POST(request: NextRequest) {
             parameters: sourceCampaign.parameters,
             mediaUrl: sourceCampaign.mediaUrl,
             mediaType: sourceCampaign.mediaType,
+            provider: sourceCampaign.provider,
             status: 'DRAFT',
             createdById: sourceCampaign.createdById
           }
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import {
+  CampaignReportService,
+  CampaignReportError,
+  CAMPAIGN_REPORT_ERROR_STATUS
+} from '@/lib/campaignReportService'
+
+/**
+ * Two stored campaign reports side by side, metric by metric
+ * GET /api/campaigns/reports/compare?a=<reportId>&b=<reportId>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const a = request.nextUrl.searchParams.get('a')
+    const b = request.nextUrl.searchParams.get('b')
+    if (!a || !b) {
+      return NextResponse.json(
+        { success: false, message: 'Two report ids are required' },
+        { status: 400 }
+      )
+    }
+
+    const comparison = await CampaignReportService.compare(a, b)
+
+    return NextResponse.json({
+      success: true,
+      comparison
+    })
+  } catch (error) {
+    if (error instanceof CampaignReportError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: CAMPAIGN_REPORT_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to compare campaign reports:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to compare campaign reports' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { SendWindowService } from '@/lib/sendWindowService'
+import { sendWindowSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Global send window used by automations, follow-ups and campaigns without their own
+ * GET /api/campaigns/send-window
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const sendWindow = await SendWindowService.getGlobalWindow()
+
+    return NextResponse.json({
+      success: true,
+      sendWindow,
+      isOpen: SendWindowService.isOpen(sendWindow),
+      nextOpening: SendWindowService.getNextOpening(sendWindow)
+    })
+  } catch (error) {
+    console.error('Failed to load send window:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load send window' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Update the global send window
+ * PUT /api/campaigns/send-window
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = sendWindowSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid send window',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const sendWindow = await SendWindowService.saveGlobalWindow(validation.data, user.email)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update global send window', {
+      user,
+      resource: 'send_window',
+      details: sendWindow
+    })
+
+    return NextResponse.json({
+      success: true,
+      sendWindow
+    })
+  } catch (error) {
+    console.error('Failed to update send window:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update send window' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { ConsentService } from '@/lib/consentService'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Export a contact's consent report for regulatory requests
+ * GET /api/contacts/[id]/consent/report?format=csv|json
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'contacts:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const report = await ConsentService.getReport(params.id)
+    if (!report) {
+      return NextResponse.json(
+        { success: false, message: 'Contact not found' },
+        { status: 404 }
+      )
+    }
+
+    const format = request.nextUrl.searchParams.get('format') === 'json' ? 'json' : 'csv'
+
+    await auditLogger.logEvent(AuditEventType.CONTACT_EXPORT, 'Export contact consent report', {
+      user,
+      resource: 'contact_consent',
+      resourceId: params.id,
+      details: { format, entries: report.ledger.length }
+    })
+
+    const fileName = `consent_${report.contact.phone}_${report.generatedAt.toISOString().split('T')[0]}`
+
+    if (format === 'json') {
+      return new NextResponse(JSON.stringify(report, null, 2), {
+        headers: {
+          'Content-Type': 'application/json',
+          'Content-Disposition': `attachment; filename="${fileName}.json"`
+        }
+      })
+    }
+
+    return new NextResponse(ConsentService.reportToCsv(report), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="${fileName}.csv"`
+      }
+    })
+  } catch (error) {
+    console.error('Failed to export consent report:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to export consent report' },
+      { status: 500 }
+    )
+  }
+}
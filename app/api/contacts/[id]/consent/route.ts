@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@prisma/client'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { ConsentService } from '@/lib/consentService'
+import { consentSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+const prisma = new PrismaClient()
+
+/**
+ * Current consent and the full consent ledger for a contact
+ * GET /api/contacts/[id]/consent
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'contacts:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const report = await ConsentService.getReport(params.id)
+    if (!report) {
+      return NextResponse.json(
+        { success: false, message: 'Contact not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      current: report.current,
+      ledger: report.ledger
+    })
+  } catch (error) {
+    console.error('Failed to load consent ledger:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load consent ledger' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Record consent captured outside the app (import file, call recording, signed form)
+ * POST /api/contacts/[id]/consent
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'contacts:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = consentSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid consent entry',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const contact = await prisma.contact.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    })
+    if (!contact) {
+      return NextResponse.json(
+        { success: false, message: 'Contact not found' },
+        { status: 404 }
+      )
+    }
+
+    const entry = await ConsentService.record(params.id, validation.data, user.email)
+
+    await auditLogger.logEvent(AuditEventType.CONTACT_UPDATE, 'Record contact consent', {
+      user,
+      resource: 'contact_consent',
+      resourceId: params.id,
+      details: {
+        channel: entry.channel,
+        purpose: entry.purpose,
+        status: entry.status,
+        source: entry.source
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      consent: entry
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to record consent:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to record consent' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { PrismaClient } from '@prisma/client'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { ContactLanguageService } from '@/lib/contactLanguageService'
+import { SUPPORTED_LANGUAGES } from '@/lib/messageTemplates'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+const prisma = new PrismaClient()
+
+/**
+ * Set a contact's preferred template language. Inbound messages no longer change it
+ * afterwards; send null to clear it and let it be inferred again.
+ * PUT /api/contacts/[id]/language { language: 'hi' | null }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'contacts:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const { language } = await request.json()
+    const normalized = language === null ? null : ContactLanguageService.normalize(language)
+
+    if (language !== null && !normalized) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Language must be one of ${SUPPORTED_LANGUAGES.map(l => l.code).join(', ')}, or null`
+        },
+        { status: 400 }
+      )
+    }
+
+    const contact = await prisma.contact.findUnique({
+      where: { id: params.id },
+      select: { id: true, preferredLanguage: true }
+    })
+    if (!contact) {
+      return NextResponse.json(
+        { success: false, message: 'Contact not found' },
+        { status: 404 }
+      )
+    }
+
+    if (normalized) {
+      await ContactLanguageService.setPreference(params.id, normalized, 'ADMIN')
+    } else {
+      await ContactLanguageService.clearPreference(params.id)
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONTACT_UPDATE, 'Set contact language', {
+      user,
+      resource: 'contact',
+      resourceId: params.id,
+      details: { previous: contact.preferredLanguage, language: normalized }
+    })
+
+    return NextResponse.json({
+      success: true,
+      preferredLanguage: normalized,
+      languageSource: normalized ? 'ADMIN' : null
+    })
+  } catch (error) {
+    console.error('Failed to set contact language:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to set contact language' },
+      { status: 500 }
+    )
+  }
+}
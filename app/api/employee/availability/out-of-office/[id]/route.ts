@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { AvailabilityService } from '@/lib/availabilityService'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Remove an out-of-office range
+ * DELETE /api/employee/availability/out-of-office/[id]?userId=
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = request.nextUrl.searchParams.get('userId') || user.id
+    if (userId !== user.id && !hasPermission(user, 'users:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const deleted = await AvailabilityService.removeOutOfOffice(userId, params.id)
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: 'Out-of-office range not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Remove out-of-office range', {
+      user,
+      resource: 'user_availability',
+      resourceId: userId,
+      details: { outOfOfficeId: params.id }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Out-of-office range removed'
+    })
+  } catch (error) {
+    console.error('Failed to remove out-of-office range:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to remove out-of-office range' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { AvailabilityService } from '@/lib/availabilityService'
+import { outOfOfficeSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Add an out-of-office range. Leads are not assigned to the user while it is active.
+ * POST /api/employee/availability/out-of-office
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const userId: string = body.userId || user.id
+
+    if (userId !== user.id && !hasPermission(user, 'users:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = outOfOfficeSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid out-of-office range',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const range = await AvailabilityService.addOutOfOffice(userId, validation.data)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Add out-of-office range', {
+      user,
+      resource: 'user_availability',
+      resourceId: userId,
+      details: range
+    })
+
+    return NextResponse.json({
+      success: true,
+      outOfOffice: range
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to add out-of-office range:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to add out-of-office range' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { AvailabilityService } from '@/lib/availabilityService'
+import { availabilitySchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Working schedule, out-of-office ranges and current availability.
+ * Defaults to the signed-in user; admins may pass ?userId=
+ * GET /api/employee/availability
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const userId = request.nextUrl.searchParams.get('userId') || user.id
+    if (userId !== user.id && !hasPermission(user, 'users:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const schedule = await AvailabilityService.getSchedule(userId)
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    const [outOfOffice, status, activeLeads] = await Promise.all([
+      AvailabilityService.listOutOfOffice(userId),
+      AvailabilityService.getAvailability(userId),
+      AvailabilityService.countActiveLeads(userId)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      schedule,
+      outOfOffice,
+      status,
+      activeLeads,
+      canEditCapacity: hasPermission(user, 'users:manage')
+    })
+  } catch (error) {
+    console.error('Failed to fetch availability:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch availability' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Update a working schedule. Capacity can only be changed by admins.
+ * PUT /api/employee/availability
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+    const userId: string = body.userId || user.id
+    const isManager = hasPermission(user, 'users:manage')
+
+    if (userId !== user.id && !isManager) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = availabilitySchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid availability settings',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    if (validation.data.maxCapacity !== undefined && !isManager) {
+      return NextResponse.json(
+        { success: false, message: 'Only admins can change lead capacity' },
+        { status: 403 }
+      )
+    }
+
+    const schedule = await AvailabilityService.updateSchedule(userId, validation.data)
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update working schedule', {
+      user,
+      resource: 'user_availability',
+      resourceId: userId,
+      details: validation.data
+    })
+
+    return NextResponse.json({
+      success: true,
+      schedule
+    })
+  } catch (error) {
+    console.error('Failed to update availability:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update availability' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { DocumentService, DOCUMENT_STATUSES, DocumentStatus } from '@/lib/documentService'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Stream a stored document back to a loan officer
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; documentId: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'leads:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const stored = await DocumentService.readDocument(params.id, params.documentId)
+
+    if (!stored) {
+      return NextResponse.json(
+        { success: false, message: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logDataAccess('lead_document', 'view', user, params.documentId, {
+      leadId: params.id
+    })
+
+    return new NextResponse(new Uint8Array(stored.content), {
+      headers: {
+        'Content-Type': stored.document.mimeType,
+        'Content-Disposition': `inline; filename="${stored.document.fileName}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Failed to read lead document:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to read document' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Set a document's verification status (PENDING, VERIFIED, REJECTED)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; documentId: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'leads:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const { status, rejectionReason } = await request.json()
+
+    if (!DOCUMENT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { success: false, message: `Status must be one of: ${DOCUMENT_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (status === 'REJECTED' && !rejectionReason) {
+      return NextResponse.json(
+        { success: false, message: 'A reason is required when rejecting a document' },
+        { status: 400 }
+      )
+    }
+
+    const document = await DocumentService.updateVerificationStatus(
+      params.id,
+      params.documentId,
+      status as DocumentStatus,
+      user.id,
+      rejectionReason
+    )
+
+    if (!document) {
+      return NextResponse.json(
+        { success: false, message: 'Document not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.LEAD_UPDATE, `Mark lead document ${status.toLowerCase()}`, {
+      user,
+      resource: 'lead_document',
+      resourceId: params.documentId,
+      details: { leadId: params.id, status, rejectionReason }
+    })
+
+    return NextResponse.json({
+      success: true,
+      document
+    })
+  } catch (error) {
+    console.error('Failed to update document status:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update document status' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { DocumentService } from '@/lib/documentService'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'leads:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const documents = await DocumentService.getLeadDocuments(params.id)
+
+    return NextResponse.json({
+      success: true,
+      documents
+    })
+  } catch (error) {
+    console.error('Failed to fetch lead documents:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch documents' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'leads:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+    const documentType = formData.get('documentType')
+
+    if (!(file instanceof File) || typeof documentType !== 'string') {
+      return NextResponse.json(
+        { success: false, message: 'File and document type are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await DocumentService.uploadDocument(params.id, file, documentType, user.id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'File validation failed', errors: result.errors },
+        { status: 400 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.FILE_UPLOAD, 'Upload lead document', {
+      user,
+      resource: 'lead_document',
+      resourceId: result.document.id,
+      details: { leadId: params.id, documentType }
+    })
+
+    return NextResponse.json(
+      { success: true, document: result.document },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Failed to upload lead document:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to upload document' },
+      { status: 500 }
+    )
+  }
+}
@@ -103,4 +103,32 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+// Assignment statistics
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const days = parseInt(searchParams.get('days') || '30')
+
+    // Get assignment statistics
+    const stats = await LeadAssignmentService.getAssignmentStats(days)
+
+    return NextResponse.json({
+      success: true,
+      stats,
+      period: `${days} days`
+    })
+
+  } catch (error) {
+    console.error('Error getting assignment stats:', error)
+    return NextResponse.json(
+      { 
+        success: false, 
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { AssignmentRuleService } from '@/lib/assignmentRuleService'
+import { assignmentRuleSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const rule = await AssignmentRuleService.getRule(params.id)
+    if (!rule) {
+      return NextResponse.json(
+        { success: false, message: 'Assignment rule not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      rule
+    })
+  } catch (error) {
+    console.error('Failed to fetch assignment rule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch assignment rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = assignmentRuleSchema.partial().safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid assignment rule',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule = await AssignmentRuleService.updateRule(params.id, validation.data)
+    if (!rule) {
+      return NextResponse.json(
+        { success: false, message: 'Assignment rule not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update assignment rule', {
+      user,
+      resource: 'assignment_rule',
+      resourceId: rule.id,
+      details: { changes: Object.keys(validation.data) }
+    })
+
+    return NextResponse.json({
+      success: true,
+      rule
+    })
+  } catch (error) {
+    console.error('Failed to update assignment rule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update assignment rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const deleted = await AssignmentRuleService.deleteRule(params.id)
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: 'Assignment rule not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Delete assignment rule', {
+      user,
+      resource: 'assignment_rule',
+      resourceId: params.id
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Assignment rule deleted'
+    })
+  } catch (error) {
+    console.error('Failed to delete assignment rule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete assignment rule' },
+      { status: 500 }
+    )
+  }
+}
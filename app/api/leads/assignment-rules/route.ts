@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { AssignmentRuleService } from '@/lib/assignmentRuleService'
+import { assignmentRuleSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * List lead assignment rules in evaluation order
+ * GET /api/leads/assignment-rules
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const rules = await AssignmentRuleService.listRules()
+
+    return NextResponse.json({
+      success: true,
+      rules
+    })
+  } catch (error) {
+    console.error('Failed to fetch assignment rules:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch assignment rules' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create a lead assignment rule
+ * POST /api/leads/assignment-rules
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = assignmentRuleSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid assignment rule',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule = await AssignmentRuleService.createRule(validation.data, user.id)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Create assignment rule', {
+      user,
+      resource: 'assignment_rule',
+      resourceId: rule.id,
+      details: { name: rule.name, strategy: rule.assignmentStrategy }
+    })
+
+    return NextResponse.json(
+      { success: true, rule },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Failed to create assignment rule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to create assignment rule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { AssignmentRuleService } from '@/lib/assignmentRuleService'
+import { employeeSkillsSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * List employees with the skills used for SKILL_BASED assignment
+ * GET /api/leads/assignment-rules/skills
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const employees = await AssignmentRuleService.listEmployeeSkills()
+
+    return NextResponse.json({
+      success: true,
+      employees
+    })
+  } catch (error) {
+    console.error('Failed to fetch employee skills:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch employee skills' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Replace one employee's skills
+ * PUT /api/leads/assignment-rules/skills
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = employeeSkillsSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid skills',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const skills = await AssignmentRuleService.setEmployeeSkills(validation.data.userId, validation.data.skills)
+    if (!skills) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update employee skills', {
+      user,
+      resource: 'employee_skill',
+      resourceId: validation.data.userId,
+      details: { skills }
+    })
+
+    return NextResponse.json({
+      success: true,
+      skills
+    })
+  } catch (error) {
+    console.error('Failed to update employee skills:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update employee skills' },
+      { status: 500 }
+    )
+  }
+}
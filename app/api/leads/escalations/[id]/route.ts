@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { EscalationService } from '@/lib/escalationService'
+import { escalationUpdateSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Acknowledge or resolve an escalation
+ * PATCH /api/leads/escalations/:id
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'users:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = escalationUpdateSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, message: validation.error.issues[0]?.message || 'Invalid request' },
+        { status: 400 }
+      )
+    }
+
+    const { status, resolution } = validation.data
+    const result = await EscalationService.updateStatus(params.id, status, user.id, resolution?.trim())
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: result.reason },
+        { status: result.reason === 'Escalation not found' ? 404 : 409 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.LEAD_UPDATE, `Escalation ${status.toLowerCase()}`, {
+      user,
+      resource: 'lead_escalation',
+      resourceId: params.id,
+      details: { leadId: result.escalation?.leadId, status }
+    })
+
+    return NextResponse.json({
+      success: true,
+      escalation: result.escalation
+    })
+  } catch (error) {
+    console.error('Failed to update escalation:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update escalation' },
+      { status: 500 }
+    )
+  }
+}
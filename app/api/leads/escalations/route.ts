@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import LeadAssignmentService from '../../../../lib/leadAssignmentService'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { EscalationService, ESCALATION_STATUSES, EscalationStatus } from '@/lib/escalationService'
 
 export async function POST(request: NextRequest) {
   try {
@@ -24,29 +26,52 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Escalation log with per-employee SLA breach summary
+ * GET /api/leads/escalations?status=OPEN&assignedToId=...&days=30
+ */
 export async function GET(request: NextRequest) {
   try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'users:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
     const { searchParams } = new URL(request.url)
     const days = parseInt(searchParams.get('days') || '30')
+    const status = searchParams.get('status')
+
+    if (status && !ESCALATION_STATUSES.includes(status as EscalationStatus)) {
+      return NextResponse.json(
+        { success: false, message: `Invalid status. Allowed: ${ESCALATION_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
 
-    // Get assignment statistics
-    const stats = await LeadAssignmentService.getAssignmentStats(days)
+    const [escalations, summary] = await Promise.all([
+      EscalationService.listEscalations({
+        status: (status as EscalationStatus) || undefined,
+        assignedToId: searchParams.get('assignedToId') || undefined,
+        days
+      }),
+      EscalationService.getSlaSummary(days)
+    ])
 
     return NextResponse.json({
       success: true,
-      stats,
+      escalations,
+      summary,
       period: `${days} days`
     })
-
   } catch (error) {
-    console.error('Error getting assignment stats:', error)
+    console.error('Failed to fetch escalations:', error)
     return NextResponse.json(
-      { 
-        success: false, 
-        error: 'Internal server error',
-        details: error instanceof Error ? error.message : 'Unknown error'
-      },
+      { success: false, message: 'Failed to fetch escalations' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { EscalationService } from '@/lib/escalationService'
+import { escalationRuleSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const rule = await EscalationService.getRule(params.id)
+    if (!rule) {
+      return NextResponse.json(
+        { success: false, message: 'Escalation rule not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      rule
+    })
+  } catch (error) {
+    console.error('Failed to fetch escalation rule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch escalation rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = escalationRuleSchema.partial().safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid escalation rule',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule = await EscalationService.updateRule(params.id, validation.data)
+    if (!rule) {
+      return NextResponse.json(
+        { success: false, message: 'Escalation rule not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update escalation rule', {
+      user,
+      resource: 'escalation_rule',
+      resourceId: rule.id,
+      details: { changes: Object.keys(validation.data) }
+    })
+
+    return NextResponse.json({
+      success: true,
+      rule
+    })
+  } catch (error) {
+    console.error('Failed to update escalation rule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update escalation rule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const deleted = await EscalationService.deleteRule(params.id)
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: 'Escalation rule not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Delete escalation rule', {
+      user,
+      resource: 'escalation_rule',
+      resourceId: params.id
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Escalation rule deleted'
+    })
+  } catch (error) {
+    console.error('Failed to delete escalation rule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete escalation rule' },
+      { status: 500 }
+    )
+  }
+}
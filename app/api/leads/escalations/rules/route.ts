@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { EscalationService } from '@/lib/escalationService'
+import { escalationRuleSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * List lead escalation rules in evaluation order
+ * GET /api/leads/escalations/rules
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const rules = await EscalationService.listRules()
+
+    return NextResponse.json({
+      success: true,
+      rules
+    })
+  } catch (error) {
+    console.error('Failed to fetch escalation rules:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch escalation rules' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Create a lead escalation rule
+ * POST /api/leads/escalations/rules
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user || !hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = escalationRuleSchema.safeParse(body)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid escalation rule',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const rule = await EscalationService.createRule(validation.data, user.id)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Create escalation rule', {
+      user,
+      resource: 'escalation_rule',
+      resourceId: rule.id,
+      details: { name: rule.name, actions: rule.actions.map(action => action.type) }
+    })
+
+    return NextResponse.json(
+      { success: true, rule },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Failed to create escalation rule:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to create escalation rule' },
+      { status: 500 }
+    )
+  }
+}
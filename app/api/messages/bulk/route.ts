@@ -70,17 +70,19 @@ export async function POST(request: NextRequest) {
         parameters: data.parameters,
         mediaUrl: data.mediaUrl,
         mediaType: data.mediaType,
-        userId: req.user!.id
+        userId: req.user!.id,
+        // Lets a client retry the request without the messages going out twice
+        idempotencyKey: req.headers.get('Idempotency-Key') || undefined
       })
 
       if (result.success) {
         return NextResponse.json({
           success: true,
-          messageId: result.messageId,
           totalProcessed: result.totalProcessed,
+          queuedCount: result.queuedCount,
           successCount: result.successCount,
           failureCount: result.failureCount,
-          message: `Successfully sent ${result.successCount} messages`
+          message: `Queued ${result.queuedCount} messages for sending`
         })
       } else {
         return NextResponse.json({
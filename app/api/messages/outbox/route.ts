@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { MessageOutbox, OutboxSource, OutboxStatus } from '@/lib/messageOutbox'
+import { OutboxWorker } from '@/lib/outboxWorker'
+import { outboxActionSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+const STATUSES: OutboxStatus[] = ['QUEUED', 'PROCESSING', 'SENT', 'DEAD', 'CANCELLED']
+const SOURCES: OutboxSource[] = ['CAMPAIGN', 'MANUAL', 'FOLLOW_UP']
+
+/**
+ * Outbox messages, dead letters by default, with counts per status
+ * GET /api/messages/outbox?status=DEAD&source=CAMPAIGN&campaignId=...&page=1
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = (searchParams.get('status') || 'DEAD') as OutboxStatus
+    const source = searchParams.get('source') as OutboxSource | null
+    const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1)
+    const limit = Math.min(200, Math.max(1, parseInt(searchParams.get('limit') || '50') || 50))
+
+    if (!STATUSES.includes(status) || (source && !SOURCES.includes(source))) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid status or source' },
+        { status: 400 }
+      )
+    }
+
+    const [{ messages, total }, stats] = await Promise.all([
+      MessageOutbox.list({
+        status,
+        source: source || undefined,
+        campaignId: searchParams.get('campaignId') || undefined,
+        page,
+        limit
+      }),
+      MessageOutbox.getStats()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      data: messages,
+      stats,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Failed to load message outbox:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load message outbox' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Requeue dead letters with a fresh set of attempts, or discard them
+ * POST /api/messages/outbox
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'messages:send')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = outboxActionSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid outbox action',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const { action, ids } = validation.data
+    const count = action === 'requeue'
+      ? await MessageOutbox.requeue(ids)
+      : await MessageOutbox.discard(ids)
+
+    if (action === 'requeue' && count > 0) {
+      OutboxWorker.wake()
+    }
+
+    await auditLogger.logEvent(AuditEventType.BULK_OPERATION, `${action === 'requeue' ? 'Requeue' : 'Discard'} dead letter messages`, {
+      user,
+      resource: 'outbox_message',
+      details: { action, requested: ids.length, count }
+    })
+
+    return NextResponse.json({
+      success: true,
+      count,
+      message: `${action === 'requeue' ? 'Requeued' : 'Discarded'} ${count} messages`
+    })
+  } catch (error) {
+    console.error('Failed to update dead letters:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update dead letters' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyAuth } from '@/lib/auth'
-import smsFreshService from '@/lib/smsFreshService'
+import { getMessagingProvider } from '@/lib/messagingProvider'
 import Logger, { DataSource } from '@/lib/logger'
+import { SuppressionService } from '@/lib/suppressionService'
 
 export async function POST(request: NextRequest) {
   const startTime = Date.now()
@@ -43,44 +44,55 @@ export async function POST(request: NextRequest) {
     // Set default values
     messageData.direction = 'OUTBOUND'
     messageData.type = messageData.type || 'WHATSAPP'
+
+    if (await SuppressionService.isSuppressed(messageData.contactPhone, messageData.type)) {
+      return NextResponse.json(
+        { success: false, message: `This contact has opted out of ${messageData.type} messages` },
+        { status: 403 }
+      )
+    }
     messageData.id = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     messageData.createdAt = new Date().toISOString()
     
     Logger.info(DataSource.API, 'send_message', `Sending ${messageData.type} message to ${messageData.contactPhone}`)
     
-    // Send message using SMSFresh service
+    // Send message using the configured messaging provider
+    const provider = getMessagingProvider()
     let sendResult
     
     if (messageData.type === 'WHATSAPP') {
       if (messageData.mediaUrl) {
         // Send media message
-        sendResult = await smsFreshService.sendMediaMessage(
-          messageData.contactPhone,
-          messageData.templateName || 'CUSTOM_MESSAGE',
-          messageData.mediaUrl,
-          messageData.mediaType || 'image',
-          [messageData.content]
-        )
+        sendResult = await provider.sendMedia({
+          phone: [messageData.contactPhone],
+          templateName: messageData.templateName || 'CUSTOM_MESSAGE',
+          mediaUrl: messageData.mediaUrl,
+          mediaType: messageData.mediaType || 'image',
+          parameters: [messageData.content],
+          channel: 'WHATSAPP'
+        })
       } else if (messageData.templateName) {
         // Send template message
-        sendResult = await smsFreshService.sendTemplateMessage(
-          messageData.contactPhone,
-          messageData.templateName,
-          [messageData.content]
-        )
+        sendResult = await provider.sendTemplate({
+          phone: [messageData.contactPhone],
+          templateName: messageData.templateName,
+          parameters: [messageData.content],
+          channel: 'WHATSAPP'
+        })
       } else {
         // Send text message (reply)
-        sendResult = await smsFreshService.sendTextMessage(
-          messageData.contactPhone,
-          messageData.content
-        )
+        sendResult = await provider.sendText({
+          phone: messageData.contactPhone,
+          text: messageData.content,
+          channel: 'WHATSAPP'
+        })
       }
     } else {
-      // For SMS, use text message method
-      sendResult = await smsFreshService.sendTextMessage(
-        messageData.contactPhone,
-        messageData.content
-      )
+      sendResult = await provider.sendText({
+        phone: messageData.contactPhone,
+        text: messageData.content,
+        channel: 'SMS'
+      })
     }
     
     // Update message data with send result
@@ -104,7 +116,7 @@ export async function POST(request: NextRequest) {
       message: messageData,
       sendResult: {
         messageId: sendResult.messageId,
-        status: sendResult.status,
+        status: sendResult.deliveryStatus,
         processingTime,
       },
       message: sendResult.success 
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { TemplateRegistry } from '@/lib/templateRegistry'
+import { TemplateContextService } from '@/lib/templateContextService'
+import { TemplateContext, isRecipientVariable } from '@/lib/templateEngine'
+import { formatMessage, validateTemplateParameters, validateMessageLength } from '@/lib/messageTemplates'
+
+/**
+ * Render any version of a template, including drafts, with the given parameters.
+ * With a contactId, contact and lead fields come from that contact and their latest
+ * lead (or leadId); without one they are shown as [contact.name] placeholders.
+ * POST /api/messages/templates/[id]/preview { parameters, contactId?, leadId? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const template = await TemplateRegistry.getById(params.id)
+    if (!template) {
+      return NextResponse.json(
+        { success: false, message: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const parameters: Record<string, string> = body.parameters || {}
+
+    let recipient: TemplateContext | null = null
+    if (body.contactId) {
+      if (!hasPermission(user, 'contacts:view')) {
+        return NextResponse.json(
+          { success: false, message: 'Access denied' },
+          { status: 403 }
+        )
+      }
+
+      recipient = await TemplateContextService.forContact(body.contactId, body.leadId)
+      if (!recipient) {
+        return NextResponse.json(
+          { success: false, message: 'Contact not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const validation = validateTemplateParameters(template, parameters)
+    const result = recipient
+      ? formatMessage(template, { ...recipient, ...parameters })
+      : formatMessage(template, parameters, null, { placeholders: template.parameters.filter(isRecipientVariable) })
+
+    return NextResponse.json({
+      success: result.success,
+      message: result.error,
+      data: {
+        template,
+        formattedMessage: result.message,
+        recipient,
+        validation,
+        length: result.message ? validateMessageLength(result.message, template.type) : undefined
+      }
+    })
+  } catch (error) {
+    console.error('Failed to preview message template:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to preview message template' },
+      { status: 500 }
+    )
+  }
+}
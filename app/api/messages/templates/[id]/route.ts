@@ -0,0 +1,173 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { TemplateRegistry, TemplateError, TEMPLATE_ERROR_STATUS } from '@/lib/templateRegistry'
+import { messageTemplateSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * A template version with the full version history of its key
+ * GET /api/messages/templates/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const template = await TemplateRegistry.getById(params.id)
+    if (!template) {
+      return NextResponse.json(
+        { success: false, message: 'Template not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: template,
+      versions: await TemplateRegistry.getVersions(template.id, template.language)
+    })
+  } catch (error) {
+    console.error('Failed to load message template:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load message template' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Edit a template. Submitted and approved versions get a new draft version instead.
+ * PUT /api/messages/templates/[id]
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = messageTemplateSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid template',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const template = await TemplateRegistry.update(params.id, validation.data, user.email)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update message template', {
+      user,
+      resource: 'message_template',
+      resourceId: template.recordId,
+      details: { key: template.id, language: template.language, version: template.version }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    })
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: TEMPLATE_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to update message template:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update message template' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Delete a template and all its versions
+ * DELETE /api/messages/templates/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:delete')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const template = await TemplateRegistry.getById(params.id)
+    const deleted = await TemplateRegistry.remove(params.id)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Delete message template', {
+      user,
+      resource: 'message_template',
+      resourceId: params.id,
+      details: { key: template?.id, language: template?.language, versions: deleted }
+    })
+
+    return NextResponse.json({
+      success: true,
+      deleted
+    })
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: TEMPLATE_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to delete message template:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete message template' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { TemplateRegistry, TemplateError, TEMPLATE_ERROR_STATUS } from '@/lib/templateRegistry'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+const ACTIONS = ['submit', 'approve', 'reject'] as const
+
+/**
+ * Move a template through the approval workflow. Anyone who can edit campaigns may
+ * submit a draft for review; approving and rejecting need settings:manage.
+ * POST /api/messages/templates/[id]/status { action: submit | approve | reject, reason? }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { action, reason } = await request.json()
+    const validAction = ACTIONS.find(value => value === action)
+
+    if (!validAction) {
+      return NextResponse.json(
+        { success: false, message: 'action must be submit, approve or reject' },
+        { status: 400 }
+      )
+    }
+
+    const permission = validAction === 'submit' ? 'campaigns:edit' : 'settings:manage'
+    if (!hasPermission(user, permission)) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const template = await TemplateRegistry.changeStatus(params.id, validAction, user.email, reason)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, `Message template ${validAction}`, {
+      user,
+      resource: 'message_template',
+      resourceId: params.id,
+      details: { key: template.id, version: template.version, action: validAction, reason }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    })
+  } catch (error) {
+    if (error instanceof TemplateError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: TEMPLATE_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to change message template status:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to change message template status' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,146 +1,117 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { authMiddleware } from '@/lib/middleware/auth';
-import { 
-  MESSAGE_TEMPLATES, 
-  getTemplate, 
-  getTemplatesByCategory, 
-  getTemplatesByType,
-  formatMessage,
-  validateTemplateParameters 
-} from '@/lib/messageTemplates';
-import { logger } from '@/lib/logger';
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { TemplateRegistry, TemplateError, TEMPLATE_ERROR_STATUS } from '@/lib/templateRegistry'
+import { messageTemplateSchema, TEMPLATE_CATEGORIES, TEMPLATE_STATUSES } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
 
 /**
- * Get message templates
- * GET /api/messages/templates
+ * Newest version of each template in the registry
+ * GET /api/messages/templates?type=&category=&status=&language=&search=
  */
 export async function GET(request: NextRequest) {
   try {
-    // Authenticate user
-    const authResult = await authMiddleware(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
     }
 
-    const { searchParams } = new URL(request.url);
-    const category = searchParams.get('category') as any;
-    const type = searchParams.get('type') as 'SMS' | 'WHATSAPP';
-    const templateId = searchParams.get('id');
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
 
-    let templates;
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const category = searchParams.get('category')
+    const status = searchParams.get('status')
 
-    if (templateId) {
-      // Get specific template
-      const template = getTemplate(templateId);
-      if (!template) {
-        return NextResponse.json(
-          { error: 'Template not found' },
-          { status: 404 }
-        );
-      }
-      templates = [template];
-    } else if (category) {
-      // Filter by category
-      templates = getTemplatesByCategory(category);
-    } else if (type) {
-      // Filter by type
-      templates = getTemplatesByType(type);
-    } else {
-      // Get all templates
-      templates = MESSAGE_TEMPLATES;
-    }
+    const templates = await TemplateRegistry.list({
+      type: type === 'SMS' || type === 'WHATSAPP' ? type : undefined,
+      category: TEMPLATE_CATEGORIES.find(value => value === category),
+      status: TEMPLATE_STATUSES.find(value => value === status),
+      language: searchParams.get('language') || undefined,
+      search: searchParams.get('search') || undefined
+    })
 
     return NextResponse.json({
       success: true,
       data: templates,
-      total: templates.length,
-    });
+      total: templates.length
+    })
   } catch (error) {
-    logger.error('Templates API error', error);
+    console.error('Failed to load message templates:', error)
     return NextResponse.json(
-      { error: 'Internal server error' },
+      { success: false, message: 'Failed to load message templates' },
       { status: 500 }
-    );
+    )
   }
 }
 
 /**
- * Format message template with parameters
+ * Create a template as a draft
  * POST /api/messages/templates
  */
 export async function POST(request: NextRequest) {
   try {
-    // Authenticate user
-    const authResult = await authMiddleware(request);
-    if (!authResult.success || !authResult.user) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
-    const body = await request.json();
-    const { templateId, parameters, action = 'format' } = body;
+    const user = await verifyAuth(request)
 
-    if (!templateId) {
+    if (!user) {
       return NextResponse.json(
-        { error: 'Template ID is required' },
-        { status: 400 }
-      );
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
     }
 
-    const template = getTemplate(templateId);
-    if (!template) {
+    if (!hasPermission(user, 'campaigns:create')) {
       return NextResponse.json(
-        { error: 'Template not found' },
-        { status: 404 }
-      );
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
     }
 
-    if (action === 'validate') {
-      // Validate parameters only
-      const validation = validateTemplateParameters(templateId, parameters || {});
-      return NextResponse.json({
-        success: true,
-        data: {
-          template,
-          validation,
+    const validation = messageTemplateSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid template',
+          errors: validation.error.issues.map(issue => issue.message)
         },
-      });
-    } else if (action === 'format') {
-      // Format message with parameters
-      if (!parameters) {
-        return NextResponse.json(
-          { error: 'Parameters are required for formatting' },
-          { status: 400 }
-        );
-      }
+        { status: 400 }
+      )
+    }
 
-      const result = formatMessage(templateId, parameters);
-      
-      if (!result.success) {
-        return NextResponse.json(
-          { error: result.error },
-          { status: 400 }
-        );
-      }
+    const template = await TemplateRegistry.create(validation.data, user.email)
 
-      return NextResponse.json({
-        success: true,
-        data: {
-          template,
-          formattedMessage: result.message,
-          parameters,
-        },
-      });
-    } else {
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Create message template', {
+      user,
+      resource: 'message_template',
+      resourceId: template.recordId,
+      details: { key: template.id, language: template.language }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: template
+    })
+  } catch (error) {
+    if (error instanceof TemplateError) {
       return NextResponse.json(
-        { error: 'Invalid action. Use "validate" or "format"' },
-        { status: 400 }
-      );
+        { success: false, message: error.message },
+        { status: TEMPLATE_ERROR_STATUS[error.code] }
+      )
     }
-  } catch (error) {
-    logger.error('Template formatting API error', error);
+
+    console.error('Failed to create message template:', error)
     return NextResponse.json(
-      { error: 'Internal server error' },
+      { success: false, message: 'Failed to create message template' },
       { status: 500 }
-    );
+    )
   }
-}
\ No newline at end of file
+}
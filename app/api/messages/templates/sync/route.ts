@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { TemplateRegistry } from '@/lib/templateRegistry'
+import { getMessagingProvider } from '@/lib/messagingProvider'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Reconcile template statuses with a provider's template list now instead of waiting for the hourly job
+ * POST /api/messages/templates/sync { provider? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'settings:manage')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    let provider
+    try {
+      provider = getMessagingProvider(body.provider)
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, message: error instanceof Error ? error.message : 'Unknown messaging provider' },
+        { status: 400 }
+      )
+    }
+
+    const result = await TemplateRegistry.syncWithProvider(provider)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Sync message templates with provider', {
+      user,
+      resource: 'message_template',
+      details: { provider: provider.name, ...result }
+    })
+
+    return NextResponse.json({
+      success: true,
+      provider: provider.name,
+      ...result
+    })
+  } catch (error) {
+    console.error('Failed to sync message templates:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to sync message templates' },
+      { status: 500 }
+    )
+  }
+}
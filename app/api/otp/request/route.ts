@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { phoneNumberSchema } from '@/lib/security/validation'
+import { strictRateLimiter } from '@/lib/security/rateLimiter'
+import { OtpService, OTP_PURPOSES } from '@/lib/otpService'
+
+const otpRequestSchema = z.object({
+  phone: phoneNumberSchema,
+  purpose: z.enum(OTP_PURPOSES).optional()
+})
+
+/**
+ * Send a one-time verification code to a phone number
+ * POST /api/otp/request
+ */
+export async function POST(request: NextRequest) {
+  return strictRateLimiter(request, async (req) => {
+    try {
+      const body = await req.json()
+
+      const validation = otpRequestSchema.safeParse(body)
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, message: validation.error.issues[0]?.message || 'Invalid request' },
+          { status: 400 }
+        )
+      }
+
+      const { phone, purpose } = validation.data
+      const result = await OtpService.requestOtp(phone, purpose)
+
+      if (!result.success) {
+        const headers: Record<string, string> = {}
+        if (result.retryAfterSeconds) {
+          headers['Retry-After'] = result.retryAfterSeconds.toString()
+        }
+
+        return NextResponse.json(
+          { success: false, message: result.reason, retryAfter: result.retryAfterSeconds },
+          { status: result.rateLimited ? 429 : 500, headers }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        expiresAt: result.expiresAt,
+        message: 'Verification code sent'
+      })
+    } catch (error) {
+      console.error('Failed to request OTP:', error)
+      return NextResponse.json(
+        { success: false, message: 'Failed to send verification code' },
+        { status: 500 }
+      )
+    }
+  })
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { phoneNumberSchema } from '@/lib/security/validation'
+import { OTP_CONFIG } from '@/lib/security/config'
+import { strictRateLimiter } from '@/lib/security/rateLimiter'
+import { OtpService, OTP_PURPOSES } from '@/lib/otpService'
+
+const otpVerifySchema = z.object({
+  phone: phoneNumberSchema,
+  code: z.string().regex(new RegExp(`^\\d{${OTP_CONFIG.length}}$`), `Code must be ${OTP_CONFIG.length} digits`),
+  purpose: z.enum(OTP_PURPOSES).optional()
+})
+
+/**
+ * Verify a one-time code and mark the phone number as verified
+ * POST /api/otp/verify
+ */
+export async function POST(request: NextRequest) {
+  return strictRateLimiter(request, async (req) => {
+    try {
+      const body = await req.json()
+
+      const validation = otpVerifySchema.safeParse(body)
+      if (!validation.success) {
+        return NextResponse.json(
+          { success: false, message: validation.error.issues[0]?.message || 'Invalid request' },
+          { status: 400 }
+        )
+      }
+
+      const { phone, code, purpose } = validation.data
+      const result = await OtpService.verifyOtp(phone, code, purpose)
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, message: result.reason, attemptsRemaining: result.attemptsRemaining },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Phone number verified'
+      })
+    } catch (error) {
+      console.error('Failed to verify OTP:', error)
+      return NextResponse.json(
+        { success: false, message: 'Failed to verify code' },
+        { status: 500 }
+      )
+    }
+  })
+}
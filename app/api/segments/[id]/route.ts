@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { SegmentService, SegmentError, SEGMENT_ERROR_STATUS } from '@/lib/segmentService'
+import { segmentSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * A saved segment
+ * GET /api/segments/[id]
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const segment = await SegmentService.get(params.id)
+    if (!segment) {
+      return NextResponse.json(
+        { success: false, message: 'Segment not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: segment
+    })
+  } catch (error) {
+    console.error('Failed to load segment:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load segment' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Change a segment's name or rules. Campaigns that have not started yet pick up the change.
+ * PUT /api/segments/[id]
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = segmentSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid segment',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const segment = await SegmentService.update(params.id, validation.data)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Update segment', {
+      user,
+      resource: 'segment',
+      resourceId: segment.id,
+      details: { name: segment.name, rules: segment.rules }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: segment
+    })
+  } catch (error) {
+    if (error instanceof SegmentError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: SEGMENT_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to update segment:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to update segment' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Delete a segment no active campaign uses
+ * DELETE /api/segments/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:delete')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    await SegmentService.delete(params.id)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Delete segment', {
+      user,
+      resource: 'segment',
+      resourceId: params.id,
+      details: {}
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Segment deleted'
+    })
+  } catch (error) {
+    if (error instanceof SegmentError) {
+      return NextResponse.json(
+        { success: false, message: error.message },
+        { status: SEGMENT_ERROR_STATUS[error.code] }
+      )
+    }
+
+    console.error('Failed to delete segment:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete segment' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { SegmentService } from '@/lib/segmentService'
+import { segmentPreviewSchema } from '@/lib/security/validation'
+
+/**
+ * How many contacts a saved segment, or rules still being edited, match right now,
+ * with a sample of them
+ * POST /api/segments/preview
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = segmentPreviewSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid segment',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    let rules = validation.data.rules
+    if (!rules) {
+      const segment = await SegmentService.get(validation.data.segmentId!)
+      if (!segment) {
+        return NextResponse.json(
+          { success: false, message: 'Segment not found' },
+          { status: 404 }
+        )
+      }
+      rules = segment.rules
+    }
+
+    const preview = await SegmentService.preview(rules, validation.data.sampleSize)
+
+    return NextResponse.json({
+      success: true,
+      ...preview
+    })
+  } catch (error) {
+    console.error('Failed to preview segment:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to preview segment' },
+      { status: 500 }
+    )
+  }
+}
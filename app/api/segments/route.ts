@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { SegmentService } from '@/lib/segmentService'
+import { segmentSchema } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Saved audience segments, including the built-in ones
+ * GET /api/segments
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const segments = await SegmentService.list()
+
+    return NextResponse.json({
+      success: true,
+      data: segments,
+      total: segments.length
+    })
+  } catch (error) {
+    console.error('Failed to load segments:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load segments' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Save a segment
+ * POST /api/segments
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'campaigns:create')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = segmentSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid segment',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const segment = await SegmentService.create(validation.data, user.id)
+
+    await auditLogger.logEvent(AuditEventType.CONFIG_CHANGE, 'Create segment', {
+      user,
+      resource: 'segment',
+      resourceId: segment.id,
+      details: { name: segment.name }
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: segment
+    })
+  } catch (error) {
+    console.error('Failed to create segment:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to create segment' },
+      { status: 500 }
+    )
+  }
+}
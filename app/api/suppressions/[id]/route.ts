@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { SuppressionService } from '@/lib/suppressionService'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * Remove a number from the suppression list
+ * DELETE /api/suppressions/[id]?note=
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'contacts:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const note = request.nextUrl.searchParams.get('note')?.slice(0, 500) || undefined
+    const removed = await SuppressionService.remove(params.id, user.email, note)
+    if (!removed) {
+      return NextResponse.json(
+        { success: false, message: 'Suppression not found' },
+        { status: 404 }
+      )
+    }
+
+    await auditLogger.logEvent(AuditEventType.CONTACT_UPDATE, 'Remove number from suppression list', {
+      user,
+      resource: 'suppression',
+      resourceId: params.id,
+      details: {
+        phone: removed.phone,
+        channel: removed.channel,
+        note
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Number removed from suppression list'
+    })
+  } catch (error) {
+    console.error('Failed to remove suppression:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to remove suppression' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyAuth, hasPermission } from '@/lib/auth'
+import { SuppressionService, SuppressionChannel } from '@/lib/suppressionService'
+import { suppressionSchema, SUPPRESSION_CHANNELS } from '@/lib/security/validation'
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger'
+
+/**
+ * List the suppression list and its recent history
+ * GET /api/suppressions?search=&channel=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'contacts:view')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = request.nextUrl
+    const channel = searchParams.get('channel')
+
+    const [suppressions, history] = await Promise.all([
+      SuppressionService.list({
+        search: searchParams.get('search') || undefined,
+        channel: SUPPRESSION_CHANNELS.includes(channel as SuppressionChannel)
+          ? channel as SuppressionChannel
+          : undefined
+      }),
+      SuppressionService.getHistory()
+    ])
+
+    return NextResponse.json({
+      success: true,
+      suppressions,
+      history
+    })
+  } catch (error) {
+    console.error('Failed to load suppression list:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to load suppression list' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Add a number to the suppression list
+ * POST /api/suppressions
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await verifyAuth(request)
+
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (!hasPermission(user, 'contacts:edit')) {
+      return NextResponse.json(
+        { success: false, message: 'Access denied' },
+        { status: 403 }
+      )
+    }
+
+    const validation = suppressionSchema.safeParse(await request.json())
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Invalid suppression entry',
+          errors: validation.error.issues.map(issue => issue.message)
+        },
+        { status: 400 }
+      )
+    }
+
+    const suppression = await SuppressionService.add(
+      { ...validation.data, source: 'ADMIN' },
+      user.email
+    )
+
+    await auditLogger.logEvent(AuditEventType.CONTACT_UPDATE, 'Add number to suppression list', {
+      user,
+      resource: 'suppression',
+      resourceId: suppression.id,
+      details: {
+        phone: suppression.phone,
+        channel: suppression.channel,
+        reason: suppression.reason
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      suppression
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Failed to add suppression:', error)
+    return NextResponse.json(
+      { success: false, message: 'Failed to add suppression' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMessagingProvider } from '@/lib/messagingProvider'
+import { MockMessagingProvider } from '@/lib/mockMessagingProvider'
+import { withoutSendThrottle } from '@/lib/sendThrottle'
+import Logger, { DataSource } from '@/lib/logger'
+
+/**
+ * The mock provider is only reachable when it is the active provider outside production
+ */
+function getMockProvider(): MockMessagingProvider | null {
+  if (process.env.NODE_ENV === 'production') return null
+  // The active provider comes back wrapped in the send throttle
+  const provider = withoutSendThrottle(getMessagingProvider())
+  return provider instanceof MockMessagingProvider ? provider : null
+}
+
+/**
+ * Messages captured by the mock provider, newest first
+ * GET /api/test/mock-messaging?phone=
+ */
+export async function GET(request: NextRequest) {
+  const provider = getMockProvider()
+  if (!provider) {
+    return NextResponse.json(
+      { success: false, message: 'Mock messaging provider is not active' },
+      { status: 404 }
+    )
+  }
+
+  const phone = new URL(request.url).searchParams.get('phone') || undefined
+
+  return NextResponse.json({
+    success: true,
+    status: provider.getStatus(),
+    messages: await provider.getMessages(phone)
+  })
+}
+
+/**
+ * Simulate a customer message. With a messageId it is a reply to that message,
+ * otherwise a new inbound conversation.
+ * POST /api/test/mock-messaging { phone?, messageId?, content, type? }
+ */
+export async function POST(request: NextRequest) {
+  const provider = getMockProvider()
+  if (!provider) {
+    return NextResponse.json(
+      { success: false, message: 'Mock messaging provider is not active' },
+      { status: 404 }
+    )
+  }
+
+  try {
+    const { phone, messageId, content, type } = await request.json()
+
+    if (!content || (!phone && !messageId)) {
+      return NextResponse.json(
+        { success: false, message: 'content and either phone or messageId are required' },
+        { status: 400 }
+      )
+    }
+
+    if (messageId) {
+      const found = await provider.simulateReply(messageId, content)
+      if (!found) {
+        return NextResponse.json(
+          { success: false, message: 'Message not found in mock provider' },
+          { status: 404 }
+        )
+      }
+    } else {
+      await provider.simulateInbound(phone, content, type === 'SMS' ? 'SMS' : 'WHATSAPP')
+    }
+
+    Logger.info(DataSource.API, 'mock_messaging', `Simulated inbound message from ${phone || messageId}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    Logger.error(DataSource.API, 'mock_messaging', 'Failed to simulate inbound message', error)
+
+    return NextResponse.json(
+      { success: false, message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Clear the mock provider's message file
+ * DELETE /api/test/mock-messaging
+ */
+export async function DELETE() {
+  const provider = getMockProvider()
+  if (!provider) {
+    return NextResponse.json(
+      { success: false, message: 'Mock messaging provider is not active' },
+      { status: 404 }
+    )
+  }
+
+  await provider.reset()
+  return NextResponse.json({ success: true })
+}
@@ -1,29 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
-import smsFreshService from '@/lib/smsFreshService'
+import { getMessagingProvider } from '@/lib/messagingProvider'
 import Logger, { DataSource } from '@/lib/logger'
 
 export async function GET(request: NextRequest) {
   try {
     Logger.info(DataSource.API, 'test_whatsapp', 'Testing WhatsApp API configuration')
 
-    // Test the SMSFresh service connection
-    const connectionTest = await smsFreshService.testConnection()
+    const provider = getMessagingProvider()
+
+    // Test the provider connection
+    const connectionTest = await provider.testConnection()
     
     // Get service status
-    const status = smsFreshService.getStatus()
+    const status = provider.getStatus()
     
     // Get available templates
-    const templates = await smsFreshService.getTemplates()
+    const templates = await provider.listTemplates()
 
     const response = {
       status: connectionTest.success ? 'ready' : 'error',
       message: connectionTest.message,
-      configuration: {
-        configured: status.configured,
-        baseUrl: status.baseUrl,
-        user: status.user,
-        sender: status.sender
-      },
+      provider: provider.name,
+      configuration: status,
       templates: {
         count: templates.length,
         available: templates.map(t => ({
@@ -68,11 +66,12 @@ export async function POST(request: NextRequest) {
 
     Logger.info(DataSource.API, 'test_whatsapp', `Sending test WhatsApp message to ${phone}`)
 
+    const provider = getMessagingProvider()
     let result
     if (templateName) {
-      result = await smsFreshService.sendTemplateMessage(phone, templateName, params)
+      result = await provider.sendTemplate({ phone: [phone], templateName, parameters: params })
     } else {
-      result = await smsFreshService.sendTextMessage(phone, message)
+      result = await provider.sendText({ phone, text: message })
     }
 
     if (result.success) {
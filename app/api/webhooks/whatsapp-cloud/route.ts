@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getWhatsAppCloudProvider, verifyWhatsAppCloudSignature } from '@/lib/whatsappCloudProvider';
+import type { ProviderCallback } from '@/lib/messagingProvider';
+import Logger, { DataSource } from '@/lib/logger';
+import { auditLogger, AuditEventType } from '@/lib/security/auditLogger';
+import { processWebhookPayload } from '@/lib/messageWebhookProcessor';
+
+/**
+ * WhatsApp Cloud API webhook handler
+ * Meta signs every delivery with X-Hub-Signature-256 using the app secret and may batch
+ * several statuses and messages into one request.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+  const clientIP = request.ip || request.headers.get('x-forwarded-for') || 'unknown';
+
+  try {
+    const body = await request.text();
+    const signature = request.headers.get('x-hub-signature-256') || '';
+    const appSecret = process.env.WHATSAPP_CLOUD_APP_SECRET || '';
+
+    if (!appSecret) {
+      Logger.error(DataSource.API, 'whatsapp_cloud_webhook', 'WhatsApp Cloud app secret not configured');
+      return NextResponse.json({ error: 'Webhook not configured' }, { status: 500 });
+    }
+
+    if (!verifyWhatsAppCloudSignature(body, signature, appSecret)) {
+      await auditLogger.logEvent(
+        AuditEventType.WEBHOOK_RECEIVED,
+        'WhatsApp Cloud webhook invalid signature',
+        {
+          ipAddress: clientIP,
+          success: false,
+          details: {
+            signature: signature.substring(0, 16) + '...',
+            bodyLength: body.length
+          }
+        }
+      );
+
+      Logger.warn(DataSource.API, 'whatsapp_cloud_webhook', `Invalid WhatsApp Cloud webhook signature from ${clientIP}`);
+
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let callbacks: ProviderCallback[];
+    try {
+      callbacks = getWhatsAppCloudProvider().parseStatusCallback(JSON.parse(body));
+    } catch (parseError) {
+      await auditLogger.logEvent(
+        AuditEventType.WEBHOOK_RECEIVED,
+        'WhatsApp Cloud webhook invalid payload',
+        {
+          ipAddress: clientIP,
+          success: false,
+          errorMessage: parseError instanceof Error ? parseError.message : 'Unknown parse error',
+          details: { bodyPreview: body.substring(0, 200) }
+        }
+      );
+
+      return NextResponse.json({ error: 'Invalid payload format' }, { status: 400 });
+    }
+
+    // Process in order so a status and a reply for the same message do not race
+    const results = [];
+    for (const callback of callbacks) {
+      results.push(await processWebhookPayload(callback, clientIP));
+    }
+
+    await auditLogger.logEvent(
+      AuditEventType.WEBHOOK_RECEIVED,
+      'WhatsApp Cloud webhook processed successfully',
+      {
+        ipAddress: clientIP,
+        details: {
+          events: callbacks.map(callback => ({
+            messageId: callback.messageId,
+            status: callback.status
+          })),
+          processingTime: Date.now() - startTime,
+          results
+        }
+      }
+    );
+
+    Logger.info(DataSource.API, 'whatsapp_cloud_webhook', `Processed ${callbacks.length} WhatsApp Cloud webhook events`, {
+      processingTime: Date.now() - startTime
+    });
+
+    // Meta retries anything other than a 200, so acknowledge even when there was nothing to process
+    return NextResponse.json({
+      success: true,
+      message: 'Webhook processed successfully',
+      processed: callbacks.length,
+      processingTime: Date.now() - startTime
+    });
+
+  } catch (error) {
+    const processingTime = Date.now() - startTime;
+
+    await auditLogger.logEvent(
+      AuditEventType.WEBHOOK_RECEIVED,
+      'WhatsApp Cloud webhook processing failed',
+      {
+        ipAddress: clientIP,
+        success: false,
+        errorMessage: error instanceof Error ? error.message : 'Unknown error',
+        details: { processingTime }
+      }
+    );
+
+    Logger.error(DataSource.API, 'whatsapp_cloud_webhook', 'WhatsApp Cloud webhook processing failed', error);
+
+    return NextResponse.json(
+      {
+        error: 'Webhook processing failed',
+        processingTime
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Subscription handshake: Meta sends hub.mode=subscribe with our verify token
+ * and expects hub.challenge echoed back as plain text
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const mode = searchParams.get('hub.mode');
+  const token = searchParams.get('hub.verify_token');
+  const challenge = searchParams.get('hub.challenge');
+  const verifyToken = process.env.WHATSAPP_CLOUD_VERIFY_TOKEN || '';
+
+  if (mode === 'subscribe' && challenge) {
+    if (!verifyToken || token !== verifyToken) {
+      Logger.warn(DataSource.API, 'whatsapp_cloud_webhook', 'WhatsApp Cloud webhook verification failed: verify token mismatch');
+      return NextResponse.json({ error: 'Verification failed' }, { status: 403 });
+    }
+
+    return new NextResponse(challenge, {
+      status: 200,
+      headers: { 'Content-Type': 'text/plain' }
+    });
+  }
+
+  return NextResponse.json({ message: 'WhatsApp Cloud webhook endpoint' });
+}
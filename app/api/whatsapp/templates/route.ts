@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyAuth } from '@/lib/auth'
-import smsFreshService from '@/lib/smsFreshService'
+import { getMessagingProvider } from '@/lib/messagingProvider'
 import Logger, { DataSource } from '@/lib/logger'
 
 export async function GET(request: NextRequest) {
@@ -16,8 +16,8 @@ export async function GET(request: NextRequest) {
 
     Logger.info(DataSource.API, 'whatsapp_templates', 'Fetching WhatsApp templates')
 
-    // Get templates from SMSFresh service
-    const templates = await smsFreshService.getTemplates()
+    // Get templates from the configured messaging provider
+    const templates = await getMessagingProvider().listTemplates()
 
     Logger.success(DataSource.API, 'whatsapp_templates', `Retrieved ${templates.length} WhatsApp templates`)
 
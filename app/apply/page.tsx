@@ -21,6 +21,7 @@ import {
 import Navbar from '../components/Navbar'
 import Footer from '../components/Footer'
 import AnimatedSection from '../components/AnimatedSection'
+import { MARKETING_CONSENT_TEXT } from '../../lib/security/validation'
 
 const loanTypes = [
   { id: 'personal', name: 'Personal Loan', icon: CreditCard },
@@ -31,6 +32,13 @@ const loanTypes = [
   { id: 'education', name: 'Education Loan', icon: FileText }
 ]
 
+const documentTypes = [
+  { id: 'PAN', name: 'PAN Card' },
+  { id: 'AADHAAR', name: 'Aadhaar Card' },
+  { id: 'SALARY_SLIP', name: 'Salary Slips (Last 3 months)' },
+  { id: 'BANK_STATEMENT', name: 'Bank Statements (Last 6 months)' }
+]
+
 const steps = [
   { id: 1, title: 'Personal Details', icon: User },
   { id: 2, title: 'Loan Information', icon: CreditCard },
@@ -43,6 +51,8 @@ export default function ApplyPage() {
   const searchParams = useSearchParams()
   const [currentStep, setCurrentStep] = useState(1)
   const [validationErrors, setValidationErrors] = useState<string[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [submittedApplicationId, setSubmittedApplicationId] = useState<string | null>(null)
   const [formData, setFormData] = useState({
     // Personal Details
     firstName: '',
@@ -71,9 +81,12 @@ export default function ApplyPage() {
     designation: '',
     workExperience: '',
     monthlyIncome: '',
+
+    // Consent
+    marketingConsent: false,
     
     // Documents
-    documents: {}
+    documents: {} as Record<string, File>
   })
 
   const updateFormData = (field: string, value: any) => {
@@ -108,7 +121,10 @@ export default function ApplyPage() {
         if (!formData.workExperience) errors.push('Work Experience is required')
         break
       case 4:
-        // Document upload is optional for now
+        // Documents are optional here; officers can request missing ones later
+        for (const file of Object.values(formData.documents)) {
+          if (file.size > 5 * 1024 * 1024) errors.push(`${file.name} exceeds the 5MB limit`)
+        }
         break
     }
     
@@ -127,10 +143,60 @@ export default function ApplyPage() {
     if (currentStep > 1) setCurrentStep(currentStep - 1)
   }
 
+  const uploadDocuments = async (applicationId: string, documents: Record<string, File>) => {
+    const failed: string[] = []
+
+    for (const [documentType, file] of Object.entries(documents)) {
+      const body = new FormData()
+      body.append('documentType', documentType)
+      body.append('file', file)
+
+      try {
+        const response = await fetch(`/api/applications/${applicationId}/documents`, {
+          method: 'POST',
+          body
+        })
+        if (!response.ok) failed.push(file.name)
+      } catch (error) {
+        failed.push(file.name)
+      }
+    }
+
+    return failed
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    // Handle form submission
-    console.log('Form submitted:', formData)
+    if (isSubmitting) return
+
+    setIsSubmitting(true)
+    setValidationErrors([])
+
+    try {
+      const { documents, ...application } = formData
+      const response = await fetch('/api/applications', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(application)
+      })
+      const result = await response.json()
+
+      if (!response.ok || !result.success) {
+        setValidationErrors(result.errors || [result.message || 'Failed to submit application'])
+        return
+      }
+
+      const failedUploads = await uploadDocuments(result.applicationId, documents)
+      if (failedUploads.length > 0) {
+        setValidationErrors(failedUploads.map(name => `${name} could not be uploaded. Our team will request it from you.`))
+      }
+
+      setSubmittedApplicationId(result.applicationId)
+    } catch (error) {
+      setValidationErrors(['Unable to submit your application right now. Please try again.'])
+    } finally {
+      setIsSubmitting(false)
+    }
   }
 
   return (
@@ -185,6 +251,26 @@ export default function ApplyPage() {
             exit={{ opacity: 0, x: -20 }}
             className="bg-white rounded-3xl shadow-xl p-8"
           >
+            {submittedApplicationId ? (
+              <div className="text-center py-8">
+                <CheckCircle className="w-16 h-16 text-green-500 mx-auto mb-4" />
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Application Submitted</h2>
+                <p className="text-gray-600 mb-4">
+                  Thank you, {formData.firstName}. Our team will review your application and contact you shortly.
+                </p>
+                <p className="text-sm text-gray-500">
+                  Your application ID is <span className="font-semibold text-gray-900">{submittedApplicationId}</span>.
+                  We have also sent it to {formData.phone} on WhatsApp.
+                </p>
+                {validationErrors.length > 0 && (
+                  <ul className="mt-6 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-xl p-4 text-left space-y-1">
+                    {validationErrors.map((error, index) => (
+                      <li key={index}>{error}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ) : (
             <form onSubmit={handleSubmit}>
               {/* Step 1: Personal Details */}
               {currentStep === 1 && (
@@ -459,26 +545,35 @@ export default function ApplyPage() {
                 <div>
                   <h2 className="text-2xl font-bold text-gray-900 mb-6">Upload Documents</h2>
                   <div className="space-y-6">
-                    {[
-                      'Identity Proof (Aadhar/PAN/Passport)',
-                      'Address Proof (Utility Bill/Bank Statement)',
-                      'Income Proof (Salary Slips/ITR)',
-                      'Bank Statements (Last 6 months)'
-                    ].map((doc, index) => (
-                      <div key={index} className="border-2 border-dashed border-gray-300 rounded-xl p-6 hover:border-primary-400 transition-colors">
-                        <div className="text-center">
-                          <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
-                          <p className="text-sm font-medium text-gray-700 mb-1">{doc}</p>
-                          <p className="text-xs text-gray-500">PDF, JPG, PNG (Max 5MB)</p>
-                          <button
-                            type="button"
-                            className="mt-2 btn-outline text-sm"
-                          >
-                            Choose File
-                          </button>
+                    {documentTypes.map((doc) => {
+                      const selectedFile = formData.documents[doc.id]
+                      return (
+                        <div key={doc.id} className="border-2 border-dashed border-gray-300 rounded-xl p-6 hover:border-primary-400 transition-colors">
+                          <div className="text-center">
+                            <Upload className="w-8 h-8 text-gray-400 mx-auto mb-2" />
+                            <p className="text-sm font-medium text-gray-700 mb-1">{doc.name}</p>
+                            <p className="text-xs text-gray-500">PDF, JPG, PNG (Max 5MB)</p>
+                            {selectedFile && (
+                              <p className="text-xs text-green-600 mt-1">{selectedFile.name}</p>
+                            )}
+                            <label className="mt-2 btn-outline text-sm inline-block cursor-pointer">
+                              {selectedFile ? 'Change File' : 'Choose File'}
+                              <input
+                                type="file"
+                                accept=".pdf,.jpg,.jpeg,.png"
+                                className="hidden"
+                                onChange={(e) => {
+                                  const file = e.target.files?.[0]
+                                  if (file) {
+                                    updateFormData('documents', { ...formData.documents, [doc.id]: file })
+                                  }
+                                }}
+                              />
+                            </label>
+                          </div>
                         </div>
-                      </div>
-                    ))}
+                      )
+                    })}
                   </div>
                 </div>
               )}
@@ -512,6 +607,18 @@ export default function ApplyPage() {
                       </div>
                     </div>
                   </div>
+
+                  <label className="flex items-start bg-white border border-gray-200 rounded-xl p-4 mb-6 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={formData.marketingConsent}
+                      onChange={(e) => updateFormData('marketingConsent', e.target.checked)}
+                      className="mt-1 mr-3 h-4 w-4 text-primary-600 border-gray-300 rounded"
+                    />
+                    <span className="text-sm text-gray-700">
+                      {MARKETING_CONSENT_TEXT} <span className="text-gray-500">(Optional)</span>
+                    </span>
+                  </label>
                 </div>
               )}
 
@@ -552,13 +659,15 @@ export default function ApplyPage() {
                 ) : (
                   <button
                     type="submit"
-                    className="btn-primary"
+                    disabled={isSubmitting}
+                    className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    Submit Application <CheckCircle className="w-4 h-4 ml-2" />
+                    {isSubmitting ? 'Submitting...' : 'Submit Application'} <CheckCircle className="w-4 h-4 ml-2" />
                   </button>
                 )}
               </div>
             </form>
+            )}
           </motion.div>
         </div>
       </section>
@@ -0,0 +1,196 @@
+import { PrismaClient } from '@prisma/client'
+import { AssignmentRuleInput, ASSIGNMENT_STRATEGIES } from './security/validation'
+
+const prisma = new PrismaClient()
+
+export type AssignmentStrategy = typeof ASSIGNMENT_STRATEGIES[number]
+
+export interface AssignmentRuleConditions {
+  loanType?: string[]
+  loanAmountMin?: number
+  loanAmountMax?: number
+  leadSource?: string[]
+  leadPriority?: string[]
+  timeOfDay?: { start: string; end: string }
+  dayOfWeek?: string[]
+}
+
+export interface AssignmentRule {
+  id: string
+  name: string
+  priority: number
+  conditions: AssignmentRuleConditions
+  assignmentStrategy: AssignmentStrategy
+  targetUsers?: string[]
+  isActive: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface EmployeeSkillSummary {
+  id: string
+  name: string
+  email: string
+  skills: string[]
+}
+
+type AssignmentRuleRecord = {
+  id: string
+  name: string
+  priority: number
+  conditions: string
+  assignmentStrategy: string
+  targetUsers: string | null
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export class AssignmentRuleService {
+  /**
+   * List all rules in evaluation order
+   */
+  static async listRules(): Promise<AssignmentRule[]> {
+    const rules = await prisma.assignmentRule.findMany({
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    })
+    return rules.map(rule => this.toAssignmentRule(rule))
+  }
+
+  /**
+   * Active rules in evaluation order, as used by LeadAssignmentService
+   */
+  static async getActiveRules(): Promise<AssignmentRule[]> {
+    const rules = await prisma.assignmentRule.findMany({
+      where: { isActive: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    })
+    return rules.map(rule => this.toAssignmentRule(rule))
+  }
+
+  static async getRule(id: string): Promise<AssignmentRule | null> {
+    const rule = await prisma.assignmentRule.findUnique({ where: { id } })
+    return rule ? this.toAssignmentRule(rule) : null
+  }
+
+  static async createRule(input: AssignmentRuleInput, createdById?: string): Promise<AssignmentRule> {
+    const rule = await prisma.assignmentRule.create({
+      data: {
+        name: input.name,
+        priority: input.priority,
+        conditions: JSON.stringify(input.conditions),
+        assignmentStrategy: input.assignmentStrategy,
+        targetUsers: JSON.stringify(input.targetUsers || []),
+        isActive: input.isActive ?? true,
+        createdById
+      }
+    })
+    return this.toAssignmentRule(rule)
+  }
+
+  static async updateRule(id: string, input: Partial<AssignmentRuleInput>): Promise<AssignmentRule | null> {
+    const existing = await prisma.assignmentRule.findUnique({ where: { id } })
+    if (!existing) return null
+
+    const rule = await prisma.assignmentRule.update({
+      where: { id },
+      data: {
+        name: input.name,
+        priority: input.priority,
+        conditions: input.conditions ? JSON.stringify(input.conditions) : undefined,
+        assignmentStrategy: input.assignmentStrategy,
+        targetUsers: input.targetUsers ? JSON.stringify(input.targetUsers) : undefined,
+        isActive: input.isActive
+      }
+    })
+    return this.toAssignmentRule(rule)
+  }
+
+  static async deleteRule(id: string): Promise<boolean> {
+    const result = await prisma.assignmentRule.deleteMany({ where: { id } })
+    return result.count > 0
+  }
+
+  /**
+   * Skills used by the SKILL_BASED strategy for one employee
+   */
+  static async getEmployeeSkills(userId: string): Promise<string[]> {
+    const skills = await prisma.employeeSkill.findMany({
+      where: { userId },
+      select: { skill: true },
+      orderBy: { skill: 'asc' }
+    })
+    return skills.map(entry => entry.skill)
+  }
+
+  /**
+   * All active employees with their skills, for the admin editor
+   */
+  static async listEmployeeSkills(): Promise<EmployeeSkillSummary[]> {
+    const users = await prisma.user.findMany({
+      where: { isActive: true, role: 'EMPLOYEE' },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        skills: {
+          select: { skill: true },
+          orderBy: { skill: 'asc' }
+        }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    return users.map(user => ({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      skills: user.skills.map(entry => entry.skill)
+    }))
+  }
+
+  /**
+   * Replace an employee's skill set
+   */
+  static async setEmployeeSkills(userId: string, skills: string[]): Promise<string[] | null> {
+    const user = await prisma.user.findUnique({ where: { id: userId } })
+    if (!user) return null
+
+    const uniqueSkills = Array.from(new Set(skills))
+
+    await prisma.$transaction([
+      prisma.employeeSkill.deleteMany({ where: { userId } }),
+      prisma.employeeSkill.createMany({
+        data: uniqueSkills.map(skill => ({ userId, skill }))
+      })
+    ])
+
+    return uniqueSkills.sort()
+  }
+
+  private static toAssignmentRule(rule: AssignmentRuleRecord): AssignmentRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      priority: rule.priority,
+      conditions: this.parseJson<AssignmentRuleConditions>(rule.conditions, {}),
+      assignmentStrategy: rule.assignmentStrategy as AssignmentStrategy,
+      targetUsers: this.parseJson<string[]>(rule.targetUsers, []),
+      isActive: rule.isActive,
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString()
+    }
+  }
+
+  private static parseJson<T>(value: string | null, fallback: T): T {
+    if (!value) return fallback
+    try {
+      return JSON.parse(value) as T
+    } catch (error) {
+      console.error('Invalid JSON in assignment rule:', error)
+      return fallback
+    }
+  }
+}
+
+export default AssignmentRuleService
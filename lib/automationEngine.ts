@@ -1,15 +1,30 @@
+import { hostname } from 'os'
 import { PrismaClient } from '@prisma/client'
 import cron from 'node-cron'
 import { EventEmitter } from 'events'
 import { getAutomationTriggerManager } from './automationTriggers'
 import { getAutomationRetryManager, RetryPolicy } from './automationRetryManager'
+import { AutomationJobQueue, WaitingInstance } from './automationJobQueue'
+import { FlowStepType, BranchCondition, evaluateBranch, findStepIndex } from './automationFlow'
+import { SuppressionService } from './suppressionService'
+import { TemplateContextService } from './templateContextService'
+import { SendWindowService } from './sendWindowService'
 
 const prisma = new PrismaClient()
 
+// Guards against goto loops that never reach a wait step
+const MAX_STEPS_PER_RUN = 200
+// A running execution renews its lease every heartbeat; one left to expire was interrupted
+const EXECUTION_LEASE_MS = 10 * 60 * 1000
+const EXECUTION_HEARTBEAT_MS = 2 * 60 * 1000
+const LEASED_STATUSES = ['PENDING', 'RUNNING']
+
 export interface AutomationExecution {
   id: string
   automationId: string
-  status: 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED'
+  automationName?: string
+  status: 'PENDING' | 'RUNNING' | 'WAITING' | 'COMPLETED' | 'FAILED' | 'CANCELLED'
+  triggerData?: any
   startedAt: Date
   completedAt?: Date
   targetCount: number
@@ -47,7 +62,8 @@ export interface AutomationCondition {
 }
 
 export interface AutomationAction {
-  type: 'send_message' | 'update_lead_status' | 'assign_lead' | 'create_task' | 'update_tags' | 'wait'
+  id?: string
+  type: FlowStepType
   config: Record<string, any>
   retryPolicy?: {
     maxRetries: number
@@ -56,6 +72,14 @@ export interface AutomationAction {
   }
 }
 
+export interface ExecutionFilters {
+  automationId?: string
+  status?: AutomationExecution['status']
+  since?: Date
+  search?: string
+  limit?: number
+}
+
 export interface AutomationRule {
   id: string
   name: string
@@ -70,10 +94,10 @@ export interface AutomationRule {
 
 class AutomationEngine extends EventEmitter {
   private scheduledTasks: Map<string, cron.ScheduledTask> = new Map()
-  private runningExecutions: Map<string, AutomationExecution> = new Map()
   private eventListeners: Map<string, Function[]> = new Map()
   private triggerManager = getAutomationTriggerManager()
   private retryManager = getAutomationRetryManager()
+  private readonly instanceId = `${hostname()}:${process.pid}`
 
   constructor() {
     super()
@@ -90,11 +114,22 @@ class AutomationEngine extends EventEmitter {
         await this.executeAutomation(triggerData.automationId, triggerData)
       })
 
+      // Replies end wait_for_reply steps early
+      this.triggerManager.on('message:received', async (messageData) => {
+        await this.handleReplyReceived(messageData)
+      })
+
       // Listen for retry events from the retry manager
       this.retryManager.on('retry:execute', async (retryData) => {
         await this.handleRetryExecution(retryData)
       })
 
+      // Executions whose process died will never finish
+      await this.recoverInterruptedExecutions()
+
+      // Pick up retries that were scheduled before the restart
+      await this.retryManager.resumePendingRetries()
+
       // Load and schedule all active automations (legacy support)
       const activeAutomations = await this.getActiveAutomations()
       
@@ -225,13 +260,24 @@ class AutomationEngine extends EventEmitter {
         throw new Error(`Automation ${automationId} is not active`)
       }
 
-      const executionId = `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      
+      const record = await prisma.automationExecution.create({
+        data: {
+          automationId,
+          status: 'PENDING',
+          triggerData: triggerData ? JSON.stringify(triggerData) : null,
+          leaseOwner: this.instanceId,
+          leaseExpiresAt: new Date(Date.now() + EXECUTION_LEASE_MS)
+        }
+      })
+      const executionId = record.id
+
       const execution: AutomationExecution = {
         id: executionId,
         automationId,
+        automationName: automation.name,
         status: 'PENDING',
-        startedAt: new Date(),
+        triggerData,
+        startedAt: record.startedAt,
         targetCount: 0,
         successCount: 0,
         failureCount: 0,
@@ -239,21 +285,13 @@ class AutomationEngine extends EventEmitter {
         logs: []
       }
 
-      this.runningExecutions.set(executionId, execution)
       this.emit('execution:started', { executionId, automationId })
 
       // Execute in background
       this.runAutomationExecution(execution, automation, triggerData)
-        .catch(error => {
+        .catch(async error => {
           console.error(`❌ Automation execution failed: ${error.message}`)
-          execution.status = 'FAILED'
-          execution.completedAt = new Date()
-          execution.errors.push({
-            step: 'execution',
-            error: error.message,
-            timestamp: new Date(),
-            retryCount: 0
-          })
+          await this.saveExecution(execution)
           this.emit('execution:failed', { executionId, error: error.message })
         })
 
@@ -269,29 +307,49 @@ class AutomationEngine extends EventEmitter {
     automation: AutomationRule, 
     triggerData?: any
   ) {
+    const heartbeat = setInterval(() => {
+      this.renewExecutionLease(execution.id).catch(error => {
+        console.error(`Failed to renew lease of automation execution ${execution.id}:`, error)
+      })
+    }, EXECUTION_HEARTBEAT_MS)
+
     try {
       execution.status = 'RUNNING'
-      this.addLog(execution, 'INFO', `Starting automation: ${automation.name}`)
+      await this.saveExecution(execution)
+      await this.addLog(execution, 'INFO', `Starting automation: ${automation.name}`)
 
       // Get targets based on conditions
       const targets = await this.getAutomationTargets(automation.conditions, triggerData)
       execution.targetCount = targets.length
+      await this.saveExecution(execution)
 
-      this.addLog(execution, 'INFO', `Found ${targets.length} targets`)
+      await this.addLog(execution, 'INFO', `Found ${targets.length} targets`)
 
       if (targets.length === 0) {
         execution.status = 'COMPLETED'
         execution.completedAt = new Date()
-        this.addLog(execution, 'INFO', 'No targets found, automation completed')
+        await this.addLog(execution, 'INFO', 'No targets found, automation completed')
+        await this.saveExecution(execution)
         this.emit('execution:completed', { executionId: execution.id })
         return
       }
 
       // Execute actions for each target
+      let waitingCount = 0
       for (const target of targets) {
+        if (await this.isExecutionCancelled(execution.id)) {
+          await this.addLog(execution, 'WARN', `Stopped after ${execution.successCount + execution.failureCount + waitingCount}/${execution.targetCount} targets: execution cancelled`)
+          await AutomationJobQueue.cancelForExecution(execution.id, 'system')
+          return
+        }
+
         try {
-          await this.executeActionsForTarget(execution, automation.actions, target)
-          execution.successCount++
+          const outcome = await this.executeActionsForTarget(execution, automation.actions, target)
+          if (outcome === 'waiting') {
+            waitingCount++
+          } else {
+            execution.successCount++
+          }
         } catch (error) {
           execution.failureCount++
           execution.errors.push({
@@ -301,16 +359,26 @@ class AutomationEngine extends EventEmitter {
             timestamp: new Date(),
             retryCount: 0
           })
-          this.addLog(execution, 'ERROR', `Failed to execute actions for target ${target.id}: ${error}`)
+          await this.addLog(execution, 'ERROR', `Failed to execute actions for target ${target.id}: ${error}`)
         }
+
+        await this.saveExecution(execution)
       }
 
-      execution.status = 'COMPLETED'
-      execution.completedAt = new Date()
-      
-      this.addLog(execution, 'INFO', 
-        `Automation completed: ${execution.successCount}/${execution.targetCount} successful`
-      )
+      if (waitingCount > 0) {
+        // The delayed-job worker completes the execution once every waiting target has resumed
+        execution.status = 'WAITING'
+        await this.addLog(execution, 'INFO', 
+          `${waitingCount} targets paused at a wait step, ${execution.successCount}/${execution.targetCount} finished`
+        )
+      } else {
+        execution.status = 'COMPLETED'
+        execution.completedAt = new Date()
+        await this.addLog(execution, 'INFO', 
+          `Automation completed: ${execution.successCount}/${execution.targetCount} successful`
+        )
+      }
+      await this.saveExecution(execution)
 
       // Update automation statistics
       await this.updateAutomationStats(automation.id, execution)
@@ -330,8 +398,10 @@ class AutomationEngine extends EventEmitter {
         timestamp: new Date(),
         retryCount: 0
       })
-      this.addLog(execution, 'ERROR', `Automation execution failed: ${error}`)
+      await this.addLog(execution, 'ERROR', `Automation execution failed: ${error}`)
       throw error
+    } finally {
+      clearInterval(heartbeat)
     }
   }
 
@@ -387,44 +457,170 @@ class AutomationEngine extends EventEmitter {
     return value
   }
 
+  /**
+   * Run the steps for one target from startIndex. Branch, goto and exit steps
+   * move the cursor; wait steps record a delayed job and stop here so the cron
+   * worker can resume from the recorded step.
+   */
   private async executeActionsForTarget(
     execution: AutomationExecution, 
     actions: AutomationAction[], 
-    target: any
-  ) {
-    for (let i = 0; i < actions.length; i++) {
+    target: any,
+    startIndex: number = 0
+  ): Promise<'completed' | 'waiting'> {
+    let i = startIndex
+    let stepsRun = 0
+
+    while (i < actions.length) {
+      if (++stepsRun > MAX_STEPS_PER_RUN) {
+        throw new Error(`Workflow ran ${MAX_STEPS_PER_RUN} steps without waiting, check for goto loops`)
+      }
+
       const action = actions[i]
-      
-      try {
-        this.addLog(execution, 'INFO', 
-          `Executing action ${i + 1}/${actions.length}: ${action.type} for target ${target.id}`
-        )
+      await this.addLog(execution, 'INFO', 
+        `Executing action ${i + 1}/${actions.length}: ${action.type} for target ${target.id}`
+      )
 
-        await this.executeAction(action, target, execution)
+      switch (action.type) {
+        case 'wait': {
+          const waitMinutes = this.getWaitMinutes(action.config.duration, action.config.unit)
+          if (waitMinutes > 0 && i + 1 < actions.length) {
+            const runAt = new Date(Date.now() + waitMinutes * 60 * 1000)
+            await AutomationJobQueue.schedule({
+              executionId: execution.id,
+              automationId: execution.automationId,
+              targetId: target.id,
+              nextActionIndex: i + 1,
+              runAt
+            })
+            await this.addLog(execution, 'INFO', `Target ${target.id} waiting until ${runAt.toISOString()}`)
+            return 'waiting'
+          }
+          i++
+          continue
+        }
 
-        // Handle wait action
-        if (action.type === 'wait' && action.config.duration) {
-          const waitTime = action.config.duration * 60 * 1000 // Convert minutes to milliseconds
-          this.addLog(execution, 'INFO', `Waiting ${action.config.duration} minutes`)
-          await new Promise(resolve => setTimeout(resolve, waitTime))
+        case 'wait_for_reply': {
+          const timeoutMinutes = this.getWaitMinutes(action.config.timeout, action.config.unit)
+          const runAt = new Date(Date.now() + timeoutMinutes * 60 * 1000)
+          await AutomationJobQueue.schedule({
+            executionId: execution.id,
+            automationId: execution.automationId,
+            targetId: target.id,
+            nextActionIndex: this.resolveJump(actions, action.config.timeoutStep, i + 1),
+            replyActionIndex: this.resolveJump(actions, action.config.replyStep, i + 1),
+            runAt
+          })
+          await this.addLog(execution, 'INFO', `Target ${target.id} waiting for a reply until ${runAt.toISOString()}`)
+          return 'waiting'
+        }
+
+        case 'branch': {
+          const matched = evaluateBranch(
+            (action.config.conditions || []) as BranchCondition[],
+            action.config.match === 'any' ? 'any' : 'all',
+            {
+              lead: target,
+              contact: target.contact,
+              reply: await this.getLatestReply(target, execution.startedAt)
+            }
+          )
+          await this.addLog(execution, 'INFO', `Branch at step ${i + 1} took the ${matched ? 'yes' : 'no'} path for target ${target.id}`)
+          i = this.resolveJump(actions, matched ? action.config.trueStep : action.config.falseStep, i + 1)
+          continue
         }
 
+        case 'goto':
+          i = this.resolveJump(actions, action.config.step, i + 1)
+          continue
+
+        case 'exit':
+          await this.addLog(execution, 'INFO', `Target ${target.id} exited the workflow at step ${i + 1}`)
+          return 'completed'
+
+        case 'send_message': {
+          // Outside the send window the workflow waits at this step until it opens
+          const sendWindow = await SendWindowService.getGlobalWindow()
+          if (!SendWindowService.isOpen(sendWindow)) {
+            const runAt = SendWindowService.getNextOpening(sendWindow)
+            await AutomationJobQueue.schedule({
+              executionId: execution.id,
+              automationId: execution.automationId,
+              targetId: target.id,
+              nextActionIndex: i,
+              runAt
+            })
+            await this.addLog(execution, 'INFO', `Message to target ${target.id} deferred until ${runAt.toISOString()}: outside the send window`)
+            return 'waiting'
+          }
+          break
+        }
+      }
+
+      try {
+        await this.executeAction(action, target, execution)
       } catch (error) {
         const retryPolicy = action.retryPolicy || { maxRetries: 0, backoffMultiplier: 2, initialDelay: 1000 }
         
         if (retryPolicy.maxRetries > 0) {
-          await this.retryAction(action, target, execution, retryPolicy, error)
+          await this.retryAction(action, i, target, execution, retryPolicy, error)
         } else {
           throw error
         }
       }
+      i++
+    }
+
+    return 'completed'
+  }
+
+  /**
+   * Index of the step a jump lands on. An empty target continues with the next step.
+   */
+  private resolveJump(actions: AutomationAction[], stepId: string | undefined, nextIndex: number): number {
+    if (!stepId) return nextIndex
+
+    const index = findStepIndex(actions, stepId)
+    if (index === -1) {
+      throw new Error(`Workflow step ${stepId} not found`)
+    }
+    return index
+  }
+
+  /**
+   * Latest inbound message from the target since the execution started
+   */
+  private async getLatestReply(target: any, since: Date) {
+    if (!target.contactId) return null
+
+    const reply = await prisma.message.findFirst({
+      where: {
+        contactId: target.contactId,
+        direction: 'INBOUND',
+        createdAt: { gte: since }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return reply ? { text: reply.content, receivedAt: reply.createdAt } : null
+  }
+
+  private getWaitMinutes(value: any, unit?: string): number {
+    const duration = Number(value) || 0
+    switch (unit) {
+      case 'days':
+        return duration * 24 * 60
+      case 'hours':
+        return duration * 60
+      default:
+        return duration // minutes
     }
   }
 
   private async executeAction(action: AutomationAction, target: any, execution: AutomationExecution) {
     switch (action.type) {
       case 'send_message':
-        await this.sendMessage(action.config, target)
+        await this.sendMessage(action.config, target, execution)
         break
       case 'update_lead_status':
         await this.updateLeadStatus(action.config, target)
@@ -439,7 +635,11 @@ class AutomationEngine extends EventEmitter {
         await this.updateTags(action.config, target)
         break
       case 'wait':
-        // Wait is handled in executeActionsForTarget
+      case 'wait_for_reply':
+      case 'branch':
+      case 'goto':
+      case 'exit':
+        // Control steps are handled in executeActionsForTarget
         break
       default:
         throw new Error(`Unknown action type: ${action.type}`)
@@ -448,6 +648,7 @@ class AutomationEngine extends EventEmitter {
 
   private async retryAction(
     action: AutomationAction, 
+    actionIndex: number,
     target: any, 
     execution: AutomationExecution,
     retryPolicy: RetryPolicy,
@@ -461,7 +662,8 @@ class AutomationEngine extends EventEmitter {
       originalError instanceof Error ? originalError.message : String(originalError),
       retryPolicy,
       0,
-      target.id
+      target.id,
+      actionIndex
     )
 
     if (!retryId) {
@@ -506,7 +708,7 @@ class AutomationEngine extends EventEmitter {
 
   private async handleRetryExecution(retryData: any) {
     try {
-      const execution = this.runningExecutions.get(retryData.executionId)
+      const execution = await this.getExecutionStatus(retryData.executionId)
       if (!execution) {
         await this.retryManager.markRetryFailure(retryData.retryId, 'Execution not found')
         return
@@ -519,16 +721,24 @@ class AutomationEngine extends EventEmitter {
         return
       }
 
-      const action = automation.actions.find(a => a.type === retryData.actionType)
-      if (!action) {
+      const action = typeof retryData.actionIndex === 'number'
+        ? automation.actions[retryData.actionIndex]
+        : automation.actions.find(a => a.type === retryData.actionType)
+      if (!action || action.type !== retryData.actionType) {
         await this.retryManager.markRetryFailure(retryData.retryId, 'Action not found')
         return
       }
 
-      // Find the target (simplified - in real implementation, you'd need to store target data)
-      const targets = await this.getAutomationTargets(automation.conditions)
-      const target = targets.find(t => t.id === retryData.targetId)
-      
+      const target = retryData.targetId
+        ? await prisma.lead.findUnique({
+            where: { id: retryData.targetId },
+            include: {
+              contact: true,
+              assignedTo: true
+            }
+          })
+        : null
+
       if (!target) {
         await this.retryManager.markRetryFailure(retryData.retryId, 'Target not found')
         return
@@ -540,7 +750,7 @@ class AutomationEngine extends EventEmitter {
       // Mark retry as successful
       await this.retryManager.markRetrySuccess(retryData.retryId)
       
-      this.addLog(execution, 'INFO', 
+      await this.addLog(execution, 'INFO', 
         `Retry attempt ${retryData.attempt} succeeded for ${retryData.actionType}`
       )
 
@@ -550,9 +760,9 @@ class AutomationEngine extends EventEmitter {
         error instanceof Error ? error.message : String(error)
       )
       
-      const execution = this.runningExecutions.get(retryData.executionId)
+      const execution = await this.getExecutionStatus(retryData.executionId)
       if (execution) {
-        this.addLog(execution, 'ERROR', 
+        await this.addLog(execution, 'ERROR', 
           `Retry attempt ${retryData.attempt} failed for ${retryData.actionType}: ${error}`
         )
       }
@@ -560,16 +770,22 @@ class AutomationEngine extends EventEmitter {
   }
 
   // Action implementations
-  private async sendMessage(config: any, target: any) {
+  private async sendMessage(config: any, target: any, execution: AutomationExecution) {
     if (!target.contact?.phone) {
       throw new Error('Target has no phone number')
     }
 
-    const message = this.personalizeMessage(config.messageTemplate, target)
+    const messageType = config.messageType || 'WHATSAPP'
+    if (await SuppressionService.isSuppressed(target.contact.phone, messageType)) {
+      await this.addLog(execution, 'WARN', `Skipped ${messageType} message to target ${target.id}: contact opted out`)
+      return
+    }
+
+    const message = TemplateContextService.personalize(config.messageTemplate, target)
     
     await prisma.message.create({
       data: {
-        type: config.messageType || 'WHATSAPP',
+        type: messageType,
         direction: 'OUTBOUND',
         content: message,
         contactId: target.contact.id,
@@ -579,15 +795,6 @@ class AutomationEngine extends EventEmitter {
     })
   }
 
-  private personalizeMessage(template: string, target: any): string {
-    return template
-      .replace(/\{name\}/g, target.name || 'Customer')
-      .replace(/\{loanType\}/g, target.loanType?.toLowerCase() || 'loan')
-      .replace(/\{loanAmount\}/g, target.loanAmount?.toLocaleString() || '0')
-      .replace(/\{phone\}/g, target.contact?.phone || '')
-      .replace(/\{email\}/g, target.contact?.email || '')
-  }
-
   private async updateLeadStatus(config: any, target: any) {
     await prisma.lead.update({
       where: { id: target.id },
@@ -640,15 +847,131 @@ class AutomationEngine extends EventEmitter {
   }
 
   // Utility methods
-  private addLog(execution: AutomationExecution, level: AutomationLog['level'], message: string, metadata?: any) {
-    execution.logs.push({
+  private async addLog(execution: AutomationExecution, level: AutomationLog['level'], message: string, metadata?: any) {
+    const log: AutomationLog = {
       level,
       message,
       timestamp: new Date(),
       metadata
+    }
+    execution.logs.push(log)
+
+    try {
+      await prisma.automationExecutionLog.create({
+        data: {
+          executionId: execution.id,
+          level,
+          message,
+          metadata: metadata ? JSON.stringify(metadata) : null,
+          createdAt: log.timestamp
+        }
+      })
+    } catch (error) {
+      // A lost log line should not fail the execution
+      console.error('Error saving automation log:', error)
+    }
+  }
+
+  /**
+   * Persist progress. A cancelled execution keeps its CANCELLED status.
+   */
+  private async saveExecution(execution: AutomationExecution) {
+    await prisma.automationExecution.updateMany({
+      where: { id: execution.id, status: { not: 'CANCELLED' } },
+      data: {
+        status: execution.status,
+        targetCount: execution.targetCount,
+        successCount: execution.successCount,
+        failureCount: execution.failureCount,
+        errors: JSON.stringify(execution.errors),
+        completedAt: execution.completedAt,
+        // Waiting and finished executions are not running anywhere
+        ...(LEASED_STATUSES.includes(execution.status) ? {} : { leaseOwner: null, leaseExpiresAt: null })
+      }
+    })
+  }
+
+  private async renewExecutionLease(executionId: string) {
+    await prisma.automationExecution.updateMany({
+      where: { id: executionId, leaseOwner: this.instanceId, status: { in: LEASED_STATUSES } },
+      data: { leaseExpiresAt: new Date(Date.now() + EXECUTION_LEASE_MS) }
     })
   }
 
+  private async isExecutionCancelled(executionId: string): Promise<boolean> {
+    const record = await prisma.automationExecution.findUnique({
+      where: { id: executionId },
+      select: { status: true }
+    })
+    return record?.status === 'CANCELLED'
+  }
+
+  /**
+   * Fail executions whose process died mid-run, told apart from ones other instances
+   * are still running by their expired lease. Run at startup and by the cron manager.
+   */
+  public async recoverInterruptedExecutions() {
+    const stalledJobs = await AutomationJobQueue.recoverStalledJobs()
+    if (stalledJobs > 0) {
+      console.log(`⚠️ Returned ${stalledJobs} stalled wait steps to the queue`)
+    }
+
+    const expired = () => ({
+      status: { in: LEASED_STATUSES },
+      // Executions started before leases were recorded have none
+      OR: [
+        { leaseExpiresAt: null },
+        { leaseExpiresAt: { lt: new Date() } }
+      ]
+    })
+
+    const interrupted = await prisma.automationExecution.findMany({
+      where: expired(),
+      select: { id: true }
+    })
+
+    let failed = 0
+    for (const { id } of interrupted) {
+      // Conditional, so a lease renewed since the lookup wins
+      const { count } = await prisma.automationExecution.updateMany({
+        where: { id, ...expired() },
+        data: { status: 'FAILED', completedAt: new Date(), leaseOwner: null, leaseExpiresAt: null }
+      })
+      if (count === 0) continue
+
+      await prisma.automationExecutionLog.create({
+        data: { executionId: id, level: 'ERROR', message: 'Execution interrupted: the process running it stopped' }
+      })
+      failed++
+    }
+
+    if (failed > 0) {
+      console.log(`⚠️ Marked ${failed} interrupted automation executions as failed`)
+    }
+  }
+
+  private toAutomationExecution(record: any): AutomationExecution {
+    return {
+      id: record.id,
+      automationId: record.automationId,
+      automationName: record.automation?.name,
+      status: record.status,
+      triggerData: record.triggerData ? JSON.parse(record.triggerData) : undefined,
+      startedAt: record.startedAt,
+      completedAt: record.completedAt || undefined,
+      targetCount: record.targetCount,
+      successCount: record.successCount,
+      failureCount: record.failureCount,
+      errors: JSON.parse(record.errors),
+      logs: (record.logs || []).map((log: any) => ({
+        level: log.level,
+        message: log.message,
+        timestamp: log.createdAt,
+        metadata: log.metadata ? JSON.parse(log.metadata) : undefined
+      }))
+    }
+  }
+
   private async getAutomationById(id: string): Promise<AutomationRule | null> {
     const automation = await prisma.automation.findUnique({
       where: { id }
@@ -798,24 +1121,163 @@ class AutomationEngine extends EventEmitter {
     }
   }
 
-  public getExecutionStatus(executionId: string): AutomationExecution | null {
-    return this.runningExecutions.get(executionId) || null
+  public async getExecutionStatus(executionId: string): Promise<AutomationExecution | null> {
+    const record = await prisma.automationExecution.findUnique({
+      where: { id: executionId },
+      include: {
+        automation: { select: { name: true } },
+        logs: { orderBy: { createdAt: 'asc' } }
+      }
+    })
+    return record ? this.toAutomationExecution(record) : null
+  }
+
+  public async getRunningExecutions(automationId?: string): Promise<AutomationExecution[]> {
+    return this.listExecutions({ automationId, status: 'RUNNING' })
   }
 
-  public getRunningExecutions(): AutomationExecution[] {
-    return Array.from(this.runningExecutions.values())
+  public async listExecutions(filters: ExecutionFilters = {}): Promise<AutomationExecution[]> {
+    const where: any = {}
+    if (filters.automationId) where.automationId = filters.automationId
+    if (filters.status) where.status = filters.status
+    if (filters.since) where.startedAt = { gte: filters.since }
+    if (filters.search) where.automation = { name: { contains: filters.search } }
+
+    const records = await prisma.automationExecution.findMany({
+      where,
+      include: {
+        automation: { select: { name: true } },
+        logs: { orderBy: { createdAt: 'asc' }, take: 200 }
+      },
+      orderBy: { startedAt: 'desc' },
+      take: filters.limit || 100
+    })
+
+    return records.map(record => this.toAutomationExecution(record))
   }
 
   public async cancelExecution(executionId: string): Promise<boolean> {
-    const execution = this.runningExecutions.get(executionId)
-    if (execution && execution.status === 'RUNNING') {
-      execution.status = 'CANCELLED'
+    const result = await prisma.automationExecution.updateMany({
+      where: { id: executionId, status: { in: ['PENDING', 'RUNNING', 'WAITING'] } },
+      data: { status: 'CANCELLED', completedAt: new Date() }
+    })
+
+    if (result.count === 0) return false
+
+    await AutomationJobQueue.cancelForExecution(executionId, 'user')
+
+    await prisma.automationExecutionLog.create({
+      data: { executionId, level: 'WARN', message: 'Execution cancelled by user' }
+    })
+    this.emit('execution:cancelled', { executionId })
+    return true
+  }
+
+  // Delayed job worker
+  /**
+   * Resume workflow instances whose wait step is due. Run by the cron worker.
+   */
+  public async processDueJobs(): Promise<{ resumed: number; failed: number }> {
+    const jobs = await AutomationJobQueue.claimDueJobs(this.instanceId)
+    let resumed = 0
+    let failed = 0
+
+    for (const job of jobs) {
+      const execution = await this.getExecutionStatus(job.executionId)
+      if (!execution || execution.status === 'CANCELLED') {
+        await AutomationJobQueue.fail(job.id, 'Execution cancelled or missing')
+        continue
+      }
+
+      try {
+        const automation = await this.getAutomationById(job.automationId)
+        if (!automation) {
+          throw new Error(`Automation ${job.automationId} not found`)
+        }
+
+        const target = await prisma.lead.findUnique({
+          where: { id: job.targetId },
+          include: {
+            contact: true,
+            assignedTo: true
+          }
+        })
+        if (!target) {
+          throw new Error(`Target ${job.targetId} not found`)
+        }
+
+        await this.addLog(execution, 'INFO', `Resuming target ${target.id} at action ${job.nextActionIndex + 1}`)
+        const outcome = await this.executeActionsForTarget(execution, automation.actions, target, job.nextActionIndex)
+        if (outcome === 'completed') {
+          execution.successCount++
+        }
+
+        await AutomationJobQueue.complete(job.id)
+        resumed++
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        execution.failureCount++
+        execution.errors.push({
+          step: 'resume_after_wait',
+          targetId: job.targetId,
+          error: message,
+          timestamp: new Date(),
+          retryCount: job.attempts
+        })
+        await this.addLog(execution, 'ERROR', `Failed to resume target ${job.targetId}: ${message}`)
+        await AutomationJobQueue.fail(job.id, message)
+        failed++
+      }
+
+      await this.finishIfNoJobsWaiting(execution)
+    }
+
+    return { resumed, failed }
+  }
+
+  public async listWaitingInstances(automationId?: string): Promise<WaitingInstance[]> {
+    return AutomationJobQueue.listWaiting(automationId)
+  }
+
+  public async cancelWaitingInstance(jobId: string, cancelledBy: string): Promise<boolean> {
+    const job = await AutomationJobQueue.cancel(jobId, cancelledBy)
+    if (!job) return false
+
+    const execution = await this.getExecutionStatus(job.executionId)
+    if (execution) {
+      await this.addLog(execution, 'WARN', `Waiting instance for target ${job.targetId} cancelled by ${cancelledBy}`)
+      await this.finishIfNoJobsWaiting(execution)
+    }
+    return true
+  }
+
+  private async handleReplyReceived(messageData: { contactId?: string }) {
+    try {
+      if (!messageData?.contactId) return
+
+      const leads = await prisma.lead.findMany({
+        where: { contactId: messageData.contactId },
+        select: { id: true }
+      })
+
+      const resumed = await AutomationJobQueue.resumeOnReply(leads.map(lead => lead.id))
+      if (resumed > 0) {
+        console.log(`💬 Reply from contact ${messageData.contactId} resumed ${resumed} waiting automations`)
+      }
+    } catch (error) {
+      console.error('❌ Failed to resume automations on reply:', error)
+    }
+  }
+
+  private async finishIfNoJobsWaiting(execution: AutomationExecution) {
+    if (execution.status === 'WAITING' && await AutomationJobQueue.countOpenJobs(execution.id) === 0) {
+      execution.status = 'COMPLETED'
       execution.completedAt = new Date()
-      this.addLog(execution, 'WARN', 'Execution cancelled by user')
-      this.emit('execution:cancelled', { executionId })
-      return true
+      await this.addLog(execution, 'INFO', 
+        `Automation completed: ${execution.successCount}/${execution.targetCount} successful`
+      )
     }
-    return false
+    await this.saveExecution(execution)
   }
 
   // Event triggering methods
@@ -823,10 +1285,10 @@ class AutomationEngine extends EventEmitter {
     this.emit(eventType, eventData)
   }
 
-  public getEngineStatus() {
+  public async getEngineStatus() {
     return {
       scheduledAutomations: this.scheduledTasks.size,
-      runningExecutions: this.runningExecutions.size,
+      runningExecutions: await prisma.automationExecution.count({ where: { status: 'RUNNING' } }),
       eventListeners: Array.from(this.eventListeners.keys())
     }
   }
@@ -0,0 +1,228 @@
+/**
+ * Workflow graph helpers shared by the automation engine and the rule builder.
+ *
+ * A workflow is still stored as an ordered list of steps. Steps run top to
+ * bottom unless a control step jumps elsewhere:
+ * - branch: evaluates conditions and continues at `trueStep` or `falseStep`
+ * - wait_for_reply: pauses until the lead replies (`replyStep`) or the timeout passes (`timeoutStep`)
+ * - goto: continues at `step`
+ * - exit: ends the workflow for this lead
+ * Jump targets are step ids; an empty target means "continue with the next step".
+ */
+
+export type FlowStepType =
+  | 'send_message'
+  | 'update_lead_status'
+  | 'assign_lead'
+  | 'create_task'
+  | 'update_tags'
+  | 'wait'
+  | 'branch'
+  | 'wait_for_reply'
+  | 'goto'
+  | 'exit'
+
+export interface FlowStep {
+  id?: string
+  type: FlowStepType
+  config: Record<string, any>
+}
+
+export type BranchOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'is_set'
+  | 'is_not_set'
+
+export interface BranchCondition {
+  field: string
+  operator: BranchOperator
+  value?: any
+}
+
+export interface BranchContext {
+  lead: Record<string, any>
+  contact?: Record<string, any> | null
+  reply?: { text: string; receivedAt: Date } | null
+}
+
+export const CONTROL_STEP_TYPES: FlowStepType[] = ['branch', 'wait_for_reply', 'goto', 'exit']
+
+export const BRANCH_FIELDS = [
+  { value: 'reply.received', label: 'Lead replied', type: 'boolean' },
+  { value: 'reply.text', label: 'Reply text', type: 'text' },
+  { value: 'lead.status', label: 'Lead status', type: 'text' },
+  { value: 'lead.priority', label: 'Lead priority', type: 'text' },
+  { value: 'lead.loanType', label: 'Loan type', type: 'text' },
+  { value: 'lead.loanAmount', label: 'Loan amount', type: 'number' },
+  { value: 'lead.score', label: 'Lead score', type: 'number' },
+  { value: 'lead.qualityBand', label: 'Quality band', type: 'text' },
+  { value: 'lead.source', label: 'Lead source', type: 'text' },
+  { value: 'lead.assignedToId', label: 'Assigned employee', type: 'text' },
+  { value: 'contact.tags', label: 'Contact tags', type: 'list' },
+  { value: 'contact.email', label: 'Contact email', type: 'text' }
+] as const
+
+export const BRANCH_OPERATORS: { value: BranchOperator; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'not_contains', label: 'does not contain' },
+  { value: 'greater_than', label: 'greater than' },
+  { value: 'less_than', label: 'less than' },
+  { value: 'is_set', label: 'is set' },
+  { value: 'is_not_set', label: 'is not set' }
+]
+
+export function createStepId(): string {
+  return `step_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`
+}
+
+export function findStepIndex(steps: FlowStep[], stepId: string): number {
+  return steps.findIndex(step => step.id === stepId)
+}
+
+function resolveField(field: string, context: BranchContext): any {
+  const [scope, key] = field.split('.')
+
+  switch (scope) {
+    case 'reply':
+      if (key === 'received') return Boolean(context.reply)
+      return context.reply?.[key as 'text']
+    case 'lead':
+      return context.lead?.[key]
+    case 'contact':
+      if (key === 'tags') {
+        const tags = context.contact?.tags
+        if (!tags) return []
+        try {
+          return Array.isArray(tags) ? tags : JSON.parse(tags)
+        } catch (error) {
+          return []
+        }
+      }
+      return context.contact?.[key]
+    default:
+      return undefined
+  }
+}
+
+function normalize(value: any): any {
+  if (typeof value === 'string') return value.trim().toLowerCase()
+  if (Array.isArray(value)) return value.map(normalize)
+  return value
+}
+
+export function evaluateCondition(condition: BranchCondition, context: BranchContext): boolean {
+  const actual = normalize(resolveField(condition.field, context))
+  const expected = normalize(condition.value)
+
+  switch (condition.operator) {
+    case 'equals':
+      if (typeof actual === 'boolean') return actual === (expected === true || expected === 'true')
+      if (typeof actual === 'number') return actual === Number(expected)
+      return actual === expected
+    case 'not_equals':
+      return !evaluateCondition({ ...condition, operator: 'equals' }, context)
+    case 'contains':
+      if (Array.isArray(actual)) return actual.includes(expected)
+      return typeof actual === 'string' && typeof expected === 'string' && actual.includes(expected)
+    case 'not_contains':
+      return !evaluateCondition({ ...condition, operator: 'contains' }, context)
+    case 'greater_than':
+      return Number(actual) > Number(expected)
+    case 'less_than':
+      return Number(actual) < Number(expected)
+    case 'is_set':
+      return actual !== undefined && actual !== null && actual !== '' && !(Array.isArray(actual) && actual.length === 0)
+    case 'is_not_set':
+      return !evaluateCondition({ ...condition, operator: 'is_set' }, context)
+    default:
+      return false
+  }
+}
+
+export function evaluateBranch(
+  conditions: BranchCondition[],
+  match: 'all' | 'any',
+  context: BranchContext
+): boolean {
+  if (!conditions || conditions.length === 0) return true
+
+  return match === 'any'
+    ? conditions.some(condition => evaluateCondition(condition, context))
+    : conditions.every(condition => evaluateCondition(condition, context))
+}
+
+/**
+ * Jump targets a step can continue at, keyed by the config field that holds them
+ */
+export function getStepTargets(step: FlowStep): { key: string; label: string }[] {
+  switch (step.type) {
+    case 'branch':
+      return [
+        { key: 'trueStep', label: 'Yes' },
+        { key: 'falseStep', label: 'No' }
+      ]
+    case 'wait_for_reply':
+      return [
+        { key: 'replyStep', label: 'Replied' },
+        { key: 'timeoutStep', label: 'Timed out' }
+      ]
+    case 'goto':
+      return [{ key: 'step', label: 'Go to' }]
+    default:
+      return []
+  }
+}
+
+/**
+ * Check a workflow graph before it is saved. Returns human readable problems.
+ */
+export function validateFlow(steps: FlowStep[]): string[] {
+  const errors: string[] = []
+  const ids = new Set<string>()
+
+  steps.forEach((step, index) => {
+    if (!step.id) return
+    if (ids.has(step.id)) {
+      errors.push(`Step ${index + 1} reuses the id ${step.id}`)
+    }
+    ids.add(step.id)
+  })
+
+  steps.forEach((step, index) => {
+    const label = `Step ${index + 1} (${step.type})`
+    const config = step.config || {}
+
+    for (const target of getStepTargets(step)) {
+      const stepId = config[target.key]
+      if (!stepId) continue
+      if (!ids.has(stepId)) {
+        errors.push(`${label}: "${target.label}" points to a step that does not exist`)
+      } else if (stepId === step.id) {
+        errors.push(`${label}: "${target.label}" points to itself`)
+      }
+    }
+
+    switch (step.type) {
+      case 'goto':
+        if (!config.step) errors.push(`${label}: choose the step to go to`)
+        break
+      case 'branch':
+        if (!Array.isArray(config.conditions) || config.conditions.length === 0) {
+          errors.push(`${label}: add at least one condition`)
+        }
+        break
+      case 'wait_for_reply':
+        if (!(Number(config.timeout) > 0)) errors.push(`${label}: timeout must be greater than zero`)
+        break
+    }
+  })
+
+  return errors
+}
@@ -0,0 +1,222 @@
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+export type DelayedJobStatus = 'WAITING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED'
+
+export interface DelayedJob {
+  id: string
+  executionId: string
+  automationId: string
+  targetId: string
+  nextActionIndex: number
+  replyActionIndex?: number
+  runAt: Date
+  status: DelayedJobStatus
+  attempts: number
+  lastError?: string
+}
+
+export interface WaitingInstance extends DelayedJob {
+  automationName: string
+  targetName?: string
+  targetPhone?: string
+}
+
+interface ScheduleJobInput {
+  executionId: string
+  automationId: string
+  targetId: string
+  nextActionIndex: number
+  replyActionIndex?: number
+  runAt: Date
+}
+
+const OPEN_STATUSES: DelayedJobStatus[] = ['WAITING', 'RUNNING']
+// Long enough to run one target's actions; a claim older than this belongs to a worker that died
+const LEASE_MS = 10 * 60 * 1000
+
+export class AutomationJobQueue {
+  static async schedule(input: ScheduleJobInput): Promise<DelayedJob> {
+    const job = await prisma.automationDelayedJob.create({ data: input })
+    return this.toDelayedJob(job)
+  }
+
+  /**
+   * Claim jobs that are due, marking them RUNNING so a second worker skips them.
+   * Jobs of paused automations stay waiting until the automation is reactivated.
+   */
+  static async claimDueJobs(workerId: string, limit: number = 50): Promise<DelayedJob[]> {
+    await this.recoverStalledJobs()
+
+    const due = await prisma.automationDelayedJob.findMany({
+      where: {
+        status: 'WAITING',
+        runAt: { lte: new Date() },
+        automation: { isActive: true }
+      },
+      orderBy: { runAt: 'asc' },
+      take: limit
+    })
+
+    const claimed: DelayedJob[] = []
+    for (const job of due) {
+      const result = await prisma.automationDelayedJob.updateMany({
+        where: { id: job.id, status: 'WAITING' },
+        data: { status: 'RUNNING', attempts: { increment: 1 }, lockedAt: new Date(), lockedBy: workerId }
+      })
+      if (result.count > 0) {
+        claimed.push(this.toDelayedJob({ ...job, status: 'RUNNING', attempts: job.attempts + 1 }))
+      }
+    }
+
+    return claimed
+  }
+
+  static async complete(jobId: string) {
+    await prisma.automationDelayedJob.update({
+      where: { id: jobId },
+      data: { status: 'COMPLETED', completedAt: new Date() }
+    })
+  }
+
+  static async fail(jobId: string, error: string) {
+    await prisma.automationDelayedJob.update({
+      where: { id: jobId },
+      data: { status: 'FAILED', lastError: error, completedAt: new Date() }
+    })
+  }
+
+  /**
+   * Cancel a waiting instance. Returns null if it is not waiting any more.
+   */
+  static async cancel(jobId: string, cancelledBy: string): Promise<DelayedJob | null> {
+    const result = await prisma.automationDelayedJob.updateMany({
+      where: { id: jobId, status: 'WAITING' },
+      data: { status: 'CANCELLED', cancelledBy, completedAt: new Date() }
+    })
+    if (result.count === 0) return null
+
+    const job = await prisma.automationDelayedJob.findUnique({ where: { id: jobId } })
+    return job ? this.toDelayedJob(job) : null
+  }
+
+  static async cancelForExecution(executionId: string, cancelledBy: string): Promise<number> {
+    const result = await prisma.automationDelayedJob.updateMany({
+      where: { executionId, status: 'WAITING' },
+      data: { status: 'CANCELLED', cancelledBy, completedAt: new Date() }
+    })
+    return result.count
+  }
+
+  /**
+   * A reply ends a wait_for_reply early: the job becomes due now and resumes
+   * on the reply branch. Plain waits are left alone.
+   */
+  static async resumeOnReply(targetIds: string[]): Promise<number> {
+    if (targetIds.length === 0) return 0
+
+    const jobs = await prisma.automationDelayedJob.findMany({
+      where: {
+        targetId: { in: targetIds },
+        status: 'WAITING',
+        replyActionIndex: { not: null }
+      }
+    })
+
+    let resumed = 0
+    for (const job of jobs) {
+      const result = await prisma.automationDelayedJob.updateMany({
+        where: { id: job.id, status: 'WAITING' },
+        data: {
+          nextActionIndex: job.replyActionIndex!,
+          replyActionIndex: null,
+          runAt: new Date()
+        }
+      })
+      resumed += result.count
+    }
+
+    return resumed
+  }
+
+  static async countOpenJobs(executionId: string): Promise<number> {
+    return prisma.automationDelayedJob.count({
+      where: { executionId, status: { in: OPEN_STATUSES } }
+    })
+  }
+
+  /**
+   * Jobs claimed by a process that died before finishing go back to waiting once
+   * their lease runs out. Jobs other instances are still running are left alone.
+   */
+  static async recoverStalledJobs(): Promise<number> {
+    const result = await prisma.automationDelayedJob.updateMany({
+      where: {
+        status: 'RUNNING',
+        // Claims from before leases were recorded have no lockedAt
+        OR: [
+          { lockedAt: null },
+          { lockedAt: { lt: new Date(Date.now() - LEASE_MS) } }
+        ]
+      },
+      data: { status: 'WAITING', lockedAt: null, lockedBy: null }
+    })
+    return result.count
+  }
+
+  static async listWaiting(automationId?: string, limit: number = 200): Promise<WaitingInstance[]> {
+    const jobs = await prisma.automationDelayedJob.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        ...(automationId ? { automationId } : {})
+      },
+      include: {
+        automation: { select: { name: true } }
+      },
+      orderBy: { runAt: 'asc' },
+      take: limit
+    })
+
+    const leads = await prisma.lead.findMany({
+      where: { id: { in: jobs.map(job => job.targetId) } },
+      select: { id: true, name: true, phone: true }
+    })
+    const leadsById = new Map(leads.map(lead => [lead.id, lead]))
+
+    return jobs.map(job => ({
+      ...this.toDelayedJob(job),
+      automationName: job.automation.name,
+      targetName: leadsById.get(job.targetId)?.name,
+      targetPhone: leadsById.get(job.targetId)?.phone
+    }))
+  }
+
+  private static toDelayedJob(job: {
+    id: string
+    executionId: string
+    automationId: string
+    targetId: string
+    nextActionIndex: number
+    replyActionIndex: number | null
+    runAt: Date
+    status: string
+    attempts: number
+    lastError: string | null
+  }): DelayedJob {
+    return {
+      id: job.id,
+      executionId: job.executionId,
+      automationId: job.automationId,
+      targetId: job.targetId,
+      nextActionIndex: job.nextActionIndex,
+      replyActionIndex: job.replyActionIndex ?? undefined,
+      runAt: job.runAt,
+      status: job.status as DelayedJobStatus,
+      attempts: job.attempts,
+      lastError: job.lastError || undefined
+    }
+  }
+}
+
+export default AutomationJobQueue
@@ -17,9 +17,11 @@ export interface RetryAttempt {
   executionId: string
   automationId: string
   actionType: string
+  actionIndex?: number
   targetId?: string
   attempt: number
   error: string
+  status: 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED' | 'CANCELLED'
   scheduledAt: Date
   executedAt?: Date
   success: boolean
@@ -41,20 +43,54 @@ export interface FailureNotification {
   acknowledgedAt?: Date
 }
 
+const NOTIFICATION_RETENTION_DAYS = 90
+
 class AutomationRetryManager extends EventEmitter {
-  private retryQueue: Map<string, RetryAttempt> = new Map()
+  // Timers only live in this process; the retries themselves are in the database
   private retryTimers: Map<string, NodeJS.Timeout> = new Map()
-  private notifications: Map<string, FailureNotification> = new Map()
 
   constructor() {
     super()
-    this.initializeRetryManager()
+    console.log('✅ Automation retry manager initialized')
   }
 
-  private async initializeRetryManager() {
-    // Load pending retries from database (if persisted)
-    // For now, we'll keep retries in memory
-    console.log('✅ Automation retry manager initialized')
+  /**
+   * Reschedule retries persisted before a restart. Called by the automation
+   * engine once it is listening for retry:execute, so none are emitted unheard.
+   */
+  async resumePendingRetries(): Promise<number> {
+    try {
+      // A retry that was mid-flight when the process died gets another go
+      await prisma.automationRetry.updateMany({
+        where: { status: 'RUNNING' },
+        data: { status: 'PENDING' }
+      })
+
+      const pending = await prisma.automationRetry.findMany({
+        where: { status: 'PENDING' }
+      })
+
+      for (const retry of pending) {
+        if (this.retryTimers.has(retry.id)) continue
+        this.startRetryTimer(retry.id, retry.scheduledAt.getTime() - Date.now())
+      }
+
+      if (pending.length > 0) {
+        console.log(`⏳ Resumed ${pending.length} pending automation retries`)
+      }
+      return pending.length
+    } catch (error) {
+      console.error('Error resuming pending retries:', error)
+      return 0
+    }
+  }
+
+  private startRetryTimer(retryId: string, delay: number) {
+    const timer = setTimeout(async () => {
+      await this.executeRetry(retryId)
+    }, Math.max(0, delay))
+
+    this.retryTimers.set(retryId, timer)
   }
 
   // Retry management
@@ -65,7 +101,8 @@ class AutomationRetryManager extends EventEmitter {
     error: string,
     retryPolicy: RetryPolicy,
     currentAttempt: number = 0,
-    targetId?: string
+    targetId?: string,
+    actionIndex?: number
   ): Promise<string | null> {
     if (currentAttempt >= retryPolicy.maxRetries) {
       await this.handleRetryExhausted(executionId, automationId, actionType, error, targetId)
@@ -85,37 +122,32 @@ class AutomationRetryManager extends EventEmitter {
       return null
     }
 
-    const retryId = `retry_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     const delay = this.calculateRetryDelay(retryPolicy, currentAttempt)
     const scheduledAt = new Date(Date.now() + delay)
 
-    const retryAttempt: RetryAttempt = {
-      id: retryId,
-      executionId,
-      automationId,
-      actionType,
-      targetId,
-      attempt: currentAttempt + 1,
-      error,
-      scheduledAt,
-      success: false,
-      nextRetryAt: currentAttempt + 1 < retryPolicy.maxRetries 
-        ? new Date(scheduledAt.getTime() + this.calculateRetryDelay(retryPolicy, currentAttempt + 1))
-        : undefined
-    }
-
-    this.retryQueue.set(retryId, retryAttempt)
+    const retryAttempt = await prisma.automationRetry.create({
+      data: {
+        executionId,
+        automationId,
+        actionType,
+        actionIndex,
+        targetId,
+        attempt: currentAttempt + 1,
+        retryPolicy: JSON.stringify(retryPolicy),
+        error,
+        scheduledAt,
+        nextRetryAt: currentAttempt + 1 < retryPolicy.maxRetries 
+          ? new Date(scheduledAt.getTime() + this.calculateRetryDelay(retryPolicy, currentAttempt + 1))
+          : null
+      }
+    })
 
     // Schedule the retry
-    const timer = setTimeout(async () => {
-      await this.executeRetry(retryId)
-    }, delay)
-
-    this.retryTimers.set(retryId, timer)
+    this.startRetryTimer(retryAttempt.id, delay)
 
     console.log(`⏳ Scheduled retry ${retryAttempt.attempt}/${retryPolicy.maxRetries} for ${actionType} in ${delay}ms`)
 
-    return retryId
+    return retryAttempt.id
   }
 
   private calculateRetryDelay(retryPolicy: RetryPolicy, attempt: number): number {
@@ -152,12 +184,17 @@ class AutomationRetryManager extends EventEmitter {
   }
 
   private async executeRetry(retryId: string) {
-    const retryAttempt = this.retryQueue.get(retryId)
-    if (!retryAttempt) return
-
     try {
-      retryAttempt.executedAt = new Date()
-      
+      // Claim the retry so a cancelled or already-run one is skipped
+      const claimed = await prisma.automationRetry.updateMany({
+        where: { id: retryId, status: 'PENDING' },
+        data: { status: 'RUNNING', executedAt: new Date() }
+      })
+      if (claimed.count === 0) return
+
+      const retryAttempt = await prisma.automationRetry.findUnique({ where: { id: retryId } })
+      if (!retryAttempt) return
+
       console.log(`🔄 Executing retry ${retryAttempt.attempt} for ${retryAttempt.actionType}`)
 
       // Emit retry event for the automation engine to handle
@@ -166,7 +203,8 @@ class AutomationRetryManager extends EventEmitter {
         executionId: retryAttempt.executionId,
         automationId: retryAttempt.automationId,
         actionType: retryAttempt.actionType,
-        targetId: retryAttempt.targetId,
+        actionIndex: retryAttempt.actionIndex ?? undefined,
+        targetId: retryAttempt.targetId ?? undefined,
         attempt: retryAttempt.attempt
       })
 
@@ -182,15 +220,15 @@ class AutomationRetryManager extends EventEmitter {
   }
 
   async markRetrySuccess(retryId: string) {
-    const retryAttempt = this.retryQueue.get(retryId)
+    const retryAttempt = await prisma.automationRetry.findUnique({ where: { id: retryId } })
     if (!retryAttempt) return
 
-    retryAttempt.success = true
+    await prisma.automationRetry.update({
+      where: { id: retryId },
+      data: { status: 'SUCCEEDED' }
+    })
     console.log(`✅ Retry ${retryAttempt.attempt} succeeded for ${retryAttempt.actionType}`)
 
-    // Remove from queue
-    this.retryQueue.delete(retryId)
-
     // Emit success event
     this.emit('retry:success', {
       retryId,
@@ -202,14 +240,15 @@ class AutomationRetryManager extends EventEmitter {
   }
 
   async markRetryFailure(retryId: string, error: string) {
-    const retryAttempt = this.retryQueue.get(retryId)
+    const retryAttempt = await prisma.automationRetry.findUnique({ where: { id: retryId } })
     if (!retryAttempt) return
 
+    await prisma.automationRetry.update({
+      where: { id: retryId },
+      data: { status: 'FAILED', error }
+    })
     console.log(`❌ Retry ${retryAttempt.attempt} failed for ${retryAttempt.actionType}: ${error}`)
 
-    // Remove from queue
-    this.retryQueue.delete(retryId)
-
     // Emit failure event
     this.emit('retry:failure', {
       retryId,
@@ -280,22 +319,18 @@ class AutomationRetryManager extends EventEmitter {
       console.error('Error fetching automation name:', error)
     }
 
-    const notificationId = `notif_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    
-    const notification: FailureNotification = {
-      id: notificationId,
-      executionId: data.executionId,
-      automationId: data.automationId,
-      automationName,
-      type: data.type,
-      severity: data.severity,
-      message: data.message,
-      details: data.details,
-      createdAt: new Date(),
-      acknowledged: false
-    }
-
-    this.notifications.set(notificationId, notification)
+    const record = await prisma.automationFailureNotification.create({
+      data: {
+        executionId: data.executionId,
+        automationId: data.automationId,
+        automationName,
+        type: data.type,
+        severity: data.severity,
+        message: data.message,
+        details: JSON.stringify(data.details)
+      }
+    })
+    const notification = this.toFailureNotification(record)
 
     // Emit notification event
     this.emit('notification:created', notification)
@@ -307,7 +342,7 @@ class AutomationRetryManager extends EventEmitter {
 
     console.log(`🔔 Created ${data.severity} notification: ${data.message}`)
 
-    return notificationId
+    return notification.id
   }
 
   private async sendAlert(notification: FailureNotification) {
@@ -334,10 +369,13 @@ class AutomationRetryManager extends EventEmitter {
       this.retryTimers.delete(retryId)
     }
 
-    const retryAttempt = this.retryQueue.get(retryId)
-    if (retryAttempt) {
-      this.retryQueue.delete(retryId)
-      console.log(`❌ Cancelled retry ${retryAttempt.attempt} for ${retryAttempt.actionType}`)
+    const result = await prisma.automationRetry.updateMany({
+      where: { id: retryId, status: 'PENDING' },
+      data: { status: 'CANCELLED' }
+    })
+
+    if (result.count > 0) {
+      console.log(`❌ Cancelled retry ${retryId}`)
       return true
     }
 
@@ -345,56 +383,84 @@ class AutomationRetryManager extends EventEmitter {
   }
 
   async acknowledgeNotification(notificationId: string, acknowledgedBy: string): Promise<boolean> {
-    const notification = this.notifications.get(notificationId)
-    if (!notification) return false
-
-    notification.acknowledged = true
-    notification.acknowledgedBy = acknowledgedBy
-    notification.acknowledgedAt = new Date()
+    const result = await prisma.automationFailureNotification.updateMany({
+      where: { id: notificationId },
+      data: {
+        acknowledged: true,
+        acknowledgedBy,
+        acknowledgedAt: new Date()
+      }
+    })
+    if (result.count === 0) return false
 
-    this.emit('notification:acknowledged', notification)
+    const notification = await prisma.automationFailureNotification.findUnique({ where: { id: notificationId } })
+    if (notification) {
+      this.emit('notification:acknowledged', this.toFailureNotification(notification))
+    }
     
     console.log(`✅ Notification ${notificationId} acknowledged by ${acknowledgedBy}`)
     return true
   }
 
   async dismissNotification(notificationId: string): Promise<boolean> {
-    const notification = this.notifications.get(notificationId)
+    const notification = await prisma.automationFailureNotification.findUnique({ where: { id: notificationId } })
     if (!notification) return false
 
-    this.notifications.delete(notificationId)
-    this.emit('notification:dismissed', notification)
+    await prisma.automationFailureNotification.delete({ where: { id: notificationId } })
+    this.emit('notification:dismissed', this.toFailureNotification(notification))
     
     console.log(`🗑️ Notification ${notificationId} dismissed`)
     return true
   }
 
   // Getters
-  getPendingRetries(): RetryAttempt[] {
-    return Array.from(this.retryQueue.values())
+  async getPendingRetries(): Promise<RetryAttempt[]> {
+    const retries = await prisma.automationRetry.findMany({
+      where: { status: { in: ['PENDING', 'RUNNING'] } },
+      orderBy: { scheduledAt: 'asc' }
+    })
+    return retries.map(retry => this.toRetryAttempt(retry))
   }
 
-  getActiveNotifications(): FailureNotification[] {
-    return Array.from(this.notifications.values())
-      .filter(notif => !notif.acknowledged)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  async getRecentRetries(limit: number = 100): Promise<RetryAttempt[]> {
+    const retries = await prisma.automationRetry.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+    return retries.map(retry => this.toRetryAttempt(retry))
   }
 
-  getAllNotifications(): FailureNotification[] {
-    return Array.from(this.notifications.values())
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  async getActiveNotifications(): Promise<FailureNotification[]> {
+    const notifications = await prisma.automationFailureNotification.findMany({
+      where: { acknowledged: false },
+      orderBy: { createdAt: 'desc' }
+    })
+    return notifications.map(notification => this.toFailureNotification(notification))
   }
 
-  getRetryStats() {
-    const pendingRetries = this.getPendingRetries()
-    const notifications = this.getAllNotifications()
+  async getAllNotifications(): Promise<FailureNotification[]> {
+    const notifications = await prisma.automationFailureNotification.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: 1000
+    })
+    return notifications.map(notification => this.toFailureNotification(notification))
+  }
+
+  async getRetryStats() {
+    const [pendingRetries, activeNotifications, totalNotifications, criticalAlerts, highPriorityAlerts] = await Promise.all([
+      prisma.automationRetry.count({ where: { status: { in: ['PENDING', 'RUNNING'] } } }),
+      prisma.automationFailureNotification.count({ where: { acknowledged: false } }),
+      prisma.automationFailureNotification.count(),
+      prisma.automationFailureNotification.count({ where: { severity: 'critical', acknowledged: false } }),
+      prisma.automationFailureNotification.count({ where: { severity: 'high', acknowledged: false } })
+    ])
     
     return {
-      pendingRetries: pendingRetries.length,
-      activeNotifications: this.getActiveNotifications().length,
-      totalNotifications: notifications.length,
-      criticalAlerts: notifications.filter(n => n.severity === 'critical' && !n.acknowledged).length,
-      highPriorityAlerts: notifications.filter(n => n.severity === 'high' && !n.acknowledged).length
+      pendingRetries,
+      activeNotifications,
+      totalNotifications,
+      criticalAlerts,
+      highPriorityAlerts
     }
   }
 
@@ -406,16 +472,49 @@ class AutomationRetryManager extends EventEmitter {
     }
     this.retryTimers.clear()
 
-    // Clear old notifications (keep last 1000)
-    const allNotifications = this.getAllNotifications()
-    if (allNotifications.length > 1000) {
-      const toKeep = allNotifications.slice(0, 1000)
-      this.notifications.clear()
-      toKeep.forEach(notif => this.notifications.set(notif.id, notif))
-    }
+    // Drop acknowledged notifications past the retention window
+    const cutoff = new Date(Date.now() - NOTIFICATION_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+    await prisma.automationFailureNotification.deleteMany({
+      where: { acknowledged: true, createdAt: { lt: cutoff } }
+    })
 
     console.log('🧹 Retry manager cleanup completed')
   }
+
+  private toRetryAttempt(retry: any): RetryAttempt {
+    return {
+      id: retry.id,
+      executionId: retry.executionId,
+      automationId: retry.automationId,
+      actionType: retry.actionType,
+      actionIndex: retry.actionIndex ?? undefined,
+      targetId: retry.targetId ?? undefined,
+      attempt: retry.attempt,
+      error: retry.error,
+      status: retry.status,
+      scheduledAt: retry.scheduledAt,
+      executedAt: retry.executedAt ?? undefined,
+      success: retry.status === 'SUCCEEDED',
+      nextRetryAt: retry.nextRetryAt ?? undefined
+    }
+  }
+
+  private toFailureNotification(notification: any): FailureNotification {
+    return {
+      id: notification.id,
+      executionId: notification.executionId || '',
+      automationId: notification.automationId,
+      automationName: notification.automationName,
+      type: notification.type,
+      severity: notification.severity,
+      message: notification.message,
+      details: JSON.parse(notification.details),
+      createdAt: notification.createdAt,
+      acknowledged: notification.acknowledged,
+      acknowledgedBy: notification.acknowledgedBy ?? undefined,
+      acknowledgedAt: notification.acknowledgedAt ?? undefined
+    }
+  }
 }
 
 // Singleton instance
@@ -3,6 +3,8 @@ import cron from 'node-cron'
 import { getCronManager } from './cronJobs'
 import { executeAutomatedCampaign } from './campaignExecutor'
 import { updateLeadScoresFromDatabase } from './leadScoring'
+import { SuppressionService } from './suppressionService'
+import { TemplateContextService } from './templateContextService'
 
 const prisma = new PrismaClient()
 
@@ -286,8 +288,9 @@ class AutomationService {
 
   private async sendAutomatedMessage(target: any, config: any) {
     if (!target.contact?.phone) return
+    if (await SuppressionService.isSuppressed(target.contact.phone, config.messageType || 'WHATSAPP')) return
 
-    const message = this.personalizeMessage(config.messageTemplate, target)
+    const message = TemplateContextService.personalize(config.messageTemplate, target)
     
     // Create message record
     await prisma.message.create({
@@ -304,14 +307,6 @@ class AutomationService {
     console.log(`Sent automated message to ${target.name} (${target.contact.phone})`)
   }
 
-  private personalizeMessage(template: string, target: any): string {
-    return template
-      .replace(/\{name\}/g, target.name || 'Customer')
-      .replace(/\{loanType\}/g, target.loanType?.toLowerCase() || 'loan')
-      .replace(/\{loanAmount\}/g, target.loanAmount?.toLocaleString() || '0')
-      .replace(/\{phone\}/g, target.contact?.phone || '')
-  }
-
   private async updateLeadStatus(leadId: string, newStatus: string) {
     await prisma.lead.update({
       where: { id: leadId },
@@ -0,0 +1,216 @@
+import { PrismaClient } from '@prisma/client'
+import { AvailabilityInput, OutOfOfficeInput } from './security/validation'
+import { getLocalParts, getWeekday } from './zonedTime'
+
+const prisma = new PrismaClient()
+
+export interface WorkingSchedule {
+  maxCapacity: number
+  workingHours: { start: string; end: string }
+  workingDays: string[]
+  timeZone: string
+}
+
+export interface OutOfOfficeRange {
+  id: string
+  startDate: string
+  endDate: string
+  reason: string | null
+}
+
+export interface AvailabilityStatus {
+  isAvailable: boolean
+  reason?: string
+  outOfOfficeUntil?: string
+}
+
+type ScheduleRecord = {
+  maxCapacity: number
+  workingHoursStart: string
+  workingHoursEnd: string
+  workingDays: string
+  timeZone: string
+}
+
+const DEFAULT_WORKING_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday']
+
+const scheduleSelect = {
+  maxCapacity: true,
+  workingHoursStart: true,
+  workingHoursEnd: true,
+  workingDays: true,
+  timeZone: true
+}
+
+export class AvailabilityService {
+  static async getSchedule(userId: string): Promise<WorkingSchedule | null> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: scheduleSelect
+    })
+    return user ? this.toWorkingSchedule(user) : null
+  }
+
+  static async updateSchedule(userId: string, input: AvailabilityInput): Promise<WorkingSchedule | null> {
+    const existing = await prisma.user.findUnique({ where: { id: userId } })
+    if (!existing) return null
+
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        maxCapacity: input.maxCapacity,
+        workingHoursStart: input.workingHours?.start,
+        workingHoursEnd: input.workingHours?.end,
+        workingDays: input.workingDays ? JSON.stringify(input.workingDays) : undefined,
+        timeZone: input.timeZone
+      },
+      select: scheduleSelect
+    })
+    return this.toWorkingSchedule(user)
+  }
+
+  /**
+   * Current and upcoming out-of-office ranges
+   */
+  static async listOutOfOffice(userId: string): Promise<OutOfOfficeRange[]> {
+    const ranges = await prisma.outOfOffice.findMany({
+      where: { userId, endDate: { gte: new Date() } },
+      orderBy: { startDate: 'asc' }
+    })
+    return ranges.map(range => this.toOutOfOfficeRange(range))
+  }
+
+  static async addOutOfOffice(userId: string, input: OutOfOfficeInput): Promise<OutOfOfficeRange> {
+    const range = await prisma.outOfOffice.create({
+      data: {
+        userId,
+        startDate: input.startDate,
+        endDate: input.endDate,
+        reason: input.reason
+      }
+    })
+    return this.toOutOfOfficeRange(range)
+  }
+
+  static async removeOutOfOffice(userId: string, id: string): Promise<boolean> {
+    const result = await prisma.outOfOffice.deleteMany({ where: { id, userId } })
+    return result.count > 0
+  }
+
+  static async countActiveLeads(userId: string): Promise<number> {
+    return prisma.lead.count({
+      where: {
+        assignedToId: userId,
+        status: { notIn: ['CLOSED_WON', 'CLOSED_LOST'] }
+      }
+    })
+  }
+
+  /**
+   * Whether the user can take new leads right now: active, not out of office
+   * and inside their working schedule. Capacity is checked separately.
+   */
+  static async getAvailability(userId: string, at: Date = new Date()): Promise<AvailabilityStatus> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        ...scheduleSelect,
+        isActive: true,
+        outOfOffice: {
+          where: { startDate: { lte: at }, endDate: { gt: at } },
+          orderBy: { endDate: 'desc' },
+          take: 1
+        }
+      }
+    })
+
+    if (!user || !user.isActive) {
+      return { isAvailable: false, reason: 'User is inactive' }
+    }
+
+    if (user.outOfOffice.length > 0) {
+      return {
+        isAvailable: false,
+        reason: 'Out of office',
+        outOfOfficeUntil: user.outOfOffice[0].endDate.toISOString()
+      }
+    }
+
+    if (!this.isWithinWorkingHours(this.toWorkingSchedule(user), at)) {
+      return { isAvailable: false, reason: 'Outside working hours' }
+    }
+
+    return { isAvailable: true }
+  }
+
+  /**
+   * Availability plus capacity, for callers outside LeadAssignmentService
+   */
+  static async isAvailableForAssignment(userId: string, at: Date = new Date()): Promise<boolean> {
+    const [availability, schedule, activeLeads] = await Promise.all([
+      this.getAvailability(userId, at),
+      this.getSchedule(userId),
+      this.countActiveLeads(userId)
+    ])
+
+    return availability.isAvailable && !!schedule && activeLeads < schedule.maxCapacity
+  }
+
+  /**
+   * Check a moment against the schedule in the user's own time zone.
+   * Shifts that end before they start run past midnight.
+   */
+  static isWithinWorkingHours(schedule: WorkingSchedule, at: Date = new Date()): boolean {
+    const local = getLocalParts(at, schedule.timeZone)
+    const day = getWeekday(local)
+    const minutes = local.minutes
+    const start = this.toMinutes(schedule.workingHours.start)
+    const end = this.toMinutes(schedule.workingHours.end)
+
+    if (start <= end) {
+      return schedule.workingDays.includes(day) && minutes >= start && minutes < end
+    }
+
+    // Overnight shift: the late part belongs to today, the early part to yesterday's shift
+    if (minutes >= start) {
+      return schedule.workingDays.includes(day)
+    }
+    if (minutes < end) {
+      const previousDay = getWeekday(getLocalParts(new Date(at.getTime() - 24 * 60 * 60 * 1000), schedule.timeZone))
+      return schedule.workingDays.includes(previousDay)
+    }
+    return false
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number)
+    return hours * 60 + minutes
+  }
+
+  private static toWorkingSchedule(user: ScheduleRecord): WorkingSchedule {
+    let workingDays = DEFAULT_WORKING_DAYS
+    try {
+      workingDays = JSON.parse(user.workingDays)
+    } catch (error) {
+      console.error('Invalid working days JSON:', error)
+    }
+
+    return {
+      maxCapacity: user.maxCapacity,
+      workingHours: { start: user.workingHoursStart, end: user.workingHoursEnd },
+      workingDays,
+      timeZone: user.timeZone
+    }
+  }
+
+  private static toOutOfOfficeRange(range: { id: string; startDate: Date; endDate: Date; reason: string | null }): OutOfOfficeRange {
+    return {
+      id: range.id,
+      startDate: range.startDate.toISOString(),
+      endDate: range.endDate.toISOString(),
+      reason: range.reason
+    }
+  }
+}
+
+export default AvailabilityService
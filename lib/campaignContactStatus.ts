@@ -0,0 +1,12 @@
+/**
+ * Where a contact stands in a campaign, shared by the webhook processor that moves
+ * contacts forward and the cron manager that decides when a campaign is done
+ */
+
+// How far a campaign contact got; receipts never move a contact back
+export const CAMPAIGN_CONTACT_PROGRESS = ['QUEUED', 'SENT', 'DELIVERED', 'READ', 'REPLIED']
+
+// Contacts the campaign has finished with. HELD contacts wait for an A/B test winner
+// and IN_SEQUENCE ones for their next step, so neither counts; EXITED ones left a
+// sequence before any step was sent to them.
+export const CAMPAIGN_CONTACT_TERMINAL_STATUSES = ['SENT', 'DELIVERED', 'READ', 'REPLIED', 'FAILED', 'SUPPRESSED', 'NO_CONSENT', 'EXITED']
@@ -1,13 +1,27 @@
 /**
  * Campaign Execution Engine
- * Handles bulk messaging capabilities with SMSFresh integration and automation
+ * Queues bulk messages in the outbox for the configured messaging provider, with automation
  * Requirements: 2.3, 6.2, 6.3, 6.5
  */
 
-import { PrismaClient } from '@prisma/client'
-import { createSMSFreshService, SMSFreshResponse } from './smsFreshService'
-import { logger } from './logger'
-import { formatMessage, getTemplate } from './messageTemplates'
+import { Prisma, PrismaClient } from '@prisma/client'
+import { logger, DataSource } from './logger'
+import { DEFAULT_LANGUAGE, MessageTemplate, formatMessage } from './messageTemplates'
+import { TemplateRegistry } from './templateRegistry'
+import { TemplateContext, isRecipientVariable } from './templateEngine'
+import { TemplateContextService } from './templateContextService'
+import { LeadScoringEngine } from './leadScoringEngine'
+import { SuppressionService } from './suppressionService'
+import { ConsentService } from './consentService'
+import { SendWindowService, SendWindow } from './sendWindowService'
+import { DeferredMessageQueue } from './deferredMessageQueue'
+import { MessageOutbox, EnqueueMessageInput } from './messageOutbox'
+import { OutboxWorker } from './outboxWorker'
+import { SegmentService, NEXT_DATA_SET_SEGMENT } from './segmentService'
+import { SegmentRuleGroup } from './segmentRules'
+import { CampaignVariantService, CampaignVariant } from './campaignVariantService'
+import { CampaignSequenceService, DueEnrollment, SequenceExitCondition } from './campaignSequenceService'
+import { CampaignReportService } from './campaignReportService'
 
 const prisma = new PrismaClient()
 
@@ -20,6 +34,10 @@ export interface CampaignExecutionResult {
   messageId?: string
   automationTriggered?: boolean
   nextDataSetId?: string
+  deferredCount?: number
+  deferredUntil?: Date
+  // Handed to the outbox worker; they count as sent or failed once the worker is done with them
+  queuedCount?: number
 }
 
 export interface CampaignAutomationConfig {
@@ -36,6 +54,8 @@ export interface BulkMessageParams {
     id: string
     phone: string
     name?: string
+    language?: string
+    variantId?: string
   }>
   message: string
   type: 'SMS' | 'WHATSAPP'
@@ -43,17 +63,17 @@ export interface BulkMessageParams {
   parameters?: Record<string, string>
   mediaUrl?: string
   mediaType?: 'image' | 'video' | 'document'
+  provider?: string
+  // A/B variant the message, template and media come from
+  variantId?: string
+  // Sequence step being sent; each step is a separate message to the contact
+  stepPosition?: number
   userId: string
 }
 
 export class CampaignExecutor {
-  private smsService
+  // Pause and cancel are checked between batches; the outbox worker sends them
   private batchSize = 100
-  private batchDelay = 1000 // 1 second between batches
-
-  constructor() {
-    this.smsService = createSMSFreshService()
-  }
 
   /**
    * Execute a campaign by sending messages to all target contacts
@@ -62,6 +82,9 @@ export class CampaignExecutor {
     try {
       logger.info(`Starting campaign execution: ${campaignId}`)
 
+      await this.resolveSegmentAudience(campaignId)
+      await CampaignVariantService.prepareAudience(campaignId)
+
       // Get campaign with pending contacts
       const campaign = await prisma.campaign.findUnique({
         where: { id: campaignId },
@@ -77,12 +100,66 @@ export class CampaignExecutor {
         throw new Error('Campaign not found')
       }
 
-      // Check if campaign can be executed
-      if (!['DRAFT', 'SCHEDULED', 'PAUSED'].includes(campaign.status)) {
+      // Check if campaign can be executed. LAUNCHING: claimed by the scheduled launcher.
+      if (!['DRAFT', 'SCHEDULED', 'LAUNCHING', 'PAUSED'].includes(campaign.status)) {
         throw new Error(`Campaign cannot be executed in ${campaign.status} status`)
       }
 
+      // The recurring campaign itself is never sent; each occurrence runs a copy of it
+      if (campaign.recurrenceRule) {
+        return {
+          success: false,
+          totalProcessed: 0,
+          successCount: 0,
+          failureCount: 0,
+          errors: ['Recurring campaigns run on their schedule']
+        }
+      }
+
+      // Leave the campaign as it is until its templates are approved
+      const variants = await CampaignVariantService.getVariants(campaignId)
+      const steps = campaign.kind === 'SEQUENCE' ? await CampaignSequenceService.getSteps(campaignId) : []
+      const templateNames = steps.length > 0
+        ? steps.map(step => step.templateName)
+        : variants.length > 0
+          ? variants.map(variant => variant.templateName)
+          : [campaign.templateName]
+      for (const templateName of templateNames) {
+        if (templateName && !await TemplateRegistry.getApproved(templateName)) {
+          return {
+            success: false,
+            totalProcessed: 0,
+            successCount: 0,
+            failureCount: 0,
+            errors: [`Template '${templateName}' has no approved version`]
+          }
+        }
+      }
+
+      if (campaign.kind === 'SEQUENCE') {
+        return await this.startSequence(campaign, campaign.contacts.map(cc => cc.contactId))
+      }
+
       if (campaign.contacts.length === 0) {
+        // Contacts held back by the send window are still to come
+        const { deferredCount, nextReleaseAt } = await DeferredMessageQueue.getCampaignSummary(campaignId)
+        if (deferredCount > 0) {
+          await prisma.campaign.update({
+            where: { id: campaignId },
+            data: { status: 'RUNNING' }
+          })
+
+          return {
+            success: true,
+            totalProcessed: 0,
+            successCount: 0,
+            failureCount: 0,
+            errors: [],
+            deferredCount,
+            deferredUntil: nextReleaseAt
+          }
+        }
+
         // Mark as completed if no pending contacts
         await prisma.campaign.update({
           where: { id: campaignId },
@@ -116,7 +193,9 @@ export class CampaignExecutor {
         contacts: campaign.contacts.map(cc => ({
           id: cc.contactId,
           phone: cc.contact.phone,
-          name: cc.contact.name || undefined
+          name: cc.contact.name || undefined,
+          language: cc.contact.preferredLanguage || undefined,
+          variantId: cc.variantId || undefined
         })),
         message: campaign.message,
         type: campaign.type as 'SMS' | 'WHATSAPP',
@@ -124,25 +203,26 @@ export class CampaignExecutor {
         parameters: campaign.parameters ? JSON.parse(campaign.parameters) : undefined,
         mediaUrl: campaign.mediaUrl || undefined,
         mediaType: campaign.mediaType as 'image' | 'video' | 'document' | undefined,
+        provider: campaign.provider || undefined,
         userId
       }
 
       // Execute bulk messaging with pause/cancel checking
-      const result = await this.sendBulkMessagesWithControl(bulkParams)
+      const result = await this.sendByVariant(bulkParams, variants)
 
-      // Update campaign statistics and status
-      const finalStatus = this.determineFinalStatus(campaignId, result, campaign.contacts.length)
+      // Update campaign statistics and status. The outbox worker adds to the totals as it sends.
+      const finalStatus = await this.determineFinalStatus(campaignId, result, campaign.contacts.length)
       await prisma.campaign.update({
         where: { id: campaignId },
         data: {
-          totalSent: campaign.totalSent + result.successCount,
-          totalFailed: campaign.totalFailed + result.failureCount,
+          totalSent: { increment: result.successCount },
+          totalFailed: { increment: result.failureCount },
           status: finalStatus,
           completedAt: finalStatus === 'COMPLETED' ? new Date() : undefined
         }
       })
 
-      logger.info(`Campaign execution completed: ${campaignId}, Success: ${result.successCount}, Failed: ${result.failureCount}`)
+      logger.info(`Campaign execution completed: ${campaignId}, Queued: ${result.queuedCount || 0}, Failed: ${result.failureCount}`)
 
       return result
     } catch (error) {
@@ -169,6 +249,21 @@ export class CampaignExecutor {
     }
   }
 
+  /**
+   * Segment campaigns get their contacts when they start, so the audience is whoever
+   * matches the segment at that moment. Resuming a paused campaign keeps its audience.
+   */
+  private async resolveSegmentAudience(campaignId: string): Promise<void> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { segmentId: true, status: true }
+    })
+
+    if (!campaign?.segmentId || !['DRAFT', 'SCHEDULED', 'LAUNCHING'].includes(campaign.status)) return
+
+    await SegmentService.addToCampaign(campaign.segmentId, campaignId)
+  }
+
   /**
    * Pause a running campaign
    */
@@ -227,6 +322,18 @@ export class CampaignExecutor {
         }
       })
 
+      // Its queued messages are claimable again
+      OutboxWorker.wake()
+
+      // Contacts whose send window opened while it was paused were left PENDING
+      if (campaign.kind !== 'SEQUENCE') {
+        try {
+          await this.sendResumedContacts({ ...campaign, status: 'RUNNING' })
+        } catch (error) {
+          logger.error(DataSource.DATABASE, 'campaign_resume', `Failed to send pending contacts of resumed campaign ${campaignId}`, error)
+        }
+      }
+
       logger.info(`Campaign resumed: ${campaignId}`)
       return true
     } catch (error) {
@@ -261,6 +368,21 @@ export class CampaignExecutor {
         }
       })
 
+      const cancelledDeferrals = await DeferredMessageQueue.cancelForCampaign(campaignId)
+      if (cancelledDeferrals > 0) {
+        logger.info(`Cancelled ${cancelledDeferrals} deferred messages for campaign ${campaignId}`)
+      }
+
+      const cancelledQueued = await MessageOutbox.cancelForCampaign(campaignId)
+      if (cancelledQueued > 0) {
+        logger.info(`Cancelled ${cancelledQueued} queued messages for campaign ${campaignId}`)
+      }
+
+      const exitedEnrollments = await CampaignSequenceService.exitForCampaign(campaignId, 'CANCELLED')
+      if (exitedEnrollments > 0) {
+        logger.info(DataSource.DATABASE, 'sequence_cancel', `Ended ${exitedEnrollments} sequence enrolments for campaign ${campaignId}`)
+      }
+
       logger.info(`Campaign cancelled: ${campaignId}`)
       return true
     } catch (error) {
@@ -273,12 +395,15 @@ export class CampaignExecutor {
    * Send bulk messages with pause/cancel control
    */
   async sendBulkMessagesWithControl(params: BulkMessageParams): Promise<CampaignExecutionResult> {
-    const { contacts, type, templateName, parameters, mediaUrl, mediaType, userId, campaignId } = params
+    const { type, templateName, parameters, mediaUrl, mediaType, userId, campaignId } = params
+    const contacts = await this.getSendableContacts(params)
+    const sendWindow = await SendWindowService.getWindow(campaignId)
     
-    let successCount = 0
+    let queuedCount = 0
     let failureCount = 0
     const errors: string[] = []
     let totalProcessed = 0
+    let deferral: { deferredCount: number; deferredUntil: Date } | null = null
 
     try {
       // Process contacts in batches with status checking
@@ -299,193 +424,155 @@ export class CampaignExecutor {
           break
         }
 
-        const batch = contacts.slice(i, i + this.batchSize)
-        const phoneNumbers = batch.map(contact => contact.phone)
+        deferral = await this.deferOutsideSendWindow(params, contacts.slice(i), sendWindow)
+        if (deferral) break
 
-        logger.info(`Processing batch ${Math.floor(i / this.batchSize) + 1}: ${batch.length} contacts`)
+        const batch = contacts.slice(i, i + this.batchSize)
+        const batchNumber = Math.floor(i / this.batchSize) + 1
 
-        try {
-          let result: SMSFreshResponse
-
-          if (type === 'WHATSAPP') {
-            if (mediaUrl && mediaType) {
-              result = await this.smsService.sendWhatsAppMedia({
-                phone: phoneNumbers,
-                templateName: templateName || 'default_template',
-                parameters: parameters ? Object.values(parameters) : [],
-                mediaType,
-                mediaUrl
-              })
-            } else {
-              result = await this.smsService.sendWhatsAppText({
-                phone: phoneNumbers,
-                templateName: templateName || 'default_template',
-                parameters: parameters ? Object.values(parameters) : []
-              })
-            }
-          } else {
-            result = await this.smsService.sendSMS({
-              phone: phoneNumbers,
-              templateName: templateName || 'default_template',
-              parameters: parameters ? Object.values(parameters) : []
-            })
-          }
+        logger.info(`Processing batch ${batchNumber}: ${batch.length} contacts`)
 
-          if (result.success) {
-            successCount += batch.length
-            await this.updateContactStatuses(campaignId, batch.map(c => c.id), 'SENT', result.messageId)
-            await this.createMessageRecords(batch, params, 'SENT', result.messageId, userId)
-          } else {
-            failureCount += batch.length
-            errors.push(`Batch ${Math.floor(i / this.batchSize) + 1}: ${result.error}`)
-            await this.updateContactStatuses(campaignId, batch.map(c => c.id), 'FAILED')
-            await this.createMessageRecords(batch, params, 'FAILED', undefined, userId)
-          }
-        } catch (batchError) {
-          failureCount += batch.length
-          const errorMessage = batchError instanceof Error ? batchError.message : 'Unknown batch error'
-          errors.push(`Batch ${Math.floor(i / this.batchSize) + 1}: ${errorMessage}`)
-          logger.error(`Batch processing error:`, batchError)
-          
-          await this.updateContactStatuses(campaignId, batch.map(c => c.id), 'FAILED')
-          await this.createMessageRecords(batch, params, 'FAILED', undefined, userId)
-        }
+        const batchResult = await this.queueBatch(params, batch, batchNumber, userId)
+        queuedCount += batchResult.queuedCount
+        failureCount += batchResult.failureCount
+        errors.push(...batchResult.errors)
 
         totalProcessed += batch.length
-
-        // Update campaign progress
-        await prisma.campaign.update({
-          where: { id: campaignId },
-          data: {
-            totalSent: successCount,
-            totalFailed: failureCount,
-            updatedAt: new Date()
-          }
-        })
-
-        // Add delay between batches to respect rate limits
-        if (i + this.batchSize < contacts.length) {
-          await new Promise(resolve => setTimeout(resolve, this.batchDelay))
-        }
+        OutboxWorker.wake()
       }
 
       return {
         success: errors.length === 0,
         totalProcessed,
-        successCount,
+        successCount: 0,
         failureCount,
-        errors
+        queuedCount,
+        errors,
+        ...deferral
       }
     } catch (error) {
       logger.error('Bulk messaging failed:', error)
       return {
         success: false,
         totalProcessed,
-        successCount,
+        successCount: 0,
         failureCount,
-        errors: [...errors, error instanceof Error ? error.message : 'Unknown error']
+        queuedCount,
+        errors: [...errors, error instanceof Error ? error.message : 'Unknown error'],
+        ...deferral
       }
     }
   }
 
+  /**
+   * Send each contact the A/B variant they were assigned, one variant at a time.
+   * Without variants everyone gets the campaign message.
+   */
+  private async sendByVariant(params: BulkMessageParams, variants: CampaignVariant[]): Promise<CampaignExecutionResult> {
+    if (variants.length === 0) {
+      return this.sendBulkMessagesWithControl(params)
+    }
+
+    const combined: CampaignExecutionResult = {
+      success: true,
+      totalProcessed: 0,
+      successCount: 0,
+      failureCount: 0,
+      queuedCount: 0,
+      errors: []
+    }
+
+    for (const variant of variants) {
+      const contacts = params.contacts.filter(contact => contact.variantId === variant.id)
+      if (contacts.length === 0) continue
+
+      const result = await this.sendBulkMessagesWithControl({
+        ...params,
+        contacts,
+        message: variant.message,
+        templateName: variant.templateName,
+        parameters: variant.parameters,
+        mediaUrl: variant.mediaUrl,
+        mediaType: variant.mediaType,
+        variantId: variant.id
+      })
+
+      combined.success = combined.success && result.success
+      combined.totalProcessed += result.totalProcessed
+      combined.successCount += result.successCount
+      combined.failureCount += result.failureCount
+      combined.queuedCount! += result.queuedCount || 0
+      combined.errors.push(...result.errors)
+      if (result.deferredCount) {
+        combined.deferredCount = (combined.deferredCount || 0) + result.deferredCount
+        combined.deferredUntil = combined.deferredUntil || result.deferredUntil
+      }
+    }
+
+    return combined
+  }
+
   /**
    * Send bulk messages to multiple contacts (legacy method)
    */
   async sendBulkMessages(params: BulkMessageParams): Promise<CampaignExecutionResult> {
-    const { contacts, type, templateName, parameters, mediaUrl, mediaType, userId, campaignId } = params
+    const { type, templateName, parameters, mediaUrl, mediaType, userId, campaignId } = params
+    const contacts = await this.getSendableContacts(params)
     
-    let successCount = 0
+    let queuedCount = 0
     let failureCount = 0
     const errors: string[] = []
     let totalProcessed = 0
 
+    const sendWindow = await SendWindowService.getWindow(campaignId)
+    let deferral: { deferredCount: number; deferredUntil: Date } | null = null
+
     try {
       // Process contacts in batches
       for (let i = 0; i < contacts.length; i += this.batchSize) {
+        deferral = await this.deferOutsideSendWindow(params, contacts.slice(i), sendWindow)
+        if (deferral) break
+
         const batch = contacts.slice(i, i + this.batchSize)
-        const phoneNumbers = batch.map(contact => contact.phone)
+        const batchNumber = Math.floor(i / this.batchSize) + 1
 
-        logger.info(`Processing batch ${Math.floor(i / this.batchSize) + 1}: ${batch.length} contacts`)
+        logger.info(`Processing batch ${batchNumber}: ${batch.length} contacts`)
 
-        try {
-          let result: SMSFreshResponse
-
-          if (type === 'WHATSAPP') {
-            if (mediaUrl && mediaType) {
-              // Send WhatsApp with media
-              result = await this.smsService.sendWhatsAppMedia({
-                phone: phoneNumbers,
-                templateName: templateName || 'default_template',
-                parameters: parameters ? Object.values(parameters) : [],
-                mediaType,
-                mediaUrl
-              })
-            } else {
-              // Send WhatsApp text
-              result = await this.smsService.sendWhatsAppText({
-                phone: phoneNumbers,
-                templateName: templateName || 'default_template',
-                parameters: parameters ? Object.values(parameters) : []
-              })
-            }
-          } else {
-            // Send SMS
-            result = await this.smsService.sendSMS({
-              phone: phoneNumbers,
-              templateName: templateName || 'default_template',
-              parameters: parameters ? Object.values(parameters) : []
-            })
-          }
-
-          if (result.success) {
-            successCount += batch.length
-            await this.updateContactStatuses(campaignId, batch.map(c => c.id), 'SENT', result.messageId)
-            await this.createMessageRecords(batch, params, 'SENT', result.messageId, userId)
-          } else {
-            failureCount += batch.length
-            errors.push(`Batch ${Math.floor(i / this.batchSize) + 1}: ${result.error}`)
-            await this.updateContactStatuses(campaignId, batch.map(c => c.id), 'FAILED')
-            await this.createMessageRecords(batch, params, 'FAILED', undefined, userId)
-          }
-        } catch (batchError) {
-          failureCount += batch.length
-          const errorMessage = batchError instanceof Error ? batchError.message : 'Unknown batch error'
-          errors.push(`Batch ${Math.floor(i / this.batchSize) + 1}: ${errorMessage}`)
-          logger.error(`Batch processing error:`, batchError)
-          
-          await this.updateContactStatuses(campaignId, batch.map(c => c.id), 'FAILED')
-          await this.createMessageRecords(batch, params, 'FAILED', undefined, userId)
-        }
+        const batchResult = await this.queueBatch(params, batch, batchNumber, userId)
+        queuedCount += batchResult.queuedCount
+        failureCount += batchResult.failureCount
+        errors.push(...batchResult.errors)
 
         totalProcessed += batch.length
-
-        // Add delay between batches to respect rate limits
-        if (i + this.batchSize < contacts.length) {
-          await new Promise(resolve => setTimeout(resolve, this.batchDelay))
-        }
       }
 
+      OutboxWorker.wake()
       return {
         success: errors.length === 0,
         totalProcessed,
-        successCount,
+        successCount: 0,
         failureCount,
-        errors
+        queuedCount,
+        errors,
+        ...deferral
       }
     } catch (error) {
       logger.error('Bulk messaging failed:', error)
       return {
         success: false,
         totalProcessed,
-        successCount,
+        successCount: 0,
         failureCount,
-        errors: [...errors, error instanceof Error ? error.message : 'Unknown error']
+        queuedCount,
+        errors: [...errors, error instanceof Error ? error.message : 'Unknown error'],
+        ...deferral
       }
     }
   }
 
   /**
-   * Send immediate message to specific contacts (not part of a campaign)
+   * Queue an immediate message to specific contacts (not part of a campaign). Requests
+   * repeated with the same idempotency key queue nothing new.
    */
   async sendImmediateMessage(params: {
     contacts: Array<{ id: string; phone: string; name?: string }>
@@ -496,76 +583,81 @@ export class CampaignExecutor {
     mediaUrl?: string
     mediaType?: 'image' | 'video' | 'document'
     userId: string
+    idempotencyKey?: string
   }): Promise<CampaignExecutionResult> {
-    const { contacts, message, type, templateId, parameters, mediaUrl, mediaType, userId } = params
-
-    try {
-      // Format message if using template
-      let finalMessage = message
-      if (templateId && parameters) {
-        const formatResult = formatMessage(templateId, parameters)
-        if (formatResult.success) {
-          finalMessage = formatResult.message || message
-        }
+    const { message, type, templateId, parameters, mediaUrl, mediaType, userId } = params
+    const { allowed, suppressed } = await SuppressionService.filterSuppressed(
+      params.contacts,
+      contact => contact.phone,
+      type
+    )
+
+    if (allowed.length === 0) {
+      return {
+        success: false,
+        totalProcessed: 0,
+        successCount: 0,
+        failureCount: 0,
+        errors: [`All ${suppressed.length} recipients have opted out of ${type} messages`]
       }
+    }
 
-      const phoneNumbers = contacts.map(c => c.phone)
-      let result: SMSFreshResponse
-
-      if (type === 'WHATSAPP') {
-        if (mediaUrl && mediaType) {
-          result = await this.smsService.sendWhatsAppMedia({
-            phone: phoneNumbers,
-            templateName: templateId || 'default_template',
-            parameters: parameters ? Object.values(parameters) : [],
-            mediaType,
-            mediaUrl
-          })
-        } else {
-          result = await this.smsService.sendWhatsAppText({
-            phone: phoneNumbers,
-            templateName: templateId || 'default_template',
-            parameters: parameters ? Object.values(parameters) : []
-          })
+    let contacts = allowed
+    if (await ConsentService.isMarketingTemplate(templateId)) {
+      const { allowed: consented, blocked } = await ConsentService.filterWithConsent(allowed, type, 'MARKETING')
+
+      if (consented.length === 0) {
+        return {
+          success: false,
+          totalProcessed: 0,
+          successCount: 0,
+          failureCount: 0,
+          errors: [`${blocked.length} recipients have not consented to marketing messages`]
         }
-      } else {
-        result = await this.smsService.sendSMS({
-          phone: phoneNumbers,
-          templateName: templateId || 'default_template',
-          parameters: parameters ? Object.values(parameters) : []
-        })
       }
+      contacts = consented
+    }
 
-      // Create message records
-      const messageData = contacts.map(contact => ({
-        type,
-        direction: 'OUTBOUND' as const,
-        content: finalMessage,
-        status: result.success ? 'SENT' as const : 'FAILED' as const,
-        contactId: contact.id,
-        sentById: userId,
-        smsFreshId: result.messageId,
-        templateName: templateId,
-        parameters: parameters ? JSON.stringify(parameters) : undefined,
-        mediaUrl,
-        mediaType,
-        sentAt: result.success ? new Date() : undefined
-      }))
+    try {
+      const template = templateId ? await TemplateRegistry.resolve(templateId) : null
+      const requestKey = params.idempotencyKey || `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+      const messages: EnqueueMessageInput[] = []
+
+      for (const send of await this.splitByRecipient(template, contacts, parameters)) {
+        const context = send.context || parameters
+        // Format message if using template
+        const formatted = template && context ? formatMessage(template, context) : null
+
+        messages.push(...send.contacts.map(contact => ({
+          idempotencyKey: `manual:${requestKey}:${contact.id}`,
+          source: 'MANUAL' as const,
+          contactId: contact.id,
+          phone: contact.phone,
+          type,
+          templateName: templateId,
+          language: template?.language,
+          context,
+          parameters,
+          content: formatted?.success && formatted.message ? formatted.message : message,
+          mediaUrl,
+          mediaType,
+          sentById: userId
+        })))
+      }
 
-      await prisma.message.createMany({
-        data: messageData
-      })
+      const { queued } = await MessageOutbox.enqueue(messages)
+      OutboxWorker.wake()
 
       return {
-        success: result.success,
+        success: true,
         totalProcessed: contacts.length,
-        successCount: result.success ? contacts.length : 0,
-        failureCount: result.success ? 0 : contacts.length,
-        errors: result.success ? [] : [result.error || 'Unknown error'],
-        messageId: result.messageId
+        successCount: 0,
+        failureCount: 0,
+        queuedCount: queued,
+        errors: []
       }
     } catch (error) {
-      logger.error('Immediate message sending failed:', error)
+      logger.error('Immediate message queueing failed:', error)
       return {
         success: false,
         totalProcessed: contacts.length,
@@ -576,13 +668,354 @@ export class CampaignExecutor {
     }
   }
 
+  /**
+   * Contacts on the suppression list are marked SUPPRESSED and, for MARKETING
+   * templates, contacts without valid marketing consent are marked NO_CONSENT.
+   * Neither is sent to.
+   */
+  private async getSendableContacts(params: BulkMessageParams): Promise<BulkMessageParams['contacts']> {
+    const { allowed, suppressed } = await SuppressionService.filterSuppressed(
+      params.contacts,
+      contact => contact.phone,
+      params.type
+    )
+
+    if (suppressed.length > 0) {
+      logger.info(DataSource.DATABASE, 'campaign_suppression', `Skipping ${suppressed.length} suppressed contacts for campaign ${params.campaignId}`)
+      await this.updateContactStatuses(params.campaignId, suppressed.map(c => c.id), 'SUPPRESSED')
+    }
+
+    if (!await ConsentService.isMarketingTemplate(params.templateName)) {
+      return allowed
+    }
+
+    const { allowed: consented, blocked } = await ConsentService.filterWithConsent(allowed, params.type, 'MARKETING')
+
+    if (blocked.length > 0) {
+      logger.info(DataSource.DATABASE, 'campaign_consent', `Skipping ${blocked.length} contacts without marketing consent for campaign ${params.campaignId}`)
+      await this.updateContactStatuses(params.campaignId, blocked.map(c => c.id), 'NO_CONSENT')
+    }
+
+    return consented
+  }
+
+  /**
+   * Outside the send window the remaining contacts are marked DEFERRED and
+   * queued until the window next opens. Returns null while the window is open.
+   */
+  private async deferOutsideSendWindow(
+    params: BulkMessageParams,
+    remaining: BulkMessageParams['contacts'],
+    sendWindow: SendWindow
+  ): Promise<{ deferredCount: number; deferredUntil: Date } | null> {
+    if (remaining.length === 0 || SendWindowService.isOpen(sendWindow)) {
+      return null
+    }
+
+    const deferredUntil = SendWindowService.getNextOpening(sendWindow)
+    await DeferredMessageQueue.defer(remaining.map(contact => ({
+      source: 'CAMPAIGN' as const,
+      campaignId: params.campaignId,
+      contactId: contact.id,
+      phone: contact.phone,
+      type: params.type,
+      releaseAt: deferredUntil
+    })))
+    await this.updateContactStatuses(params.campaignId, remaining.map(c => c.id), 'DEFERRED')
+
+    logger.info(`Campaign ${params.campaignId} is outside its send window (${SendWindowService.describe(sendWindow)}), deferred ${remaining.length} contacts until ${deferredUntil.toISOString()}`)
+    return { deferredCount: remaining.length, deferredUntil }
+  }
+
+  /**
+   * Send campaign messages whose deferral has ended. Contacts of paused
+   * campaigns go back to PENDING and resumeCampaign sends them.
+   */
+  async releaseDeferredMessages(): Promise<number> {
+    const released = await DeferredMessageQueue.claimDue('CAMPAIGN')
+
+    const contactsByCampaign = new Map<string, string[]>()
+    for (const message of released) {
+      if (!message.campaignId || !message.contactId) continue
+      const contactIds = contactsByCampaign.get(message.campaignId) || []
+      contactIds.push(message.contactId)
+      contactsByCampaign.set(message.campaignId, contactIds)
+    }
+
+    for (const [campaignId, contactIds] of Array.from(contactsByCampaign.entries())) {
+      try {
+        await this.sendReleasedContacts(campaignId, contactIds)
+      } catch (error) {
+        logger.error(`Failed to release deferred messages for campaign ${campaignId}:`, error)
+      }
+    }
+
+    return released.length
+  }
+
+  private async sendReleasedContacts(campaignId: string, contactIds: string[]): Promise<void> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: {
+        contacts: {
+          where: { contactId: { in: contactIds }, status: 'DEFERRED' },
+          include: { contact: true }
+        }
+      }
+    })
+
+    if (!campaign || campaign.contacts.length === 0) return
+
+    await this.updateContactStatuses(campaignId, campaign.contacts.map(cc => cc.contactId), 'PENDING')
+    if (campaign.status !== 'RUNNING') return
+
+    logger.info(`Releasing ${campaign.contacts.length} deferred contacts for campaign ${campaignId}`)
+    await this.sendPendingContacts(campaign, campaign.contacts)
+  }
+
+  /**
+   * Send the contacts a paused campaign left PENDING, through the send window like any other send
+   */
+  private async sendResumedContacts(campaign: Prisma.CampaignGetPayload<{}>): Promise<void> {
+    const contacts = await prisma.campaignContact.findMany({
+      where: { campaignId: campaign.id, status: 'PENDING' },
+      include: { contact: true }
+    })
+    if (contacts.length === 0) return
+
+    logger.info(DataSource.DATABASE, 'campaign_resume', `Sending ${contacts.length} pending contacts of resumed campaign ${campaign.id}`)
+    await this.sendPendingContacts(campaign, contacts)
+  }
+
+  /**
+   * Send the winner of an A/B test whose window has ended to the contacts held back
+   * for it. Campaigns paused in between are sent by resumeCampaign.
+   */
+  async sendAbTestWinner(campaignId: string): Promise<number> {
+    const { winner, released } = await CampaignVariantService.selectWinner(campaignId)
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: {
+        contacts: {
+          where: { status: 'PENDING', variantId: winner.id },
+          include: { contact: true }
+        }
+      }
+    })
+
+    if (!campaign || campaign.status !== 'RUNNING' || campaign.contacts.length === 0) return released
+
+    logger.info(`Sending A/B test winner '${winner.name}' to ${campaign.contacts.length} contacts of campaign ${campaignId}`)
+    await this.sendPendingContacts(campaign, campaign.contacts)
+    return released
+  }
+
+  /**
+   * Send contacts of a running campaign their variant, or the campaign message
+   */
+  private async sendPendingContacts(
+    campaign: Prisma.CampaignGetPayload<{}>,
+    contacts: Prisma.CampaignContactGetPayload<{ include: { contact: true } }>[]
+  ): Promise<void> {
+    const campaignId = campaign.id
+    const variants = await CampaignVariantService.getVariants(campaignId)
+
+    const result = await this.sendByVariant({
+      campaignId,
+      contacts: contacts.map(cc => ({
+        id: cc.contactId,
+        phone: cc.contact.phone,
+        name: cc.contact.name || undefined,
+        language: cc.contact.preferredLanguage || undefined,
+        variantId: cc.variantId || undefined
+      })),
+      message: campaign.message,
+      type: campaign.type as 'SMS' | 'WHATSAPP',
+      templateName: campaign.templateName || undefined,
+      parameters: campaign.parameters ? JSON.parse(campaign.parameters) : undefined,
+      mediaUrl: campaign.mediaUrl || undefined,
+      mediaType: campaign.mediaType as 'image' | 'video' | 'document' | undefined,
+      provider: campaign.provider || undefined,
+      userId: campaign.createdById
+    }, variants)
+
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: {
+        totalSent: { increment: result.successCount },
+        totalFailed: { increment: result.failureCount }
+      }
+    })
+  }
+
+  /**
+   * Enrol the campaign's pending contacts in its sequence and send the steps already
+   * due. The campaign stays RUNNING while anyone is still in the sequence; the cron
+   * manager sends later steps as they come due.
+   */
+  private async startSequence(
+    campaign: Prisma.CampaignGetPayload<{}>,
+    contactIds: string[]
+  ): Promise<CampaignExecutionResult> {
+    const campaignId = campaign.id
+    const enrolled = await CampaignSequenceService.enroll(campaignId, contactIds)
+
+    if (enrolled === 0 && await CampaignSequenceService.countActive(campaignId) === 0) {
+      await prisma.campaign.update({
+        where: { id: campaignId },
+        data: { status: 'COMPLETED' }
+      })
+
+      return {
+        success: true,
+        totalProcessed: 0,
+        successCount: 0,
+        failureCount: 0,
+        errors: ['No pending contacts to process']
+      }
+    }
+
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: {
+        status: 'RUNNING',
+        sentAt: campaign.sentAt || new Date()
+      }
+    })
+
+    const due = await CampaignSequenceService.findDue({ campaignId })
+    const queuedCount = await this.sendSequenceSteps(campaignId, due)
+
+    logger.info(DataSource.DATABASE, 'sequence_start', `Sequence campaign started: ${campaignId}, Enrolled: ${enrolled}, Queued: ${queuedCount}`)
+
+    return {
+      success: true,
+      totalProcessed: enrolled,
+      successCount: 0,
+      failureCount: 0,
+      queuedCount,
+      errors: []
+    }
+  }
+
+  /**
+   * Send the sequence steps that have come due, campaign by campaign
+   */
+  async advanceSequences(): Promise<number> {
+    const due = await CampaignSequenceService.findDue()
+
+    const enrollmentsByCampaign = new Map<string, DueEnrollment[]>()
+    for (const enrollment of due) {
+      const enrollments = enrollmentsByCampaign.get(enrollment.campaignId) || []
+      enrollments.push(enrollment)
+      enrollmentsByCampaign.set(enrollment.campaignId, enrollments)
+    }
+
+    let queuedCount = 0
+    for (const [campaignId, enrollments] of Array.from(enrollmentsByCampaign.entries())) {
+      try {
+        queuedCount += await this.sendSequenceSteps(campaignId, enrollments)
+      } catch (error) {
+        logger.error(DataSource.DATABASE, 'sequence_advance', `Failed to advance sequence for campaign ${campaignId}`, error)
+      }
+    }
+
+    return queuedCount
+  }
+
+  /**
+   * Queue each due enrolment its current step and move it on to the next one.
+   * Enrolments meeting one of the step's exit conditions, or that can no longer be
+   * sent to, leave the sequence instead. Outside the send window the steps wait
+   * until it opens.
+   */
+  private async sendSequenceSteps(campaignId: string, enrollments: DueEnrollment[]): Promise<number> {
+    if (enrollments.length === 0) return 0
+
+    const campaign = await prisma.campaign.findUnique({ where: { id: campaignId } })
+    if (!campaign || campaign.status !== 'RUNNING') return 0
+
+    const sendWindow = await SendWindowService.getWindow(campaignId)
+    if (!SendWindowService.isOpen(sendWindow)) {
+      const opensAt = SendWindowService.getNextOpening(sendWindow)
+      await CampaignSequenceService.postpone(enrollments.map(enrollment => enrollment.id), opensAt)
+      logger.info(DataSource.DATABASE, 'sequence_postpone', `Campaign ${campaignId} is outside its send window (${SendWindowService.describe(sendWindow)}), postponed ${enrollments.length} sequence steps until ${opensAt.toISOString()}`)
+      return 0
+    }
+
+    const steps = await CampaignSequenceService.getSteps(campaignId)
+    const type = campaign.type as 'SMS' | 'WHATSAPP'
+    let queuedCount = 0
+    let failureCount = 0
+
+    for (const step of steps) {
+      const atStep = enrollments.filter(enrollment => enrollment.stepIndex === step.position)
+      if (atStep.length === 0) continue
+
+      const exits = await CampaignSequenceService.findExits(atStep, step, type)
+      for (const reason of ['REPLIED', 'CONVERTED', 'OPTED_OUT'] as SequenceExitCondition[]) {
+        const exited = atStep.filter(enrollment => exits.get(enrollment.id) === reason)
+        if (exited.length > 0) {
+          await CampaignSequenceService.exit(exited.map(enrollment => enrollment.id), reason)
+        }
+      }
+
+      const remaining = atStep.filter(enrollment => !exits.has(enrollment.id))
+      const params: BulkMessageParams = {
+        campaignId,
+        contacts: remaining.map(enrollment => ({ id: enrollment.contactId, ...enrollment.contact })),
+        message: step.message,
+        type,
+        templateName: step.templateName,
+        parameters: step.parameters,
+        mediaUrl: step.mediaUrl,
+        mediaType: step.mediaType,
+        provider: campaign.provider || undefined,
+        stepPosition: step.position,
+        userId: campaign.createdById
+      }
+
+      const contacts = await this.getSendableContacts(params)
+      const sendable = new Set(contacts.map(contact => contact.id))
+      const notSendable = remaining.filter(enrollment => !sendable.has(enrollment.contactId))
+      if (notSendable.length > 0) {
+        await CampaignSequenceService.exit(notSendable.map(enrollment => enrollment.id), 'NOT_SENDABLE')
+      }
+
+      for (let i = 0; i < contacts.length; i += this.batchSize) {
+        const batchResult = await this.queueBatch(params, contacts.slice(i, i + this.batchSize), Math.floor(i / this.batchSize) + 1, campaign.createdById)
+        queuedCount += batchResult.queuedCount
+        failureCount += batchResult.failureCount
+      }
+
+      await CampaignSequenceService.advance(
+        remaining.filter(enrollment => sendable.has(enrollment.contactId)).map(enrollment => enrollment.id),
+        steps,
+        step
+      )
+
+      logger.info(DataSource.DATABASE, 'sequence_step', `Campaign ${campaignId} step ${step.position + 1}: queued ${contacts.length}, ${atStep.length - contacts.length} left the sequence`)
+    }
+
+    if (failureCount > 0) {
+      await prisma.campaign.update({
+        where: { id: campaignId },
+        data: { totalFailed: { increment: failureCount } }
+      })
+    }
+
+    OutboxWorker.wake()
+    return queuedCount
+  }
+
   /**
    * Update campaign contact statuses
    */
   private async updateContactStatuses(
     campaignId: string,
     contactIds: string[],
-    status: 'SENT' | 'FAILED' | 'DELIVERED' | 'READ' | 'REPLIED',
+    status: 'PENDING' | 'QUEUED' | 'SENT' | 'FAILED' | 'DELIVERED' | 'READ' | 'REPLIED' | 'SUPPRESSED' | 'NO_CONSENT' | 'DEFERRED',
     messageId?: string
   ): Promise<void> {
     const updateData: any = {
@@ -602,6 +1035,124 @@ export class CampaignExecutor {
     })
   }
 
+  /**
+   * Queue a batch in the outbox. With a template, contacts are queued the variant in their
+   * preferred language, and contacts whose language has no approved variant get the English one.
+   */
+  private async queueBatch(
+    params: BulkMessageParams,
+    batch: BulkMessageParams['contacts'],
+    batchNumber: number,
+    userId: string
+  ): Promise<{ queuedCount: number; failureCount: number; errors: string[] }> {
+    const outcome = { queuedCount: 0, failureCount: 0, errors: [] as string[] }
+    let groups: Array<{ template: MessageTemplate | null; contacts: BulkMessageParams['contacts'] }>
+
+    try {
+      groups = await this.groupByTemplateVariant(params.templateName, batch)
+    } catch (error) {
+      outcome.failureCount += batch.length
+      outcome.errors.push(`Batch ${batchNumber}: ${error instanceof Error ? error.message : 'Unknown batch error'}`)
+      await this.updateContactStatuses(params.campaignId, batch.map(c => c.id), 'FAILED')
+      await this.createMessageRecords(batch, params, 'FAILED', userId)
+      return outcome
+    }
+
+    const messages: EnqueueMessageInput[] = []
+    for (const { template, contacts } of groups) {
+      for (const send of await this.splitByRecipient(template, contacts, params.parameters)) {
+        const content = this.renderContent(params, template, send.context)
+        messages.push(...send.contacts.map(contact => ({
+          // One message per contact and campaign (or sequence step), however often the campaign is executed
+          idempotencyKey: params.stepPosition === undefined
+            ? `campaign:${params.campaignId}:${contact.id}`
+            : `campaign:${params.campaignId}:${contact.id}:step:${params.stepPosition}`,
+          source: 'CAMPAIGN' as const,
+          campaignId: params.campaignId,
+          contactId: contact.id,
+          phone: contact.phone,
+          type: params.type,
+          provider: params.provider,
+          templateName: params.templateName,
+          language: template?.language,
+          variantId: params.variantId,
+          context: send.context || params.parameters,
+          parameters: params.parameters,
+          content,
+          mediaUrl: params.mediaUrl,
+          mediaType: params.mediaType,
+          sentById: userId
+        })))
+      }
+    }
+
+    await MessageOutbox.enqueue(messages)
+    await this.updateContactStatuses(params.campaignId, batch.map(c => c.id), 'QUEUED')
+    outcome.queuedCount += batch.length
+
+    return outcome
+  }
+
+  /**
+   * Split contacts by the template variant they will receive
+   */
+  private async groupByTemplateVariant(
+    templateName: string | undefined,
+    contacts: BulkMessageParams['contacts']
+  ): Promise<Array<{ template: MessageTemplate | null; contacts: BulkMessageParams['contacts'] }>> {
+    if (!templateName) return [{ template: null, contacts }]
+
+    const variants = new Map<string, MessageTemplate>()
+    const groups = new Map<string, { template: MessageTemplate; contacts: BulkMessageParams['contacts'] }>()
+
+    for (const contact of contacts) {
+      const requested = contact.language || DEFAULT_LANGUAGE
+      let template = variants.get(requested)
+      if (!template) {
+        template = await TemplateRegistry.resolve(templateName, requested)
+        variants.set(requested, template)
+      }
+
+      const language = template.language || DEFAULT_LANGUAGE
+      const group = groups.get(language) || { template, contacts: [] }
+      group.contacts.push(contact)
+      groups.set(language, group)
+    }
+
+    return Array.from(groups.values())
+  }
+
+  /**
+   * Templates that use contact or lead fields are sent one contact at a time, each with
+   * their own fields alongside the campaign parameters. Other templates go to the whole
+   * group at once and have no per-contact context.
+   */
+  private async splitByRecipient<T extends { id: string; phone: string }>(
+    template: MessageTemplate | null,
+    contacts: T[],
+    parameters: Record<string, string> = {}
+  ): Promise<Array<{ contacts: T[]; context?: TemplateContext }>> {
+    if (!template || !template.parameters.some(isRecipientVariable)) {
+      return [{ contacts }]
+    }
+
+    const contexts = await TemplateContextService.forContacts(contacts.map(contact => contact.id))
+    return contacts.map(contact => ({
+      contacts: [contact],
+      context: { ...contexts.get(contact.id), ...parameters }
+    }))
+  }
+
+  /**
+   * The campaign message is the English text; translated and personalised variants are recorded as sent
+   */
+  private renderContent(params: BulkMessageParams, template?: MessageTemplate | null, context?: TemplateContext): string {
+    const rendered = template && (context || template.language !== DEFAULT_LANGUAGE)
+      ? formatMessage(template, context || params.parameters || {})
+      : null
+    return rendered?.success && rendered.message ? rendered.message : params.message
+  }
+
   /**
    * Create message records for tracking
    */
@@ -609,22 +1160,23 @@ export class CampaignExecutor {
     contacts: Array<{ id: string; phone: string; name?: string }>,
     params: BulkMessageParams,
     status: 'SENT' | 'FAILED',
-    messageId?: string,
     userId?: string
   ): Promise<void> {
+    const content = this.renderContent(params)
+
     const messageData = contacts.map(contact => ({
       type: params.type,
       direction: 'OUTBOUND' as const,
-      content: params.message,
+      content,
       status,
       contactId: contact.id,
       campaignId: params.campaignId,
       sentById: userId || params.userId,
-      smsFreshId: messageId,
       templateName: params.templateName,
       parameters: params.parameters ? JSON.stringify(params.parameters) : undefined,
       mediaUrl: params.mediaUrl,
       mediaType: params.mediaType,
+      variantId: params.variantId,
       sentAt: status === 'SENT' ? new Date() : undefined
     }))
 
@@ -643,6 +1195,17 @@ export class CampaignExecutor {
     deliveredCount: number
     failedCount: number
     pendingCount: number
+    queuedCount: number
+    deferredCount: number
+    nextReleaseAt?: Date
+    heldCount: number
+    abTestEndsAt?: Date
+    scheduledAt?: Date
+    scheduledTimeZone?: string
+    launchedAt?: Date
+    launchLagMs?: number
+    launchError?: string
+    sendWindow: SendWindow
   }> {
     const campaign = await prisma.campaign.findUnique({
       where: { id: campaignId },
@@ -662,6 +1225,9 @@ export class CampaignExecutor {
     const deliveredCount = campaign.contacts.filter(cc => cc.status === 'DELIVERED').length
     const failedCount = campaign.contacts.filter(cc => cc.status === 'FAILED').length
     const pendingCount = campaign.contacts.filter(cc => cc.status === 'PENDING').length
+    const queuedCount = campaign.contacts.filter(cc => cc.status === 'QUEUED').length
+    const heldCount = campaign.contacts.filter(cc => cc.status === 'HELD').length
+    const { deferredCount, nextReleaseAt } = await DeferredMessageQueue.getCampaignSummary(campaignId)
 
     return {
       status: campaign.status,
@@ -669,7 +1235,18 @@ export class CampaignExecutor {
       sentCount,
       deliveredCount,
       failedCount,
-      pendingCount
+      pendingCount,
+      queuedCount,
+      deferredCount,
+      nextReleaseAt,
+      heldCount,
+      abTestEndsAt: campaign.abTestEndsAt || undefined,
+      scheduledAt: campaign.scheduledAt || undefined,
+      scheduledTimeZone: campaign.scheduledTimeZone || undefined,
+      launchedAt: campaign.launchedAt || undefined,
+      launchLagMs: campaign.launchLagMs ?? undefined,
+      launchError: campaign.launchError || undefined,
+      sendWindow: await SendWindowService.getWindow(campaignId)
     }
   }
 
@@ -695,19 +1272,22 @@ export class CampaignExecutor {
       const result = await this.executeCampaign(campaignId, userId)
 
       if (result.success && result.totalProcessed > 0) {
-        // Mark processed contacts to prevent duplicates
-        if (automationConfig.markProcessedContacts) {
-          await this.markProcessedContacts(campaignId)
-        }
+        // While the outbox is still sending, the campaign status job does these once the campaign completes
+        if (!result.queuedCount) {
+          // Mark processed contacts to prevent duplicates
+          if (automationConfig.markProcessedContacts) {
+            await this.markProcessedContacts(campaignId)
+          }
 
-        // Generate performance report
-        if (automationConfig.generatePerformanceReport) {
-          await this.generateCampaignReport(campaignId)
-        }
+          // Generate performance report
+          if (automationConfig.generatePerformanceReport) {
+            await this.generateCampaignReport(campaignId)
+          }
 
-        // Update lead scoring
-        if (automationConfig.leadScoringUpdate) {
-          await this.updateLeadScoresForCampaign(campaignId)
+          // Update lead scoring
+          if (automationConfig.leadScoringUpdate) {
+            await this.updateLeadScoresForCampaign(campaignId)
+          }
         }
 
         // Auto-progress to next data set
@@ -802,25 +1382,17 @@ export class CampaignExecutor {
 
       if (!campaign) return undefined
 
-      // Get contacts that haven't been contacted recently (more than 7 days)
-      const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
-      
-      const nextDataSet = await prisma.contact.findMany({
-        where: {
-          isActive: true,
-          OR: [
-            { lastContact: null },
-            { lastContact: { lt: sevenDaysAgo } }
-          ],
-          // Exclude contacts from current campaign
-          NOT: {
-            campaigns: {
-              some: { campaignId }
-            }
-          }
-        },
-        take: 1000, // Limit to reasonable batch size
-        orderBy: { createdAt: 'asc' }
+      // The next data set is defined by a built-in segment admins can edit. A segment
+      // campaign stays within its own segment.
+      const nextDataSetSegment = await SegmentService.getSystemSegment(NEXT_DATA_SET_SEGMENT)
+      const campaignSegment = campaign.segmentId ? await SegmentService.get(campaign.segmentId) : null
+      const rules: SegmentRuleGroup = campaignSegment
+        ? { combinator: 'AND', rules: [nextDataSetSegment.rules, campaignSegment.rules] }
+        : nextDataSetSegment.rules
+
+      const nextDataSet = await SegmentService.resolveContactIds(rules, {
+        excludeCampaignId: campaignId,
+        limit: 1000 // Limit to reasonable batch size
       })
 
       if (nextDataSet.length > 0) {
@@ -834,15 +1406,16 @@ export class CampaignExecutor {
             parameters: campaign.parameters,
             mediaUrl: campaign.mediaUrl,
             mediaType: campaign.mediaType,
+            provider: campaign.provider,
             status: 'DRAFT',
             createdById: campaign.createdById
           }
         })
 
         // Add contacts to the new campaign
-        const campaignContacts = nextDataSet.map(contact => ({
+        const campaignContacts = nextDataSet.map(contactId => ({
           campaignId: nextCampaign.id,
-          contactId: contact.id
+          contactId
         }))
 
         await prisma.campaignContact.createMany({
@@ -861,59 +1434,30 @@ export class CampaignExecutor {
   }
 
   /**
-   * Generate automated campaign performance report
+   * Store a performance report snapshot for the finished campaign
    * Requirement: 6.5
    */
   private async generateCampaignReport(campaignId: string): Promise<void> {
     try {
+      const report = await CampaignReportService.createSnapshot(campaignId, 'COMPLETED')
       const campaign = await prisma.campaign.findUnique({
         where: { id: campaignId },
-        include: {
-          contacts: true,
-          messages: true,
-          createdBy: true
-        }
+        select: { name: true, createdById: true }
       })
-
       if (!campaign) return
 
-      const report = {
-        campaignId,
-        campaignName: campaign.name,
-        executedAt: new Date().toISOString(),
-        totalContacts: campaign.contacts.length,
-        sentCount: campaign.totalSent,
-        deliveredCount: campaign.totalDelivered,
-        failedCount: campaign.totalFailed,
-        replyCount: campaign.totalReplies,
-        deliveryRate: campaign.totalSent > 0 ? (campaign.totalDelivered / campaign.totalSent * 100).toFixed(2) : '0',
-        responseRate: campaign.totalSent > 0 ? (campaign.totalReplies / campaign.totalSent * 100).toFixed(2) : '0',
-        executedBy: campaign.createdBy.name,
-        type: campaign.type,
-        templateUsed: campaign.templateName,
-        mediaIncluded: !!campaign.mediaUrl,
-        duration: campaign.sentAt && campaign.updatedAt 
-          ? Math.round((campaign.updatedAt.getTime() - campaign.sentAt.getTime()) / 1000 / 60) 
-          : 0,
-        costEstimate: this.calculateCampaignCost(campaign.totalSent, campaign.type),
-        recommendations: this.generateRecommendations(campaign)
-      }
-
-      // Store report in database (you could create a CampaignReport model)
-      logger.info(`Generated performance report for campaign ${campaignId}:`, report)
-
       // Create activity record for the report
       await prisma.activity.create({
         data: {
           type: 'NOTE',
           title: `Campaign Report Generated`,
-          description: `Performance report generated for campaign "${campaign.name}". Delivery Rate: ${report.deliveryRate}%, Response Rate: ${report.responseRate}%`,
+          description: `Performance report generated for campaign "${campaign.name}". Delivery Rate: ${report.snapshot.metrics.deliveryRate}%, Response Rate: ${report.snapshot.metrics.responseRate}%`,
           userId: campaign.createdById
         }
       })
 
     } catch (error) {
-      logger.error(`Failed to generate campaign report for ${campaignId}:`, error)
+      logger.error(DataSource.DATABASE, 'campaign_report', `Failed to generate campaign report for ${campaignId}`, error)
     }
   }
 
@@ -945,11 +1489,12 @@ export class CampaignExecutor {
             if (cc.status === 'FAILED') scoreAdjustment -= 5
 
             if (scoreAdjustment !== 0) {
-              // Update lead score (assuming there's a score field)
-              await prisma.lead.update({
-                where: { id: lead.id },
-                data: { updatedAt: new Date() }
-              })
+              await LeadScoringEngine.adjustLeadScore(
+                lead.id,
+                scoreAdjustment,
+                [`Campaign ${campaignId}: message ${cc.status.toLowerCase()}`],
+                'CAMPAIGN'
+              )
             }
           }
         }
@@ -1005,45 +1550,6 @@ export class CampaignExecutor {
     }
   }
 
-  /**
-   * Calculate estimated campaign cost
-   */
-  private calculateCampaignCost(messageCount: number, type: string): number {
-    // Rough cost estimates (adjust based on actual SMS/WhatsApp pricing)
-    const costPerSMS = 0.05 // $0.05 per SMS
-    const costPerWhatsApp = 0.03 // $0.03 per WhatsApp message
-    
-    return messageCount * (type === 'SMS' ? costPerSMS : costPerWhatsApp)
-  }
-
-  /**
-   * Generate campaign recommendations
-   */
-  private generateRecommendations(campaign: any): string[] {
-    const recommendations: string[] = []
-    
-    const deliveryRate = campaign.totalSent > 0 ? (campaign.totalDelivered / campaign.totalSent) : 0
-    const responseRate = campaign.totalSent > 0 ? (campaign.totalReplies / campaign.totalSent) : 0
-
-    if (deliveryRate < 0.8) {
-      recommendations.push('Low delivery rate detected. Consider cleaning your contact list and removing invalid numbers.')
-    }
-
-    if (responseRate < 0.02) {
-      recommendations.push('Low response rate. Consider A/B testing different message templates or timing.')
-    }
-
-    if (campaign.type === 'SMS' && responseRate > 0.05) {
-      recommendations.push('Good SMS response rate. Consider switching to WhatsApp for richer media content.')
-    }
-
-    if (!campaign.templateName) {
-      recommendations.push('Consider using message templates for better personalization and compliance.')
-    }
-
-    return recommendations
-  }
-
   /**
    * Determine final campaign status based on execution result
    */
@@ -1059,6 +1565,19 @@ export class CampaignExecutor {
       return campaign.status
     }
 
+    // Queued messages are still to be sent by the outbox worker
+    if (result.queuedCount) {
+      return 'RUNNING'
+    }
+
+    // Contacts held back for the winner of an A/B test are still to be sent
+    const heldCount = await prisma.campaignContact.count({
+      where: { campaignId, status: 'HELD' }
+    })
+    if (heldCount > 0) {
+      return 'RUNNING'
+    }
+
     // If all contacts were processed, mark as completed
     if (result.totalProcessed === totalContacts) {
       return 'COMPLETED'
@@ -0,0 +1,138 @@
+import { hostname } from 'os'
+import { PrismaClient } from '@prisma/client'
+import { logger, DataSource } from './logger'
+import { getCampaignExecutor, CampaignExecutionResult } from './campaignExecutor'
+
+const prisma = new PrismaClient()
+
+// Long enough for a launch to finish; a lease left by a crashed instance is taken over after this
+const LEASE_MS = 5 * 60 * 1000
+// A launch that did not start the campaign, e.g. an unapproved template, is tried again after this
+const RETRY_MS = 5 * 60 * 1000
+const CLAIM_LIMIT = 20
+
+export interface LaunchOutcome {
+  campaignId: string
+  launchedAt: Date
+  lagMs: number
+  result: CampaignExecutionResult
+}
+
+/**
+ * Starts scheduled campaigns when their scheduledAt comes. Each launch is claimed by
+ * moving the campaign from SCHEDULED to LAUNCHING with a lease, so only one instance
+ * starts it, and a launch cut short by a restart is taken over once the lease expires.
+ * Until then the campaign can still be edited and rescheduled.
+ */
+export class CampaignLauncher {
+  private static readonly instanceId = `${hostname()}:${process.pid}`
+  private static running: Promise<LaunchOutcome[]> | null = null
+
+  /**
+   * Launch the campaigns that are due. Calls during a run join it instead of starting
+   * a second one.
+   */
+  static launchDue(): Promise<LaunchOutcome[]> {
+    if (!this.running) {
+      this.running = this.launchAll(new Date()).finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  private static async launchAll(now: Date): Promise<LaunchOutcome[]> {
+    const due = await prisma.campaign.findMany({
+      where: {
+        status: { in: ['SCHEDULED', 'LAUNCHING'] },
+        scheduledAt: { lte: now },
+        // Recurring campaigns start copies of themselves instead
+        recurrenceRule: null,
+        OR: [
+          { launchLeaseExpiresAt: null },
+          { launchLeaseExpiresAt: { lt: now } }
+        ]
+      },
+      select: { id: true, scheduledAt: true, createdById: true },
+      orderBy: { scheduledAt: 'asc' },
+      take: CLAIM_LIMIT
+    })
+
+    const outcomes: LaunchOutcome[] = []
+    for (const campaign of due) {
+      try {
+        const outcome = await this.launch(campaign.id, campaign.scheduledAt!, campaign.createdById)
+        if (outcome) outcomes.push(outcome)
+      } catch (error) {
+        logger.error(DataSource.DATABASE, 'campaign_launch', `Failed to launch campaign ${campaign.id}`, error)
+      }
+    }
+
+    return outcomes
+  }
+
+  /**
+   * Claim and start one campaign. Returns null when it was rescheduled, edited or
+   * claimed elsewhere since it was found.
+   */
+  private static async launch(campaignId: string, scheduledAt: Date, userId: string): Promise<LaunchOutcome | null> {
+    const launchedAt = new Date()
+    const lagMs = launchedAt.getTime() - scheduledAt.getTime()
+
+    // The claim only matches the schedule that was found, so a reschedule in between wins
+    const { count } = await prisma.campaign.updateMany({
+      where: {
+        id: campaignId,
+        status: { in: ['SCHEDULED', 'LAUNCHING'] },
+        scheduledAt,
+        OR: [
+          { launchLeaseExpiresAt: null },
+          { launchLeaseExpiresAt: { lt: launchedAt } }
+        ]
+      },
+      data: {
+        status: 'LAUNCHING',
+        launchLeaseOwner: this.instanceId,
+        launchLeaseExpiresAt: new Date(launchedAt.getTime() + LEASE_MS),
+        launchedAt,
+        launchLagMs: lagMs,
+        launchError: null
+      }
+    })
+    if (count === 0) return null
+
+    logger.info(DataSource.DATABASE, 'campaign_launch', `Launching campaign ${campaignId}, ${Math.round(lagMs / 1000)}s after its scheduled time`)
+
+    const result = await getCampaignExecutor().executeAutomatedCampaign(campaignId, userId, {
+      markProcessedContacts: true,
+      autoProgressToNextDataSet: true,
+      generatePerformanceReport: true,
+      triggerFollowUpCampaigns: false,
+      leadScoringUpdate: true
+    })
+
+    // Started (or ended) campaigns have left LAUNCHING; anything else goes back to SCHEDULED to be retried
+    const { count: released } = await prisma.campaign.updateMany({
+      where: { id: campaignId, status: 'LAUNCHING', launchLeaseOwner: this.instanceId },
+      data: {
+        status: 'SCHEDULED',
+        launchLeaseExpiresAt: new Date(Date.now() + RETRY_MS),
+        launchedAt: null,
+        launchLagMs: null,
+        launchError: result.errors.join('; ') || 'Campaign did not start'
+      }
+    })
+    if (released > 0) {
+      logger.warn(DataSource.DATABASE, 'campaign_launch', `Campaign ${campaignId} did not start, retrying in ${RETRY_MS / 60000} minutes: ${result.errors.join('; ')}`)
+    } else {
+      await prisma.campaign.updateMany({
+        where: { id: campaignId, launchLeaseOwner: this.instanceId },
+        data: { launchLeaseOwner: null, launchLeaseExpiresAt: null }
+      })
+    }
+
+    return { campaignId, launchedAt, lagMs, result }
+  }
+}
+
+export default CampaignLauncher
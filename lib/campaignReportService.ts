@@ -0,0 +1,467 @@
+import { PrismaClient } from '@prisma/client'
+import * as XLSX from 'xlsx'
+import { logger, DataSource } from './logger'
+import { ContactLanguageService, LanguageBreakdown } from './contactLanguageService'
+import { CampaignVariantService, VariantResult } from './campaignVariantService'
+import { CampaignSequenceService, SequenceProgress } from './campaignSequenceService'
+import { PdfDocument } from './pdfDocument'
+
+const prisma = new PrismaClient()
+
+// Rough per-message cost estimates in USD; adjust to the provider's actual pricing
+const COST_PER_MESSAGE: Record<string, number> = {
+  SMS: 0.05,
+  WHATSAPP: 0.03
+}
+
+export type CampaignReportTrigger = 'COMPLETED' | 'MANUAL'
+
+export interface CampaignReportSnapshot {
+  campaign: {
+    id: string
+    name: string
+    type: string
+    kind: string
+    status: string
+    templateName: string | null
+    createdBy: string
+    createdAt: string
+    scheduledAt: string | null
+    launchedAt: string | null
+    launchLagMs: number | null
+    sentAt: string | null
+  }
+  metrics: {
+    totalContacts: number
+    sentCount: number
+    deliveredCount: number
+    readCount: number
+    repliedCount: number
+    failedCount: number
+    skippedCount: number
+    deliveryRate: number
+    readRate: number
+    responseRate: number
+  }
+  performance: {
+    durationMinutes: number
+    messagesPerMinute: number
+    estimatedCost: number
+    costPerResponse: number | null
+    averageResponseHours: number | null
+    peakHour: number | null
+  }
+  languages: LanguageBreakdown[]
+  variants: VariantResult[]
+  sequence: SequenceProgress | null
+  recommendations: string[]
+  generatedAt: string
+}
+
+export interface StoredCampaignReport {
+  id: string
+  campaignId: string
+  campaignName: string
+  trigger: CampaignReportTrigger
+  createdById: string | null
+  createdAt: Date
+  snapshot: CampaignReportSnapshot
+}
+
+export interface ReportComparisonRow {
+  metric: string
+  label: string
+  a: number | null
+  b: number | null
+  // b - a
+  difference: number | null
+}
+
+export interface ReportComparison {
+  a: StoredCampaignReport
+  b: StoredCampaignReport
+  rows: ReportComparisonRow[]
+}
+
+export type CampaignReportErrorCode = 'NOT_FOUND'
+
+/**
+ * A report request the service refused, as opposed to a database failure
+ */
+export class CampaignReportError extends Error {
+  constructor(message: string, readonly code: CampaignReportErrorCode) {
+    super(message)
+    this.name = 'CampaignReportError'
+  }
+}
+
+// HTTP status the API routes answer with for each refusal
+export const CAMPAIGN_REPORT_ERROR_STATUS: Record<CampaignReportErrorCode, number> = {
+  NOT_FOUND: 404
+}
+
+// Metrics compared side by side, in display order
+const COMPARED_METRICS: Array<{ metric: string; label: string; value: (snapshot: CampaignReportSnapshot) => number | null }> = [
+  { metric: 'totalContacts', label: 'Contacts', value: snapshot => snapshot.metrics.totalContacts },
+  { metric: 'sentCount', label: 'Sent', value: snapshot => snapshot.metrics.sentCount },
+  { metric: 'deliveredCount', label: 'Delivered', value: snapshot => snapshot.metrics.deliveredCount },
+  { metric: 'repliedCount', label: 'Replies', value: snapshot => snapshot.metrics.repliedCount },
+  { metric: 'failedCount', label: 'Failed', value: snapshot => snapshot.metrics.failedCount },
+  { metric: 'deliveryRate', label: 'Delivery rate (%)', value: snapshot => snapshot.metrics.deliveryRate },
+  { metric: 'readRate', label: 'Read rate (%)', value: snapshot => snapshot.metrics.readRate },
+  { metric: 'responseRate', label: 'Response rate (%)', value: snapshot => snapshot.metrics.responseRate },
+  { metric: 'estimatedCost', label: 'Estimated cost ($)', value: snapshot => snapshot.performance.estimatedCost },
+  { metric: 'costPerResponse', label: 'Cost per response ($)', value: snapshot => snapshot.performance.costPerResponse },
+  { metric: 'averageResponseHours', label: 'Average response time (h)', value: snapshot => snapshot.performance.averageResponseHours },
+  { metric: 'durationMinutes', label: 'Duration (min)', value: snapshot => snapshot.performance.durationMinutes }
+]
+
+/**
+ * Campaign performance reports. A report is a snapshot of the numbers at one moment,
+ * stored as taken and never updated, so it can be exported or compared later even
+ * after the campaign's contacts and messages have moved on.
+ */
+export class CampaignReportService {
+  /**
+   * Take a snapshot of a campaign's performance and store it
+   */
+  static async createSnapshot(
+    campaignId: string,
+    trigger: CampaignReportTrigger,
+    createdById?: string
+  ): Promise<StoredCampaignReport> {
+    const snapshot = await this.buildSnapshot(campaignId)
+
+    const record = await prisma.campaignReport.create({
+      data: {
+        campaignId,
+        campaignName: snapshot.campaign.name,
+        trigger,
+        snapshot: JSON.stringify(snapshot),
+        createdById
+      }
+    })
+
+    logger.info(DataSource.DATABASE, 'campaign_report', `Stored ${trigger.toLowerCase()} report ${record.id} for campaign ${campaignId}`)
+    return this.toStored(record)
+  }
+
+  static async listReports(campaignId: string): Promise<StoredCampaignReport[]> {
+    const records = await prisma.campaignReport.findMany({
+      where: { campaignId },
+      orderBy: { createdAt: 'desc' }
+    })
+    return records.map(record => this.toStored(record))
+  }
+
+  static async getReport(reportId: string): Promise<StoredCampaignReport> {
+    const record = await prisma.campaignReport.findUnique({ where: { id: reportId } })
+    if (!record) {
+      throw new CampaignReportError('Report not found', 'NOT_FOUND')
+    }
+    return this.toStored(record)
+  }
+
+  /**
+   * Two stored reports side by side, usually of two campaigns
+   */
+  static async compare(reportIdA: string, reportIdB: string): Promise<ReportComparison> {
+    const [a, b] = await Promise.all([this.getReport(reportIdA), this.getReport(reportIdB)])
+
+    return {
+      a,
+      b,
+      rows: COMPARED_METRICS.map(({ metric, label, value }) => {
+        const valueA = value(a.snapshot)
+        const valueB = value(b.snapshot)
+        return {
+          metric,
+          label,
+          a: valueA,
+          b: valueB,
+          difference: valueA !== null && valueB !== null ? round(valueB - valueA) : null
+        }
+      })
+    }
+  }
+
+  static async buildSnapshot(campaignId: string): Promise<CampaignReportSnapshot> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: {
+        contacts: { select: { status: true, sentAt: true, repliedAt: true } },
+        messages: {
+          select: { direction: true, language: true, status: true, sentAt: true, deliveredAt: true, repliedAt: true }
+        },
+        createdBy: { select: { name: true } },
+        _count: { select: { variants: true, steps: true } }
+      }
+    })
+    if (!campaign) {
+      throw new CampaignReportError('Campaign not found', 'NOT_FOUND')
+    }
+
+    const countStatuses = (statuses: string[]) => campaign.contacts.filter(cc => statuses.includes(cc.status)).length
+    const totalContacts = campaign.contacts.length
+    const sentCount = countStatuses(['SENT', 'DELIVERED', 'READ', 'REPLIED'])
+    const deliveredCount = countStatuses(['DELIVERED', 'READ', 'REPLIED'])
+    const readCount = countStatuses(['READ', 'REPLIED'])
+    const repliedCount = countStatuses(['REPLIED'])
+    const failedCount = countStatuses(['FAILED'])
+    const skippedCount = countStatuses(['SUPPRESSED', 'NO_CONSENT'])
+
+    const durationMinutes = campaign.sentAt
+      ? Math.round((campaign.updatedAt.getTime() - campaign.sentAt.getTime()) / 1000 / 60)
+      : 0
+    // Sequences send several messages per contact
+    const outboundCount = campaign.messages.filter(message => message.direction === 'OUTBOUND' && message.status !== 'FAILED').length
+    const estimatedCost = round(Math.max(outboundCount, sentCount) * (COST_PER_MESSAGE[campaign.type] ?? COST_PER_MESSAGE.SMS))
+
+    const responseTimes = campaign.contacts
+      .filter(cc => cc.status === 'REPLIED' && cc.sentAt && cc.repliedAt)
+      .map(cc => cc.repliedAt!.getTime() - cc.sentAt!.getTime())
+
+    const metrics = {
+      totalContacts,
+      sentCount,
+      deliveredCount,
+      readCount,
+      repliedCount,
+      failedCount,
+      skippedCount,
+      deliveryRate: percentage(deliveredCount, sentCount),
+      readRate: percentage(readCount, deliveredCount),
+      responseRate: percentage(repliedCount, sentCount)
+    }
+
+    return {
+      campaign: {
+        id: campaign.id,
+        name: campaign.name,
+        type: campaign.type,
+        kind: campaign.kind,
+        status: campaign.status,
+        templateName: campaign.templateName,
+        createdBy: campaign.createdBy.name,
+        createdAt: campaign.createdAt.toISOString(),
+        scheduledAt: campaign.scheduledAt?.toISOString() || null,
+        launchedAt: campaign.launchedAt?.toISOString() || null,
+        launchLagMs: campaign.launchLagMs,
+        sentAt: campaign.sentAt?.toISOString() || null
+      },
+      metrics,
+      performance: {
+        durationMinutes,
+        messagesPerMinute: durationMinutes > 0 ? Math.round(sentCount / durationMinutes) : 0,
+        estimatedCost,
+        costPerResponse: repliedCount > 0 ? round(estimatedCost / repliedCount) : null,
+        averageResponseHours: responseTimes.length > 0
+          ? round(responseTimes.reduce((sum, time) => sum + time, 0) / responseTimes.length / (1000 * 60 * 60))
+          : null,
+        peakHour: peakHour(campaign.messages.map(message => message.sentAt))
+      },
+      languages: ContactLanguageService.breakdown(campaign.messages),
+      variants: campaign._count.variants > 0 ? await CampaignVariantService.getResults(campaignId) : [],
+      sequence: campaign._count.steps > 0 ? await CampaignSequenceService.getProgress(campaignId) : null,
+      recommendations: this.recommend(campaign.type, campaign.templateName, metrics),
+      generatedAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Workbook with a summary sheet and one sheet per breakdown
+   */
+  static reportToXlsx(report: StoredCampaignReport): Buffer {
+    const { snapshot } = report
+    const workbook = XLSX.utils.book_new()
+
+    const summary: Array<Array<string | number | null>> = [
+      ['Campaign', snapshot.campaign.name],
+      ['Type', snapshot.campaign.type],
+      ['Status', snapshot.campaign.status],
+      ['Template', snapshot.campaign.templateName],
+      ['Created by', snapshot.campaign.createdBy],
+      ['Sent at', snapshot.campaign.sentAt],
+      ['Report taken', snapshot.generatedAt],
+      ['Report trigger', report.trigger],
+      [],
+      ...COMPARED_METRICS.map(({ label, value }) => [label, value(snapshot)]),
+      [],
+      ['Recommendations'],
+      ...snapshot.recommendations.map(recommendation => [recommendation])
+    ]
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summary), 'Summary')
+
+    if (snapshot.languages.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(snapshot.languages), 'Languages')
+    }
+
+    if (snapshot.variants.length > 0) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(snapshot.variants.map(variant => ({
+        Variant: variant.name,
+        Weight: variant.weight,
+        Winner: variant.isWinner ? 'Yes' : '',
+        Contacts: variant.contacts,
+        Sent: variant.sent,
+        Delivered: variant.delivered,
+        Replied: variant.replied,
+        'Reply rate (%)': variant.replyRate,
+        'p-value': variant.pValue ?? ''
+      }))), 'A/B Variants')
+    }
+
+    if (snapshot.sequence) {
+      XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+        ['Step', 'Waiting'],
+        ...snapshot.sequence.steps.map(step => [step.position + 1, step.waiting]),
+        [],
+        ['Finished', snapshot.sequence.completed],
+        ...Object.keys(snapshot.sequence.exited).map(reason => [`Left: ${reason}`, snapshot.sequence!.exited[reason as keyof SequenceProgress['exited']] || 0])
+      ]), 'Sequence')
+    }
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' })
+  }
+
+  static reportToPdf(report: StoredCampaignReport): Buffer {
+    const { snapshot } = report
+    const pdf = new PdfDocument()
+
+    pdf.heading(`Campaign report: ${snapshot.campaign.name}`, 18)
+      .text(`${snapshot.campaign.type} campaign by ${snapshot.campaign.createdBy}, ${snapshot.campaign.status.toLowerCase()}`, { color: [0.4, 0.4, 0.4] })
+      .text(`Report taken ${formatDate(snapshot.generatedAt)} (${report.trigger.toLowerCase()})`, { color: [0.4, 0.4, 0.4] })
+
+    pdf.heading('Performance', 13)
+      .table(['Metric', 'Value'], COMPARED_METRICS.map(({ label, value }) => [label, formatValue(value(snapshot))]), [300, 195])
+
+    if (snapshot.languages.length > 0) {
+      pdf.heading('Languages', 13)
+        .table(
+          ['Language', 'Sent', 'Delivered', 'Replied', 'Delivery %', 'Response %'],
+          snapshot.languages.map(language => [
+            language.language,
+            String(language.sent),
+            String(language.delivered),
+            String(language.replied),
+            formatValue(language.deliveryRate),
+            formatValue(language.responseRate)
+          ])
+        )
+    }
+
+    if (snapshot.variants.length > 0) {
+      pdf.heading('A/B variants', 13)
+        .table(
+          ['Variant', 'Contacts', 'Sent', 'Replied', 'Reply %', 'Significance'],
+          snapshot.variants.map(variant => [
+            `${variant.name}${variant.isWinner ? ' (winner)' : ''}`,
+            String(variant.contacts),
+            String(variant.sent),
+            String(variant.replied),
+            formatValue(variant.replyRate),
+            variant.isLeader ? 'Leader' : variant.significant ? 'Significantly worse' : 'Not significant'
+          ])
+        )
+    }
+
+    if (snapshot.sequence) {
+      pdf.heading('Sequence', 13)
+        .table(
+          ['Stage', 'Contacts'],
+          [
+            ...snapshot.sequence.steps.map(step => [`Waiting for step ${step.position + 1}`, String(step.waiting)]),
+            ['Finished', String(snapshot.sequence.completed)],
+            ...Object.keys(snapshot.sequence.exited).map(reason => [
+              `Left early: ${reason.toLowerCase().replace('_', ' ')}`,
+              String(snapshot.sequence!.exited[reason as keyof SequenceProgress['exited']] || 0)
+            ])
+          ],
+          [300, 195]
+        )
+    }
+
+    if (snapshot.recommendations.length > 0) {
+      pdf.heading('Recommendations', 13)
+      snapshot.recommendations.forEach(recommendation => pdf.text(`- ${recommendation}`, { indent: 8 }))
+    }
+
+    return pdf.toBuffer()
+  }
+
+  private static recommend(type: string, templateName: string | null, metrics: CampaignReportSnapshot['metrics']): string[] {
+    const recommendations: string[] = []
+
+    if (metrics.deliveryRate < 80) {
+      recommendations.push('Low delivery rate detected. Consider cleaning your contact list and removing invalid numbers.')
+    }
+
+    if (metrics.responseRate < 2) {
+      recommendations.push('Low response rate. Consider A/B testing different message templates or timing.')
+    }
+
+    if (type === 'SMS' && metrics.responseRate > 5) {
+      recommendations.push('Good SMS response rate. Consider switching to WhatsApp for richer media content.')
+    }
+
+    if (!templateName) {
+      recommendations.push('Consider using message templates for better personalization and compliance.')
+    }
+
+    return recommendations
+  }
+
+  private static toStored(record: {
+    id: string
+    campaignId: string
+    campaignName: string
+    trigger: string
+    snapshot: string
+    createdById: string | null
+    createdAt: Date
+  }): StoredCampaignReport {
+    return {
+      id: record.id,
+      campaignId: record.campaignId,
+      campaignName: record.campaignName,
+      trigger: record.trigger as CampaignReportTrigger,
+      createdById: record.createdById,
+      createdAt: record.createdAt,
+      snapshot: JSON.parse(record.snapshot)
+    }
+  }
+}
+
+function percentage(part: number, whole: number): number {
+  return whole > 0 ? round(part / whole * 100) : 0
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+// Hour of the day (server time) most messages went out in
+function peakHour(sentAt: Array<Date | null>): number | null {
+  const counts: number[] = []
+  for (const date of sentAt) {
+    if (!date) continue
+    const hour = date.getHours()
+    counts[hour] = (counts[hour] || 0) + 1
+  }
+  if (counts.length === 0) return null
+
+  let peak = 0
+  counts.forEach((count, hour) => {
+    if (count > (counts[peak] || 0)) peak = hour
+  })
+  return peak
+}
+
+function formatValue(value: number | null): string {
+  return value === null ? 'N/A' : String(value)
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toISOString().replace('T', ' ').slice(0, 16) + ' UTC'
+}
+
+export default CampaignReportService
@@ -0,0 +1,385 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { logger, DataSource } from './logger'
+import { SuppressionService } from './suppressionService'
+import { CampaignStepsInput } from './security/validation'
+
+const prisma = new PrismaClient()
+
+const MINUTE_MS = 60 * 1000
+// SQLite limits the number of bound variables per statement
+const CHUNK_SIZE = 500
+// Enrolments advanced per cron run
+const CLAIM_LIMIT = 500
+
+// Steps can only change before anyone has been enrolled
+const EDITABLE_STATUSES = ['DRAFT', 'SCHEDULED']
+
+export type SequenceExitCondition = 'REPLIED' | 'CONVERTED' | 'OPTED_OUT'
+export type EnrollmentStatus = 'ACTIVE' | 'COMPLETED' | 'EXITED'
+// NOT_SENDABLE: suppressed or without the consent a step's template needs
+export type EnrollmentExitReason = SequenceExitCondition | 'NOT_SENDABLE' | 'CANCELLED'
+
+export interface CampaignStep {
+  id: string
+  campaignId: string
+  position: number
+  delayMinutes: number
+  message: string
+  templateName?: string
+  parameters?: Record<string, string>
+  mediaUrl?: string
+  mediaType?: 'image' | 'video' | 'document'
+  exitOn: SequenceExitCondition[]
+}
+
+export interface DueEnrollment {
+  id: string
+  campaignId: string
+  contactId: string
+  stepIndex: number
+  enrolledAt: Date
+  contact: {
+    phone: string
+    name?: string
+    language?: string
+  }
+}
+
+export interface SequenceProgress {
+  steps: Array<{ position: number; waiting: number }>
+  active: number
+  completed: number
+  exited: Partial<Record<EnrollmentExitReason, number>>
+}
+
+export type CampaignSequenceErrorCode = 'NOT_FOUND' | 'NOT_EDITABLE' | 'CONFLICT'
+
+/**
+ * A sequence operation the service refused, as opposed to a database failure
+ */
+export class CampaignSequenceError extends Error {
+  constructor(message: string, readonly code: CampaignSequenceErrorCode) {
+    super(message)
+    this.name = 'CampaignSequenceError'
+  }
+}
+
+// HTTP status the API routes answer with for each refusal
+export const CAMPAIGN_SEQUENCE_ERROR_STATUS: Record<CampaignSequenceErrorCode, number> = {
+  NOT_FOUND: 404,
+  NOT_EDITABLE: 409,
+  CONFLICT: 409
+}
+
+type StepRecord = Prisma.CampaignStepGetPayload<{}>
+
+/**
+ * Drip campaigns: ordered steps sent to each contact over time. Every contact has an
+ * enrolment holding the next step and when it is due; the cron manager sends due steps
+ * and moves the cursor on, or ends the enrolment when a step's exit condition is met.
+ */
+export class CampaignSequenceService {
+  static async getSteps(campaignId: string): Promise<CampaignStep[]> {
+    const records = await prisma.campaignStep.findMany({
+      where: { campaignId },
+      orderBy: { position: 'asc' }
+    })
+    return records.map(record => this.toStep(record))
+  }
+
+  /**
+   * Replace a campaign's steps. With steps it becomes a sequence campaign, without any
+   * a one-off campaign again.
+   */
+  static async saveSteps(campaignId: string, input: CampaignStepsInput): Promise<CampaignStep[]> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { status: true, abTestMode: true }
+    })
+    if (!campaign) {
+      throw new CampaignSequenceError('Campaign not found', 'NOT_FOUND')
+    }
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new CampaignSequenceError('Steps can only be changed before the campaign starts', 'NOT_EDITABLE')
+    }
+    if (campaign.abTestMode && input.steps.length > 0) {
+      throw new CampaignSequenceError('Turn off the A/B test before adding sequence steps', 'CONFLICT')
+    }
+
+    await prisma.$transaction([
+      prisma.campaignStep.deleteMany({ where: { campaignId } }),
+      ...input.steps.map((step, position) => prisma.campaignStep.create({
+        data: {
+          campaignId,
+          position,
+          delayMinutes: step.delayMinutes,
+          message: step.message,
+          templateName: step.templateName,
+          parameters: step.parameters ? JSON.stringify(step.parameters) : undefined,
+          mediaUrl: step.mediaUrl,
+          mediaType: step.mediaType,
+          exitOn: JSON.stringify(step.exitOn)
+        }
+      })),
+      prisma.campaign.update({
+        where: { id: campaignId },
+        data: { kind: input.steps.length > 0 ? 'SEQUENCE' : 'ONE_OFF' }
+      })
+    ])
+
+    return this.getSteps(campaignId)
+  }
+
+  /**
+   * Start contacts on the first step. Contacts enrolled before keep their place.
+   */
+  static async enroll(campaignId: string, contactIds: string[], now = new Date()): Promise<number> {
+    const [firstStep] = await this.getSteps(campaignId)
+    if (!firstStep) {
+      throw new CampaignSequenceError('Sequence has no steps', 'NOT_FOUND')
+    }
+
+    const existing = await prisma.sequenceEnrollment.findMany({
+      where: { campaignId },
+      select: { contactId: true }
+    })
+    const enrolled = new Set(existing.map(enrollment => enrollment.contactId))
+    const fresh = contactIds.filter(contactId => !enrolled.has(contactId))
+    const nextStepAt = new Date(now.getTime() + firstStep.delayMinutes * MINUTE_MS)
+
+    for (let i = 0; i < fresh.length; i += CHUNK_SIZE) {
+      const chunk = fresh.slice(i, i + CHUNK_SIZE)
+      await prisma.sequenceEnrollment.createMany({
+        data: chunk.map(contactId => ({ campaignId, contactId, nextStepAt, enrolledAt: now }))
+      })
+      await prisma.campaignContact.updateMany({
+        where: { campaignId, contactId: { in: chunk } },
+        data: { status: 'IN_SEQUENCE' }
+      })
+    }
+
+    logger.info(DataSource.DATABASE, 'sequence_enroll', `Enrolled ${fresh.length} contacts in sequence campaign ${campaignId}`)
+    return fresh.length
+  }
+
+  /**
+   * Active enrolments whose next step is due, of running campaigns only, so a paused
+   * sequence picks up where it left off when it is resumed
+   */
+  static async findDue(options: { campaignId?: string; now?: Date; limit?: number } = {}): Promise<DueEnrollment[]> {
+    const records = await prisma.sequenceEnrollment.findMany({
+      where: {
+        campaignId: options.campaignId,
+        status: 'ACTIVE',
+        nextStepAt: { lte: options.now || new Date() },
+        campaign: { status: 'RUNNING' }
+      },
+      orderBy: { nextStepAt: 'asc' },
+      take: options.limit || CLAIM_LIMIT
+    })
+
+    const contacts = await prisma.contact.findMany({
+      where: { id: { in: records.map(record => record.contactId) } },
+      select: { id: true, phone: true, name: true, preferredLanguage: true }
+    })
+    const contactsById = new Map(contacts.map(contact => [contact.id, contact]))
+
+    return records
+      .filter(record => contactsById.has(record.contactId))
+      .map(record => {
+        const contact = contactsById.get(record.contactId)!
+        return {
+          id: record.id,
+          campaignId: record.campaignId,
+          contactId: record.contactId,
+          stepIndex: record.stepIndex,
+          enrolledAt: record.enrolledAt,
+          contact: {
+            phone: contact.phone,
+            name: contact.name || undefined,
+            language: contact.preferredLanguage || undefined
+          }
+        }
+      })
+  }
+
+  /**
+   * Enrolments that meet one of the step's exit conditions, with the condition met.
+   * Replies and conversions count from when the contact was enrolled.
+   */
+  static async findExits(
+    enrollments: DueEnrollment[],
+    step: CampaignStep,
+    channel: 'SMS' | 'WHATSAPP'
+  ): Promise<Map<string, SequenceExitCondition>> {
+    const exits = new Map<string, SequenceExitCondition>()
+    if (enrollments.length === 0 || step.exitOn.length === 0) return exits
+
+    const contactIds = enrollments.map(enrollment => enrollment.contactId)
+    const since = new Date(Math.min(...enrollments.map(enrollment => enrollment.enrolledAt.getTime())))
+
+    if (step.exitOn.includes('OPTED_OUT')) {
+      const { suppressed } = await SuppressionService.filterSuppressed(enrollments, enrollment => enrollment.contact.phone, channel)
+      suppressed.forEach(enrollment => exits.set(enrollment.id, 'OPTED_OUT'))
+    }
+
+    if (step.exitOn.includes('REPLIED')) {
+      const replies = await prisma.message.findMany({
+        where: { contactId: { in: contactIds }, direction: 'INBOUND', createdAt: { gte: since } },
+        select: { contactId: true, createdAt: true }
+      })
+      for (const enrollment of enrollments) {
+        if (exits.has(enrollment.id)) continue
+        if (replies.some(reply => reply.contactId === enrollment.contactId && reply.createdAt >= enrollment.enrolledAt)) {
+          exits.set(enrollment.id, 'REPLIED')
+        }
+      }
+    }
+
+    if (step.exitOn.includes('CONVERTED')) {
+      const leads = await prisma.lead.findMany({
+        where: { contactId: { in: contactIds }, status: 'CLOSED_WON', updatedAt: { gte: since } },
+        select: { contactId: true, updatedAt: true }
+      })
+      for (const enrollment of enrollments) {
+        if (exits.has(enrollment.id)) continue
+        if (leads.some(lead => lead.contactId === enrollment.contactId && lead.updatedAt >= enrollment.enrolledAt)) {
+          exits.set(enrollment.id, 'CONVERTED')
+        }
+      }
+    }
+
+    return exits
+  }
+
+  /**
+   * End enrolments early. Contacts that left before their first step went out are
+   * EXITED, so the campaign can still complete.
+   */
+  static async exit(enrollmentIds: string[], reason: EnrollmentExitReason): Promise<void> {
+    for (let i = 0; i < enrollmentIds.length; i += CHUNK_SIZE) {
+      const chunk = enrollmentIds.slice(i, i + CHUNK_SIZE)
+      const enrollments = await prisma.sequenceEnrollment.findMany({
+        where: { id: { in: chunk }, status: 'ACTIVE' },
+        select: { campaignId: true, contactId: true }
+      })
+
+      await prisma.sequenceEnrollment.updateMany({
+        where: { id: { in: chunk }, status: 'ACTIVE' },
+        data: { status: 'EXITED', exitReason: reason, nextStepAt: null }
+      })
+
+      const contactsByCampaign = new Map<string, string[]>()
+      for (const enrollment of enrollments) {
+        const contactIds = contactsByCampaign.get(enrollment.campaignId) || []
+        contactIds.push(enrollment.contactId)
+        contactsByCampaign.set(enrollment.campaignId, contactIds)
+      }
+      for (const [campaignId, contactIds] of Array.from(contactsByCampaign.entries())) {
+        await prisma.campaignContact.updateMany({
+          where: { campaignId, contactId: { in: contactIds }, status: 'IN_SEQUENCE' },
+          data: { status: 'EXITED' }
+        })
+      }
+    }
+  }
+
+  static async exitForCampaign(campaignId: string, reason: EnrollmentExitReason): Promise<number> {
+    const { count } = await prisma.sequenceEnrollment.updateMany({
+      where: { campaignId, status: 'ACTIVE' },
+      data: { status: 'EXITED', exitReason: reason, nextStepAt: null }
+    })
+    await prisma.campaignContact.updateMany({
+      where: { campaignId, status: 'IN_SEQUENCE' },
+      data: { status: 'EXITED' }
+    })
+    return count
+  }
+
+  /**
+   * Move enrolments that were just sent `step` on to the next step, or finish them
+   * after the last one
+   */
+  static async advance(enrollmentIds: string[], steps: CampaignStep[], step: CampaignStep, now = new Date()): Promise<void> {
+    const next = steps.find(candidate => candidate.position === step.position + 1)
+    const data = next
+      ? { stepIndex: next.position, nextStepAt: new Date(now.getTime() + next.delayMinutes * MINUTE_MS), lastStepAt: now }
+      : { status: 'COMPLETED', nextStepAt: null, lastStepAt: now }
+
+    for (let i = 0; i < enrollmentIds.length; i += CHUNK_SIZE) {
+      await prisma.sequenceEnrollment.updateMany({
+        where: { id: { in: enrollmentIds.slice(i, i + CHUNK_SIZE) } },
+        data
+      })
+    }
+  }
+
+  /**
+   * Hold due steps back, e.g. until the send window opens
+   */
+  static async postpone(enrollmentIds: string[], until: Date): Promise<void> {
+    for (let i = 0; i < enrollmentIds.length; i += CHUNK_SIZE) {
+      await prisma.sequenceEnrollment.updateMany({
+        where: { id: { in: enrollmentIds.slice(i, i + CHUNK_SIZE) } },
+        data: { nextStepAt: until }
+      })
+    }
+  }
+
+  static async countActive(campaignId: string): Promise<number> {
+    return prisma.sequenceEnrollment.count({
+      where: { campaignId, status: 'ACTIVE' }
+    })
+  }
+
+  static async getProgress(campaignId: string): Promise<SequenceProgress> {
+    const [steps, counts] = await Promise.all([
+      this.getSteps(campaignId),
+      prisma.sequenceEnrollment.groupBy({
+        by: ['status', 'stepIndex', 'exitReason'],
+        where: { campaignId },
+        _count: { _all: true }
+      })
+    ])
+
+    const progress: SequenceProgress = {
+      steps: steps.map(step => ({ position: step.position, waiting: 0 })),
+      active: 0,
+      completed: 0,
+      exited: {}
+    }
+
+    for (const row of counts) {
+      const count = row._count._all
+      if (row.status === 'ACTIVE') {
+        progress.active += count
+        const step = progress.steps.find(candidate => candidate.position === row.stepIndex)
+        if (step) step.waiting += count
+      } else if (row.status === 'COMPLETED') {
+        progress.completed += count
+      } else {
+        const reason = (row.exitReason || 'CANCELLED') as EnrollmentExitReason
+        progress.exited[reason] = (progress.exited[reason] || 0) + count
+      }
+    }
+
+    return progress
+  }
+
+  private static toStep(record: StepRecord): CampaignStep {
+    return {
+      id: record.id,
+      campaignId: record.campaignId,
+      position: record.position,
+      delayMinutes: record.delayMinutes,
+      message: record.message,
+      templateName: record.templateName || undefined,
+      parameters: record.parameters ? JSON.parse(record.parameters) : undefined,
+      mediaUrl: record.mediaUrl || undefined,
+      mediaType: (record.mediaType || undefined) as CampaignStep['mediaType'],
+      exitOn: JSON.parse(record.exitOn)
+    }
+  }
+}
+
+export default CampaignSequenceService
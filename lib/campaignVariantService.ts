@@ -0,0 +1,420 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { logger, DataSource } from './logger'
+import { CampaignVariantsInput } from './security/validation'
+
+const prisma = new PrismaClient()
+
+const HOUR_MS = 60 * 60 * 1000
+// SQLite limits the number of bound variables per statement
+const UPDATE_CHUNK = 500
+// Two-sided p-value below which a variant's reply rate counts as different from the leader's
+const SIGNIFICANCE_LEVEL = 0.05
+
+// How far a contact got; each status includes the ones before it
+const ENGAGEMENT_STATUSES = ['SENT', 'DELIVERED', 'READ', 'REPLIED']
+
+// Variants can only change before anyone has been sent one
+const EDITABLE_STATUSES = ['DRAFT', 'SCHEDULED']
+
+/**
+ * SPLIT sends every contact one of the variants by weight. WINNER first sends the
+ * variants to a test slice of the audience and, once the test window ends, sends the
+ * variant with the best reply rate to everyone else.
+ */
+export type AbTestMode = 'SPLIT' | 'WINNER'
+
+export interface CampaignVariant {
+  id: string
+  campaignId: string
+  name: string
+  message: string
+  templateName?: string
+  parameters?: Record<string, string>
+  mediaUrl?: string
+  mediaType?: 'image' | 'video' | 'document'
+  weight: number
+  isWinner: boolean
+}
+
+export interface AbTestConfig {
+  mode?: AbTestMode
+  testPercent?: number
+  windowHours?: number
+  endsAt?: Date
+  variants: CampaignVariant[]
+}
+
+export interface VariantResult {
+  variantId: string
+  name: string
+  weight: number
+  isWinner: boolean
+  contacts: number
+  sent: number
+  delivered: number
+  read: number
+  replied: number
+  deliveryRate: number
+  readRate: number
+  replyRate: number
+  // Best reply rate so far; the other variants are tested against it
+  isLeader: boolean
+  // Two-proportion z-test of the reply rate against the leader's
+  pValue?: number
+  significant: boolean
+}
+
+export type CampaignVariantErrorCode = 'NOT_FOUND' | 'NOT_EDITABLE' | 'CONFLICT'
+
+/**
+ * A variant operation the service refused, as opposed to a database failure
+ */
+export class CampaignVariantError extends Error {
+  constructor(message: string, readonly code: CampaignVariantErrorCode) {
+    super(message)
+    this.name = 'CampaignVariantError'
+  }
+}
+
+// HTTP status the API routes answer with for each refusal
+export const CAMPAIGN_VARIANT_ERROR_STATUS: Record<CampaignVariantErrorCode, number> = {
+  NOT_FOUND: 404,
+  NOT_EDITABLE: 409,
+  CONFLICT: 409
+}
+
+type VariantRecord = Prisma.CampaignVariantGetPayload<{}>
+
+/**
+ * A/B tested campaign messages: which variant each contact is sent, holding back the
+ * contacts of a winner test, and how each variant performs
+ */
+export class CampaignVariantService {
+  static async getConfig(campaignId: string): Promise<AbTestConfig> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { abTestMode: true, abTestPercent: true, abTestWindowHours: true, abTestEndsAt: true }
+    })
+    if (!campaign) {
+      throw new CampaignVariantError('Campaign not found', 'NOT_FOUND')
+    }
+
+    return {
+      mode: (campaign.abTestMode || undefined) as AbTestMode | undefined,
+      testPercent: campaign.abTestPercent ?? undefined,
+      windowHours: campaign.abTestWindowHours ?? undefined,
+      endsAt: campaign.abTestEndsAt || undefined,
+      variants: await this.getVariants(campaignId)
+    }
+  }
+
+  static async getVariants(campaignId: string): Promise<CampaignVariant[]> {
+    const records = await prisma.campaignVariant.findMany({
+      where: { campaignId },
+      orderBy: { createdAt: 'asc' }
+    })
+    return records.map(record => this.toVariant(record))
+  }
+
+  /**
+   * Replace a campaign's variants. Saving none turns the A/B test off.
+   */
+  static async saveConfig(campaignId: string, input: CampaignVariantsInput): Promise<AbTestConfig> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { status: true, kind: true }
+    })
+    if (!campaign) {
+      throw new CampaignVariantError('Campaign not found', 'NOT_FOUND')
+    }
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new CampaignVariantError('Variants can only be changed before the campaign starts', 'NOT_EDITABLE')
+    }
+    if (campaign.kind === 'SEQUENCE' && input.variants.length > 0) {
+      throw new CampaignVariantError('Sequence campaigns cannot be A/B tested', 'CONFLICT')
+    }
+
+    const enabled = input.variants.length > 0
+    const isWinnerTest = enabled && input.mode === 'WINNER'
+
+    await prisma.$transaction([
+      prisma.campaignVariant.deleteMany({ where: { campaignId } }),
+      ...input.variants.map(variant => prisma.campaignVariant.create({
+        data: {
+          campaignId,
+          name: variant.name,
+          message: variant.message,
+          templateName: variant.templateName,
+          parameters: variant.parameters ? JSON.stringify(variant.parameters) : undefined,
+          mediaUrl: variant.mediaUrl,
+          mediaType: variant.mediaType,
+          weight: variant.weight
+        }
+      })),
+      prisma.campaign.update({
+        where: { id: campaignId },
+        data: {
+          abTestMode: enabled ? input.mode : null,
+          abTestPercent: isWinnerTest ? input.testPercent : null,
+          abTestWindowHours: isWinnerTest ? input.windowHours : null,
+          abTestEndsAt: null
+        }
+      })
+    ])
+
+    return this.getConfig(campaignId)
+  }
+
+  /**
+   * Ready a starting campaign's pending contacts: a winner test holds back everyone
+   * outside the test slice, then contacts without a variant are given one by weight.
+   * Contacts released after a test already carry the winner.
+   */
+  static async prepareAudience(campaignId: string): Promise<void> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { status: true, abTestMode: true, abTestPercent: true, abTestWindowHours: true, abTestEndsAt: true }
+    })
+    if (!campaign?.abTestMode || !['DRAFT', 'SCHEDULED', 'LAUNCHING', 'PAUSED'].includes(campaign.status)) return
+
+    const variants = await this.getVariants(campaignId)
+    if (variants.length === 0) return
+
+    const unassigned = await prisma.campaignContact.findMany({
+      where: { campaignId, status: 'PENDING', variantId: null },
+      select: { contactId: true }
+    })
+    let contactIds = shuffle(unassigned.map(cc => cc.contactId))
+
+    if (campaign.abTestMode === 'WINNER' && !campaign.abTestEndsAt) {
+      const testSize = Math.min(contactIds.length, Math.max(variants.length, Math.ceil(contactIds.length * (campaign.abTestPercent || 0) / 100)))
+      const held = contactIds.slice(testSize)
+      contactIds = contactIds.slice(0, testSize)
+
+      for (let i = 0; i < held.length; i += UPDATE_CHUNK) {
+        await prisma.campaignContact.updateMany({
+          where: { campaignId, contactId: { in: held.slice(i, i + UPDATE_CHUNK) } },
+          data: { status: 'HELD' }
+        })
+      }
+
+      const endsAt = new Date(Date.now() + (campaign.abTestWindowHours || 0) * HOUR_MS)
+      await prisma.campaign.update({
+        where: { id: campaignId },
+        data: { abTestEndsAt: endsAt }
+      })
+
+      logger.info(DataSource.DATABASE, 'ab_test_start', `Testing ${variants.length} variants of campaign ${campaignId} on ${contactIds.length} contacts until ${endsAt.toISOString()}, holding ${held.length}`)
+    }
+
+    const assignments = splitByWeight(contactIds, variants)
+    for (const [variantId, ids] of Array.from(assignments.entries())) {
+      for (let i = 0; i < ids.length; i += UPDATE_CHUNK) {
+        await prisma.campaignContact.updateMany({
+          where: { campaignId, contactId: { in: ids.slice(i, i + UPDATE_CHUNK) } },
+          data: { variantId }
+        })
+      }
+    }
+  }
+
+  /**
+   * Winner tests whose window has ended without a winner being picked. Those of a
+   * paused campaign wait until it is resumed, so the winner is sent as soon as it is picked.
+   */
+  static async findEndedTests(now = new Date()): Promise<string[]> {
+    const campaigns = await prisma.campaign.findMany({
+      where: {
+        abTestMode: 'WINNER',
+        abTestEndsAt: { lte: now },
+        status: 'RUNNING',
+        variants: { none: { isWinner: true } }
+      },
+      select: { id: true }
+    })
+    return campaigns.map(campaign => campaign.id)
+  }
+
+  /**
+   * Pick the variant with the best reply rate, read rate breaking ties, and hand it to
+   * the contacts held back for the winner. They go back to PENDING to be sent.
+   */
+  static async selectWinner(campaignId: string): Promise<{ winner: CampaignVariant; released: number }> {
+    const variants = await this.getVariants(campaignId)
+    if (variants.length === 0) {
+      throw new CampaignVariantError('Campaign has no variants', 'NOT_FOUND')
+    }
+
+    const results = await this.getResults(campaignId)
+    const leader = results.find(result => result.isLeader)!
+    const winner = variants.find(variant => variant.id === leader.variantId)!
+
+    const [, released] = await prisma.$transaction([
+      prisma.campaignVariant.update({
+        where: { id: winner.id },
+        data: { isWinner: true }
+      }),
+      prisma.campaignContact.updateMany({
+        where: { campaignId, status: 'HELD' },
+        data: { status: 'PENDING', variantId: winner.id }
+      })
+    ])
+
+    logger.info(DataSource.DATABASE, 'ab_test_winner', `Variant '${winner.name}' won the test of campaign ${campaignId} with a ${leader.replyRate.toFixed(1)}% reply rate, releasing ${released.count} contacts`)
+    return { winner: { ...winner, isWinner: true }, released: released.count }
+  }
+
+  static async getResults(campaignId: string): Promise<VariantResult[]> {
+    const [variants, counts] = await Promise.all([
+      this.getVariants(campaignId),
+      prisma.campaignContact.groupBy({
+        by: ['variantId', 'status'],
+        where: { campaignId, variantId: { not: null } },
+        _count: { _all: true }
+      })
+    ])
+
+    return this.summarize(variants, counts.map(row => ({
+      variantId: row.variantId,
+      status: row.status,
+      count: row._count._all
+    })))
+  }
+
+  /**
+   * Per-variant delivery, read and reply rates from campaign contact statuses, each
+   * variant's reply rate tested against the leader's
+   */
+  static summarize(
+    variants: Array<Pick<CampaignVariant, 'id' | 'name' | 'weight' | 'isWinner'>>,
+    rows: Array<{ variantId: string | null; status: string; count?: number }>
+  ): VariantResult[] {
+    const results: VariantResult[] = variants.map(variant => {
+      const totals = { contacts: 0, sent: 0, delivered: 0, read: 0, replied: 0 }
+
+      for (const row of rows) {
+        if (row.variantId !== variant.id) continue
+        const count = row.count ?? 1
+        const reached = ENGAGEMENT_STATUSES.indexOf(row.status)
+
+        totals.contacts += count
+        if (reached >= 0) totals.sent += count
+        if (reached >= 1) totals.delivered += count
+        if (reached >= 2) totals.read += count
+        if (reached >= 3) totals.replied += count
+      }
+
+      return {
+        variantId: variant.id,
+        name: variant.name,
+        weight: variant.weight,
+        isWinner: variant.isWinner,
+        ...totals,
+        deliveryRate: rate(totals.delivered, totals.sent),
+        readRate: rate(totals.read, totals.sent),
+        replyRate: rate(totals.replied, totals.sent),
+        isLeader: false,
+        significant: false
+      }
+    })
+
+    if (results.length === 0) return results
+
+    const leader = results.reduce((best, result) =>
+      result.replyRate > best.replyRate || (result.replyRate === best.replyRate && result.readRate > best.readRate)
+        ? result
+        : best
+    )
+    leader.isLeader = true
+
+    for (const result of results) {
+      if (result === leader) continue
+      result.pValue = twoProportionPValue(leader.replied, leader.sent, result.replied, result.sent)
+      result.significant = result.pValue !== undefined && result.pValue < SIGNIFICANCE_LEVEL
+    }
+
+    return results
+  }
+
+  private static toVariant(record: VariantRecord): CampaignVariant {
+    return {
+      id: record.id,
+      campaignId: record.campaignId,
+      name: record.name,
+      message: record.message,
+      templateName: record.templateName || undefined,
+      parameters: record.parameters ? JSON.parse(record.parameters) : undefined,
+      mediaUrl: record.mediaUrl || undefined,
+      mediaType: (record.mediaType || undefined) as CampaignVariant['mediaType'],
+      weight: record.weight,
+      isWinner: record.isWinner
+    }
+  }
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? (count / total) * 100 : 0
+}
+
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = items.slice()
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1))
+    const item = shuffled[i]
+    shuffled[i] = shuffled[j]
+    shuffled[j] = item
+  }
+  return shuffled
+}
+
+/**
+ * Divide contacts between variants in proportion to their weights, handing the
+ * contacts left over by rounding to the variants with the largest remainders
+ */
+function splitByWeight(contactIds: string[], variants: CampaignVariant[]): Map<string, string[]> {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0)
+  const shares = variants.map(variant => {
+    const exact = contactIds.length * variant.weight / totalWeight
+    return { variantId: variant.id, size: Math.floor(exact), remainder: exact - Math.floor(exact) }
+  })
+
+  let leftOver = contactIds.length - shares.reduce((sum, share) => sum + share.size, 0)
+  for (const share of shares.slice().sort((a, b) => b.remainder - a.remainder)) {
+    if (leftOver === 0) break
+    share.size++
+    leftOver--
+  }
+
+  const assignments = new Map<string, string[]>()
+  let offset = 0
+  for (const share of shares) {
+    assignments.set(share.variantId, contactIds.slice(offset, offset + share.size))
+    offset += share.size
+  }
+  return assignments
+}
+
+/**
+ * Two-sided p-value of the difference between two reply rates. Undefined until both
+ * variants have been sent to and have some replies or non-replies to compare.
+ */
+function twoProportionPValue(successesA: number, totalA: number, successesB: number, totalB: number): number | undefined {
+  if (totalA === 0 || totalB === 0) return undefined
+
+  const pooled = (successesA + successesB) / (totalA + totalB)
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB))
+  if (standardError === 0) return undefined
+
+  const z = Math.abs(successesA / totalA - successesB / totalB) / standardError
+  return 2 * (1 - normalCdf(z))
+}
+
+// Abramowitz and Stegun 7.1.26, accurate to about 1e-7
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+export default CampaignVariantService
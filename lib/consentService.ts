@@ -0,0 +1,323 @@
+import { PrismaClient } from '@prisma/client'
+import { TemplateRegistry } from './templateRegistry'
+import { ConsentInput, CONSENT_CHANNELS, CONSENT_PURPOSES, CONSENT_SOURCES, MARKETING_CONSENT_TEXT } from './security/validation'
+
+const prisma = new PrismaClient()
+
+export type ConsentChannel = typeof CONSENT_CHANNELS[number]
+export type ConsentPurpose = typeof CONSENT_PURPOSES[number]
+export type ConsentSource = typeof CONSENT_SOURCES[number]
+export type ConsentStatus = 'GRANTED' | 'REVOKED'
+
+export interface ConsentEntry {
+  id: string
+  contactId: string
+  channel: ConsentChannel
+  purpose: ConsentPurpose
+  status: ConsentStatus
+  source: ConsentSource
+  evidence: Record<string, any> | null
+  expiresAt: Date | null
+  recordedBy: string | null
+  createdAt: Date
+}
+
+export interface ConsentState {
+  channel: 'SMS' | 'WHATSAPP'
+  purpose: ConsentPurpose
+  valid: boolean
+  entry: ConsentEntry | null
+}
+
+export interface ConsentReport {
+  contact: {
+    id: string
+    name: string | null
+    phone: string
+    email: string | null
+  }
+  current: ConsentState[]
+  ledger: ConsentEntry[]
+  generatedAt: Date
+}
+
+interface ApplicationConsentMeta {
+  applicationNumber: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+type ConsentRecordInput = Omit<ConsentInput, 'evidence'> & {
+  evidence: string | Record<string, any>
+}
+
+export class ConsentService {
+  /**
+   * Templates in the MARKETING category need recorded consent before they are sent
+   */
+  static async isMarketingTemplate(templateName?: string | null): Promise<boolean> {
+    if (!templateName) return false
+    return await TemplateRegistry.getCategory(templateName) === 'MARKETING'
+  }
+
+  /**
+   * Append an entry to the contact's ledger. Entries are never updated or deleted.
+   */
+  static async record(
+    contactId: string,
+    input: ConsentRecordInput,
+    recordedBy?: string
+  ): Promise<ConsentEntry> {
+    const evidence = typeof input.evidence === 'string'
+      ? { note: input.evidence }
+      : input.evidence
+
+    const entry = await prisma.contactConsent.create({
+      data: {
+        contactId,
+        channel: input.channel,
+        purpose: input.purpose,
+        status: input.status,
+        source: input.source,
+        evidence: JSON.stringify(evidence),
+        expiresAt: input.expiresAt,
+        recordedBy
+      }
+    })
+
+    return this.toConsentEntry(entry)
+  }
+
+  static async getLedger(contactId: string): Promise<ConsentEntry[]> {
+    const entries = await prisma.contactConsent.findMany({
+      where: { contactId },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return entries.map(entry => this.toConsentEntry(entry))
+  }
+
+  /**
+   * Current consent for every channel and purpose, derived from the latest ledger entry
+   */
+  static async getCurrentConsent(contactId: string): Promise<ConsentState[]> {
+    const ledger = await this.getLedger(contactId)
+    const states: ConsentState[] = []
+
+    for (const purpose of CONSENT_PURPOSES) {
+      for (const channel of ['SMS', 'WHATSAPP'] as const) {
+        const entry = this.findLatest(ledger, channel, purpose)
+        states.push({ channel, purpose, valid: this.isValid(entry), entry })
+      }
+    }
+
+    return states
+  }
+
+  static async hasValidConsent(
+    contactId: string,
+    channel: 'SMS' | 'WHATSAPP',
+    purpose: ConsentPurpose
+  ): Promise<boolean> {
+    const entry = await prisma.contactConsent.findFirst({
+      where: {
+        contactId,
+        purpose,
+        channel: { in: ['ALL', channel] }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    return this.isValid(entry ? this.toConsentEntry(entry) : null)
+  }
+
+  /**
+   * Split contacts into those with valid consent for the purpose and those without
+   */
+  static async filterWithConsent<T extends { id: string }>(
+    contacts: T[],
+    channel: 'SMS' | 'WHATSAPP',
+    purpose: ConsentPurpose
+  ): Promise<{ allowed: T[]; blocked: T[] }> {
+    if (contacts.length === 0) return { allowed: [], blocked: [] }
+
+    const entries = await prisma.contactConsent.findMany({
+      where: {
+        contactId: { in: contacts.map(contact => contact.id) },
+        purpose,
+        channel: { in: ['ALL', channel] }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+
+    // Entries are newest first, so the first one seen per contact is its current state
+    const latestByContact = new Map<string, ConsentEntry>()
+    for (const entry of entries) {
+      if (!latestByContact.has(entry.contactId)) {
+        latestByContact.set(entry.contactId, this.toConsentEntry(entry))
+      }
+    }
+
+    const allowed: T[] = []
+    const blocked: T[] = []
+    for (const contact of contacts) {
+      if (this.isValid(latestByContact.get(contact.id) || null)) {
+        allowed.push(contact)
+      } else {
+        blocked.push(contact)
+      }
+    }
+
+    return { allowed, blocked }
+  }
+
+  /**
+   * Consent captured on the /apply form. Submitting an application covers
+   * transactional updates; marketing needs the explicit checkbox.
+   */
+  static async recordApplicationConsent(
+    contactId: string,
+    marketingConsent: boolean,
+    meta: ApplicationConsentMeta
+  ): Promise<void> {
+    const evidence = {
+      applicationNumber: meta.applicationNumber,
+      ipAddress: meta.ipAddress,
+      userAgent: meta.userAgent
+    }
+
+    await this.record(contactId, {
+      channel: 'ALL',
+      purpose: 'TRANSACTIONAL',
+      status: 'GRANTED',
+      source: 'APPLY_FORM',
+      evidence: { ...evidence, wording: 'Loan application submitted' }
+    })
+
+    if (marketingConsent) {
+      await this.record(contactId, {
+        channel: 'ALL',
+        purpose: 'MARKETING',
+        status: 'GRANTED',
+        source: 'APPLY_FORM',
+        evidence: { ...evidence, wording: MARKETING_CONSENT_TEXT }
+      })
+    }
+  }
+
+  /**
+   * STOP revokes marketing consent on every channel; START grants it on the
+   * channel it was sent from
+   */
+  static async recordKeyword(
+    contactId: string,
+    change: 'OPTED_OUT' | 'OPTED_IN',
+    channel: 'SMS' | 'WHATSAPP',
+    content: string
+  ): Promise<ConsentEntry> {
+    return this.record(contactId, {
+      channel: change === 'OPTED_OUT' ? 'ALL' : channel,
+      purpose: 'MARKETING',
+      status: change === 'OPTED_OUT' ? 'REVOKED' : 'GRANTED',
+      source: change === 'OPTED_IN' && channel === 'WHATSAPP' ? 'WHATSAPP_OPT_IN' : 'INBOUND_KEYWORD',
+      evidence: { message: content.trim().slice(0, 500), receivedOn: channel }
+    }, 'system')
+  }
+
+  static async getReport(contactId: string): Promise<ConsentReport | null> {
+    const contact = await prisma.contact.findUnique({
+      where: { id: contactId },
+      select: { id: true, name: true, phone: true, email: true }
+    })
+    if (!contact) return null
+
+    const [current, ledger] = await Promise.all([
+      this.getCurrentConsent(contactId),
+      this.getLedger(contactId)
+    ])
+
+    return { contact, current, ledger, generatedAt: new Date() }
+  }
+
+  static reportToCsv(report: ConsentReport): string {
+    const headers = ['Recorded At', 'Channel', 'Purpose', 'Status', 'Source', 'Expires At', 'Recorded By', 'Evidence']
+    const rows = report.ledger.map(entry => [
+      entry.createdAt.toISOString(),
+      entry.channel,
+      entry.purpose,
+      entry.status,
+      entry.source,
+      entry.expiresAt ? entry.expiresAt.toISOString() : '',
+      entry.recordedBy || '',
+      entry.evidence ? JSON.stringify(entry.evidence) : ''
+    ])
+
+    const summary = [
+      ['Contact', report.contact.name || ''],
+      ['Phone', report.contact.phone],
+      ['Email', report.contact.email || ''],
+      ['Generated At', report.generatedAt.toISOString()],
+      ...report.current.map(state => [
+        `${state.purpose} ${state.channel}`,
+        state.valid ? 'Valid' : 'Not valid'
+      ]),
+      []
+    ]
+
+    return [...summary, headers, ...rows]
+      .map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+      .join('\n')
+  }
+
+  private static findLatest(
+    ledger: ConsentEntry[],
+    channel: 'SMS' | 'WHATSAPP',
+    purpose: ConsentPurpose
+  ): ConsentEntry | null {
+    return ledger.find(entry =>
+      entry.purpose === purpose && (entry.channel === 'ALL' || entry.channel === channel)
+    ) || null
+  }
+
+  private static isValid(entry: ConsentEntry | null): boolean {
+    if (!entry || entry.status !== 'GRANTED') return false
+    return !entry.expiresAt || entry.expiresAt > new Date()
+  }
+
+  private static toConsentEntry(entry: {
+    id: string
+    contactId: string
+    channel: string
+    purpose: string
+    status: string
+    source: string
+    evidence: string | null
+    expiresAt: Date | null
+    recordedBy: string | null
+    createdAt: Date
+  }): ConsentEntry {
+    let evidence: Record<string, any> | null = null
+    if (entry.evidence) {
+      try {
+        evidence = JSON.parse(entry.evidence)
+      } catch (error) {
+        evidence = { note: entry.evidence }
+      }
+    }
+
+    return {
+      id: entry.id,
+      contactId: entry.contactId,
+      channel: entry.channel as ConsentChannel,
+      purpose: entry.purpose as ConsentPurpose,
+      status: entry.status as ConsentStatus,
+      source: entry.source as ConsentSource,
+      evidence,
+      expiresAt: entry.expiresAt,
+      recordedBy: entry.recordedBy,
+      createdAt: entry.createdAt
+    }
+  }
+}
+
+export default ConsentService
@@ -0,0 +1,166 @@
+import { PrismaClient } from '@prisma/client'
+import { logger, DataSource } from './logger'
+import { DEFAULT_LANGUAGE, SUPPORTED_LANGUAGES, TemplateLanguage, isSupportedLanguage } from './messageTemplates'
+
+const prisma = new PrismaClient()
+
+// IMPORT and ADMIN are explicit choices; INFERRED comes from the script of inbound messages
+export type LanguageSource = 'IMPORT' | 'ADMIN' | 'INFERRED'
+
+export interface LanguageBreakdown {
+  language: string
+  sent: number
+  delivered: number
+  replied: number
+  deliveryRate: number
+  responseRate: number
+}
+
+// Names people write in import files, in English and in the language itself
+const LANGUAGE_NAMES: Record<string, TemplateLanguage> = {
+  english: 'en',
+  hindi: 'hi',
+  marathi: 'mr',
+  tamil: 'ta',
+  telugu: 'te',
+  'हिंदी': 'hi',
+  'हिन्दी': 'hi',
+  'मराठी': 'mr',
+  'தமிழ்': 'ta',
+  'తెలుగు': 'te'
+}
+
+const TAMIL_SCRIPT = /[\u0B80-\u0BFF]/g
+const TELUGU_SCRIPT = /[\u0C00-\u0C7F]/g
+const DEVANAGARI_SCRIPT = /[\u0900-\u097F]/g
+const LATIN_SCRIPT = /[A-Za-z]/g
+
+// Hindi and Marathi share Devanagari; these everyday words tell them apart
+const MARATHI_WORDS = ['आहे', 'आहेत', 'नाही', 'मला', 'तुम्ही', 'काय', 'हवे', 'पाहिजे', 'आणि', 'झाले', 'करा']
+const HINDI_WORDS = ['है', 'हैं', 'नहीं', 'मुझे', 'आप', 'क्या', 'चाहिए', 'और', 'हूँ', 'हूं', 'करें']
+
+// Fewer letters than this in one script is too little to go on
+const MIN_SCRIPT_LETTERS = 3
+
+export class ContactLanguageService {
+  /**
+   * Supported language code for a code, locale or language name, or null
+   */
+  static normalize(value?: string | null): TemplateLanguage | null {
+    if (!value) return null
+
+    const trimmed = value.trim().toLowerCase()
+    const code = trimmed.split(/[_-]/)[0]
+    if (isSupportedLanguage(code)) return code
+
+    return LANGUAGE_NAMES[trimmed] || null
+  }
+
+  /**
+   * Guess a message's language from its script. Latin text returns null because
+   * customers often write Hindi and other languages in Latin letters.
+   */
+  static detect(text: string): TemplateLanguage | null {
+    const count = (pattern: RegExp) => (text.match(pattern) || []).length
+    const scripts: Array<{ language: TemplateLanguage | 'devanagari' | 'latin'; letters: number }> = [
+      { language: 'ta', letters: count(TAMIL_SCRIPT) },
+      { language: 'te', letters: count(TELUGU_SCRIPT) },
+      { language: 'devanagari', letters: count(DEVANAGARI_SCRIPT) },
+      { language: 'latin', letters: count(LATIN_SCRIPT) }
+    ]
+
+    const dominant = scripts.reduce((best, script) => script.letters > best.letters ? script : best)
+    if (dominant.letters < MIN_SCRIPT_LETTERS || dominant.language === 'latin') return null
+    if (dominant.language !== 'devanagari') return dominant.language
+
+    const words = text.split(/[\s,.!?।]+/)
+    const marathi = words.filter(word => MARATHI_WORDS.includes(word)).length + count(/ळ/g)
+    const hindi = words.filter(word => HINDI_WORDS.includes(word)).length
+    return marathi > hindi ? 'mr' : 'hi'
+  }
+
+  static async setPreference(contactId: string, language: string, source: LanguageSource): Promise<TemplateLanguage> {
+    const normalized = this.normalize(language)
+    if (!normalized) {
+      throw new Error(`Unsupported language '${language}'. Use one of ${SUPPORTED_LANGUAGES.map(l => l.code).join(', ')}`)
+    }
+
+    await prisma.contact.update({
+      where: { id: contactId },
+      data: { preferredLanguage: normalized, languageSource: source }
+    })
+    return normalized
+  }
+
+  /**
+   * Forget a contact's language so templates go out in English until one is inferred again
+   */
+  static async clearPreference(contactId: string): Promise<void> {
+    await prisma.contact.update({
+      where: { id: contactId },
+      data: { preferredLanguage: null, languageSource: null }
+    })
+  }
+
+  /**
+   * Update a contact's preferred language from an inbound message. Languages set at
+   * import or by an admin are kept. Returns the new language when it changed.
+   */
+  static async inferFromMessage(contactId: string, text: string): Promise<TemplateLanguage | null> {
+    const detected = this.detect(text)
+    if (!detected) return null
+
+    const contact = await prisma.contact.findUnique({
+      where: { id: contactId },
+      select: { preferredLanguage: true, languageSource: true }
+    })
+    if (!contact || contact.preferredLanguage === detected) return null
+    if (contact.languageSource === 'IMPORT' || contact.languageSource === 'ADMIN') return null
+
+    await prisma.contact.update({
+      where: { id: contactId },
+      data: { preferredLanguage: detected, languageSource: 'INFERRED' }
+    })
+
+    logger.info(DataSource.DATABASE, 'infer_contact_language', 'Contact language inferred from inbound message', {
+      contactId,
+      previous: contact.preferredLanguage,
+      language: detected
+    })
+    return detected
+  }
+
+  /**
+   * Delivery and reply rates per language variant sent, from outbound messages.
+   * Messages sent without a template have no language and are grouped as 'unknown'.
+   */
+  static breakdown(messages: Array<{
+    direction: string
+    language: string | null
+    status: string
+    deliveredAt: Date | null
+    repliedAt: Date | null
+  }>): LanguageBreakdown[] {
+    const totals = new Map<string, { sent: number; delivered: number; replied: number }>()
+
+    for (const message of messages) {
+      if (message.direction !== 'OUTBOUND' || message.status === 'FAILED' || message.status === 'PENDING') continue
+
+      const language = message.language || 'unknown'
+      const entry = totals.get(language) || { sent: 0, delivered: 0, replied: 0 }
+      entry.sent++
+      if (message.deliveredAt || ['DELIVERED', 'READ', 'REPLIED'].includes(message.status)) entry.delivered++
+      if (message.repliedAt || message.status === 'REPLIED') entry.replied++
+      totals.set(language, entry)
+    }
+
+    return Array.from(totals.entries())
+      .map(([language, entry]) => ({
+        language,
+        ...entry,
+        deliveryRate: Math.round(entry.delivered / entry.sent * 10000) / 100,
+        responseRate: Math.round(entry.replied / entry.sent * 10000) / 100
+      }))
+      .sort((a, b) => a.language === DEFAULT_LANGUAGE ? -1 : b.language === DEFAULT_LANGUAGE ? 1 : b.sent - a.sent)
+  }
+}
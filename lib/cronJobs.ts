@@ -1,9 +1,32 @@
 import cron from 'node-cron'
 import { PrismaClient } from '@prisma/client'
-import { updateLeadScoresFromDatabase } from './leadScoring'
+import { LeadScoringEngine } from './leadScoringEngine'
+import { LeadAssignmentService } from './leadAssignmentService'
+import { getAutomationEngine } from './automationEngine'
+import { SuppressionService } from './suppressionService'
+import { SendWindowService } from './sendWindowService'
+import { DeferredMessageQueue } from './deferredMessageQueue'
+import { getCampaignExecutor } from './campaignExecutor'
+import { MessageOutbox } from './messageOutbox'
+import { OutboxWorker } from './outboxWorker'
+import { TemplateRegistry } from './templateRegistry'
+import { TemplateContextService } from './templateContextService'
+import { CampaignVariantService } from './campaignVariantService'
+import { CampaignSequenceService } from './campaignSequenceService'
+import { RecurringCampaignService } from './recurringCampaignService'
+import { CampaignLauncher } from './campaignLauncher'
+import { CAMPAIGN_CONTACT_TERMINAL_STATUSES } from './campaignContactStatus'
 
 const prisma = new PrismaClient()
 
+const WELCOME_MESSAGE = 'Welcome to QuickLoan! We received your {{lead.loanType|lower|loan}} loan inquiry{{#if lead.loanAmount}} for {{lead.loanAmount|inr}}{{/if}}. Our expert will contact you shortly.'
+
+const FOLLOW_UP_MESSAGES = [
+  "Hi {{name|there}}! We noticed you haven't completed your {{lead.loanType|lower|loan}} loan application. Need any help? Reply HELP for assistance.",
+  'Hello {{name|there}}, your {{lead.loanType|lower|loan}} loan application is still pending. Our team is ready to assist you. Call us at +91-98765-43210.',
+  "Hi {{name|there}}! Don't miss out on competitive rates for your {{lead.loanType|lower|loan}} loan{{#if lead.loanAmount}} of {{lead.loanAmount|inr}}{{/if}}. Complete your application today!"
+]
+
 interface CronJobConfig {
   id: string
   name: string
@@ -30,6 +53,76 @@ class CronJobManager {
         handler: this.updateLeadScores,
         isActive: true
       },
+      {
+        id: 'lead-escalation-check',
+        name: 'Check Lead Escalations',
+        schedule: '15 * * * *', // Hourly at quarter past
+        handler: this.checkLeadEscalations,
+        isActive: true
+      },
+      {
+        id: 'automation-wait-resume',
+        name: 'Resume Waiting Automations',
+        schedule: '* * * * *', // Every minute
+        handler: this.resumeWaitingAutomations,
+        isActive: true
+      },
+      {
+        id: 'automation-execution-recovery',
+        name: 'Recover Interrupted Automations',
+        schedule: '*/5 * * * *', // Every 5 minutes
+        handler: this.recoverInterruptedAutomations,
+        isActive: true
+      },
+      {
+        id: 'message-outbox-worker',
+        name: 'Process Message Outbox',
+        schedule: '* * * * *', // Every minute; queueing a message also wakes the worker
+        handler: this.processMessageOutbox,
+        isActive: true
+      },
+      {
+        id: 'deferred-message-release',
+        name: 'Release Deferred Messages',
+        schedule: '*/5 * * * *', // Every 5 minutes
+        handler: this.releaseDeferredMessages,
+        isActive: true
+      },
+      {
+        id: 'ab-test-winner',
+        name: 'Send A/B Test Winners',
+        schedule: '*/5 * * * *', // Every 5 minutes
+        handler: this.sendAbTestWinners,
+        isActive: true
+      },
+      {
+        id: 'scheduled-campaign-launcher',
+        name: 'Launch Scheduled Campaigns',
+        schedule: '* * * * *', // Every minute
+        handler: this.launchScheduledCampaigns,
+        isActive: true
+      },
+      {
+        id: 'campaign-sequence-advance',
+        name: 'Send Due Sequence Steps',
+        schedule: '* * * * *', // Every minute
+        handler: this.advanceCampaignSequences,
+        isActive: true
+      },
+      {
+        id: 'recurring-campaign-runs',
+        name: 'Start Recurring Campaign Runs',
+        schedule: '*/5 * * * *', // Every 5 minutes
+        handler: this.startRecurringCampaignRuns,
+        isActive: true
+      },
+      {
+        id: 'template-status-sync',
+        name: 'Sync Template Approval Status',
+        schedule: '30 * * * *', // Hourly at half past
+        handler: this.syncTemplateStatuses,
+        isActive: true
+      },
       {
         id: 'welcome-message-automation',
         name: 'Send Welcome Messages',
@@ -178,8 +271,96 @@ class CronJobManager {
   // Job Handlers
   private async updateLeadScores() {
     console.log('Running lead scoring update...')
-    const result = await updateLeadScoresFromDatabase()
-    console.log('Lead scoring update completed:', result)
+    const result = await LeadScoringEngine.bulkUpdateLeadScores('CRON')
+    console.log('Lead scoring update completed:', {
+      processed: result.processed,
+      updated: result.updated,
+      errors: result.errors.length
+    })
+  }
+
+  private async checkLeadEscalations() {
+    console.log('Checking leads for SLA escalations...')
+    const result = await LeadAssignmentService.processEscalations()
+    console.log('Lead escalation check completed:', {
+      processed: result.processed,
+      escalated: result.escalated,
+      errors: result.errors.length
+    })
+  }
+
+  private async resumeWaitingAutomations() {
+    const result = await getAutomationEngine().processDueJobs()
+    if (result.resumed > 0 || result.failed > 0) {
+      console.log('Resumed waiting automations:', result)
+    }
+  }
+
+  private async recoverInterruptedAutomations() {
+    await getAutomationEngine().recoverInterruptedExecutions()
+  }
+
+  private async processMessageOutbox() {
+    await OutboxWorker.processDue()
+  }
+
+  private async releaseDeferredMessages() {
+    const campaignMessages = await getCampaignExecutor().releaseDeferredMessages()
+
+    const followUps = await DeferredMessageQueue.claimDue('FOLLOW_UP')
+    for (const message of followUps) {
+      await this.sendMessage(message.phone, message.content || '', message.type, `deferred:${message.id}`)
+    }
+
+    if (campaignMessages > 0 || followUps.length > 0) {
+      console.log(`Released deferred messages: ${campaignMessages} campaign, ${followUps.length} follow-up`)
+    }
+  }
+
+  private async sendAbTestWinners() {
+    for (const campaignId of await CampaignVariantService.findEndedTests()) {
+      try {
+        const released = await getCampaignExecutor().sendAbTestWinner(campaignId)
+        console.log(`Picked the A/B test winner of campaign ${campaignId} for ${released} remaining contacts`)
+      } catch (error) {
+        console.error(`Failed to send the A/B test winner of campaign ${campaignId}:`, error)
+      }
+    }
+  }
+
+  private async launchScheduledCampaigns() {
+    for (const outcome of await CampaignLauncher.launchDue()) {
+      console.log(`Launched campaign ${outcome.campaignId} ${Math.round(outcome.lagMs / 1000)}s after its scheduled time:`, outcome.result.success ? 'ok' : outcome.result.errors)
+    }
+  }
+
+  private async advanceCampaignSequences() {
+    const queued = await getCampaignExecutor().advanceSequences()
+    if (queued > 0) {
+      console.log(`Queued ${queued} sequence steps`)
+    }
+  }
+
+  private async startRecurringCampaignRuns() {
+    for (const campaignId of await RecurringCampaignService.findDue()) {
+      try {
+        const runId = await RecurringCampaignService.createRun(campaignId)
+        if (!runId) continue
+
+        const run = await prisma.campaign.findUnique({ where: { id: runId }, select: { createdById: true } })
+        const result = await getCampaignExecutor().executeCampaign(runId, run!.createdById)
+        console.log(`Started run ${runId} of recurring campaign ${campaignId}:`, result.success ? 'ok' : result.errors)
+      } catch (error) {
+        console.error(`Failed to start a run of recurring campaign ${campaignId}:`, error)
+      }
+    }
+  }
+
+  private async syncTemplateStatuses() {
+    const result = await TemplateRegistry.syncWithProvider()
+    if (result.updated > 0 || result.imported > 0 || result.errors.length > 0) {
+      console.log('Synced message templates with provider:', result)
+    }
   }
 
   private async sendWelcomeMessages() {
@@ -204,11 +385,12 @@ class CronJobManager {
           // Send welcome message via WhatsApp/SMS
           await this.sendMessage(
             lead.contact.phone,
-            `Welcome to QuickLoan! We received your ${lead.loanType.toLowerCase()} loan inquiry for ₹${lead.loanAmount.toLocaleString()}. Our expert will contact you shortly.`,
-            'WHATSAPP'
+            TemplateContextService.personalize(WELCOME_MESSAGE, lead),
+            'WHATSAPP',
+            `welcome:${lead.id}`
           )
           
-          console.log(`Sent welcome message to ${lead.name} (${lead.contact.phone})`)
+          console.log(`Queued welcome message to ${lead.name} (${lead.contact.phone})`)
         }
       }
 
@@ -240,7 +422,7 @@ class CronJobManager {
       for (const lead of followupLeads) {
         if (lead.contact?.phone) {
           const message = this.getFollowupMessage(lead)
-          await this.sendMessage(lead.contact.phone, message, 'WHATSAPP')
+          await this.sendMessage(lead.contact.phone, message, 'WHATSAPP', `follow-up:${lead.id}:${new Date().toISOString().slice(0, 10)}`)
           
           // Update lead's updatedAt to avoid sending multiple follow-ups
           await prisma.lead.update({
@@ -248,7 +430,7 @@ class CronJobManager {
             data: { updatedAt: new Date() }
           })
           
-          console.log(`Sent follow-up message to ${lead.name}`)
+          console.log(`Queued follow-up message to ${lead.name}`)
         }
       }
 
@@ -259,78 +441,45 @@ class CronJobManager {
   }
 
   private getFollowupMessage(lead: any): string {
-    const messages = [
-      `Hi ${lead.name}! We noticed you haven't completed your ${lead.loanType.toLowerCase()} loan application. Need any help? Reply HELP for assistance.`,
-      `Hello ${lead.name}, your ${lead.loanType.toLowerCase()} loan application is still pending. Our team is ready to assist you. Call us at +91-98765-43210.`,
-      `Hi ${lead.name}! Don't miss out on competitive rates for your ${lead.loanType.toLowerCase()} loan. Complete your application today!`
-    ]
-    
-    return messages[Math.floor(Math.random() * messages.length)]
+    const template = FOLLOW_UP_MESSAGES[Math.floor(Math.random() * FOLLOW_UP_MESSAGES.length)]
+    return TemplateContextService.personalize(template, lead)
   }
 
-  private async sendMessage(phone: string, message: string, type: 'SMS' | 'WHATSAPP') {
-    // This would integrate with actual SMS/WhatsApp API
-    console.log(`Sending ${type} to ${phone}: ${message}`)
-    
-    // Create message record
+  private async sendMessage(phone: string, message: string, type: 'SMS' | 'WHATSAPP', idempotencyKey: string) {
+    if (await SuppressionService.isSuppressed(phone, type)) {
+      console.log(`Skipping ${type} to ${phone}: number is on the suppression list`)
+      return
+    }
+
+    const sendWindow = await SendWindowService.getGlobalWindow()
+    if (!SendWindowService.isOpen(sendWindow)) {
+      const releaseAt = SendWindowService.getNextOpening(sendWindow)
+      await DeferredMessageQueue.defer([{ source: 'FOLLOW_UP', phone, type, content: message, releaseAt }])
+      console.log(`Deferred ${type} to ${phone} until ${releaseAt.toISOString()}: outside the send window`)
+      return
+    }
+
     const contact = await prisma.contact.findFirst({
       where: { phone }
     })
 
-    if (contact) {
-      await prisma.message.create({
-        data: {
-          type,
-          direction: 'OUTBOUND',
-          content: message,
-          contactId: contact.id,
-          status: 'SENT',
-          sentAt: new Date()
-        }
-      })
-    }
+    // Queued rather than sent here so failures are retried and end up in the dead letters
+    await MessageOutbox.enqueue([{
+      idempotencyKey,
+      source: 'FOLLOW_UP',
+      contactId: contact?.id,
+      phone,
+      type,
+      kind: 'TEXT',
+      content: message
+    }])
+    OutboxWorker.wake()
   }
 
   private async updateCampaignStatus() {
     console.log('Updating campaign statuses...')
     
     try {
-      // Update scheduled campaigns that should be running
-      const scheduledCampaigns = await prisma.campaign.findMany({
-        where: {
-          status: 'SCHEDULED',
-          scheduledAt: {
-            lte: new Date()
-          }
-        }
-      })
-
-      for (const campaign of scheduledCampaigns) {
-        await prisma.campaign.update({
-          where: { id: campaign.id },
-          data: { 
-            status: 'RUNNING',
-            sentAt: new Date()
-          }
-        })
-        
-        console.log(`Started campaign: ${campaign.name}`)
-        
-        // Trigger automated execution for scheduled campaigns
-        try {
-          const { executeAutomatedCampaign } = await import('./campaignExecutor')
-          await executeAutomatedCampaign(campaign.id, campaign.createdById, {
-            markProcessedContacts: true,
-            autoProgressToNextDataSet: true,
-            generatePerformanceReport: true,
-            triggerFollowUpCampaigns: false,
-            leadScoringUpdate: true
-          })
-        } catch (executionError) {
-          console.error(`Failed to execute automated campaign ${campaign.id}:`, executionError)
-        }
-      }
-
       // Check for completed campaigns and trigger post-processing
       const runningCampaigns = await prisma.campaign.findMany({
         where: { status: 'RUNNING' },
@@ -342,9 +491,14 @@ class CronJobManager {
       for (const campaign of runningCampaigns) {
         const totalContacts = campaign.contacts.length
         const completedContacts = campaign.contacts.filter(
-          c => ['SENT', 'DELIVERED', 'FAILED'].includes(c.status)
+          c => CAMPAIGN_CONTACT_TERMINAL_STATUSES.includes(c.status)
         ).length
 
+        // Sequence contacts have later steps to come until their enrolment ends
+        if (campaign.kind === 'SEQUENCE' && await CampaignSequenceService.countActive(campaign.id) > 0) {
+          continue
+        }
+
         if (completedContacts === totalContacts) {
           await prisma.campaign.update({
             where: { id: campaign.id },
@@ -363,6 +517,9 @@ class CronJobManager {
             
             // Mark processed contacts
             await executor['markProcessedContacts'](campaign.id)
+
+            // Campaigns sent through the outbox complete here rather than when they are executed
+            await executor['updateLeadScoresForCampaign'](campaign.id)
             
             console.log(`Post-campaign automation completed for: ${campaign.name}`)
           } catch (automationError) {
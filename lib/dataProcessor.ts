@@ -5,14 +5,19 @@ import {
   isWhatsAppCompatible, 
   extractMultiplePhoneNumbers 
 } from './phoneNumberService'
+import { ContactLanguageService } from './contactLanguageService'
 
 interface ContactData {
   name: string
   phone: string
   email?: string
   tags?: string[]
+  preferredLanguage?: string
 }
 
+// Optional column giving each contact's preferred template language
+const LANGUAGE_HEADERS = ['language', 'preferred language', 'preferred_language', 'lang']
+
 interface ProcessedResult {
   success: ContactData[]
   errors: Array<{
@@ -174,6 +179,7 @@ export function processContactData(rawData: string[][], filename: string = 'unkn
   // Enhanced column detection with scoring
   const columnMapping = detectColumns(headers)
   const { nameIndex, phoneIndex, emailIndex, tagsIndex } = columnMapping.indices
+  const languageIndex = headers.findIndex(header => LANGUAGE_HEADERS.includes(header))
   
   const success: ContactData[] = []
   const errors: ValidationError[] = []
@@ -251,6 +257,21 @@ export function processContactData(rawData: string[][], filename: string = 'unkn
       
       // Parse tags with validation
       const tags = parseAndValidateTags(tagsStr)
+
+      // An unrecognised language is imported without one, so templates fall back to English
+      const languageStr = languageIndex >= 0 ? row[languageIndex]?.toString().trim() : ''
+      const preferredLanguage = ContactLanguageService.normalize(languageStr) || undefined
+      if (languageStr && !preferredLanguage) {
+        warnings++
+        errors.push({
+          row: rowNumber,
+          column: headers[languageIndex],
+          field: 'language',
+          value: languageStr,
+          error: `Unsupported language: ${languageStr}`,
+          severity: 'warning'
+        })
+      }
       
       // Process each phone number with duplicate tracking
       phoneNumbers.forEach((phone, phoneIndex) => {
@@ -282,7 +303,8 @@ export function processContactData(rawData: string[][], filename: string = 'unkn
             name: contactName,
             phone: phone,
             email: email || undefined,
-            tags: tags.length > 0 ? tags : undefined
+            tags: tags.length > 0 ? tags : undefined,
+            preferredLanguage
           })
         }
       })
@@ -19,6 +19,9 @@ export interface Lead {
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT'
   source: string
   score: number
+  scoreConfidence?: number
+  qualityBand?: 'EXCELLENT' | 'GOOD' | 'AVERAGE' | 'POOR' | null
+  scoreUpdatedAt?: string | null
   assignedTo?: {
     id: string
     name: string
@@ -37,6 +40,7 @@ export interface Contact {
   tags: string[]
   source: string
   status: 'ACTIVE' | 'INACTIVE' | 'BLOCKED'
+  preferredLanguage?: string
   lastContact?: string
   totalMessages: number
   totalCampaigns: number
@@ -50,8 +54,14 @@ export interface Campaign {
   name: string
   type: 'SMS' | 'WHATSAPP' | 'EMAIL'
   message: string
-  status: 'DRAFT' | 'SCHEDULED' | 'RUNNING' | 'COMPLETED' | 'PAUSED' | 'CANCELLED'
+  provider?: string
+  segmentId?: string
+  status: 'DRAFT' | 'SCHEDULED' | 'LAUNCHING' | 'RUNNING' | 'COMPLETED' | 'PAUSED' | 'CANCELLED'
   scheduledAt?: string
+  scheduledTimeZone?: string
+  launchedAt?: string
+  launchLagMs?: number
+  launchError?: string
   sentAt?: string
   totalContacts: number
   totalSent: number
@@ -0,0 +1,112 @@
+import { PrismaClient } from '@prisma/client'
+
+const prisma = new PrismaClient()
+
+export type DeferredMessageSource = 'CAMPAIGN' | 'FOLLOW_UP'
+export type DeferredMessageStatus = 'DEFERRED' | 'RELEASED' | 'CANCELLED'
+
+export interface DeferredMessage {
+  id: string
+  source: DeferredMessageSource
+  campaignId?: string
+  contactId?: string
+  phone: string
+  type: 'SMS' | 'WHATSAPP'
+  content?: string
+  releaseAt: Date
+  status: DeferredMessageStatus
+}
+
+interface DeferMessageInput {
+  source: DeferredMessageSource
+  campaignId?: string
+  contactId?: string
+  phone: string
+  type: 'SMS' | 'WHATSAPP'
+  content?: string
+  releaseAt: Date
+}
+
+export class DeferredMessageQueue {
+  static async defer(messages: DeferMessageInput[]): Promise<number> {
+    if (messages.length === 0) return 0
+    const result = await prisma.deferredMessage.createMany({ data: messages })
+    return result.count
+  }
+
+  /**
+   * Claim deferred messages whose release time has passed, marking them
+   * RELEASED so a second worker skips them
+   */
+  static async claimDue(source: DeferredMessageSource, limit: number = 1000): Promise<DeferredMessage[]> {
+    const due = await prisma.deferredMessage.findMany({
+      where: {
+        source,
+        status: 'DEFERRED',
+        releaseAt: { lte: new Date() }
+      },
+      orderBy: { releaseAt: 'asc' },
+      take: limit
+    })
+
+    const claimed: DeferredMessage[] = []
+    for (const message of due) {
+      const result = await prisma.deferredMessage.updateMany({
+        where: { id: message.id, status: 'DEFERRED' },
+        data: { status: 'RELEASED', releasedAt: new Date() }
+      })
+      if (result.count > 0) {
+        claimed.push(this.toDeferredMessage({ ...message, status: 'RELEASED' }))
+      }
+    }
+
+    return claimed
+  }
+
+  static async cancelForCampaign(campaignId: string): Promise<number> {
+    const result = await prisma.deferredMessage.updateMany({
+      where: { campaignId, status: 'DEFERRED' },
+      data: { status: 'CANCELLED' }
+    })
+    return result.count
+  }
+
+  static async getCampaignSummary(campaignId: string): Promise<{ deferredCount: number; nextReleaseAt?: Date }> {
+    const [deferredCount, next] = await Promise.all([
+      prisma.deferredMessage.count({ where: { campaignId, status: 'DEFERRED' } }),
+      prisma.deferredMessage.findFirst({
+        where: { campaignId, status: 'DEFERRED' },
+        orderBy: { releaseAt: 'asc' },
+        select: { releaseAt: true }
+      })
+    ])
+
+    return { deferredCount, nextReleaseAt: next?.releaseAt }
+  }
+
+  private static toDeferredMessage(message: {
+    id: string
+    source: string
+    campaignId: string | null
+    contactId: string | null
+    phone: string
+    type: string
+    content: string | null
+    releaseAt: Date
+    status: string
+  }): DeferredMessage {
+    return {
+      id: message.id,
+      source: message.source as DeferredMessageSource,
+      campaignId: message.campaignId || undefined,
+      contactId: message.contactId || undefined,
+      phone: message.phone,
+      type: message.type as 'SMS' | 'WHATSAPP',
+      content: message.content || undefined,
+      releaseAt: message.releaseAt,
+      status: message.status as DeferredMessageStatus
+    }
+  }
+}
+
+export default DeferredMessageQueue
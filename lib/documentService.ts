@@ -0,0 +1,187 @@
+import { PrismaClient } from '@prisma/client'
+import { createHash } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { validateUploadedFile, generateSecureFileName } from './security/fileUpload'
+
+const prisma = new PrismaClient()
+
+export const DOCUMENT_TYPES = ['PAN', 'AADHAAR', 'SALARY_SLIP', 'BANK_STATEMENT'] as const
+export type DocumentType = typeof DOCUMENT_TYPES[number]
+
+export const DOCUMENT_STATUSES = ['PENDING', 'VERIFIED', 'REJECTED'] as const
+export type DocumentStatus = typeof DOCUMENT_STATUSES[number]
+
+// KYC uploads are limited to scans and photos
+const ALLOWED_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png']
+const MAX_DOCUMENT_SIZE = 5 * 1024 * 1024 // 5MB
+
+const STORAGE_ROOT = process.env.DOCUMENT_STORAGE_DIR || path.join(process.cwd(), 'storage', 'documents')
+
+interface DocumentUploadResult {
+  success: boolean
+  document?: any
+  errors: string[]
+}
+
+export class DocumentService {
+  /**
+   * Validate and store a KYC document for a lead
+   */
+  static async uploadDocument(
+    leadId: string,
+    file: File,
+    documentType: string,
+    uploadedById?: string
+  ): Promise<DocumentUploadResult> {
+    try {
+      if (!DOCUMENT_TYPES.includes(documentType as DocumentType)) {
+        return { success: false, errors: [`Invalid document type. Allowed: ${DOCUMENT_TYPES.join(', ')}`] }
+      }
+
+      const validation = await validateUploadedFile(
+        file,
+        file.type === 'application/pdf' ? 'DOCUMENT' : 'IMAGE',
+        { allowedTypes: ALLOWED_MIME_TYPES, maxSize: MAX_DOCUMENT_SIZE }
+      )
+      if (!validation.valid) {
+        return { success: false, errors: validation.errors }
+      }
+
+      const lead = await prisma.lead.findUnique({ where: { id: leadId } })
+      if (!lead) {
+        return { success: false, errors: ['Lead not found'] }
+      }
+
+      const buffer = Buffer.from(await file.arrayBuffer())
+      const sha256 = createHash('sha256').update(buffer).digest('hex')
+      const storagePath = await this.writeContent(sha256, path.extname(file.name).toLowerCase(), buffer)
+
+      const document = await prisma.leadDocument.create({
+        data: {
+          leadId,
+          documentType,
+          fileName: generateSecureFileName(file.name, documentType.toLowerCase()),
+          originalName: file.name,
+          mimeType: file.type,
+          size: file.size,
+          sha256,
+          storagePath,
+          uploadedById
+        }
+      })
+
+      return { success: true, document, errors: [] }
+
+    } catch (error) {
+      console.error('Error uploading lead document:', error)
+      return {
+        success: false,
+        errors: [`Document upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`]
+      }
+    }
+  }
+
+  /**
+   * List documents for a lead, newest first
+   */
+  static async getLeadDocuments(leadId: string) {
+    return prisma.leadDocument.findMany({
+      where: { leadId },
+      include: {
+        verifiedBy: {
+          select: { id: true, name: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    })
+  }
+
+  /**
+   * Load a document record together with its file contents
+   */
+  static async readDocument(leadId: string, documentId: string): Promise<{ document: any; content: Buffer } | null> {
+    const document = await prisma.leadDocument.findFirst({
+      where: { id: documentId, leadId }
+    })
+
+    if (!document) return null
+
+    const content = await fs.readFile(this.resolveStoragePath(document.storagePath))
+    return { document, content }
+  }
+
+  /**
+   * Record a loan officer's verification decision
+   */
+  static async updateVerificationStatus(
+    leadId: string,
+    documentId: string,
+    status: DocumentStatus,
+    userId: string,
+    rejectionReason?: string
+  ) {
+    const document = await prisma.leadDocument.findFirst({
+      where: { id: documentId, leadId }
+    })
+
+    if (!document) return null
+
+    const updated = await prisma.leadDocument.update({
+      where: { id: documentId },
+      data: {
+        status,
+        rejectionReason: status === 'REJECTED' ? rejectionReason || null : null,
+        verifiedById: status === 'PENDING' ? null : userId,
+        verifiedAt: status === 'PENDING' ? null : new Date()
+      },
+      include: {
+        verifiedBy: {
+          select: { id: true, name: true }
+        }
+      }
+    })
+
+    await prisma.activity.create({
+      data: {
+        type: 'NOTE',
+        title: `Document ${status.toLowerCase()}`,
+        description: `${document.documentType} document ${status.toLowerCase()}${status === 'REJECTED' && rejectionReason ? `: ${rejectionReason}` : ''}`,
+        leadId,
+        userId
+      }
+    })
+
+    return updated
+  }
+
+  /**
+   * Write file contents under a content-addressed path (ab/cd/<sha256><ext>).
+   * Identical uploads share a single file on disk.
+   */
+  private static async writeContent(sha256: string, extension: string, buffer: Buffer): Promise<string> {
+    const safeExtension = /^\.[a-z0-9]{1,5}$/.test(extension) ? extension : ''
+    const relativePath = path.join(sha256.slice(0, 2), sha256.slice(2, 4), `${sha256}${safeExtension}`)
+    const absolutePath = this.resolveStoragePath(relativePath)
+
+    await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+
+    try {
+      await fs.writeFile(absolutePath, buffer, { flag: 'wx' })
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') throw error
+    }
+
+    return relativePath
+  }
+
+  private static resolveStoragePath(relativePath: string): string {
+    const absolutePath = path.resolve(STORAGE_ROOT, relativePath)
+    if (!absolutePath.startsWith(path.resolve(STORAGE_ROOT) + path.sep)) {
+      throw new Error('Invalid document storage path')
+    }
+    return absolutePath
+  }
+}
+
+export default DocumentService
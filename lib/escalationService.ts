@@ -0,0 +1,302 @@
+import { PrismaClient } from '@prisma/client'
+import { EscalationRuleInput, ESCALATION_ACTION_TYPES } from './security/validation'
+
+const prisma = new PrismaClient()
+
+export type EscalationActionType = typeof ESCALATION_ACTION_TYPES[number]
+
+export interface EscalationRule {
+  id: string
+  name: string
+  priority: number
+  conditions: {
+    noResponseHours?: number
+    leadAge?: number
+    priority?: string[]
+    status?: string[]
+  }
+  actions: Array<{
+    type: EscalationActionType
+    targetUserId?: string
+    notificationMessage?: string
+    campaignId?: string
+  }>
+  isActive: boolean
+}
+
+export interface EscalationActionResult {
+  type: EscalationActionType
+  success: boolean
+  detail?: string
+}
+
+export const ESCALATION_STATUSES = ['OPEN', 'ACKNOWLEDGED', 'RESOLVED'] as const
+export type EscalationStatus = typeof ESCALATION_STATUSES[number]
+
+interface EscalationFilters {
+  status?: EscalationStatus
+  assignedToId?: string
+  days?: number
+}
+
+interface EmployeeSlaSummary {
+  userId: string
+  name: string
+  total: number
+  open: number
+  acknowledged: number
+  resolved: number
+  averageResolutionHours: number | null
+}
+
+type EscalationRuleRecord = {
+  id: string
+  name: string
+  priority: number
+  conditions: string
+  actions: string
+  isActive: boolean
+}
+
+const escalationInclude = {
+  lead: {
+    select: { id: true, name: true, phone: true, status: true, priority: true }
+  },
+  assignedTo: {
+    select: { id: true, name: true, email: true }
+  },
+  acknowledgedBy: {
+    select: { id: true, name: true }
+  },
+  resolvedBy: {
+    select: { id: true, name: true }
+  }
+}
+
+export class EscalationService {
+  /**
+   * List all escalation rules in evaluation order
+   */
+  static async listRules(): Promise<EscalationRule[]> {
+    const rules = await prisma.escalationRule.findMany({
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    })
+    return rules.map(rule => this.toEscalationRule(rule))
+  }
+
+  /**
+   * Active rules in evaluation order, as used by LeadAssignmentService
+   */
+  static async getActiveRules(): Promise<EscalationRule[]> {
+    const rules = await prisma.escalationRule.findMany({
+      where: { isActive: true },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    })
+    return rules.map(rule => this.toEscalationRule(rule))
+  }
+
+  static async getRule(id: string): Promise<EscalationRule | null> {
+    const rule = await prisma.escalationRule.findUnique({ where: { id } })
+    return rule ? this.toEscalationRule(rule) : null
+  }
+
+  static async createRule(input: EscalationRuleInput, createdById?: string): Promise<EscalationRule> {
+    const rule = await prisma.escalationRule.create({
+      data: {
+        name: input.name,
+        priority: input.priority,
+        conditions: JSON.stringify(input.conditions),
+        actions: JSON.stringify(input.actions),
+        isActive: input.isActive ?? true,
+        createdById
+      }
+    })
+    return this.toEscalationRule(rule)
+  }
+
+  static async updateRule(id: string, input: Partial<EscalationRuleInput>): Promise<EscalationRule | null> {
+    const existing = await prisma.escalationRule.findUnique({ where: { id } })
+    if (!existing) return null
+
+    const rule = await prisma.escalationRule.update({
+      where: { id },
+      data: {
+        name: input.name,
+        priority: input.priority,
+        conditions: input.conditions ? JSON.stringify(input.conditions) : undefined,
+        actions: input.actions ? JSON.stringify(input.actions) : undefined,
+        isActive: input.isActive
+      }
+    })
+    return this.toEscalationRule(rule)
+  }
+
+  static async deleteRule(id: string): Promise<boolean> {
+    const result = await prisma.escalationRule.deleteMany({ where: { id } })
+    return result.count > 0
+  }
+
+  /**
+   * Whether a lead already has an unresolved escalation from this rule
+   */
+  static async hasOpenEscalation(leadId: string, ruleId: string): Promise<boolean> {
+    const count = await prisma.leadEscalation.count({
+      where: {
+        leadId,
+        ruleId,
+        status: { in: ['OPEN', 'ACKNOWLEDGED'] }
+      }
+    })
+    return count > 0
+  }
+
+  static async recordEscalation(
+    lead: { id: string; assignedToId: string | null },
+    rule: EscalationRule,
+    actionsTaken: EscalationActionResult[]
+  ) {
+    return prisma.leadEscalation.create({
+      data: {
+        leadId: lead.id,
+        ruleId: rule.id,
+        ruleName: rule.name,
+        assignedToId: lead.assignedToId,
+        actionsTaken: JSON.stringify(actionsTaken)
+      }
+    })
+  }
+
+  static async listEscalations(filters: EscalationFilters = {}) {
+    const where: any = {}
+    if (filters.status) where.status = filters.status
+    if (filters.assignedToId) where.assignedToId = filters.assignedToId
+    if (filters.days) {
+      where.createdAt = { gte: new Date(Date.now() - filters.days * 24 * 60 * 60 * 1000) }
+    }
+
+    const escalations = await prisma.leadEscalation.findMany({
+      where,
+      include: escalationInclude,
+      orderBy: { createdAt: 'desc' },
+      take: 500
+    })
+
+    return escalations.map(escalation => ({
+      ...escalation,
+      actionsTaken: JSON.parse(escalation.actionsTaken) as EscalationActionResult[]
+    }))
+  }
+
+  /**
+   * Move an escalation forward. Resolving implies acknowledgement.
+   */
+  static async updateStatus(
+    id: string,
+    status: Exclude<EscalationStatus, 'OPEN'>,
+    userId: string,
+    resolution?: string
+  ) {
+    const escalation = await prisma.leadEscalation.findUnique({ where: { id } })
+    if (!escalation) {
+      return { success: false, reason: 'Escalation not found' }
+    }
+
+    if (escalation.status === 'RESOLVED') {
+      return { success: false, reason: 'Escalation is already resolved' }
+    }
+
+    const now = new Date()
+    const data: any = { status }
+
+    if (!escalation.acknowledgedAt) {
+      data.acknowledgedById = userId
+      data.acknowledgedAt = now
+    }
+
+    if (status === 'RESOLVED') {
+      data.resolvedById = userId
+      data.resolvedAt = now
+      data.resolution = resolution
+    }
+
+    const updated = await prisma.leadEscalation.update({
+      where: { id },
+      data,
+      include: escalationInclude
+    })
+
+    return {
+      success: true,
+      escalation: {
+        ...updated,
+        actionsTaken: JSON.parse(updated.actionsTaken) as EscalationActionResult[]
+      }
+    }
+  }
+
+  /**
+   * SLA breaches per employee over a period
+   */
+  static async getSlaSummary(days: number = 30): Promise<EmployeeSlaSummary[]> {
+    const escalations = await prisma.leadEscalation.findMany({
+      where: {
+        assignedToId: { not: null },
+        createdAt: { gte: new Date(Date.now() - days * 24 * 60 * 60 * 1000) }
+      },
+      include: {
+        assignedTo: { select: { id: true, name: true } }
+      }
+    })
+
+    const summaries = new Map<string, EmployeeSlaSummary & { resolutionHours: number[] }>()
+
+    for (const escalation of escalations) {
+      if (!escalation.assignedTo) continue
+
+      const summary = summaries.get(escalation.assignedTo.id) || {
+        userId: escalation.assignedTo.id,
+        name: escalation.assignedTo.name,
+        total: 0,
+        open: 0,
+        acknowledged: 0,
+        resolved: 0,
+        averageResolutionHours: null,
+        resolutionHours: []
+      }
+
+      summary.total++
+      if (escalation.status === 'OPEN') summary.open++
+      if (escalation.status === 'ACKNOWLEDGED') summary.acknowledged++
+      if (escalation.status === 'RESOLVED') {
+        summary.resolved++
+        if (escalation.resolvedAt) {
+          summary.resolutionHours.push((escalation.resolvedAt.getTime() - escalation.createdAt.getTime()) / (1000 * 60 * 60))
+        }
+      }
+
+      summaries.set(escalation.assignedTo.id, summary)
+    }
+
+    return Array.from(summaries.values())
+      .map(({ resolutionHours, ...summary }) => ({
+        ...summary,
+        averageResolutionHours: resolutionHours.length > 0
+          ? Math.round((resolutionHours.reduce((sum, hours) => sum + hours, 0) / resolutionHours.length) * 10) / 10
+          : null
+      }))
+      .sort((a, b) => b.total - a.total)
+  }
+
+  private static toEscalationRule(rule: EscalationRuleRecord): EscalationRule {
+    return {
+      id: rule.id,
+      name: rule.name,
+      priority: rule.priority,
+      conditions: JSON.parse(rule.conditions),
+      actions: JSON.parse(rule.actions),
+      isActive: rule.isActive
+    }
+  }
+}
+
+export default EscalationService
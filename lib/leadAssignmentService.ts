@@ -1,27 +1,10 @@
 import { PrismaClient } from '@prisma/client'
+import { AssignmentRuleService, AssignmentRule } from './assignmentRuleService'
+import { EscalationService, EscalationRule, EscalationActionResult } from './escalationService'
+import { AvailabilityService } from './availabilityService'
 
 const prisma = new PrismaClient()
 
-interface AssignmentRule {
-  id: string
-  name: string
-  priority: number
-  conditions: {
-    loanType?: string[]
-    loanAmountMin?: number
-    loanAmountMax?: number
-    leadSource?: string[]
-    leadPriority?: string[]
-    timeOfDay?: { start: string; end: string }
-    dayOfWeek?: string[]
-  }
-  assignmentStrategy: 'ROUND_ROBIN' | 'WORKLOAD_BASED' | 'SKILL_BASED' | 'MANUAL'
-  targetUsers?: string[]
-  isActive: boolean
-  createdAt: string
-  updatedAt: string
-}
-
 interface EmployeeWorkload {
   userId: string
   userName: string
@@ -32,9 +15,12 @@ interface EmployeeWorkload {
   skills: string[]
   availability: {
     isAvailable: boolean
+    unavailableReason?: string
+    outOfOfficeUntil?: string
     lastActive: string
     workingHours: { start: string; end: string }
     workingDays: string[]
+    timeZone: string
   }
   performance: {
     conversionRate: number
@@ -60,24 +46,6 @@ interface AssignmentResult {
   }>
 }
 
-interface EscalationRule {
-  id: string
-  name: string
-  conditions: {
-    noResponseHours?: number
-    leadAge?: number
-    priority?: string[]
-    status?: string[]
-  }
-  escalationActions: Array<{
-    type: 'REASSIGN' | 'NOTIFY_MANAGER' | 'INCREASE_PRIORITY' | 'ADD_TO_CAMPAIGN'
-    targetUserId?: string
-    notificationMessage?: string
-    campaignId?: string
-  }>
-  isActive: boolean
-}
-
 export class LeadAssignmentService {
   /**
    * Assign lead to the most appropriate employee based on rules and workload
@@ -271,11 +239,29 @@ export class LeadAssignmentService {
       }
 
       if (!assignedEmployee) {
+        // Every target is unavailable or full, so hand the lead to the best alternative
+        const alternatives = await this.getAlternativeAssignees(lead)
+        if (alternatives.length === 0) {
+          return {
+            success: false,
+            reason: `No suitable employee found using ${rule.assignmentStrategy} strategy`,
+            confidence: 0
+          }
+        }
+
+        const fallback = alternatives[0]
+        await this.performAssignment(lead.id, fallback.id, `${rule.assignmentStrategy} (fallback)`, 60)
+
         return {
-          success: false,
-          reason: `No suitable employee found using ${rule.assignmentStrategy} strategy`,
-          confidence: 0,
-          alternativeOptions: await this.getAlternativeAssignees(lead)
+          success: true,
+          assignedTo: {
+            id: fallback.id,
+            name: fallback.name,
+            email: fallback.email
+          },
+          reason: `No target of rule ${rule.name} is available; fell back to ${fallback.name}`,
+          confidence: 60,
+          alternativeOptions: alternatives.slice(1)
         }
       }
 
@@ -314,7 +300,7 @@ export class LeadAssignmentService {
       // Get last assignment to determine next in rotation
       const lastAssignment = await prisma.lead.findFirst({
         where: {
-          assignedToId: { in: targetUserIds },
+          assignedToId: { in: employees.map(emp => emp.userId) },
           createdAt: { gte: new Date(Date.now() - 24 * 60 * 60 * 1000) } // Last 24 hours
         },
         orderBy: { createdAt: 'desc' },
@@ -325,7 +311,7 @@ export class LeadAssignmentService {
         return employees[0] // First employee if no recent assignments
       }
 
-      // Find next employee in rotation
+      // Find next employee in rotation; unavailable or full employees are already excluded
       const lastAssigneeIndex = employees.findIndex(emp => emp.userId === lastAssignment.assignedToId)
       const nextIndex = (lastAssigneeIndex + 1) % employees.length
       
@@ -466,13 +452,13 @@ export class LeadAssignmentService {
         throw new Error('User not found')
       }
 
+      const schedule = await AvailabilityService.getSchedule(userId)
+      if (!schedule) {
+        throw new Error('User not found')
+      }
+
       // Count active leads
-      const activeLeads = await prisma.lead.count({
-        where: {
-          assignedToId: userId,
-          status: { notIn: ['CLOSED_WON', 'CLOSED_LOST'] }
-        }
-      })
+      const activeLeads = await AvailabilityService.countActiveLeads(userId)
 
       // Get performance metrics
       const totalLeads = await prisma.lead.count({
@@ -491,9 +477,8 @@ export class LeadAssignmentService {
       // Calculate average response time (simplified)
       const averageResponseTime = 2.5 // This would be calculated from actual message response times
 
-      // Determine availability
-      const isRecentlyActive = user.lastLogin && 
-        (Date.now() - new Date(user.lastLogin).getTime()) < 4 * 60 * 60 * 1000 // 4 hours
+      // Determine availability from the user's schedule and out-of-office ranges
+      const availability = await AvailabilityService.getAvailability(userId)
 
       return {
         userId: user.id,
@@ -501,13 +486,16 @@ export class LeadAssignmentService {
         email: user.email,
         role: user.role,
         activeLeads,
-        maxCapacity: 10, // This could be configurable per employee
+        maxCapacity: schedule.maxCapacity,
         skills: await this.getEmployeeSkills(userId),
         availability: {
-          isAvailable: isRecentlyActive || true, // Allow assignment even if not recently active
+          isAvailable: availability.isAvailable,
+          unavailableReason: availability.reason,
+          outOfOfficeUntil: availability.outOfOfficeUntil,
           lastActive: user.lastLogin?.toISOString() || '',
-          workingHours: { start: '09:00', end: '18:00' },
-          workingDays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday']
+          workingHours: schedule.workingHours,
+          workingDays: schedule.workingDays,
+          timeZone: schedule.timeZone
         },
         performance: {
           conversionRate,
@@ -524,15 +512,10 @@ export class LeadAssignmentService {
   }
 
   /**
-   * Get employee skills (this could be stored in database or configuration)
+   * Get employee skills configured by admins
    */
   private static async getEmployeeSkills(userId: string): Promise<string[]> {
-    // This is a simplified implementation
-    // In a real system, skills would be stored in the database
-    const defaultSkills = ['PERSONAL', 'BUSINESS', 'RETAIL']
-    
-    // You could extend this to read from a skills table or user profile
-    return defaultSkills
+    return AssignmentRuleService.getEmployeeSkills(userId)
   }
 
   /**
@@ -575,13 +558,17 @@ export class LeadAssignmentService {
   /**
    * Get alternative assignee options
    */
-  private static async getAlternativeAssignees(lead: any): Promise<Array<{ id: string; name: string; reason: string }>> {
+  private static async getAlternativeAssignees(lead: any): Promise<Array<{ id: string; name: string; email: string; reason: string }>> {
     try {
       const employees = await this.getAvailableEmployees()
-      
+
+      // Least utilised first, so the first option is the best fallback
+      employees.sort((a, b) => a.activeLeads / a.maxCapacity - b.activeLeads / b.maxCapacity)
+
       return employees.slice(0, 3).map(emp => ({
         id: emp.userId,
         name: emp.userName,
+        email: emp.email,
         reason: `Available (${emp.activeLeads}/${emp.maxCapacity} leads, ${emp.performance.conversionRate.toFixed(1)}% conversion)`
       }))
 
@@ -595,48 +582,7 @@ export class LeadAssignmentService {
    * Get active assignment rules
    */
   private static async getActiveAssignmentRules(): Promise<AssignmentRule[]> {
-    // This is a simplified implementation
-    // In a real system, rules would be stored in the database
-    return [
-      {
-        id: '1',
-        name: 'High Value Loans',
-        priority: 1,
-        conditions: {
-          loanAmountMin: 1000000,
-          leadPriority: ['HIGH', 'URGENT']
-        },
-        assignmentStrategy: 'SKILL_BASED',
-        targetUsers: [], // All skilled employees
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      },
-      {
-        id: '2',
-        name: 'Business Loans',
-        priority: 2,
-        conditions: {
-          loanType: ['BUSINESS']
-        },
-        assignmentStrategy: 'SKILL_BASED',
-        targetUsers: [],
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      },
-      {
-        id: '3',
-        name: 'Round Robin Default',
-        priority: 999,
-        conditions: {},
-        assignmentStrategy: 'ROUND_ROBIN',
-        targetUsers: [],
-        isActive: true,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      }
-    ]
+    return AssignmentRuleService.getActiveRules()
   }
 
   /**
@@ -662,7 +608,7 @@ export class LeadAssignmentService {
     const conditions = rule.conditions
 
     // Check loan type
-    if (conditions.loanType && !conditions.loanType.includes(lead.loanType)) {
+    if (conditions.loanType?.length && !conditions.loanType.includes(lead.loanType)) {
       return false
     }
 
@@ -675,12 +621,12 @@ export class LeadAssignmentService {
     }
 
     // Check lead priority
-    if (conditions.leadPriority && !conditions.leadPriority.includes(lead.priority)) {
+    if (conditions.leadPriority?.length && !conditions.leadPriority.includes(lead.priority)) {
       return false
     }
 
     // Check lead source
-    if (conditions.leadSource && !conditions.leadSource.includes(lead.source)) {
+    if (conditions.leadSource?.length && !conditions.leadSource.includes(lead.source)) {
       return false
     }
 
@@ -697,7 +643,7 @@ export class LeadAssignmentService {
     }
 
     // Check day of week (if specified)
-    if (conditions.dayOfWeek) {
+    if (conditions.dayOfWeek?.length) {
       const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
       const currentDay = dayNames[new Date().getDay()]
       
@@ -823,8 +769,12 @@ export class LeadAssignmentService {
         try {
           for (const rule of escalationRules) {
             if (await this.shouldEscalateLead(lead, rule)) {
-              await this.executeEscalation(lead, rule)
-              results.escalated++
+              // Don't repeat actions while an earlier escalation is still being handled
+              if (!(await EscalationService.hasOpenEscalation(lead.id, rule.id))) {
+                const actionsTaken = await this.executeEscalation(lead, rule)
+                await EscalationService.recordEscalation(lead, rule, actionsTaken)
+                results.escalated++
+              }
               break // Only apply first matching rule
             }
           }
@@ -866,12 +816,12 @@ export class LeadAssignmentService {
     }
 
     // Check priority
-    if (conditions.priority && !conditions.priority.includes(lead.priority)) {
+    if (conditions.priority?.length && !conditions.priority.includes(lead.priority)) {
       return false
     }
 
     // Check status
-    if (conditions.status && !conditions.status.includes(lead.status)) {
+    if (conditions.status?.length && !conditions.status.includes(lead.status)) {
       return false
     }
 
@@ -879,24 +829,30 @@ export class LeadAssignmentService {
   }
 
   /**
-   * Execute escalation actions
+   * Execute escalation actions and report the outcome of each
    */
-  private static async executeEscalation(lead: any, rule: EscalationRule): Promise<void> {
-    for (const action of rule.escalationActions) {
+  private static async executeEscalation(lead: any, rule: EscalationRule): Promise<EscalationActionResult[]> {
+    const actionsTaken: EscalationActionResult[] = []
+
+    for (const action of rule.actions) {
       try {
         switch (action.type) {
-          case 'REASSIGN':
-            if (action.targetUserId) {
-              await this.transferLead(lead.id, lead.assignedToId, action.targetUserId, `Escalation: ${rule.name}`)
+          case 'REASSIGN': {
+            if (!action.targetUserId) {
+              actionsTaken.push({ type: action.type, success: false, detail: 'No target user configured' })
+              break
             }
+            const transfer = await this.transferLead(lead.id, lead.assignedToId, action.targetUserId, `Escalation: ${rule.name}`)
+            actionsTaken.push({ type: action.type, success: transfer.success, detail: transfer.reason })
             break
+          }
 
-          case 'NOTIFY_MANAGER':
+          case 'NOTIFY_MANAGER': {
             // Find manager (admin users)
             const managers = await prisma.user.findMany({
               where: { role: 'ADMIN', isActive: true }
             })
-            
+
             for (const manager of managers) {
               await prisma.activity.create({
                 data: {
@@ -908,27 +864,43 @@ export class LeadAssignmentService {
                 }
               })
             }
+            actionsTaken.push({ type: action.type, success: true, detail: `Notified ${managers.length} manager(s)` })
             break
+          }
 
-          case 'INCREASE_PRIORITY':
-            const newPriority = lead.priority === 'LOW' ? 'MEDIUM' : 
+          case 'INCREASE_PRIORITY': {
+            const newPriority = lead.priority === 'LOW' ? 'MEDIUM' :
                               lead.priority === 'MEDIUM' ? 'HIGH' : 'URGENT'
-            
+
             await prisma.lead.update({
               where: { id: lead.id },
               data: { priority: newPriority }
             })
+            actionsTaken.push({ type: action.type, success: true, detail: `${lead.priority} → ${newPriority}` })
             break
+          }
 
-          case 'ADD_TO_CAMPAIGN':
-            if (action.campaignId) {
-              // Add lead to follow-up campaign
-              // This would integrate with campaign system
+          case 'ADD_TO_CAMPAIGN': {
+            if (!action.campaignId || !lead.contactId) {
+              actionsTaken.push({ type: action.type, success: false, detail: 'No campaign configured or lead has no contact' })
+              break
             }
+            await prisma.campaignContact.upsert({
+              where: { campaignId_contactId: { campaignId: action.campaignId, contactId: lead.contactId } },
+              update: {},
+              create: { campaignId: action.campaignId, contactId: lead.contactId }
+            })
+            actionsTaken.push({ type: action.type, success: true, detail: `Added to campaign ${action.campaignId}` })
             break
+          }
         }
       } catch (error) {
         console.error(`Error executing escalation action ${action.type}:`, error)
+        actionsTaken.push({
+          type: action.type,
+          success: false,
+          detail: error instanceof Error ? error.message : 'Unknown error'
+        })
       }
     }
 
@@ -942,49 +914,15 @@ export class LeadAssignmentService {
         userId: lead.assignedToId
       }
     })
+
+    return actionsTaken
   }
 
   /**
    * Get active escalation rules
    */
   private static async getActiveEscalationRules(): Promise<EscalationRule[]> {
-    // This is a simplified implementation
-    // In a real system, rules would be stored in the database
-    return [
-      {
-        id: '1',
-        name: 'No Response 24 Hours',
-        conditions: {
-          noResponseHours: 24,
-          priority: ['HIGH', 'URGENT']
-        },
-        escalationActions: [
-          {
-            type: 'NOTIFY_MANAGER',
-            notificationMessage: 'High priority lead has not been contacted in 24 hours'
-          }
-        ],
-        isActive: true
-      },
-      {
-        id: '2',
-        name: 'Stale Lead 72 Hours',
-        conditions: {
-          leadAge: 72,
-          status: ['NEW', 'CONTACTED']
-        },
-        escalationActions: [
-          {
-            type: 'INCREASE_PRIORITY'
-          },
-          {
-            type: 'NOTIFY_MANAGER',
-            notificationMessage: 'Lead is stale and needs attention'
-          }
-        ],
-        isActive: true
-      }
-    ]
+    return EscalationService.getActiveRules()
   }
 
   /**
@@ -1009,10 +947,8 @@ export class LeadAssignmentService {
         }
       })
 
-      // Get escalation activities
-      const escalations = await prisma.activity.count({
+      const escalations = await prisma.leadEscalation.count({
         where: {
-          type: 'ESCALATION',
           createdAt: { gte: startDate }
         }
       })
@@ -34,6 +34,16 @@ interface ScoringUpdate {
   updatedAt: string
 }
 
+export type ScoreSource = 'ENGINE' | 'CAMPAIGN' | 'CRON'
+
+interface StoredScore {
+  score: number
+  priority: string
+  confidence: number
+  qualityBand: string
+  factors: string[]
+}
+
 interface LeadQualificationResult {
   leadId: string
   qualified: boolean
@@ -49,7 +59,7 @@ export class LeadScoringEngine {
   /**
    * Update lead score based on current data and interactions
    */
-  static async updateLeadScore(leadId: string): Promise<ScoringUpdate | null> {
+  static async updateLeadScore(leadId: string, source: ScoreSource = 'ENGINE'): Promise<ScoringUpdate | null> {
     try {
       // Get lead with related data
       const lead = await prisma.lead.findUnique({
@@ -88,7 +98,7 @@ export class LeadScoringEngine {
         source: lead.source,
         profileCompleteness,
         lastActivityDays,
-        phoneVerified: true, // Assume verified if in system
+        phoneVerified: !!lead.contact?.phoneVerified,
         emailVerified: !!lead.email,
         // Advanced factors
         previousInteractions: messageEngagement.totalMessages,
@@ -105,23 +115,24 @@ export class LeadScoringEngine {
       const newScore = advancedResult.score
       const newPriority = getLeadPriority(newScore)
 
-      // Store old values
-      const oldScore = lead.priority === 'URGENT' ? 85 : 
-                      lead.priority === 'HIGH' ? 70 : 
-                      lead.priority === 'MEDIUM' ? 50 : 30 // Estimate from priority
+      const quality = assessLeadQuality(newScore, advancedResult.confidence)
+      const oldScore = lead.score
       const oldPriority = lead.priority
 
-      // Update lead if score changed significantly
-      if (Math.abs(newScore - oldScore) >= 5 || newPriority !== oldPriority) {
-        await prisma.lead.update({
-          where: { id: leadId },
-          data: {
-            priority: newPriority,
-            updatedAt: new Date()
-          }
-        })
+      if (lead.scoreUpdatedAt && newScore === oldScore && newPriority === oldPriority) {
+        return null // No change
+      }
+
+      await this.recordScore(lead, {
+        score: newScore,
+        priority: newPriority,
+        confidence: advancedResult.confidence,
+        qualityBand: quality.quality,
+        factors: advancedResult.factors
+      }, source)
 
-        // Log scoring update activity
+      // Only significant changes are surfaced on the lead timeline
+      if (Math.abs(newScore - oldScore) >= 5 || newPriority !== oldPriority) {
         await prisma.activity.create({
           data: {
             type: 'SCORING_UPDATE',
@@ -131,20 +142,18 @@ export class LeadScoringEngine {
             userId: 'system'
           }
         })
-
-        return {
-          leadId,
-          oldScore,
-          newScore,
-          oldPriority,
-          newPriority,
-          factors: advancedResult.factors,
-          confidence: advancedResult.confidence,
-          updatedAt: new Date().toISOString()
-        }
       }
 
-      return null // No significant change
+      return {
+        leadId,
+        oldScore,
+        newScore,
+        oldPriority,
+        newPriority,
+        factors: advancedResult.factors,
+        confidence: advancedResult.confidence,
+        updatedAt: new Date().toISOString()
+      }
 
     } catch (error) {
       console.error('Error updating lead score:', error)
@@ -155,7 +164,7 @@ export class LeadScoringEngine {
   /**
    * Bulk update lead scores for all active leads
    */
-  static async bulkUpdateLeadScores(): Promise<{
+  static async bulkUpdateLeadScores(source: ScoreSource = 'ENGINE'): Promise<{
     processed: number
     updated: number
     errors: string[]
@@ -181,7 +190,7 @@ export class LeadScoringEngine {
         results.processed++
 
         try {
-          const update = await this.updateLeadScore(lead.id)
+          const update = await this.updateLeadScore(lead.id, source)
           if (update) {
             results.updated++
             results.updates.push(update)
@@ -198,6 +207,84 @@ export class LeadScoringEngine {
     return results
   }
 
+  /**
+   * Shift a lead's stored score by a fixed amount, e.g. for campaign engagement.
+   * Confidence is carried over from the last full scoring run.
+   */
+  static async adjustLeadScore(
+    leadId: string,
+    adjustment: number,
+    factors: string[],
+    source: ScoreSource
+  ): Promise<ScoringUpdate | null> {
+    const lead = await prisma.lead.findUnique({ where: { id: leadId } })
+    if (!lead) {
+      throw new Error('Lead not found')
+    }
+
+    const newScore = Math.max(0, Math.min(100, lead.score + adjustment))
+    if (newScore === lead.score) {
+      return null
+    }
+
+    const newPriority = getLeadPriority(newScore)
+    const quality = assessLeadQuality(newScore, lead.scoreConfidence)
+
+    await this.recordScore(lead, {
+      score: newScore,
+      priority: newPriority,
+      confidence: lead.scoreConfidence,
+      qualityBand: quality.quality,
+      factors
+    }, source)
+
+    return {
+      leadId,
+      oldScore: lead.score,
+      newScore,
+      oldPriority: lead.priority,
+      newPriority,
+      factors,
+      confidence: lead.scoreConfidence,
+      updatedAt: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Persist a new score on the lead and append it to the score history
+   */
+  private static async recordScore(
+    lead: { id: string; score: number; priority: string; scoreUpdatedAt: Date | null },
+    update: StoredScore,
+    source: ScoreSource
+  ): Promise<void> {
+    await prisma.$transaction([
+      prisma.lead.update({
+        where: { id: lead.id },
+        data: {
+          score: update.score,
+          scoreConfidence: update.confidence,
+          qualityBand: update.qualityBand,
+          priority: update.priority,
+          scoreUpdatedAt: new Date()
+        }
+      }),
+      prisma.leadScoreHistory.create({
+        data: {
+          leadId: lead.id,
+          oldScore: lead.scoreUpdatedAt ? lead.score : null,
+          newScore: update.score,
+          oldPriority: lead.priority,
+          newPriority: update.priority,
+          confidence: update.confidence,
+          qualityBand: update.qualityBand,
+          factors: JSON.stringify(update.factors),
+          source
+        }
+      })
+    ])
+  }
+
   /**
    * Qualify lead based on score and other criteria
    */
@@ -233,7 +320,7 @@ export class LeadScoringEngine {
         source: lead.source,
         profileCompleteness,
         lastActivityDays,
-        phoneVerified: true,
+        phoneVerified: !!lead.contact?.phoneVerified,
         emailVerified: !!lead.email
       }
 
@@ -288,6 +375,7 @@ export class LeadScoringEngine {
           status: { notIn: ['CLOSED_WON', 'CLOSED_LOST'] }
         },
         include: {
+          contact: true,
           activities: {
             orderBy: { createdAt: 'desc' },
             take: 5
@@ -486,7 +574,7 @@ export class LeadScoringEngine {
         source: lead.source,
         profileCompleteness,
         lastActivityDays,
-        phoneVerified: true,
+        phoneVerified: !!lead.contact?.phoneVerified,
         emailVerified: !!lead.email
       }
 
@@ -575,9 +663,7 @@ export class LeadScoringEngine {
       // Transform to format expected by scoring report
       const leadsForReport = leads.map(lead => ({
         id: lead.id,
-        score: lead.priority === 'URGENT' ? 85 : 
-               lead.priority === 'HIGH' ? 70 : 
-               lead.priority === 'MEDIUM' ? 50 : 30,
+        score: lead.score,
         priority: lead.priority,
         loanAmount: lead.loanAmount,
         source: lead.source,
@@ -588,9 +674,8 @@ export class LeadScoringEngine {
       const report = generateLeadScoringReport(leadsForReport)
 
       // Add additional metrics
-      const scoringUpdates = await prisma.activity.count({
+      const scoringUpdates = await prisma.leadScoreHistory.count({
         where: {
-          type: 'SCORING_UPDATE',
           createdAt: { gte: startDate }
         }
       })
@@ -633,8 +718,12 @@ export class LeadScoringEngine {
       const lead = await prisma.lead.findUnique({
         where: { id: leadId },
         include: {
+          contact: true,
           activities: {
-            where: { type: 'SCORING_UPDATE' },
+            orderBy: { createdAt: 'desc' },
+            take: 10
+          },
+          scoreHistory: {
             orderBy: { createdAt: 'desc' },
             take: 10
           }
@@ -659,7 +748,7 @@ export class LeadScoringEngine {
         source: lead.source,
         profileCompleteness,
         lastActivityDays,
-        phoneVerified: true,
+        phoneVerified: !!lead.contact?.phoneVerified,
         emailVerified: !!lead.email
       }
 
@@ -686,11 +775,10 @@ export class LeadScoringEngine {
       if (lastActivityDays === 0) strengths.push('Recent activity')
       else if (lastActivityDays > 7) weaknesses.push('No recent activity')
 
-      // Build score history from activities
-      const scoreHistory = lead.activities.map(activity => ({
-        date: activity.createdAt.toISOString(),
-        score: parseInt(activity.description?.match(/to (\d+)/)?.[1] || '0'),
-        event: activity.title
+      const scoreHistory = lead.scoreHistory.map(entry => ({
+        date: entry.createdAt.toISOString(),
+        score: entry.newScore,
+        event: `${entry.source} score update`
       }))
 
       return {
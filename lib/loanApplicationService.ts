@@ -0,0 +1,232 @@
+import { PrismaClient } from '@prisma/client'
+import { randomBytes } from 'crypto'
+import { LeadAssignmentService } from './leadAssignmentService'
+import { ConsentService } from './consentService'
+import { getLeadPriority } from './leadScoring'
+import { TemplateRegistry } from './templateRegistry'
+import { getMessagingProvider } from './messagingProvider'
+import { LoanApplicationInput } from './security/validation'
+
+const prisma = new PrismaClient()
+
+// How long we tell applicants the review will take
+const REVIEW_TIMEFRAME = '24 hours'
+
+interface ApplicationSubmissionMeta {
+  ipAddress?: string
+  userAgent?: string
+}
+
+interface ApplicationSubmissionResult {
+  success: boolean
+  applicationId?: string
+  leadId?: string
+  assigned: boolean
+  notificationSent: boolean
+  reason?: string
+}
+
+export class LoanApplicationService {
+  /**
+   * Persist a validated /apply submission as a LoanApplication, Contact and Lead,
+   * route the lead to an employee and acknowledge receipt to the applicant
+   */
+  static async submitApplication(
+    input: LoanApplicationInput,
+    meta: ApplicationSubmissionMeta = {}
+  ): Promise<ApplicationSubmissionResult> {
+    try {
+      const applicationNumber = this.generateApplicationNumber()
+      const fullName = `${input.firstName} ${input.lastName}`.trim()
+
+      const { application, lead } = await prisma.$transaction(async (tx) => {
+        const contact = await tx.contact.upsert({
+          where: { phone: input.phone },
+          update: {
+            name: fullName,
+            email: input.email,
+            isActive: true
+          },
+          create: {
+            phone: input.phone,
+            name: fullName,
+            email: input.email,
+            isActive: true
+          }
+        })
+
+        const lead = await tx.lead.create({
+          data: {
+            name: fullName,
+            phone: input.phone,
+            email: input.email,
+            loanType: input.loanType,
+            loanAmount: input.loanAmount,
+            status: 'NEW',
+            priority: this.getInitialPriority(input),
+            source: 'WEBSITE_FORM',
+            notes: `Application ${applicationNumber}: ${input.purpose} (${input.tenure} year tenure)`,
+            contactId: contact.id
+          }
+        })
+
+        const application = await tx.loanApplication.create({
+          data: {
+            applicationNumber,
+            firstName: input.firstName,
+            lastName: input.lastName,
+            email: input.email,
+            phone: input.phone,
+            dateOfBirth: new Date(input.dateOfBirth),
+            gender: input.gender,
+            maritalStatus: input.maritalStatus,
+            address: input.address,
+            city: input.city,
+            state: input.state,
+            pincode: input.pincode,
+            loanType: input.loanType,
+            loanAmount: input.loanAmount,
+            tenure: input.tenure,
+            purpose: input.purpose,
+            employmentType: input.employmentType,
+            companyName: input.companyName,
+            designation: input.designation,
+            workExperience: input.workExperience,
+            monthlyIncome: input.monthlyIncome,
+            leadId: lead.id,
+            contactId: contact.id,
+            ipAddress: meta.ipAddress,
+            userAgent: meta.userAgent
+          }
+        })
+
+        return { application, lead }
+      })
+
+      // Consent, assignment and notification are best-effort: the application is already saved
+      await ConsentService.recordApplicationConsent(application.contactId!, input.marketingConsent, {
+        applicationNumber,
+        ipAddress: meta.ipAddress,
+        userAgent: meta.userAgent
+      }).catch(error => {
+        console.error(`Failed to record consent for application ${applicationNumber}:`, error)
+      })
+
+      const assignment = await LeadAssignmentService.assignLead(lead.id)
+      if (!assignment.success) {
+        console.warn(`Application ${applicationNumber} saved but lead was not assigned: ${assignment.reason}`)
+      }
+
+      const notificationSent = await this.sendApplicationReceived(
+        application.contactId!,
+        input.phone,
+        input.firstName,
+        applicationNumber
+      )
+
+      return {
+        success: true,
+        applicationId: applicationNumber,
+        leadId: lead.id,
+        assigned: assignment.success,
+        notificationSent
+      }
+
+    } catch (error) {
+      console.error('Error submitting loan application:', error)
+      return {
+        success: false,
+        assigned: false,
+        notificationSent: false,
+        reason: `Application submission failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    }
+  }
+
+  /**
+   * Send the application_received template and record it in the conversation
+   */
+  private static async sendApplicationReceived(
+    contactId: string,
+    phone: string,
+    name: string,
+    applicationNumber: string
+  ): Promise<boolean> {
+    try {
+      const parameters = {
+        name,
+        applicationId: applicationNumber,
+        timeframe: REVIEW_TIMEFRAME
+      }
+
+      const contact = await prisma.contact.findUnique({
+        where: { id: contactId },
+        select: { preferredLanguage: true }
+      })
+
+      const formatted = await TemplateRegistry.format('application_received', parameters, contact?.preferredLanguage)
+      if (!formatted.success || !formatted.message) {
+        console.error('Failed to format application_received template:', formatted.error)
+        return false
+      }
+
+      const result = await getMessagingProvider().sendText({ phone, text: formatted.message, channel: 'WHATSAPP' })
+
+      await prisma.message.create({
+        data: {
+          type: 'WHATSAPP',
+          direction: 'OUTBOUND',
+          content: formatted.message,
+          status: result.success ? 'SENT' : 'FAILED',
+          contactId,
+          smsFreshId: result.messageId,
+          templateName: 'application_received',
+          parameters: JSON.stringify(parameters),
+          language: formatted.template?.language,
+          sentAt: result.success ? new Date() : null
+        }
+      })
+
+      if (result.success) {
+        await prisma.contact.update({
+          where: { id: contactId },
+          data: { lastContact: new Date() }
+        })
+      }
+
+      return result.success
+
+    } catch (error) {
+      console.error('Error sending application received message:', error)
+      return false
+    }
+  }
+
+  /**
+   * Rough priority from loan size and income until the lead is scored
+   */
+  private static getInitialPriority(input: LoanApplicationInput): 'LOW' | 'MEDIUM' | 'HIGH' | 'URGENT' {
+    let score = 50
+
+    if (input.loanAmount >= 1000000) score += 20
+    else if (input.loanAmount >= 500000) score += 10
+
+    if (input.monthlyIncome >= 100000) score += 15
+    else if (input.monthlyIncome >= 50000) score += 10
+
+    if (input.employmentType === 'salaried') score += 5
+
+    return getLeadPriority(score)
+  }
+
+  /**
+   * Generate a human-friendly application reference, e.g. LA-20251101-7K3QZP
+   */
+  private static generateApplicationNumber(): string {
+    const date = new Date().toISOString().slice(0, 10).replace(/-/g, '')
+    const suffix = randomBytes(4).toString('hex').toUpperCase().slice(0, 6)
+    return `LA-${date}-${suffix}`
+  }
+}
+
+export default LoanApplicationService
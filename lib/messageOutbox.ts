@@ -0,0 +1,379 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import type { TemplateContext } from './templateEngine'
+
+const prisma = new PrismaClient()
+
+export type OutboxSource = 'CAMPAIGN' | 'MANUAL' | 'FOLLOW_UP'
+export type OutboxStatus = 'QUEUED' | 'PROCESSING' | 'SENT' | 'DEAD' | 'CANCELLED'
+// TEMPLATE goes out as a provider template rendered from the context, TEXT sends the content as-is
+export type OutboxMessageKind = 'TEMPLATE' | 'TEXT'
+
+// Someone waiting on a manual send goes before follow-ups, and both before campaign traffic
+export const OUTBOX_PRIORITY: Record<OutboxSource, number> = {
+  MANUAL: 10,
+  FOLLOW_UP: 5,
+  CAMPAIGN: 0
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5
+
+// A worker that stops mid-send (crash, restart) leaves its messages PROCESSING; after the
+// lease runs out they are queued again. The provider may already have accepted them.
+const LEASE_MS = 5 * 60 * 1000
+const RETRY_BASE_DELAY_MS = 30 * 1000
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+// SQLite limits the number of bound variables per statement
+const KEY_LOOKUP_CHUNK = 500
+
+export interface OutboxMessage {
+  id: string
+  idempotencyKey: string
+  source: OutboxSource
+  priority: number
+  status: OutboxStatus
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: Date
+  campaignId?: string
+  contactId?: string
+  phone: string
+  type: 'SMS' | 'WHATSAPP'
+  kind: OutboxMessageKind
+  provider?: string
+  templateName?: string
+  language?: string
+  variantId?: string
+  context?: TemplateContext
+  parameters?: Record<string, string>
+  content: string
+  mediaUrl?: string
+  mediaType?: 'image' | 'video' | 'document'
+  sentById?: string
+  messageId?: string
+  providerMessageId?: string
+  lastError?: string
+  lastErrorCode?: string
+  sentAt?: Date
+  deadAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface EnqueueMessageInput {
+  // Enqueuing a key that is already in the outbox is a no-op, so retried requests send once
+  idempotencyKey: string
+  source: OutboxSource
+  priority?: number
+  maxAttempts?: number
+  campaignId?: string
+  contactId?: string
+  phone: string
+  type: 'SMS' | 'WHATSAPP'
+  kind?: OutboxMessageKind
+  provider?: string
+  templateName?: string
+  language?: string
+  variantId?: string
+  context?: TemplateContext
+  parameters?: Record<string, string>
+  content: string
+  mediaUrl?: string
+  mediaType?: 'image' | 'video' | 'document'
+  sentById?: string
+}
+
+export interface OutboxStats {
+  counts: Record<OutboxStatus, number>
+  oldestQueuedAt?: Date
+}
+
+type OutboxRecord = Prisma.OutboxMessageGetPayload<{}>
+
+/**
+ * Database-backed queue of outbound messages. The outbox worker claims due messages,
+ * retries failures with exponential backoff and leaves the ones that run out of
+ * attempts as DEAD letters for an admin to requeue or discard.
+ */
+export class MessageOutbox {
+  static async enqueue(messages: EnqueueMessageInput[]): Promise<{ queued: number; duplicates: number }> {
+    const unique = Array.from(new Map(messages.map(message => [message.idempotencyKey, message])).values())
+    const existing = new Set<string>()
+
+    for (let i = 0; i < unique.length; i += KEY_LOOKUP_CHUNK) {
+      const keys = unique.slice(i, i + KEY_LOOKUP_CHUNK).map(message => message.idempotencyKey)
+      const found = await prisma.outboxMessage.findMany({
+        where: { idempotencyKey: { in: keys } },
+        select: { idempotencyKey: true }
+      })
+      found.forEach(message => existing.add(message.idempotencyKey))
+    }
+
+    const fresh = unique.filter(message => !existing.has(message.idempotencyKey)).map(message => this.toData(message))
+    if (fresh.length === 0) {
+      return { queued: 0, duplicates: messages.length }
+    }
+
+    try {
+      const { count } = await prisma.outboxMessage.createMany({ data: fresh })
+      return { queued: count, duplicates: messages.length - count }
+    } catch (error) {
+      if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error
+    }
+
+    // Another request queued some of the same keys in the meantime
+    let queued = 0
+    for (const data of fresh) {
+      try {
+        await prisma.outboxMessage.create({ data })
+        queued++
+      } catch (error) {
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) throw error
+      }
+    }
+    return { queued, duplicates: messages.length - queued }
+  }
+
+  /**
+   * Claim due messages, highest priority first, marking them PROCESSING so a second
+   * worker skips them. Messages of paused campaigns stay queued until the campaign resumes.
+   */
+  static async claimDue(workerId: string, limit: number = 50): Promise<OutboxMessage[]> {
+    await this.releaseExpiredLeases()
+
+    const due = await prisma.outboxMessage.findMany({
+      where: {
+        status: 'QUEUED',
+        nextAttemptAt: { lte: new Date() },
+        OR: [
+          { campaignId: null },
+          { campaign: { status: { not: 'PAUSED' } } }
+        ]
+      },
+      orderBy: [{ priority: 'desc' }, { nextAttemptAt: 'asc' }],
+      take: limit
+    })
+
+    const claimed: OutboxMessage[] = []
+    for (const message of due) {
+      const lockedAt = new Date()
+      const result = await prisma.outboxMessage.updateMany({
+        where: { id: message.id, status: 'QUEUED' },
+        data: { status: 'PROCESSING', lockedAt, lockedBy: workerId }
+      })
+      if (result.count > 0) {
+        claimed.push(this.toOutboxMessage({ ...message, status: 'PROCESSING', lockedAt, lockedBy: workerId }))
+      }
+    }
+
+    return claimed
+  }
+
+  static async markSent(id: string, details: { messageId?: string; providerMessageId?: string }): Promise<void> {
+    await prisma.outboxMessage.update({
+      where: { id },
+      data: {
+        status: 'SENT',
+        attempts: { increment: 1 },
+        sentAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        messageId: details.messageId,
+        providerMessageId: details.providerMessageId
+      }
+    })
+  }
+
+  /**
+   * Count a failed attempt. The message is retried with exponential backoff, or becomes
+   * DEAD once it is out of attempts or the error is not worth retrying.
+   */
+  static async markFailed(
+    message: OutboxMessage,
+    failure: { error?: string; errorCode?: string; retryable: boolean }
+  ): Promise<'QUEUED' | 'DEAD'> {
+    const attempts = message.attempts + 1
+    const dead = !failure.retryable || attempts >= message.maxAttempts
+    const delay = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1))
+
+    await prisma.outboxMessage.update({
+      where: { id: message.id },
+      data: {
+        status: dead ? 'DEAD' : 'QUEUED',
+        attempts,
+        nextAttemptAt: dead ? undefined : new Date(Date.now() + delay),
+        deadAt: dead ? new Date() : undefined,
+        lockedAt: null,
+        lockedBy: null,
+        lastError: failure.error || 'Unknown error',
+        lastErrorCode: failure.errorCode
+      }
+    })
+    return dead ? 'DEAD' : 'QUEUED'
+  }
+
+  /**
+   * Put a claimed message back without counting an attempt, e.g. when its sender is at
+   * the daily cap or its campaign was paused after it was claimed
+   */
+  static async release(id: string, nextAttemptAt: Date, reason?: string): Promise<void> {
+    await prisma.outboxMessage.update({
+      where: { id },
+      data: { status: 'QUEUED', nextAttemptAt, lockedAt: null, lockedBy: null, lastError: reason }
+    })
+  }
+
+  static async setMessageId(id: string, messageId: string): Promise<void> {
+    await prisma.outboxMessage.update({ where: { id }, data: { messageId } })
+  }
+
+  static async cancel(id: string, reason: string): Promise<void> {
+    await prisma.outboxMessage.update({
+      where: { id },
+      data: { status: 'CANCELLED', lockedAt: null, lockedBy: null, lastError: reason }
+    })
+  }
+
+  static async cancelForCampaign(campaignId: string): Promise<number> {
+    const result = await prisma.outboxMessage.updateMany({
+      where: { campaignId, status: 'QUEUED' },
+      data: { status: 'CANCELLED', lastError: 'Campaign cancelled' }
+    })
+    return result.count
+  }
+
+  /**
+   * Give dead letters a fresh set of attempts
+   */
+  static async requeue(ids: string[]): Promise<number> {
+    const result = await prisma.outboxMessage.updateMany({
+      where: { id: { in: ids }, status: 'DEAD' },
+      data: { status: 'QUEUED', attempts: 0, nextAttemptAt: new Date(), deadAt: null }
+    })
+    return result.count
+  }
+
+  /**
+   * Give up on dead letters for good
+   */
+  static async discard(ids: string[]): Promise<number> {
+    const result = await prisma.outboxMessage.updateMany({
+      where: { id: { in: ids }, status: 'DEAD' },
+      data: { status: 'CANCELLED' }
+    })
+    return result.count
+  }
+
+  static async list(filters: {
+    status?: OutboxStatus
+    source?: OutboxSource
+    campaignId?: string
+    page?: number
+    limit?: number
+  } = {}): Promise<{ messages: OutboxMessage[]; total: number }> {
+    const page = filters.page || 1
+    const limit = filters.limit || 50
+    const where: Prisma.OutboxMessageWhereInput = {
+      status: filters.status,
+      source: filters.source,
+      campaignId: filters.campaignId
+    }
+
+    const [records, total] = await Promise.all([
+      prisma.outboxMessage.findMany({
+        where,
+        orderBy: filters.status === 'DEAD' ? { deadAt: 'desc' } : { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit
+      }),
+      prisma.outboxMessage.count({ where })
+    ])
+
+    return { messages: records.map(record => this.toOutboxMessage(record)), total }
+  }
+
+  static async getStats(): Promise<OutboxStats> {
+    const [groups, oldest] = await Promise.all([
+      prisma.outboxMessage.groupBy({ by: ['status'], _count: { _all: true } }),
+      prisma.outboxMessage.findFirst({
+        where: { status: 'QUEUED' },
+        orderBy: { createdAt: 'asc' },
+        select: { createdAt: true }
+      })
+    ])
+
+    const counts: Record<OutboxStatus, number> = { QUEUED: 0, PROCESSING: 0, SENT: 0, DEAD: 0, CANCELLED: 0 }
+    for (const group of groups) {
+      counts[group.status as OutboxStatus] = group._count._all
+    }
+    return { counts, oldestQueuedAt: oldest?.createdAt }
+  }
+
+  private static async releaseExpiredLeases(): Promise<void> {
+    await prisma.outboxMessage.updateMany({
+      where: { status: 'PROCESSING', lockedAt: { lt: new Date(Date.now() - LEASE_MS) } },
+      data: { status: 'QUEUED', lockedAt: null, lockedBy: null }
+    })
+  }
+
+  private static toData(message: EnqueueMessageInput): Prisma.OutboxMessageCreateManyInput {
+    return {
+      idempotencyKey: message.idempotencyKey,
+      source: message.source,
+      priority: message.priority ?? OUTBOX_PRIORITY[message.source],
+      maxAttempts: message.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      campaignId: message.campaignId,
+      contactId: message.contactId,
+      phone: message.phone,
+      type: message.type,
+      kind: message.kind || 'TEMPLATE',
+      provider: message.provider,
+      templateName: message.templateName,
+      language: message.language,
+      variantId: message.variantId,
+      context: message.context ? JSON.stringify(message.context) : undefined,
+      parameters: message.parameters ? JSON.stringify(message.parameters) : undefined,
+      content: message.content,
+      mediaUrl: message.mediaUrl,
+      mediaType: message.mediaType,
+      sentById: message.sentById
+    }
+  }
+
+  private static toOutboxMessage(record: OutboxRecord): OutboxMessage {
+    return {
+      id: record.id,
+      idempotencyKey: record.idempotencyKey,
+      source: record.source as OutboxSource,
+      priority: record.priority,
+      status: record.status as OutboxStatus,
+      attempts: record.attempts,
+      maxAttempts: record.maxAttempts,
+      nextAttemptAt: record.nextAttemptAt,
+      campaignId: record.campaignId || undefined,
+      contactId: record.contactId || undefined,
+      phone: record.phone,
+      type: record.type as 'SMS' | 'WHATSAPP',
+      kind: record.kind as OutboxMessageKind,
+      provider: record.provider || undefined,
+      templateName: record.templateName || undefined,
+      language: record.language || undefined,
+      variantId: record.variantId || undefined,
+      context: record.context ? JSON.parse(record.context) : undefined,
+      parameters: record.parameters ? JSON.parse(record.parameters) : undefined,
+      content: record.content,
+      mediaUrl: record.mediaUrl || undefined,
+      mediaType: (record.mediaType || undefined) as OutboxMessage['mediaType'],
+      sentById: record.sentById || undefined,
+      messageId: record.messageId || undefined,
+      providerMessageId: record.providerMessageId || undefined,
+      lastError: record.lastError || undefined,
+      lastErrorCode: record.lastErrorCode || undefined,
+      sentAt: record.sentAt || undefined,
+      deadAt: record.deadAt || undefined,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    }
+  }
+}
+
+export default MessageOutbox
@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
-import { createSMSFreshService, SMSFreshTextParams, SMSFreshMediaParams } from './smsFreshService';
+import { getMessagingProvider, MessagingProvider } from './messagingProvider';
 import { logger } from './logger';
+import { SuppressionService } from './suppressionService';
 
 const prisma = new PrismaClient();
 
@@ -40,10 +41,10 @@ export interface MessageFilter {
  * Handles message sending, receiving, and routing logic
  */
 export class MessageProcessor {
-  private smsFreshService;
+  private provider: MessagingProvider;
 
   constructor() {
-    this.smsFreshService = createSMSFreshService();
+    this.provider = getMessagingProvider();
   }
 
   /**
@@ -70,6 +71,10 @@ export class MessageProcessor {
         return { success: false, error: 'Contact not found' };
       }
 
+      if (await SuppressionService.isSuppressed(contact.phone, params.type)) {
+        return { success: false, error: `Contact has opted out of ${params.type} messages` };
+      }
+
       // Create message record in database
       const message = await prisma.message.create({
         data: {
@@ -87,34 +92,29 @@ export class MessageProcessor {
         },
       });
 
-      // Send message via SMSFresh
+      // Send message via the messaging provider
       let result;
       if (params.mediaUrl && params.mediaType) {
         // Send media message
-        result = await this.smsFreshService.sendWhatsAppMedia({
+        result = await this.provider.sendMedia({
           phone: [contact.phone],
           templateName: params.templateName || 'default_template',
           parameters: params.parameters,
           mediaType: params.mediaType,
           mediaUrl: params.mediaUrl,
-        });
-      } else if (params.type === 'WHATSAPP') {
-        // Send WhatsApp text message
-        result = await this.smsFreshService.sendWhatsAppText({
-          phone: [contact.phone],
-          templateName: params.templateName || 'default_template',
-          parameters: params.parameters,
+          channel: params.type,
         });
       } else {
-        // Send SMS message
-        result = await this.smsFreshService.sendSMS({
+        // Send WhatsApp or SMS text message
+        result = await this.provider.sendTemplate({
           phone: [contact.phone],
           templateName: params.templateName || 'default_template',
           parameters: params.parameters,
+          channel: params.type,
         });
       }
 
-      // Update message with SMSFresh response
+      // Update message with provider response
       await prisma.message.update({
         where: { id: message.id },
         data: {
@@ -377,7 +377,7 @@ export class MessageProcessor {
    */
   async sendOTP(phone: string, otp: string): Promise<MessageProcessingResult> {
     try {
-      const result = await this.smsFreshService.sendAuthOTP({
+      const result = await this.provider.sendOTP({
         phone: [phone],
         templateName: 'otp_template',
         otp,
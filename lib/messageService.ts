@@ -3,11 +3,12 @@
  * Requirements: 8.3, 8.5 - Implement comprehensive error handling and automatic fallback to SMS
  */
 
-import { createSMSFreshService, createFallbackSMSService, SMSFreshResponse, SMSFreshTextParams, SMSFreshMediaParams, SMSFreshOTPParams, SMSFreshReplyParams } from './smsFreshService';
-import { logger } from './logger';
+import { getMessagingProvider, MessagingProvider, ProviderResponse, TemplateMessageParams, MediaMessageParams, OTPMessageParams, TextMessageParams } from './messagingProvider';
+import { logger, DataSource } from './logger';
 import { auditLogger, AuditEventType } from './security/auditLogger';
 import { reportError, reportSuccess } from './errorMonitoring';
 import { PrismaClient } from '@prisma/client';
+import { SuppressionService } from './suppressionService';
 
 const prisma = new PrismaClient();
 
@@ -25,9 +26,10 @@ export interface MessageSendOptions {
   fallbackToSMS: boolean;
   retryOnFailure: boolean;
   trackDelivery: boolean;
+  allowSuppressed: boolean; // Only for opt-out confirmations and OTPs
 }
 
-export interface MessageSendResult extends SMSFreshResponse {
+export interface MessageSendResult extends ProviderResponse {
   method: 'whatsapp' | 'sms';
   fallbackUsed: boolean;
   retryCount: number;
@@ -37,8 +39,7 @@ export interface MessageSendResult extends SMSFreshResponse {
 
 export class MessageService {
   private config: MessageServiceConfig;
-  private whatsappService: any;
-  private smsService: any;
+  private provider: MessagingProvider;
   private serviceHealth: {
     whatsapp: { available: boolean; lastCheck: Date; errorCount: number };
     sms: { available: boolean; lastCheck: Date; errorCount: number };
@@ -55,8 +56,8 @@ export class MessageService {
       ...config,
     };
 
-    this.whatsappService = createSMSFreshService();
-    this.smsService = createFallbackSMSService();
+    // WhatsApp and the SMS fallback go through the same provider on different channels
+    this.provider = getMessagingProvider();
 
     this.serviceHealth = {
       whatsapp: { available: true, lastCheck: new Date(), errorCount: 0 },
@@ -70,7 +71,7 @@ export class MessageService {
    * Send WhatsApp text message with comprehensive error handling and fallback
    */
   async sendWhatsAppText(
-    params: SMSFreshTextParams,
+    params: TemplateMessageParams,
     options: Partial<MessageSendOptions> = {}
   ): Promise<MessageSendResult> {
     const startTime = Date.now();
@@ -80,6 +81,7 @@ export class MessageService {
       fallbackToSMS: true,
       retryOnFailure: true,
       trackDelivery: true,
+      allowSuppressed: false,
       ...options,
     };
 
@@ -92,6 +94,13 @@ export class MessageService {
       errors: [],
     };
 
+    const recipients = await this.removeSuppressedRecipients(params.phone, 'WHATSAPP', opts, result);
+    if (recipients.length === 0) {
+      result.totalTime = Date.now() - startTime;
+      return result;
+    }
+    params = { ...params, phone: recipients };
+
     try {
       // Check WhatsApp service health first
       if (!this.serviceHealth.whatsapp.available && opts.enableFallback) {
@@ -101,7 +110,7 @@ export class MessageService {
 
       // Attempt WhatsApp send with retries
       const whatsappResult = await this.sendWithRetry(
-        () => this.whatsappService.sendWhatsAppText(params, opts.priority),
+        () => this.provider.sendTemplate({ ...params, channel: 'WHATSAPP' }),
         opts.retryOnFailure ? this.config.maxRetries : 1,
         'whatsapp_text'
       );
@@ -198,7 +207,7 @@ export class MessageService {
    * Send WhatsApp media message with error handling and fallback
    */
   async sendWhatsAppMedia(
-    params: SMSFreshMediaParams,
+    params: MediaMessageParams,
     options: Partial<MessageSendOptions> = {}
   ): Promise<MessageSendResult> {
     const startTime = Date.now();
@@ -208,6 +217,7 @@ export class MessageService {
       fallbackToSMS: true, // Will send text-only version via SMS
       retryOnFailure: true,
       trackDelivery: true,
+      allowSuppressed: false,
       ...options,
     };
 
@@ -220,6 +230,13 @@ export class MessageService {
       errors: [],
     };
 
+    const recipients = await this.removeSuppressedRecipients(params.phone, 'WHATSAPP', opts, result);
+    if (recipients.length === 0) {
+      result.totalTime = Date.now() - startTime;
+      return result;
+    }
+    params = { ...params, phone: recipients };
+
     try {
       // Check WhatsApp service health first
       if (!this.serviceHealth.whatsapp.available && opts.enableFallback) {
@@ -229,7 +246,7 @@ export class MessageService {
 
       // Attempt WhatsApp media send with retries
       const whatsappResult = await this.sendWithRetry(
-        () => this.whatsappService.sendWhatsAppMedia(params, opts.priority),
+        () => this.provider.sendMedia({ ...params, channel: 'WHATSAPP' }),
         opts.retryOnFailure ? this.config.maxRetries : 1,
         'whatsapp_media'
       );
@@ -281,7 +298,7 @@ export class MessageService {
    * Send OTP message with high priority and fallback
    */
   async sendOTP(
-    params: SMSFreshOTPParams,
+    params: OTPMessageParams,
     options: Partial<MessageSendOptions> = {}
   ): Promise<MessageSendResult> {
     const startTime = Date.now();
@@ -291,6 +308,7 @@ export class MessageService {
       fallbackToSMS: true,
       retryOnFailure: true,
       trackDelivery: true,
+      allowSuppressed: true, // OTPs are requested by the recipient
       ...options,
     };
 
@@ -306,7 +324,7 @@ export class MessageService {
     try {
       // For OTP, try WhatsApp first but fallback quickly if it fails
       const whatsappResult = await this.sendWithRetry(
-        () => this.whatsappService.sendAuthOTP(params),
+        () => this.provider.sendOTP(params),
         2, // Reduced retries for OTP to ensure quick delivery
         'whatsapp_otp'
       );
@@ -352,7 +370,7 @@ export class MessageService {
    * Send reply message with error handling
    */
   async sendReply(
-    params: SMSFreshReplyParams,
+    params: TextMessageParams,
     options: Partial<MessageSendOptions> = {}
   ): Promise<MessageSendResult> {
     const startTime = Date.now();
@@ -362,6 +380,7 @@ export class MessageService {
       fallbackToSMS: true,
       retryOnFailure: true,
       trackDelivery: true,
+      allowSuppressed: false,
       ...options,
     };
 
@@ -374,6 +393,12 @@ export class MessageService {
       errors: [],
     };
 
+    const recipients = await this.removeSuppressedRecipients([params.phone], 'WHATSAPP', opts, result);
+    if (recipients.length === 0) {
+      result.totalTime = Date.now() - startTime;
+      return result;
+    }
+
     try {
       // Check WhatsApp service health first
       if (!this.serviceHealth.whatsapp.available && opts.enableFallback) {
@@ -383,7 +408,7 @@ export class MessageService {
 
       // Attempt WhatsApp reply send with retries
       const whatsappResult = await this.sendWithRetry(
-        () => this.whatsappService.sendReplyText(params, opts.priority),
+        () => this.provider.sendText({ ...params, channel: 'WHATSAPP' }),
         opts.retryOnFailure ? this.config.maxRetries : 1,
         'whatsapp_reply'
       );
@@ -459,10 +484,10 @@ export class MessageService {
   // Private methods
 
   private async sendWithRetry(
-    operation: () => Promise<SMSFreshResponse>,
+    operation: () => Promise<ProviderResponse>,
     maxRetries: number,
     operationType: string
-  ): Promise<SMSFreshResponse & { retryCount?: number }> {
+  ): Promise<ProviderResponse & { retryCount?: number }> {
     let lastError: any;
     
     for (let attempt = 0; attempt < maxRetries; attempt++) {
@@ -524,11 +549,19 @@ export class MessageService {
   }
 
   private async fallbackToSMS(
-    params: SMSFreshTextParams,
+    params: TemplateMessageParams,
     options: MessageSendOptions,
     result: MessageSendResult,
     startTime: number
   ): Promise<MessageSendResult> {
+    // A number can opt out of SMS while still accepting WhatsApp
+    const recipients = await this.removeSuppressedRecipients(params.phone, 'SMS', options, result);
+    if (recipients.length === 0) {
+      result.totalTime = Date.now() - startTime;
+      return result;
+    }
+    params = { ...params, phone: recipients };
+
     try {
       // Wait for fallback delay if configured
       if (this.config.fallbackDelay > 0) {
@@ -536,7 +569,7 @@ export class MessageService {
       }
 
       const smsResult = await this.sendWithRetry(
-        () => this.smsService.sendSMS(params, options.priority),
+        () => this.provider.sendTemplate({ ...params, channel: 'SMS' }),
         options.retryOnFailure ? this.config.maxRetries : 1,
         'sms_fallback'
       );
@@ -575,15 +608,41 @@ export class MessageService {
     return result;
   }
 
+  /**
+   * Drop recipients on the suppression list for this channel
+   */
+  private async removeSuppressedRecipients(
+    phones: string[],
+    channel: 'SMS' | 'WHATSAPP',
+    options: MessageSendOptions,
+    result: MessageSendResult
+  ): Promise<string[]> {
+    if (options.allowSuppressed) {
+      return phones;
+    }
+
+    const { allowed, suppressed } = await SuppressionService.filterSuppressed(phones, phone => phone, channel);
+    if (suppressed.length > 0) {
+      result.errors.push(`${suppressed.length} recipient(s) opted out of ${channel} messages`);
+      logger.info(DataSource.DATABASE, 'suppression_filter', 'Skipped recipients on the suppression list', {
+        channel,
+        suppressed: suppressed.length,
+        remaining: allowed.length,
+      });
+    }
+
+    return allowed;
+  }
+
   private async fallbackMediaToSMS(
-    params: SMSFreshMediaParams,
+    params: MediaMessageParams,
     options: MessageSendOptions,
     result: MessageSendResult,
     startTime: number
   ): Promise<MessageSendResult> {
     try {
       // Convert media message to text-only SMS
-      const textParams: SMSFreshTextParams = {
+      const textParams: TemplateMessageParams = {
         phone: params.phone,
         templateName: params.templateName,
         parameters: [
@@ -606,14 +665,14 @@ export class MessageService {
   }
 
   private async fallbackOTPToSMS(
-    params: SMSFreshOTPParams,
+    params: OTPMessageParams,
     options: MessageSendOptions,
     result: MessageSendResult,
     startTime: number
   ): Promise<MessageSendResult> {
     try {
       // Convert OTP to SMS format
-      const textParams: SMSFreshTextParams = {
+      const textParams: TemplateMessageParams = {
         phone: params.phone,
         templateName: params.templateName,
         parameters: [params.otp],
@@ -633,14 +692,14 @@ export class MessageService {
   }
 
   private async fallbackReplyToSMS(
-    params: SMSFreshReplyParams,
+    params: TextMessageParams,
     options: MessageSendOptions,
     result: MessageSendResult,
     startTime: number
   ): Promise<MessageSendResult> {
     try {
       // Convert reply to SMS format
-      const textParams: SMSFreshTextParams = {
+      const textParams: TemplateMessageParams = {
         phone: [params.phone],
         templateName: 'reply_message', // Use a generic reply template
         parameters: [params.text],
@@ -670,12 +729,12 @@ export class MessageService {
 
   private async checkWhatsAppHealth(): Promise<void> {
     try {
-      const result = await this.whatsappService.getAccountBalance();
+      const available = this.provider.getStatus().configured;
       
-      this.serviceHealth.whatsapp.available = result.success;
+      this.serviceHealth.whatsapp.available = available;
       this.serviceHealth.whatsapp.lastCheck = new Date();
       
-      if (result.success) {
+      if (available) {
         this.serviceHealth.whatsapp.errorCount = 0;
       } else {
         this.serviceHealth.whatsapp.errorCount++;
@@ -695,12 +754,12 @@ export class MessageService {
 
   private async checkSMSHealth(): Promise<void> {
     try {
-      const result = await this.smsService.isAvailable();
+      const available = this.provider.getStatus().configured;
       
-      this.serviceHealth.sms.available = result;
+      this.serviceHealth.sms.available = available;
       this.serviceHealth.sms.lastCheck = new Date();
       
-      if (result) {
+      if (available) {
         this.serviceHealth.sms.errorCount = 0;
       } else {
         this.serviceHealth.sms.errorCount++;
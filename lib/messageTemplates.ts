@@ -1,8 +1,42 @@
 /**
  * Message Templates and Formatting Utilities
- * Provides predefined templates and formatting functions for SMSFresh messages
+ * Built-in templates and the formatting functions shared by the browser and the server.
+ * Templates are stored in the registry (lib/templateRegistry.ts), which is seeded from
+ * MESSAGE_TEMPLATES; server code should resolve templates through it.
+ * Template bodies are rendered by lib/templateEngine.ts.
  */
 
+import {
+  RenderOptions,
+  TemplateContext,
+  extractTemplateVariables,
+  isRecipientVariable,
+  renderTemplate,
+  renderVariableValues,
+} from './templateEngine';
+
+export type TemplateStatus = 'DRAFT' | 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export const DEFAULT_LANGUAGE = 'en';
+
+// Languages templates can be written in; anything else is sent the English variant
+export const SUPPORTED_LANGUAGES = [
+  { code: 'en', label: 'English' },
+  { code: 'hi', label: 'Hindi' },
+  { code: 'mr', label: 'Marathi' },
+  { code: 'ta', label: 'Tamil' },
+  { code: 'te', label: 'Telugu' },
+] as const;
+
+export type TemplateLanguage = typeof SUPPORTED_LANGUAGES[number]['code'];
+
+export interface TemplateParameter {
+  name: string;
+  description?: string;
+  example?: string;
+  required?: boolean;
+}
+
 export interface MessageTemplate {
   id: string;
   name: string;
@@ -12,10 +46,20 @@ export interface MessageTemplate {
   parameters: string[];
   description: string;
   mediaSupported: boolean;
+  // Registry fields, absent on the built-in definitions below
+  recordId?: string;
+  version?: number;
+  language?: string;
+  status?: TemplateStatus;
+  parameterSchema?: TemplateParameter[];
+  mediaType?: 'image' | 'video' | 'document';
+  mediaUrl?: string;
+  providerTemplateName?: string;
+  rejectionReason?: string;
 }
 
 /**
- * Predefined message templates for loan agent platform
+ * Built-in message templates, seeded into the registry as approved version 1
  */
 export const MESSAGE_TEMPLATES: MessageTemplate[] = [
   // Marketing Templates
@@ -148,85 +192,110 @@ export const MESSAGE_TEMPLATES: MessageTemplate[] = [
 ];
 
 /**
- * Get template by ID
+ * Translations of the built-in templates, by template ID and language. They are seeded
+ * into the registry alongside the English versions and use the same placeholders.
  */
-export function getTemplate(templateId: string): MessageTemplate | undefined {
-  return MESSAGE_TEMPLATES.find(template => template.id === templateId);
+export const TEMPLATE_TRANSLATIONS: Record<string, Partial<Record<TemplateLanguage, string>>> = {
+  application_received: {
+    hi: 'प्रिय {{name}}, आपका लोन आवेदन (ID: {{applicationId}}) हमें मिल गया है। हम इसकी समीक्षा करके {{timeframe}} के भीतर आपसे संपर्क करेंगे। धन्यवाद!',
+    mr: 'प्रिय {{name}}, तुमचा कर्ज अर्ज (ID: {{applicationId}}) आम्हाला मिळाला आहे. आम्ही त्याची तपासणी करून {{timeframe}} मध्ये तुमच्याशी संपर्क साधू. धन्यवाद!',
+    ta: 'அன்புள்ள {{name}}, உங்கள் கடன் விண்ணப்பம் (ID: {{applicationId}}) பெறப்பட்டது. நாங்கள் அதைப் பரிசீலித்து {{timeframe}} க்குள் உங்களைத் தொடர்புகொள்வோம். நன்றி!',
+    te: 'ప్రియమైన {{name}}, మీ రుణ దరఖాస్తు (ID: {{applicationId}}) మాకు అందింది. మేము దానిని పరిశీలించి {{timeframe}} లోపు మిమ్మల్ని సంప్రదిస్తాము. ధన్యవాదాలు!',
+  },
+  otp_verification: {
+    hi: 'लोन आवेदन सत्यापन के लिए आपका OTP है: {{otp}}। यह {{validity}} मिनट के लिए मान्य है। इसे किसी के साथ साझा न करें।',
+    mr: 'कर्ज अर्ज पडताळणीसाठी तुमचा OTP आहे: {{otp}}. तो {{validity}} मिनिटांसाठी वैध आहे. तो कोणालाही सांगू नका.',
+    ta: 'கடன் விண்ணப்ப சரிபார்ப்புக்கான உங்கள் OTP: {{otp}}. இது {{validity}} நிமிடங்களுக்கு செல்லுபடியாகும். யாருடனும் பகிர வேண்டாம்.',
+    te: 'రుణ దరఖాస్తు ధృవీకరణ కోసం మీ OTP: {{otp}}. ఇది {{validity}} నిమిషాల పాటు చెల్లుతుంది. దీన్ని ఎవరితోనూ పంచుకోవద్దు.',
+  },
+  payment_reminder: {
+    hi: 'प्रिय {{name}}, आपकी ₹{{amount}} की लोन EMI {{dueDate}} को देय है। लेट चार्ज से बचने के लिए कृपया भुगतान करें। ऑनलाइन भुगतान: {{paymentLink}}',
+    mr: 'प्रिय {{name}}, तुमचा ₹{{amount}} चा कर्ज EMI {{dueDate}} रोजी देय आहे. विलंब शुल्क टाळण्यासाठी कृपया भरणा करा. ऑनलाइन भरा: {{paymentLink}}',
+    ta: 'அன்புள்ள {{name}}, உங்கள் ₹{{amount}} கடன் EMI {{dueDate}} அன்று செலுத்த வேண்டும். தாமதக் கட்டணத்தைத் தவிர்க்க தயவுசெய்து செலுத்துங்கள். ஆன்லைனில் செலுத்த: {{paymentLink}}',
+    te: 'ప్రియమైన {{name}}, మీ ₹{{amount}} రుణ EMI {{dueDate}} న చెల్లించాలి. ఆలస్య రుసుము నివారించడానికి దయచేసి చెల్లించండి. ఆన్‌లైన్‌లో చెల్లించండి: {{paymentLink}}',
+  },
+};
+
+export function isSupportedLanguage(language: string | null | undefined): language is TemplateLanguage {
+  return SUPPORTED_LANGUAGES.some(supported => supported.code === language);
 }
 
 /**
- * Get templates by category
+ * Get a built-in template by ID in the given language, falling back to English
  */
-export function getTemplatesByCategory(category: MessageTemplate['category']): MessageTemplate[] {
-  return MESSAGE_TEMPLATES.filter(template => template.category === category);
+export function getTemplate(templateId: string, language: string = DEFAULT_LANGUAGE): MessageTemplate | undefined {
+  const template = MESSAGE_TEMPLATES.find(template => template.id === templateId);
+  if (!template) return undefined;
+
+  const translation = isSupportedLanguage(language) ? TEMPLATE_TRANSLATIONS[templateId]?.[language] : undefined;
+  return translation
+    ? { ...template, template: translation, language }
+    : { ...template, language: DEFAULT_LANGUAGE };
 }
 
 /**
- * Get templates by type
+ * Every built-in template in every language it has been translated into
  */
-export function getTemplatesByType(type: 'SMS' | 'WHATSAPP'): MessageTemplate[] {
-  return MESSAGE_TEMPLATES.filter(template => template.type === type);
+export function getBuiltInTemplateVariants(): MessageTemplate[] {
+  return MESSAGE_TEMPLATES.flatMap(template => [
+    { ...template, language: DEFAULT_LANGUAGE },
+    ...Object.entries(TEMPLATE_TRANSLATIONS[template.id] || {}).map(([language, body]) => ({
+      ...template,
+      template: body as string,
+      language,
+    })),
+  ]);
 }
 
 /**
- * Format message template with parameters
+ * Format message template with parameters. Pass a registry template, or an ID to use
+ * the built-in definition in the given language (English when there is no translation).
+ * Parameters may include nested contact and lead fields; optional parameters may be left out.
  */
 export function formatMessage(
-  templateId: string,
-  parameters: Record<string, string>
+  templateOrId: MessageTemplate | string,
+  parameters: TemplateContext,
+  language?: string | null,
+  options: RenderOptions = {}
 ): { success: boolean; message?: string; error?: string } {
-  const template = getTemplate(templateId);
+  const template = typeof templateOrId === 'string' ? getTemplate(templateOrId, language || DEFAULT_LANGUAGE) : templateOrId;
   
   if (!template) {
-    return { success: false, error: `Template with ID '${templateId}' not found` };
+    return { success: false, error: `Template with ID '${templateOrId}' not found` };
   }
 
-  let formattedMessage = template.template;
-  
-  // Replace template parameters
-  for (const param of template.parameters) {
-    const value = parameters[param];
-    if (value === undefined || value === null) {
-      return { 
-        success: false, 
-        error: `Missing required parameter: ${param}` 
-      };
-    }
-    
-    const regex = new RegExp(`{{${param}}}`, 'g');
-    formattedMessage = formattedMessage.replace(regex, value.toString());
-  }
-
-  // Check for any unreplaced parameters
-  const unreplacedParams = formattedMessage.match(/{{[^}]+}}/g);
-  if (unreplacedParams) {
-    return {
-      success: false,
-      error: `Unreplaced parameters found: ${unreplacedParams.join(', ')}`
-    };
-  }
+  const optional = template.parameters.filter(param => isOptionalParameter(template, param));
+  const result = renderTemplate(template.template, parameters, {
+    ...options,
+    optional: [...optional, ...(options.optional || [])],
+  });
 
-  return { success: true, message: formattedMessage };
+  return result.success
+    ? { success: true, message: result.message }
+    : { success: false, error: result.error };
 }
 
 /**
  * Validate template parameters
  */
 export function validateTemplateParameters(
-  templateId: string,
+  templateOrId: MessageTemplate | string,
   parameters: Record<string, string>
 ): { valid: boolean; missingParams?: string[]; extraParams?: string[] } {
-  const template = getTemplate(templateId);
+  const template = typeof templateOrId === 'string' ? getTemplate(templateOrId) : templateOrId;
   
   if (!template) {
     return { valid: false };
   }
 
+  // Contact and lead fields are filled in per recipient when the message is sent
   const providedParams = Object.keys(parameters);
-  const requiredParams = template.parameters;
+  const requiredParams = template.parameters.filter(param =>
+    !isOptionalParameter(template, param) && !isRecipientVariable(param)
+  );
   
   const missingParams = requiredParams.filter(param => !providedParams.includes(param));
-  const extraParams = providedParams.filter(param => !requiredParams.includes(param));
+  const extraParams = providedParams.filter(param => !template.parameters.includes(param) || isRecipientVariable(param));
   
   return {
     valid: missingParams.length === 0,
@@ -235,6 +304,43 @@ export function validateTemplateParameters(
   };
 }
 
+/**
+ * Parameter values in the template's declared order, as positional provider templates
+ * expect, with each placeholder's filters and default applied
+ */
+export function getOrderedParameterValues(
+  template: MessageTemplate,
+  parameters: TemplateContext
+): string[] {
+  return renderVariableValues(template.template, template.parameters, parameters);
+}
+
+/**
+ * Variables used in a template body, in order of first appearance
+ */
+export function extractTemplateParameters(body: string): string[] {
+  return extractTemplateVariables(body).map(variable => variable.name);
+}
+
+/**
+ * Schema entries for a body's variables. Variables with a default, or tested with
+ * {{#if}}, are not required.
+ */
+export function describeTemplateParameters(body: string): TemplateParameter[] {
+  return extractTemplateVariables(body).map(({ name, required }) => ({ name, required }));
+}
+
+/**
+ * Variables a campaign or bulk send has to supply, leaving out contact and lead fields
+ */
+export function getCampaignParameters(template: MessageTemplate): string[] {
+  return template.parameters.filter(param => !isRecipientVariable(param));
+}
+
+function isOptionalParameter(template: MessageTemplate, param: string): boolean {
+  return template.parameterSchema?.find(schema => schema.name === param)?.required === false;
+}
+
 /**
  * Get template suggestions based on loan type
  */
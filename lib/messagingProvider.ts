@@ -0,0 +1,124 @@
+/**
+ * Messaging provider abstraction
+ * Every outbound channel (SMSFresh, the local mock, ...) implements MessagingProvider,
+ * and callers get the configured one from getMessagingProvider()
+ */
+
+import smsFreshService from './smsFreshService'
+import { getMockMessagingProvider } from './mockMessagingProvider'
+import { getWhatsAppCloudProvider } from './whatsappCloudProvider'
+import { withSendThrottle } from './sendThrottle'
+
+export type MessagingChannel = 'WHATSAPP' | 'SMS'
+
+export interface ProviderRecipientResult {
+  phone: string
+  success: boolean
+  messageId?: string
+  error?: string
+}
+
+export interface ProviderResponse {
+  success: boolean
+  messageId?: string
+  deliveryStatus?: string
+  data?: any
+  error?: string
+  errorCode?: string
+  recipients?: ProviderRecipientResult[]
+}
+
+export interface TextMessageParams {
+  phone: string
+  text: string
+  channel?: MessagingChannel
+}
+
+export interface TemplateMessageParams {
+  phone: string[]
+  templateName: string
+  parameters?: string[]
+  channel?: MessagingChannel
+}
+
+export interface MediaMessageParams extends TemplateMessageParams {
+  mediaUrl: string
+  mediaType: 'image' | 'video' | 'document'
+}
+
+export interface OTPMessageParams {
+  phone: string[]
+  templateName: string
+  otp: string
+}
+
+export type CallbackStatus = 'sent' | 'delivered' | 'read' | 'failed' | 'replied'
+
+/**
+ * A delivery receipt or inbound reply, normalised from the provider's webhook payload
+ */
+export interface ProviderCallback {
+  messageId: string
+  phone: string
+  status: CallbackStatus
+  content?: string
+  timestamp: string
+  type: MessagingChannel
+}
+
+export interface ProviderTemplate {
+  name: string
+  content: string
+  category: string
+  language: string
+  status: 'APPROVED' | 'PENDING' | 'REJECTED'
+  components?: {
+    type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS'
+    text?: string
+    parameters?: string[]
+  }[]
+}
+
+export interface MessagingProvider {
+  readonly name: string
+  // Sender ID or phone number messages go out from; the send throttle keeps one bucket per sender
+  readonly senderId?: string
+  sendText(params: TextMessageParams): Promise<ProviderResponse>
+  sendTemplate(params: TemplateMessageParams): Promise<ProviderResponse>
+  sendMedia(params: MediaMessageParams): Promise<ProviderResponse>
+  sendOTP(params: OTPMessageParams): Promise<ProviderResponse>
+  /**
+   * Turn a webhook body into callbacks. Throws if the payload is malformed.
+   */
+  parseStatusCallback(payload: unknown): ProviderCallback[]
+  listTemplates(): Promise<ProviderTemplate[]>
+  testConnection(): Promise<{ success: boolean; message: string; details?: any }>
+  getStatus(): { configured: boolean }
+}
+
+const providers: Record<string, () => MessagingProvider> = {
+  smsfresh: () => smsFreshService,
+  whatsapp_cloud: () => getWhatsAppCloudProvider(),
+  mock: () => getMockMessagingProvider()
+}
+
+export function registerMessagingProvider(name: string, factory: () => MessagingProvider): void {
+  providers[name] = factory
+}
+
+/**
+ * The named provider, or the one selected by MESSAGING_PROVIDER (SMSFresh when unset).
+ * Sends go through the shared send throttle.
+ */
+export function getMessagingProvider(name?: string | null): MessagingProvider {
+  name = name || process.env.MESSAGING_PROVIDER || 'smsfresh'
+  const factory = providers[name.toLowerCase()]
+  if (!factory) {
+    throw new Error(`Unknown messaging provider: ${name}`)
+  }
+  return withSendThrottle(factory())
+}
+
+export function getMessagingProviderNames(): string[] {
+  return Object.keys(providers)
+}
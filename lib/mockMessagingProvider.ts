@@ -0,0 +1,399 @@
+/**
+ * File-backed mock messaging provider for local development and tests
+ * Enable with MESSAGING_PROVIDER=mock. Sent messages are written to a JSON file and
+ * delivery, read and reply callbacks are posted to the SMSFresh webhook, signed with
+ * SMSFRESH_WEBHOOK_SECRET, so campaigns run end to end without calling SMSFresh.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import smsFreshService from './smsFreshService'
+import type {
+  CallbackStatus,
+  MessagingChannel,
+  MessagingProvider,
+  ProviderCallback,
+  ProviderResponse,
+  ProviderTemplate,
+  TemplateMessageParams,
+  MediaMessageParams,
+  OTPMessageParams,
+  TextMessageParams
+} from './messagingProvider'
+
+export interface MockCallbackEvent {
+  status: CallbackStatus
+  content?: string
+  dueAt: string
+  postedAt?: string
+  error?: string
+}
+
+export interface MockMessage {
+  id: string
+  phone: string
+  channel: MessagingChannel
+  kind: 'text' | 'template' | 'media' | 'otp'
+  body: string
+  templateName?: string
+  parameters?: string[]
+  mediaUrl?: string
+  status: CallbackStatus
+  sentAt: string
+  events: MockCallbackEvent[]
+}
+
+interface MockStore {
+  messages: MockMessage[]
+}
+
+interface MockConfig {
+  storeFile: string
+  webhookUrl: string
+  webhookSecret: string
+  deliveryDelayMs: number
+  readDelayMs: number
+  replyDelayMs: number
+  replyRate: number
+  replyText: string
+  failPhones: string[]
+}
+
+const MAX_STORED_MESSAGES = 1000
+
+function loadConfig(): MockConfig {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'
+
+  return {
+    storeFile: process.env.MOCK_MESSAGING_FILE || path.join(process.cwd(), 'storage', 'mock-messaging.json'),
+    webhookUrl: process.env.MOCK_MESSAGING_WEBHOOK_URL || `${appUrl}/api/webhooks/smsfresh`,
+    webhookSecret: process.env.SMSFRESH_WEBHOOK_SECRET || '',
+    deliveryDelayMs: parseInt(process.env.MOCK_DELIVERY_DELAY_MS || '2000'),
+    readDelayMs: parseInt(process.env.MOCK_READ_DELAY_MS || '5000'),
+    replyDelayMs: parseInt(process.env.MOCK_REPLY_DELAY_MS || '10000'),
+    replyRate: parseFloat(process.env.MOCK_REPLY_RATE || '0'),
+    replyText: process.env.MOCK_REPLY_TEXT || 'Yes, I am interested',
+    failPhones: (process.env.MOCK_FAIL_PHONES || '')
+      .split(',')
+      .map(phone => phone.replace(/\D/g, '').slice(-10))
+      .filter(Boolean)
+  }
+}
+
+export class MockMessagingProvider implements MessagingProvider {
+  readonly name = 'mock'
+  readonly senderId = 'MOCK'
+  private config: MockConfig
+  // Serialises read-modify-write cycles on the store file
+  private storeQueue: Promise<unknown> = Promise.resolve()
+
+  constructor(config: Partial<MockConfig> = {}) {
+    this.config = { ...loadConfig(), ...config }
+
+    // Pick up callbacks that were still pending when the process last stopped
+    this.scheduleDispatch(0)
+  }
+
+  async sendText(params: TextMessageParams): Promise<ProviderResponse> {
+    return this.record([params.phone], phone => ({
+      phone,
+      channel: params.channel || 'WHATSAPP',
+      kind: 'text',
+      body: params.text
+    }))
+  }
+
+  async sendTemplate(params: TemplateMessageParams): Promise<ProviderResponse> {
+    return this.record(params.phone, phone => ({
+      phone,
+      channel: params.channel || 'WHATSAPP',
+      kind: 'template',
+      body: params.templateName,
+      templateName: params.templateName,
+      parameters: params.parameters
+    }))
+  }
+
+  async sendMedia(params: MediaMessageParams): Promise<ProviderResponse> {
+    return this.record(params.phone, phone => ({
+      phone,
+      channel: params.channel || 'WHATSAPP',
+      kind: 'media',
+      body: params.templateName,
+      templateName: params.templateName,
+      parameters: params.parameters,
+      mediaUrl: params.mediaUrl
+    }))
+  }
+
+  async sendOTP(params: OTPMessageParams): Promise<ProviderResponse> {
+    return this.record(params.phone, phone => ({
+      phone,
+      channel: 'WHATSAPP',
+      kind: 'otp',
+      body: params.templateName,
+      templateName: params.templateName,
+      parameters: [params.otp]
+    }))
+  }
+
+  /**
+   * The mock posts SMSFresh-format callbacks, so it parses them the same way
+   */
+  parseStatusCallback(payload: unknown): ProviderCallback[] {
+    return smsFreshService.parseStatusCallback(payload)
+  }
+
+  async listTemplates(): Promise<ProviderTemplate[]> {
+    return smsFreshService.getTemplates()
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string; details?: any }> {
+    return {
+      success: true,
+      message: 'Mock messaging provider is active; no messages leave this machine',
+      details: this.getStatus()
+    }
+  }
+
+  getStatus(): { configured: boolean; storeFile: string; webhookUrl: string } {
+    return {
+      configured: true,
+      storeFile: this.config.storeFile,
+      webhookUrl: this.config.webhookUrl
+    }
+  }
+
+  async getMessages(phone?: string): Promise<MockMessage[]> {
+    const store = await this.readStore()
+    const normalizedPhone = phone ? this.normalizePhone(phone) : null
+
+    return store.messages
+      .filter(message => !normalizedPhone || this.normalizePhone(message.phone) === normalizedPhone)
+      .reverse()
+  }
+
+  /**
+   * Post an inbound message as if the customer had written first
+   */
+  async simulateInbound(phone: string, content: string, channel: MessagingChannel = 'WHATSAPP'): Promise<void> {
+    await this.postCallback({
+      messageId: `mock_in_${crypto.randomUUID()}`,
+      phone,
+      status: 'replied',
+      content,
+      timestamp: new Date().toISOString(),
+      type: channel
+    })
+  }
+
+  /**
+   * Queue a reply to a message this provider sent
+   */
+  async simulateReply(messageId: string, content: string, delayMs: number = 0): Promise<boolean> {
+    const found = await this.updateStore(store => {
+      const message = store.messages.find(m => m.id === messageId)
+      if (!message) return false
+
+      message.events.push({
+        status: 'replied',
+        content,
+        dueAt: new Date(Date.now() + delayMs).toISOString()
+      })
+      return true
+    })
+
+    if (found) this.scheduleDispatch(delayMs)
+    return found
+  }
+
+  /**
+   * Post every callback that is due. Tests can call this directly instead of waiting.
+   */
+  async dispatchDueEvents(now: Date = new Date()): Promise<number> {
+    const due = await this.updateStore(store => {
+      const callbacks: Array<{ message: MockMessage; event: MockCallbackEvent }> = []
+      for (const message of store.messages) {
+        for (const event of message.events) {
+          if (!event.postedAt && new Date(event.dueAt) <= now) {
+            // Claim before posting so overlapping dispatches do not send twice
+            event.postedAt = now.toISOString()
+            callbacks.push({ message, event })
+          }
+        }
+      }
+      return callbacks
+    })
+
+    for (const { message, event } of due) {
+      try {
+        await this.postCallback({
+          messageId: message.id,
+          phone: message.phone,
+          status: event.status,
+          content: event.content,
+          timestamp: event.dueAt,
+          type: message.channel
+        })
+      } catch (error) {
+        console.error(`Mock provider failed to post ${event.status} callback for ${message.id}:`, error)
+        await this.updateStore(store => {
+          const stored = store.messages.find(m => m.id === message.id)
+          const storedEvent = stored?.events.find(e => e.dueAt === event.dueAt && e.status === event.status)
+          if (storedEvent) storedEvent.error = error instanceof Error ? error.message : 'Unknown error'
+        })
+      }
+    }
+
+    if (due.length > 0) {
+      await this.updateStore(store => {
+        for (const { message, event } of due) {
+          const stored = store.messages.find(m => m.id === message.id)
+          if (stored && event.status !== 'replied') stored.status = event.status
+        }
+      })
+    }
+
+    return due.length
+  }
+
+  async reset(): Promise<void> {
+    await this.updateStore(store => {
+      store.messages = []
+    })
+  }
+
+  private async record(
+    phones: string[],
+    build: (phone: string) => Omit<MockMessage, 'id' | 'status' | 'sentAt' | 'events'>
+  ): Promise<ProviderResponse> {
+    const now = Date.now()
+    const messages: MockMessage[] = phones.map(phone => ({
+      ...build(phone),
+      id: `mock_${crypto.randomUUID()}`,
+      status: 'sent',
+      sentAt: new Date(now).toISOString(),
+      events: this.planEvents(phone, now)
+    }))
+
+    await this.updateStore(store => {
+      store.messages.push(...messages)
+      if (store.messages.length > MAX_STORED_MESSAGES) {
+        store.messages = store.messages.slice(-MAX_STORED_MESSAGES)
+      }
+    })
+
+    const delays = new Set(messages.flatMap(message => message.events.map(event => new Date(event.dueAt).getTime() - now)))
+    delays.forEach(delay => this.scheduleDispatch(delay))
+
+    return {
+      success: true,
+      messageId: messages[0]?.id,
+      deliveryStatus: 'SENT',
+      data: messages.map(message => ({ id: message.id, phone: message.phone })),
+      recipients: messages.map(message => ({
+        phone: message.phone,
+        success: true,
+        messageId: message.id
+      }))
+    }
+  }
+
+  /**
+   * Delivered then read, or failed for numbers in MOCK_FAIL_PHONES, plus a reply
+   * for MOCK_REPLY_RATE of recipients
+   */
+  private planEvents(phone: string, sentAt: number): MockCallbackEvent[] {
+    const at = (delay: number) => new Date(sentAt + delay).toISOString()
+
+    if (this.config.failPhones.includes(this.normalizePhone(phone))) {
+      return [{ status: 'failed', dueAt: at(this.config.deliveryDelayMs) }]
+    }
+
+    const events: MockCallbackEvent[] = [
+      { status: 'delivered', dueAt: at(this.config.deliveryDelayMs) },
+      { status: 'read', dueAt: at(this.config.readDelayMs) }
+    ]
+
+    if (Math.random() < this.config.replyRate) {
+      events.push({ status: 'replied', content: this.config.replyText, dueAt: at(this.config.replyDelayMs) })
+    }
+
+    return events
+  }
+
+  private scheduleDispatch(delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.dispatchDueEvents().catch(error => {
+        console.error('Mock provider failed to dispatch callbacks:', error)
+      })
+    }, Math.max(delayMs, 0))
+
+    // Do not keep scripts alive just to deliver simulated callbacks
+    timer.unref?.()
+  }
+
+  private async postCallback(callback: ProviderCallback): Promise<void> {
+    const body = JSON.stringify(callback)
+    const timestamp = Math.floor(Date.now() / 1000).toString()
+    const signature = crypto
+      .createHmac('sha256', this.config.webhookSecret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex')
+
+    const response = await fetch(this.config.webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-smsfresh-signature': `sha256=${signature}`,
+        'x-smsfresh-timestamp': timestamp
+      },
+      body
+    })
+
+    if (!response.ok) {
+      throw new Error(`Webhook returned HTTP ${response.status}`)
+    }
+  }
+
+  private async readStore(): Promise<MockStore> {
+    try {
+      const content = await fs.readFile(this.config.storeFile, 'utf8')
+      return JSON.parse(content) as MockStore
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Mock provider store is unreadable, starting empty:', error)
+      }
+      return { messages: [] }
+    }
+  }
+
+  private updateStore<T>(update: (store: MockStore) => T): Promise<T> {
+    const run = this.storeQueue.then(async () => {
+      const store = await this.readStore()
+      const result = update(store)
+      await fs.mkdir(path.dirname(this.config.storeFile), { recursive: true })
+      await fs.writeFile(this.config.storeFile, JSON.stringify(store, null, 2))
+      return result
+    })
+
+    this.storeQueue = run.catch(() => undefined)
+    return run
+  }
+
+  private normalizePhone(phone: string): string {
+    return phone.replace(/\D/g, '').slice(-10)
+  }
+}
+
+let mockProviderInstance: MockMessagingProvider | null = null
+
+export function getMockMessagingProvider(): MockMessagingProvider {
+  if (!mockProviderInstance) {
+    mockProviderInstance = new MockMessagingProvider()
+  }
+  return mockProviderInstance
+}
+
+export default MockMessagingProvider
@@ -0,0 +1,194 @@
+import { PrismaClient } from '@prisma/client'
+import { createHmac, randomInt, timingSafeEqual } from 'crypto'
+import { getMessageService } from './messageService'
+import { LeadScoringEngine } from './leadScoringEngine'
+import { OTP_CONFIG } from './security/config'
+
+const prisma = new PrismaClient()
+
+const OTP_SECRET = process.env.OTP_SECRET || process.env.JWT_SECRET || 'your-secret-key'
+
+export const OTP_PURPOSES = ['PHONE_VERIFICATION'] as const
+export type OtpPurpose = typeof OTP_PURPOSES[number]
+
+interface OtpRequestResult {
+  success: boolean
+  expiresAt?: Date
+  retryAfterSeconds?: number
+  rateLimited?: boolean
+  reason?: string
+}
+
+interface OtpVerifyResult {
+  success: boolean
+  attemptsRemaining?: number
+  reason?: string
+}
+
+export class OtpService {
+  /**
+   * Issue a new code for a phone, or resend one, respecting the resend cooldown
+   * and hourly send cap. Any previous unverified code for the phone is replaced.
+   */
+  static async requestOtp(phone: string, purpose: OtpPurpose = 'PHONE_VERIFICATION'): Promise<OtpRequestResult> {
+    try {
+      const now = Date.now()
+
+      const latest = await prisma.otpVerification.findFirst({
+        where: { phone, purpose, verifiedAt: null },
+        orderBy: { createdAt: 'desc' }
+      })
+
+      if (latest && now - latest.lastSentAt.getTime() < OTP_CONFIG.resendCooldownMs) {
+        return {
+          success: false,
+          rateLimited: true,
+          retryAfterSeconds: Math.ceil((OTP_CONFIG.resendCooldownMs - (now - latest.lastSentAt.getTime())) / 1000),
+          reason: 'Please wait before requesting another code'
+        }
+      }
+
+      const recentSends = await prisma.otpVerification.aggregate({
+        where: { phone, purpose, lastSentAt: { gte: new Date(now - 60 * 60 * 1000) } },
+        _sum: { sendCount: true }
+      })
+      if ((recentSends._sum.sendCount || 0) >= OTP_CONFIG.maxSendsPerHour) {
+        return { success: false, rateLimited: true, reason: 'Too many codes requested. Please try again later' }
+      }
+
+      const code = this.generateCode()
+      const expiresAt = new Date(now + OTP_CONFIG.expiryMs)
+
+      const delivery = await getMessageService().sendOTP({
+        phone: [phone],
+        templateName: OTP_CONFIG.templateName,
+        otp: code
+      })
+      if (!delivery.success) {
+        console.error(`Failed to deliver OTP to ${phone}:`, delivery.errors)
+        return { success: false, reason: 'Failed to send verification code' }
+      }
+
+      // Resending keeps the same row so the send count carries over within the hour
+      if (latest && now - latest.createdAt.getTime() < 60 * 60 * 1000) {
+        await prisma.otpVerification.update({
+          where: { id: latest.id },
+          data: {
+            codeHash: this.hashCode(phone, code),
+            expiresAt,
+            attempts: 0,
+            sendCount: { increment: 1 },
+            lastSentAt: new Date(now)
+          }
+        })
+      } else {
+        await prisma.otpVerification.create({
+          data: {
+            phone,
+            purpose,
+            codeHash: this.hashCode(phone, code),
+            expiresAt,
+            maxAttempts: OTP_CONFIG.maxAttempts,
+            lastSentAt: new Date(now)
+          }
+        })
+      }
+
+      return { success: true, expiresAt }
+
+    } catch (error) {
+      console.error('Error requesting OTP:', error)
+      return { success: false, reason: 'Failed to send verification code' }
+    }
+  }
+
+  /**
+   * Check a submitted code. On success the contact's phone is marked verified
+   * and its open leads are rescored.
+   */
+  static async verifyOtp(phone: string, code: string, purpose: OtpPurpose = 'PHONE_VERIFICATION'): Promise<OtpVerifyResult> {
+    try {
+      const otp = await prisma.otpVerification.findFirst({
+        where: { phone, purpose, verifiedAt: null },
+        orderBy: { createdAt: 'desc' }
+      })
+
+      if (!otp || otp.expiresAt.getTime() < Date.now()) {
+        return { success: false, reason: 'Code has expired. Please request a new one' }
+      }
+
+      // Every check spends an attempt before the code is compared, so parallel guesses cannot pass the cap together
+      const { count } = await prisma.otpVerification.updateMany({
+        where: { id: otp.id, attempts: { lt: otp.maxAttempts } },
+        data: { attempts: { increment: 1 } }
+      })
+      if (count === 0) {
+        return { success: false, attemptsRemaining: 0, reason: 'Too many incorrect attempts. Please request a new code' }
+      }
+
+      if (!this.codeMatches(otp.codeHash, phone, code)) {
+        return {
+          success: false,
+          attemptsRemaining: Math.max(otp.maxAttempts - otp.attempts - 1, 0),
+          reason: 'Incorrect code'
+        }
+      }
+
+      const verifiedAt = new Date()
+      await prisma.otpVerification.update({
+        where: { id: otp.id },
+        data: { verifiedAt }
+      })
+
+      if (purpose === 'PHONE_VERIFICATION') {
+        await this.markPhoneVerified(phone, verifiedAt)
+      }
+
+      return { success: true }
+
+    } catch (error) {
+      console.error('Error verifying OTP:', error)
+      return { success: false, reason: 'Failed to verify code' }
+    }
+  }
+
+  private static async markPhoneVerified(phone: string, verifiedAt: Date): Promise<void> {
+    const contact = await prisma.contact.upsert({
+      where: { phone },
+      update: { phoneVerified: true, phoneVerifiedAt: verifiedAt },
+      create: { phone, phoneVerified: true, phoneVerifiedAt: verifiedAt }
+    })
+
+    const openLeads = await prisma.lead.findMany({
+      where: {
+        OR: [{ contactId: contact.id }, { phone }],
+        status: { notIn: ['CLOSED_WON', 'CLOSED_LOST'] }
+      },
+      select: { id: true }
+    })
+
+    for (const lead of openLeads) {
+      await LeadScoringEngine.updateLeadScore(lead.id)
+    }
+  }
+
+  private static generateCode(): string {
+    let code = ''
+    for (let i = 0; i < OTP_CONFIG.length; i++) {
+      code += randomInt(0, 10).toString()
+    }
+    return code
+  }
+
+  private static hashCode(phone: string, code: string): string {
+    return createHmac('sha256', OTP_SECRET).update(`${phone}:${code}`).digest('hex')
+  }
+
+  private static codeMatches(codeHash: string, phone: string, code: string): boolean {
+    const expected = Buffer.from(codeHash, 'hex')
+    const actual = Buffer.from(this.hashCode(phone, code), 'hex')
+    return expected.length === actual.length && timingSafeEqual(expected, actual)
+  }
+}
+
+export default OtpService
@@ -0,0 +1,259 @@
+import { hostname } from 'os'
+import { PrismaClient } from '@prisma/client'
+import { getMessagingProvider, ProviderResponse } from './messagingProvider'
+import { logger, DataSource } from './logger'
+import { getOrderedParameterValues } from './messageTemplates'
+import { TemplateRegistry, TemplateError } from './templateRegistry'
+import { SuppressionService } from './suppressionService'
+import { MessageOutbox, OutboxMessage } from './messageOutbox'
+import { SendWindowService } from './sendWindowService'
+
+const prisma = new PrismaClient()
+
+const CLAIM_BATCH_SIZE = 50
+// Sends in flight at once; the send throttle still paces each provider and sender
+const CONCURRENCY = 10
+// Messages over a sender's daily cap wait this long before they are tried again
+const DAILY_CAP_RETRY_MS = 15 * 60 * 1000
+
+// Errors a retry cannot fix
+const NON_RETRYABLE_PATTERN = /invalid phone number|invalid template|invalid media url|message too long|unauthorized|forbidden|bad request/i
+
+/**
+ * Sends the messages queued in the outbox. Runs from the outbox cron job and is woken
+ * whenever messages are queued, so sends happen outside the request that queued them.
+ */
+export class OutboxWorker {
+  private static readonly workerId = `${hostname()}:${process.pid}`
+  private static running: Promise<number> | null = null
+  private static wakeScheduled = false
+
+  /**
+   * Start sending soon without waiting for the next cron tick
+   */
+  static wake(): void {
+    if (this.wakeScheduled) return
+    this.wakeScheduled = true
+
+    setTimeout(() => {
+      this.wakeScheduled = false
+      this.processDue().catch(error => {
+        logger.error(DataSource.DATABASE, 'outbox_worker', 'Outbox worker run failed', error)
+      })
+    }, 0)
+  }
+
+  /**
+   * Send due messages until none are left. Calls during a run join it instead of
+   * starting a second one. Returns how many messages were handled.
+   */
+  static processDue(): Promise<number> {
+    if (!this.running) {
+      this.running = this.drain().finally(() => {
+        this.running = null
+      })
+    }
+    return this.running
+  }
+
+  private static async drain(): Promise<number> {
+    let handled = 0
+
+    while (true) {
+      const batch = await MessageOutbox.claimDue(this.workerId, CLAIM_BATCH_SIZE)
+      if (batch.length === 0) break
+
+      for (let i = 0; i < batch.length; i += CONCURRENCY) {
+        await Promise.all(batch.slice(i, i + CONCURRENCY).map(message => this.deliver(message)))
+      }
+      handled += batch.length
+    }
+
+    if (handled > 0) {
+      logger.info(DataSource.API, 'outbox_worker', `Handled ${handled} outbox messages`)
+    }
+    return handled
+  }
+
+  private static async deliver(message: OutboxMessage): Promise<void> {
+    try {
+      if (message.campaignId) {
+        const campaign = await prisma.campaign.findUnique({
+          where: { id: message.campaignId },
+          select: { status: true }
+        })
+
+        if (!campaign || campaign.status === 'CANCELLED') {
+          await MessageOutbox.cancel(message.id, 'Campaign cancelled')
+          return
+        }
+        // Paused after the message was claimed; it is claimed again once the campaign resumes
+        if (campaign.status === 'PAUSED') {
+          await MessageOutbox.release(message.id, new Date())
+          return
+        }
+
+        // Retries, daily cap releases and backlog left at closing time wait for the window to open again
+        const sendWindow = await SendWindowService.getWindow(message.campaignId)
+        if (!SendWindowService.isOpen(sendWindow)) {
+          await MessageOutbox.release(
+            message.id,
+            SendWindowService.getNextOpening(sendWindow),
+            `Outside send window (${SendWindowService.describe(sendWindow)})`
+          )
+          return
+        }
+      }
+
+      // The contact may have opted out while the message was queued
+      if (await SuppressionService.isSuppressed(message.phone, message.type)) {
+        await MessageOutbox.cancel(message.id, `Recipient opted out of ${message.type} messages`)
+        if (message.campaignId && message.contactId) {
+          await this.updateCampaignContact(message, 'SUPPRESSED')
+        }
+        return
+      }
+
+      let response: ProviderResponse
+      let retryable = true
+      try {
+        response = await this.send(message)
+      } catch (error) {
+        // Templates that are no longer approved stay dead until an admin requeues them
+        retryable = !(error instanceof TemplateError)
+        response = { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+      }
+
+      if (response.success) {
+        await this.recordSent(message, response)
+        return
+      }
+
+      if (response.errorCode === 'DAILY_CAP_REACHED') {
+        await MessageOutbox.release(message.id, new Date(Date.now() + DAILY_CAP_RETRY_MS), response.error)
+        return
+      }
+
+      const outcome = await MessageOutbox.markFailed(message, {
+        error: response.error,
+        errorCode: response.errorCode,
+        retryable: retryable && !NON_RETRYABLE_PATTERN.test(response.error || '')
+      })
+
+      if (outcome === 'DEAD') {
+        await this.recordDead(message)
+        logger.warn(DataSource.API, 'outbox_worker', `Outbox message ${message.id} moved to dead letters after ${message.attempts + 1} attempts`, {
+          source: message.source,
+          campaignId: message.campaignId,
+          error: response.error
+        })
+      }
+    } catch (error) {
+      // Left PROCESSING; the lease runs out and it is tried again
+      logger.error(DataSource.DATABASE, 'outbox_worker', `Failed to handle outbox message ${message.id}`, error)
+    }
+  }
+
+  /**
+   * Send through the message's own provider when it has one. Only approved registry
+   * versions go out; resolve throws for drafts and unknown keys.
+   */
+  private static async send(message: OutboxMessage): Promise<ProviderResponse> {
+    const provider = getMessagingProvider(message.provider)
+
+    if (message.kind === 'TEXT') {
+      return provider.sendText({ phone: message.phone, text: message.content, channel: message.type })
+    }
+
+    const template = message.templateName ? await TemplateRegistry.resolve(message.templateName, message.language) : null
+    const context = message.context || {}
+    const params = {
+      phone: [message.phone],
+      templateName: template ? template.providerTemplateName || template.id : 'default_template',
+      parameters: template
+        ? getOrderedParameterValues(template, context)
+        : Object.values(context).map(String),
+      channel: message.type
+    }
+
+    if (message.type === 'WHATSAPP' && message.mediaUrl && message.mediaType) {
+      return provider.sendMedia({ ...params, mediaUrl: message.mediaUrl, mediaType: message.mediaType })
+    }
+    return provider.sendTemplate(params)
+  }
+
+  private static async recordSent(message: OutboxMessage, response: ProviderResponse): Promise<void> {
+    const providerMessageId = response.recipients?.find(recipient => recipient.phone === message.phone)?.messageId
+      || response.messageId
+
+    // Marked first so a crash before the records are written cannot send it twice
+    await MessageOutbox.markSent(message.id, { providerMessageId })
+
+    const record = await this.createMessageRecord(message, 'SENT', providerMessageId)
+    if (record) {
+      await MessageOutbox.setMessageId(message.id, record.id)
+    }
+
+    if (message.campaignId && message.contactId) {
+      await this.updateCampaignContact(message, 'SENT')
+      await prisma.campaign.update({
+        where: { id: message.campaignId },
+        data: { totalSent: { increment: 1 } }
+      })
+    }
+  }
+
+  private static async recordDead(message: OutboxMessage): Promise<void> {
+    const record = await this.createMessageRecord(message, 'FAILED')
+    if (record) {
+      await MessageOutbox.setMessageId(message.id, record.id)
+    }
+
+    if (message.campaignId && message.contactId) {
+      await this.updateCampaignContact(message, 'FAILED')
+      await prisma.campaign.update({
+        where: { id: message.campaignId },
+        data: { totalFailed: { increment: 1 } }
+      })
+    }
+  }
+
+  private static async createMessageRecord(
+    message: OutboxMessage,
+    status: 'SENT' | 'FAILED',
+    providerMessageId?: string
+  ): Promise<{ id: string } | null> {
+    // Follow-ups to numbers that are not contacts are sent without a record
+    if (!message.contactId) return null
+
+    return prisma.message.create({
+      data: {
+        type: message.type,
+        direction: 'OUTBOUND',
+        content: message.content,
+        status,
+        contactId: message.contactId,
+        campaignId: message.campaignId,
+        sentById: message.sentById,
+        smsFreshId: providerMessageId,
+        templateName: message.templateName,
+        parameters: message.parameters ? JSON.stringify(message.parameters) : undefined,
+        mediaUrl: message.mediaUrl,
+        mediaType: message.mediaType,
+        language: message.language,
+        variantId: message.variantId,
+        sentAt: status === 'SENT' ? new Date() : undefined
+      },
+      select: { id: true }
+    })
+  }
+
+  private static async updateCampaignContact(message: OutboxMessage, status: 'SENT' | 'FAILED' | 'SUPPRESSED'): Promise<void> {
+    await prisma.campaignContact.updateMany({
+      where: { campaignId: message.campaignId, contactId: message.contactId },
+      data: { status, sentAt: status === 'SENT' ? new Date() : undefined }
+    })
+  }
+}
+
+export default OutboxWorker
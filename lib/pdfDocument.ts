@@ -0,0 +1,157 @@
+/**
+ * Minimal PDF writer for server-rendered exports: A4 pages of Helvetica text, headings
+ * and simple tables, laid out top to bottom with page breaks. Characters outside
+ * Latin-1 are replaced, which is enough for report figures and names.
+ */
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 50
+// Average Helvetica glyph width as a share of the font size, for wrapping and truncating
+const CHAR_WIDTH = 0.5
+
+interface TextOptions {
+  size?: number
+  bold?: boolean
+  indent?: number
+  color?: [number, number, number]
+}
+
+export class PdfDocument {
+  private pages: string[][] = [[]]
+  private y = PAGE_HEIGHT - MARGIN
+
+  heading(text: string, size = 16): this {
+    this.space(size * 0.6)
+    return this.text(text, { size, bold: true })
+  }
+
+  /**
+   * A paragraph, wrapped to the page width
+   */
+  text(text: string, options: TextOptions = {}): this {
+    const size = options.size || 10
+    const indent = options.indent || 0
+    const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN - indent) / (size * CHAR_WIDTH))
+
+    for (const line of wrap(text, maxChars)) {
+      this.ensureRoom(size * 1.4)
+      this.draw(line, MARGIN + indent, size, options.bold, options.color)
+      this.y -= size * 1.4
+    }
+    return this
+  }
+
+  /**
+   * Rows of cells under a bold header row. Cells too wide for their column are cut short.
+   */
+  table(headers: string[], rows: string[][], widths?: number[], size = 9): this {
+    const available = PAGE_WIDTH - 2 * MARGIN
+    const columnWidths = widths || headers.map(() => available / headers.length)
+    const rowHeight = size * 1.6
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      this.ensureRoom(rowHeight)
+      let x = MARGIN
+      cells.forEach((cell, i) => {
+        const maxChars = Math.floor((columnWidths[i] - 4) / (size * CHAR_WIDTH))
+        this.draw(truncate(cell, maxChars), x, size, bold)
+        x += columnWidths[i]
+      })
+      this.y -= rowHeight
+    }
+
+    this.space(size * 0.5)
+    drawRow(headers, true)
+    this.current().push(`0.8 G ${MARGIN} ${this.y + rowHeight - size * 1.3} m ${MARGIN + available} ${this.y + rowHeight - size * 1.3} l S 0 G`)
+    rows.forEach(row => drawRow(row, false))
+    return this.space(size)
+  }
+
+  space(points: number): this {
+    this.y -= points
+    return this
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = []
+    const add = (body: string) => objects.push(body) // object number is the new length
+
+    add('<< /Type /Catalog /Pages 2 0 R >>')
+    add('') // pages, filled in once the page objects are numbered
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+    const pageRefs: string[] = []
+    this.pages.forEach((operations, index) => {
+      const footer = `BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td (${escape(`Page ${index + 1} of ${this.pages.length}`)}) Tj ET`
+      const content = [...operations, footer].join('\n')
+      add(`<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`)
+      add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${objects.length} 0 R >>`)
+      pageRefs.push(`${objects.length} 0 R`)
+    })
+    objects[1] = `<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pageRefs.length} >>`
+
+    let output = '%PDF-1.4\n'
+    const offsets: number[] = []
+    objects.forEach((body, index) => {
+      offsets.push(Buffer.byteLength(output, 'latin1'))
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`
+    })
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1')
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    output += offsets.map(offset => `${padOffset(offset)} 00000 n \n`).join('')
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`
+
+    return Buffer.from(output, 'latin1')
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1]
+  }
+
+  private ensureRoom(height: number): void {
+    if (this.y - height >= MARGIN) return
+    this.pages.push([])
+    this.y = PAGE_HEIGHT - MARGIN
+  }
+
+  private draw(text: string, x: number, size: number, bold = false, color?: [number, number, number]): void {
+    const fill = color ? `${color.join(' ')} rg ` : ''
+    this.current().push(`BT ${fill}/${bold ? 'F2' : 'F1'} ${size} Tf ${x} ${this.y - size} Td (${escape(text)}) Tj ET${color ? ' 0 g' : ''}`)
+  }
+}
+
+function wrap(text: string, maxChars: number): string[] {
+  const lines: string[] = []
+  let line = ''
+
+  for (const word of text.split(/\s+/)) {
+    if (line && line.length + word.length + 1 > maxChars) {
+      lines.push(line)
+      line = ''
+    }
+    line = line ? `${line} ${word}` : word
+  }
+  lines.push(line)
+
+  return lines
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? `${text.slice(0, Math.max(maxChars - 3, 0))}...` : text
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)')
+}
+
+function padOffset(offset: number): string {
+  const digits = String(offset)
+  return '0000000000'.slice(digits.length) + digits
+}
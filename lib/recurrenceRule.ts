@@ -0,0 +1,317 @@
+/**
+ * RRULE-style recurrence for campaigns, e.g. FREQ=MONTHLY;BYDAY=1MO;BYHOUR=10 for every
+ * first Monday at 10:00. A subset of RFC 5545: daily, weekly and monthly rules with
+ * INTERVAL, BYDAY (ordinals in monthly rules), BYMONTHDAY, BYHOUR, BYMINUTE, COUNT and UNTIL.
+ * Pure so the campaign pages can describe a rule while it is typed.
+ */
+
+import { getLocalParts, toUtc } from './zonedTime'
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+
+export type WeekdayCode = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  interval: number
+  // Ordinal picks one weekday of the month: 1MO is the first Monday, -1FR the last Friday
+  byDay?: Array<{ weekday: WeekdayCode; ordinal?: number }>
+  byMonthDay?: number[]
+  byHour?: number
+  byMinute?: number
+  count?: number
+  until?: Date
+}
+
+export const WEEKDAY_CODES: WeekdayCode[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
+
+const WEEKDAY_NAMES: Record<WeekdayCode, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday'
+}
+
+const ORDINAL_NAMES: Record<number, string> = {
+  1: 'first',
+  2: 'second',
+  3: 'third',
+  4: 'fourth',
+  5: 'fifth',
+  [-1]: 'last',
+  [-2]: 'second to last'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// Candidate days to look at for the next occurrence. Monthly rules skip the months
+// between intervals, so even INTERVAL=99 stays well within this.
+const MAX_SEARCH_DAYS = 3 * 366
+
+const SUPPORTED_KEYS = ['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYHOUR', 'BYMINUTE', 'COUNT', 'UNTIL']
+
+/**
+ * Parse a rule such as `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH`. An `RRULE:` prefix is allowed.
+ */
+export function parseRecurrenceRule(text: string): { rule?: RecurrenceRule; errors: string[] } {
+  const errors: string[] = []
+  const parts: Record<string, string> = {}
+
+  const body = text.trim().replace(/^RRULE:/i, '')
+  for (const part of body.split(';').filter(Boolean)) {
+    const [key, value] = part.split('=')
+    const name = (key || '').trim().toUpperCase()
+    if (!SUPPORTED_KEYS.includes(name)) {
+      errors.push(`Unsupported rule part '${key}'`)
+    } else if (!value) {
+      errors.push(`${name} needs a value`)
+    } else {
+      parts[name] = value.trim().toUpperCase()
+    }
+  }
+
+  const freq = parts.FREQ as RecurrenceFrequency
+  if (!freq) {
+    errors.push('FREQ is required')
+  } else if (!['DAILY', 'WEEKLY', 'MONTHLY'].includes(freq)) {
+    errors.push('FREQ must be DAILY, WEEKLY or MONTHLY')
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 }
+
+  if (parts.INTERVAL) {
+    rule.interval = parseInt(parts.INTERVAL)
+    if (!isInteger(parts.INTERVAL) || rule.interval < 1 || rule.interval > 99) {
+      errors.push('INTERVAL must be between 1 and 99')
+    }
+  }
+
+  if (parts.BYDAY) {
+    rule.byDay = []
+    for (const day of parts.BYDAY.split(',')) {
+      const match = day.match(/^([+-]?\d)?(MO|TU|WE|TH|FR|SA|SU)$/)
+      if (!match) {
+        errors.push(`Invalid BYDAY value '${day}'`)
+        continue
+      }
+      const ordinal = match[1] ? parseInt(match[1]) : undefined
+      if (ordinal !== undefined && (ordinal === 0 || ordinal < -5 || ordinal > 5)) {
+        errors.push(`Invalid BYDAY ordinal in '${day}'`)
+      } else if (ordinal !== undefined && freq !== 'MONTHLY') {
+        errors.push('BYDAY ordinals such as 1MO only work with FREQ=MONTHLY')
+      }
+      rule.byDay.push({ weekday: match[2] as WeekdayCode, ordinal })
+    }
+  }
+
+  if (parts.BYMONTHDAY) {
+    rule.byMonthDay = parts.BYMONTHDAY.split(',').map(day => parseInt(day))
+    if (parts.BYMONTHDAY.split(',').some(day => !isInteger(day)) || rule.byMonthDay.some(day => day === 0 || day < -31 || day > 31)) {
+      errors.push('BYMONTHDAY must be between 1 and 31, or -1 to -31 counting from the end of the month')
+    }
+    if (freq === 'WEEKLY') {
+      errors.push('BYMONTHDAY does not work with FREQ=WEEKLY')
+    }
+  }
+
+  if (parts.BYHOUR) {
+    rule.byHour = parseInt(parts.BYHOUR)
+    if (!isInteger(parts.BYHOUR) || rule.byHour < 0 || rule.byHour > 23) {
+      errors.push('BYHOUR must be a single hour between 0 and 23')
+    }
+  }
+
+  if (parts.BYMINUTE) {
+    rule.byMinute = parseInt(parts.BYMINUTE)
+    if (!isInteger(parts.BYMINUTE) || rule.byMinute < 0 || rule.byMinute > 59) {
+      errors.push('BYMINUTE must be a single minute between 0 and 59')
+    }
+  }
+
+  if (parts.COUNT) {
+    rule.count = parseInt(parts.COUNT)
+    if (!isInteger(parts.COUNT) || rule.count < 1) {
+      errors.push('COUNT must be at least 1')
+    }
+  }
+
+  if (parts.UNTIL) {
+    const match = parts.UNTIL.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/)
+    if (!match) {
+      errors.push('UNTIL must look like 20261231 or 20261231T000000Z')
+    } else {
+      rule.until = new Date(Date.UTC(+match[1], +match[2] - 1, +match[3], match[4] ? +match[4] : 23, match[5] ? +match[5] : 59, match[6] ? +match[6] : 59))
+    }
+  }
+
+  if (parts.COUNT && parts.UNTIL) {
+    errors.push('Use COUNT or UNTIL, not both')
+  }
+
+  return errors.length > 0 ? { errors } : { rule, errors }
+}
+
+/**
+ * The rule in its canonical text form
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${day.weekday}`).join(',')}`)
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.byHour !== undefined) parts.push(`BYHOUR=${rule.byHour}`)
+  if (rule.byMinute !== undefined) parts.push(`BYMINUTE=${rule.byMinute}`)
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`)
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`)
+  return parts.join(';')
+}
+
+/**
+ * Plain-English summary, e.g. "Every month on the first Monday at 10:00"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq]
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(day => day.ordinal !== undefined
+      ? `the ${ORDINAL_NAMES[day.ordinal] || `${day.ordinal}th`} ${WEEKDAY_NAMES[day.weekday]}`
+      : WEEKDAY_NAMES[day.weekday])
+    text += ` on ${days.join(', ')}`
+  }
+  if (rule.byMonthDay?.length) {
+    const days = rule.byMonthDay.map(day => day === -1 ? 'the last day' : day < 0 ? `${-day} days from the end` : `day ${day}`)
+    text += ` on ${days.join(', ')}`
+  }
+  if (rule.byHour !== undefined) {
+    text += ` at ${pad(rule.byHour)}:${pad(rule.byMinute ?? 0)}`
+  }
+  if (rule.count !== undefined) {
+    text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`
+  }
+  if (rule.until) {
+    text += `, until ${rule.until.toISOString().slice(0, 10)}`
+  }
+  return text
+}
+
+/**
+ * The first occurrence after `after`, no earlier than the series start, or null once the
+ * series is over. The time of day comes from BYHOUR/BYMINUTE, otherwise from the start.
+ */
+export function nextOccurrence(
+  rule: RecurrenceRule,
+  options: { start: Date; after: Date; timeZone: string; runCount?: number }
+): Date | null {
+  const { start, after, timeZone, runCount = 0 } = options
+  if (rule.count !== undefined && runCount >= rule.count) return null
+
+  const startLocal = getLocalParts(start, timeZone)
+  const startDay = Date.UTC(startLocal.year, startLocal.month - 1, startLocal.day)
+  const minutes = rule.byHour !== undefined
+    ? rule.byHour * 60 + (rule.byMinute ?? 0)
+    : startLocal.minutes
+
+  const from = getLocalParts(after > start ? after : start, timeZone)
+  let day = Date.UTC(from.year, from.month - 1, from.day)
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day = nextCandidateDay(rule, day, startDay)) {
+    if (!matchesDay(rule, new Date(day), new Date(startDay))) continue
+
+    const date = new Date(day)
+    const occurrence = toUtc(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), minutes, timeZone)
+    if (occurrence <= after || occurrence < start) continue
+    if (rule.until && occurrence > rule.until) return null
+    return occurrence
+  }
+
+  return null
+}
+
+/**
+ * The next few occurrences, for previews
+ */
+export function upcomingOccurrences(
+  rule: RecurrenceRule,
+  options: { start: Date; after: Date; timeZone: string; runCount?: number },
+  limit: number
+): Date[] {
+  const occurrences: Date[] = []
+  let after = options.after
+  let runCount = options.runCount || 0
+
+  while (occurrences.length < limit) {
+    const next = nextOccurrence(rule, { ...options, after, runCount })
+    if (!next) break
+    occurrences.push(next)
+    after = next
+    runCount++
+  }
+
+  return occurrences
+}
+
+/**
+ * The day after `day`, or for monthly rules the first day of the next month the
+ * interval lands on
+ */
+function nextCandidateDay(rule: RecurrenceRule, day: number, startDay: number): number {
+  const next = new Date(day + DAY_MS)
+  if (rule.freq !== 'MONTHLY') return next.getTime()
+
+  const start = new Date(startDay)
+  const months = (next.getUTCFullYear() - start.getUTCFullYear()) * 12 + next.getUTCMonth() - start.getUTCMonth()
+  const skip = (rule.interval - months % rule.interval) % rule.interval
+  return skip === 0 ? next.getTime() : Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + skip, 1)
+}
+
+function matchesDay(rule: RecurrenceRule, date: Date, startDay: Date): boolean {
+  const weekday = WEEKDAY_CODES[(date.getUTCDay() + 6) % 7]
+  const dayOfMonth = date.getUTCDate()
+  const daysInMonth = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate()
+
+  const monthDayMatches = (day: number) => day > 0 ? dayOfMonth === day : dayOfMonth === daysInMonth + day + 1
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const days = Math.round((date.getTime() - startDay.getTime()) / DAY_MS)
+      return days % rule.interval === 0 &&
+        (!rule.byDay || rule.byDay.some(day => day.weekday === weekday)) &&
+        (!rule.byMonthDay || rule.byMonthDay.some(monthDayMatches))
+    }
+    case 'WEEKLY': {
+      const weekStart = (at: Date) => at.getTime() - ((at.getUTCDay() + 6) % 7) * DAY_MS
+      const weeks = Math.round((weekStart(date) - weekStart(startDay)) / (7 * DAY_MS))
+      const days = rule.byDay ? rule.byDay.map(day => day.weekday) : [WEEKDAY_CODES[(startDay.getUTCDay() + 6) % 7]]
+      return weeks % rule.interval === 0 && days.includes(weekday)
+    }
+    case 'MONTHLY': {
+      const months = (date.getUTCFullYear() - startDay.getUTCFullYear()) * 12 + date.getUTCMonth() - startDay.getUTCMonth()
+      if (months % rule.interval !== 0) return false
+
+      if (rule.byDay) {
+        return rule.byDay.some(day => {
+          if (day.weekday !== weekday) return false
+          if (day.ordinal === undefined) return true
+          return day.ordinal > 0
+            ? Math.ceil(dayOfMonth / 7) === day.ordinal
+            : Math.ceil((daysInMonth - dayOfMonth + 1) / 7) === -day.ordinal
+        }) && (!rule.byMonthDay || rule.byMonthDay.some(monthDayMatches))
+      }
+      if (rule.byMonthDay) {
+        return rule.byMonthDay.some(monthDayMatches)
+      }
+      return dayOfMonth === startDay.getUTCDate()
+    }
+  }
+}
+
+function isInteger(value: string): boolean {
+  return /^-?\d+$/.test(value)
+}
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value)
+}
@@ -0,0 +1,290 @@
+import { PrismaClient } from '@prisma/client'
+import { logger, DataSource } from './logger'
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  describeRecurrenceRule,
+  nextOccurrence,
+  upcomingOccurrences,
+  RecurrenceRule
+} from './recurrenceRule'
+import { CampaignRecurrenceInput } from './security/validation'
+
+const prisma = new PrismaClient()
+
+const EDITABLE_STATUSES = ['DRAFT', 'SCHEDULED']
+const UPCOMING_LIMIT = 5
+const RECENT_RUNS_LIMIT = 10
+
+export interface RecurrenceSchedule {
+  rule: string | null
+  description: string | null
+  timeZone: string | null
+  startAt: Date | null
+  nextRunAt: Date | null
+  runCount: number
+  upcoming: Date[]
+  recentRuns: Array<{ id: string; name: string; status: string; createdAt: Date }>
+}
+
+export type RecurringCampaignErrorCode = 'NOT_FOUND' | 'NOT_EDITABLE' | 'INVALID'
+
+/**
+ * A schedule change the service refused, as opposed to a database failure
+ */
+export class RecurringCampaignError extends Error {
+  constructor(message: string, readonly code: RecurringCampaignErrorCode) {
+    super(message)
+    this.name = 'RecurringCampaignError'
+  }
+}
+
+// HTTP status the API routes answer with for each refusal
+export const RECURRING_CAMPAIGN_ERROR_STATUS: Record<RecurringCampaignErrorCode, number> = {
+  NOT_FOUND: 404,
+  NOT_EDITABLE: 409,
+  INVALID: 400
+}
+
+/**
+ * Recurring campaigns. The campaign with the rule is a template that is never sent
+ * itself: at each occurrence the cron manager copies it, audience and settings included,
+ * and starts the copy, so every run has its own contacts, messages and analytics.
+ */
+export class RecurringCampaignService {
+  static async getSchedule(campaignId: string, now = new Date()): Promise<RecurrenceSchedule> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: {
+        recurrenceRule: true,
+        recurrenceTimeZone: true,
+        scheduledAt: true,
+        nextRunAt: true,
+        runCount: true
+      }
+    })
+    if (!campaign) {
+      throw new RecurringCampaignError('Campaign not found', 'NOT_FOUND')
+    }
+
+    const recentRuns = await prisma.campaign.findMany({
+      where: { recurringParentId: campaignId },
+      select: { id: true, name: true, status: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_RUNS_LIMIT
+    })
+
+    const rule = campaign.recurrenceRule ? parseRecurrenceRule(campaign.recurrenceRule).rule : undefined
+    const timeZone = campaign.recurrenceTimeZone || 'Asia/Kolkata'
+
+    return {
+      rule: campaign.recurrenceRule,
+      description: rule ? describeRecurrenceRule(rule) : null,
+      timeZone: campaign.recurrenceTimeZone,
+      startAt: campaign.scheduledAt,
+      nextRunAt: campaign.nextRunAt,
+      runCount: campaign.runCount,
+      upcoming: rule && campaign.nextRunAt
+        ? [campaign.nextRunAt, ...upcomingOccurrences(rule, {
+            start: campaign.scheduledAt || now,
+            after: campaign.nextRunAt,
+            timeZone,
+            runCount: campaign.runCount + 1
+          }, UPCOMING_LIMIT - 1)]
+        : [],
+      recentRuns
+    }
+  }
+
+  /**
+   * Set or replace a campaign's schedule. The campaign becomes SCHEDULED and its first
+   * run is the first occurrence from the start date on.
+   */
+  static async saveSchedule(campaignId: string, input: CampaignRecurrenceInput, now = new Date()): Promise<RecurrenceSchedule> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { status: true, recurringParentId: true }
+    })
+    if (!campaign) {
+      throw new RecurringCampaignError('Campaign not found', 'NOT_FOUND')
+    }
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new RecurringCampaignError('Only draft and scheduled campaigns can repeat', 'NOT_EDITABLE')
+    }
+    if (campaign.recurringParentId) {
+      throw new RecurringCampaignError('Runs of a recurring campaign cannot repeat themselves', 'NOT_EDITABLE')
+    }
+
+    const { rule, errors } = parseRecurrenceRule(input.rule)
+    if (!rule) {
+      throw new RecurringCampaignError(errors.join('; '), 'INVALID')
+    }
+
+    const start = input.startAt && input.startAt > now ? input.startAt : now
+    const nextRunAt = nextOccurrence(rule, {
+      start,
+      after: new Date(start.getTime() - 1),
+      timeZone: input.timeZone
+    })
+    if (!nextRunAt) {
+      throw new RecurringCampaignError('The schedule has no upcoming runs', 'INVALID')
+    }
+
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: {
+        recurrenceRule: formatRecurrenceRule(rule),
+        recurrenceTimeZone: input.timeZone,
+        scheduledAt: start,
+        nextRunAt,
+        runCount: 0,
+        status: 'SCHEDULED'
+      }
+    })
+
+    logger.info(DataSource.DATABASE, 'recurrence_save', `Campaign ${campaignId} repeats ${describeRecurrenceRule(rule)}, first run ${nextRunAt.toISOString()}`)
+    return this.getSchedule(campaignId, now)
+  }
+
+  /**
+   * Stop a campaign repeating. Runs already started are not affected.
+   */
+  static async removeSchedule(campaignId: string): Promise<RecurrenceSchedule> {
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      select: { status: true }
+    })
+    if (!campaign) {
+      throw new RecurringCampaignError('Campaign not found', 'NOT_FOUND')
+    }
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new RecurringCampaignError('Only draft and scheduled campaigns can be changed', 'NOT_EDITABLE')
+    }
+
+    await prisma.campaign.update({
+      where: { id: campaignId },
+      data: {
+        recurrenceRule: null,
+        recurrenceTimeZone: null,
+        scheduledAt: null,
+        nextRunAt: null,
+        status: 'DRAFT'
+      }
+    })
+
+    return this.getSchedule(campaignId)
+  }
+
+  /**
+   * Recurring campaigns with a run due
+   */
+  static async findDue(now = new Date()): Promise<string[]> {
+    const campaigns = await prisma.campaign.findMany({
+      where: {
+        status: 'SCHEDULED',
+        recurrenceRule: { not: null },
+        nextRunAt: { lte: now }
+      },
+      select: { id: true }
+    })
+    return campaigns.map(campaign => campaign.id)
+  }
+
+  /**
+   * Copy a recurring campaign into a draft run and move the schedule on to the next
+   * occurrence, or complete it after the last one. Returns the run's id, or null when
+   * another worker already took this occurrence.
+   */
+  static async createRun(campaignId: string, now = new Date()): Promise<string | null> {
+    const parent = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+      include: { variants: true, steps: true, contacts: { select: { contactId: true } }, sendWindow: true }
+    })
+    if (!parent || !parent.recurrenceRule || !parent.nextRunAt) return null
+
+    const rule = parseRecurrenceRule(parent.recurrenceRule).rule as RecurrenceRule
+    const timeZone = parent.recurrenceTimeZone || 'Asia/Kolkata'
+    const runCount = parent.runCount + 1
+    // Skip occurrences missed while the server was down instead of sending them all at once
+    const nextRunAt = nextOccurrence(rule, {
+      start: parent.scheduledAt || parent.nextRunAt,
+      after: now > parent.nextRunAt ? now : parent.nextRunAt,
+      timeZone,
+      runCount
+    })
+
+    // Claiming the occurrence by its old nextRunAt keeps two workers from both running it
+    const { count } = await prisma.campaign.updateMany({
+      where: { id: campaignId, status: 'SCHEDULED', nextRunAt: parent.nextRunAt },
+      data: {
+        runCount,
+        nextRunAt,
+        status: nextRunAt ? 'SCHEDULED' : 'COMPLETED'
+      }
+    })
+    if (count === 0) return null
+
+    const runDate = parent.nextRunAt.toLocaleDateString('en-IN', { timeZone, day: 'numeric', month: 'short', year: 'numeric' })
+    const run = await prisma.campaign.create({
+      data: {
+        name: `${parent.name} (${runDate})`,
+        type: parent.type,
+        kind: parent.kind,
+        message: parent.message,
+        templateName: parent.templateName,
+        parameters: parent.parameters,
+        mediaUrl: parent.mediaUrl,
+        mediaType: parent.mediaType,
+        provider: parent.provider,
+        segmentId: parent.segmentId,
+        abTestMode: parent.abTestMode,
+        abTestPercent: parent.abTestPercent,
+        abTestWindowHours: parent.abTestWindowHours,
+        recurringParentId: parent.id,
+        createdById: parent.createdById,
+        variants: {
+          create: parent.variants.map(variant => ({
+            name: variant.name,
+            message: variant.message,
+            templateName: variant.templateName,
+            parameters: variant.parameters,
+            mediaUrl: variant.mediaUrl,
+            mediaType: variant.mediaType,
+            weight: variant.weight
+          }))
+        },
+        steps: {
+          create: parent.steps.map(step => ({
+            position: step.position,
+            delayMinutes: step.delayMinutes,
+            message: step.message,
+            templateName: step.templateName,
+            parameters: step.parameters,
+            mediaUrl: step.mediaUrl,
+            mediaType: step.mediaType,
+            exitOn: step.exitOn
+          }))
+        },
+        // Segment campaigns resolve their audience when the run starts
+        contacts: parent.segmentId ? undefined : {
+          create: parent.contacts.map(contact => ({ contactId: contact.contactId }))
+        },
+        sendWindow: parent.sendWindow ? {
+          create: {
+            startTime: parent.sendWindow.startTime,
+            endTime: parent.sendWindow.endTime,
+            days: parent.sendWindow.days,
+            timeZone: parent.sendWindow.timeZone,
+            isEnabled: parent.sendWindow.isEnabled,
+            updatedBy: parent.sendWindow.updatedBy
+          }
+        } : undefined
+      }
+    })
+
+    logger.info(DataSource.DATABASE, 'recurrence_run', `Created run ${runCount} of recurring campaign ${campaignId}: ${run.id}`)
+    return run.id
+  }
+}
+
+export default RecurringCampaignService
@@ -202,6 +202,16 @@ export const ENCRYPTION_CONFIG = {
   },
 } as const
 
+// One-time password configuration
+export const OTP_CONFIG = {
+  length: 6,
+  expiryMs: 10 * 60 * 1000, // 10 minutes
+  maxAttempts: 5, // Wrong guesses before the code is burned
+  resendCooldownMs: 60 * 1000, // 1 minute between sends
+  maxSendsPerHour: 5,
+  templateName: 'OTP_VERIFICATION',
+} as const
+
 // Audit and logging configuration
 export const AUDIT_CONFIG = {
   logLevel: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
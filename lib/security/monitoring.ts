@@ -1,5 +1,4 @@
 import { auditLogger, AuditEventType, AuditSeverity } from './auditLogger'
-import { ExternalAPIRateLimiter } from './rateLimiter'
 
 /**
  * System monitoring and health tracking
@@ -222,19 +221,26 @@ class SystemMonitor {
    */
   private async checkSMSFreshHealth(startTime: number): Promise<HealthCheck> {
     try {
-      // Check if we can make API calls (rate limit check)
-      const rateLimiter = ExternalAPIRateLimiter.getInstance()
-      const canMakeCall = await rateLimiter.checkLimit('smsFresh', 30, 60000)
+      // Degraded while the send throttle is backing off after provider errors or a sender is at its daily cap.
+      // Loaded here because the logger imports this module and the throttle imports the logger.
+      const { SendThrottle } = await import('../sendThrottle')
+      const senders = (await SendThrottle.getMetrics()).filter(metrics => metrics.provider === 'smsfresh')
+      const backingOff = senders.some(metrics => metrics.backoffFactor < 1)
+      const atDailyCap = senders.some(metrics => metrics.limit.dailyCap !== null && metrics.sentToday >= metrics.limit.dailyCap)
+      const rateLimitOk = !backingOff && !atDailyCap
       
       const responseTime = Date.now() - startTime
       
       return {
         service: 'smsFreshAPI',
-        status: canMakeCall ? 'healthy' : 'degraded',
+        status: rateLimitOk ? 'healthy' : 'degraded',
         responseTime,
         lastChecked: new Date(),
         metadata: { 
-          rateLimitOk: canMakeCall,
+          rateLimitOk,
+          backingOff,
+          atDailyCap,
+          throughput: senders.reduce((total, metrics) => total + metrics.throughput, 0),
           errorRate: this.getAPIErrorRate('smsFresh')
         }
       }
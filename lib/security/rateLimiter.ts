@@ -221,59 +221,6 @@ export const messagingRateLimiter = createRateLimiter({
   blockDurationMs: 5 * 60 * 1000, // Block for 5 minutes
 })
 
-/**
- * Rate limiter for external API calls (SMSFresh)
- */
-export class ExternalAPIRateLimiter {
-  private static instance: ExternalAPIRateLimiter
-  private apiCallCounts = new Map<string, { count: number; resetTime: number }>()
-  
-  static getInstance(): ExternalAPIRateLimiter {
-    if (!ExternalAPIRateLimiter.instance) {
-      ExternalAPIRateLimiter.instance = new ExternalAPIRateLimiter()
-    }
-    return ExternalAPIRateLimiter.instance
-  }
-  
-  async checkLimit(apiName: string, maxCalls: number, windowMs: number): Promise<boolean> {
-    const now = Date.now()
-    const key = `external:${apiName}`
-    
-    let entry = this.apiCallCounts.get(key)
-    
-    if (!entry) {
-      entry = { count: 0, resetTime: now + windowMs }
-      this.apiCallCounts.set(key, entry)
-    }
-    
-    // Reset if window expired
-    if (entry.resetTime < now) {
-      entry.count = 0
-      entry.resetTime = now + windowMs
-    }
-    
-    // Check if limit exceeded
-    if (entry.count >= maxCalls) {
-      return false
-    }
-    
-    entry.count++
-    return true
-  }
-  
-  async waitForAvailability(apiName: string, maxCalls: number, windowMs: number): Promise<void> {
-    const key = `external:${apiName}`
-    const entry = this.apiCallCounts.get(key)
-    
-    if (entry && entry.count >= maxCalls) {
-      const waitTime = entry.resetTime - Date.now()
-      if (waitTime > 0) {
-        await new Promise(resolve => setTimeout(resolve, waitTime))
-      }
-    }
-  }
-}
-
 /**
  * Utility function to get rate limit status
  */
@@ -1,4 +1,8 @@
 import { z } from 'zod'
+import { SUPPORTED_LANGUAGES, isSupportedLanguage } from '../messageTemplates'
+import { validateTemplateSyntax } from '../templateEngine'
+import { SegmentRuleGroup, validateSegmentRules } from '../segmentRules'
+import { parseRecurrenceRule } from '../recurrenceRule'
 
 /**
  * Input validation and sanitization utilities
@@ -8,6 +12,9 @@ import { z } from 'zod'
 export const phoneNumberSchema = z.string()
   .regex(/^[6-9]\d{9}$/, 'Phone number must be a valid 10-digit Indian mobile number')
 
+export const languageSchema = z.string()
+  .refine(isSupportedLanguage, `Language must be one of ${SUPPORTED_LANGUAGES.map(l => l.code).join(', ')}`)
+
 export const emailSchema = z.string()
   .email('Invalid email format')
   .max(254, 'Email too long')
@@ -35,6 +42,7 @@ export const campaignSchema = z.object({
   parameters: z.array(z.string()).optional(),
   mediaUrl: z.string().url('Invalid media URL').optional(),
   mediaType: z.enum(['image', 'video', 'document']).optional(),
+  provider: z.string().max(50).optional(),
   targetContacts: z.array(idSchema).min(1, 'At least one contact required'),
   scheduledAt: z.string().datetime().optional(),
 })
@@ -46,6 +54,7 @@ export const contactSchema = z.object({
   email: emailSchema.optional(),
   tags: z.array(z.string().max(50)).max(10, 'Too many tags').optional(),
   source: z.string().max(100, 'Source too long').optional(),
+  preferredLanguage: languageSchema.optional(),
 })
 
 // Message validation schemas
@@ -69,6 +78,331 @@ export const leadSchema = z.object({
   notes: z.string().max(1000, 'Notes too long').optional(),
 })
 
+// Loan application validation schemas (one per /apply wizard step)
+const emptyToUndefined = (value: unknown) =>
+  typeof value === 'string' && value.trim() === '' ? undefined : value
+
+export const loanApplicationPersonalSchema = z.object({
+  firstName: nameSchema,
+  lastName: nameSchema,
+  email: emailSchema,
+  phone: z.preprocess(
+    value => typeof value === 'string' ? value.replace(/\D/g, '').replace(/^91(?=\d{10}$)/, '') : value,
+    phoneNumberSchema
+  ),
+  dateOfBirth: z.string().refine(value => !isNaN(new Date(value).getTime()), 'Invalid date of birth'),
+  gender: z.enum(['male', 'female', 'other']),
+  maritalStatus: z.preprocess(emptyToUndefined, z.string().max(50, 'Marital status too long').optional()),
+  address: z.string().min(1, 'Address is required').max(500, 'Address too long'),
+  city: z.string().min(1, 'City is required').max(100, 'City too long'),
+  state: z.string().min(1, 'State is required').max(100, 'State too long'),
+  pincode: z.preprocess(emptyToUndefined, z.string().regex(/^\d{6}$/, 'Pincode must be 6 digits').optional()),
+})
+
+export const loanApplicationLoanSchema = z.object({
+  loanType: z.string()
+    .transform(value => value.toUpperCase())
+    .pipe(leadSchema.shape.loanType),
+  loanAmount: z.coerce.number().min(1000, 'Minimum loan amount is ₹1,000').max(10000000, 'Maximum loan amount is ₹1 crore'),
+  tenure: z.coerce.number().int('Tenure must be a whole number of years').min(1, 'Minimum tenure is 1 year').max(30, 'Maximum tenure is 30 years'),
+  purpose: z.string().min(1, 'Purpose of loan is required').max(1000, 'Purpose too long'),
+})
+
+export const loanApplicationEmploymentSchema = z.object({
+  employmentType: z.enum(['salaried', 'self-employed', 'business', 'professional']),
+  companyName: z.string().min(1, 'Company name is required').max(200, 'Company name too long'),
+  designation: z.preprocess(emptyToUndefined, z.string().max(100, 'Designation too long').optional()),
+  workExperience: z.coerce.number().min(0, 'Work experience cannot be negative').max(60, 'Work experience too high'),
+  monthlyIncome: z.coerce.number().positive('Monthly income must be positive').max(100000000, 'Monthly income too high'),
+})
+
+export const loanApplicationSchema = z.object({
+  ...loanApplicationPersonalSchema.shape,
+  ...loanApplicationLoanSchema.shape,
+  ...loanApplicationEmploymentSchema.shape,
+  marketingConsent: z.boolean().default(false),
+})
+
+export type LoanApplicationInput = z.infer<typeof loanApplicationSchema>
+
+// Lead assignment rule validation schemas
+export const ASSIGNMENT_STRATEGIES = ['ROUND_ROBIN', 'WORKLOAD_BASED', 'SKILL_BASED', 'MANUAL'] as const
+
+const WEEK_DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:MM format')
+
+export const assignmentRuleConditionsSchema = z.object({
+  loanType: z.array(leadSchema.shape.loanType).optional(),
+  loanAmountMin: z.number().min(0, 'Minimum amount cannot be negative').optional(),
+  loanAmountMax: z.number().min(0, 'Maximum amount cannot be negative').optional(),
+  leadSource: z.array(z.string().min(1).max(100, 'Source too long')).optional(),
+  leadPriority: z.array(z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT'])).optional(),
+  timeOfDay: z.object({ start: timeOfDaySchema, end: timeOfDaySchema }).optional(),
+  dayOfWeek: z.array(z.enum(WEEK_DAYS)).optional(),
+}).refine(
+  conditions => conditions.loanAmountMin === undefined ||
+    conditions.loanAmountMax === undefined ||
+    conditions.loanAmountMin <= conditions.loanAmountMax,
+  'Minimum loan amount cannot exceed maximum'
+)
+
+export const assignmentRuleSchema = z.object({
+  name: z.string().min(1, 'Rule name required').max(100, 'Name too long'),
+  priority: z.number().int('Priority must be a whole number').min(1, 'Priority must be at least 1').max(1000, 'Priority must be at most 1000'),
+  conditions: assignmentRuleConditionsSchema,
+  assignmentStrategy: z.enum(ASSIGNMENT_STRATEGIES),
+  targetUsers: z.array(z.string().min(1)).max(100, 'Too many target users').optional(),
+  isActive: z.boolean().optional(),
+})
+
+export const employeeSkillsSchema = z.object({
+  userId: z.string().min(1, 'User is required'),
+  skills: z.array(z.string().regex(/^[A-Z_]{2,50}$/, 'Skills must be uppercase codes like PERSONAL or HIGH_VALUE')).max(20, 'Too many skills'),
+})
+
+export type AssignmentRuleInput = z.infer<typeof assignmentRuleSchema>
+
+// Lead escalation rule validation schemas
+export const ESCALATION_ACTION_TYPES = ['REASSIGN', 'NOTIFY_MANAGER', 'INCREASE_PRIORITY', 'ADD_TO_CAMPAIGN'] as const
+
+export const escalationRuleSchema = z.object({
+  name: z.string().min(1, 'Rule name required').max(100, 'Name too long'),
+  priority: z.number().int('Priority must be a whole number').min(1, 'Priority must be at least 1').max(1000, 'Priority must be at most 1000'),
+  conditions: z.object({
+    noResponseHours: z.number().positive('No-response window must be positive').max(24 * 90, 'No-response window too long').optional(),
+    leadAge: z.number().positive('Lead age must be positive').max(24 * 365, 'Lead age too long').optional(),
+    priority: z.array(z.enum(['LOW', 'MEDIUM', 'HIGH', 'URGENT'])).optional(),
+    status: z.array(leadSchema.shape.status.unwrap()).optional(),
+  }),
+  actions: z.array(z.object({
+    type: z.enum(ESCALATION_ACTION_TYPES),
+    targetUserId: z.string().min(1).optional(),
+    notificationMessage: z.string().max(500, 'Notification message too long').optional(),
+    campaignId: z.string().min(1).optional(),
+  }).refine(
+    action => action.type !== 'REASSIGN' || !!action.targetUserId,
+    'Reassign actions need a target user'
+  )).min(1, 'At least one action required').max(10, 'Too many actions'),
+  isActive: z.boolean().optional(),
+})
+
+export const escalationUpdateSchema = z.object({
+  status: z.enum(['ACKNOWLEDGED', 'RESOLVED']),
+  resolution: z.string().max(1000, 'Resolution too long').optional(),
+}).refine(
+  update => update.status !== 'RESOLVED' || !!update.resolution?.trim(),
+  'A resolution note is required to close an escalation'
+)
+
+export type EscalationRuleInput = z.infer<typeof escalationRuleSchema>
+
+// Employee availability validation schemas
+export const availabilitySchema = z.object({
+  maxCapacity: z.number().int('Capacity must be a whole number').min(1, 'Capacity must be at least 1').max(500, 'Capacity must be at most 500').optional(),
+  workingHours: z.object({ start: timeOfDaySchema, end: timeOfDaySchema }).optional(),
+  workingDays: z.array(z.enum(WEEK_DAYS)).min(1, 'At least one working day required').optional(),
+  timeZone: z.string().min(1).max(64).refine(isValidTimeZone, 'Unknown time zone').optional(),
+})
+
+export const outOfOfficeSchema = z.object({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+  reason: z.string().max(200, 'Reason too long').optional(),
+}).refine(range => range.endDate > range.startDate, 'End date must be after start date')
+
+export type AvailabilityInput = z.infer<typeof availabilitySchema>
+export type OutOfOfficeInput = z.infer<typeof outOfOfficeSchema>
+
+// Suppression list validation schemas
+export const SUPPRESSION_CHANNELS = ['ALL', 'SMS', 'WHATSAPP'] as const
+export const SUPPRESSION_REASONS = ['OPT_OUT', 'COMPLAINT', 'DO_NOT_CONTACT', 'INVALID_NUMBER', 'OTHER'] as const
+
+export const suppressionSchema = z.object({
+  phone: z.preprocess(
+    value => typeof value === 'string' ? value.replace(/\D/g, '').replace(/^91(?=\d{10}$)/, '') : value,
+    phoneNumberSchema
+  ),
+  channel: z.enum(SUPPRESSION_CHANNELS).default('ALL'),
+  reason: z.enum(SUPPRESSION_REASONS).default('DO_NOT_CONTACT'),
+  note: z.string().max(500, 'Note too long').optional(),
+})
+
+export type SuppressionInput = z.infer<typeof suppressionSchema>
+
+// Consent ledger validation schemas
+export const CONSENT_CHANNELS = ['ALL', 'SMS', 'WHATSAPP'] as const
+export const CONSENT_PURPOSES = ['MARKETING', 'TRANSACTIONAL'] as const
+export const CONSENT_SOURCES = ['APPLY_FORM', 'IMPORT', 'WHATSAPP_OPT_IN', 'INBOUND_KEYWORD', 'ADMIN'] as const
+
+// Wording shown next to the marketing consent checkbox on /apply, stored as evidence
+export const MARKETING_CONSENT_TEXT =
+  'I agree to receive offers and promotional messages about loan products from LoanStreet by SMS and WhatsApp, even if my number is registered under DND. I can withdraw this consent at any time by replying STOP.'
+
+export const consentSchema = z.object({
+  channel: z.enum(CONSENT_CHANNELS).default('ALL'),
+  purpose: z.enum(CONSENT_PURPOSES),
+  status: z.enum(['GRANTED', 'REVOKED']).default('GRANTED'),
+  source: z.enum(CONSENT_SOURCES).default('ADMIN'),
+  evidence: z.string().min(1, 'Evidence is required').max(2000, 'Evidence too long'),
+  expiresAt: z.coerce.date().optional(),
+})
+
+export type ConsentInput = z.infer<typeof consentSchema>
+
+// Send window validation schema. Windows that end before they start run past midnight.
+export const sendWindowSchema = z.object({
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+  days: z.array(z.enum(WEEK_DAYS)).min(1, 'At least one sending day required'),
+  timeZone: z.string().min(1).max(64).refine(isValidTimeZone, 'Unknown time zone'),
+  isEnabled: z.boolean().default(true),
+}).refine(window => window.startTime !== window.endTime, 'Start and end time must differ')
+
+export type SendWindowInput = z.infer<typeof sendWindowSchema>
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Outbound throughput limit for a messaging provider, optionally for one sender ID
+export const sendRateLimitSchema = z.object({
+  provider: z.string().min(1).max(50),
+  senderId: z.string().min(1).max(100).default('*'),
+  messagesPerSecond: z.number().positive('Rate must be above zero').max(1000, 'Rate too high'),
+  burst: z.number().int().min(1, 'Burst must be at least 1').max(1000, 'Burst too high'),
+  dailyCap: z.number().int().min(1, 'Daily cap must be at least 1').nullable().default(null),
+  isEnabled: z.boolean().default(true),
+})
+
+export type SendRateLimitInput = z.infer<typeof sendRateLimitSchema>
+
+// Requeue or discard dead letters in the message outbox
+export const outboxActionSchema = z.object({
+  action: z.enum(['requeue', 'discard']),
+  ids: z.array(z.string().min(1)).min(1, 'Select at least one message').max(500, 'Too many messages at once'),
+})
+
+// Message template registry validation schemas
+export const TEMPLATE_CATEGORIES = ['MARKETING', 'TRANSACTIONAL', 'OTP', 'NOTIFICATION'] as const
+export const TEMPLATE_STATUSES = ['DRAFT', 'PENDING', 'APPROVED', 'REJECTED'] as const
+
+const templateParameterSchema = z.object({
+  name: z.string().regex(/^[A-Za-z][A-Za-z0-9_]*$/, 'Parameter names must be letters, digits or underscores'),
+  description: z.string().max(200).optional(),
+  example: z.string().max(200).optional(),
+  required: z.boolean().default(true),
+})
+
+export const messageTemplateSchema = z.object({
+  key: z.string().regex(/^[a-z][a-z0-9_]{1,63}$/, 'Key must be lowercase letters, digits or underscores'),
+  name: z.string().min(1, 'Template name required').max(100, 'Name too long'),
+  type: z.enum(['SMS', 'WHATSAPP']),
+  category: z.enum(TEMPLATE_CATEGORIES),
+  language: languageSchema.default('en'),
+  body: z.string().min(1, 'Template body required').max(1024, 'Template body too long')
+    .superRefine((body, ctx) => {
+      const syntax = validateTemplateSyntax(body)
+      if (!syntax.valid) ctx.addIssue({ code: 'custom', message: syntax.error })
+    }),
+  parameters: z.array(templateParameterSchema).max(20, 'Too many parameters').default([]),
+  description: z.string().max(500).optional(),
+  mediaSupported: z.boolean().default(false),
+  mediaType: z.enum(['image', 'video', 'document']).optional(),
+  mediaUrl: z.string().url('Invalid media URL').optional(),
+  providerTemplateName: z.string().max(512).optional(),
+})
+
+export type MessageTemplateInput = z.infer<typeof messageTemplateSchema>
+
+// Saved audience segments
+const segmentRulesSchema = z.custom<SegmentRuleGroup>()
+  .superRefine((rules, ctx) => {
+    for (const message of validateSegmentRules(rules)) {
+      ctx.addIssue({ code: 'custom', message })
+    }
+  })
+
+export const segmentSchema = z.object({
+  name: z.string().trim().min(1, 'Segment name required').max(100, 'Segment name too long'),
+  description: z.string().max(500).optional(),
+  rules: segmentRulesSchema,
+})
+
+export type SegmentInput = z.infer<typeof segmentSchema>
+
+export const segmentPreviewSchema = z.object({
+  segmentId: z.string().optional(),
+  rules: segmentRulesSchema.optional(),
+  sampleSize: z.number().int().min(0).max(50).default(10),
+}).superRefine((data, ctx) => {
+  if (!data.segmentId && !data.rules) {
+    ctx.addIssue({ code: 'custom', message: 'Provide a segment or rules to preview' })
+  }
+})
+
+// A/B test of a campaign's message. Saving no variants turns the test off.
+export const campaignVariantsSchema = z.object({
+  mode: z.enum(['SPLIT', 'WINNER']),
+  testPercent: z.number().int().min(1, 'Test share must be at least 1%').max(90, 'Test share must leave some contacts for the winner').optional(),
+  windowHours: z.number().int().min(1, 'Test window must be at least an hour').max(168, 'Test window must be a week or less').optional(),
+  variants: z.array(z.object({
+    name: z.string().trim().min(1, 'Variant name required').max(50, 'Variant name too long'),
+    message: z.string().min(1, 'Message required').max(1000, 'Message too long'),
+    templateName: z.string().optional(),
+    parameters: z.record(z.string(), z.string()).optional(),
+    mediaUrl: z.string().url('Invalid media URL').optional(),
+    mediaType: z.enum(['image', 'video', 'document']).optional(),
+    weight: z.number().int().min(1, 'Weight must be at least 1').max(100, 'Weight must be 100 or less'),
+  })).max(5, 'At most 5 variants'),
+}).superRefine((data, ctx) => {
+  if (data.variants.length === 1) {
+    ctx.addIssue({ code: 'custom', message: 'An A/B test needs at least two variants' })
+  }
+  const names = data.variants.map(variant => variant.name.toLowerCase())
+  if (new Set(names).size !== names.length) {
+    ctx.addIssue({ code: 'custom', message: 'Variant names must be unique' })
+  }
+  if (data.mode === 'WINNER' && (!data.testPercent || !data.windowHours)) {
+    ctx.addIssue({ code: 'custom', message: 'Winner tests need a test share and a test window' })
+  }
+})
+
+export type CampaignVariantsInput = z.infer<typeof campaignVariantsSchema>
+
+// Steps of a sequence campaign. Saving none makes it a one-off campaign again.
+export const campaignStepsSchema = z.object({
+  steps: z.array(z.object({
+    delayMinutes: z.number().int().min(0, 'Delay cannot be negative').max(90 * 24 * 60, 'Delay must be 90 days or less'),
+    message: z.string().min(1, 'Message required').max(1000, 'Message too long'),
+    templateName: z.string().optional(),
+    parameters: z.record(z.string(), z.string()).optional(),
+    mediaUrl: z.string().url('Invalid media URL').optional(),
+    mediaType: z.enum(['image', 'video', 'document']).optional(),
+    exitOn: z.array(z.enum(['REPLIED', 'CONVERTED', 'OPTED_OUT'])).default([]),
+  })).max(10, 'At most 10 steps'),
+})
+
+export type CampaignStepsInput = z.infer<typeof campaignStepsSchema>
+
+// RRULE-style repeat schedule of a campaign
+export const campaignRecurrenceSchema = z.object({
+  rule: z.string().trim().min(1, 'Recurrence rule required').max(200, 'Recurrence rule too long'),
+  timeZone: z.string().min(1).max(64).refine(isValidTimeZone, 'Unknown time zone').default('Asia/Kolkata'),
+  startAt: z.coerce.date().optional(),
+}).superRefine((data, ctx) => {
+  for (const message of parseRecurrenceRule(data.rule).errors) {
+    ctx.addIssue({ code: 'custom', message })
+  }
+})
+
+export type CampaignRecurrenceInput = z.infer<typeof campaignRecurrenceSchema>
+
 // User validation schemas
 export const userSchema = z.object({
   email: emailSchema,
@@ -294,7 +628,7 @@ export function validateInput<T>(schema: z.ZodSchema<T>, data: unknown): {
     } else {
       return {
         success: false,
-        errors: result.error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+        errors: result.error.issues.map(err => `${err.path.join('.')}: ${err.message}`)
       }
     }
   } catch (error) {
@@ -0,0 +1,240 @@
+/**
+ * Segment Rules
+ * The rule tree a saved segment is defined by, and the fields and operators it may use.
+ * Shared by the segment editor and the server, so it must not import server-only modules.
+ *
+ *   { combinator: 'AND', rules: [
+ *     { field: 'loanType', operator: 'in', value: ['HOME', 'BUSINESS'] },
+ *     { field: 'leadScore', operator: 'gte', value: 60 },
+ *     { combinator: 'OR', rules: [
+ *       { field: 'lastContact', operator: 'older_than_days', value: 30 },
+ *       { field: 'replied', operator: 'within_days', value: 7 }
+ *     ] }
+ *   ] }
+ *
+ * Lead fields match when any of the contact's leads matches. An empty group matches
+ * every active contact.
+ */
+
+export type SegmentField =
+  | 'tags'
+  | 'lastContact'
+  | 'createdAt'
+  | 'language'
+  | 'phoneVerified'
+  | 'hasLead'
+  | 'leadStatus'
+  | 'loanType'
+  | 'loanAmount'
+  | 'leadScore'
+  | 'replied'
+
+export type SegmentOperator =
+  | 'includes_any'
+  | 'includes_all'
+  | 'excludes'
+  | 'in'
+  | 'not_in'
+  | 'gte'
+  | 'lte'
+  | 'older_than_days'
+  | 'within_days'
+  | 'never'
+  | 'ever'
+  | 'is'
+
+export type SegmentValueType = 'list' | 'number' | 'days' | 'boolean' | 'none'
+
+export interface SegmentCondition {
+  field: SegmentField
+  operator: SegmentOperator
+  value?: string[] | number | boolean
+}
+
+export interface SegmentRuleGroup {
+  combinator: 'AND' | 'OR'
+  rules: SegmentRule[]
+}
+
+export type SegmentRule = SegmentCondition | SegmentRuleGroup
+
+export interface SegmentFieldDefinition {
+  label: string
+  operators: SegmentOperator[]
+  // Values offered for list fields; tags take any value
+  options?: string[]
+}
+
+export const SEGMENT_FIELDS: Record<SegmentField, SegmentFieldDefinition> = {
+  tags: { label: 'Tags', operators: ['includes_any', 'includes_all', 'excludes'] },
+  // older_than_days includes contacts that were never contacted
+  lastContact: { label: 'Last contacted', operators: ['older_than_days', 'within_days', 'never'] },
+  createdAt: { label: 'Added', operators: ['older_than_days', 'within_days'] },
+  language: { label: 'Preferred language', operators: ['in', 'not_in'], options: ['en', 'hi', 'mr', 'ta', 'te'] },
+  phoneVerified: { label: 'Phone verified', operators: ['is'] },
+  hasLead: { label: 'Has a lead', operators: ['is'] },
+  leadStatus: {
+    label: 'Lead status',
+    operators: ['in', 'not_in'],
+    options: ['NEW', 'CONTACTED', 'INTERESTED', 'QUALIFIED', 'PROPOSAL_SENT', 'NEGOTIATION', 'CLOSED_WON', 'CLOSED_LOST']
+  },
+  loanType: {
+    label: 'Loan type',
+    operators: ['in', 'not_in'],
+    options: ['PERSONAL', 'BUSINESS', 'HOME', 'VEHICLE', 'EDUCATION', 'GOLD']
+  },
+  loanAmount: { label: 'Loan amount', operators: ['gte', 'lte'] },
+  leadScore: { label: 'Lead score', operators: ['gte', 'lte'] },
+  // Inbound messages from the contact
+  replied: { label: 'Replied', operators: ['within_days', 'older_than_days', 'ever', 'never'] }
+}
+
+export const SEGMENT_OPERATOR_LABELS: Record<SegmentOperator, string> = {
+  includes_any: 'include any of',
+  includes_all: 'include all of',
+  excludes: 'include none of',
+  in: 'is one of',
+  not_in: 'is not one of',
+  gte: 'at least',
+  lte: 'at most',
+  older_than_days: 'more than',
+  within_days: 'in the last',
+  never: 'never',
+  ever: 'ever',
+  is: 'is'
+}
+
+// Deepest nesting allowed for groups; the top-level group is depth 0
+export const SEGMENT_MAX_DEPTH = 3
+const MAX_CONDITIONS = 50
+
+export function getOperatorValueType(operator: SegmentOperator): SegmentValueType {
+  switch (operator) {
+    case 'includes_any':
+    case 'includes_all':
+    case 'excludes':
+    case 'in':
+    case 'not_in':
+      return 'list'
+    case 'gte':
+    case 'lte':
+      return 'number'
+    case 'older_than_days':
+    case 'within_days':
+      return 'days'
+    case 'is':
+      return 'boolean'
+    default:
+      return 'none'
+  }
+}
+
+export function isRuleGroup(rule: SegmentRule): rule is SegmentRuleGroup {
+  return (rule as SegmentRuleGroup).rules !== undefined
+}
+
+/**
+ * Check a rule tree posted by the editor. Returns the problems found, empty when it is valid.
+ */
+export function validateSegmentRules(rules: unknown): string[] {
+  if (!rules || typeof rules !== 'object' || (rules as SegmentRuleGroup).rules === undefined) {
+    return ['Rules must start with a group']
+  }
+
+  const errors: string[] = []
+  let conditions = 0
+
+  const visit = (rule: any, depth: number, path: string) => {
+    if (!rule || typeof rule !== 'object') {
+      errors.push(`${path} must be a rule or a group`)
+      return
+    }
+
+    if (rule.rules !== undefined) {
+      if (depth >= SEGMENT_MAX_DEPTH) {
+        errors.push(`Groups can be nested at most ${SEGMENT_MAX_DEPTH} deep`)
+        return
+      }
+      if (rule.combinator !== 'AND' && rule.combinator !== 'OR') {
+        errors.push(`${path} must combine its rules with AND or OR`)
+      }
+      if (!Array.isArray(rule.rules)) {
+        errors.push(`${path} rules must be a list`)
+        return
+      }
+      rule.rules.forEach((child: unknown, index: number) => visit(child, depth + 1, `${path}.${index + 1}`))
+      return
+    }
+
+    conditions++
+    const definition = SEGMENT_FIELDS[rule.field as SegmentField]
+    if (!definition) {
+      errors.push(`${path}: unknown field '${rule.field}'`)
+      return
+    }
+    if (!definition.operators.includes(rule.operator)) {
+      errors.push(`${path}: ${definition.label} does not support '${rule.operator}'`)
+      return
+    }
+
+    const value = rule.value
+    switch (getOperatorValueType(rule.operator)) {
+      case 'list':
+        if (!Array.isArray(value) || value.length === 0 || value.some(item => typeof item !== 'string' || !item.trim())) {
+          errors.push(`${path}: ${definition.label} needs at least one value`)
+        }
+        break
+      case 'number':
+        if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+          errors.push(`${path}: ${definition.label} needs a number`)
+        }
+        break
+      case 'days':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 3650) {
+          errors.push(`${path}: ${definition.label} needs a number of days between 1 and 3650`)
+        }
+        break
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          errors.push(`${path}: ${definition.label} needs yes or no`)
+        }
+        break
+    }
+  }
+
+  visit(rules, 0, 'Rules')
+
+  if (conditions > MAX_CONDITIONS) {
+    errors.push(`A segment can have at most ${MAX_CONDITIONS} conditions`)
+  }
+
+  return errors
+}
+
+/**
+ * One-line description of a rule tree for lists and confirmations
+ */
+export function describeSegmentRules(group: SegmentRuleGroup): string {
+  if (group.rules.length === 0) return 'All active contacts'
+
+  const parts = group.rules.map(rule => {
+    if (isRuleGroup(rule)) return `(${describeSegmentRules(rule)})`
+
+    const definition = SEGMENT_FIELDS[rule.field]
+    const operator = SEGMENT_OPERATOR_LABELS[rule.operator]
+    switch (getOperatorValueType(rule.operator)) {
+      case 'list':
+        return `${definition.label} ${operator} ${(rule.value as string[]).join(', ')}`
+      case 'days':
+        return `${definition.label} ${operator} ${rule.value} ${rule.operator === 'older_than_days' ? 'days ago' : 'days'}`
+      case 'boolean':
+        return `${definition.label} ${rule.value ? 'yes' : 'no'}`
+      case 'none':
+        return `${definition.label} ${operator}`
+      default:
+        return `${definition.label} ${operator} ${rule.value}`
+    }
+  })
+
+  return parts.join(group.combinator === 'AND' ? ' and ' : ' or ')
+}
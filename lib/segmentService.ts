@@ -0,0 +1,394 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import { logger, DataSource } from './logger'
+import { DEFAULT_LANGUAGE } from './messageTemplates'
+import { SegmentInput } from './security/validation'
+import { SegmentCondition, SegmentRuleGroup, isRuleGroup } from './segmentRules'
+
+const prisma = new PrismaClient()
+
+const DAY_MS = 24 * 60 * 60 * 1000
+// SQLite limits the number of bound variables per statement
+const INSERT_CHUNK = 500
+
+export interface Segment {
+  id: string
+  name: string
+  description?: string
+  rules: SegmentRuleGroup
+  systemKey?: string
+  campaignCount: number
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface SegmentPreview {
+  count: number
+  sample: Array<{
+    id: string
+    name?: string
+    phone: string
+    tags: string[]
+    lastContact?: Date
+  }>
+}
+
+export type SegmentErrorCode = 'NOT_FOUND' | 'SYSTEM_SEGMENT' | 'IN_USE'
+
+/**
+ * A segment operation the service refused, as opposed to a database failure
+ */
+export class SegmentError extends Error {
+  constructor(message: string, readonly code: SegmentErrorCode) {
+    super(message)
+    this.name = 'SegmentError'
+  }
+}
+
+// HTTP status the API routes answer with for each refusal
+export const SEGMENT_ERROR_STATUS: Record<SegmentErrorCode, number> = {
+  NOT_FOUND: 404,
+  SYSTEM_SEGMENT: 400,
+  IN_USE: 409
+}
+
+// Contacts the data set automation moves on to after a campaign
+export const NEXT_DATA_SET_SEGMENT = 'next-data-set'
+
+// Segments the application relies on, created the first time segments are used
+const SYSTEM_SEGMENTS: Record<string, { name: string; description: string; rules: SegmentRuleGroup }> = {
+  [NEXT_DATA_SET_SEGMENT]: {
+    name: 'Not contacted in the last 7 days',
+    description: 'Automated campaigns move on to these contacts once their own audience is done',
+    rules: {
+      combinator: 'AND',
+      rules: [{ field: 'lastContact', operator: 'older_than_days', value: 7 }]
+    }
+  }
+}
+
+// Campaigns that still resolve or send to their segment
+const ACTIVE_CAMPAIGN_STATUSES = ['DRAFT', 'SCHEDULED', 'LAUNCHING', 'RUNNING', 'PAUSED']
+
+type SegmentRecord = Prisma.SegmentGetPayload<{ include: { _count: { select: { campaigns: true } } } }>
+
+let seeding: Promise<void> | null = null
+
+/**
+ * Saved audiences. A segment is a rule tree over contact, lead and reply history fields
+ * that is turned into a contact query whenever it is previewed or a campaign starts.
+ */
+export class SegmentService {
+  static async list(): Promise<Segment[]> {
+    await this.ensureSystemSegments()
+
+    const records = await prisma.segment.findMany({
+      include: { _count: { select: { campaigns: true } } },
+      orderBy: { name: 'asc' }
+    })
+    return records.map(record => this.toSegment(record))
+  }
+
+  static async get(id: string): Promise<Segment | null> {
+    const record = await prisma.segment.findUnique({
+      where: { id },
+      include: { _count: { select: { campaigns: true } } }
+    })
+    return record ? this.toSegment(record) : null
+  }
+
+  static async create(input: SegmentInput, userId?: string): Promise<Segment> {
+    const record = await prisma.segment.create({
+      data: {
+        name: input.name,
+        description: input.description,
+        rules: JSON.stringify(input.rules),
+        createdById: userId
+      },
+      include: { _count: { select: { campaigns: true } } }
+    })
+    return this.toSegment(record)
+  }
+
+  static async update(id: string, input: SegmentInput): Promise<Segment> {
+    if (!await prisma.segment.findUnique({ where: { id }, select: { id: true } })) {
+      throw new SegmentError('Segment not found', 'NOT_FOUND')
+    }
+
+    const record = await prisma.segment.update({
+      where: { id },
+      data: {
+        name: input.name,
+        description: input.description ?? null,
+        rules: JSON.stringify(input.rules)
+      },
+      include: { _count: { select: { campaigns: true } } }
+    })
+    return this.toSegment(record)
+  }
+
+  /**
+   * Delete a segment no campaign still needs. Finished campaigns keep their contacts.
+   */
+  static async delete(id: string): Promise<void> {
+    const segment = await prisma.segment.findUnique({ where: { id } })
+    if (!segment) {
+      throw new SegmentError('Segment not found', 'NOT_FOUND')
+    }
+    if (segment.systemKey) {
+      throw new SegmentError('Built-in segments cannot be deleted', 'SYSTEM_SEGMENT')
+    }
+
+    const activeCampaigns = await prisma.campaign.count({
+      where: { segmentId: id, status: { in: ACTIVE_CAMPAIGN_STATUSES } }
+    })
+    if (activeCampaigns > 0) {
+      throw new SegmentError(`Segment is used by ${activeCampaigns} active campaigns`, 'IN_USE')
+    }
+
+    await prisma.segment.delete({ where: { id } })
+  }
+
+  /**
+   * Count the contacts a rule tree matches right now, with a few of them as examples
+   */
+  static async preview(rules: SegmentRuleGroup, sampleSize = 10): Promise<SegmentPreview> {
+    const where = this.buildWhere(rules)
+
+    const [count, contacts] = await Promise.all([
+      prisma.contact.count({ where }),
+      sampleSize > 0
+        ? prisma.contact.findMany({
+            where,
+            select: { id: true, name: true, phone: true, tags: true, lastContact: true },
+            orderBy: { createdAt: 'asc' },
+            take: sampleSize
+          })
+        : Promise.resolve([])
+    ])
+
+    return {
+      count,
+      sample: contacts.map(contact => ({
+        id: contact.id,
+        name: contact.name || undefined,
+        phone: contact.phone,
+        tags: this.parseTags(contact.tags),
+        lastContact: contact.lastContact || undefined
+      }))
+    }
+  }
+
+  /**
+   * IDs of the contacts a rule tree matches, oldest first
+   */
+  static async resolveContactIds(
+    rules: SegmentRuleGroup,
+    options: { excludeCampaignId?: string; limit?: number } = {}
+  ): Promise<string[]> {
+    const where: Prisma.ContactWhereInput = options.excludeCampaignId
+      ? { AND: [this.buildWhere(rules), { campaigns: { none: { campaignId: options.excludeCampaignId } } }] }
+      : this.buildWhere(rules)
+
+    const contacts = await prisma.contact.findMany({
+      where,
+      select: { id: true },
+      orderBy: { createdAt: 'asc' },
+      take: options.limit
+    })
+    return contacts.map(contact => contact.id)
+  }
+
+  /**
+   * Add the segment's current members to a campaign as pending contacts. Contacts the
+   * campaign already has are left as they are. Returns how many were added.
+   */
+  static async addToCampaign(segmentId: string, campaignId: string): Promise<number> {
+    const segment = await prisma.segment.findUnique({ where: { id: segmentId } })
+    if (!segment) {
+      throw new SegmentError('Segment not found', 'NOT_FOUND')
+    }
+
+    const contactIds = await this.resolveContactIds(this.parseRules(segment.rules), { excludeCampaignId: campaignId })
+
+    for (let i = 0; i < contactIds.length; i += INSERT_CHUNK) {
+      await prisma.campaignContact.createMany({
+        data: contactIds.slice(i, i + INSERT_CHUNK).map(contactId => ({ campaignId, contactId }))
+      })
+    }
+
+    logger.info(DataSource.DATABASE, 'segment_resolve', `Added ${contactIds.length} contacts from segment '${segment.name}' to campaign ${campaignId}`)
+    return contactIds.length
+  }
+
+  /**
+   * A built-in segment, created with its default rules the first time it is needed
+   */
+  static async getSystemSegment(key: string): Promise<Segment> {
+    await this.ensureSystemSegments()
+
+    const record = await prisma.segment.findUnique({
+      where: { systemKey: key },
+      include: { _count: { select: { campaigns: true } } }
+    })
+    if (!record) {
+      throw new SegmentError(`Unknown built-in segment '${key}'`, 'NOT_FOUND')
+    }
+    return this.toSegment(record)
+  }
+
+  /**
+   * Turn a rule tree into a contact query. Only active contacts are ever included.
+   */
+  static buildWhere(rules: SegmentRuleGroup, now = new Date()): Prisma.ContactWhereInput {
+    return { AND: [{ isActive: true }, this.groupWhere(rules, now)] }
+  }
+
+  private static groupWhere(group: SegmentRuleGroup, now: Date): Prisma.ContactWhereInput {
+    if (group.rules.length === 0) return {}
+
+    const clauses = group.rules.map(rule => isRuleGroup(rule) ? this.groupWhere(rule, now) : this.conditionWhere(rule, now))
+    return group.combinator === 'AND' ? { AND: clauses } : { OR: clauses }
+  }
+
+  private static conditionWhere(rule: SegmentCondition, now: Date): Prisma.ContactWhereInput {
+    const values = Array.isArray(rule.value) ? rule.value : []
+    const number = typeof rule.value === 'number' ? rule.value : 0
+    const daysAgo = new Date(now.getTime() - number * DAY_MS)
+
+    switch (rule.field) {
+      case 'tags': {
+        // Tags are stored as a JSON array, so a quoted tag only matches the whole tag
+        const matches = values.map(tag => ({ tags: { contains: JSON.stringify(tag) } }))
+        if (rule.operator === 'includes_any') return { OR: matches }
+        if (rule.operator === 'includes_all') return { AND: matches }
+        return { OR: [{ tags: null }, { NOT: { OR: matches } }] }
+      }
+
+      case 'lastContact':
+        if (rule.operator === 'never') return { lastContact: null }
+        if (rule.operator === 'within_days') return { lastContact: { gte: daysAgo } }
+        return { OR: [{ lastContact: null }, { lastContact: { lt: daysAgo } }] }
+
+      case 'createdAt':
+        return rule.operator === 'within_days'
+          ? { createdAt: { gte: daysAgo } }
+          : { createdAt: { lt: daysAgo } }
+
+      case 'language': {
+        // Contacts without a preference get the default language
+        const includesDefault = values.includes(DEFAULT_LANGUAGE)
+        if (rule.operator === 'in') {
+          return includesDefault
+            ? { OR: [{ preferredLanguage: { in: values } }, { preferredLanguage: null }] }
+            : { preferredLanguage: { in: values } }
+        }
+        return includesDefault
+          ? { preferredLanguage: { notIn: values } }
+          : { OR: [{ preferredLanguage: { notIn: values } }, { preferredLanguage: null }] }
+      }
+
+      case 'phoneVerified':
+        return { phoneVerified: rule.value === true }
+
+      case 'hasLead':
+        return rule.value === true ? { leads: { some: {} } } : { leads: { none: {} } }
+
+      // not_in matches contacts without any lead in those statuses or loan types,
+      // including contacts without leads
+      case 'leadStatus':
+        return rule.operator === 'in'
+          ? { leads: { some: { status: { in: values } } } }
+          : { leads: { none: { status: { in: values } } } }
+
+      case 'loanType':
+        return rule.operator === 'in'
+          ? { leads: { some: { loanType: { in: values } } } }
+          : { leads: { none: { loanType: { in: values } } } }
+
+      case 'loanAmount':
+        return { leads: { some: { loanAmount: rule.operator === 'gte' ? { gte: number } : { lte: number } } } }
+
+      case 'leadScore':
+        return { leads: { some: { score: rule.operator === 'gte' ? { gte: number } : { lte: number } } } }
+
+      case 'replied':
+        switch (rule.operator) {
+          case 'ever':
+            return { messages: { some: { direction: 'INBOUND' } } }
+          case 'never':
+            return { messages: { none: { direction: 'INBOUND' } } }
+          case 'within_days':
+            return { messages: { some: { direction: 'INBOUND', createdAt: { gte: daysAgo } } } }
+          default:
+            // Replied at some point, but not recently
+            return {
+              AND: [
+                { messages: { some: { direction: 'INBOUND' } } },
+                { messages: { none: { direction: 'INBOUND', createdAt: { gte: daysAgo } } } }
+              ]
+            }
+        }
+
+      default:
+        throw new Error(`Unsupported segment field '${rule.field}'`)
+    }
+  }
+
+  private static ensureSystemSegments(): Promise<void> {
+    if (!seeding) {
+      seeding = (async () => {
+        const existing = await prisma.segment.findMany({
+          where: { systemKey: { in: Object.keys(SYSTEM_SEGMENTS) } },
+          select: { systemKey: true }
+        })
+        const existingKeys = existing.map(segment => segment.systemKey)
+
+        for (const [key, segment] of Object.entries(SYSTEM_SEGMENTS)) {
+          if (existingKeys.includes(key)) continue
+          await prisma.segment.create({
+            data: {
+              name: segment.name,
+              description: segment.description,
+              rules: JSON.stringify(segment.rules),
+              systemKey: key
+            }
+          })
+        }
+      })().catch(error => {
+        // Let the next call try again
+        seeding = null
+        throw error
+      })
+    }
+    return seeding
+  }
+
+  private static toSegment(record: SegmentRecord): Segment {
+    return {
+      id: record.id,
+      name: record.name,
+      description: record.description || undefined,
+      rules: this.parseRules(record.rules),
+      systemKey: record.systemKey || undefined,
+      campaignCount: record._count.campaigns,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    }
+  }
+
+  private static parseRules(rules: string): SegmentRuleGroup {
+    return JSON.parse(rules)
+  }
+
+  private static parseTags(tags: string | null): string[] {
+    if (!tags) return []
+    try {
+      const parsed = JSON.parse(tags)
+      return Array.isArray(parsed) ? parsed : []
+    } catch (error) {
+      return []
+    }
+  }
+}
+
+export default SegmentService
@@ -0,0 +1,524 @@
+import { PrismaClient } from '@prisma/client'
+import { logger, DataSource } from './logger'
+import { SendRateLimitInput } from './security/validation'
+import type {
+  MediaMessageParams,
+  MessagingProvider,
+  OTPMessageParams,
+  ProviderRecipientResult,
+  ProviderResponse,
+  TemplateMessageParams,
+  TextMessageParams
+} from './messagingProvider'
+
+const prisma = new PrismaClient()
+
+export interface SendRateLimit {
+  provider: string
+  senderId: string
+  messagesPerSecond: number
+  burst: number
+  dailyCap: number | null
+  isEnabled: boolean
+  isDefault?: boolean
+}
+
+export interface ThrottleMetrics {
+  provider: string
+  senderId: string
+  limit: SendRateLimit
+  // Messages per second allowed right now, below the configured rate while backing off
+  effectiveRate: number
+  backoffFactor: number
+  availableTokens: number
+  waiting: number
+  // Messages per second over the last 10 seconds
+  throughput: number
+  sentLastMinute: number
+  errorsLastMinute: number
+  sentToday: number
+  lastError?: string
+  lastErrorAt?: Date
+}
+
+type LimitSettings = Omit<SendRateLimit, 'provider' | 'senderId'>
+
+// Apply until an admin saves a limit for the provider
+export const DEFAULT_SEND_RATE_LIMITS: Record<string, LimitSettings> = {
+  smsfresh: { messagesPerSecond: 10, burst: 10, dailyCap: null, isEnabled: true },
+  whatsapp_cloud: { messagesPerSecond: 80, burst: 80, dailyCap: null, isEnabled: true },
+  mock: { messagesPerSecond: 50, burst: 50, dailyCap: null, isEnabled: true }
+}
+
+const FALLBACK_LIMIT: LimitSettings = { messagesPerSecond: 10, burst: 10, dailyCap: null, isEnabled: true }
+
+export const ANY_SENDER = '*'
+const UNKNOWN_SENDER = 'default'
+const LIMITS_TTL_MS = 30 * 1000
+const USAGE_TIME_ZONE = 'Asia/Kolkata'
+
+// Adaptive backoff: halve the rate on a provider error, at most once per interval so one
+// failed batch only counts once, then win it back a step per successful send
+const MIN_BACKOFF_FACTOR = 0.1
+const BACKOFF_INTERVAL_MS = 1000
+const RECOVERY_STEP = 0.05
+
+// HTTP 429/5xx and the WhatsApp Cloud API's throughput and spam limits
+const BACKOFF_ERROR_CODES = ['4', '429', '80007', '130429', '131048', '131056']
+const BACKOFF_ERROR_PATTERN = /HTTP (429|5\d\d)|rate limit|timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|fetch failed/i
+
+interface Bucket {
+  provider: string
+  senderId: string
+  tokens: number
+  refilledAt: number
+  backoffFactor: number
+  lastBackoffAt: number
+  // Sends wait their turn so tokens are handed out in order
+  queue: Promise<unknown>
+  waiting: number
+  day: string
+  sentToday: number
+  usageLoaded: boolean
+  sentPerSecond: Map<number, number>
+  errorsPerSecond: Map<number, number>
+  lastError?: string
+  lastErrorAt?: Date
+}
+
+/**
+ * Token bucket per messaging provider and sender ID, shared by every send in this process
+ * because all of them go through getMessagingProvider(). Limits and daily usage are stored
+ * so caps hold across restarts.
+ */
+export class SendThrottle {
+  private static buckets = new Map<string, Bucket>()
+  private static limits: { records: SendRateLimit[]; loadedAt: number } | null = null
+
+  /**
+   * Wait until count messages may go out. Returns how many may be sent, fewer than asked
+   * (or none) when the daily cap is reached.
+   */
+  static async acquire(provider: string, senderId: string | undefined, count = 1): Promise<number> {
+    const bucket = this.getBucket(provider, senderId)
+    const limit = await this.getLimit(provider, senderId)
+
+    bucket.waiting += count
+    const turn = bucket.queue.then(() => this.take(bucket, limit, count))
+    bucket.queue = turn.catch(() => undefined)
+
+    try {
+      return await turn
+    } finally {
+      bucket.waiting -= count
+    }
+  }
+
+  /**
+   * Feed a provider response back into the bucket: errors the provider raises under load
+   * slow the sender down, successful sends speed it back up
+   */
+  static recordResult(provider: string, senderId: string | undefined, response: ProviderResponse): void {
+    const bucket = this.getBucket(provider, senderId)
+    const failures = response.recipients
+      ? response.recipients.filter(recipient => !recipient.success).length
+      : response.success ? 0 : 1
+
+    if (failures > 0) {
+      this.countPerSecond(bucket.errorsPerSecond, failures)
+      bucket.lastError = response.error
+      bucket.lastErrorAt = new Date()
+    }
+
+    if (!response.success && this.isBackoffError(response)) {
+      const now = Date.now()
+      if (now - bucket.lastBackoffAt < BACKOFF_INTERVAL_MS) return
+
+      bucket.backoffFactor = Math.max(MIN_BACKOFF_FACTOR, bucket.backoffFactor / 2)
+      bucket.lastBackoffAt = now
+      bucket.tokens = Math.min(bucket.tokens, 0)
+      logger.warn(DataSource.API, 'send_throttle', `Slowing ${provider}/${bucket.senderId} to ${Math.round(bucket.backoffFactor * 100)}% of its rate after a provider error`, {
+        error: response.error,
+        errorCode: response.errorCode
+      })
+    } else if (response.success) {
+      bucket.backoffFactor = Math.min(1, bucket.backoffFactor + RECOVERY_STEP)
+    }
+  }
+
+  /**
+   * The saved limit for the sender, else the provider's '*' limit, else the built-in default
+   */
+  static async getLimit(provider: string, senderId?: string): Promise<SendRateLimit> {
+    const records = await this.loadLimits()
+    const sender = senderId || UNKNOWN_SENDER
+
+    return records.find(record => record.provider === provider && record.senderId === sender)
+      || records.find(record => record.provider === provider && record.senderId === ANY_SENDER)
+      || { provider, senderId: ANY_SENDER, ...(DEFAULT_SEND_RATE_LIMITS[provider] || FALLBACK_LIMIT), isDefault: true }
+  }
+
+  /**
+   * Saved limits, plus the default for each of the given providers that has none
+   */
+  static async listLimits(providers: string[] = []): Promise<SendRateLimit[]> {
+    const records = await this.loadLimits()
+    const defaults = providers
+      .filter(provider => !records.some(record => record.provider === provider && record.senderId === ANY_SENDER))
+      .map(provider => ({ provider, senderId: ANY_SENDER, ...(DEFAULT_SEND_RATE_LIMITS[provider] || FALLBACK_LIMIT), isDefault: true }))
+
+    return [...records, ...defaults]
+  }
+
+  static async saveLimit(input: SendRateLimitInput, updatedBy?: string): Promise<SendRateLimit> {
+    const data = {
+      messagesPerSecond: input.messagesPerSecond,
+      burst: input.burst,
+      dailyCap: input.dailyCap,
+      isEnabled: input.isEnabled,
+      updatedBy
+    }
+
+    const record = await prisma.sendRateLimit.upsert({
+      where: { provider_senderId: { provider: input.provider, senderId: input.senderId } },
+      update: data,
+      create: { provider: input.provider, senderId: input.senderId, ...data }
+    })
+
+    this.limits = null
+    return this.toLimit(record)
+  }
+
+  /**
+   * Remove a saved limit so the sender falls back to the provider's '*' limit or the default
+   */
+  static async deleteLimit(provider: string, senderId: string): Promise<boolean> {
+    const { count } = await prisma.sendRateLimit.deleteMany({ where: { provider, senderId } })
+    this.limits = null
+    return count > 0
+  }
+
+  /**
+   * Live state of every sender that has sent since the process started
+   */
+  static async getMetrics(): Promise<ThrottleMetrics[]> {
+    const now = Date.now()
+
+    return Promise.all(Array.from(this.buckets.values()).map(async bucket => {
+      const limit = await this.getLimit(bucket.provider, bucket.senderId)
+      this.refill(bucket, limit)
+      this.rollDay(bucket)
+
+      return {
+        provider: bucket.provider,
+        senderId: bucket.senderId,
+        limit,
+        effectiveRate: limit.isEnabled ? this.effectiveRate(bucket, limit) : 0,
+        backoffFactor: bucket.backoffFactor,
+        availableTokens: Math.floor(bucket.tokens),
+        waiting: bucket.waiting,
+        throughput: this.sumSince(bucket.sentPerSecond, now - 10 * 1000) / 10,
+        sentLastMinute: this.sumSince(bucket.sentPerSecond, now - 60 * 1000),
+        errorsLastMinute: this.sumSince(bucket.errorsPerSecond, now - 60 * 1000),
+        sentToday: bucket.sentToday,
+        lastError: bucket.lastError,
+        lastErrorAt: bucket.lastErrorAt
+      }
+    }))
+  }
+
+  private static async take(bucket: Bucket, limit: SendRateLimit, count: number): Promise<number> {
+    const granted = await this.reserveDailyQuota(bucket, limit, count)
+    if (granted === 0) return 0
+
+    // A disabled limit still counts towards the daily cap and metrics, it just never waits
+    if (limit.isEnabled) {
+      this.refill(bucket, limit)
+      const needed = Math.min(granted, limit.burst)
+      if (bucket.tokens < needed) {
+        const waitMs = Math.ceil((needed - bucket.tokens) / this.effectiveRate(bucket, limit) * 1000)
+        await new Promise(resolve => setTimeout(resolve, waitMs))
+        this.refill(bucket, limit)
+      }
+
+      // Sends larger than the burst leave the bucket in debt, which the next send waits off
+      bucket.tokens -= granted
+    }
+
+    this.countPerSecond(bucket.sentPerSecond, granted)
+    return granted
+  }
+
+  private static async reserveDailyQuota(bucket: Bucket, limit: SendRateLimit, count: number): Promise<number> {
+    this.rollDay(bucket)
+
+    if (!bucket.usageLoaded) {
+      try {
+        const usage = await prisma.sendRateUsage.findUnique({
+          where: { provider_senderId_day: { provider: bucket.provider, senderId: bucket.senderId, day: bucket.day } }
+        })
+        bucket.sentToday = Math.max(bucket.sentToday, usage?.count || 0)
+      } catch (error) {
+        logger.error(DataSource.DATABASE, 'send_throttle', 'Failed to load daily send usage', error)
+      }
+      bucket.usageLoaded = true
+    }
+
+    const granted = limit.dailyCap ? Math.max(0, Math.min(count, limit.dailyCap - bucket.sentToday)) : count
+    if (granted === 0) return 0
+
+    bucket.sentToday += granted
+    try {
+      await prisma.sendRateUsage.upsert({
+        where: { provider_senderId_day: { provider: bucket.provider, senderId: bucket.senderId, day: bucket.day } },
+        update: { count: { increment: granted } },
+        create: { provider: bucket.provider, senderId: bucket.senderId, day: bucket.day, count: granted }
+      })
+    } catch (error) {
+      // Sending matters more than the tally; the in-memory count still enforces the cap
+      logger.error(DataSource.DATABASE, 'send_throttle', 'Failed to record daily send usage', error)
+    }
+    return granted
+  }
+
+  private static getBucket(provider: string, senderId?: string): Bucket {
+    const sender = senderId || UNKNOWN_SENDER
+    const key = `${provider}:${sender}`
+    let bucket = this.buckets.get(key)
+
+    if (!bucket) {
+      bucket = {
+        provider,
+        senderId: sender,
+        tokens: (DEFAULT_SEND_RATE_LIMITS[provider] || FALLBACK_LIMIT).burst,
+        refilledAt: Date.now(),
+        backoffFactor: 1,
+        lastBackoffAt: 0,
+        queue: Promise.resolve(),
+        waiting: 0,
+        day: this.today(),
+        sentToday: 0,
+        usageLoaded: false,
+        sentPerSecond: new Map(),
+        errorsPerSecond: new Map()
+      }
+      this.buckets.set(key, bucket)
+    }
+    return bucket
+  }
+
+  private static refill(bucket: Bucket, limit: SendRateLimit): void {
+    const now = Date.now()
+    const elapsedSeconds = (now - bucket.refilledAt) / 1000
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + elapsedSeconds * this.effectiveRate(bucket, limit))
+    bucket.refilledAt = now
+  }
+
+  private static rollDay(bucket: Bucket): void {
+    const today = this.today()
+    if (bucket.day !== today) {
+      bucket.day = today
+      bucket.sentToday = 0
+      bucket.usageLoaded = false
+    }
+  }
+
+  private static effectiveRate(bucket: Bucket, limit: SendRateLimit): number {
+    return limit.messagesPerSecond * bucket.backoffFactor
+  }
+
+  private static isBackoffError(response: ProviderResponse): boolean {
+    return (!!response.errorCode && BACKOFF_ERROR_CODES.includes(response.errorCode))
+      || BACKOFF_ERROR_PATTERN.test(response.error || '')
+  }
+
+  private static countPerSecond(counts: Map<number, number>, amount: number): void {
+    const second = Math.floor(Date.now() / 1000)
+    counts.set(second, (counts.get(second) || 0) + amount)
+
+    const cutoff = second - 60
+    Array.from(counts.keys()).filter(key => key < cutoff).forEach(key => counts.delete(key))
+  }
+
+  private static sumSince(counts: Map<number, number>, since: number): number {
+    const cutoff = Math.floor(since / 1000)
+    return Array.from(counts.entries()).reduce((sum, [second, amount]) => second > cutoff ? sum + amount : sum, 0)
+  }
+
+  private static today(): string {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: USAGE_TIME_ZONE }).format(new Date())
+  }
+
+  private static async loadLimits(): Promise<SendRateLimit[]> {
+    if (this.limits && Date.now() - this.limits.loadedAt < LIMITS_TTL_MS) {
+      return this.limits.records
+    }
+
+    try {
+      const records = await prisma.sendRateLimit.findMany({ orderBy: [{ provider: 'asc' }, { senderId: 'asc' }] })
+      this.limits = { records: records.map(record => this.toLimit(record)), loadedAt: Date.now() }
+    } catch (error) {
+      logger.error(DataSource.DATABASE, 'send_throttle', 'Failed to load send rate limits, using defaults', error)
+      this.limits = { records: [], loadedAt: Date.now() }
+    }
+    return this.limits.records
+  }
+
+  private static toLimit(record: {
+    provider: string
+    senderId: string
+    messagesPerSecond: number
+    burst: number
+    dailyCap: number | null
+    isEnabled: boolean
+  }): SendRateLimit {
+    return {
+      provider: record.provider,
+      senderId: record.senderId,
+      messagesPerSecond: record.messagesPerSecond,
+      burst: record.burst,
+      dailyCap: record.dailyCap,
+      isEnabled: record.isEnabled
+    }
+  }
+}
+
+/**
+ * Sends through the wrapped provider in chunks of at most the sender's burst, waiting for
+ * the throttle before each chunk. Recipients over the daily cap fail with DAILY_CAP_REACHED.
+ */
+export class ThrottledMessagingProvider implements MessagingProvider {
+  constructor(private readonly provider: MessagingProvider) {}
+
+  /**
+   * The provider messages actually go out through
+   */
+  get inner(): MessagingProvider {
+    return this.provider
+  }
+
+  get name(): string {
+    return this.provider.name
+  }
+
+  get senderId(): string | undefined {
+    return this.provider.senderId
+  }
+
+  sendText(params: TextMessageParams): Promise<ProviderResponse> {
+    return this.throttled([params.phone], phones => this.provider.sendText({ ...params, phone: phones[0] }))
+  }
+
+  sendTemplate(params: TemplateMessageParams): Promise<ProviderResponse> {
+    return this.throttled(params.phone, phone => this.provider.sendTemplate({ ...params, phone }))
+  }
+
+  sendMedia(params: MediaMessageParams): Promise<ProviderResponse> {
+    return this.throttled(params.phone, phone => this.provider.sendMedia({ ...params, phone }))
+  }
+
+  sendOTP(params: OTPMessageParams): Promise<ProviderResponse> {
+    return this.throttled(params.phone, phone => this.provider.sendOTP({ ...params, phone }))
+  }
+
+  parseStatusCallback(payload: unknown) {
+    return this.provider.parseStatusCallback(payload)
+  }
+
+  listTemplates() {
+    return this.provider.listTemplates()
+  }
+
+  testConnection() {
+    return this.provider.testConnection()
+  }
+
+  getStatus() {
+    return this.provider.getStatus()
+  }
+
+  private async throttled(
+    phones: string[],
+    send: (phones: string[]) => Promise<ProviderResponse>
+  ): Promise<ProviderResponse> {
+    const { burst } = await SendThrottle.getLimit(this.name, this.senderId)
+    const results: Array<{ phones: string[]; response: ProviderResponse }> = []
+
+    for (let i = 0; i < phones.length; i += burst) {
+      const chunk = phones.slice(i, i + burst)
+      const granted = await SendThrottle.acquire(this.name, this.senderId, chunk.length)
+
+      if (granted > 0) {
+        const sendable = chunk.slice(0, granted)
+        let response: ProviderResponse
+        try {
+          response = await send(sendable)
+        } catch (error) {
+          SendThrottle.recordResult(this.name, this.senderId, {
+            success: false,
+            error: error instanceof Error ? error.message : String(error)
+          })
+          throw error
+        }
+        SendThrottle.recordResult(this.name, this.senderId, response)
+        results.push({ phones: sendable, response })
+      }
+
+      if (granted < chunk.length) {
+        results.push({
+          phones: phones.slice(i + granted),
+          response: {
+            success: false,
+            error: `Daily send cap reached for ${this.name}${this.senderId ? ` sender ${this.senderId}` : ''}`,
+            errorCode: 'DAILY_CAP_REACHED'
+          }
+        })
+        break
+      }
+    }
+
+    return results.length === 1 ? results[0].response : mergeResponses(results)
+  }
+}
+
+const throttledProviders = new WeakMap<MessagingProvider, ThrottledMessagingProvider>()
+
+export function withSendThrottle(provider: MessagingProvider): MessagingProvider {
+  if (provider instanceof ThrottledMessagingProvider) return provider
+
+  let throttled = throttledProviders.get(provider)
+  if (!throttled) {
+    throttled = new ThrottledMessagingProvider(provider)
+    throttledProviders.set(provider, throttled)
+  }
+  return throttled
+}
+
+/**
+ * The provider behind the throttle, for callers that need a provider's own methods
+ */
+export function withoutSendThrottle(provider: MessagingProvider): MessagingProvider {
+  return provider instanceof ThrottledMessagingProvider ? provider.inner : provider
+}
+
+function mergeResponses(results: Array<{ phones: string[]; response: ProviderResponse }>): ProviderResponse {
+  const failed = results.find(result => !result.response.success)?.response
+  const recipients: ProviderRecipientResult[] = results.flatMap(({ phones, response }) =>
+    response.recipients || phones.map(phone => ({
+      phone,
+      success: response.success,
+      messageId: response.messageId,
+      error: response.error
+    }))
+  )
+
+  return {
+    success: !failed,
+    messageId: results.find(result => result.response.messageId)?.response.messageId,
+    deliveryStatus: failed ? 'FAILED' : 'SENT',
+    data: results.map(result => result.response.data),
+    error: failed?.error,
+    errorCode: failed?.errorCode,
+    recipients
+  }
+}
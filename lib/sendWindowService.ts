@@ -0,0 +1,159 @@
+import { PrismaClient } from '@prisma/client'
+import { SendWindowInput } from './security/validation'
+import { getLocalParts, getWeekday, toUtc } from './zonedTime'
+
+const prisma = new PrismaClient()
+
+export interface SendWindow {
+  startTime: string
+  endTime: string
+  days: string[]
+  timeZone: string
+  isEnabled: boolean
+  campaignId?: string
+  isDefault?: boolean
+}
+
+// Applies until an admin saves a global window: 09:00-21:00 IST, no Sundays
+export const DEFAULT_SEND_WINDOW: SendWindow = {
+  startTime: '09:00',
+  endTime: '21:00',
+  days: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+  timeZone: 'Asia/Kolkata',
+  isEnabled: true,
+  isDefault: true
+}
+
+interface SendWindowRecord {
+  campaignId: string | null
+  startTime: string
+  endTime: string
+  days: string
+  timeZone: string
+  isEnabled: boolean
+}
+
+export class SendWindowService {
+  static async getGlobalWindow(): Promise<SendWindow> {
+    const record = await prisma.sendWindow.findFirst({ where: { campaignId: null } })
+    return record ? this.toSendWindow(record) : DEFAULT_SEND_WINDOW
+  }
+
+  static async getCampaignWindow(campaignId: string): Promise<SendWindow | null> {
+    const record = await prisma.sendWindow.findUnique({ where: { campaignId } })
+    return record ? this.toSendWindow(record) : null
+  }
+
+  /**
+   * The campaign's own window if it has one, otherwise the global window
+   */
+  static async getWindow(campaignId?: string): Promise<SendWindow> {
+    if (campaignId) {
+      const campaignWindow = await this.getCampaignWindow(campaignId)
+      if (campaignWindow) return campaignWindow
+    }
+    return this.getGlobalWindow()
+  }
+
+  static async saveGlobalWindow(input: SendWindowInput, updatedBy: string): Promise<SendWindow> {
+    const data = { ...input, days: JSON.stringify(input.days), updatedBy }
+    const existing = await prisma.sendWindow.findFirst({ where: { campaignId: null } })
+
+    const record = existing
+      ? await prisma.sendWindow.update({ where: { id: existing.id }, data })
+      : await prisma.sendWindow.create({ data })
+
+    return this.toSendWindow(record)
+  }
+
+  static async saveCampaignWindow(campaignId: string, input: SendWindowInput, updatedBy: string): Promise<SendWindow> {
+    const data = { ...input, days: JSON.stringify(input.days), updatedBy }
+    const record = await prisma.sendWindow.upsert({
+      where: { campaignId },
+      create: { campaignId, ...data },
+      update: data
+    })
+
+    return this.toSendWindow(record)
+  }
+
+  static async removeCampaignWindow(campaignId: string): Promise<boolean> {
+    const result = await prisma.sendWindow.deleteMany({ where: { campaignId } })
+    return result.count > 0
+  }
+
+  /**
+   * Check a moment against the window in its own time zone
+   */
+  static isOpen(window: SendWindow, at: Date = new Date()): boolean {
+    if (!window.isEnabled) return true
+
+    const local = getLocalParts(at, window.timeZone)
+    const start = this.toMinutes(window.startTime)
+    const end = this.toMinutes(window.endTime)
+
+    if (start < end) {
+      return window.days.includes(getWeekday(local)) && local.minutes >= start && local.minutes < end
+    }
+
+    // Overnight window: the early part belongs to the previous day's window
+    if (local.minutes >= start) {
+      return window.days.includes(getWeekday(local))
+    }
+    if (local.minutes < end) {
+      const previousDay = getWeekday(getLocalParts(new Date(at.getTime() - 24 * 60 * 60 * 1000), window.timeZone))
+      return window.days.includes(previousDay)
+    }
+    return false
+  }
+
+  /**
+   * When the window next opens. Returns `at` itself if it is open already.
+   */
+  static getNextOpening(window: SendWindow, at: Date = new Date()): Date {
+    if (this.isOpen(window, at)) return at
+
+    const start = this.toMinutes(window.startTime)
+    for (let offset = 0; offset <= 7; offset++) {
+      const local = getLocalParts(new Date(at.getTime() + offset * 24 * 60 * 60 * 1000), window.timeZone)
+      if (!window.days.includes(getWeekday(local))) continue
+
+      const opening = toUtc(local.year, local.month, local.day, start, window.timeZone)
+      if (opening > at) return opening
+    }
+
+    // No allowed days configured; validation prevents this, so do not hold messages forever
+    return at
+  }
+
+  static describe(window: SendWindow): string {
+    if (!window.isEnabled) return 'Any time'
+    const days = window.days.map(day => day.slice(0, 3)).join(', ')
+    return `${window.startTime}–${window.endTime} ${window.timeZone}, ${days}`
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number)
+    return hours * 60 + minutes
+  }
+
+  private static toSendWindow(record: SendWindowRecord): SendWindow {
+    let days = DEFAULT_SEND_WINDOW.days
+    try {
+      days = JSON.parse(record.days)
+    } catch (error) {
+      console.error('Invalid send window days JSON:', error)
+    }
+
+    return {
+      startTime: record.startTime,
+      endTime: record.endTime,
+      days,
+      timeZone: record.timeZone,
+      isEnabled: record.isEnabled,
+      campaignId: record.campaignId || undefined
+    }
+  }
+}
+
+export default SendWindowService
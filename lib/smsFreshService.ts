@@ -4,6 +4,18 @@
  */
 
 import Logger, { DataSource } from './logger'
+import { SendThrottle } from './sendThrottle'
+import type {
+  MessagingChannel,
+  MessagingProvider,
+  ProviderCallback,
+  ProviderResponse,
+  ProviderTemplate,
+  TemplateMessageParams,
+  MediaMessageParams,
+  OTPMessageParams,
+  TextMessageParams
+} from './messagingProvider'
 
 export interface WhatsAppMessage {
   phone: string
@@ -13,6 +25,7 @@ export interface WhatsAppMessage {
   mediaUrl?: string
   mediaType?: 'image' | 'video' | 'document'
   messageType?: 'normal' | 'auth'
+  channel?: MessagingChannel
 }
 
 export interface WhatsAppResponse {
@@ -23,20 +36,27 @@ export interface WhatsAppResponse {
   details?: any
 }
 
-export interface WhatsAppTemplate {
-  name: string
-  content: string
-  category: string
-  language: string
-  status: 'APPROVED' | 'PENDING' | 'REJECTED'
-  components?: {
-    type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS'
-    text?: string
-    parameters?: string[]
-  }[]
+export type WhatsAppTemplate = ProviderTemplate
+
+// Request/response shapes used by MessageService
+export type SMSFreshResponse = ProviderResponse
+export type SMSFreshTextParams = TemplateMessageParams
+export type SMSFreshMediaParams = MediaMessageParams
+export type SMSFreshOTPParams = OTPMessageParams
+
+export interface SMSFreshReplyParams {
+  phone: string
+  text: string
 }
 
-class SMSFreshService {
+// Delivery receipts and replies posted to /api/webhooks/smsfresh
+export type SMSFreshWebhookPayload = ProviderCallback
+
+const CALLBACK_STATUSES = ['delivered', 'read', 'failed', 'replied', 'sent']
+const CALLBACK_TYPES = ['SMS', 'WHATSAPP']
+
+class SMSFreshService implements MessagingProvider {
+  readonly name = 'smsfresh'
   private readonly baseUrl: string
   private readonly user: string
   private readonly pass: string
@@ -53,6 +73,10 @@ class SMSFreshService {
     }
   }
 
+  get senderId(): string {
+    return this.sender
+  }
+
   /**
    * Send a normal WhatsApp message
    */
@@ -66,7 +90,7 @@ class SMSFreshService {
         sender: this.sender,
         phone: this.formatPhoneNumber(message.phone),
         text: message.templateName || message.text,
-        priority: 'wa',
+        priority: this.getPriority(message.channel),
         stype: message.messageType || 'normal'
       })
 
@@ -175,10 +199,43 @@ class SMSFreshService {
     })
   }
 
+  /**
+   * Send authentication OTP to one or more recipients
+   */
+  async sendOTP(params: OTPMessageParams): Promise<ProviderResponse> {
+    return this.sendToEach(params.phone, phone => this.sendOTPMessage(phone, params.templateName, params.otp))
+  }
+
+  async sendTemplate(params: TemplateMessageParams): Promise<ProviderResponse> {
+    return this.sendToEach(params.phone, phone => this.sendMessage({
+      phone,
+      text: params.templateName,
+      templateName: params.templateName,
+      params: params.parameters,
+      channel: params.channel
+    }))
+  }
+
+  async sendMedia(params: MediaMessageParams): Promise<ProviderResponse> {
+    return this.sendToEach(params.phone, phone => this.sendMessage({
+      phone,
+      text: params.templateName,
+      templateName: params.templateName,
+      params: params.parameters,
+      mediaUrl: params.mediaUrl,
+      mediaType: params.mediaType,
+      channel: params.channel
+    }))
+  }
+
+  async sendText(params: TextMessageParams): Promise<ProviderResponse> {
+    return this.sendToEach([params.phone], phone => this.sendTextMessage(phone, params.text, params.channel))
+  }
+
   /**
    * Send normal text message (after customer replies)
    */
-  async sendTextMessage(phone: string, text: string): Promise<WhatsAppResponse> {
+  async sendTextMessage(phone: string, text: string, channel: MessagingChannel = 'WHATSAPP'): Promise<WhatsAppResponse> {
     try {
       const params = new URLSearchParams({
         user: this.user,
@@ -186,7 +243,7 @@ class SMSFreshService {
         sender: this.sender,
         phone: this.formatPhoneNumber(phone),
         text: text,
-        priority: 'wa',
+        priority: this.getPriority(channel),
         stype: 'normal',
         htype: 'normal'
       })
@@ -228,32 +285,23 @@ class SMSFreshService {
   }
 
   /**
-   * Bulk send WhatsApp messages
+   * Bulk send WhatsApp messages, paced by the shared send throttle
    */
   async sendBulkMessages(messages: WhatsAppMessage[]): Promise<WhatsAppResponse[]> {
     Logger.info(DataSource.API, 'smsfresh', `Sending bulk WhatsApp messages to ${messages.length} recipients`)
 
-    const results: WhatsAppResponse[] = []
-    const batchSize = 10 // Process in batches to avoid overwhelming the API
-    
-    for (let i = 0; i < messages.length; i += batchSize) {
-      const batch = messages.slice(i, i + batchSize)
-      
-      const batchPromises = batch.map(message => 
-        this.sendMessage(message).catch(error => ({
-          success: false,
-          error: error.message
-        }))
-      )
-      
-      const batchResults = await Promise.all(batchPromises)
-      results.push(...batchResults)
-      
-      // Add delay between batches to respect rate limits
-      if (i + batchSize < messages.length) {
-        await this.delay(1000) // 1 second delay between batches
+    const results = await Promise.all(messages.map(async (message): Promise<WhatsAppResponse> => {
+      if (await SendThrottle.acquire(this.name, this.sender) === 0) {
+        return { success: false, error: `Daily send cap reached for ${this.name} sender ${this.sender}` }
       }
-    }
+
+      const result = await this.sendMessage(message).catch(error => ({
+        success: false,
+        error: error.message
+      }))
+      SendThrottle.recordResult(this.name, this.sender, result)
+      return result
+    }))
 
     const successCount = results.filter(r => r.success).length
     Logger.info(DataSource.API, 'smsfresh', `Bulk WhatsApp sending completed: ${successCount}/${messages.length} successful`)
@@ -381,6 +429,54 @@ class SMSFreshService {
     return templates
   }
 
+  async listTemplates(): Promise<ProviderTemplate[]> {
+    return this.getTemplates()
+  }
+
+  /**
+   * Validate a delivery receipt or reply posted to our webhook
+   */
+  parseStatusCallback(payload: unknown): ProviderCallback[] {
+    const callback = payload as Record<string, any>
+    const requiredFields = ['messageId', 'phone', 'status', 'timestamp', 'type']
+
+    if (!callback || typeof callback !== 'object') {
+      throw new Error('Payload must be an object')
+    }
+
+    for (const field of requiredFields) {
+      if (!callback[field]) {
+        throw new Error(`Missing required field: ${field}`)
+      }
+    }
+
+    if (!CALLBACK_STATUSES.includes(callback.status)) {
+      throw new Error(`Invalid status: ${callback.status}`)
+    }
+
+    if (!CALLBACK_TYPES.includes(callback.type)) {
+      throw new Error(`Invalid type: ${callback.type}`)
+    }
+
+    const phoneRegex = /^\+?[1-9]\d{1,14}$/
+    if (!phoneRegex.test(String(callback.phone).replace(/\D/g, ''))) {
+      throw new Error(`Invalid phone number format: ${callback.phone}`)
+    }
+
+    if (isNaN(new Date(callback.timestamp).getTime())) {
+      throw new Error(`Invalid timestamp format: ${callback.timestamp}`)
+    }
+
+    return [{
+      messageId: String(callback.messageId),
+      phone: String(callback.phone),
+      status: callback.status,
+      content: callback.content,
+      timestamp: callback.timestamp,
+      type: callback.type
+    }]
+  }
+
   /**
    * Test API connectivity
    */
@@ -484,10 +580,35 @@ class SMSFreshService {
   }
 
   /**
-   * Utility function to add delay
+   * SMSFresh routes WhatsApp with priority "wa" and transactional SMS with "ndnd"
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms))
+  private getPriority(channel: MessagingChannel = 'WHATSAPP'): string {
+    return channel === 'SMS' ? 'ndnd' : 'wa'
+  }
+
+  /**
+   * The API takes one number per request; send to each and combine the results
+   */
+  private async sendToEach(
+    phones: string[],
+    send: (phone: string) => Promise<WhatsAppResponse>
+  ): Promise<ProviderResponse> {
+    const results = await Promise.all(phones.map(phone => send(phone)))
+    const failed = results.find(result => !result.success)
+
+    return {
+      success: !failed,
+      messageId: results[0]?.messageId,
+      deliveryStatus: failed ? 'FAILED' : 'SENT',
+      data: results.map(result => result.details),
+      error: failed?.error,
+      recipients: results.map((result, index) => ({
+        phone: phones[index],
+        success: result.success,
+        messageId: result.messageId,
+        error: result.error
+      }))
+    }
   }
 
   /**
@@ -516,10 +637,5 @@ export function createSMSFreshService() {
   return smsFreshService
 }
 
-// Fallback SMS service (for compatibility)
-export function createFallbackSMSService() {
-  return smsFreshService
-}
-
 // Default export
 export default smsFreshService
\ No newline at end of file
@@ -0,0 +1,213 @@
+import { PrismaClient } from '@prisma/client'
+import { SuppressionInput, SUPPRESSION_CHANNELS } from './security/validation'
+
+const prisma = new PrismaClient()
+
+export type SuppressionChannel = typeof SUPPRESSION_CHANNELS[number]
+export type SuppressionSource = 'INBOUND_KEYWORD' | 'ADMIN'
+export type SubscriptionChange = 'OPTED_OUT' | 'OPTED_IN'
+
+export interface Suppression {
+  id: string
+  phone: string
+  channel: SuppressionChannel
+  reason: string
+  source: SuppressionSource
+  keyword: string | null
+  note: string | null
+  createdBy: string | null
+  createdAt: Date
+}
+
+interface SuppressionFilters {
+  search?: string
+  channel?: SuppressionChannel
+  limit?: number
+}
+
+// Whole-message keywords only, so "don't stop calling me" is not an opt-out
+const OPT_OUT_KEYWORDS = [
+  'stop', 'stop all', 'stopall', 'unsubscribe', 'unsub', 'cancel', 'end', 'quit',
+  'opt out', 'optout', 'remove', 'remove me',
+  'band', 'band karo', 'bandh karo', 'mat bhejo', 'message mat bhejo',
+  'बंद', 'बंद करो', 'बंद करें', 'रोको', 'रोकें', 'मत भेजो', 'मैसेज मत भेजो', 'संदेश मत भेजो'
+]
+
+const OPT_IN_KEYWORDS = ['start', 'unstop', 'subscribe', 'shuru', 'शुरू', 'चालू']
+
+export const OPT_OUT_CONFIRMATION =
+  'You have been unsubscribed and will not receive further messages from LoanStreet. Reply START to subscribe again.'
+
+export const OPT_IN_CONFIRMATION =
+  'You are subscribed to LoanStreet messages again. Reply STOP at any time to unsubscribe.'
+
+export class SuppressionService {
+  static normalizePhone(phone: string): string {
+    return phone.replace(/\D/g, '').slice(-10)
+  }
+
+  static detectKeyword(content: string): SubscriptionChange | null {
+    const normalized = content
+      .toLowerCase()
+      .replace(/[.!?,'"।]/g, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+
+    if (OPT_OUT_KEYWORDS.includes(normalized)) return 'OPTED_OUT'
+    if (OPT_IN_KEYWORDS.includes(normalized)) return 'OPTED_IN'
+    return null
+  }
+
+  static async isSuppressed(phone: string, channel: 'SMS' | 'WHATSAPP'): Promise<boolean> {
+    const count = await prisma.suppression.count({
+      where: {
+        phone: this.normalizePhone(phone),
+        channel: { in: ['ALL', channel] }
+      }
+    })
+    return count > 0
+  }
+
+  /**
+   * Split recipients into those that may be messaged on the channel and those on the list
+   */
+  static async filterSuppressed<T>(
+    recipients: T[],
+    getPhone: (recipient: T) => string,
+    channel: 'SMS' | 'WHATSAPP'
+  ): Promise<{ allowed: T[]; suppressed: T[] }> {
+    if (recipients.length === 0) return { allowed: [], suppressed: [] }
+
+    const phones = Array.from(new Set(recipients.map(recipient => this.normalizePhone(getPhone(recipient)))))
+    const entries = await prisma.suppression.findMany({
+      where: {
+        phone: { in: phones },
+        channel: { in: ['ALL', channel] }
+      },
+      select: { phone: true }
+    })
+    const suppressedPhones = new Set(entries.map(entry => entry.phone))
+
+    const allowed: T[] = []
+    const suppressed: T[] = []
+    for (const recipient of recipients) {
+      if (suppressedPhones.has(this.normalizePhone(getPhone(recipient)))) {
+        suppressed.push(recipient)
+      } else {
+        allowed.push(recipient)
+      }
+    }
+
+    return { allowed, suppressed }
+  }
+
+  static async list(filters: SuppressionFilters = {}): Promise<Suppression[]> {
+    const entries = await prisma.suppression.findMany({
+      where: {
+        ...(filters.channel ? { channel: filters.channel } : {}),
+        ...(filters.search ? { phone: { contains: filters.search.replace(/\D/g, '') } } : {})
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit || 200
+    })
+
+    return entries as Suppression[]
+  }
+
+  static async getHistory(limit: number = 100) {
+    return prisma.suppressionLog.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+  }
+
+  /**
+   * Add a number to the list. Adding an existing phone and channel updates the reason.
+   */
+  static async add(
+    input: SuppressionInput & { source: SuppressionSource; keyword?: string },
+    performedBy: string
+  ): Promise<Suppression> {
+    const data = {
+      reason: input.reason,
+      source: input.source,
+      keyword: input.keyword || null,
+      note: input.note || null,
+      createdBy: performedBy
+    }
+
+    const entry = await prisma.suppression.upsert({
+      where: { phone_channel: { phone: input.phone, channel: input.channel } },
+      create: { phone: input.phone, channel: input.channel, ...data },
+      update: data
+    })
+
+    await prisma.suppressionLog.create({
+      data: {
+        action: 'ADDED',
+        phone: entry.phone,
+        channel: entry.channel,
+        reason: entry.reason,
+        source: entry.source,
+        note: input.keyword ? `Keyword: ${input.keyword}` : input.note,
+        performedBy
+      }
+    })
+
+    return entry as Suppression
+  }
+
+  static async remove(id: string, performedBy: string, note?: string): Promise<Suppression | null> {
+    const entry = await prisma.suppression.findUnique({ where: { id } })
+    if (!entry) return null
+
+    await prisma.suppression.delete({ where: { id } })
+    await prisma.suppressionLog.create({
+      data: {
+        action: 'REMOVED',
+        phone: entry.phone,
+        channel: entry.channel,
+        reason: entry.reason,
+        source: entry.source,
+        note,
+        performedBy
+      }
+    })
+
+    return entry as Suppression
+  }
+
+  /**
+   * Apply STOP / START keywords from an inbound message. START only lifts
+   * opt-outs the contact made themselves, never entries added by an admin.
+   */
+  static async handleInboundMessage(phone: string, content: string): Promise<SubscriptionChange | null> {
+    const change = this.detectKeyword(content)
+    if (!change) return null
+
+    const normalizedPhone = this.normalizePhone(phone)
+
+    if (change === 'OPTED_OUT') {
+      await this.add({
+        phone: normalizedPhone,
+        channel: 'ALL',
+        reason: 'OPT_OUT',
+        source: 'INBOUND_KEYWORD',
+        keyword: content.trim().slice(0, 100)
+      }, 'system')
+      return change
+    }
+
+    const entries = await prisma.suppression.findMany({
+      where: { phone: normalizedPhone, source: 'INBOUND_KEYWORD' }
+    })
+    if (entries.length === 0) return null
+
+    for (const entry of entries) {
+      await this.remove(entry.id, 'system', `Keyword: ${content.trim().slice(0, 100)}`)
+    }
+    return change
+  }
+}
+
+export default SuppressionService
@@ -0,0 +1,95 @@
+import { PrismaClient, Contact, Lead } from '@prisma/client'
+import { TemplateContext, renderTemplate } from './templateEngine'
+
+const prisma = new PrismaClient()
+
+type ContactFields = Pick<Contact, 'name' | 'phone' | 'email' | 'preferredLanguage'>
+type LeadFields = Pick<Lead, 'name' | 'phone' | 'email' | 'loanType' | 'loanAmount' | 'status' | 'source' | 'createdAt'>
+
+// Placeholders automations used before the template engine, with the values they used to fall back to
+const LEGACY_PLACEHOLDERS: Record<string, string> = {
+  name: '{{lead.name|Customer}}',
+  loanType: '{{lead.loanType|lower|loan}}',
+  loanAmount: '{{lead.loanAmount|number|0}}',
+  phone: '{{contact.phone|}}',
+  email: '{{contact.email|}}'
+}
+
+/**
+ * The contact and lead fields templates can use. Only these fields are exposed so
+ * templates cannot print internal data such as notes or scores.
+ */
+export class TemplateContextService {
+  static fromContact(contact: ContactFields | null, lead?: LeadFields | null): TemplateContext {
+    return {
+      name: contact?.name || lead?.name || undefined,
+      contact: contact ? {
+        name: contact.name,
+        phone: contact.phone,
+        email: contact.email,
+        language: contact.preferredLanguage
+      } : undefined,
+      lead: lead ? {
+        name: lead.name,
+        phone: lead.phone,
+        email: lead.email,
+        loanType: lead.loanType,
+        loanAmount: lead.loanAmount,
+        status: lead.status,
+        source: lead.source,
+        createdAt: lead.createdAt
+      } : undefined
+    }
+  }
+
+  /**
+   * Context for a lead, where {{name}} is the name on the lead
+   */
+  static fromLead(lead: LeadFields & { contact?: ContactFields | null }): TemplateContext {
+    return { ...this.fromContact(lead.contact || null, lead), name: lead.name || lead.contact?.name || undefined }
+  }
+
+  /**
+   * Context for each contact, with their most recent lead
+   */
+  static async forContacts(contactIds: string[]): Promise<Map<string, TemplateContext>> {
+    const contacts = await prisma.contact.findMany({
+      where: { id: { in: contactIds } },
+      include: { leads: { orderBy: { createdAt: 'desc' }, take: 1 } }
+    })
+
+    return new Map(contacts.map(contact => [contact.id, this.fromContact(contact, contact.leads[0])]))
+  }
+
+  /**
+   * Context for one contact, with the given lead or their most recent one. Null when the contact does not exist.
+   */
+  static async forContact(contactId: string, leadId?: string): Promise<TemplateContext | null> {
+    const contact = await prisma.contact.findUnique({
+      where: { id: contactId },
+      include: {
+        leads: {
+          where: leadId ? { id: leadId } : undefined,
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        }
+      }
+    })
+
+    return contact ? this.fromContact(contact, contact.leads[0]) : null
+  }
+
+  /**
+   * Render an automation or follow-up message for a lead. Throws when the template
+   * cannot be rendered so the action is reported as failed.
+   */
+  static personalize(template: string, lead: LeadFields & { contact?: ContactFields | null }): string {
+    const body = template.replace(/(?<!{){(name|loanType|loanAmount|phone|email)}(?!})/g, (_, name: string) => LEGACY_PLACEHOLDERS[name])
+    const result = renderTemplate(body, this.fromLead(lead))
+
+    if (!result.success) {
+      throw new Error(`Message template could not be rendered: ${result.error}`)
+    }
+    return result.message || ''
+  }
+}
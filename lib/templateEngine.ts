@@ -0,0 +1,292 @@
+/**
+ * Template Engine
+ * Renders message bodies for campaigns, automations and scheduled follow-ups.
+ * Shared by the browser and the server, so it must not import server-only modules.
+ *
+ *   {{name}}                         value, from the parameters or a nested field
+ *   {{lead.loanAmount}}              nested contact and lead fields
+ *   {{name|there}}                   default when the value is missing or empty
+ *   {{lead.loanAmount|inr}}          filters: inr, number, date, datetime, upper, lower, title
+ *   {{#if lead.loanAmount}}…{{else}}…{{/if}}
+ *
+ * Pipe segments run left to right. A segment naming a filter transforms the value,
+ * anything else is the default, so {{lead.loanType|lower|loan}} lowercases the loan
+ * type and falls back to "loan".
+ */
+
+export type TemplateContext = Record<string, unknown>
+
+export interface RenderOptions {
+  // Variables that render empty instead of failing when they have no value
+  optional?: string[]
+  // Variables that render as [name] when they have no value, for previews without a recipient
+  placeholders?: string[]
+}
+
+export interface RenderResult {
+  success: boolean
+  message?: string
+  error?: string
+  missing?: string[]
+}
+
+export interface TemplateVariable {
+  name: string
+  // False when every use has a default or the variable is tested with {{#if}}
+  required: boolean
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; expression: string }
+  | { kind: 'if'; path: string; then: TemplateNode[]; otherwise: TemplateNode[] }
+
+const TAG_PATTERN = /{{\s*([^{}]*?)\s*}}/
+
+// Fields that differ per recipient and are filled in at send time
+const RECIPIENT_FIELD_PATTERN = /^(contact|lead)\./
+
+const DISPLAY_TIME_ZONE = 'Asia/Kolkata'
+
+const FILTERS: Record<string, (value: unknown, argument?: string) => unknown> = {
+  inr: value => formatNumber(value, { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }),
+  number: value => formatNumber(value, { maximumFractionDigits: 2 }),
+  date: (value, argument) => formatDateValue(value, {
+    day: 'numeric',
+    month: argument === 'long' ? 'long' : 'short',
+    year: 'numeric'
+  }),
+  datetime: value => formatDateValue(value, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  }),
+  upper: value => toText(value).toUpperCase(),
+  lower: value => toText(value).toLowerCase(),
+  title: value => toText(value).toLowerCase().replace(/(^|\s)\S/g, letter => letter.toUpperCase())
+}
+
+export const TEMPLATE_FILTERS = Object.keys(FILTERS)
+
+/**
+ * Render a template body against parameters and contact or lead fields
+ */
+export function renderTemplate(body: string, context: TemplateContext, options: RenderOptions = {}): RenderResult {
+  let nodes: TemplateNode[]
+  try {
+    nodes = parseTemplate(body)
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Invalid template' }
+  }
+
+  const missing: string[] = []
+  const message = renderNodes(nodes, context, options, missing)
+
+  if (missing.length > 0) {
+    return { success: false, error: `Missing required parameter: ${missing.join(', ')}`, missing }
+  }
+  return { success: true, message }
+}
+
+/**
+ * Check a template body for unbalanced blocks and unknown tags without rendering it
+ */
+export function validateTemplateSyntax(body: string): { valid: boolean; error?: string } {
+  try {
+    parseTemplate(body)
+    return { valid: true }
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : 'Invalid template' }
+  }
+}
+
+/**
+ * Variables a body uses, in order of first appearance, including {{#if}} conditions
+ */
+export function extractTemplateVariables(body: string): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable>()
+  const conditions = new Set<string>()
+
+  for (const { tag } of findTags(body)) {
+    if (tag.startsWith('#if ')) {
+      const name = tag.slice(4).trim()
+      conditions.add(name)
+      if (!variables.has(name)) variables.set(name, { name, required: false })
+      continue
+    }
+    if (tag.startsWith('#') || tag.startsWith('/') || tag === 'else') continue
+
+    const [name, ...segments] = tag.split('|').map(segment => segment.trim())
+    if (!name) continue
+    const hasDefault = segments.some(segment => !isFilterSegment(segment))
+    variables.set(name, { name, required: !!variables.get(name)?.required || !hasDefault })
+  }
+
+  // A variable tested with {{#if}} anywhere may be left out everywhere
+  return Array.from(variables.values()).map(variable =>
+    conditions.has(variable.name) ? { ...variable, required: false } : variable
+  )
+}
+
+/**
+ * Whether a variable is a contact or lead field rather than a campaign parameter
+ */
+export function isRecipientVariable(name: string): boolean {
+  return RECIPIENT_FIELD_PATTERN.test(name)
+}
+
+/**
+ * The rendered value of each variable as it first appears in the body, for providers
+ * that take positional parameters. Variables without a value are empty.
+ */
+export function renderVariableValues(body: string, names: string[], context: TemplateContext): string[] {
+  const expressions = new Map<string, string>()
+  for (const { tag } of findTags(body)) {
+    const name = tag.split('|')[0].trim()
+    if (!tag.startsWith('#') && !tag.startsWith('/') && !expressions.has(name)) {
+      expressions.set(name, tag)
+    }
+  }
+
+  return names.map(name => evaluate(expressions.get(name) || name, context).text ?? '')
+}
+
+function parseTemplate(body: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const stack: Array<{ node: Extract<TemplateNode, { kind: 'if' }>; inElse: boolean }> = []
+  const current = () => {
+    const top = stack[stack.length - 1]
+    return top ? (top.inElse ? top.node.otherwise : top.node.then) : root
+  }
+
+  let position = 0
+  for (const { tag, start, end } of findTags(body)) {
+    if (start > position) current().push({ kind: 'text', text: body.slice(position, start) })
+    position = end
+
+    if (tag.startsWith('#if ') && tag.slice(4).trim()) {
+      const node: Extract<TemplateNode, { kind: 'if' }> = { kind: 'if', path: tag.slice(4).trim(), then: [], otherwise: [] }
+      current().push(node)
+      stack.push({ node, inElse: false })
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1]
+      if (!top || top.inElse) throw new Error('{{else}} without a matching {{#if}}')
+      top.inElse = true
+    } else if (tag === '/if') {
+      if (!stack.pop()) throw new Error('{{/if}} without a matching {{#if}}')
+    } else if (tag.startsWith('#') || tag.startsWith('/')) {
+      throw new Error(`Unsupported block {{${tag}}}; only {{#if}} is available`)
+    } else if (!tag) {
+      throw new Error('Empty placeholder {{}}')
+    } else {
+      current().push({ kind: 'value', expression: tag })
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed {{#if ${stack[stack.length - 1].node.path}}}`)
+  }
+  if (position < body.length) root.push({ kind: 'text', text: body.slice(position) })
+  return root
+}
+
+function findTags(body: string): Array<{ tag: string; start: number; end: number }> {
+  const tags: Array<{ tag: string; start: number; end: number }> = []
+  const pattern = new RegExp(TAG_PATTERN.source, 'g')
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(body)) !== null) {
+    tags.push({ tag: match[1], start: match.index, end: match.index + match[0].length })
+  }
+  return tags
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext, options: RenderOptions, missing: string[]): string {
+  return nodes.map(node => {
+    if (node.kind === 'text') return node.text
+    if (node.kind === 'if') {
+      const branch = isTruthy(lookup(context, node.path)) ? node.then : node.otherwise
+      return renderNodes(branch, context, options, missing)
+    }
+
+    const { name, text } = evaluate(node.expression, context)
+    if (text !== undefined) return text
+    if (options.optional?.includes(name)) return ''
+    if (options.placeholders?.includes(name)) return `[${name}]`
+    if (!missing.includes(name)) missing.push(name)
+    return ''
+  }).join('')
+}
+
+/**
+ * Apply an expression's filters and defaults. text is undefined when there is no value and no default.
+ */
+function evaluate(expression: string, context: TemplateContext): { name: string; text?: string } {
+  const [name, ...segments] = expression.split('|').map(segment => segment.trim())
+  let value = lookup(context, name)
+
+  for (const segment of segments) {
+    if (isFilterSegment(segment)) {
+      if (!isEmpty(value)) {
+        const [filter, argument] = splitFilter(segment)
+        value = FILTERS[filter](value, argument)
+      }
+    } else if (isEmpty(value)) {
+      value = segment
+    }
+  }
+
+  return { name, text: value === undefined || value === null ? undefined : toText(value) }
+}
+
+/**
+ * A flat key such as "lead.loanAmount" wins over the nested field, so form parameters
+ * can fill in nested variables
+ */
+function lookup(context: TemplateContext, path: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(context, path)) return context[path]
+
+  return path.split('.').reduce<unknown>((value, key) =>
+    value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+  context)
+}
+
+function isFilterSegment(segment: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FILTERS, splitFilter(segment)[0])
+}
+
+function splitFilter(segment: string): [string, string | undefined] {
+  const separator = segment.indexOf(':')
+  return separator === -1
+    ? [segment, undefined]
+    : [segment.slice(0, separator).trim(), segment.slice(separator + 1).trim()]
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || value === ''
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0
+  if (typeof value === 'string') return value.trim() !== '' && value !== '0' && value.toLowerCase() !== 'false'
+  return !!value
+}
+
+function toText(value: unknown): string {
+  if (value instanceof Date) return formatDateValue(value, { day: 'numeric', month: 'short', year: 'numeric' })
+  if (Array.isArray(value)) return value.map(toText).join(', ')
+  return String(value)
+}
+
+function formatNumber(value: unknown, options: Intl.NumberFormatOptions): string {
+  const amount = typeof value === 'number' ? value : Number(String(value).replace(/[,\s₹]/g, ''))
+  return Number.isFinite(amount) ? new Intl.NumberFormat('en-IN', options).format(amount) : toText(value)
+}
+
+function formatDateValue(value: unknown, options: Intl.DateTimeFormatOptions): string {
+  const date = value instanceof Date ? value : new Date(String(value))
+  return Number.isNaN(date.getTime())
+    ? String(value)
+    : new Intl.DateTimeFormat('en-IN', { ...options, timeZone: DISPLAY_TIME_ZONE }).format(date)
+}
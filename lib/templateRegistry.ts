@@ -0,0 +1,470 @@
+import { PrismaClient } from '@prisma/client'
+import { MessageTemplateInput } from './security/validation'
+import { getMessagingProvider, MessagingProvider } from './messagingProvider'
+import {
+  DEFAULT_LANGUAGE,
+  MessageTemplate,
+  TemplateParameter,
+  TemplateStatus,
+  describeTemplateParameters,
+  formatMessage,
+  getBuiltInTemplateVariants
+} from './messageTemplates'
+import { TemplateContext } from './templateEngine'
+
+const prisma = new PrismaClient()
+
+interface MessageTemplateRecord {
+  id: string
+  key: string
+  version: number
+  language: string
+  name: string
+  type: string
+  category: string
+  body: string
+  parameters: string
+  description: string | null
+  mediaSupported: boolean
+  mediaType: string | null
+  mediaUrl: string | null
+  providerTemplateName: string | null
+  status: string
+  rejectionReason: string | null
+}
+
+export interface TemplateFilters {
+  type?: 'SMS' | 'WHATSAPP'
+  category?: MessageTemplate['category']
+  status?: TemplateStatus
+  language?: string
+  search?: string
+}
+
+export interface TemplateSyncResult {
+  checked: number
+  updated: number
+  imported: number
+  errors: string[]
+}
+
+export type TemplateErrorCode = 'NOT_FOUND' | 'NOT_APPROVED' | 'CONFLICT' | 'INVALID_STATUS'
+
+/**
+ * A template operation the registry refused, as opposed to a database failure
+ */
+export class TemplateError extends Error {
+  constructor(message: string, readonly code: TemplateErrorCode) {
+    super(message)
+    this.name = 'TemplateError'
+  }
+}
+
+// HTTP status the API routes answer with for each refusal
+export const TEMPLATE_ERROR_STATUS: Record<TemplateErrorCode, number> = {
+  NOT_FOUND: 404,
+  NOT_APPROVED: 409,
+  CONFLICT: 409,
+  INVALID_STATUS: 400
+}
+
+// Allowed manual status changes; provider sync may also move PENDING templates on
+const STATUS_TRANSITIONS: Record<'submit' | 'approve' | 'reject', { from: TemplateStatus[]; to: TemplateStatus }> = {
+  submit: { from: ['DRAFT', 'REJECTED'], to: 'PENDING' },
+  approve: { from: ['PENDING'], to: 'APPROVED' },
+  reject: { from: ['PENDING'], to: 'REJECTED' }
+}
+
+let seeding: Promise<void> | null = null
+
+export class TemplateRegistry {
+  /**
+   * Newest version of every template, one entry per key and language
+   */
+  static async list(filters: TemplateFilters = {}): Promise<MessageTemplate[]> {
+    await this.ensureSeeded()
+
+    const records = await prisma.messageTemplate.findMany({
+      where: {
+        type: filters.type,
+        category: filters.category,
+        language: filters.language
+      },
+      orderBy: [{ key: 'asc' }, { language: 'asc' }, { version: 'desc' }]
+    })
+
+    const latest = new Map<string, MessageTemplateRecord>()
+    for (const record of records) {
+      const id = `${record.key}:${record.language}`
+      if (!latest.has(id)) latest.set(id, record)
+    }
+
+    const search = filters.search?.toLowerCase()
+    return Array.from(latest.values())
+      .filter(record => !filters.status || record.status === filters.status)
+      .filter(record => !search ||
+        record.name.toLowerCase().includes(search) ||
+        record.key.includes(search) ||
+        record.body.toLowerCase().includes(search))
+      .map(record => this.toTemplate(record))
+  }
+
+  static async getById(id: string): Promise<MessageTemplate | null> {
+    const record = await prisma.messageTemplate.findUnique({ where: { id } })
+    return record ? this.toTemplate(record) : null
+  }
+
+  static async getVersions(key: string, language: string = DEFAULT_LANGUAGE): Promise<MessageTemplate[]> {
+    const records = await prisma.messageTemplate.findMany({
+      where: { key, language },
+      orderBy: { version: 'desc' }
+    })
+    return records.map(record => this.toTemplate(record))
+  }
+
+  /**
+   * The newest approved version of a template, which is what gets sent
+   */
+  static async getApproved(key: string, language: string = DEFAULT_LANGUAGE): Promise<MessageTemplate | null> {
+    await this.ensureSeeded()
+
+    const record = await prisma.messageTemplate.findFirst({
+      where: { key, language, status: 'APPROVED' },
+      orderBy: { version: 'desc' }
+    })
+    return record ? this.toTemplate(record) : null
+  }
+
+  /**
+   * Approved template for sending in the given language, or the English variant when
+   * that language has none approved. Throws when the key is unknown or nothing is approved yet.
+   */
+  static async resolve(key: string, language?: string | null): Promise<MessageTemplate> {
+    const requested = this.normalizeLanguage(language || DEFAULT_LANGUAGE)
+    const template = await this.getApproved(key, requested)
+      || (requested !== DEFAULT_LANGUAGE ? await this.getApproved(key, DEFAULT_LANGUAGE) : null)
+    if (template) return template
+
+    const exists = await prisma.messageTemplate.count({ where: { key } })
+    throw exists > 0
+      ? new TemplateError(`Template '${key}' has no approved version`, 'NOT_APPROVED')
+      : new TemplateError(`Template '${key}' not found`, 'NOT_FOUND')
+  }
+
+  /**
+   * formatMessage against the approved registry version of a template, in the
+   * contact's language where there is one
+   */
+  static async format(
+    key: string,
+    parameters: TemplateContext,
+    language?: string | null
+  ): Promise<{ success: boolean; message?: string; error?: string; template?: MessageTemplate }> {
+    try {
+      const template = await this.resolve(key, language)
+      return { ...formatMessage(template, parameters), template }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  }
+
+  static async getCategory(key: string): Promise<MessageTemplate['category'] | null> {
+    await this.ensureSeeded()
+
+    const record = await prisma.messageTemplate.findFirst({
+      where: { key },
+      orderBy: { version: 'desc' },
+      select: { category: true }
+    })
+    return record ? record.category as MessageTemplate['category'] : null
+  }
+
+  static async create(input: MessageTemplateInput, createdBy: string): Promise<MessageTemplate> {
+    await this.ensureSeeded()
+
+    const existing = await prisma.messageTemplate.count({ where: { key: input.key, language: input.language } })
+    if (existing > 0) {
+      throw new TemplateError(`A template with key '${input.key}' already exists for language '${input.language}'`, 'CONFLICT')
+    }
+
+    const record = await prisma.messageTemplate.create({
+      data: { ...this.toRecordData(input), version: 1, status: 'DRAFT', createdBy }
+    })
+    return this.toTemplate(record)
+  }
+
+  /**
+   * Drafts and rejected versions are edited in place. Editing a submitted or approved
+   * version creates a new draft version, so the approved one keeps sending until the
+   * new one is approved.
+   */
+  static async update(id: string, input: MessageTemplateInput, updatedBy: string): Promise<MessageTemplate> {
+    const current = await prisma.messageTemplate.findUnique({ where: { id } })
+    if (!current) throw new TemplateError('Template not found', 'NOT_FOUND')
+
+    const newest = await prisma.messageTemplate.findFirst({
+      where: { key: current.key, language: current.language },
+      orderBy: { version: 'desc' }
+    })
+    if (newest && newest.id !== current.id) {
+      throw new TemplateError(`Only the newest version (${newest.version}) of '${current.key}' can be edited`, 'CONFLICT')
+    }
+
+    const data = { ...this.toRecordData(input), key: current.key, language: current.language }
+
+    if (current.status === 'DRAFT' || current.status === 'REJECTED') {
+      const record = await prisma.messageTemplate.update({
+        where: { id },
+        data: { ...data, status: 'DRAFT', rejectionReason: null }
+      })
+      return this.toTemplate(record)
+    }
+
+    const record = await prisma.messageTemplate.create({
+      data: { ...data, version: current.version + 1, status: 'DRAFT', createdBy: updatedBy }
+    })
+    return this.toTemplate(record)
+  }
+
+  static async changeStatus(
+    id: string,
+    action: keyof typeof STATUS_TRANSITIONS,
+    reviewedBy: string,
+    reason?: string
+  ): Promise<MessageTemplate> {
+    const current = await prisma.messageTemplate.findUnique({ where: { id } })
+    if (!current) throw new TemplateError('Template not found', 'NOT_FOUND')
+
+    const transition = STATUS_TRANSITIONS[action]
+    if (!transition.from.includes(current.status as TemplateStatus)) {
+      throw new TemplateError(`Cannot ${action} a template in ${current.status} status`, 'INVALID_STATUS')
+    }
+
+    const record = await prisma.messageTemplate.update({
+      where: { id },
+      data: {
+        status: transition.to,
+        rejectionReason: action === 'reject' ? reason || 'Rejected' : null,
+        submittedAt: action === 'submit' ? new Date() : undefined,
+        reviewedAt: action === 'submit' ? undefined : new Date(),
+        reviewedBy: action === 'submit' ? undefined : reviewedBy
+      }
+    })
+    return this.toTemplate(record)
+  }
+
+  /**
+   * Remove every version of a template. Refused while an unfinished campaign uses it.
+   */
+  static async remove(id: string): Promise<number> {
+    const current = await prisma.messageTemplate.findUnique({ where: { id } })
+    if (!current) throw new TemplateError('Template not found', 'NOT_FOUND')
+
+    const inUse = await prisma.campaign.count({
+      where: {
+        templateName: current.key,
+        status: { in: ['DRAFT', 'SCHEDULED', 'LAUNCHING', 'RUNNING', 'PAUSED'] }
+      }
+    })
+    if (inUse > 0) {
+      throw new TemplateError(`Template '${current.key}' is used by ${inUse} active campaign(s)`, 'CONFLICT')
+    }
+
+    const result = await prisma.messageTemplate.deleteMany({
+      where: { key: current.key, language: current.language }
+    })
+    return result.count
+  }
+
+  /**
+   * Reconcile with the provider's template list: pending versions take the provider's
+   * verdict, approved ones the provider has rejected are marked rejected, and templates
+   * only the provider knows about are imported.
+   */
+  static async syncWithProvider(provider: MessagingProvider = getMessagingProvider()): Promise<TemplateSyncResult> {
+    await this.ensureSeeded()
+
+    const result: TemplateSyncResult = { checked: 0, updated: 0, imported: 0, errors: [] }
+    const providerTemplates = await provider.listTemplates()
+    const now = new Date()
+
+    for (const providerTemplate of providerTemplates) {
+      result.checked++
+      const language = this.normalizeLanguage(providerTemplate.language)
+
+      try {
+        const records = await prisma.messageTemplate.findMany({
+          where: {
+            language,
+            OR: [
+              { providerTemplateName: providerTemplate.name },
+              { providerTemplateName: null, key: providerTemplate.name }
+            ]
+          },
+          orderBy: { version: 'desc' }
+        })
+
+        if (records.length === 0) {
+          await this.importProviderTemplate(providerTemplate, language, now)
+          result.imported++
+          continue
+        }
+
+        // Only the newest submitted version is under review at the provider
+        const target = records.find(record => record.status !== 'DRAFT')
+        if (!target || target.status === providerTemplate.status) {
+          if (target) await prisma.messageTemplate.update({ where: { id: target.id }, data: { syncedAt: now } })
+          continue
+        }
+
+        const pendingDecision = target.status === 'PENDING' && providerTemplate.status !== 'PENDING'
+        const revoked = target.status === 'APPROVED' && providerTemplate.status === 'REJECTED'
+        if (!pendingDecision && !revoked) continue
+
+        await prisma.messageTemplate.update({
+          where: { id: target.id },
+          data: {
+            status: providerTemplate.status,
+            rejectionReason: providerTemplate.status === 'REJECTED' ? 'Rejected by provider' : null,
+            reviewedAt: now,
+            reviewedBy: `provider:${provider.name}`,
+            syncedAt: now
+          }
+        })
+        result.updated++
+      } catch (error) {
+        result.errors.push(`${providerTemplate.name}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Copy the built-in templates and their translations as approved version 1 into any
+   * language the registry has no templates for yet
+   */
+  static ensureSeeded(): Promise<void> {
+    if (!seeding) {
+      seeding = (async () => {
+        const seeded = await prisma.messageTemplate.groupBy({ by: ['language'] })
+        const seededLanguages = seeded.map(group => group.language)
+        const missing = getBuiltInTemplateVariants()
+          .filter(template => !seededLanguages.includes(template.language || DEFAULT_LANGUAGE))
+        if (missing.length === 0) return
+
+        await prisma.messageTemplate.createMany({
+          data: missing.map(template => ({
+            key: template.id,
+            version: 1,
+            language: template.language || DEFAULT_LANGUAGE,
+            name: template.name,
+            type: template.type,
+            category: template.category,
+            body: template.template,
+            parameters: JSON.stringify(template.parameters.map(name => ({ name, required: true }))),
+            description: template.description,
+            mediaSupported: template.mediaSupported,
+            status: 'APPROVED',
+            reviewedBy: 'system',
+            reviewedAt: new Date(),
+            createdBy: 'system'
+          }))
+        })
+      })().catch(error => {
+        // Let the next call try again
+        seeding = null
+        throw error
+      })
+    }
+    return seeding
+  }
+
+  private static async importProviderTemplate(
+    providerTemplate: Awaited<ReturnType<MessagingProvider['listTemplates']>>[number],
+    language: string,
+    now: Date
+  ): Promise<void> {
+    const body = providerTemplate.content || providerTemplate.components?.find(component => component.type === 'BODY')?.text || ''
+    const key = providerTemplate.name.toLowerCase().replace(/[^a-z0-9_]/g, '_')
+    const category = ['MARKETING', 'TRANSACTIONAL', 'OTP', 'NOTIFICATION'].includes(providerTemplate.category.toUpperCase())
+      ? providerTemplate.category.toUpperCase()
+      : providerTemplate.category.toUpperCase() === 'AUTHENTICATION' ? 'OTP' : 'TRANSACTIONAL'
+
+    await prisma.messageTemplate.create({
+      data: {
+        key,
+        version: 1,
+        language,
+        name: providerTemplate.name,
+        type: 'WHATSAPP',
+        category,
+        body,
+        parameters: JSON.stringify(describeTemplateParameters(body)),
+        description: 'Imported from provider',
+        mediaSupported: !!providerTemplate.components?.some(component => component.type === 'HEADER' && !component.text),
+        providerTemplateName: providerTemplate.name === key ? null : providerTemplate.name,
+        status: providerTemplate.status,
+        reviewedAt: now,
+        reviewedBy: 'provider',
+        syncedAt: now,
+        createdBy: 'provider'
+      }
+    })
+  }
+
+  private static toRecordData(input: MessageTemplateInput) {
+    return {
+      key: input.key,
+      language: input.language,
+      name: input.name,
+      type: input.type,
+      category: input.category,
+      body: input.body,
+      parameters: JSON.stringify(this.completeParameterSchema(input.body, input.parameters)),
+      description: input.description || null,
+      mediaSupported: input.mediaSupported,
+      mediaType: input.mediaSupported ? input.mediaType || null : null,
+      mediaUrl: input.mediaSupported ? input.mediaUrl || null : null,
+      providerTemplateName: input.providerTemplateName || null
+    }
+  }
+
+  /**
+   * Every placeholder in the body gets a schema entry, in body order; declared entries
+   * for placeholders the body no longer uses are dropped
+   */
+  private static completeParameterSchema(body: string, declared: TemplateParameter[]): TemplateParameter[] {
+    return describeTemplateParameters(body).map(parameter =>
+      declared.find(entry => entry.name === parameter.name) || parameter
+    )
+  }
+
+  private static normalizeLanguage(language: string): string {
+    return (language || DEFAULT_LANGUAGE).split(/[_-]/)[0].toLowerCase()
+  }
+
+  private static toTemplate(record: MessageTemplateRecord): MessageTemplate {
+    const parameterSchema = JSON.parse(record.parameters) as TemplateParameter[]
+
+    return {
+      id: record.key,
+      recordId: record.id,
+      version: record.version,
+      language: record.language,
+      name: record.name,
+      type: record.type as MessageTemplate['type'],
+      category: record.category as MessageTemplate['category'],
+      template: record.body,
+      parameters: parameterSchema.map(parameter => parameter.name),
+      parameterSchema,
+      description: record.description || '',
+      mediaSupported: record.mediaSupported,
+      mediaType: (record.mediaType || undefined) as MessageTemplate['mediaType'],
+      mediaUrl: record.mediaUrl || undefined,
+      providerTemplateName: record.providerTemplateName || undefined,
+      status: record.status as TemplateStatus,
+      rejectionReason: record.rejectionReason || undefined
+    }
+  }
+}
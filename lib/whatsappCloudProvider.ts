@@ -0,0 +1,473 @@
+/**
+ * WhatsApp Business Cloud API (Meta) provider
+ * Sends through the Graph API messages endpoint and parses the Cloud API webhook format.
+ * Point WHATSAPP_CLOUD_API_URL at scripts/whatsapp-cloud-stub.ts to test locally.
+ */
+
+import crypto from 'crypto'
+import Logger, { DataSource } from './logger'
+import type {
+  CallbackStatus,
+  MessagingProvider,
+  ProviderCallback,
+  ProviderResponse,
+  ProviderTemplate,
+  TemplateMessageParams,
+  MediaMessageParams,
+  OTPMessageParams,
+  TextMessageParams
+} from './messagingProvider'
+
+export interface WhatsAppCloudConfig {
+  apiUrl: string
+  apiVersion: string
+  phoneNumberId: string
+  businessAccountId: string
+  accessToken: string
+  templateLanguage: string
+}
+
+export type CloudMediaType = 'image' | 'video' | 'document'
+
+export interface CloudTemplateParameter {
+  type: 'text' | 'payload' | CloudMediaType
+  text?: string
+  payload?: string
+  image?: { link: string }
+  video?: { link: string }
+  document?: { link: string }
+}
+
+export interface CloudTemplateComponent {
+  type: 'header' | 'body' | 'button'
+  sub_type?: 'quick_reply' | 'url'
+  index?: string
+  parameters: CloudTemplateParameter[]
+}
+
+export interface InteractiveButton {
+  id: string
+  title: string
+}
+
+export interface InteractiveListSection {
+  title: string
+  rows: {
+    id: string
+    title: string
+    description?: string
+  }[]
+}
+
+export interface InteractiveOptions {
+  header?: string
+  footer?: string
+}
+
+// Limits from the Cloud API reference for interactive messages
+const MAX_REPLY_BUTTONS = 3
+const MAX_BUTTON_TITLE_LENGTH = 20
+const MAX_LIST_ROWS = 10
+const MAX_ROW_TITLE_LENGTH = 24
+
+const STATUS_MAP: Record<string, CallbackStatus> = {
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  failed: 'failed'
+}
+
+/**
+ * Check X-Hub-Signature-256: "sha256=" + HMAC-SHA256 of the raw body with the app secret
+ */
+export function verifyWhatsAppCloudSignature(rawBody: string, signatureHeader: string, appSecret: string): boolean {
+  if (!signatureHeader.startsWith('sha256=') || !appSecret) return false
+
+  const expected = crypto.createHmac('sha256', appSecret).update(rawBody).digest('hex')
+  const received = signatureHeader.substring(7)
+
+  // Anything but 64 hex digits would decode to a shorter buffer and make timingSafeEqual throw
+  if (!/^[0-9a-f]{64}$/i.test(received)) return false
+  return crypto.timingSafeEqual(Buffer.from(expected, 'hex'), Buffer.from(received, 'hex'))
+}
+
+export class WhatsAppCloudProvider implements MessagingProvider {
+  readonly name = 'whatsapp_cloud'
+  private config: WhatsAppCloudConfig
+
+  constructor(config: Partial<WhatsAppCloudConfig> = {}) {
+    this.config = {
+      apiUrl: process.env.WHATSAPP_CLOUD_API_URL || 'https://graph.facebook.com',
+      apiVersion: process.env.WHATSAPP_CLOUD_API_VERSION || 'v20.0',
+      phoneNumberId: process.env.WHATSAPP_CLOUD_PHONE_NUMBER_ID || '',
+      businessAccountId: process.env.WHATSAPP_CLOUD_BUSINESS_ACCOUNT_ID || '',
+      accessToken: process.env.WHATSAPP_CLOUD_ACCESS_TOKEN || '',
+      templateLanguage: process.env.WHATSAPP_CLOUD_TEMPLATE_LANGUAGE || 'en',
+      ...config
+    }
+
+    if (!this.config.accessToken || !this.config.phoneNumberId) {
+      Logger.warn(DataSource.API, 'whatsapp_cloud', 'WhatsApp Cloud API credentials not configured')
+    }
+  }
+
+  get senderId(): string {
+    return this.config.phoneNumberId
+  }
+
+  async sendText(params: TextMessageParams): Promise<ProviderResponse> {
+    if (params.channel === 'SMS') return this.smsNotSupported()
+
+    return this.sendToEach([params.phone], phone => this.postMessage(phone, {
+      type: 'text',
+      text: { preview_url: false, body: params.text }
+    }))
+  }
+
+  /**
+   * Positional parameters fill the template body's {{1}}, {{2}}, ...
+   */
+  async sendTemplate(params: TemplateMessageParams): Promise<ProviderResponse> {
+    if (params.channel === 'SMS') return this.smsNotSupported()
+    return this.sendTemplateMessage(params.phone, params.templateName, this.bodyComponents(params.parameters))
+  }
+
+  /**
+   * Media goes in the template header; the template must have a matching media header
+   */
+  async sendMedia(params: MediaMessageParams): Promise<ProviderResponse> {
+    if (params.channel === 'SMS') return this.smsNotSupported()
+
+    const header: CloudTemplateComponent = {
+      type: 'header',
+      parameters: [{ type: params.mediaType, [params.mediaType]: { link: params.mediaUrl } }]
+    }
+    return this.sendTemplateMessage(params.phone, params.templateName, [header, ...this.bodyComponents(params.parameters)])
+  }
+
+  /**
+   * Authentication templates take the code in the body and in the copy-code button
+   */
+  async sendOTP(params: OTPMessageParams): Promise<ProviderResponse> {
+    return this.sendTemplateMessage(params.phone, params.templateName, [
+      { type: 'body', parameters: [{ type: 'text', text: params.otp }] },
+      { type: 'button', sub_type: 'url', index: '0', parameters: [{ type: 'text', text: params.otp }] }
+    ])
+  }
+
+  async sendTemplateMessage(
+    phones: string[],
+    templateName: string,
+    components: CloudTemplateComponent[] = [],
+    language: string = this.config.templateLanguage
+  ): Promise<ProviderResponse> {
+    return this.sendToEach(phones, phone => this.postMessage(phone, {
+      type: 'template',
+      template: {
+        name: templateName,
+        language: { code: language },
+        ...(components.length > 0 ? { components } : {})
+      }
+    }))
+  }
+
+  /**
+   * Reply buttons. Only allowed inside the 24-hour customer service window.
+   */
+  async sendInteractiveButtons(
+    phone: string,
+    body: string,
+    buttons: InteractiveButton[],
+    options: InteractiveOptions = {}
+  ): Promise<ProviderResponse> {
+    if (buttons.length === 0 || buttons.length > MAX_REPLY_BUTTONS) {
+      return { success: false, error: `Interactive messages need 1-${MAX_REPLY_BUTTONS} buttons` }
+    }
+    const longTitle = buttons.find(button => button.title.length > MAX_BUTTON_TITLE_LENGTH)
+    if (longTitle) {
+      return { success: false, error: `Button title "${longTitle.title}" is longer than ${MAX_BUTTON_TITLE_LENGTH} characters` }
+    }
+
+    return this.sendToEach([phone], to => this.postMessage(to, {
+      type: 'interactive',
+      interactive: {
+        type: 'button',
+        ...this.interactiveFrame(body, options),
+        action: {
+          buttons: buttons.map(button => ({ type: 'reply', reply: { id: button.id, title: button.title } }))
+        }
+      }
+    }))
+  }
+
+  /**
+   * List message opened by a single button. Only allowed inside the 24-hour customer service window.
+   */
+  async sendInteractiveList(
+    phone: string,
+    body: string,
+    buttonText: string,
+    sections: InteractiveListSection[],
+    options: InteractiveOptions = {}
+  ): Promise<ProviderResponse> {
+    const rows = sections.flatMap(section => section.rows)
+    if (rows.length === 0 || rows.length > MAX_LIST_ROWS) {
+      return { success: false, error: `List messages need 1-${MAX_LIST_ROWS} rows` }
+    }
+    const longTitle = rows.find(row => row.title.length > MAX_ROW_TITLE_LENGTH)
+    if (longTitle) {
+      return { success: false, error: `Row title "${longTitle.title}" is longer than ${MAX_ROW_TITLE_LENGTH} characters` }
+    }
+
+    return this.sendToEach([phone], to => this.postMessage(to, {
+      type: 'interactive',
+      interactive: {
+        type: 'list',
+        ...this.interactiveFrame(body, options),
+        action: { button: buttonText, sections }
+      }
+    }))
+  }
+
+  /**
+   * Flatten the entry → changes → value envelope into one callback per status or message.
+   * Replies carry the ID of the message they answer, so they match our outbound record.
+   */
+  parseStatusCallback(payload: unknown): ProviderCallback[] {
+    const body = payload as Record<string, any>
+    if (!body || body.object !== 'whatsapp_business_account' || !Array.isArray(body.entry)) {
+      throw new Error('Not a WhatsApp Business Account webhook')
+    }
+
+    const callbacks: ProviderCallback[] = []
+
+    for (const entry of body.entry) {
+      for (const change of entry.changes || []) {
+        if (change.field !== 'messages') continue
+        const value = change.value || {}
+
+        for (const status of value.statuses || []) {
+          const mapped = STATUS_MAP[status.status]
+          if (!mapped) continue
+
+          callbacks.push({
+            messageId: status.id,
+            phone: status.recipient_id,
+            status: mapped,
+            timestamp: this.toIsoTimestamp(status.timestamp),
+            type: 'WHATSAPP'
+          })
+        }
+
+        for (const message of value.messages || []) {
+          callbacks.push({
+            messageId: message.context?.id || message.id,
+            phone: message.from,
+            status: 'replied',
+            content: this.extractContent(message),
+            timestamp: this.toIsoTimestamp(message.timestamp),
+            type: 'WHATSAPP'
+          })
+        }
+      }
+    }
+
+    return callbacks
+  }
+
+  async listTemplates(): Promise<ProviderTemplate[]> {
+    if (!this.config.businessAccountId) {
+      Logger.warn(DataSource.API, 'whatsapp_cloud', 'WHATSAPP_CLOUD_BUSINESS_ACCOUNT_ID not set, cannot list templates')
+      return []
+    }
+
+    const data = await this.request('GET', `${this.config.businessAccountId}/message_templates?limit=100`)
+    const templates = (data.data || []) as any[]
+
+    return templates.map(template => {
+      const components = (template.components || []) as any[]
+      const body = components.find(component => component.type === 'BODY')
+
+      return {
+        name: template.name,
+        content: body?.text || '',
+        category: template.category,
+        language: template.language,
+        status: ['APPROVED', 'REJECTED'].includes(template.status) ? template.status : 'PENDING',
+        components: components
+          .filter(component => ['HEADER', 'BODY', 'FOOTER', 'BUTTONS'].includes(component.type))
+          .map(component => ({
+            type: component.type,
+            text: component.text,
+            parameters: component.text ? component.text.match(/\{\{\d+\}\}/g) || undefined : undefined
+          }))
+      }
+    })
+  }
+
+  async testConnection(): Promise<{ success: boolean; message: string; details?: any }> {
+    if (!this.config.accessToken || !this.config.phoneNumberId) {
+      return {
+        success: false,
+        message: 'WhatsApp Cloud API not configured. Please set WHATSAPP_CLOUD_ACCESS_TOKEN and WHATSAPP_CLOUD_PHONE_NUMBER_ID.'
+      }
+    }
+
+    try {
+      const data = await this.request('GET', `${this.config.phoneNumberId}?fields=display_phone_number,verified_name,quality_rating`)
+      return {
+        success: true,
+        message: `Connected as ${data.verified_name || data.display_phone_number || this.config.phoneNumberId}`,
+        details: data
+      }
+    } catch (error) {
+      return {
+        success: false,
+        message: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }
+    }
+  }
+
+  getStatus(): {
+    configured: boolean
+    apiUrl: string
+    apiVersion: string
+    phoneNumberId: string
+    businessAccountId: string
+  } {
+    return {
+      configured: !!(this.config.accessToken && this.config.phoneNumberId),
+      apiUrl: this.config.apiUrl,
+      apiVersion: this.config.apiVersion,
+      phoneNumberId: this.config.phoneNumberId,
+      businessAccountId: this.config.businessAccountId
+    }
+  }
+
+  private async postMessage(phone: string, message: Record<string, any>): Promise<ProviderResponse> {
+    try {
+      const data = await this.request('POST', `${this.config.phoneNumberId}/messages`, {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: this.formatPhoneNumber(phone),
+        ...message
+      })
+
+      return {
+        success: true,
+        messageId: data.messages?.[0]?.id,
+        deliveryStatus: 'SENT',
+        data
+      }
+    } catch (error) {
+      Logger.error(DataSource.API, 'whatsapp_cloud', `WhatsApp Cloud ${message.type} message failed for ${phone}`, error)
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        errorCode: (error as { code?: string }).code
+      }
+    }
+  }
+
+  /**
+   * Call the Graph API. Errors come back as { error: { message, code } }.
+   */
+  private async request(method: 'GET' | 'POST', path: string, body?: Record<string, any>): Promise<any> {
+    const response = await fetch(`${this.config.apiUrl}/${this.config.apiVersion}/${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${this.config.accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: body ? JSON.stringify(body) : undefined
+    })
+
+    const data = await response.json().catch(() => ({}))
+
+    if (!response.ok || data.error) {
+      const error = new Error(data.error?.message || `HTTP ${response.status}`) as Error & { code?: string }
+      error.code = data.error?.code !== undefined ? String(data.error.code) : String(response.status)
+      throw error
+    }
+
+    return data
+  }
+
+  private async sendToEach(
+    phones: string[],
+    send: (phone: string) => Promise<ProviderResponse>
+  ): Promise<ProviderResponse> {
+    const results = await Promise.all(phones.map(phone => send(phone)))
+    const failed = results.find(result => !result.success)
+
+    return {
+      success: !failed,
+      messageId: results[0]?.messageId,
+      deliveryStatus: failed ? 'FAILED' : 'SENT',
+      data: results.map(result => result.data),
+      error: failed?.error,
+      errorCode: failed?.errorCode,
+      recipients: results.map((result, index) => ({
+        phone: phones[index],
+        success: result.success,
+        messageId: result.messageId,
+        error: result.error
+      }))
+    }
+  }
+
+  private bodyComponents(parameters?: string[]): CloudTemplateComponent[] {
+    if (!parameters || parameters.length === 0) return []
+    return [{ type: 'body', parameters: parameters.map(text => ({ type: 'text', text })) }]
+  }
+
+  private interactiveFrame(body: string, options: InteractiveOptions) {
+    return {
+      ...(options.header ? { header: { type: 'text', text: options.header } } : {}),
+      body: { text: body },
+      ...(options.footer ? { footer: { text: options.footer } } : {})
+    }
+  }
+
+  private extractContent(message: any): string {
+    switch (message.type) {
+      case 'text':
+        return message.text?.body || ''
+      case 'button':
+        return message.button?.text || message.button?.payload || ''
+      case 'interactive':
+        return message.interactive?.button_reply?.title || message.interactive?.list_reply?.title || ''
+      default:
+        return message[message.type]?.caption || `[${message.type}]`
+    }
+  }
+
+  private toIsoTimestamp(seconds: string | number | undefined): string {
+    const parsed = Number(seconds)
+    return new Date(Number.isFinite(parsed) && parsed > 0 ? parsed * 1000 : Date.now()).toISOString()
+  }
+
+  /**
+   * Cloud API wants the full international number without "+"; bare Indian numbers get 91
+   */
+  private formatPhoneNumber(phone: string): string {
+    const cleaned = phone.replace(/\D/g, '')
+    return cleaned.length === 10 ? `91${cleaned}` : cleaned
+  }
+
+  private smsNotSupported(): ProviderResponse {
+    return { success: false, error: 'WhatsApp Cloud API cannot send SMS', errorCode: 'CHANNEL_NOT_SUPPORTED' }
+  }
+}
+
+let whatsappCloudProviderInstance: WhatsAppCloudProvider | null = null
+
+export function getWhatsAppCloudProvider(): WhatsAppCloudProvider {
+  if (!whatsappCloudProviderInstance) {
+    whatsappCloudProviderInstance = new WhatsAppCloudProvider()
+  }
+  return whatsappCloudProviderInstance
+}
+
+export default WhatsAppCloudProvider
@@ -0,0 +1,70 @@
+/**
+ * Wall-clock times in a named time zone, e.g. a campaign scheduled for 10:00 in
+ * Asia/Kolkata whoever schedules it. Pure so the campaign pages can use it too.
+ */
+
+export interface LocalParts {
+  year: number
+  month: number
+  day: number
+  // Minutes since local midnight
+  minutes: number
+}
+
+// Day names as send windows and working schedules store them, indexed by Date.getUTCDay()
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export function getLocalParts(at: Date, timeZone: string): LocalParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at)
+
+  const value = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0')
+  return {
+    year: value('year'),
+    month: value('month'),
+    day: value('day'),
+    minutes: value('hour') * 60 + value('minute')
+  }
+}
+
+export function getWeekday(local: LocalParts): string {
+  return WEEKDAY_NAMES[new Date(Date.UTC(local.year, local.month - 1, local.day)).getUTCDay()]
+}
+
+// Wall-clock time on a local date as an instant, using the zone's offset at that moment
+export function toUtc(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, Math.floor(minutes / 60), minutes % 60)
+  const asLocal = getLocalParts(new Date(wallClock), timeZone)
+  const offset = Date.UTC(asLocal.year, asLocal.month - 1, asLocal.day, Math.floor(asLocal.minutes / 60), asLocal.minutes % 60) - wallClock
+  return new Date(wallClock - offset)
+}
+
+/**
+ * A datetime-local value (YYYY-MM-DDTHH:mm) read in `timeZone`, or null if malformed
+ */
+export function parseZonedDateTime(value: string, timeZone: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/.exec(value)
+  if (!match) return null
+
+  const [, year, month, day, hour, minute] = match.map(Number)
+  return toUtc(year, month, day, hour * 60 + minute, timeZone)
+}
+
+/**
+ * An instant as a datetime-local value (YYYY-MM-DDTHH:mm) in `timeZone`
+ */
+export function formatZonedDateTime(at: Date, timeZone: string): string {
+  const local = getLocalParts(at, timeZone)
+  return `${local.year}-${pad(local.month)}-${pad(local.day)}T${pad(Math.floor(local.minutes / 60))}:${pad(local.minutes % 60)}`
+}
+
+function pad(value: number): string {
+  return value < 10 ? `0${value}` : String(value)
+}
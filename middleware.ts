@@ -13,6 +13,9 @@ export function middleware(request: NextRequest) {
     pathname === '/admin' ||
     pathname.startsWith('/api/auth/') ||
     pathname.startsWith('/api/test/') ||
+    pathname.startsWith('/api/webhooks/') ||
+    pathname.startsWith('/api/otp/') ||
+    /^\/api\/applications(\/[^/]+\/documents)?$/.test(pathname) ||
     pathname.startsWith('/about') ||
     pathname.startsWith('/contact') ||
     pathname.startsWith('/apply') ||
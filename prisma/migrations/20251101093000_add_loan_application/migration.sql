@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "LoanApplication" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "applicationNumber" TEXT NOT NULL,
+    "firstName" TEXT NOT NULL,
+    "lastName" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "dateOfBirth" DATETIME NOT NULL,
+    "gender" TEXT NOT NULL,
+    "maritalStatus" TEXT,
+    "address" TEXT NOT NULL,
+    "city" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "pincode" TEXT,
+    "loanType" TEXT NOT NULL,
+    "loanAmount" REAL NOT NULL,
+    "tenure" INTEGER NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "employmentType" TEXT NOT NULL,
+    "companyName" TEXT NOT NULL,
+    "designation" TEXT,
+    "workExperience" REAL NOT NULL,
+    "monthlyIncome" REAL NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'SUBMITTED',
+    "leadId" TEXT,
+    "contactId" TEXT,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LoanApplication_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "LoanApplication_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "Contact" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoanApplication_applicationNumber_key" ON "LoanApplication"("applicationNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LoanApplication_leadId_key" ON "LoanApplication"("leadId");
+
+-- CreateIndex
+CREATE INDEX "LoanApplication_phone_idx" ON "LoanApplication"("phone");
+
+-- CreateIndex
+CREATE INDEX "LoanApplication_status_idx" ON "LoanApplication"("status");
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Contact" ADD COLUMN "phoneVerified" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Contact" ADD COLUMN "phoneVerifiedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "OtpVerification" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "phone" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL DEFAULT 'PHONE_VERIFICATION',
+    "codeHash" TEXT NOT NULL,
+    "expiresAt" DATETIME NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "sendCount" INTEGER NOT NULL DEFAULT 1,
+    "lastSentAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "verifiedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "OtpVerification_phone_purpose_idx" ON "OtpVerification"("phone", "purpose");
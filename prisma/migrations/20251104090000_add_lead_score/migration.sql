@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "Lead" ADD COLUMN "score" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Lead" ADD COLUMN "scoreConfidence" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Lead" ADD COLUMN "qualityBand" TEXT;
+ALTER TABLE "Lead" ADD COLUMN "scoreUpdatedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "LeadScoreHistory" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leadId" TEXT NOT NULL,
+    "oldScore" INTEGER,
+    "newScore" INTEGER NOT NULL,
+    "oldPriority" TEXT,
+    "newPriority" TEXT NOT NULL,
+    "confidence" INTEGER NOT NULL,
+    "qualityBand" TEXT NOT NULL,
+    "factors" TEXT,
+    "source" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "LeadScoreHistory_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "Lead_score_idx" ON "Lead"("score");
+
+-- CreateIndex
+CREATE INDEX "LeadScoreHistory_leadId_createdAt_idx" ON "LeadScoreHistory"("leadId", "createdAt");
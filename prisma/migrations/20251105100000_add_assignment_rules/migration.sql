@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "AssignmentRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "conditions" TEXT NOT NULL,
+    "assignmentStrategy" TEXT NOT NULL,
+    "targetUsers" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AssignmentRule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "EmployeeSkill" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "skill" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "EmployeeSkill_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AssignmentRule_isActive_priority_idx" ON "AssignmentRule"("isActive", "priority");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmployeeSkill_userId_skill_key" ON "EmployeeSkill"("userId", "skill");
+
+-- Seed the rules that were previously hardcoded in LeadAssignmentService
+INSERT INTO "AssignmentRule" ("id", "name", "priority", "conditions", "assignmentStrategy", "targetUsers", "isActive", "updatedAt") VALUES
+    ('default-high-value-loans', 'High Value Loans', 1, '{"loanAmountMin":1000000,"leadPriority":["HIGH","URGENT"]}', 'SKILL_BASED', '[]', true, CURRENT_TIMESTAMP),
+    ('default-business-loans', 'Business Loans', 2, '{"loanType":["BUSINESS"]}', 'SKILL_BASED', '[]', true, CURRENT_TIMESTAMP),
+    ('default-round-robin', 'Round Robin Default', 999, '{}', 'ROUND_ROBIN', '[]', true, CURRENT_TIMESTAMP);
+
+-- Existing employees keep the skills that were previously assumed for everyone
+INSERT INTO "EmployeeSkill" ("id", "userId", "skill")
+SELECT lower(hex(randomblob(12))), "User"."id", "skills"."skill"
+FROM "User"
+CROSS JOIN (SELECT 'PERSONAL' AS "skill" UNION ALL SELECT 'BUSINESS' UNION ALL SELECT 'RETAIL') AS "skills"
+WHERE "User"."role" = 'EMPLOYEE';
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "EscalationRule" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "conditions" TEXT NOT NULL,
+    "actions" TEXT NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "EscalationRule_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "LeadEscalation" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "leadId" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "ruleName" TEXT NOT NULL,
+    "assignedToId" TEXT,
+    "actionsTaken" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'OPEN',
+    "acknowledgedById" TEXT,
+    "acknowledgedAt" DATETIME,
+    "resolvedById" TEXT,
+    "resolvedAt" DATETIME,
+    "resolution" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "LeadEscalation_leadId_fkey" FOREIGN KEY ("leadId") REFERENCES "Lead" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "LeadEscalation_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "EscalationRule" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "LeadEscalation_assignedToId_fkey" FOREIGN KEY ("assignedToId") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "LeadEscalation_acknowledgedById_fkey" FOREIGN KEY ("acknowledgedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "LeadEscalation_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "EscalationRule_isActive_priority_idx" ON "EscalationRule"("isActive", "priority");
+
+-- CreateIndex
+CREATE INDEX "LeadEscalation_status_idx" ON "LeadEscalation"("status");
+
+-- CreateIndex
+CREATE INDEX "LeadEscalation_leadId_ruleId_idx" ON "LeadEscalation"("leadId", "ruleId");
+
+-- CreateIndex
+CREATE INDEX "LeadEscalation_assignedToId_createdAt_idx" ON "LeadEscalation"("assignedToId", "createdAt");
+
+-- Seed the rules that were previously hardcoded in LeadAssignmentService
+INSERT INTO "EscalationRule" ("id", "name", "priority", "conditions", "actions", "isActive", "updatedAt") VALUES
+    ('default-no-response-24h', 'No Response 24 Hours', 1, '{"noResponseHours":24,"priority":["HIGH","URGENT"]}', '[{"type":"NOTIFY_MANAGER","notificationMessage":"High priority lead has not been contacted in 24 hours"}]', true, CURRENT_TIMESTAMP),
+    ('default-stale-lead-72h', 'Stale Lead 72 Hours', 2, '{"leadAge":72,"status":["NEW","CONTACTED"]}', '[{"type":"INCREASE_PRIORITY"},{"type":"NOTIFY_MANAGER","notificationMessage":"Lead is stale and needs attention"}]', true, CURRENT_TIMESTAMP);
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "maxCapacity" INTEGER NOT NULL DEFAULT 10;
+ALTER TABLE "User" ADD COLUMN "workingHoursStart" TEXT NOT NULL DEFAULT '09:00';
+ALTER TABLE "User" ADD COLUMN "workingHoursEnd" TEXT NOT NULL DEFAULT '18:00';
+ALTER TABLE "User" ADD COLUMN "workingDays" TEXT NOT NULL DEFAULT '["Monday","Tuesday","Wednesday","Thursday","Friday"]';
+ALTER TABLE "User" ADD COLUMN "timeZone" TEXT NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- CreateTable
+CREATE TABLE "OutOfOffice" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "userId" TEXT NOT NULL,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "reason" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "OutOfOffice_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "OutOfOffice_userId_endDate_idx" ON "OutOfOffice"("userId", "endDate");
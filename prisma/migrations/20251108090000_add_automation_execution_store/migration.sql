@@ -0,0 +1,81 @@
+-- CreateTable
+CREATE TABLE "AutomationExecution" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "automationId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "triggerData" TEXT,
+    "targetCount" INTEGER NOT NULL DEFAULT 0,
+    "successCount" INTEGER NOT NULL DEFAULT 0,
+    "failureCount" INTEGER NOT NULL DEFAULT 0,
+    "errors" TEXT NOT NULL DEFAULT '[]',
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" DATETIME,
+    CONSTRAINT "AutomationExecution_automationId_fkey" FOREIGN KEY ("automationId") REFERENCES "Automation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AutomationExecutionLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "executionId" TEXT NOT NULL,
+    "level" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "metadata" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AutomationExecutionLog_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "AutomationExecution" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AutomationRetry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "executionId" TEXT NOT NULL,
+    "automationId" TEXT NOT NULL,
+    "actionType" TEXT NOT NULL,
+    "actionIndex" INTEGER,
+    "targetId" TEXT,
+    "attempt" INTEGER NOT NULL,
+    "retryPolicy" TEXT NOT NULL,
+    "error" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'PENDING',
+    "scheduledAt" DATETIME NOT NULL,
+    "executedAt" DATETIME,
+    "nextRetryAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AutomationRetry_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "AutomationExecution" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AutomationFailureNotification" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "executionId" TEXT,
+    "automationId" TEXT NOT NULL,
+    "automationName" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "details" TEXT NOT NULL,
+    "acknowledged" BOOLEAN NOT NULL DEFAULT false,
+    "acknowledgedBy" TEXT,
+    "acknowledgedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AutomationFailureNotification_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "AutomationExecution" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "AutomationFailureNotification_automationId_fkey" FOREIGN KEY ("automationId") REFERENCES "Automation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AutomationExecution_automationId_startedAt_idx" ON "AutomationExecution"("automationId", "startedAt");
+
+-- CreateIndex
+CREATE INDEX "AutomationExecution_status_idx" ON "AutomationExecution"("status");
+
+-- CreateIndex
+CREATE INDEX "AutomationExecutionLog_executionId_createdAt_idx" ON "AutomationExecutionLog"("executionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AutomationRetry_status_scheduledAt_idx" ON "AutomationRetry"("status", "scheduledAt");
+
+-- CreateIndex
+CREATE INDEX "AutomationRetry_executionId_idx" ON "AutomationRetry"("executionId");
+
+-- CreateIndex
+CREATE INDEX "AutomationFailureNotification_acknowledged_createdAt_idx" ON "AutomationFailureNotification"("acknowledged", "createdAt");
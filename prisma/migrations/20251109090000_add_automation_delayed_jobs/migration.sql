@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "AutomationDelayedJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "executionId" TEXT NOT NULL,
+    "automationId" TEXT NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "nextActionIndex" INTEGER NOT NULL,
+    "runAt" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'WAITING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "cancelledBy" TEXT,
+    "completedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "AutomationDelayedJob_executionId_fkey" FOREIGN KEY ("executionId") REFERENCES "AutomationExecution" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AutomationDelayedJob_automationId_fkey" FOREIGN KEY ("automationId") REFERENCES "Automation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "AutomationDelayedJob_status_runAt_idx" ON "AutomationDelayedJob"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "AutomationDelayedJob_executionId_status_idx" ON "AutomationDelayedJob"("executionId", "status");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AutomationDelayedJob" ADD COLUMN "replyActionIndex" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "AutomationDelayedJob_targetId_status_idx" ON "AutomationDelayedJob"("targetId", "status");
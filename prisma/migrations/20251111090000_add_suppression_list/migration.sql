@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "Suppression" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "phone" TEXT NOT NULL,
+    "channel" TEXT NOT NULL DEFAULT 'ALL',
+    "reason" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "keyword" TEXT,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "SuppressionLog" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "action" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "reason" TEXT,
+    "source" TEXT NOT NULL,
+    "note" TEXT,
+    "performedBy" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Suppression_phone_channel_key" ON "Suppression"("phone", "channel");
+
+-- CreateIndex
+CREATE INDEX "SuppressionLog_phone_idx" ON "SuppressionLog"("phone");
+
+-- CreateIndex
+CREATE INDEX "SuppressionLog_createdAt_idx" ON "SuppressionLog"("createdAt");
@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "ContactConsent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "contactId" TEXT NOT NULL,
+    "channel" TEXT NOT NULL,
+    "purpose" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "evidence" TEXT,
+    "expiresAt" DATETIME,
+    "recordedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ContactConsent_contactId_fkey" FOREIGN KEY ("contactId") REFERENCES "Contact" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ContactConsent_contactId_purpose_createdAt_idx" ON "ContactConsent"("contactId", "purpose", "createdAt");
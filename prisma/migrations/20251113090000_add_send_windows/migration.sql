@@ -0,0 +1,39 @@
+-- CreateTable
+CREATE TABLE "SendWindow" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "campaignId" TEXT,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "days" TEXT NOT NULL,
+    "timeZone" TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "updatedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SendWindow_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "DeferredMessage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "source" TEXT NOT NULL,
+    "campaignId" TEXT,
+    "contactId" TEXT,
+    "phone" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "content" TEXT,
+    "releaseAt" DATETIME NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'DEFERRED',
+    "releasedAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "DeferredMessage_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SendWindow_campaignId_key" ON "SendWindow"("campaignId");
+
+-- CreateIndex
+CREATE INDEX "DeferredMessage_status_releaseAt_idx" ON "DeferredMessage"("status", "releaseAt");
+
+-- CreateIndex
+CREATE INDEX "DeferredMessage_campaignId_status_idx" ON "DeferredMessage"("campaignId", "status");
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "MessageTemplate" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "key" TEXT NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "language" TEXT NOT NULL DEFAULT 'en',
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "parameters" TEXT NOT NULL,
+    "description" TEXT,
+    "mediaSupported" BOOLEAN NOT NULL DEFAULT false,
+    "mediaType" TEXT,
+    "mediaUrl" TEXT,
+    "providerTemplateName" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "rejectionReason" TEXT,
+    "submittedAt" DATETIME,
+    "reviewedAt" DATETIME,
+    "reviewedBy" TEXT,
+    "syncedAt" DATETIME,
+    "createdBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageTemplate_key_language_version_key" ON "MessageTemplate"("key", "language", "version");
+
+-- CreateIndex
+CREATE INDEX "MessageTemplate_status_idx" ON "MessageTemplate"("status");
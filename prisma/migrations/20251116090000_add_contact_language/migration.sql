@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Contact" ADD COLUMN "preferredLanguage" TEXT;
+ALTER TABLE "Contact" ADD COLUMN "languageSource" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "language" TEXT;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "SendRateLimit" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL DEFAULT '*',
+    "messagesPerSecond" REAL NOT NULL,
+    "burst" INTEGER NOT NULL,
+    "dailyCap" INTEGER,
+    "isEnabled" BOOLEAN NOT NULL DEFAULT true,
+    "updatedBy" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "SendRateUsage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "provider" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SendRateLimit_provider_senderId_key" ON "SendRateLimit"("provider", "senderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SendRateUsage_provider_senderId_day_key" ON "SendRateUsage"("provider", "senderId", "day");
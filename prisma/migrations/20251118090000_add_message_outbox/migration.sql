@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "OutboxMessage" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "idempotencyKey" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'QUEUED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "nextAttemptAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" DATETIME,
+    "lockedBy" TEXT,
+    "campaignId" TEXT,
+    "contactId" TEXT,
+    "phone" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "kind" TEXT NOT NULL DEFAULT 'TEMPLATE',
+    "provider" TEXT,
+    "templateName" TEXT,
+    "language" TEXT,
+    "context" TEXT,
+    "parameters" TEXT,
+    "content" TEXT NOT NULL,
+    "mediaUrl" TEXT,
+    "mediaType" TEXT,
+    "sentById" TEXT,
+    "messageId" TEXT,
+    "providerMessageId" TEXT,
+    "lastError" TEXT,
+    "lastErrorCode" TEXT,
+    "sentAt" DATETIME,
+    "deadAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "OutboxMessage_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OutboxMessage_idempotencyKey_key" ON "OutboxMessage"("idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "OutboxMessage_status_nextAttemptAt_idx" ON "OutboxMessage"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "OutboxMessage_campaignId_status_idx" ON "OutboxMessage"("campaignId", "status");
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "Segment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "rules" TEXT NOT NULL,
+    "systemKey" TEXT,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Segment_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Campaign" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "templateName" TEXT,
+    "parameters" TEXT,
+    "mediaUrl" TEXT,
+    "mediaType" TEXT,
+    "provider" TEXT,
+    "segmentId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "scheduledAt" DATETIME,
+    "sentAt" DATETIME,
+    "totalSent" INTEGER NOT NULL DEFAULT 0,
+    "totalDelivered" INTEGER NOT NULL DEFAULT 0,
+    "totalReplies" INTEGER NOT NULL DEFAULT 0,
+    "totalFailed" INTEGER NOT NULL DEFAULT 0,
+    "createdById" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "Campaign_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "Campaign_segmentId_fkey" FOREIGN KEY ("segmentId") REFERENCES "Segment" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Campaign" ("createdAt", "createdById", "id", "mediaType", "mediaUrl", "message", "name", "parameters", "provider", "scheduledAt", "sentAt", "status", "templateName", "totalDelivered", "totalFailed", "totalReplies", "totalSent", "type", "updatedAt") SELECT "createdAt", "createdById", "id", "mediaType", "mediaUrl", "message", "name", "parameters", "provider", "scheduledAt", "sentAt", "status", "templateName", "totalDelivered", "totalFailed", "totalReplies", "totalSent", "type", "updatedAt" FROM "Campaign";
+DROP TABLE "Campaign";
+ALTER TABLE "new_Campaign" RENAME TO "Campaign";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Segment_systemKey_key" ON "Segment"("systemKey");
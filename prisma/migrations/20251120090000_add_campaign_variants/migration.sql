@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN "abTestMode" TEXT;
+ALTER TABLE "Campaign" ADD COLUMN "abTestPercent" INTEGER;
+ALTER TABLE "Campaign" ADD COLUMN "abTestWindowHours" INTEGER;
+ALTER TABLE "Campaign" ADD COLUMN "abTestEndsAt" DATETIME;
+
+-- AlterTable
+ALTER TABLE "CampaignContact" ADD COLUMN "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "OutboxMessage" ADD COLUMN "variantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CampaignVariant" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "campaignId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "templateName" TEXT,
+    "parameters" TEXT,
+    "mediaUrl" TEXT,
+    "mediaType" TEXT,
+    "weight" INTEGER NOT NULL DEFAULT 1,
+    "isWinner" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "CampaignVariant_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CampaignVariant_campaignId_idx" ON "CampaignVariant"("campaignId");
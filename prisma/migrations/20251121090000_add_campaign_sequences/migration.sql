@@ -0,0 +1,48 @@
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN "kind" TEXT NOT NULL DEFAULT 'ONE_OFF';
+ALTER TABLE "Campaign" ADD COLUMN "recurrenceRule" TEXT;
+ALTER TABLE "Campaign" ADD COLUMN "recurrenceTimeZone" TEXT;
+ALTER TABLE "Campaign" ADD COLUMN "nextRunAt" DATETIME;
+ALTER TABLE "Campaign" ADD COLUMN "runCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Campaign" ADD COLUMN "recurringParentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "CampaignStep" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "campaignId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "delayMinutes" INTEGER NOT NULL DEFAULT 0,
+    "message" TEXT NOT NULL,
+    "templateName" TEXT,
+    "parameters" TEXT,
+    "mediaUrl" TEXT,
+    "mediaType" TEXT,
+    "exitOn" TEXT NOT NULL DEFAULT '[]',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "CampaignStep_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "SequenceEnrollment" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "campaignId" TEXT NOT NULL,
+    "contactId" TEXT NOT NULL,
+    "stepIndex" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'ACTIVE',
+    "exitReason" TEXT,
+    "nextStepAt" DATETIME,
+    "lastStepAt" DATETIME,
+    "enrolledAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "SequenceEnrollment_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CampaignStep_campaignId_position_key" ON "CampaignStep"("campaignId", "position");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SequenceEnrollment_campaignId_contactId_key" ON "SequenceEnrollment"("campaignId", "contactId");
+
+-- CreateIndex
+CREATE INDEX "SequenceEnrollment_status_nextStepAt_idx" ON "SequenceEnrollment"("status", "nextStepAt");
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN "scheduledTimeZone" TEXT;
+ALTER TABLE "Campaign" ADD COLUMN "launchLeaseOwner" TEXT;
+ALTER TABLE "Campaign" ADD COLUMN "launchLeaseExpiresAt" DATETIME;
+ALTER TABLE "Campaign" ADD COLUMN "launchedAt" DATETIME;
+ALTER TABLE "Campaign" ADD COLUMN "launchLagMs" INTEGER;
+ALTER TABLE "Campaign" ADD COLUMN "launchError" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Campaign_status_scheduledAt_idx" ON "Campaign"("status", "scheduledAt");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "CampaignReport" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "campaignId" TEXT NOT NULL,
+    "campaignName" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "snapshot" TEXT NOT NULL,
+    "createdById" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "CampaignReport_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CampaignReport_campaignId_createdAt_idx" ON "CampaignReport"("campaignId", "createdAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AutomationDelayedJob" ADD COLUMN "lockedAt" DATETIME;
+ALTER TABLE "AutomationDelayedJob" ADD COLUMN "lockedBy" TEXT;
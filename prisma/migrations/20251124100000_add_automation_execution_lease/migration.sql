@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "AutomationExecution" ADD COLUMN "leaseOwner" TEXT;
+ALTER TABLE "AutomationExecution" ADD COLUMN "leaseExpiresAt" DATETIME;
@@ -38,6 +38,17 @@ async function main() {
 
   console.log('✅ Created employee user:', employee.email)
 
+  // Give the employee the skills every user had before skills were configurable
+  for (const skill of ['PERSONAL', 'BUSINESS', 'RETAIL']) {
+    await prisma.employeeSkill.upsert({
+      where: { userId_skill: { userId: employee.id, skill } },
+      update: {},
+      create: { userId: employee.id, skill },
+    })
+  }
+
+  console.log('✅ Assigned employee skills')
+
   // Create some sample contacts
   const contacts = [
     {
@@ -0,0 +1,230 @@
+/**
+ * Local stand-in for the WhatsApp Cloud API
+ *
+ *   npm run stub:whatsapp-cloud
+ *
+ * Run the app with WHATSAPP_CLOUD_API_URL=http://localhost:4010 and the same
+ * WHATSAPP_CLOUD_APP_SECRET. Every accepted message gets signed sent/delivered/read
+ * webhooks (failed for STUB_FAIL_PHONES) posted to /api/webhooks/whatsapp-cloud.
+ *
+ *   GET  /messages                    messages received so far
+ *   POST /reply { messageId?, phone?, text }   customer reply or new inbound message
+ */
+
+import http from 'http'
+import crypto from 'crypto'
+
+const PORT = parseInt(process.env.STUB_PORT || '4010')
+const WEBHOOK_URL = process.env.WHATSAPP_CLOUD_WEBHOOK_URL || 'http://localhost:3000/api/webhooks/whatsapp-cloud'
+const APP_SECRET = process.env.WHATSAPP_CLOUD_APP_SECRET || 'stub-app-secret'
+const ACCESS_TOKEN = process.env.WHATSAPP_CLOUD_ACCESS_TOKEN || ''
+const PHONE_NUMBER_ID = process.env.WHATSAPP_CLOUD_PHONE_NUMBER_ID || '100000000000001'
+const STATUS_DELAY_MS = parseInt(process.env.STUB_STATUS_DELAY_MS || '1000')
+const FAIL_PHONES = (process.env.STUB_FAIL_PHONES || '')
+  .split(',')
+  .map(phone => phone.replace(/\D/g, '').slice(-10))
+  .filter(Boolean)
+
+interface StubMessage {
+  id: string
+  to: string
+  type: string
+  body: any
+  receivedAt: string
+}
+
+const messages: StubMessage[] = []
+
+const TEMPLATES = [
+  {
+    name: 'loan_offer',
+    language: 'en',
+    category: 'MARKETING',
+    status: 'APPROVED',
+    components: [{ type: 'BODY', text: 'Hi {{1}}, you are pre-approved for a loan of up to ₹{{2}}. Reply YES to know more.' }]
+  },
+  {
+    name: 'otp_verification',
+    language: 'en',
+    category: 'AUTHENTICATION',
+    status: 'APPROVED',
+    components: [
+      { type: 'BODY', text: '{{1}} is your verification code.' },
+      { type: 'BUTTONS', buttons: [{ type: 'URL', text: 'Copy code' }] }
+    ]
+  }
+]
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function graphError(res: http.ServerResponse, status: number, code: number, message: string): void {
+  sendJson(res, status, { error: { message, type: 'OAuthException', code, fbtrace_id: crypto.randomUUID() } })
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', chunk => { data += chunk })
+    req.on('end', () => resolve(data))
+    req.on('error', reject)
+  })
+}
+
+async function postWebhook(value: Record<string, any>): Promise<void> {
+  const body = JSON.stringify({
+    object: 'whatsapp_business_account',
+    entry: [{
+      id: 'stub-waba',
+      changes: [{
+        field: 'messages',
+        value: {
+          messaging_product: 'whatsapp',
+          metadata: { display_phone_number: '15550000000', phone_number_id: PHONE_NUMBER_ID },
+          ...value
+        }
+      }]
+    }]
+  })
+  const signature = crypto.createHmac('sha256', APP_SECRET).update(body).digest('hex')
+
+  try {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Hub-Signature-256': `sha256=${signature}` },
+      body
+    })
+    console.log(`→ webhook ${response.status}`, Object.keys(value).join(','))
+  } catch (error) {
+    console.error('Failed to post webhook:', error instanceof Error ? error.message : error)
+  }
+}
+
+function scheduleStatuses(message: StubMessage): void {
+  const failed = FAIL_PHONES.includes(message.to.slice(-10))
+  const statuses = failed ? ['failed'] : ['sent', 'delivered', 'read']
+
+  statuses.forEach((status, index) => {
+    setTimeout(() => {
+      postWebhook({
+        statuses: [{
+          id: message.id,
+          status,
+          timestamp: Math.floor(Date.now() / 1000).toString(),
+          recipient_id: message.to,
+          ...(status === 'failed'
+            ? { errors: [{ code: 131026, title: 'Message undeliverable' }] }
+            : {})
+        }]
+      })
+    }, STATUS_DELAY_MS * (index + 1))
+  })
+}
+
+async function handleSend(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  let body: any
+  try {
+    body = JSON.parse(await readBody(req))
+  } catch {
+    return graphError(res, 400, 100, 'Invalid JSON body')
+  }
+
+  if (body.messaging_product !== 'whatsapp' || !body.to || !body.type) {
+    return graphError(res, 400, 100, 'messaging_product, to and type are required')
+  }
+  if (body.type === 'template' && !body.template?.name) {
+    return graphError(res, 400, 132000, 'Template name is required')
+  }
+  if (body.type === 'template' && !TEMPLATES.some(template => template.name === body.template.name)) {
+    return graphError(res, 404, 132001, `Template name does not exist in the translation: ${body.template.name}`)
+  }
+
+  const message: StubMessage = {
+    id: `wamid.${crypto.randomBytes(12).toString('hex')}`,
+    to: String(body.to),
+    type: body.type,
+    body,
+    receivedAt: new Date().toISOString()
+  }
+  messages.push(message)
+  console.log(`← ${message.type} to ${message.to} (${message.id})`)
+
+  scheduleStatuses(message)
+
+  sendJson(res, 200, {
+    messaging_product: 'whatsapp',
+    contacts: [{ input: message.to, wa_id: message.to }],
+    messages: [{ id: message.id }]
+  })
+}
+
+async function handleReply(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+  const { messageId, phone, text } = JSON.parse((await readBody(req)) || '{}')
+  const original = messageId ? messages.find(message => message.id === messageId) : undefined
+  const from = original?.to || String(phone || '').replace(/\D/g, '')
+
+  if (!text || !from) {
+    return sendJson(res, 400, { error: 'text and either a known messageId or phone are required' })
+  }
+
+  await postWebhook({
+    contacts: [{ profile: { name: 'Stub Customer' }, wa_id: from }],
+    messages: [{
+      from,
+      id: `wamid.${crypto.randomBytes(12).toString('hex')}`,
+      timestamp: Math.floor(Date.now() / 1000).toString(),
+      type: 'text',
+      text: { body: text },
+      ...(original ? { context: { from: PHONE_NUMBER_ID, id: original.id } } : {})
+    }]
+  })
+
+  sendJson(res, 200, { success: true })
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || '/', `http://localhost:${PORT}`)
+  const parts = url.pathname.split('/').filter(Boolean)
+
+  try {
+    if (req.method === 'GET' && url.pathname === '/messages') {
+      return sendJson(res, 200, { messages })
+    }
+    if (req.method === 'POST' && url.pathname === '/reply') {
+      return await handleReply(req, res)
+    }
+
+    // Graph API routes: /{version}/{id}[/{edge}]
+    if (ACCESS_TOKEN && req.headers.authorization !== `Bearer ${ACCESS_TOKEN}`) {
+      return graphError(res, 401, 190, 'Invalid OAuth access token')
+    }
+
+    const [, id, edge] = parts
+    if (req.method === 'POST' && edge === 'messages') {
+      return await handleSend(req, res)
+    }
+    if (req.method === 'GET' && edge === 'message_templates') {
+      return sendJson(res, 200, { data: TEMPLATES })
+    }
+    if (req.method === 'GET' && id && !edge) {
+      return sendJson(res, 200, {
+        id,
+        display_phone_number: '+1 555-000-0000',
+        verified_name: 'LoanStreet Stub',
+        quality_rating: 'GREEN'
+      })
+    }
+
+    graphError(res, 404, 100, `Unsupported request: ${req.method} ${url.pathname}`)
+  } catch (error) {
+    console.error('Stub request failed:', error)
+    sendJson(res, 500, { error: { message: 'Stub error', code: 1 } })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`WhatsApp Cloud API stub listening on http://localhost:${PORT}`)
+  console.log(`Posting webhooks to ${WEBHOOK_URL}`)
+})